@@ -21,6 +21,7 @@ import { log } from '@ext/winston';
 export class Application {
     private core: Core;
     private config: Partial<CoreConfig>;
+    private shutdownSignalsEnabled = false;
 
     constructor(config?: Partial<CoreConfig>) {
         this.core = Core.getInstance();
@@ -49,13 +50,41 @@ export class Application {
 
     /**
      * Stop the application gracefully
+     * @param reason 종료 사유 — 생명주기 종료 훅(onBeforeShutdown/onShutdown)에 전달된다
      */
-    public async stop(): Promise<void> {
+    public async stop(reason?: string): Promise<void> {
         log.Info('Stopping application...');
-        await this.core.stop();
+        await this.core.stop(reason);
         log.Info('Application stopped successfully');
     }
 
+    /**
+     * 종료 신호(기본 SIGTERM/SIGINT)를 받으면 graceful shutdown 후 프로세스를 종료한다.
+     * 정상 종료면 exit(0), 종료 중 에러면 exit(1).
+     * 신호마다 한 번만 처리하므로 같은 신호를 한 번 더 보내면 기본 동작(즉시 종료)이 된다.
+     */
+    public enableGracefulShutdown(signals: NodeJS.Signals[] = ['SIGTERM', 'SIGINT']): this {
+        if (this.shutdownSignalsEnabled) {
+            return this;
+        }
+        this.shutdownSignalsEnabled = true;
+
+        const onSignal = (signal: NodeJS.Signals) => {
+            log.Info(`Received ${signal}, shutting down gracefully...`);
+            this.stop(signal).then(
+                () => process.exit(0),
+                (error) => {
+                    log.Error('Graceful shutdown failed', { error, signal });
+                    process.exit(1);
+                },
+            );
+        };
+        for (const signal of signals) {
+            process.once(signal, onSignal);
+        }
+        return this;
+    }
+
     /**
      * Restart the application
      */
@@ -108,14 +137,14 @@ export class Application {
      * 반영하여 degraded 를 정직하게 노출한다.
      */
     public getHealthStatus() {
-        let status: 'healthy' | 'degraded' | 'stopped';
+        let status: 'healthy' | 'degraded' | 'draining' | 'stopped';
         let readiness: ReturnType<Core['getReadiness']> | undefined;
 
         if (!this.isRunning) {
             status = 'stopped';
         } else {
             readiness = this.core.getReadiness();
-            status = readiness.ready ? 'healthy' : 'degraded';
+            status = readiness.status;
         }
 
         return {
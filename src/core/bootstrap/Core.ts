@@ -2,22 +2,29 @@
 import express from 'express';
 import { Server } from 'http';
 import * as path from 'path';
-import { log } from '@ext/winston';
+import { log, registerLogTransport } from '@ext/winston';
 import { getElapsedTimeInString } from '@ext/util';
 import loadRoutes from '@lib/http/routing/loadRoutes_V6_Clean';
 import expressApp from '@core/bootstrap/expressAppSingleton';
 import { DocumentationGenerator } from '@lib/devtools/documentation/documentationGenerator';
 import { StaticFileMiddleware } from '@lib/devtools/documentation/staticFileMiddleware';
 import { prismaManager } from '@lib/data/database/prismaManager';
+import type { PoolStats } from '@lib/data/database/connectionPool';
 import { DependencyInjector } from '@lib/data/di/dependencyInjector';
 import { repositoryManager } from '@lib/data/database/repositoryManager';
 import { SchemaApiSetup } from '@lib/devtools/schema-api/schemaApiSetup';
 import { registerMonitor } from '@lib/devtools/monitor/monitorSetup';
+import { registerMetrics } from '@lib/metrics/metricsSetup';
 import { kustoInitMiddleware, globalErrorMiddleware } from '@lib/http/routing/frameworkMiddleware';
 import { clientIpMiddleware } from '@lib/http/routing/clientIpMiddleware';
+import { TenantScope } from '@lib/data/database/tenantScope';
 import loadExtensions from '@lib/extensions/loadExtensions';
 import { extensionRegistry } from '@lib/extensions/extensionRegistry';
 import type { ExtensionInitContext } from '@lib/extensions/extensionTypes';
+import { applicationLifecycle } from '@lib/lifecycle/applicationLifecycle';
+import { ConnectionDrainer } from '@core/bootstrap/connectionDrainer';
+import { TransactionCommitManager } from '@lib/data/database/transactionCommitManager';
+import { getDefaultSagaJournal } from '@lib/data/database/sagaJournal';
 
 export interface CoreConfig {
     basePath?: string;
@@ -27,6 +34,10 @@ export interface CoreConfig {
     port?: number;
     host?: string;
     trustProxy?: boolean;
+    /** graceful shutdown 시 처리 중 요청을 기다리는 최대 시간(ms). 초과하면 남은 연결을 강제로 닫는다 */
+    shutdownTimeoutMs?: number;
+    /** readiness 를 draining 으로 바꾼 뒤 listen 을 닫기 전까지 기다리는 시간(ms) — LB 가 엔드포인트를 뺄 시간 */
+    shutdownDelayMs?: number;
 }
 
 /**
@@ -46,6 +57,32 @@ export function resolveServerDefaults(): { port: number; host: string } {
     };
 }
 
+/**
+ * 종료 대기 시간(ms) 환경변수를 읽는다. 숫자가 아니거나 음수면 경고를 남기고 기본값을 쓴다
+ * (NaN 이 그대로 들어가면 드레인 타이머가 즉시 만료되어 처리 중 요청이 바로 끊긴다).
+ */
+function readDurationEnv(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') return fallback;
+
+    const parsed = Number(raw);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+        log.Warn(
+            `Invalid ${name} '${raw}' (expected non-negative milliseconds), using ${fallback}`,
+        );
+        return fallback;
+    }
+    return parsed;
+}
+
+/** graceful shutdown 기본값 (`SHUTDOWN_TIMEOUT_MS` 기본 25000, `SHUTDOWN_DELAY_MS` 기본 0) */
+export function resolveShutdownDefaults(): { shutdownTimeoutMs: number; shutdownDelayMs: number } {
+    return {
+        shutdownTimeoutMs: readDurationEnv('SHUTDOWN_TIMEOUT_MS', 25000),
+        shutdownDelayMs: readDurationEnv('SHUTDOWN_DELAY_MS', 0),
+    };
+}
+
 export class Core {
     private static instance: Core;
     private _app: Express;
@@ -55,6 +92,12 @@ export class Core {
     // P0-1: DB 연결 실패는 서버리스 lazy-reconnect 를 위해 부팅을 막지 않되(non-fatal),
     // degraded 상태로 기록하여 /healthz 와 health status 가 정직하게 노출하도록 한다.
     private _degraded: { prisma?: string } = {};
+    // stop() 이 onShutdown 까지 실행했다면, 다음 start() 는 onModuleInit 부터 다시 실행한다 (restart)
+    private _lifecycleShutDown = false;
+    private _drainer?: ConnectionDrainer;
+    // 종료 중에는 readiness 를 draining(503)으로 내려 오케스트레이터가 트래픽을 빼게 한다
+    private _draining = false;
+    private _stopping?: Promise<void>;
 
     private constructor() {
         this._app = expressApp.getApp();
@@ -79,6 +122,7 @@ export class Core {
             port,
             host,
             trustProxy: process.env.TRUST_PROXY === 'true',
+            ...resolveShutdownDefaults(),
         };
     }
 
@@ -114,7 +158,10 @@ export class Core {
         this.setupExpress();
         this.setupCoreMiddleware(); // 프레임워크 필수(req.kusto 주입 + clientIp) — 라우트보다 먼저
         await this.runExtensionInit(); // 확장 onInit(미들웨어/정적/서비스) — 라우트보다 먼저
+        await applicationLifecycle.run('onModuleInit'); // 리포지토리/모듈/확장 초기화 — 실패 시 부팅 중단
+        await this.recoverSagas(); // 저널에 남은 미완료 분산 트랜잭션 복구 — 단계 핸들러 등록(onModuleInit) 이후
         this.setupMonitor(); // dev 모니터(메트릭 미들웨어 + /__kusto/metrics) — 라우트보다 먼저
+        this.setupMetrics(); // opt-in Prometheus /metrics (METRICS_ENABLED) — 라우트보다 먼저
         this.setupHealthCheck(); // /healthz readiness (글로벌 라우트보다 먼저)
         this.setupDocumentationRoutes(); // 문서화 라우트를 먼저 등록
         await this.loadRoutes(); // await: 전역 에러 핸들러보다 라우트가 먼저 등록되도록 보장
@@ -190,6 +237,7 @@ export class Core {
             registerMiddleware: (mw) => {
                 this._app.use(mw);
             },
+            registerLogTransport,
             log,
         };
         await extensionRegistry.runInit(ctx);
@@ -285,10 +333,15 @@ export class Core {
             await this.initialize();
         }
 
+        if (this._lifecycleShutDown) {
+            await applicationLifecycle.run('onModuleInit');
+            this._lifecycleShutDown = false;
+        }
+
         const serverPort = port || this._config.port;
         const serverHost = host || this._config.host;
 
-        return new Promise<Server>((resolve, reject) => {
+        const server = await new Promise<Server>((resolve, reject) => {
             this._server = this._app.listen(serverPort, serverHost, () => {
                 log.Info('Server started successfully', {
                     port: serverPort,
@@ -298,45 +351,100 @@ export class Core {
                 resolve(this._server!);
             });
 
+            // 첫 연결보다 먼저 소켓 추적을 붙인다
+            this._drainer = new ConnectionDrainer(this._server);
+
             this._server.on('error', (error) => {
                 log.Error('Server failed to start', { error, port: serverPort, host: serverHost });
                 reject(error);
             });
         });
+
+        // 실패는 로그로 남기고 서버는 계속 동작한다
+        await applicationLifecycle.run('onApplicationReady');
+        return server;
     }
 
     /**
      * Stop the server gracefully
+     *
+     * 1. readiness 를 draining 으로 전환 (/healthz 503) 후 onBeforeShutdown 실행
+     * 2. `shutdownDelayMs` 동안 대기 (LB/k8s 가 엔드포인트를 제거할 시간)
+     * 3. 새 연결 수락 중단 + 유휴 keep-alive 소켓 종료, 처리 중 요청을 `shutdownTimeoutMs` 까지 대기
+     * 4. onShutdown 실행 → 마지막으로 Prisma 연결 해제 (처리 중 요청이 쿼리 도중 DB 를 잃지 않도록)
+     *
+     * 종료 중 다시 호출하면(신호 중복 등) 진행 중인 종료를 그대로 반환한다.
+     * @param reason 종료 사유 — 종료 단계 훅에 전달된다 (예: 'SIGTERM')
      */
-    public async stop(): Promise<void> {
+    public async stop(reason?: string): Promise<void> {
+        if (this._stopping) {
+            return this._stopping;
+        }
         if (!this._server) {
             log.Debug('Server is not running');
             return;
         }
 
-        // Disconnect all Prisma clients first
-        try {
-            log.Debug('Disconnecting Prisma Manager...');
-            await prismaManager.disconnectAll();
-            log.Debug('Prisma Manager disconnected successfully');
-        } catch (error) {
-            log.Error('Error disconnecting Prisma Manager', { error });
-        }
+        this._stopping = this.shutdown(reason).then(
+            () => {
+                this._stopping = undefined;
+            },
+            (error) => {
+                this._stopping = undefined;
+                throw error;
+            },
+        );
+        return this._stopping;
+    }
 
-        return new Promise((resolve) => {
-            this._server!.close(() => {
-                log.Info('Server stopped gracefully');
-                this._server = undefined;
-                resolve();
-            });
+    private async shutdown(reason?: string): Promise<void> {
+        const { shutdownTimeoutMs, shutdownDelayMs } = this._config;
+        this._draining = true;
+        log.Info('Graceful shutdown started', {
+            reason,
+            inFlight: this._drainer?.inFlight ?? 0,
+            timeoutMs: shutdownTimeoutMs,
         });
+
+        try {
+            await applicationLifecycle.run('onBeforeShutdown', { reason });
+
+            if (shutdownDelayMs > 0) {
+                await new Promise((resolve) => setTimeout(resolve, shutdownDelayMs));
+            }
+
+            const drainer = this._drainer ?? new ConnectionDrainer(this._server!);
+            const result = await drainer.drain(shutdownTimeoutMs);
+            if (result.timedOut) {
+                log.Warn('Shutdown deadline exceeded; remaining connections were closed', {
+                    timeoutMs: shutdownTimeoutMs,
+                    abortedRequests: result.abortedRequests,
+                });
+            }
+            log.Info('Server stopped gracefully');
+            this._server = undefined;
+            this._drainer = undefined;
+
+            await applicationLifecycle.run('onShutdown', { reason });
+            this._lifecycleShutDown = true;
+
+            try {
+                log.Debug('Disconnecting Prisma Manager...');
+                await prismaManager.disconnectAll();
+                log.Debug('Prisma Manager disconnected successfully');
+            } catch (error) {
+                log.Error('Error disconnecting Prisma Manager', { error });
+            }
+        } finally {
+            this._draining = false;
+        }
     }
 
     /**
      * Restart the server
      */
     public async restart(port?: number, host?: string): Promise<Server> {
-        await this.stop();
+        await this.stop('restart');
         return this.start(port, host);
     }
 
@@ -439,6 +547,29 @@ export class Core {
         }
     }
 
+    /**
+     * Saga 저널(SAGA_JOURNAL / setDefaultSagaJournal)이 설정돼 있으면, 이전 프로세스가 끝내지 못한
+     * 분산 트랜잭션을 이어서 실행하거나 보상한다. SAGA_RECOVERY=false 면 건너뛴다.
+     * 복구 실패는 운영자가 `kusto db sagas` 로 처리할 수 있도록 로그만 남기고 부팅을 계속한다.
+     */
+    private async recoverSagas(): Promise<void> {
+        if (process.env.SAGA_RECOVERY === 'false') return;
+        try {
+            if (!getDefaultSagaJournal()) return;
+            const results = await new TransactionCommitManager(prismaManager).recoverSagas();
+            const failed = results.filter(
+                (result) => result.status !== 'committed' && result.status !== 'compensated',
+            );
+            if (failed.length > 0) {
+                log.Error('Some sagas could not be recovered — run `kusto db sagas list`', {
+                    failed,
+                });
+            }
+        } catch (error) {
+            log.Error('Saga recovery failed', { error });
+        }
+    }
+
     /**
      * 애플리케이션 readiness 상태를 계산한다 (P0-1).
      *
@@ -452,11 +583,20 @@ export class Core {
      * - prismaManager 는 개별 DB 연결 실패를 내부에서 흡수하므로, degraded 사유는
      *   주로 getStatus().databases 의 미연결 목록에서 도출한다(_degraded.prisma 는
      *   prismaManager.initialize() 전체가 throw 한 드문 경우에만 채워진다).
+     * - graceful shutdown 중에는 DB 상태와 무관하게 draining(ready=false)이다.
      */
     public getReadiness(): {
         ready: boolean;
-        status: 'healthy' | 'degraded';
-        prisma: { connected: number; total: number; unconnected: string[]; error?: string };
+        status: 'healthy' | 'degraded' | 'draining';
+        draining: boolean;
+        prisma: {
+            connected: number;
+            total: number;
+            unconnected: string[];
+            error?: string;
+            /** DB별 커넥션 풀 상태 (드라이버 풀이 있는 DB 만) */
+            pools?: Record<string, PoolStats>;
+        };
     } {
         const prismaStatus = prismaManager.getStatus();
         const generated = (prismaStatus.databases ?? []).filter((d) => d.generated);
@@ -464,10 +604,14 @@ export class Core {
         const connected = generated.filter((d) => d.connected).length;
         const unconnected = generated.filter((d) => !d.connected).map((d) => d.name);
         const dbDegraded = !!this._degraded.prisma || unconnected.length > 0;
+        const pools = Object.fromEntries(
+            generated.filter((d) => d.pool).map((d) => [d.name, d.pool as PoolStats]),
+        );
 
         return {
-            ready: !dbDegraded,
-            status: dbDegraded ? 'degraded' : 'healthy',
+            ready: !dbDegraded && !this._draining,
+            status: this._draining ? 'draining' : dbDegraded ? 'degraded' : 'healthy',
+            draining: this._draining,
             prisma: {
                 connected,
                 total,
@@ -477,13 +621,14 @@ export class Core {
                     (unconnected.length
                         ? `unconnected databases: ${unconnected.join(', ')}`
                         : undefined),
+                ...(Object.keys(pools).length > 0 ? { pools } : {}),
             },
         };
     }
 
     /**
      * /healthz readiness 엔드포인트 등록 (P0-1).
-     * 완전 정상일 때만 200, degraded 면 503 을 반환하여
+     * 완전 정상일 때만 200, degraded / draining(종료 중) 이면 503 을 반환하여
      * 오케스트레이터(k8s/LB/서버리스 워머)가 트래픽을 게이팅할 수 있게 한다.
      * 글로벌 라우트 미들웨어(DB 의존)보다 먼저, 직접 app 에 등록한다.
      */
@@ -491,7 +636,7 @@ export class Core {
         this._app.get('/healthz', (_req, res) => {
             const readiness = this.getReadiness();
             res.status(readiness.ready ? 200 : 503).json({
-                status: readiness.ready ? 'ok' : 'degraded',
+                status: readiness.ready ? 'ok' : readiness.status,
                 ready: readiness.ready,
                 prisma: readiness.prisma,
             });
@@ -500,11 +645,12 @@ export class Core {
 
     /**
      * 프레임워크 필수 미들웨어를 라우트보다 먼저 등록한다(Core 소유).
-     * req.kusto 주입 → clientIp 해석 순서. 이후 app 의 글로벌 미들웨어/라우트가 이를 사용한다.
+     * req.kusto 주입 → clientIp 해석 → 테넌트 컨텍스트 전파 순서. 이후 app 의 글로벌 미들웨어/라우트가 이를 사용한다.
      */
     private setupCoreMiddleware(): void {
         this._app.use(kustoInitMiddleware);
         this._app.use(clientIpMiddleware);
+        this._app.use(TenantScope.middleware);
     }
 
     /** dev 모니터 등록(메트릭 수집 미들웨어 + /__kusto/metrics). dev·localhost 전용. */
@@ -515,6 +661,7 @@ export class Core {
             getReadiness: () => {
                 const r = this.getReadiness();
                 const degraded =
+                    (r.draining ? 'draining' : undefined) ||
                     r.prisma.error ||
                     (r.prisma.unconnected.length
                         ? `unconnected: ${r.prisma.unconnected.join(', ')}`
@@ -525,6 +672,11 @@ export class Core {
         });
     }
 
+    /** 운영용 Prometheus /metrics 등록(opt-in, METRICS_ENABLED=true). */
+    private setupMetrics(): void {
+        registerMetrics(this._app, { getReadiness: () => this.getReadiness() });
+    }
+
     /** Express 라우터 스택에서 등록된 라우트 수(best-effort). */
     private countRoutes(): number {
         const stack = (this._app as unknown as { _router?: { stack?: Array<{ route?: unknown }> } })
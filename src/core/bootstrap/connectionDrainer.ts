@@ -0,0 +1,98 @@
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { Socket } from 'net';
+
+export interface DrainResult {
+    /** 기한 안에 모든 연결이 끝나지 않아 남은 소켓을 강제로 닫았는지 */
+    timedOut: boolean;
+    /** 기한 초과 시점에 처리 중이던 요청 수 (정상 종료면 0) */
+    abortedRequests: number;
+}
+
+/**
+ * HTTP 서버의 소켓별 처리 중 요청 수를 추적해 graceful shutdown 시 연결을 비운다.
+ *
+ * `server.close()` 만으로는 keep-alive 소켓이 다음 요청을 계속 받을 수 있고,
+ * 처리 중 요청이 끝나지 않으면 close 콜백이 영원히 호출되지 않는다.
+ * drain() 은 새 연결 수락을 멈추고, 유휴 keep-alive 소켓을 닫고, 처리 중 응답에는
+ * `Connection: close` 를 붙여 응답 후 소켓이 닫히게 한 뒤 기한까지 기다린다.
+ */
+export class ConnectionDrainer {
+    // 소켓 → 그 소켓에서 처리 중인 응답
+    private readonly sockets = new Map<Socket, Set<ServerResponse>>();
+    private draining = false;
+
+    constructor(private readonly server: Server) {
+        server.on('connection', (socket: Socket) => {
+            this.sockets.set(socket, new Set());
+            socket.once('close', () => this.sockets.delete(socket));
+        });
+
+        server.on('request', (req: IncomingMessage, res: ServerResponse) => {
+            const socket = req.socket;
+            let active = this.sockets.get(socket);
+            if (!active) {
+                active = new Set();
+                this.sockets.set(socket, active);
+            }
+            active.add(res);
+            if (this.draining) this.closeAfterResponse(res);
+
+            res.once('close', () => {
+                active!.delete(res);
+                // 헤더를 이미 보낸 뒤 drain 이 시작된 응답은 Connection: close 를 못 붙였으므로 직접 닫는다
+                if (this.draining && active!.size === 0) socket.end();
+            });
+        });
+    }
+
+    /** 현재 처리 중인 요청 수 */
+    get inFlight(): number {
+        let count = 0;
+        for (const active of this.sockets.values()) count += active.size;
+        return count;
+    }
+
+    get isDraining(): boolean {
+        return this.draining;
+    }
+
+    /**
+     * 새 연결 수락을 멈추고 처리 중 요청이 끝나기를 `timeoutMs` 까지 기다린다.
+     * 기한을 넘기면 남은 소켓을 강제로 닫는다.
+     */
+    drain(timeoutMs: number): Promise<DrainResult> {
+        this.draining = true;
+
+        return new Promise<DrainResult>((resolve) => {
+            let settled = false;
+            const finish = (result: DrainResult) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                resolve(result);
+            };
+
+            const timer = setTimeout(() => {
+                const abortedRequests = this.inFlight;
+                for (const socket of this.sockets.keys()) socket.destroy();
+                finish({ timedOut: true, abortedRequests });
+            }, timeoutMs);
+
+            this.server.close(() => finish({ timedOut: false, abortedRequests: 0 }));
+
+            for (const [socket, active] of this.sockets) {
+                if (active.size === 0) {
+                    // 유휴 keep-alive 소켓은 바로 닫는다
+                    socket.end();
+                } else {
+                    active.forEach((res) => this.closeAfterResponse(res));
+                }
+            }
+        });
+    }
+
+    /** 응답이 끝나면 keep-alive 를 유지하지 않고 소켓을 닫도록 표시한다 */
+    private closeAfterResponse(res: ServerResponse): void {
+        if (!res.headersSent) res.setHeader('Connection', 'close');
+    }
+}
@@ -100,10 +100,57 @@ function databasesContent(snap: MonitorSnapshot): string[] {
     if (snap.databases.length === 0) return [dim('(none)')];
     return snap.databases.map((db) => {
         const dot = db.connected ? green('●') : red('●');
-        return `${dot} ${padEnd(db.name, 14)} ${padEnd(dim(db.provider), 14)} ${dim('rc:' + db.reconnectAttempts)}`;
+        const line = `${dot} ${padEnd(db.name, 14)} ${padEnd(dim(db.provider), 14)} ${dim('rc:' + db.reconnectAttempts)}`;
+        return db.pool ? `${line} ${poolSummary(db.pool)}` : line;
     });
 }
 
+/** `pool 3/10 idle 1 wait 0` — 대기 요청은 노랑, 풀 타임아웃(P2024)이 있으면 빨강으로 덧붙인다 */
+function poolSummary(pool: NonNullable<MonitorSnapshot['databases'][number]['pool']>): string {
+    const size = pool.max !== undefined ? `${pool.total}/${pool.max}` : String(pool.total);
+    const wait = pool.waiting > 0 ? yellow(`wait ${pool.waiting}`) : dim(`wait ${pool.waiting}`);
+    const timeouts = pool.timeouts > 0 ? ' ' + red(`P2024 ${pool.timeouts}`) : '';
+    return `${dim('pool')} ${size} ${dim('idle ' + pool.idle)} ${wait}${timeouts}`;
+}
+
+const DB_PANEL_TOP = 4; // DB 패널에 보여줄 상위 쿼리 수
+
+function dbContent(snap: MonitorSnapshot, innerW: number): string[] {
+    const q = snap.queries;
+    // 쿼리 메트릭이 없는(구버전) 서버와도 호환
+    if (!q) return [dim('(query metrics unavailable)')];
+    const slowLabel = q.slowThresholdMs > 0 ? `slow≥${q.slowThresholdMs}ms` : 'slow off';
+    const slowCount = q.databases.reduce((n, db) => n + db.slow, 0);
+    const perDb = q.databases
+        .map((db) => `${db.database} ${commafy(db.count)} ${dim('p95 ' + db.p95 + 'ms')}`)
+        .join('  ');
+    const lines = [
+        `queries ${bold(commafy(q.total))}  ${q.errors ? red('err ' + q.errors) : dim('err 0')}  ${slowCount ? yellow(slowLabel + ' ' + slowCount) : dim(slowLabel + ' 0')}  ${perDb}`,
+    ];
+    if (q.top.length === 0) {
+        lines.push(dim('(no queries yet)'));
+        return lines;
+    }
+    // 12(count+avg) + 24(p50/p95/max) ≈ 36 → 나머지 폭을 쿼리 이름에
+    const nameW = Math.max(12, innerW - 40);
+    for (const t of q.top.slice(0, DB_PANEL_TOP)) {
+        const name = `${t.database}.${t.model}.${t.operation}`;
+        const err = t.errors ? red(` ✗${t.errors}`) : '';
+        lines.push(
+            `${padEnd(name, nameW)} ${padStart(commafy(t.count), 6)}× ${padStart(t.avgMs + 'ms', 8)} ${dim('p95 ' + t.p95 + ' max ' + t.maxMs)}${err}`,
+        );
+    }
+    const last = q.recentSlow[0];
+    if (last) {
+        lines.push(
+            yellow(
+                `last slow ${last.database}.${last.model}.${last.operation} ${last.durationMs}ms`,
+            ),
+        );
+    }
+    return lines;
+}
+
 function appContent(snap: MonitorSnapshot): string[] {
     const a = snap.app;
     const onoff = (b: boolean) => (b ? green('on') : dim('off'));
@@ -156,11 +203,15 @@ export function renderFrame(snap: MonitorSnapshot | null, opts: RenderOptions):
         boxLines('APP', appContent(snap), w, 2).forEach((l) => lines.push(' ' + l));
     }
 
+    const w = cols - 1,
+        iw = w - 4;
+
+    // ── DB box (쿼리 메트릭, full width) ────────────────────────────────
+    boxLines('DB', dbContent(snap, iw), w).forEach((l) => lines.push(' ' + l));
+
     // ── RECENT box (남은 높이만큼) ──────────────────────────────────────
     const footerRows = 1;
     const recentInnerH = Math.max(1, rows - lines.length - footerRows - 2); // -2: 박스 테두리
-    const w = cols - 1,
-        iw = w - 4;
     // 6(method) +1 + PW(path) +1 + 3(status) +1 + 7(dur) = PW+19 ≤ innerW(iw)
     const pathW = Math.max(8, iw - 19);
     const recentLines = snap.requests.recent.slice(0, recentInnerH).map((req) => {
@@ -3,6 +3,7 @@ import DailyRotateFile from 'winston-daily-rotate-file';
 import { TransformableInfo } from 'logform';
 import path from 'path';
 import fs from 'fs';
+import { getRequestId } from '@lib/http/requestContext';
 
 // ── 로그 레벨 / 색상(ANSI) / 이모지 정의 ──────────────────────────
 const LOG_SETTINGS = {
@@ -295,48 +296,132 @@ export function safeStringify(value: unknown, opts: SafeStringifyOptions = {}):
 // ── 포맷 ─────────────────────────────────────────────────────────
 const COLOR_ENABLED = isColorEnabled();
 
-function getLogFormat(): winston.Logform.Format {
-    const isProduction = process.env.NODE_ENV === 'production';
-
-    return format.combine(
-        format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss.SSS' }),
-        format.errors({ stack: true }),
-        format.printf((info: TransformableInfo) => {
-            const { timestamp, level, message, stack, ...meta } = info;
-            const levelLabel = String(level).toUpperCase();
-
-            if (isProduction) {
-                // 프로덕션: JSON 한 줄 (안전 직렬화 + 민감정보 마스킹)
-                return safeStringify({
-                    timestamp,
-                    level: levelLabel,
-                    message,
-                    ...(stack ? { stack } : {}),
-                    ...meta,
-                });
-            }
+// winston(triple-beam) 이 쓰는 심볼 — 최종 출력 문자열과 원래 레벨
+const MESSAGE = Symbol.for('message');
+const LEVEL = Symbol.for('level');
 
-            // 개발: 사람이 읽기 좋은 라인 (TTY 일 때만 색상)
-            const color = COLOR_ENABLED ? customColors[level as string] || '' : '';
-            const reset = COLOR_ENABLED ? RESET_COLOR : '';
-            const emoji = customEmojis[level as string] || '';
+/** 출력 형식: json = 한 줄 JSON(로그 수집기용), pretty = 사람이 읽는 라인 */
+export type LogFormat = 'json' | 'pretty';
 
-            let logLine = `${timestamp} ${emoji} ${color}[${levelLabel}]${reset}: ${color}${message}${reset}`;
-            if (stack) {
-                logLine += `\n${color}${stack}${reset}`;
-            }
-            if (Object.keys(meta).length > 0) {
-                logLine += `\n${color}${safeStringify(meta, { space: 2 })}${reset}`;
-            }
-            return logLine;
-        }),
+/**
+ * 출력 형식을 결정한다.
+ * 우선순위: LOG_FORMAT(json|pretty) > 환경별 기본값(production=json, 그 외=pretty).
+ */
+export function resolveLogFormat(env: NodeJS.ProcessEnv = process.env): LogFormat {
+    const explicit = env.LOG_FORMAT?.trim().toLowerCase();
+    if (explicit === 'json' || explicit === 'pretty') return explicit;
+    return env.NODE_ENV === 'production' ? 'json' : 'pretty';
+}
+
+/**
+ * 요청 처리 중에 남긴 로그에 현재 요청 ID 를 `requestId` 로 붙인다(AsyncLocalStorage).
+ * 호출측이 meta 에 requestId 를 직접 넣었으면 그 값을 유지한다.
+ */
+export const requestIdFormat = format((info) => {
+    if (info.requestId === undefined) {
+        const requestId = getRequestId();
+        if (requestId) info.requestId = requestId;
+    }
+    return info;
+});
+
+/**
+ * JSON 로그 레코드(필드명 고정).
+ * `timestamp`(ISO 8601 UTC) · `level`(대문자 레벨명) · `message` · `requestId`(요청 안일 때) ·
+ * `stack`(에러일 때) 뒤에 meta 가 최상위 키로 온다. meta 키가 고정 필드와 겹치면 고정 필드가 남는다.
+ * meta 는 toSafeJson 으로 직렬화 안전화 + 민감키 마스킹을 거친다.
+ */
+export function toLogRecord(
+    info: TransformableInfo,
+    env: NodeJS.ProcessEnv = process.env,
+): Record<string, unknown> {
+    const { timestamp, level, message, stack, requestId, ...meta } = info;
+    const safeMeta = toSafeJson(meta, { isSensitive: buildSensitiveMatcher(env) }) as Record<
+        string,
+        unknown
+    >;
+    const record: Record<string, unknown> = {
+        timestamp: timestamp ?? new Date().toISOString(),
+        level: String(level).toUpperCase(),
+        message: toSafeJson(message),
+        ...(requestId ? { requestId } : {}),
+        ...(stack ? { stack } : {}),
+    };
+    for (const key of Object.keys(safeMeta)) {
+        if (!(key in record)) record[key] = safeMeta[key];
+    }
+    return record;
+}
+
+/**
+ * 한 줄 JSON 출력 포맷. 결과 info 의 필드도 마스킹된 레코드로 바뀌므로,
+ * 문자열 대신 객체를 그대로 전송하는 transport(HTTP 등)에도 민감정보가 새지 않는다.
+ */
+export const jsonLineFormat = format((info) => {
+    const record = toLogRecord(info);
+    let line: string;
+    try {
+        line = JSON.stringify(record);
+    } catch (err) {
+        line = JSON.stringify({
+            timestamp: record.timestamp,
+            level: record.level,
+            message: `[Unserializable: ${(err as Error)?.message ?? 'error'}]`,
+        });
+    }
+    return Object.assign(record, {
+        [LEVEL]: (info as Record<symbol, unknown>)[LEVEL],
+        [MESSAGE]: line,
+    }) as unknown as TransformableInfo;
+});
+
+/** ISO 타임스탬프 → 로컬 'YYYY-MM-DD HH:mm:ss.SSS' (pretty 출력용) */
+function localTimestamp(iso: unknown): string {
+    const date = new Date(String(iso));
+    if (Number.isNaN(date.getTime())) return String(iso ?? '');
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return (
+        `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+        `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`
     );
 }
 
+/** 사람이 읽기 좋은 라인 출력 포맷 (color 는 콘솔이 TTY 일 때만) */
+function prettyFormat(color: boolean): winston.Logform.Format {
+    return format.printf((info: TransformableInfo) => {
+        const { timestamp, level, message, stack, requestId, ...meta } = info;
+        const levelLabel = String(level).toUpperCase();
+        const levelColor = color ? customColors[level as string] || '' : '';
+        const reset = color ? RESET_COLOR : '';
+        const emoji = customEmojis[level as string] || '';
+
+        const requestTag = requestId ? ` (${requestId})` : '';
+        let logLine = `${localTimestamp(timestamp)} ${emoji} ${levelColor}[${levelLabel}]${reset}${requestTag}: ${levelColor}${message}${reset}`;
+        if (stack) {
+            logLine += `\n${levelColor}${stack}${reset}`;
+        }
+        if (Object.keys(meta).length > 0) {
+            logLine += `\n${levelColor}${safeStringify(meta, { space: 2 })}${reset}`;
+        }
+        return logLine;
+    });
+}
+
+/** 로거 공통 전처리: ISO 타임스탬프 · Error 스택 · 요청 ID. 출력 형식은 transport 별로 붙인다. */
+const baseFormat = format.combine(
+    format.timestamp(),
+    format.errors({ stack: true }),
+    requestIdFormat(),
+);
+
 // ── 트랜스포트 / 로거 인스턴스 ────────────────────────────────────
+const LOG_FORMAT = resolveLogFormat();
 const LOG_DIR = path.resolve(process.env.LOG_DIR || './logs');
 const LOG_MAX_SIZE = process.env.LOG_MAX_SIZE || '20m';
 const LOG_MAX_FILES = process.env.LOG_MAX_FILES || '30d';
+// 회전 주기: 'YYYY-MM-DD' = 일 단위, 'YYYY-MM-DD-HH' = 시간 단위
+const LOG_DATE_PATTERN = process.env.LOG_DATE_PATTERN || 'YYYY-MM-DD';
+const LOG_ZIP = process.env.LOG_ZIP !== 'false';
 const FILE_LEVEL = ((): LogLevelName => {
     const lvl = normalizeLevel(process.env.LOG_FILE_LEVEL);
     return lvl && lvl !== 'silent' ? lvl : 'Info';
@@ -359,7 +444,8 @@ function ensureLogDirectory(dir: string): boolean {
     }
 }
 
-let fileLoggingEnabled = ensureLogDirectory(LOG_DIR);
+// LOG_FILE=false 면 파일 로깅을 끈다(컨테이너에서 stdout 만 수집하는 경우).
+let fileLoggingEnabled = process.env.LOG_FILE !== 'false' && ensureLogDirectory(LOG_DIR);
 const consoleLevel = resolveConsoleLevel();
 const consoleSilent = consoleLevel === 'silent';
 
@@ -367,11 +453,15 @@ const activeTransports: winston.transport[] = [
     new transports.Console({
         level: consoleSilent ? 'Error' : consoleLevel,
         silent: consoleSilent,
+        format: LOG_FORMAT === 'json' ? jsonLineFormat() : prettyFormat(COLOR_ENABLED),
         handleExceptions: true,
         handleRejections: true,
     }),
 ];
 
+// 파일/stderr 에는 ANSI 색을 넣지 않는다.
+const plainFormat = () => (LOG_FORMAT === 'json' ? jsonLineFormat() : prettyFormat(false));
+
 if (fileLoggingEnabled) {
     // ensureLogDirectory 이후의 TOCTOU(디렉토리 삭제/권한 변경) 도 graceful 하게 강등한다.
     try {
@@ -380,10 +470,11 @@ if (fileLoggingEnabled) {
                 level: FILE_LEVEL,
                 dirname: LOG_DIR,
                 filename: '%DATE%.log',
-                datePattern: 'YYYY-MM-DD',
-                zippedArchive: true,
+                datePattern: LOG_DATE_PATTERN,
+                zippedArchive: LOG_ZIP,
                 maxSize: LOG_MAX_SIZE,
                 maxFiles: LOG_MAX_FILES,
+                format: plainFormat(),
                 handleExceptions: true,
                 handleRejections: true,
             }),
@@ -391,10 +482,11 @@ if (fileLoggingEnabled) {
                 level: 'Error',
                 dirname: LOG_DIR,
                 filename: 'error-%DATE%.log',
-                datePattern: 'YYYY-MM-DD',
-                zippedArchive: true,
+                datePattern: LOG_DATE_PATTERN,
+                zippedArchive: LOG_ZIP,
                 maxSize: LOG_MAX_SIZE,
                 maxFiles: LOG_MAX_FILES,
+                format: plainFormat(),
                 handleExceptions: true,
                 handleRejections: true,
             }),
@@ -411,17 +503,23 @@ const loggerOptions: winston.LoggerOptions = {
     levels: customLevels as unknown as winston.config.AbstractConfigSetLevels,
     // 가장 자세한 레벨로 두고 실제 필터링은 각 transport 의 level 에 위임한다.
     level: 'Silly',
-    format: getLogFormat(),
+    format: baseFormat,
     transports: activeTransports,
     exitOnError: false,
 };
 
 if (fileLoggingEnabled) {
     loggerOptions.exceptionHandlers = [
-        new transports.File({ filename: path.join(LOG_DIR, 'exceptions.log') }),
+        new transports.File({
+            filename: path.join(LOG_DIR, 'exceptions.log'),
+            format: plainFormat(),
+        }),
     ];
     loggerOptions.rejectionHandlers = [
-        new transports.File({ filename: path.join(LOG_DIR, 'rejections.log') }),
+        new transports.File({
+            filename: path.join(LOG_DIR, 'rejections.log'),
+            format: plainFormat(),
+        }),
     ];
 } else if (consoleSilent) {
     // 콘솔도 silent, 파일도 불가한 경우에도 크래시 로그가 완전히 사라지지 않도록
@@ -429,6 +527,7 @@ if (fileLoggingEnabled) {
     const stderrHandler = new transports.Console({
         level: 'Error',
         stderrLevels: ['error', 'Error'],
+        format: plainFormat(),
     });
     loggerOptions.exceptionHandlers = [stderrHandler];
     loggerOptions.rejectionHandlers = [stderrHandler];
@@ -443,6 +542,20 @@ log.on('error', (err: Error) => {
     process.stderr.write(`[winston] transport error: ${err?.message ?? String(err)}\n`);
 });
 
+/**
+ * 로거에 transport 를 추가한다 (확장의 onInit 에서 `ctx.registerLogTransport` 로 호출).
+ * transport 에 format 이 없으면 한 줄 JSON({@link jsonLineFormat}) 을 붙여,
+ * 고정 필드명 + 민감키 마스킹이 적용된 레코드를 받게 한다. 같은 인스턴스를 두 번 등록하면 무시한다.
+ * @returns 등록 해제 함수
+ */
+export function registerLogTransport(transport: winston.transport): () => void {
+    if (!transport.format) transport.format = jsonLineFormat();
+    if (!log.transports.includes(transport)) log.add(transport);
+    return () => {
+        log.remove(transport);
+    };
+}
+
 // ── 로거 유틸리티 함수들 ─────────────────────────────────────────
 export const logger = {
     /** 성능 측정을 위한 타이머 시작 */
@@ -10,7 +10,8 @@ export { ErrorFormatter } from '@lib/http/errors/errorFormatter';
 
 // Router and utilities
 export { ExpressRouter, injectedMiddleware } from '@lib/http/routing/expressRouter';
-export { log, logger } from '@ext/winston';
+export { log, logger, registerLogTransport } from '@ext/winston';
+export type { LogFormat } from '@ext/winston';
 export * from '@ext/util';
 
 // Global middleware policy (정책 스택 — app/routes/middleware.ts 에서 spread 해서 사용)
@@ -18,6 +19,162 @@ export { defaultGlobalMiddleware, resolveCorsWhitelist } from '@lib/http/routing
 export type { GlobalMiddlewareOptions } from '@lib/http/routing/globalMiddleware';
 export { clientIpMiddleware } from '@lib/http/routing/clientIpMiddleware';
 
+// Request context (X-Request-Id 상관관계 ID — AsyncLocalStorage 로 요청 전체에 전파)
+export {
+    getRequestContext,
+    getRequestId,
+    runWithRequestContext,
+    REQUEST_ID_HEADER,
+} from '@lib/http/requestContext';
+export type { RequestContext } from '@lib/http/requestContext';
+
+// HTTP 캐시 (ETag / Last-Modified / Cache-Control)
+export {
+    cacheControl,
+    formatCacheControl,
+    sendConditionalJson,
+    documentETag,
+    resolveLastModified,
+} from '@lib/http/caching/httpCache';
+export type { CacheOption, CacheControlDirectives } from '@lib/http/caching/httpCache';
+
+// 레이트 리밋 (전역 / 라우트 / CRUD 액션의 rateLimit 옵션)
+export {
+    rateLimit,
+    setDefaultRateLimitStore,
+    getDefaultRateLimitStore,
+} from '@lib/http/rateLimiting/rateLimit';
+export type {
+    RateLimitOptions,
+    RateLimitAlgorithm,
+    RateLimitKey,
+} from '@lib/http/rateLimiting/rateLimit';
+export { MemoryRateLimitStore } from '@lib/http/rateLimiting/rateLimitStore';
+export type {
+    RateLimitStore,
+    WindowState,
+    TokenBucketParams,
+    BucketState,
+} from '@lib/http/rateLimiting/rateLimitStore';
+
+// 인증 (앱 부팅 시 Auth.configure({ strategies }) 1회 호출, 라우터에서 router.AUTH())
+export { Auth } from '@lib/http/auth/auth';
+export type { AuthConfig, AuthRequirement } from '@lib/http/auth/auth';
+export {
+    jwtStrategy,
+    apiKeyStrategy,
+    sessionStrategy,
+    toKustoUser,
+} from '@lib/http/auth/authStrategies';
+export type {
+    KustoUser,
+    AuthIdentity,
+    AuthStrategy,
+    JwtStrategyOptions,
+    ApiKeyEntry,
+    ApiKeyStrategyOptions,
+    SessionRecord,
+    SessionRepository,
+    SessionStrategyOptions,
+} from '@lib/http/auth/authStrategies';
+export { signJwt, verifyJwt } from '@lib/http/auth/jwt';
+export type {
+    JwtAlgorithm,
+    JwtKey,
+    JwtKeySource,
+    JwtClaims,
+    JwtVerifyOptions,
+    JwtSignOptions,
+} from '@lib/http/auth/jwt';
+
+// 멱등성 키 (POST 계열 라우트 / CRUD create·atomic 의 idempotency 옵션)
+export {
+    idempotency,
+    setDefaultIdempotencyStore,
+    getDefaultIdempotencyStore,
+    requestFingerprint,
+} from '@lib/http/idempotency/idempotency';
+export type { IdempotencyOptions, IdempotencyOption } from '@lib/http/idempotency/idempotency';
+export {
+    MemoryIdempotencyStore,
+    PrismaIdempotencyStore,
+} from '@lib/http/idempotency/idempotencyStore';
+export type {
+    IdempotencyStore,
+    IdempotencyRecord,
+    StoredResponse,
+    PrismaIdempotencyStoreOptions,
+} from '@lib/http/idempotency/idempotencyStore';
+
+// CRUD 낙관적 동시성 (router.CRUD 의 concurrency 옵션)
+export { parseIfMatch, assertIfMatch } from '@lib/crud/optimisticConcurrency';
+export type { CrudConcurrencyOptions } from '@lib/crud/optimisticConcurrency';
+
+// 읽기 복제본 ({NAME}__KUSTO_RDB_REPLICA_URLS — getWrap 읽기를 복제본으로, usePrimary 로 primary 고정)
+export { usePrimary } from '@lib/data/database/readReplicas';
+export type {
+    ReplicaSelection,
+    ReplicaStatus,
+    ReplicaHealth,
+} from '@lib/data/database/readReplicas';
+
+// 커넥션 풀 설정 (DB 폴더의 kusto.db.ts / {NAME}__KUSTO_RDB_POOL_*) 과 풀 상태
+export { defineDatabaseConfig } from '@lib/data/database/connectionPool';
+export type {
+    DatabasePoolConfig,
+    KustoDatabaseConfig,
+    PoolStats,
+} from '@lib/data/database/connectionPool';
+
+// 작업 단위 (ambient transaction — 같은 DB 의 리포지터리 / kusto.db 가 트랜잭션을 공유)
+export { UnitOfWork } from '@lib/data/database/unitOfWork';
+export type {
+    UnitOfWorkOptions,
+    TransactionPropagation,
+    TransactionIsolationLevel,
+    AfterCommitCallback,
+} from '@lib/data/database/unitOfWork';
+
+// 분산 트랜잭션 Saga 저널 (SAGA_JOURNAL 또는 setDefaultSagaJournal, 단계 핸들러는 registerSagaStep)
+export {
+    FileSagaJournal,
+    PrismaSagaJournal,
+    createSagaJournal,
+    setDefaultSagaJournal,
+    getDefaultSagaJournal,
+    registerSagaStep,
+} from '@lib/data/database/sagaJournal';
+export type {
+    SagaJournal,
+    SagaRecord,
+    SagaStatus,
+    SagaStepRecord,
+    SagaStepState,
+    SagaStepHandlers,
+    SagaListFilter,
+    FileSagaJournalOptions,
+    PrismaSagaJournalOptions,
+} from '@lib/data/database/sagaJournal';
+export type {
+    SagaRecoveryOptions,
+    SagaRecoveryResult,
+} from '@lib/data/database/transactionCommitManager';
+
+// 트랜잭셔널 아웃박스 (BaseRepository.$emit / CRUD events 옵션 → 커밋 후 디스패처가 배달)
+export { Outbox } from '@lib/data/outbox/outbox';
+export type {
+    OutboxConfig,
+    OutboxEmitOptions,
+    OutboxMessage,
+    OutboxSubscriber,
+    OutboxTransport,
+} from '@lib/data/outbox/outbox';
+export type { CrudEventOption } from '@lib/http/routing/expressRouter';
+
+// Multi-tenant row scope (앱 부팅 시 TenantScope.configure({ resolve }) 1회 호출)
+export { TenantScope } from '@lib/data/database/tenantScope';
+export type { TenantScopeConfig, TenantId } from '@lib/data/database/tenantScope';
+
 // Extension system (CoC 확장 — src/app/extensions/ 에서 활성화)
 export { defineExtension, isKustoExtension } from '@lib/extensions/extensionTypes';
 export type {
@@ -31,6 +188,18 @@ export type {
 export { extensionRegistry } from '@lib/extensions/extensionRegistry';
 export { default as loadExtensions } from '@lib/extensions/loadExtensions';
 
+// Prometheus 메트릭 (METRICS_ENABLED=true 일 때 /metrics 노출, 커스텀 메트릭 등록 가능)
+export { metricsRegistry, Counter, Gauge, Histogram } from '@lib/metrics/metricsRegistry';
+export type { MetricsOptions } from '@lib/metrics/metricsSetup';
+
+// Lifecycle hooks (모듈 / 리포지토리 / 확장 공통)
+export { applicationLifecycle } from '@lib/lifecycle/applicationLifecycle';
+export type {
+    LifecycleHooks,
+    LifecyclePhase,
+    LifecycleHookFailure,
+} from '@lib/lifecycle/applicationLifecycle';
+
 // Schema API (개발 모드 전용)
 export { CrudSchemaRegistry } from '@lib/devtools/schema-api/crudSchemaRegistry';
 export { PrismaSchemaAnalyzer } from '@lib/devtools/schema-api/prismaSchemaAnalyzer';
@@ -45,10 +214,13 @@ export {
     ValidationError,
     Schema,
     FieldSchema,
+    UnknownFieldsMode,
 } from '@lib/http/validation/validator';
+export { StandardSchemaV1, isStandardSchema } from '@lib/http/validation/standardSchema';
 export {
     RequestHandler,
     RequestConfig,
+    RequestSchema,
     ResponseConfig,
     ValidatedRequest,
     createValidatedHandler,
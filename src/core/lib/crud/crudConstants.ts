@@ -15,6 +15,9 @@ export const DEFAULT_SOFT_DELETE_FIELD = 'deletedAt';
 /** index 페이지네이션 기본 페이지 크기 */
 export const DEFAULT_PAGE_SIZE = 10;
 
+/** 파싱된 filter 에서 OR 그룹(`filter[or][n][...]`)을 담는 키 */
+export const FILTER_OR_KEY = '_or';
+
 /** 기본 CRUD 액션 (recover 제외) */
 export const CRUD_ACTIONS: readonly string[] = ['index', 'show', 'create', 'update', 'destroy'];
 
@@ -6,7 +6,8 @@ import { ERROR_CODES, PRISMA_CANONICAL_ERROR_MAP } from '@lib/http/errors/errorC
 import { JSON_API_VERSION } from '@lib/crud/jsonApiConstants';
 import { removeSensitiveInformation, sanitizePrismaMessage } from '@lib/http/errors/errorSanitizer';
 import { isUuid } from '@lib/crud/primaryKeyParsers';
-import { DEFAULT_PRIMARY_KEY, DEFAULT_PAGE_SIZE } from '@lib/crud/crudConstants';
+import { isCursorPage, CursorPageInfo } from '@lib/crud/cursorPagination';
+import { DEFAULT_PRIMARY_KEY, DEFAULT_PAGE_SIZE, FILTER_OR_KEY } from '@lib/crud/crudConstants';
 import { getImplementationString } from '@lib/config/packageInfo';
 
 /**
@@ -16,6 +17,9 @@ import { getImplementationString } from '@lib/config/packageInfo';
 // JSON:API meta.implementation 문자열 — 단일 출처(@lib/config/packageInfo)에서 파생.
 const IMPLEMENTATION = getImplementationString();
 
+// 숫자로 변환하지 않고 문자열 그대로 보존하는 page 키 (keyset 커서)
+const CURSOR_PAGE_KEYS = ['cursor', 'after', 'before'];
+
 export interface CrudQueryParams {
     include?: string[];
     select?: string[]; // 필드 선택 파라미터 추가
@@ -185,6 +189,11 @@ export interface PageParam {
     size?: number;
     offset?: number;
     limit?: number;
+    /** keyset 커서 - 이 커서 다음 행부터 조회 (빈 문자열이면 첫 페이지) */
+    after?: string;
+    /** keyset 커서 - 이 커서 이전 행까지 조회 (빈 문자열이면 마지막 페이지) */
+    before?: string;
+    /** @deprecated `after` 의 별칭. parsePage 에서 after 로 정규화된다. */
     cursor?: string;
 }
 
@@ -383,6 +392,7 @@ export class CrudQueryParser {
      * page 파라미터 파싱
      * ?page[number]=3&page[size]=10
      * ?page[offset]=20&page[limit]=10
+     * ?page[after]=<cursor>&page[size]=10 (page[cursor] 는 page[after] 의 별칭)
      * 또는 중첩 객체 형태: { page: { offset: "0", limit: "10" } }
      */
     private static parsePage(query: any): PageParam | undefined {
@@ -391,8 +401,8 @@ export class CrudQueryParser {
         // 1. 중첩 객체 형태 처리 (Express에서 page[key]=value를 { page: { key: value } }로 파싱하는 경우)
         if (query.page && typeof query.page === 'object') {
             Object.entries(query.page).forEach(([key, value]) => {
-                if (key === 'cursor') {
-                    page[key] = value;
+                if (CURSOR_PAGE_KEYS.includes(key)) {
+                    page[key] = String(value ?? '');
                 } else {
                     const numValue = parseInt(value as string, 10);
                     if (!isNaN(numValue)) {
@@ -407,11 +417,13 @@ export class CrudQueryParser {
             const match = key.match(/^page\[(.+)\]$/);
             if (match) {
                 const pageKey = match[1];
+                if (CURSOR_PAGE_KEYS.includes(pageKey)) {
+                    page[pageKey] = String(query[key] ?? '');
+                    return;
+                }
                 const value = parseInt(query[key] as string, 10);
                 if (!isNaN(value)) {
                     page[pageKey] = value;
-                } else if (pageKey === 'cursor') {
-                    page[pageKey] = query[key];
                 }
             }
         });
@@ -424,6 +436,14 @@ export class CrudQueryParser {
             return undefined;
         }
 
+        // page[cursor] 는 page[after] 의 별칭
+        if (page.cursor !== undefined) {
+            if (page.after === undefined) {
+                page.after = page.cursor;
+            }
+            delete page.cursor;
+        }
+
         // number 방식인지 offset 방식인지 확인하여 적절한 기본값만 설정
         const hasNumberParams = page.number !== undefined || page.size !== undefined;
         const hasOffsetParams = page.offset !== undefined || page.limit !== undefined;
@@ -542,7 +562,7 @@ export class CrudQueryParser {
             );
 
             if (validOrConditions.length > 0) {
-                filters._or = validOrConditions;
+                filters[FILTER_OR_KEY] = validOrConditions;
             }
         }
 
@@ -1228,9 +1248,8 @@ export class PrismaQueryBuilder {
             options.take = page.limit;
         }
 
-        if (page.cursor !== undefined) {
-            options.cursor = { id: page.cursor };
-        }
+        // cursor(keyset) 모드의 where/orderBy/take 는 기본키와 soft delete 필터가 확정된 뒤
+        // CRUD index 핸들러에서 cursorPagination 헬퍼로 적용한다.
 
         return options;
     }
@@ -1247,7 +1266,7 @@ export class PrismaQueryBuilder {
 
         Object.entries(filters).forEach(([field, conditions]) => {
             // OR 조건 처리 (대소문자 구분 없음)
-            if (field === '_or' && Array.isArray(conditions)) {
+            if (field === FILTER_OR_KEY && Array.isArray(conditions)) {
                 conditions.forEach((orCondition) => {
                     const orWhere: any = {};
 
@@ -1634,11 +1653,12 @@ export class CrudResponseFormatter {
      */
     static createPaginationMeta(
         items: any[],
-        total: number,
+        total: number, // cursor 모드에서는 사용하지 않음 (count 쿼리 생략)
         page?: PageParam,
         operation: string = 'index',
         includedRelations?: string[],
         queryParams?: CrudQueryParams, // 추가: 쿼리 파라미터에서 자동으로 include 추출
+        cursorPage?: CursorPageInfo, // cursor 모드에서 index 핸들러가 계산한 커서/이웃 페이지 정보
     ) {
         const currentTimestamp = new Date().toISOString();
 
@@ -1707,16 +1727,16 @@ export class CrudResponseFormatter {
                 ...(hasNext && { nextCursor: this.generateNextCursor(currentPage) }),
                 ...(hasPrev && { prevCursor: this.generatePrevCursor(currentPage) }),
             };
-        } else if (page.cursor !== undefined) {
-            // Cursor-based pagination
+        } else if (isCursorPage(page)) {
+            // Cursor(keyset)-based pagination - 전체 개수는 계산하지 않는다
             metadata.pagination = {
                 type: 'cursor',
-                total,
+                size: page.size,
                 count: items.length,
-                cursor: page.cursor,
-                ...(items.length > 0 && {
-                    nextCursor: this.generateNextCursor(1), // cursor 기반에서는 페이지 개념 없음
-                }),
+                ...(cursorPage?.hasNext && { hasNext: true }),
+                ...(cursorPage?.hasPrev && { hasPrev: true }),
+                ...(cursorPage?.hasNext && { nextCursor: cursorPage.endCursor }),
+                ...(cursorPage?.hasPrev && { prevCursor: cursorPage.startCursor }),
             };
         } else if (page.limit !== undefined) {
             // Limit only
@@ -2183,6 +2203,9 @@ export class JsonApiTransformer {
     /**
      * 원시 데이터를 JSON:API 리소스 객체로 변환
      * @param jsonFields - Json 타입 필드 이름 목록 (관계 데이터로 간주하지 않음)
+     * @param relationshipNames - 모델의 관계 필드 이름 목록. 지정 시 (include 되지 않은 관계 포함)
+     *        모든 관계에 `links.self`(/:id/relationships/:name) / `links.related`(/:id/:name) 를 붙인다
+     * @param hiddenFields - 읽기 정책(CRUD `policy`)으로 노출이 금지된 필드. attributes / relationships 에서 제외
      */
     static transformToResource(
         item: any,
@@ -2194,6 +2217,8 @@ export class JsonApiTransformer {
             id?: string;
             includeMerge?: boolean;
             jsonFields?: Set<string>;
+            relationshipNames?: string[];
+            hiddenFields?: Set<string>;
         },
     ): JsonApiResource {
         const {
@@ -2204,6 +2229,8 @@ export class JsonApiTransformer {
             id,
             includeMerge = false,
             jsonFields,
+            relationshipNames,
+            hiddenFields,
         } = options;
         const resourceId = id || item[primaryKey] || item.id || item.uuid || item._id;
 
@@ -2226,11 +2253,33 @@ export class JsonApiTransformer {
             jsonFields,
         );
 
+        // 읽기 정책으로 숨겨진 필드 제거 (includeMerge 시 병합된 관계 포함)
+        hiddenFields?.forEach((field) => {
+            delete attributes[field];
+            delete relationships[field];
+        });
+
         // attributes가 있는 경우에만 추가
         if (Object.keys(attributes).length > 0) {
             resource.attributes = attributes;
         }
 
+        // relationship self/related 링크 추가 (관계 엔드포인트를 사용하는 클라이언트용)
+        if (!includeMerge && baseUrl && relationshipNames) {
+            relationshipNames.forEach((name) => {
+                // Sparse Fieldsets 는 관계 필드에도 적용된다
+                if (fields && !fields.includes(name)) return;
+                if (hiddenFields?.has(name)) return;
+                relationships[name] = {
+                    ...relationships[name],
+                    links: {
+                        self: `${baseUrl}/${resourceId}/relationships/${name}`,
+                        related: `${baseUrl}/${resourceId}/${name}`,
+                    },
+                };
+            });
+        }
+
         // includeMerge가 false인 경우에만 relationships 추가
         if (!includeMerge && Object.keys(relationships).length > 0) {
             resource.relationships = relationships;
@@ -2258,6 +2307,8 @@ export class JsonApiTransformer {
         baseUrl?: string,
         includeMerge: boolean = false,
         jsonFields?: Set<string>,
+        relationshipNames?: string[],
+        hiddenFields?: Set<string>,
     ): JsonApiResource[] {
         return items.map((item) =>
             this.transformToResource(item, {
@@ -2267,6 +2318,8 @@ export class JsonApiTransformer {
                 baseUrl,
                 includeMerge,
                 jsonFields,
+                relationshipNames,
+                hiddenFields,
             }),
         );
     }
@@ -2582,6 +2635,8 @@ export class JsonApiTransformer {
             query?: any; // 요청 쿼리 정보 추가
             includeMerge?: boolean; // includeMerge 옵션 추가
             jsonFields?: Set<string>; // Json 타입 필드 목록
+            relationshipNames?: string[]; // relationship links 를 붙일 관계 필드 목록
+            hiddenFields?: Set<string>; // 읽기 정책으로 숨길 필드 목록
         } = {},
     ): JsonApiResponse {
         const {
@@ -2594,6 +2649,8 @@ export class JsonApiTransformer {
             query,
             includeMerge = false, // 기본값: false (표준 JSON:API 방식)
             jsonFields,
+            relationshipNames,
+            hiddenFields,
         } = options;
 
         // 현재 리소스 타입의 필드 제한
@@ -2612,6 +2669,8 @@ export class JsonApiTransformer {
                 baseUrl,
                 includeMerge,
                 jsonFields,
+                relationshipNames,
+                hiddenFields,
             );
         } else {
             jsonApiData = this.transformToResource(data, {
@@ -2621,6 +2680,8 @@ export class JsonApiTransformer {
                 baseUrl,
                 includeMerge,
                 jsonFields,
+                relationshipNames,
+                hiddenFields,
             });
         }
 
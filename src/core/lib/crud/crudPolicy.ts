@@ -0,0 +1,226 @@
+/**
+ * CRUD 선언적 접근 정책(`policy` 옵션) 헬퍼 모음
+ *
+ * 액션 단위 허용 여부, 속성(필드) 단위 읽기/쓰기 규칙, 행 수준 where 스코프를 요청(req)마다 평가하여
+ * CrudRouteBuilder 가 그대로 적용할 수 있는 {@link CrudPolicyDecision} 으로 정규화한다.
+ * 인스턴스 상태에 의존하지 않으며, 위반은 statusCode 403 을 단 Error 로 던진다.
+ */
+import type { Request } from 'express';
+import { ERROR_CODES } from '@lib/http/errors/errorCodes';
+import type { CrudQueryParams } from '@lib/crud/crudHelpers';
+import { FILTER_OR_KEY } from '@lib/crud/crudConstants';
+
+/** 정책을 평가하는 CRUD 액션 */
+export type CrudPolicyAction = 'index' | 'show' | 'create' | 'update' | 'destroy' | 'recover';
+
+/** 정책 규칙: 고정 boolean 또는 요청별로 평가되는 함수 */
+export type CrudPolicyRule = boolean | ((req: Request) => boolean | Promise<boolean>);
+
+/** 속성(필드) 단위 규칙. 관계 필드명에도 동일하게 적용된다. */
+export interface CrudFieldPolicy {
+    /** 응답 노출 여부 (false 면 attributes/relationships 에서 제거, filter/sort 거부, include 제외) */
+    read?: CrudPolicyRule;
+    /** 요청 본문 쓰기 여부 (create/update 공통 기본값) */
+    write?: CrudPolicyRule;
+    /** create 전용 쓰기 규칙 (write 보다 우선) */
+    create?: CrudPolicyRule;
+    /** update 전용 쓰기 규칙 (write 보다 우선) */
+    update?: CrudPolicyRule;
+}
+
+/**
+ * `router.CRUD()` 의 `policy` 옵션.
+ * 규칙을 생략하면 허용으로 간주한다 (정책 미지정 시 기존 동작과 동일).
+ */
+export interface CrudPolicy<TModel = any> {
+    /** 액션 단위 허용 여부. false 면 403 */
+    actions?: Partial<Record<CrudPolicyAction, CrudPolicyRule>>;
+
+    /** 속성 단위 읽기/쓰기 규칙 (키 = 모델 필드명 또는 관계명) */
+    fields?: Partial<Record<keyof TModel & string, CrudFieldPolicy>>;
+
+    /**
+     * 행 수준 스코프. 반환한 Prisma where 조건이 index/show/update/destroy/recover 조회 조건에
+     * AND 로 병합된다. 스코프 밖의 행은 존재하지 않는 것처럼 404 로 응답한다.
+     * create 에는 적용되지 않는다 (필요하면 beforeCreate 훅에서 값을 강제).
+     */
+    scope?: (
+        req: Request,
+        action: CrudPolicyAction,
+    ) => Record<string, any> | undefined | Promise<Record<string, any> | undefined>;
+
+    /** 쓰기 불가 필드가 요청에 포함된 경우 처리 방식 (기본값 'reject': 403) */
+    onForbiddenWrite?: 'reject' | 'strip';
+}
+
+/** 요청 하나에 대해 평가된 정책 결과 */
+export interface CrudPolicyDecision {
+    /** 읽기 불가 필드 */
+    hiddenFields: Set<string>;
+    /** 현재 액션에서 쓰기 불가 필드 (create/update 외에는 비어 있음) */
+    readonlyFields: Set<string>;
+    /** 행 수준 where (스코프 미지정 시 undefined) */
+    where?: Record<string, any>;
+    /** create/update 데이터에 강제로 덮어쓸 값 (테넌트 스코프 컬럼 등) */
+    enforcedData?: Record<string, any>;
+    onForbiddenWrite: 'reject' | 'strip';
+}
+
+function policyError(message: string): Error {
+    const error: any = new Error(message);
+    error.code = ERROR_CODES.FORBIDDEN;
+    error.statusCode = 403;
+    return error;
+}
+
+async function evaluateRule(rule: CrudPolicyRule | undefined, req: Request): Promise<boolean> {
+    if (rule === undefined) return true;
+    if (typeof rule === 'boolean') return rule;
+    return !!(await rule(req));
+}
+
+/**
+ * 요청/액션에 대한 정책 평가.
+ * 액션 규칙이 거부하면 403 을 던지고, 그 외에는 필드/스코프 판정 결과를 반환한다.
+ */
+export async function evaluateCrudPolicy(
+    policy: CrudPolicy | undefined,
+    req: Request,
+    action: CrudPolicyAction,
+): Promise<CrudPolicyDecision> {
+    const decision: CrudPolicyDecision = {
+        hiddenFields: new Set(),
+        readonlyFields: new Set(),
+        onForbiddenWrite: policy?.onForbiddenWrite || 'reject',
+    };
+    if (!policy) return decision;
+
+    if (!(await evaluateRule(policy.actions?.[action], req))) {
+        throw policyError(`Action '${action}' is not permitted`);
+    }
+
+    for (const [field, rules] of Object.entries(policy.fields || {}) as [
+        string,
+        CrudFieldPolicy,
+    ][]) {
+        if (!rules) continue;
+        if (!(await evaluateRule(rules.read, req))) {
+            decision.hiddenFields.add(field);
+        }
+        if (action === 'create' || action === 'update') {
+            const writeRule = rules[action] ?? rules.write;
+            if (!(await evaluateRule(writeRule, req))) {
+                decision.readonlyFields.add(field);
+            }
+        }
+    }
+
+    if (policy.scope && action !== 'create') {
+        const where = await policy.scope(req, action);
+        if (where && Object.keys(where).length > 0) {
+            decision.where = where;
+        }
+    }
+
+    return decision;
+}
+
+/**
+ * 기존 where 조건에 정책 스코프를 AND 로 병합.
+ * 스코프가 없으면 원래 where 를 그대로 반환한다.
+ */
+export function mergePolicyWhere(
+    where: Record<string, any> | undefined,
+    scope: Record<string, any> | undefined,
+): Record<string, any> | undefined {
+    if (!scope) return where;
+    if (!where || Object.keys(where).length === 0) return scope;
+    return { AND: [where, scope] };
+}
+
+/**
+ * 요청 attributes / relationships 에 쓰기 불가 필드가 있는지 검사.
+ * 'reject' 모드는 403 을 던지고, 'strip' 모드는 해당 키를 제거한 사본을 반환한다.
+ */
+export function applyWritePolicy(
+    resource: { attributes?: Record<string, any>; relationships?: Record<string, any> },
+    decision: CrudPolicyDecision,
+): { attributes?: Record<string, any>; relationships?: Record<string, any> } {
+    if (decision.readonlyFields.size === 0) return resource;
+
+    const present = [
+        ...Object.keys(resource.attributes || {}),
+        ...Object.keys(resource.relationships || {}),
+    ].filter((field) => decision.readonlyFields.has(field));
+    if (present.length === 0) return resource;
+
+    if (decision.onForbiddenWrite === 'reject') {
+        throw policyError(`Field(s) not writable: ${present.join(', ')}`);
+    }
+
+    const strip = (source?: Record<string, any>) =>
+        source &&
+        Object.fromEntries(
+            Object.entries(source).filter(([field]) => !decision.readonlyFields.has(field)),
+        );
+    return {
+        ...resource,
+        attributes: strip(resource.attributes),
+        relationships: strip(resource.relationships),
+    };
+}
+
+/**
+ * 단일 필드(관계 엔드포인트 등)에 대한 읽기/쓰기 허용 확인. 허용되지 않으면 403 을 던진다.
+ * 쓰기는 onForbiddenWrite 설정과 무관하게 거부한다 (제거할 다른 필드가 없으므로).
+ */
+export function assertPolicyFieldPermitted(
+    decision: CrudPolicyDecision,
+    field: string,
+    mode: 'read' | 'write',
+): void {
+    const denied = mode === 'read' ? decision.hiddenFields : decision.readonlyFields;
+    if (denied.has(field)) {
+        throw policyError(`Field '${field}' is not ${mode === 'read' ? 'readable' : 'writable'}`);
+    }
+}
+
+/** 파싱된 filter 에서 참조하는 필드 경로 수집 (OR 그룹은 파서와 같은 키로 재귀) */
+function collectFilterFields(filter: any, fields: Set<string>): void {
+    if (!filter || typeof filter !== 'object') return;
+    Object.entries(filter).forEach(([key, value]) => {
+        if (key === FILTER_OR_KEY) {
+            (Array.isArray(value) ? value : [value]).forEach((group) =>
+                collectFilterFields(group, fields),
+            );
+            return;
+        }
+        fields.add(key);
+    });
+}
+
+/**
+ * 쿼리 파라미터에 읽기 정책 적용.
+ * 읽기 불가 필드를 filter / sort 로 참조하면 403 으로 거부하고 (응답에서 값을 지워도 결과로 추론 가능),
+ * 읽기 불가 관계의 include 경로(defaultIncludes 포함)는 조회 대상에서 제외한다.
+ */
+export function applyReadPolicyToQuery(
+    queryParams: CrudQueryParams,
+    decision: CrudPolicyDecision,
+): void {
+    if (decision.hiddenFields.size === 0) return;
+    const isHidden = (path: string) => decision.hiddenFields.has(path.split('.')[0]);
+
+    const referenced = new Set<string>();
+    collectFilterFields(queryParams.filter, referenced);
+    (queryParams.sort || []).forEach((sort) => referenced.add(sort.field));
+
+    const hidden = Array.from(referenced).filter(isHidden);
+    if (hidden.length > 0) {
+        throw policyError(`Field(s) not readable: ${hidden.join(', ')}`);
+    }
+
+    if (queryParams.include) {
+        queryParams.include = queryParams.include.filter((path) => !isHidden(path));
+    }
+}
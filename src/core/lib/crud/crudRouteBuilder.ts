@@ -1,4 +1,5 @@
-import { RequestHandler as CustomRequestHandler } from '@lib/http/validation/requestHandler';
+﻿import { RequestHandler as CustomRequestHandler } from '@lib/http/validation/requestHandler';
+import type { RequestHandler, Router } from 'express';
 import { prismaManager } from '@lib/data/database/prismaManager';
 import {
     CrudQueryParser,
@@ -19,6 +20,49 @@ import {
     getSmartPrimaryKeyParser as getSmartPrimaryKeyParserImpl,
     UUID_REGEX,
 } from '@lib/crud/primaryKeyParsers';
+import {
+    isCursorPage,
+    resolveCursorDirection,
+    resolveKeysetSort,
+    decodeCursor,
+    encodeCursor,
+    buildKeysetWhere,
+    buildKeysetOrderBy,
+    sliceKeysetPage,
+    CursorDirection,
+    CursorPageInfo,
+} from '@lib/crud/cursorPagination';
+import {
+    resolveRelationshipDescriptors,
+    parseRelationshipLinkage,
+    buildRelationshipMutation,
+    linkageResourceType,
+    buildLinkageInclude,
+    extractLinkageRecords,
+    RelationshipDescriptor,
+    RelationshipOperation,
+} from '@lib/crud/relationshipMutations';
+import {
+    evaluateCrudPolicy,
+    mergePolicyWhere,
+    applyWritePolicy,
+    applyReadPolicyToQuery,
+    assertPolicyFieldPermitted,
+    CrudPolicyAction,
+    CrudPolicyDecision,
+} from '@lib/crud/crudPolicy';
+import {
+    resolveConcurrencyControl,
+    concurrencyToken,
+    concurrencyETag,
+    tokenWhereValue,
+    nextTokenData,
+    assertIfMatch,
+    preconditionFailedError,
+    ConcurrencyControl,
+} from '@lib/crud/optimisticConcurrency';
+import { TenantScope } from '@lib/data/database/tenantScope';
+import type { FieldTypeInfo } from '@lib/data/database/fieldTypeMap';
 import {
     DEFAULT_PRIMARY_KEY,
     DEFAULT_SOFT_DELETE_FIELD,
@@ -32,6 +76,7 @@ import {
     jsonApiResponse,
     jsonApiBody,
     jsonApiErrorResponse,
+    jsonApiLinkageBody,
 } from '@lib/devtools/documentation';
 import {
     JSON_API_CONTENT_TYPE,
@@ -40,6 +85,18 @@ import {
     JSON_API_ATOMIC_EXT,
 } from '@lib/crud/jsonApiConstants';
 import { ErrorHandler, ErrorResponseFormat } from '@lib/http/errors/errorHandler';
+import {
+    cacheControl,
+    resolveLastModified,
+    sendConditionalJson,
+} from '@lib/http/caching/httpCache';
+import { rateLimit, describeRateLimit } from '@lib/http/rateLimiting/rateLimit';
+import type { RateLimitOptions, RateLimitDoc } from '@lib/http/rateLimiting/rateLimit';
+import { idempotency, describeIdempotency } from '@lib/http/idempotency/idempotency';
+import type { IdempotencyOption, IdempotencyDoc } from '@lib/http/idempotency/idempotency';
+import { UnitOfWork } from '@lib/data/database/unitOfWork';
+import { usePrimary } from '@lib/data/database/readReplicas';
+import { Outbox } from '@lib/data/outbox/outbox';
 import { log } from '@ext/winston';
 import type {
     HandlerFunction,
@@ -54,6 +111,15 @@ import type {
  */
 export type CrudBuilderContext = RouterContext;
 
+/** 읽기를 primary 로 고정하는 쓰기 메서드 */
+const PRIMARY_PINNED_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/** 쓰기 요청 고정 미들웨어를 이미 등록한 라우터 (CRUD() 를 여러 번 호출해도 한 번만) */
+const primaryPinnedRouters = new WeakSet<Router>();
+
+/** atomic operations 커밋 이후 실행할 after 훅 호출 */
+type AtomicAfterHook = () => Promise<unknown> | unknown;
+
 /**
  * CRUD 엔진 (JSON:API v1.1).
  *
@@ -62,6 +128,18 @@ export type CrudBuilderContext = RouterContext;
  * 생성자에 전달된 {@link CrudBuilderContext} 를 통해 호출한다.
  */
 export class CrudRouteBuilder {
+    /** build() 대상 모델의 관계 필드 해석 결과 (schema.prisma 를 읽을 수 없으면 null) */
+    private relationships: Map<string, RelationshipDescriptor> | null = null;
+
+    /** build() 대상 모델의 필드 타입 맵 (테넌트 스코프 대상 판단용) */
+    private fieldTypeMap: Map<string, FieldTypeInfo> | null = null;
+
+    /** build() 대상 모델의 낙관적 동시성 설정 (`concurrency` 옵션 미지정 시 undefined) */
+    private concurrency: ConcurrencyControl | undefined;
+
+    /** build() 대상 데이터베이스 (작업 단위 / outbox 이벤트 기록용) */
+    private databaseName = '';
+
     constructor(private ctx: CrudBuilderContext) {}
 
     /**
@@ -81,9 +159,23 @@ export class CrudRouteBuilder {
 
         const enabledActions = this.getEnabledActions(options);
         const client = prismaManager.getWrap(databaseName as any);
+        this.pinWritesToPrimary();
+        this.databaseName = databaseName;
 
         // 배열 연산자(all/elemMatch/size) 타입 검증용 필드 타입 맵 (런타임 데이터모델 기반, 1회 해석).
         const fieldTypeMap = prismaManager.getFieldTypeMap(databaseName, modelName);
+        this.fieldTypeMap = fieldTypeMap;
+
+        // 낙관적 동시성 토큰 컬럼 해석 (잘못된 설정은 부팅 시 에러)
+        this.concurrency = resolveConcurrencyControl(options?.concurrency, modelName, fieldTypeMap);
+
+        // 관계 필드 해석 (relationship links / 관계 엔드포인트용, many-to-many 설정 반영)
+        this.relationships = resolveRelationshipDescriptors(
+            modelName,
+            fieldTypeMap,
+            (relatedModel) => prismaManager.getFieldTypeMap(databaseName, relatedModel),
+            this.ctx.schemaRegistry.getRelationshipManager(),
+        );
 
         // Primary key 설정 및 자동 파서 선택
         const primaryKey = options?.primaryKey || DEFAULT_PRIMARY_KEY;
@@ -128,6 +220,22 @@ export class CrudRouteBuilder {
         this.setupRelationshipRoutes(client, modelName, options, primaryKey, primaryKeyParser);
     }
 
+    /**
+     * 쓰기 요청(POST/PUT/PATCH/DELETE)의 모든 읽기를 primary 로 보낸다.
+     * If-Match 토큰·정책 범위·테넌트 연결 대상 확인은 쓰기 전에 실행되어 sticky 창이 아직 없으므로,
+     * 복제본에서 읽으면 복제 지연 때문에 거짓 412 / 404 가 날 수 있다.
+     */
+    private pinWritesToPrimary(): void {
+        const router = this.ctx.router;
+        if (primaryPinnedRouters.has(router)) return;
+        primaryPinnedRouters.add(router);
+
+        router.use((req, _res, next) => {
+            if (PRIMARY_PINNED_METHODS.has(req.method)) return usePrimary(() => next());
+            next();
+        });
+    }
+
     /**
      * 개발 모드에서 CRUD 스키마를 등록합니다
      */
@@ -237,6 +345,54 @@ export class CrudRouteBuilder {
         return allActions;
     }
 
+    /**
+     * CRUD 옵션 rateLimit[action] → 레이트 리밋 미들웨어 (미지정 시 빈 배열).
+     * scope 를 `crud:<모델>:<액션>` 으로 고정해 PUT/PATCH 와 관계 엔드포인트가 같은 한도를 나눠 쓴다.
+     * 액션 미들웨어(인증) 뒤에 등록해야 `key: 'user'` 가 `req.kusto.user` 를 본다.
+     */
+    private rateLimitHandlers(options: any, modelName: string, action: string): RequestHandler[] {
+        const limit: RateLimitOptions | undefined = options?.rateLimit?.[action];
+        if (!limit) return [];
+        return [rateLimit({ scope: `crud:${modelName}:${action}`, ...limit })];
+    }
+
+    /** 문서 등록용 rateLimit 요약 (미지정 시 빈 객체) */
+    private rateLimitDoc(options: any, action: string): { rateLimit?: RateLimitDoc } {
+        const limit: RateLimitOptions | undefined = options?.rateLimit?.[action];
+        return limit ? { rateLimit: describeRateLimit(limit) } : {};
+    }
+
+    /**
+     * CRUD 옵션 idempotency → Idempotency-Key 미들웨어 (create / atomic 전용, 미지정 시 빈 배열).
+     * scope 기본값은 `crud:<모델>:<액션>`.
+     * 액션 미들웨어(인증) 뒤에 등록한다 — 키가 사용자별로 나뉘어야 다른 사용자에게 응답이 재생되지 않는다.
+     */
+    private idempotencyHandlers(
+        options: any,
+        modelName: string,
+        action: 'create' | 'atomic',
+    ): RequestHandler[] {
+        const option: IdempotencyOption | undefined = options?.idempotency;
+        if (option === undefined) return [];
+        return [
+            idempotency({
+                scope: `crud:${modelName}:${action}`,
+                ...(option === true ? {} : option),
+            }),
+        ];
+    }
+
+    /** 문서 등록용 idempotency 요약 (미지정 시 빈 객체) */
+    private idempotencyDoc(options: any): { idempotency?: IdempotencyDoc } {
+        const option: IdempotencyOption | undefined = options?.idempotency;
+        return option !== undefined ? { idempotency: describeIdempotency(option) } : {};
+    }
+
+    /** CRUD 옵션 cache → Cache-Control 미들웨어 (index / show 전용, 미지정 시 빈 배열) */
+    private cacheHandlers(options?: any): RequestHandler[] {
+        return options?.cache !== undefined ? [cacheControl(options.cache)] : [];
+    }
+
     /**
      * INDEX 라우트 설정 (GET /) - JSON:API 준수
      */
@@ -264,6 +420,10 @@ export class CrudRouteBuilder {
                 // 페이지네이션 파라미터 검증 (미지정/잘못된 파라미터/잘못된 size)
                 if (this.validateIndexPagination(req, res, queryParams)) return; // 에러 응답은 이미 헬퍼에서 전송됨
 
+                // 접근 정책 평가 (액션 허용 / 읽기 불가 필드의 filter·sort 거부 / 행 스코프)
+                const policy = await this.resolveCrudPolicy(options, req, modelName, 'index');
+                applyReadPolicyToQuery(queryParams, policy);
+
                 // Prisma 쿼리 옵션 빌드 (배열 연산자 타입 검증을 위해 필드 타입 맵 전달)
                 let findManyOptions = PrismaQueryBuilder.buildFindManyOptions(
                     queryParams,
@@ -280,6 +440,9 @@ export class CrudRouteBuilder {
                 if (!hookResult) return; // 에러 응답은 이미 헬퍼에서 전송됨
                 findManyOptions = hookResult.findManyOptions;
 
+                // 정책 행 스코프 병합 (훅이 where 를 바꿔도 스코프는 유지)
+                findManyOptions.where = mergePolicyWhere(findManyOptions.where, policy.where);
+
                 // Soft Delete 필터 추가 (기존 where 조건과 병합)
                 findManyOptions = this.applyIndexSoftDeleteFilter(
                     findManyOptions,
@@ -288,16 +451,65 @@ export class CrudRouteBuilder {
                     softDeleteField,
                 );
 
-                // 총 개수 조회 (페이지네이션용)
-                const totalCountOptions = { ...findManyOptions };
-                delete totalCountOptions.skip;
-                delete totalCountOptions.take;
-                delete totalCountOptions.cursor;
+                let items: any[];
+                let total: number;
+                let cursorPage: CursorPageInfo | undefined;
+
+                if (isCursorPage(queryParams.page)) {
+                    // Cursor(keyset) 페이지네이션: 전체 개수(count) 조회 없이 size + 1 행만 읽는다
+                    const keyset = this.applyIndexKeysetPagination(
+                        findManyOptions,
+                        queryParams.page,
+                        queryParams.sort,
+                        primaryKey,
+                    );
+                    const rows = await client[modelName].findMany(findManyOptions);
+                    const keysetPage = sliceKeysetPage(
+                        rows,
+                        queryParams.page.size,
+                        keyset.direction,
+                        keyset.hasCursor,
+                    );
+
+                    items = keysetPage.items;
+                    // count 를 생략하므로 응답 빌더용 값일 뿐, afterIndex 에는 전달하지 않는다
+                    total = items.length;
+                    cursorPage = {
+                        hasNext: keysetPage.hasNext,
+                        hasPrev: keysetPage.hasPrev,
+                        ...(items.length > 0 && {
+                            startCursor: encodeCursor(items[0], keyset.sort),
+                            endCursor: encodeCursor(items[items.length - 1], keyset.sort),
+                        }),
+                    };
+                } else {
+                    // 총 개수 조회 (페이지네이션용)
+                    const totalCountOptions = { ...findManyOptions };
+                    delete totalCountOptions.skip;
+                    delete totalCountOptions.take;
+                    delete totalCountOptions.cursor;
+
+                    [items, total] = await Promise.all([
+                        client[modelName].findMany(findManyOptions),
+                        client[modelName].count({ where: totalCountOptions.where }),
+                    ]);
+                }
 
-                const [items, total] = await Promise.all([
-                    client[modelName].findMany(findManyOptions),
-                    client[modelName].count({ where: totalCountOptions.where }),
-                ]);
+                // afterIndex 훅 실행 (조회 결과 후처리, 배열을 반환하면 응답 대상을 교체)
+                if (options?.hooks?.afterIndex) {
+                    const hookResult = await options.hooks.afterIndex(
+                        items,
+                        {
+                            total: cursorPage ? undefined : total,
+                            page: queryParams.page,
+                            cursor: cursorPage,
+                        },
+                        req,
+                    );
+                    if (Array.isArray(hookResult)) {
+                        items = hookResult;
+                    }
+                }
 
                 const serializedItems = await applyCrudSerializers(
                     items,
@@ -316,9 +528,14 @@ export class CrudRouteBuilder {
                     modelName,
                     options,
                     primaryKey,
+                    cursorPage,
+                    policy.hiddenFields,
                 );
 
-                res.json(serializedResponse);
+                this.attachConcurrencyMeta(serializedResponse, items, primaryKey);
+
+                // ETag 로 조건부 요청 처리 (목록은 삭제를 반영할 수 없는 Last-Modified 는 생략)
+                sendConditionalJson(res, serializedResponse);
             } catch (error: any) {
                 log.Error(`CRUD Index Error for ${modelName}:`, error);
 
@@ -331,9 +548,20 @@ export class CrudRouteBuilder {
             const wrappedMiddlewares = middlewares.map((mw: MiddlewareHandlerFunction) =>
                 this.ctx.wrapMiddleware(mw),
             );
-            this.ctx.router.get('/', ...wrappedMiddlewares, this.ctx.wrapHandler(handler));
+            this.ctx.router.get(
+                '/',
+                ...this.cacheHandlers(options),
+                ...wrappedMiddlewares,
+                ...this.rateLimitHandlers(options, modelName, 'index'),
+                this.ctx.wrapHandler(handler),
+            );
         } else {
-            this.ctx.router.get('/', this.ctx.wrapHandler(handler));
+            this.ctx.router.get(
+                '/',
+                ...this.rateLimitHandlers(options, modelName, 'index'),
+                ...this.cacheHandlers(options),
+                this.ctx.wrapHandler(handler),
+            );
         }
 
         // 문서화 등록
@@ -360,10 +588,17 @@ export class CrudRouteBuilder {
                 required: true,
                 description: 'Page number for offset-based pagination (required with page[size])',
             },
-            'page[cursor]': {
+            'page[after]': {
                 type: 'string',
                 required: false,
-                description: 'Cursor for cursor-based pagination (alternative to page[number])',
+                description:
+                    'Opaque cursor for keyset pagination - rows after the cursor (alternative to page[number]; empty value = first page)',
+            },
+            'page[before]': {
+                type: 'string',
+                required: false,
+                description:
+                    'Opaque cursor for keyset pagination - rows before the cursor (empty value = last page)',
             },
             'page[size]': {
                 type: 'number',
@@ -389,6 +624,7 @@ export class CrudRouteBuilder {
 
         this.ctx.registerDocumentation('GET', '/', {
             summary: `Get ${modelName} list with required pagination, optional filtering and sorting`,
+            ...this.rateLimitDoc(options, 'index'),
             parameters: {
                 query: queryParams,
             },
@@ -433,6 +669,10 @@ export class CrudRouteBuilder {
                 const queryParams = this.parseQueryWithIncludePolicy(req, res, modelName, options);
                 if (!queryParams) return; // 에러 응답은 이미 헬퍼에서 전송됨
 
+                // 접근 정책 평가 (읽기 불가 관계는 include 에서 제외)
+                const policy = await this.resolveCrudPolicy(options, req, modelName, 'show');
+                applyReadPolicyToQuery(queryParams, policy);
+
                 const includeOptions = queryParams.include
                     ? PrismaQueryBuilder['buildIncludeOptions'](queryParams.include)
                     : undefined;
@@ -472,13 +712,19 @@ export class CrudRouteBuilder {
                     }
                 }
 
-                const item = await client[modelName].findFirst(findOptions);
+                // 정책 행 스코프 병합 (스코프 밖의 행은 404)
+                findOptions.where = mergePolicyWhere(findOptions.where, policy.where);
+
+                let item = await client[modelName].findFirst(findOptions);
 
                 if (!item) {
                     // Soft delete된 데이터 확인 (include_deleted=false 상태에서)
                     if (isSoftDelete && !includeDeleted) {
-                        const deletedItem = await client[modelName].findUnique({
-                            where: { [primaryKey]: parsedIdentifier },
+                        const deletedItem = await client[modelName].findFirst({
+                            where: mergePolicyWhere(
+                                { [primaryKey]: parsedIdentifier },
+                                policy.where,
+                            ),
                         });
 
                         if (deletedItem && deletedItem[softDeleteField]) {
@@ -504,6 +750,14 @@ export class CrudRouteBuilder {
                     return res.status(404).json(errorResponse);
                 }
 
+                // afterShow 훅 실행 (조회 결과 후처리, 객체를 반환하면 응답 대상을 교체)
+                if (options?.hooks?.afterShow) {
+                    const hookResult = await options.hooks.afterShow(item, req);
+                    if (hookResult) {
+                        item = hookResult;
+                    }
+                }
+
                 // Base URL 생성
                 const baseUrl = this.buildBaseUrl(req);
 
@@ -544,6 +798,8 @@ export class CrudRouteBuilder {
                         included,
                         includeMerge: options?.includeMerge || false,
                         jsonFields,
+                        relationshipNames: this.getRelationshipNames(),
+                        hiddenFields: policy.hiddenFields,
                     },
                 );
 
@@ -565,7 +821,14 @@ export class CrudRouteBuilder {
                 // BigInt와 DATE 타입 직렬화 처리
                 const serializedResponse = serialize({ ...response, metadata });
 
-                res.json(serializedResponse);
+                // 동시성 토큰 노출 (include 가 있으면 관계 변경이 토큰에 반영되지 않으므로 문서 ETag 유지)
+                this.attachConcurrencyMeta(serializedResponse, [item], primaryKey);
+                if (!queryParams.include?.length) this.setConcurrencyETag(res, item);
+
+                // ETag + (updatedAt 이 있으면) Last-Modified 로 조건부 요청 처리
+                sendConditionalJson(res, serializedResponse, {
+                    lastModified: resolveLastModified([item]),
+                });
             } catch (error: any) {
                 log.Error(`CRUD Show Error for ${modelName}:`, error);
 
@@ -579,9 +842,20 @@ export class CrudRouteBuilder {
             const wrappedMiddlewares = middlewares.map((mw: MiddlewareHandlerFunction) =>
                 this.ctx.wrapMiddleware(mw),
             );
-            this.ctx.router.get(routePath, ...wrappedMiddlewares, this.ctx.wrapHandler(handler));
+            this.ctx.router.get(
+                routePath,
+                ...this.cacheHandlers(options),
+                ...wrappedMiddlewares,
+                ...this.rateLimitHandlers(options, modelName, 'show'),
+                this.ctx.wrapHandler(handler),
+            );
         } else {
-            this.ctx.router.get(routePath, this.ctx.wrapHandler(handler));
+            this.ctx.router.get(
+                routePath,
+                ...this.rateLimitHandlers(options, modelName, 'show'),
+                ...this.cacheHandlers(options),
+                this.ctx.wrapHandler(handler),
+            );
         }
 
         // 문서화 등록
@@ -614,6 +888,7 @@ export class CrudRouteBuilder {
 
         this.ctx.registerDocumentation('GET', routePath, {
             summary: `Get single ${modelName} by ${primaryKey}`,
+            ...this.rateLimitDoc(options, 'show'),
             parameters: {
                 params: {
                     [primaryKey]: {
@@ -638,6 +913,10 @@ export class CrudRouteBuilder {
         primaryKey: string = DEFAULT_PRIMARY_KEY,
     ): void {
         const middlewares = options?.middleware?.create || [];
+        const createLimiters = [
+            ...this.rateLimitHandlers(options, modelName, 'create'),
+            ...this.idempotencyHandlers(options, modelName, 'create'),
+        ];
 
         const handler: HandlerFunction = async (req, res, _injected, _repo, _db) => {
             try {
@@ -649,6 +928,10 @@ export class CrudRouteBuilder {
                 const queryParams = this.parseQueryWithIncludePolicy(req, res, modelName, options);
                 if (!queryParams) return; // 에러 응답은 이미 헬퍼에서 전송됨
 
+                // 접근 정책 평가 (액션 허용 / 쓰기 불가 필드)
+                const policy = await this.resolveCrudPolicy(options, req, modelName, 'create');
+                applyReadPolicyToQuery(queryParams, policy);
+
                 // Content Negotiation 검증
                 // if (!this.validateJsonApiContentType(req, res)) {
                 //     return;
@@ -678,8 +961,11 @@ export class CrudRouteBuilder {
                     return;
                 }
 
+                // 쓰기 불가 필드 거부(403) 또는 제거
+                const { attributes, relationships } = applyWritePolicy(requestData, policy);
+
                 // attributes에서 데이터 추출
-                let data = requestData.attributes || {};
+                let data = attributes || {};
 
                 // 클라이언트 생성 ID 지원 (JSON:API 스펙)
                 if (requestData.id) {
@@ -692,11 +978,13 @@ export class CrudRouteBuilder {
                 }
 
                 // 관계 데이터 처리 (relationships가 있는 경우)
-                if (requestData.relationships) {
+                if (relationships) {
+                    // 다른 테넌트의 행은 연결할 수 없다 (404)
+                    await this.assertRelationshipsInTenant(client, relationships, req);
                     try {
                         data = await this.processRelationships(
                             data,
-                            requestData.relationships,
+                            relationships,
                             client,
                             modelName,
                             false, // 생성 모드
@@ -719,16 +1007,24 @@ export class CrudRouteBuilder {
                     data = await options.hooks.beforeCreate(data, req);
                 }
 
+                // 테넌트 컬럼은 요청 본문/훅 결과와 무관하게 현재 테넌트로 강제
+                if (policy.enforcedData) {
+                    Object.assign(data, policy.enforcedData);
+                }
+
                 // include 옵션 빌드 (?include= 또는 defaultIncludes 적용 시)
                 const createIncludeOptions =
                     queryParams.include && queryParams.include.length > 0
                         ? PrismaQueryBuilder['buildIncludeOptions'](queryParams.include)
                         : undefined;
 
-                const result = await client[modelName].create({
-                    data,
-                    ...(createIncludeOptions && { include: createIncludeOptions }),
-                });
+                // events.create 설정 시 생성과 outbox 이벤트 기록을 한 트랜잭션으로 묶는다
+                const result = await this.withCrudEvent(client, options, 'create', req, (db) =>
+                    db[modelName].create({
+                        data,
+                        ...(createIncludeOptions && { include: createIncludeOptions }),
+                    }),
+                );
 
                 // After hook 실행
                 if (options?.hooks?.afterCreate) {
@@ -775,6 +1071,8 @@ export class CrudRouteBuilder {
                         included: createIncluded,
                         includeMerge: options?.includeMerge || false,
                         jsonFields,
+                        relationshipNames: this.getRelationshipNames(),
+                        hiddenFields: policy.hiddenFields,
                     },
                 );
 
@@ -791,6 +1089,9 @@ export class CrudRouteBuilder {
                 // BigInt와 DATE 타입 직렬화 처리
                 const serializedResponse = serialize({ ...response, metadata });
 
+                this.attachConcurrencyMeta(serializedResponse, [result], primaryKey);
+                this.setConcurrencyETag(res, result);
+
                 res.status(201).json(serializedResponse);
             } catch (error: any) {
                 log.Error(`CRUD Create Error for ${modelName}:`, error);
@@ -807,9 +1108,14 @@ export class CrudRouteBuilder {
             );
 
             if (middlewares.length > 0) {
-                this.ctx.router.post('/', ...middlewares, ...validationMiddlewares);
+                this.ctx.router.post(
+                    '/',
+                    ...middlewares,
+                    ...createLimiters,
+                    ...validationMiddlewares,
+                );
             } else {
-                this.ctx.router.post('/', ...validationMiddlewares);
+                this.ctx.router.post('/', ...createLimiters, ...validationMiddlewares);
             }
         } else {
             // 일반 핸들러
@@ -817,15 +1123,22 @@ export class CrudRouteBuilder {
                 const wrappedMiddlewares = middlewares.map((mw: MiddlewareHandlerFunction) =>
                     this.ctx.wrapMiddleware(mw),
                 );
-                this.ctx.router.post('/', ...wrappedMiddlewares, this.ctx.wrapHandler(handler));
+                this.ctx.router.post(
+                    '/',
+                    ...wrappedMiddlewares,
+                    ...createLimiters,
+                    this.ctx.wrapHandler(handler),
+                );
             } else {
-                this.ctx.router.post('/', this.ctx.wrapHandler(handler));
+                this.ctx.router.post('/', ...createLimiters, this.ctx.wrapHandler(handler));
             }
         }
 
         // 문서화 등록 (JSON:API ref 사용)
         this.ctx.registerDocumentation('POST', '/', {
             summary: `Create new ${modelName} (JSON:API)`,
+            ...this.rateLimitDoc(options, 'create'),
+            ...this.idempotencyDoc(options),
             parameters: {
                 body: jsonApiBody(modelName, 'create'),
             },
@@ -871,20 +1184,32 @@ export class CrudRouteBuilder {
 
                 const operations = req.body['atomic:operations'];
                 const results: (any | null)[] = [];
+                const afterHooks: AtomicAfterHook[] = [];
+
+                // 작업 단위로 모든 작업 실행 (before 훅 실패 시 전체 롤백).
+                // 훅 안의 리포지터리 쓰기와 outbox 이벤트도 같은 트랜잭션에 합류한다
+                await UnitOfWork.run(
+                    this.databaseName,
+                    async (tx: any) => {
+                        for (const operation of operations) {
+                            const result = await this.executeAtomicOperation(
+                                tx,
+                                operation,
+                                modelName,
+                                options,
+                                req,
+                                afterHooks,
+                            );
+                            results.push(result);
+                        }
+                    },
+                    { client },
+                );
 
-                // 트랜잭션으로 모든 작업 실행
-                await client.$transaction(async (tx: any) => {
-                    for (const operation of operations) {
-                        const result = await this.executeAtomicOperation(
-                            tx,
-                            operation,
-                            modelName,
-                            options,
-                            req,
-                        );
-                        results.push(result);
-                    }
-                });
+                // after 훅은 커밋이 확정된 뒤 작업 순서대로 실행 (롤백된 작업의 부수 효과 방지)
+                for (const runAfterHook of afterHooks) {
+                    await runAfterHook();
+                }
 
                 const response = {
                     'atomic:results': results,
@@ -894,25 +1219,32 @@ export class CrudRouteBuilder {
                     },
                 };
 
-                res.status(200).json(response);
+                res.status(200).json(serialize(response));
             } catch (error: any) {
                 log.Error(`Atomic Operations Error for ${modelName}:`, error);
                 this.sendMappedCrudError(res, error, req);
             }
         };
 
-        this.ctx.router.post('/atomic', this.ctx.wrapHandler(handler));
+        this.ctx.router.post(
+            '/atomic',
+            ...this.idempotencyHandlers(options, modelName, 'atomic'),
+            this.ctx.wrapHandler(handler),
+        );
     }
 
     /**
-     * 단일 원자적 작업 실행
+     * 단일 원자적 작업 실행.
+     * 개별 라우트와 같은 훅 파이프라인을 따르며, before 훅은 트랜잭션 안에서 즉시 실행하고
+     * after 훅은 afterHooks 에 쌓아 커밋 이후 호출자가 실행한다.
      */
     private async executeAtomicOperation(
         tx: any,
         operation: any,
         modelName: string,
-        _options: any,
-        _req: any,
+        options: any,
+        req: any,
+        afterHooks: AtomicAfterHook[],
     ): Promise<any | null> {
         switch (operation.op) {
             case 'add': {
@@ -920,19 +1252,35 @@ export class CrudRouteBuilder {
                     throw new Error('Add operation requires data');
                 }
 
-                const createData = operation.data.attributes || {};
-                if (operation.data.relationships) {
+                // 개별 라우트와 동일한 접근 정책 적용 (위반 시 트랜잭션 전체 롤백)
+                const policy = await this.resolveCrudPolicy(options, req, modelName, 'create');
+                const { attributes, relationships } = applyWritePolicy(operation.data, policy);
+
+                let createData = attributes || {};
+                if (relationships) {
+                    await this.assertRelationshipsInTenant(tx, relationships, req);
                     const processedData = await this.processRelationships(
                         createData,
-                        operation.data.relationships,
+                        relationships,
                         tx,
                         modelName,
                     );
                     Object.assign(createData, processedData);
                 }
+                if (options?.hooks?.beforeCreate) {
+                    createData = await options.hooks.beforeCreate(createData, req);
+                }
+                Object.assign(createData, policy.enforcedData);
 
                 const created = await tx[modelName].create({ data: createData });
-                return JsonApiTransformer.transformToResource(created, { resourceType: modelName });
+                await this.emitCrudEvent(options, 'create', created, req, tx);
+                if (options?.hooks?.afterCreate) {
+                    afterHooks.push(() => options.hooks.afterCreate(created, req));
+                }
+                return JsonApiTransformer.transformToResource(created, {
+                    resourceType: modelName,
+                    hiddenFields: policy.hiddenFields,
+                });
             }
 
             case 'update': {
@@ -940,45 +1288,114 @@ export class CrudRouteBuilder {
                     throw new Error('Update operation requires ref and data');
                 }
 
-                const updateData = operation.data.attributes || {};
-                if (operation.data.relationships) {
+                const policy = await this.resolveCrudPolicy(options, req, modelName, 'update');
+                const { attributes, relationships } = applyWritePolicy(operation.data, policy);
+                await this.assertInPolicyScope(tx, modelName, 'id', operation.ref.id, policy);
+                const expectedToken = await this.assertConcurrencyPrecondition(
+                    this.atomicPreconditionRequest(req, operation),
+                    tx,
+                    modelName,
+                    'id',
+                    operation.ref.id,
+                    policy,
+                );
+
+                let updateData = attributes || {};
+                if (relationships) {
+                    await this.assertRelationshipsInTenant(tx, relationships, req);
                     const processedData = await this.processRelationships(
                         updateData,
-                        operation.data.relationships,
+                        relationships,
                         tx,
                         modelName,
                     );
                     Object.assign(updateData, processedData);
                 }
+                if (options?.hooks?.beforeUpdate) {
+                    updateData = await options.hooks.beforeUpdate(updateData, req);
+                }
+                Object.assign(updateData, policy.enforcedData);
+                if (this.concurrency) {
+                    delete updateData[this.concurrency.field];
+                    Object.assign(updateData, nextTokenData(this.concurrency));
+                }
 
-                const updated = await tx[modelName].update({
-                    where: { id: operation.ref.id },
-                    data: updateData,
+                const updated = await this.runConditionalWrite(modelName, () =>
+                    tx[modelName].update({
+                        where: this.concurrencyWhere('id', operation.ref.id, expectedToken),
+                        data: updateData,
+                    }),
+                );
+                await this.emitCrudEvent(options, 'update', updated, req, tx);
+                if (options?.hooks?.afterUpdate) {
+                    afterHooks.push(() => options.hooks.afterUpdate(updated, req));
+                }
+                return JsonApiTransformer.transformToResource(updated, {
+                    resourceType: modelName,
+                    hiddenFields: policy.hiddenFields,
                 });
-                return JsonApiTransformer.transformToResource(updated, { resourceType: modelName });
             }
 
-            case 'remove':
+            case 'remove': {
                 if (!operation.ref) {
                     throw new Error('Remove operation requires ref');
                 }
 
+                // 관계 제거는 update, 리소스 제거는 destroy 정책을 따른다
+                const policy = await this.resolveCrudPolicy(
+                    options,
+                    req,
+                    modelName,
+                    operation.ref.relationship ? 'update' : 'destroy',
+                );
+                if (operation.ref.relationship) {
+                    assertPolicyFieldPermitted(policy, operation.ref.relationship, 'write');
+                }
+                await this.assertInPolicyScope(tx, modelName, 'id', operation.ref.id, policy);
+                const expectedToken = await this.assertConcurrencyPrecondition(
+                    this.atomicPreconditionRequest(req, operation),
+                    tx,
+                    modelName,
+                    'id',
+                    operation.ref.id,
+                    policy,
+                );
+                const where = this.concurrencyWhere('id', operation.ref.id, expectedToken);
+                const tokenData = this.concurrency ? nextTokenData(this.concurrency) : {};
+
                 if (operation.ref.relationship) {
                     // 관계 제거
-                    const relationshipData: any = {};
+                    const relationshipData: any = { ...tokenData };
                     relationshipData[operation.ref.relationship] = { disconnect: true };
 
-                    await tx[modelName].update({
-                        where: { id: operation.ref.id },
-                        data: relationshipData,
-                    });
+                    await this.runConditionalWrite(modelName, () =>
+                        tx[modelName].update({ where, data: relationshipData }),
+                    );
                 } else {
-                    // 리소스 제거
-                    await tx[modelName].delete({
-                        where: { id: operation.ref.id },
-                    });
+                    // 리소스 제거 (destroy 훅 적용, 관계 제거는 relationship 라우트와 같이 훅 대상 아님)
+                    const id = operation.ref.id;
+                    if (options?.hooks?.beforeDestroy) {
+                        await options.hooks.beforeDestroy(id, req);
+                    }
+                    // destroy 라우트와 같이 softDelete 설정 시 삭제 시각만 기록한다
+                    await this.runConditionalWrite(modelName, () =>
+                        options?.softDelete?.enabled
+                            ? tx[modelName].update({
+                                  where,
+                                  data: {
+                                      [options.softDelete.field || DEFAULT_SOFT_DELETE_FIELD]:
+                                          new Date(),
+                                      ...tokenData,
+                                  },
+                              })
+                            : tx[modelName].delete({ where }),
+                    );
+                    if (options?.hooks?.afterDestroy) {
+                        afterHooks.push(() => options.hooks.afterDestroy(id, req));
+                    }
                 }
                 return null;
+            }
 
             default:
                 throw new Error(`Unsupported atomic operation: ${operation.op}`);
@@ -1567,15 +1984,39 @@ export class CrudRouteBuilder {
                     return;
                 }
 
+                // 접근 정책 평가: 쓰기 불가 필드 거부(403) 또는 제거, 스코프 밖의 행은 404
+                const policy = await this.resolveCrudPolicy(options, req, modelName, 'update');
+                applyReadPolicyToQuery(queryParams, policy);
+                const { attributes, relationships } = applyWritePolicy(requestData, policy);
+                await this.assertInPolicyScope(
+                    client,
+                    modelName,
+                    primaryKey,
+                    parsedIdentifier,
+                    policy,
+                );
+
+                // 낙관적 동시성: If-Match 토큰이 현재 행과 같아야 진행 (428 / 412)
+                const expectedToken = await this.assertConcurrencyPrecondition(
+                    req,
+                    client,
+                    modelName,
+                    primaryKey,
+                    parsedIdentifier,
+                    policy,
+                );
+
                 // attributes에서 데이터 추출
-                let data = requestData.attributes || {};
+                let data = attributes || {};
 
                 // 관계 데이터 처리 (relationships가 있는 경우)
-                if (requestData.relationships) {
+                if (relationships) {
+                    // 다른 테넌트의 행은 연결할 수 없다 (404)
+                    await this.assertRelationshipsInTenant(client, relationships, req);
                     try {
                         data = await this.processRelationships(
                             data,
-                            requestData.relationships,
+                            relationships,
                             client,
                             modelName,
                             true, // 업데이트 모드
@@ -1602,17 +2043,36 @@ export class CrudRouteBuilder {
                     data = await options.hooks.beforeUpdate(data, req);
                 }
 
+                // 테넌트 컬럼 변경(다른 테넌트로 이동) 방지
+                if (policy.enforcedData) {
+                    Object.assign(data, policy.enforcedData);
+                }
+
                 // include 옵션 빌드 (?include= 또는 defaultIncludes 적용 시)
                 const updateIncludeOptions =
                     queryParams.include && queryParams.include.length > 0
                         ? PrismaQueryBuilder['buildIncludeOptions'](queryParams.include)
                         : undefined;
 
-                const result = await client[modelName].update({
-                    where: { [primaryKey]: parsedIdentifier },
-                    data,
-                    ...(updateIncludeOptions && { include: updateIncludeOptions }),
-                });
+                // 토큰 컬럼은 클라이언트가 아니라 프레임워크가 갱신한다
+                if (this.concurrency) {
+                    delete data[this.concurrency.field];
+                    Object.assign(data, nextTokenData(this.concurrency));
+                }
+
+                const result = await this.runConditionalWrite(modelName, () =>
+                    this.withCrudEvent(client, options, 'update', req, (db) =>
+                        db[modelName].update({
+                            where: this.concurrencyWhere(
+                                primaryKey,
+                                parsedIdentifier,
+                                expectedToken,
+                            ),
+                            data,
+                            ...(updateIncludeOptions && { include: updateIncludeOptions }),
+                        }),
+                    ),
+                );
 
                 // After hook 실행
                 if (options?.hooks?.afterUpdate) {
@@ -1635,8 +2095,12 @@ export class CrudRouteBuilder {
                     modelName,
                     options,
                     primaryKey,
+                    policy.hiddenFields,
                 );
 
+                this.attachConcurrencyMeta(serializedResponse, [result], primaryKey);
+                this.setConcurrencyETag(res, result);
+
                 res.json(serializedResponse);
             } catch (error: any) {
                 log.Error(`CRUD Update Error for ${modelName}:`, error);
@@ -1647,6 +2111,7 @@ export class CrudRouteBuilder {
 
         // PUT과 PATCH 모두 등록
         const routePath = `/:${primaryKey}`;
+        const updateLimiters = this.rateLimitHandlers(options, modelName, 'update');
         const registerMethod = (method: 'put' | 'patch') => {
             if (options?.validation?.update) {
                 const validationMiddlewares = CustomRequestHandler.withValidation(
@@ -1655,9 +2120,14 @@ export class CrudRouteBuilder {
                 );
 
                 if (middlewares.length > 0) {
-                    this.ctx.router[method](routePath, ...middlewares, ...validationMiddlewares);
+                    this.ctx.router[method](
+                        routePath,
+                        ...middlewares,
+                        ...updateLimiters,
+                        ...validationMiddlewares,
+                    );
                 } else {
-                    this.ctx.router[method](routePath, ...validationMiddlewares);
+                    this.ctx.router[method](routePath, ...updateLimiters, ...validationMiddlewares);
                 }
             } else {
                 if (middlewares.length > 0) {
@@ -1667,10 +2137,15 @@ export class CrudRouteBuilder {
                     this.ctx.router[method](
                         routePath,
                         ...wrappedMiddlewares,
+                        ...updateLimiters,
                         this.ctx.wrapHandler(handler),
                     );
                 } else {
-                    this.ctx.router[method](routePath, this.ctx.wrapHandler(handler));
+                    this.ctx.router[method](
+                        routePath,
+                        ...updateLimiters,
+                        this.ctx.wrapHandler(handler),
+                    );
                 }
             }
         };
@@ -1682,6 +2157,7 @@ export class CrudRouteBuilder {
         ['PUT', 'PATCH'].forEach((method) => {
             this.ctx.registerDocumentation(method, routePath, {
                 summary: `Update ${modelName} by ${primaryKey} (JSON:API)`,
+                ...this.rateLimitDoc(options, 'update'),
                 parameters: {
                     params: {
                         [primaryKey]: {
@@ -1697,6 +2173,7 @@ export class CrudRouteBuilder {
                     400: jsonApiErrorResponse(400),
                     404: jsonApiErrorResponse(404),
                     422: jsonApiErrorResponse(422),
+                    ...this.concurrencyResponses(),
                 },
             });
         });
@@ -1713,6 +2190,7 @@ export class CrudRouteBuilder {
         primaryKeyParser: (value: string) => any = parseStringImpl,
     ): void {
         const middlewares = options?.middleware?.destroy || [];
+        const destroyLimiters = this.rateLimitHandlers(options, modelName, 'destroy');
         const isSoftDelete = options?.softDelete?.enabled;
         const softDeleteField = options?.softDelete?.field || DEFAULT_SOFT_DELETE_FIELD;
 
@@ -1738,17 +2216,46 @@ export class CrudRouteBuilder {
                 );
                 if (!success) return; // 에러 응답은 이미 헬퍼에서 처리됨
 
+                // 접근 정책 평가 (스코프 밖의 행은 404)
+                const policy = await this.resolveCrudPolicy(options, req, modelName, 'destroy');
+                await this.assertInPolicyScope(
+                    client,
+                    modelName,
+                    primaryKey,
+                    parsedIdentifier,
+                    policy,
+                );
+
+                // 낙관적 동시성: If-Match 토큰이 현재 행과 같아야 진행 (428 / 412)
+                const expectedToken = await this.assertConcurrencyPrecondition(
+                    req,
+                    client,
+                    modelName,
+                    primaryKey,
+                    parsedIdentifier,
+                    policy,
+                );
+
                 // Before hook 실행
                 if (options?.hooks?.beforeDestroy) {
                     await options.hooks.beforeDestroy(parsedIdentifier, req);
                 }
 
                 if (isSoftDelete) {
-                    // Soft Delete: 삭제 시간 설정
-                    const result = await client[modelName].update({
-                        where: { [primaryKey]: parsedIdentifier },
-                        data: { [softDeleteField]: new Date() },
-                    });
+                    // Soft Delete: 삭제 시간 설정 (동시성 토큰도 함께 갱신)
+                    const result: any = await this.runConditionalWrite(modelName, () =>
+                        client[modelName].update({
+                            where: this.concurrencyWhere(
+                                primaryKey,
+                                parsedIdentifier,
+                                expectedToken,
+                            ),
+                            data: {
+                                [softDeleteField]: new Date(),
+                                ...(this.concurrency && nextTokenData(this.concurrency)),
+                            },
+                        }),
+                    );
 
                     // After hook 실행
                     if (options?.hooks?.afterDestroy) {
@@ -1798,9 +2305,15 @@ export class CrudRouteBuilder {
                     }
 
                     // Hard Delete: 완전 삭제
-                    await client[modelName].delete({
-                        where: { [primaryKey]: parsedIdentifier },
-                    });
+                    await this.runConditionalWrite(modelName, () =>
+                        client[modelName].delete({
+                            where: this.concurrencyWhere(
+                                primaryKey,
+                                parsedIdentifier,
+                                expectedToken,
+                            ),
+                        }),
+                    );
 
                     // After hook 실행
                     if (options?.hooks?.afterDestroy) {
@@ -1823,9 +2336,14 @@ export class CrudRouteBuilder {
             const wrappedMiddlewares = middlewares.map((mw: MiddlewareHandlerFunction) =>
                 this.ctx.wrapMiddleware(mw),
             );
-            this.ctx.router.delete(routePath, ...wrappedMiddlewares, this.ctx.wrapHandler(handler));
+            this.ctx.router.delete(
+                routePath,
+                ...wrappedMiddlewares,
+                ...destroyLimiters,
+                this.ctx.wrapHandler(handler),
+            );
         } else {
-            this.ctx.router.delete(routePath, this.ctx.wrapHandler(handler));
+            this.ctx.router.delete(routePath, ...destroyLimiters, this.ctx.wrapHandler(handler));
         }
 
         // 문서화 등록 - JSON:API 형식
@@ -1852,8 +2370,11 @@ export class CrudRouteBuilder {
                   404: jsonApiErrorResponse(404),
               };
 
+        Object.assign(deleteResponses, this.concurrencyResponses());
+
         this.ctx.registerDocumentation('DELETE', routePath, {
             summary: deleteDescription,
+            ...this.rateLimitDoc(options, 'destroy'),
             parameters: {
                 params: {
                     [primaryKey]: {
@@ -1878,6 +2399,7 @@ export class CrudRouteBuilder {
         primaryKeyParser: (value: string) => any = parseStringImpl,
     ): void {
         const middlewares = options?.middleware?.recover || [];
+        const recoverLimiters = this.rateLimitHandlers(options, modelName, 'recover');
         // P0-3: 형제 핸들러(index/destroy)와 동일하게 설정된 soft-delete 필드를 해석한다.
         // (과거 'deletedAt' 을 하드코딩하여 커스텀 softDelete.field 설정 시 복구가 깨졌다.)
         const softDeleteField = options?.softDelete?.field || DEFAULT_SOFT_DELETE_FIELD;
@@ -1897,6 +2419,16 @@ export class CrudRouteBuilder {
                 );
                 if (!success) return; // 에러 응답은 이미 헬퍼에서 처리됨
 
+                // 접근 정책 평가 (스코프 밖의 행은 404)
+                const policy = await this.resolveCrudPolicy(options, req, modelName, 'recover');
+                await this.assertInPolicyScope(
+                    client,
+                    modelName,
+                    primaryKey,
+                    parsedIdentifier,
+                    policy,
+                );
+
                 // Before hook 실행
                 if (options?.hooks?.beforeRecover) {
                     await options.hooks.beforeRecover(parsedIdentifier, req);
@@ -1974,6 +2506,7 @@ export class CrudRouteBuilder {
                         modelName,
                         req,
                         primaryKey,
+                        policy.hiddenFields,
                     ),
                     jsonapi: {
                         version: JSON_API_VERSION,
@@ -2005,9 +2538,14 @@ export class CrudRouteBuilder {
             );
 
             if (middlewares.length > 0) {
-                this.ctx.router.post(routePath, ...middlewares, ...validationMiddlewares);
+                this.ctx.router.post(
+                    routePath,
+                    ...middlewares,
+                    ...recoverLimiters,
+                    ...validationMiddlewares,
+                );
             } else {
-                this.ctx.router.post(routePath, ...validationMiddlewares);
+                this.ctx.router.post(routePath, ...recoverLimiters, ...validationMiddlewares);
             }
         } else {
             // 일반 핸들러
@@ -2018,16 +2556,18 @@ export class CrudRouteBuilder {
                 this.ctx.router.post(
                     routePath,
                     ...wrappedMiddlewares,
+                    ...recoverLimiters,
                     this.ctx.wrapHandler(handler),
                 );
             } else {
-                this.ctx.router.post(routePath, this.ctx.wrapHandler(handler));
+                this.ctx.router.post(routePath, ...recoverLimiters, this.ctx.wrapHandler(handler));
             }
         }
 
         // 문서화 등록 - JSON:API ref
         this.ctx.registerDocumentation('POST', routePath, {
             summary: `Recover soft-deleted ${modelName} by ${primaryKey} (JSON:API)`,
+            ...this.rateLimitDoc(options, 'recover'),
             parameters: {
                 params: {
                     [primaryKey]: {
@@ -2054,6 +2594,7 @@ export class CrudRouteBuilder {
         modelName: string,
         req: any,
         primaryKey: string = DEFAULT_PRIMARY_KEY,
+        hiddenFields?: Set<string>,
     ): any {
         const resourceType = modelName.toLowerCase();
         const baseUrl = this.buildBaseUrl(req);
@@ -2065,6 +2606,9 @@ export class CrudRouteBuilder {
         const attributes = { ...item };
         delete attributes[primaryKey];
 
+        // 읽기 정책으로 숨겨진 필드 제외
+        hiddenFields?.forEach((field) => delete attributes[field]);
+
         // primaryKey가 'id'가 아닌 경우, 기존 'id' 필드를 attributes에 유지
         // 다른 기본 ID 필드들은 제거 (중복 방지)
         if (primaryKey !== 'uuid') delete attributes.uuid;
@@ -2123,6 +2667,38 @@ export class CrudRouteBuilder {
      * 페이지네이션 URL 생성 헬퍼 메서드
      */
     private buildPaginationUrl(baseUrl: string, query: any, page: number, size: number): string {
+        const params = this.buildNonPageQueryParams(query);
+
+        // 페이지네이션 파라미터 추가
+        params.append('page[number]', String(page));
+        params.append('page[size]', String(size));
+
+        return `${baseUrl}?${params.toString()}`;
+    }
+
+    /**
+     * cursor(keyset) 페이지네이션 URL 생성 헬퍼 메서드
+     * 빈 커서(page[after]= / page[before]=)는 각각 첫 페이지 / 마지막 페이지를 의미한다.
+     */
+    private buildCursorPaginationUrl(
+        baseUrl: string,
+        query: any,
+        direction: CursorDirection,
+        cursor: string,
+        size: number,
+    ): string {
+        const params = this.buildNonPageQueryParams(query);
+
+        params.append(`page[${direction}]`, cursor);
+        params.append('page[size]', String(size));
+
+        return `${baseUrl}?${params.toString()}`;
+    }
+
+    /**
+     * 페이지네이션 URL 용 기존 쿼리 파라미터 복사 (page 파라미터 제외)
+     */
+    private buildNonPageQueryParams(query: any): URLSearchParams {
         const params = new URLSearchParams();
 
         // 기존 쿼리 파라미터 유지 (page 제외)
@@ -2152,11 +2728,7 @@ export class CrudRouteBuilder {
             }
         });
 
-        // 페이지네이션 파라미터 추가
-        params.append('page[number]', String(page));
-        params.append('page[size]', String(size));
-
-        return `${baseUrl}?${params.toString()}`;
+        return params;
     }
 
     /**
@@ -2171,7 +2743,7 @@ export class CrudRouteBuilder {
         if (!queryParams.page) {
             const errorResponse = this.formatJsonApiError(
                 new Error(
-                    'Pagination is required. You must specify either page-based pagination (page[number] & page[size]) or cursor-based pagination (page[cursor] & page[size])',
+                    'Pagination is required. You must specify either page-based pagination (page[number] & page[size]) or cursor-based pagination (page[after] | page[before] & page[size])',
                 ),
                 ERROR_CODES.PAGINATION_REQUIRED,
                 400,
@@ -2183,10 +2755,17 @@ export class CrudRouteBuilder {
         }
 
         // 페이지네이션 파라미터 세부 검증
-        if (!queryParams.page.number && !queryParams.page.cursor) {
+        // (page[number] 와 커서를 섞거나 page[after] 와 page[before] 를 동시에 지정하는 것도 거부)
+        const page = queryParams.page;
+        const cursorMode = isCursorPage(page);
+        if (
+            (!page.number && !cursorMode) ||
+            (page.number && cursorMode) ||
+            (page.after !== undefined && page.before !== undefined)
+        ) {
             const errorResponse = this.formatJsonApiError(
                 new Error(
-                    'Invalid pagination parameters. Specify either page[number] for offset-based pagination or page[cursor] for cursor-based pagination',
+                    'Invalid pagination parameters. Specify either page[number] for offset-based pagination or one of page[after] / page[before] for cursor-based pagination',
                 ),
                 ERROR_CODES.INVALID_PAGINATION_PARAMS,
                 400,
@@ -2278,6 +2857,44 @@ export class CrudRouteBuilder {
         return findManyOptions;
     }
 
+    /**
+     * INDEX 라우트의 cursor(keyset) 페이지네이션 적용.
+     * soft delete/beforeIndex 로 확정된 where 에 keyset 조건을 AND 로 병합하고,
+     * orderBy 를 keyset 정렬(기본키 tiebreaker 포함)로, take 를 size + 1 로 설정한다.
+     * findManyOptions 를 제자리에서 변형(mutate)하며, 잘못된 커서는 400(INVALID_CURSOR) 으로 던진다.
+     */
+    private applyIndexKeysetPagination(
+        findManyOptions: any,
+        page: any,
+        sort: any[] | undefined,
+        primaryKey: string,
+    ): { sort: any[]; direction: CursorDirection; hasCursor: boolean } {
+        const keysetSort = resolveKeysetSort(sort, primaryKey, this.fieldTypeMap);
+        const { direction, cursor } = resolveCursorDirection(page);
+
+        if (cursor) {
+            const values = decodeCursor(cursor, keysetSort);
+            const keysetWhere = buildKeysetWhere(keysetSort, values, direction);
+            findManyOptions.where = findManyOptions.where
+                ? { AND: [findManyOptions.where, keysetWhere] }
+                : keysetWhere;
+        }
+
+        findManyOptions.orderBy = buildKeysetOrderBy(keysetSort, direction);
+        findManyOptions.take = page.size + 1;
+        delete findManyOptions.skip;
+        delete findManyOptions.cursor;
+
+        // select 사용 시 커서 생성에 필요한 keyset 필드가 빠지지 않도록 보장
+        if (findManyOptions.select) {
+            keysetSort.forEach((s) => {
+                findManyOptions.select[s.field] = true;
+            });
+        }
+
+        return { sort: keysetSort, direction, hasCursor: !!cursor };
+    }
+
     /**
      * INDEX 라우트의 JSON:API 응답 엔벨로프(included/links/meta/response/metadata) 조립 + 직렬화.
      * 조회 결과(items/total)를 받아 최종 직렬화된 응답 객체를 반환한다. 제어 흐름(early-return) 없음.
@@ -2291,6 +2908,8 @@ export class CrudRouteBuilder {
         modelName: string,
         options: any,
         primaryKey: string,
+        cursorPage?: CursorPageInfo,
+        hiddenFields?: Set<string>,
     ): any {
         // Base URL 생성
         const baseUrl = this.buildBaseUrl(req);
@@ -2308,7 +2927,41 @@ export class CrudRouteBuilder {
 
         // 페이지네이션 링크 생성
         let links: any;
-        if (queryParams.page) {
+        if (cursorPage) {
+            const pageSize = queryParams.page.size;
+            const { direction, cursor } = resolveCursorDirection(queryParams.page);
+
+            links = {
+                self: this.buildCursorPaginationUrl(
+                    baseUrl,
+                    req.query,
+                    direction,
+                    cursor || '',
+                    pageSize,
+                ),
+                first: this.buildCursorPaginationUrl(baseUrl, req.query, 'after', '', pageSize),
+                last: this.buildCursorPaginationUrl(baseUrl, req.query, 'before', '', pageSize),
+            };
+
+            if (cursorPage.hasPrev && cursorPage.startCursor) {
+                links.prev = this.buildCursorPaginationUrl(
+                    baseUrl,
+                    req.query,
+                    'before',
+                    cursorPage.startCursor,
+                    pageSize,
+                );
+            }
+            if (cursorPage.hasNext && cursorPage.endCursor) {
+                links.next = this.buildCursorPaginationUrl(
+                    baseUrl,
+                    req.query,
+                    'after',
+                    cursorPage.endCursor,
+                    pageSize,
+                );
+            }
+        } else if (queryParams.page) {
             const pageSize = queryParams.page.size || DEFAULT_PAGE_SIZE;
             const currentPage = queryParams.page.number || 1;
             const totalPages = Math.ceil(total / pageSize);
@@ -2328,14 +2981,23 @@ export class CrudRouteBuilder {
         }
 
         // 메타데이터 생성 (JSON:API 스펙 준수)
+        // cursor 모드는 count 쿼리를 생략하므로 전체 레코드 수(total)를 노출하지 않는다
         const meta: any = {
             timestamp: new Date().toISOString(),
-            total: total, // 전체 레코드 수(JSON:API에서 일반적으로 사용)
+            ...(!cursorPage && { total: total }), // 전체 레코드 수(JSON:API에서 일반적으로 사용)
             count: items.length, // 현재 응답 레코드 수
         };
 
         // 페이지네이션이 설정된 경우에만 페이지 정보 추가
-        if (queryParams.page) {
+        if (cursorPage) {
+            meta.page = {
+                size: queryParams.page.size,
+                hasNext: cursorPage.hasNext,
+                hasPrev: cursorPage.hasPrev,
+                ...(cursorPage.startCursor && { startCursor: cursorPage.startCursor }),
+                ...(cursorPage.endCursor && { endCursor: cursorPage.endCursor }),
+            };
+        } else if (queryParams.page) {
             const pageSize = queryParams.page.size || DEFAULT_PAGE_SIZE;
             const currentPage = queryParams.page.number || 1;
             const totalPages = Math.ceil(total / pageSize);
@@ -2363,6 +3025,8 @@ export class CrudRouteBuilder {
                 included,
                 includeMerge: options?.includeMerge || false,
                 jsonFields,
+                relationshipNames: this.getRelationshipNames(),
+                hiddenFields,
             },
         );
 
@@ -2374,6 +3038,7 @@ export class CrudRouteBuilder {
             'index',
             queryParams.include,
             queryParams,
+            cursorPage,
         );
 
         // BigInt와 DATE 타입 직렬화 처리
@@ -2392,6 +3057,7 @@ export class CrudRouteBuilder {
         modelName: string,
         options: any,
         primaryKey: string,
+        hiddenFields?: Set<string>,
     ): any {
         // Base URL 생성
         const baseUrl = this.buildBaseUrl(req);
@@ -2421,6 +3087,8 @@ export class CrudRouteBuilder {
                 included: updateIncluded,
                 includeMerge: options?.includeMerge || false,
                 jsonFields,
+                relationshipNames: this.getRelationshipNames(),
+                hiddenFields,
             },
         );
 
@@ -2485,29 +3153,356 @@ export class CrudRouteBuilder {
     }
 
     /**
-     * 핸들러 catch 블록의 공통 에러 응답 전송 로직.
-     * Prisma 에러를 매핑하고 JSON:API 에러로 포맷한 뒤 동일 status 로 전송한다.
-     * (기존 catch 블록의 mapPrismaError → formatJsonApiError → res.status().json() 3-라인과 byte-identical)
+     * 관계 엔드포인트의 소유 리소스를 현재 linkage 와 함께 조회한다.
+     * 관계 필드를 해석할 수 있으면 모델에 없는 관계명은 조회 없이 null 을 반환하고,
+     * 해석할 수 없으면(schema.prisma 미존재) 조회된 관계 데이터 형태로 to-one / to-many 를 판단한다.
+     * @returns 리소스 또는 관계가 없으면 null
      */
-    private sendMappedCrudError(res: any, error: any, req: any): void {
-        // 명시적으로 statusCode 를 단 에러(예: 필터 연산자 적용 불가 → INVALID_FILTER 400)는
-        // 그 상태코드를 존중한다 (Prisma 매핑의 500 fallback 으로 빠지지 않도록).
-        const explicitStatus = error?.statusCode;
-        if (typeof explicitStatus === 'number' && explicitStatus >= 400 && explicitStatus < 600) {
-            const explicitCode = error?.code || ERROR_CODES.VALIDATION_ERROR;
-            const errorResponse = this.formatJsonApiError(
-                error,
-                explicitCode,
-                explicitStatus,
-                req.path,
-                req.method,
-            );
-            res.status(explicitStatus).json(errorResponse);
-            return;
-        }
+    private async findRelationshipOwner(
+        client: any,
+        modelName: string,
+        primaryKey: string,
+        parsedIdentifier: any,
+        relationName: string,
+        scope?: Record<string, any>,
+    ): Promise<{ item: any; descriptor: RelationshipDescriptor } | null> {
+        const known = this.relationships?.get(relationName);
+        if (this.relationships && !known) return null;
+
+        const item = await client[modelName].findFirst({
+            where: mergePolicyWhere({ [primaryKey]: parsedIdentifier }, scope),
+            include: known ? buildLinkageInclude(known) : { [relationName]: true },
+        });
+        if (!item) return null;
 
-        const { code, status } = ErrorFormatter.mapPrismaError(error);
-        const errorResponse = this.formatJsonApiError(error, code, status, req.path, req.method);
+        const descriptor: RelationshipDescriptor = known || {
+            name: relationName,
+            isToMany: Array.isArray(item[relationName]),
+            targetModel: '',
+        };
+        return { item, descriptor };
+    }
+
+    /**
+     * 접근 정책 + 테넌트 스코프 평가.
+     * 테넌트 조건은 정책 스코프와 AND 로 병합되어(create 제외) filter 파라미터로 벗어날 수 없고,
+     * create/update 에는 enforcedData 로 테넌트 컬럼이 강제된다.
+     */
+    private async resolveCrudPolicy(
+        options: any,
+        req: any,
+        modelName: string,
+        action: CrudPolicyAction,
+    ): Promise<CrudPolicyDecision> {
+        const decision = await evaluateCrudPolicy(options?.policy, req, action);
+        const tenant = await TenantScope.conditionFor(modelName, this.fieldTypeMap, req);
+        if (tenant) {
+            if (action !== 'create') {
+                decision.where = mergePolicyWhere(decision.where, tenant.where);
+            }
+            if (action === 'create' || action === 'update') {
+                decision.enforcedData = tenant.data;
+            }
+        }
+        return decision;
+    }
+
+    /**
+     * 정책 행 스코프 확인. 스코프가 있고 대상 행이 스코프 밖(또는 없음)이면 404 를 던진다.
+     * (update / destroy / recover 는 unique where 로 동작하므로 실행 전에 별도로 확인한다)
+     */
+    private async assertInPolicyScope(
+        client: any,
+        modelName: string,
+        primaryKey: string,
+        parsedIdentifier: any,
+        policy: CrudPolicyDecision,
+    ): Promise<void> {
+        if (!policy.where) return;
+
+        const item = await client[modelName].findFirst({
+            where: mergePolicyWhere({ [primaryKey]: parsedIdentifier }, policy.where),
+            select: { [primaryKey]: true },
+        });
+        if (!item) {
+            const error: any = new Error(`${modelName} not found`);
+            error.code = ERROR_CODES.NOT_FOUND;
+            error.statusCode = 404;
+            throw error;
+        }
+    }
+
+    /**
+     * 요청 본문 relationships 가 연결하려는 행이 모두 현재 테넌트의 행인지 확인한다.
+     * 관계 대상 모델이 TenantScope 대상일 때만 검사한다.
+     */
+    private async assertRelationshipsInTenant(
+        client: any,
+        relationships: Record<string, JsonApiRelationship>,
+        req: any,
+    ): Promise<void> {
+        for (const [relationName, relationship] of Object.entries(relationships)) {
+            const descriptor = this.relationships?.get(relationName);
+            if (!descriptor || !relationship?.data) continue;
+            const ids = ([] as any[])
+                .concat(relationship.data)
+                .filter((item: any) => item?.id)
+                .map((item: any) => this.parseRelationshipId(item.id));
+            await this.assertRelatedInTenant(client, descriptor, ids, req);
+        }
+    }
+
+    /**
+     * 관계 대상 id 가 모두 현재 테넌트의 행인지 확인한다 (대상 모델이 스코프 밖이면 통과).
+     * 다른 테넌트의 행은 존재 여부를 드러내지 않도록 404 로 거절한다.
+     */
+    private async assertRelatedInTenant(
+        client: any,
+        descriptor: RelationshipDescriptor,
+        ids: any[],
+        req: any,
+    ): Promise<void> {
+        if (ids.length === 0) return;
+        const targetModel = descriptor.targetModel;
+        const tenant = await TenantScope.conditionFor(
+            targetModel,
+            prismaManager.getFieldTypeMap(this.databaseName, targetModel),
+            req,
+        );
+        if (!tenant) return;
+
+        const uniqueIds = [...new Set(ids)];
+        const delegate =
+            client[targetModel] ??
+            client[targetModel.charAt(0).toLowerCase() + targetModel.slice(1)];
+        const visible = await delegate.count({
+            where: { AND: [{ [DEFAULT_PRIMARY_KEY]: { in: uniqueIds } }, tenant.where] },
+        });
+        if (visible < uniqueIds.length) {
+            const error: any = new Error(`Related ${targetModel} not found`);
+            error.code = ERROR_CODES.NOT_FOUND;
+            error.statusCode = 404;
+            throw error;
+        }
+    }
+
+    /**
+     * 낙관적 동시성 사전 조건. concurrency 미설정이면 아무것도 하지 않는다.
+     * 현재 행의 토큰을 읽어 If-Match 와 비교하고(없으면 404), 통과하면 그 토큰을 반환한다.
+     */
+    private async assertConcurrencyPrecondition(
+        req: any,
+        client: any,
+        modelName: string,
+        primaryKey: string,
+        parsedIdentifier: any,
+        policy: CrudPolicyDecision,
+    ): Promise<string | undefined> {
+        if (!this.concurrency) return undefined;
+
+        const current = await client[modelName].findFirst({
+            where: mergePolicyWhere({ [primaryKey]: parsedIdentifier }, policy.where),
+            select: { [this.concurrency.field]: true },
+        });
+        if (!current) {
+            const error: any = new Error(`${modelName} not found`);
+            error.code = ERROR_CODES.NOT_FOUND;
+            error.statusCode = 404;
+            throw error;
+        }
+
+        const token = concurrencyToken(current, this.concurrency);
+        assertIfMatch(req, modelName, token);
+        return token;
+    }
+
+    /**
+     * atomic 작업의 사전 조건 헤더. 작업마다 대상 행이 다르므로 작업의 `meta.etag` 를 우선하고,
+     * 없으면 요청의 `If-Match` 를 그대로 쓴다.
+     */
+    private atomicPreconditionRequest(req: any, operation: any): any {
+        const etag = operation?.meta?.etag;
+        if (typeof etag !== 'string') return req;
+        return { headers: { ...req.headers, 'if-match': etag } };
+    }
+
+    /** 기본키 where 에 확인한 토큰 조건을 더한다 (사이에 다른 요청이 바꿨다면 0 행 매칭) */
+    private concurrencyWhere(
+        primaryKey: string,
+        parsedIdentifier: any,
+        expectedToken: string | undefined,
+    ): Record<string, any> {
+        const where: Record<string, any> = { [primaryKey]: parsedIdentifier };
+        if (this.concurrency && expectedToken !== undefined) {
+            where[this.concurrency.field] = tokenWhereValue(expectedToken, this.concurrency);
+        }
+        return where;
+    }
+
+    /**
+     * CRUD `events` 옵션에 해당 action 이 있으면 write 와 outbox 이벤트 기록을 한 작업 단위로 실행한다.
+     * 없으면 write 를 그대로 실행한다 (기존 동작).
+     */
+    private async withCrudEvent<T>(
+        client: any,
+        options: any,
+        action: 'create' | 'update',
+        req: any,
+        write: (db: any) => Promise<T>,
+    ): Promise<T> {
+        if (!options?.events?.[action]) return write(client);
+        return UnitOfWork.run(
+            this.databaseName,
+            async (tx: any) => {
+                const record = await write(tx);
+                await this.emitCrudEvent(options, action, record, req, tx);
+                return record;
+            },
+            { client },
+        );
+    }
+
+    /**
+     * CRUD `events` 옵션으로 outbox 이벤트를 기록한다.
+     * 문자열이면 응답과 같이 serialize 한 레코드(BigInt → 문자열)를 payload 로,
+     * 함수면 반환한 `{ event, payload }` 를 기록한다 (null 이면 생략).
+     */
+    private async emitCrudEvent(
+        options: any,
+        action: 'create' | 'update',
+        record: any,
+        req: any,
+        tx: any,
+    ): Promise<void> {
+        const spec = options?.events?.[action];
+        if (!spec) return;
+        const resolved =
+            typeof spec === 'string'
+                ? { event: spec, payload: serialize(record) }
+                : await spec(record, req);
+        if (!resolved) return;
+        await Outbox.emit(this.databaseName, resolved.event, resolved.payload, { client: tx });
+    }
+
+    /**
+     * 조건부 update/delete 실행. concurrency 설정 시 조건 불일치(P2025, 레코드 없음)는
+     * 확인과 쓰기 사이에 다른 요청이 끼어든 것이므로 412 로 바꾼다.
+     */
+    private async runConditionalWrite<T>(modelName: string, write: () => Promise<T>): Promise<T> {
+        try {
+            return await write();
+        } catch (error: any) {
+            if (this.concurrency && error?.code === 'P2025') {
+                throw preconditionFailedError(modelName);
+            }
+            throw error;
+        }
+    }
+
+    /** concurrency 설정 시 update / destroy 문서에 추가할 응답 (428 / 412) */
+    private concurrencyResponses(): Record<number, any> {
+        if (!this.concurrency) return {};
+        return {
+            412: jsonApiErrorResponse(412),
+            428: jsonApiErrorResponse(428),
+        };
+    }
+
+    /** concurrency 설정 시 레코드 토큰을 강한 ETag 로 설정 */
+    private setConcurrencyETag(res: any, record: any): void {
+        if (!this.concurrency) return;
+        const token = concurrencyToken(record, this.concurrency);
+        if (token !== undefined) res.setHeader('ETag', concurrencyETag(token));
+    }
+
+    /**
+     * concurrency 설정 시 응답 문서의 primary 리소스(들)에 `meta.etag` 를 붙인다.
+     * 값은 If-Match 에 그대로 보낼 수 있는 ETag 형식(`"3"`)이다. 리소스는 id 로 레코드와 짝짓는다.
+     */
+    private attachConcurrencyMeta(document: any, records: any[], primaryKey: string): void {
+        if (!this.concurrency || !document?.data) return;
+
+        const tokens = new Map<string, string>();
+        for (const record of records) {
+            const token = concurrencyToken(record, this.concurrency);
+            if (token !== undefined) tokens.set(String(record?.[primaryKey]), token);
+        }
+
+        const resources = Array.isArray(document.data) ? document.data : [document.data];
+        for (const resource of resources) {
+            const token = resource && tokens.get(String(resource.id));
+            if (token !== undefined && token !== null) {
+                resource.meta = { ...resource.meta, etag: concurrencyETag(token) };
+            }
+        }
+    }
+
+    /**
+     * 관계 엔드포인트의 404 응답 (리소스 또는 관계 없음).
+     */
+    private sendRelationshipNotFound(req: any, res: any, modelName: string): void {
+        const relationName = req.params.relationName;
+        const unknownRelation = this.relationships && !this.relationships.has(relationName);
+        const errorResponse = this.formatJsonApiError(
+            new Error(
+                unknownRelation
+                    ? `Relationship '${relationName}' not found`
+                    : `${modelName} not found`,
+            ),
+            unknownRelation ? ERROR_CODES.RELATIONSHIP_NOT_FOUND : ERROR_CODES.NOT_FOUND,
+            404,
+            req.path,
+        );
+        res.status(404).json(errorResponse);
+    }
+
+    /**
+     * linkage(resource identifier) 의 type 결정.
+     * 관계 타겟 모델을 알면 CRUD 리소스 타입 규칙(모델명 소문자)을, 모르면 데이터 구조 추론을 사용한다.
+     */
+    private getLinkageResourceType(descriptor: RelationshipDescriptor, record: any): string {
+        if (descriptor.targetModel) {
+            return linkageResourceType(descriptor);
+        }
+        return JsonApiTransformer.inferResourceTypeFromData(
+            record,
+            descriptor.name,
+            descriptor.isToMany,
+        );
+    }
+
+    /**
+     * build() 대상 모델의 관계 필드 이름 목록 (리소스의 relationships.*.links 생성용).
+     * 관계 정보를 해석할 수 없으면 undefined 를 반환하여 기존 응답 형태를 유지한다.
+     */
+    private getRelationshipNames(): string[] | undefined {
+        return this.relationships ? Array.from(this.relationships.keys()) : undefined;
+    }
+
+    /**
+     * 핸들러 catch 블록의 공통 에러 응답 전송 로직.
+     * Prisma 에러를 매핑하고 JSON:API 에러로 포맷한 뒤 동일 status 로 전송한다.
+     * (기존 catch 블록의 mapPrismaError → formatJsonApiError → res.status().json() 3-라인과 byte-identical)
+     */
+    private sendMappedCrudError(res: any, error: any, req: any): void {
+        // 명시적으로 statusCode 를 단 에러(예: 필터 연산자 적용 불가 → INVALID_FILTER 400)는
+        // 그 상태코드를 존중한다 (Prisma 매핑의 500 fallback 으로 빠지지 않도록).
+        const explicitStatus = error?.statusCode;
+        if (typeof explicitStatus === 'number' && explicitStatus >= 400 && explicitStatus < 600) {
+            const explicitCode = error?.code || ERROR_CODES.VALIDATION_ERROR;
+            const errorResponse = this.formatJsonApiError(
+                error,
+                explicitCode,
+                explicitStatus,
+                req.path,
+                req.method,
+            );
+            res.status(explicitStatus).json(errorResponse);
+            return;
+        }
+
+        const { code, status } = ErrorFormatter.mapPrismaError(error);
+        const errorResponse = this.formatJsonApiError(error, code, status, req.path, req.method);
         res.status(status).json(errorResponse);
     }
 
@@ -2705,107 +3700,127 @@ export class CrudRouteBuilder {
         primaryKey: string = DEFAULT_PRIMARY_KEY,
         primaryKeyParser: (value: string) => any = parseStringImpl,
     ): void {
-        // 현재는 기본적인 관계 조회 라우트만 구현
-        // 향후 확장 가능: POST, PATCH, DELETE for relationships
-
-        // GET /:identifier/:relationName - 관??리소??직접 조회
-        this.ctx.router.get(`/:${primaryKey}/:relationName`, async (req, res) => {
-            try {
-                res.setHeader('Content-Type', JSON_API_CONTENT_TYPE);
-
-                const { success, parsedIdentifier } = this.extractAndParsePrimaryKey(
-                    req,
-                    res,
-                    primaryKey,
-                    primaryKeyParser,
-                    modelName,
-                );
-                if (!success) return;
-
-                const relationName = req.params.relationName;
+        // 관계 엔드포인트에도 CRUD 미들웨어를 그대로 적용한다 (조회: show, 변경: update)
+        // 레이트 리밋도 같은 액션의 한도를 공유한다 (인증 미들웨어 뒤 — 사용자별 키가 동작하도록)
+        const showMiddlewares = [
+            ...(options?.middleware?.show || []).map((mw: MiddlewareHandlerFunction) =>
+                this.ctx.wrapMiddleware(mw),
+            ),
+            ...this.rateLimitHandlers(options, modelName, 'show'),
+        ];
+        const updateMiddlewares = [
+            ...(options?.middleware?.update || []).map((mw: MiddlewareHandlerFunction) =>
+                this.ctx.wrapMiddleware(mw),
+            ),
+            ...this.rateLimitHandlers(options, modelName, 'update'),
+        ];
+        const relationshipPath = `/:${primaryKey}/relationships/:relationName`;
+
+        // GET /:identifier/:relationName - 관련 리소스 직접 조회
+        this.ctx.router.get(
+            `/:${primaryKey}/:relationName`,
+            ...showMiddlewares,
+            async (req, res) => {
+                try {
+                    res.setHeader('Content-Type', JSON_API_CONTENT_TYPE);
+
+                    const { success, parsedIdentifier } = this.extractAndParsePrimaryKey(
+                        req,
+                        res,
+                        primaryKey,
+                        primaryKeyParser,
+                        modelName,
+                    );
+                    if (!success) return;
 
-                // 쿼리 파라미터 파싱 (include, fields, sort, pagination 지원) (UUID 검증 등의 에러 발생 가능)
-                // NOTE: 이 라우트는 클라이언트의 ?include= 를 소비하지 않으므로 include 정책 적용 생략.
-                const queryParams = this.parseQueryOrSendError(req, res, modelName);
-                if (!queryParams) return; // 에러 응답은 이미 헬퍼에서 전송됨
+                    // 쿼리 파라미터 파싱 (include, fields, sort, pagination 지원) (UUID 검증 등의 에러 발생 가능)
+                    // NOTE: 이 라우트는 클라이언트의 ?include= 를 소비하지 않으므로 include 정책 적용 생략.
+                    const queryParams = this.parseQueryOrSendError(req, res, modelName);
+                    if (!queryParams) return; // 에러 응답은 이미 헬퍼에서 전송됨
 
-                // 기본 리소??조회
-                const item = await client[modelName].findUnique({
-                    where: { [primaryKey]: parsedIdentifier },
-                    include: { [relationName]: true },
-                });
+                    // 접근 정책 평가 (show 기준, 읽기 불가 관계는 403)
+                    const policy = await this.resolveCrudPolicy(options, req, modelName, 'show');
+                    assertPolicyFieldPermitted(policy, req.params.relationName, 'read');
 
-                if (!item) {
-                    const errorResponse = this.formatJsonApiError(
-                        new Error(`${modelName} not found`),
-                        ERROR_CODES.NOT_FOUND,
-                        404,
-                        req.path,
+                    // 기본 리소스 + 관계 조회 (중간 테이블 관계는 타겟 레코드로 정규화)
+                    const owner = await this.findRelationshipOwner(
+                        client,
+                        modelName,
+                        primaryKey,
+                        parsedIdentifier,
+                        req.params.relationName,
+                        policy.where,
                     );
-                    return res.status(404).json(errorResponse);
-                }
-
-                const relationData = item[relationName];
+                    if (!owner) {
+                        this.sendRelationshipNotFound(req, res, modelName);
+                        return;
+                    }
 
-                if (!relationData) {
-                    const errorResponse = this.formatJsonApiError(
-                        new Error(`Relationship '${relationName}' not found`),
-                        ERROR_CODES.RELATIONSHIP_NOT_FOUND,
-                        404,
-                        req.path,
+                    const relationName = owner.descriptor.name;
+                    const relationData = extractLinkageRecords(
+                        owner.descriptor,
+                        owner.item[relationName],
                     );
-                    return res.status(404).json(errorResponse);
-                }
 
-                // Base URL 생성
-                const baseUrl = this.buildBaseUrl(req);
+                    if (!relationData) {
+                        const errorResponse = this.formatJsonApiError(
+                            new Error(`Relationship '${relationName}' not found`),
+                            ERROR_CODES.RELATIONSHIP_NOT_FOUND,
+                            404,
+                            req.path,
+                        );
+                        return res.status(404).json(errorResponse);
+                    }
 
-                // 관계 리소스 타입 추론 (실제 데이터 기반)
-                const isArray = Array.isArray(relationData);
-                const sampleData = isArray ? relationData[0] : relationData;
-                const relationResourceType = JsonApiTransformer.inferResourceTypeFromData(
-                    sampleData,
-                    relationName,
-                    isArray,
-                );
+                    // Base URL 생성
+                    const baseUrl = this.buildBaseUrl(req);
 
-                // Json 타입 필드 목록 가져오기 (관계 리소스 타입 기준)
-                const jsonFields = this.getJsonFieldSet(relationResourceType);
+                    // 관계 리소스 타입 추론 (실제 데이터 기반)
+                    const isArray = Array.isArray(relationData);
+                    const sampleData = isArray ? relationData[0] : relationData;
+                    const relationResourceType = JsonApiTransformer.inferResourceTypeFromData(
+                        sampleData,
+                        relationName,
+                        isArray,
+                    );
 
-                // 사용자 serialize: 관계 라우트는 serializeIncludes[relationName] 를 해당 리소스에 적용한다.
-                const serializedRelationData = await applyCrudSerializers(
-                    relationData,
-                    options?.serializeIncludes?.[relationName],
-                    undefined,
-                    req,
-                    { primaryKey: 'id' },
-                );
+                    // Json 타입 필드 목록 가져오기 (관계 리소스 타입 기준)
+                    const jsonFields = this.getJsonFieldSet(relationResourceType);
 
-                // JSON:API 응답 생성
-                const response: JsonApiResponse = JsonApiTransformer.createJsonApiResponse(
-                    serializedRelationData,
-                    relationResourceType,
-                    {
-                        primaryKey: 'id',
-                        fields: queryParams.fields,
-                        baseUrl,
-                        links: {
-                            self: `${baseUrl}/${modelName.toLowerCase()}/${parsedIdentifier}/${relationName}`,
-                            related: `${baseUrl}/${modelName.toLowerCase()}/${parsedIdentifier}/relationships/${relationName}`,
+                    // 사용자 serialize: 관계 라우트는 serializeIncludes[relationName] 를 해당 리소스에 적용한다.
+                    const serializedRelationData = await applyCrudSerializers(
+                        relationData,
+                        options?.serializeIncludes?.[relationName],
+                        undefined,
+                        req,
+                        { primaryKey: 'id' },
+                    );
+
+                    // JSON:API 응답 생성
+                    const response: JsonApiResponse = JsonApiTransformer.createJsonApiResponse(
+                        serializedRelationData,
+                        relationResourceType,
+                        {
+                            primaryKey: 'id',
+                            fields: queryParams.fields,
+                            baseUrl,
+                            links: {
+                                self: `${baseUrl}/${parsedIdentifier}/${relationName}`,
+                            },
+                            jsonFields,
                         },
-                        jsonFields,
-                    },
-                );
+                    );
 
-                res.json(serialize(response));
-            } catch (error: any) {
-                log.Error(`Related Resource Error for ${modelName}:`, error);
-                this.sendMappedCrudError(res, error, req);
-            }
-        });
+                    res.json(serialize(response));
+                } catch (error: any) {
+                    log.Error(`Related Resource Error for ${modelName}:`, error);
+                    this.sendMappedCrudError(res, error, req);
+                }
+            },
+        );
 
-        // GET /:identifier/relationships/:relationName - 관계 자체 조회
-        this.ctx.router.get(`/:${primaryKey}/relationships/:relationName`, async (req, res) => {
+        // GET /:identifier/relationships/:relationName - 관계 자체(linkage) 조회
+        this.ctx.router.get(relationshipPath, ...showMiddlewares, async (req, res) => {
             try {
                 res.setHeader('Content-Type', JSON_API_CONTENT_TYPE);
 
@@ -2818,56 +3833,42 @@ export class CrudRouteBuilder {
                 );
                 if (!success) return;
 
-                const relationName = req.params.relationName;
-
-                // 기본 리소??조회
-                const item = await client[modelName].findUnique({
-                    where: { [primaryKey]: parsedIdentifier },
-                    include: { [relationName]: true },
-                });
+                // 접근 정책 평가 (show 기준, 읽기 불가 관계는 403)
+                const policy = await this.resolveCrudPolicy(options, req, modelName, 'show');
+                assertPolicyFieldPermitted(policy, req.params.relationName, 'read');
 
-                if (!item) {
-                    const errorResponse = this.formatJsonApiError(
-                        new Error(`${modelName} not found`),
-                        ERROR_CODES.NOT_FOUND,
-                        404,
-                        req.path,
-                    );
-                    return res.status(404).json(errorResponse);
+                const owner = await this.findRelationshipOwner(
+                    client,
+                    modelName,
+                    primaryKey,
+                    parsedIdentifier,
+                    req.params.relationName,
+                    policy.where,
+                );
+                if (!owner) {
+                    this.sendRelationshipNotFound(req, res, modelName);
+                    return;
                 }
 
-                const relationData = item[relationName];
-
-                // 관계 데이터를 JSON:API 형식으로 변환
-                let data = null;
-                if (relationData) {
-                    if (Array.isArray(relationData)) {
-                        data = relationData.map((relItem) => ({
-                            type: JsonApiTransformer.inferResourceTypeFromData(
-                                relItem,
-                                relationName,
-                                true,
-                            ),
-                            id: String(relItem.id || relItem.uuid || relItem._id),
-                        }));
-                    } else {
-                        data = {
-                            type: JsonApiTransformer.inferResourceTypeFromData(
-                                relationData,
-                                relationName,
-                                false,
-                            ),
-                            id: String(relationData.id || relationData.uuid || relationData._id),
-                        };
-                    }
-                }
+                const { item, descriptor } = owner;
+                const records = extractLinkageRecords(descriptor, item[descriptor.name]);
+                const toIdentifier = (record: any) => ({
+                    type: this.getLinkageResourceType(descriptor, record),
+                    id: String(record.id || record.uuid || record._id),
+                });
 
                 const baseUrl = this.buildBaseUrl(req);
                 const response = {
-                    data,
+                    data: Array.isArray(records)
+                        ? records.map(toIdentifier)
+                        : records
+                          ? toIdentifier(records)
+                          : descriptor.isToMany
+                            ? []
+                            : null,
                     links: {
-                        self: `${baseUrl}/${modelName.toLowerCase()}/${parsedIdentifier}/relationships/${relationName}`,
-                        related: `${baseUrl}/${modelName.toLowerCase()}/${parsedIdentifier}/${relationName}`,
+                        self: `${baseUrl}/${parsedIdentifier}/relationships/${descriptor.name}`,
+                        related: `${baseUrl}/${parsedIdentifier}/${descriptor.name}`,
                     },
                     jsonapi: {
                         version: JSON_API_VERSION,
@@ -2881,257 +3882,170 @@ export class CrudRouteBuilder {
             }
         });
 
-        // POST /:identifier/relationships/:relationName - 관계 추가
-        this.ctx.router.post(`/:${primaryKey}/relationships/:relationName`, async (req, res) => {
-            try {
-                res.setHeader('Content-Type', JSON_API_CONTENT_TYPE);
-
-                // Content-Type 검증
-                if (this.rejectInvalidJsonApiContentType(req, res)) return;
+        // 관계 변경 라우트는 update 액션이 활성화된 경우에만 생성 (읽기 전용 CRUD 보호)
+        if (!this.getEnabledActions(options).includes('update')) {
+            return;
+        }
 
-                const { success, parsedIdentifier } = this.extractAndParsePrimaryKey(
-                    req,
-                    res,
-                    primaryKey,
-                    primaryKeyParser,
-                    modelName,
-                );
-                if (!success) return;
+        const mutationHandler =
+            (operation: RelationshipOperation) => async (req: any, res: any) => {
+                try {
+                    res.setHeader('Content-Type', JSON_API_CONTENT_TYPE);
 
-                const relationName = req.params.relationName;
+                    // Content-Type 검증
+                    if (this.rejectInvalidJsonApiContentType(req, res)) return;
 
-                if (!req.body || !req.body.data) {
-                    const errorResponse = this.formatJsonApiError(
-                        new Error('Request must contain data field with relationship identifiers'),
-                        ERROR_CODES.INVALID_REQUEST,
-                        400,
-                        req.path,
+                    const { success, parsedIdentifier } = this.extractAndParsePrimaryKey(
+                        req,
+                        res,
+                        primaryKey,
+                        primaryKeyParser,
+                        modelName,
                     );
-                    return res.status(400).json(errorResponse);
-                }
-
-                const relationshipData = req.body.data;
-                let connectData;
+                    if (!success) return;
 
-                if (Array.isArray(relationshipData)) {
-                    connectData = {
-                        [relationName]: {
-                            connect: relationshipData.map((item: any) => ({ id: item.id })),
-                        },
-                    };
-                } else {
-                    connectData = { [relationName]: { connect: { id: relationshipData.id } } };
-                }
-
-                await client[modelName].update({
-                    where: { [primaryKey]: parsedIdentifier },
-                    data: connectData,
-                });
-
-                res.status(204).end();
-            } catch (error: any) {
-                log.Error(`Relationship Update Error for ${modelName}:`, error);
-                this.sendMappedCrudError(res, error, req);
-            }
-        });
-
-        // PATCH /:identifier/relationships/:relationName - 관계 완전 교체
-        this.ctx.router.patch(`/:${primaryKey}/relationships/:relationName`, async (req, res) => {
-            try {
-                res.setHeader('Content-Type', JSON_API_CONTENT_TYPE);
-
-                // Content-Type 검증
-                if (this.rejectInvalidJsonApiContentType(req, res)) return;
-
-                const { success, parsedIdentifier } = this.extractAndParsePrimaryKey(
-                    req,
-                    res,
-                    primaryKey,
-                    primaryKeyParser,
-                    modelName,
-                );
-                if (!success) return;
+                    if (!req.body || req.body.data === undefined) {
+                        const errorResponse = this.formatJsonApiError(
+                            new Error('Request must contain data field with resource identifiers'),
+                            ERROR_CODES.INVALID_REQUEST,
+                            400,
+                            req.path,
+                        );
+                        return res.status(400).json(errorResponse);
+                    }
 
-                const relationName = req.params.relationName;
+                    // 접근 정책 평가 (update 기준, 쓰기 불가 관계는 403)
+                    const policy = await this.resolveCrudPolicy(options, req, modelName, 'update');
+                    assertPolicyFieldPermitted(policy, req.params.relationName, 'write');
 
-                if (!req.body || req.body.data === undefined) {
-                    const errorResponse = this.formatJsonApiError(
-                        new Error('Request must contain data field'),
-                        ERROR_CODES.INVALID_REQUEST,
-                        400,
-                        req.path,
+                    const owner = await this.findRelationshipOwner(
+                        client,
+                        modelName,
+                        primaryKey,
+                        parsedIdentifier,
+                        req.params.relationName,
+                        policy.where,
                     );
-                    return res.status(400).json(errorResponse);
-                }
-
-                const relationshipData = req.body.data;
-                let updateData;
-
-                if (relationshipData === null) {
-                    // 관계 제거
-                    updateData = { [relationName]: { disconnect: true } };
-                } else if (Array.isArray(relationshipData)) {
-                    // 일대다 관계 교체
-                    updateData = {
-                        [relationName]: {
-                            set: relationshipData.map((item: any) => ({ id: item.id })),
-                        },
-                    };
-                } else {
-                    // 일대일 관계 교체
-                    updateData = { [relationName]: { connect: { id: relationshipData.id } } };
-                }
-
-                await client[modelName].update({
-                    where: { [primaryKey]: parsedIdentifier },
-                    data: updateData,
-                });
-
-                res.status(204).end();
-            } catch (error: any) {
-                log.Error(`Relationship Replace Error for ${modelName}:`, error);
-                this.sendMappedCrudError(res, error, req);
-            }
-        });
-
-        // DELETE /:identifier/relationships/:relationName - 관계 제거
-        this.ctx.router.delete(`/:${primaryKey}/relationships/:relationName`, async (req, res) => {
-            try {
-                res.setHeader('Content-Type', JSON_API_CONTENT_TYPE);
-
-                // Content-Type 검증
-                if (this.rejectInvalidJsonApiContentType(req, res)) return;
-
-                const { success, parsedIdentifier } = this.extractAndParsePrimaryKey(
-                    req,
-                    res,
-                    primaryKey,
-                    primaryKeyParser,
-                    modelName,
-                );
-                if (!success) return;
+                    if (!owner) {
+                        this.sendRelationshipNotFound(req, res, modelName);
+                        return;
+                    }
 
-                const relationName = req.params.relationName;
+                    const { item, descriptor } = owner;
+                    const ids = parseRelationshipLinkage(descriptor, operation, req.body.data);
+                    if (operation !== 'remove') {
+                        await this.assertRelatedInTenant(
+                            client,
+                            descriptor,
+                            ([] as any[]).concat(ids ?? []),
+                            req,
+                        );
+                    }
 
-                if (!req.body || !req.body.data) {
-                    const errorResponse = this.formatJsonApiError(
-                        new Error(
-                            'Request must contain data field with relationship identifiers to remove',
-                        ),
-                        ERROR_CODES.INVALID_REQUEST,
-                        400,
-                        req.path,
+                    // 낙관적 동시성: 관계 변경도 부모 행의 수정이므로 If-Match 를 요구한다 (428 / 412)
+                    const expectedToken = await this.assertConcurrencyPrecondition(
+                        req,
+                        client,
+                        modelName,
+                        primaryKey,
+                        parsedIdentifier,
+                        policy,
                     );
-                    return res.status(400).json(errorResponse);
-                }
 
-                const relationshipData = req.body.data;
-                let disconnectData;
+                    // 중간 테이블 관계는 이미 연결된 타겟을 다시 create 하지 않도록 현재 linkage 를 전달
+                    const currentIds = descriptor.through
+                        ? extractLinkageRecords(descriptor, item[descriptor.name]).map(
+                              (record: any) => record.id,
+                          )
+                        : [];
+
+                    const updated = await this.runConditionalWrite(modelName, () =>
+                        client[modelName].update({
+                            where: this.concurrencyWhere(
+                                primaryKey,
+                                parsedIdentifier,
+                                expectedToken,
+                            ),
+                            data: {
+                                ...buildRelationshipMutation(
+                                    descriptor,
+                                    operation,
+                                    ids,
+                                    currentIds,
+                                ),
+                                ...(this.concurrency && nextTokenData(this.concurrency)),
+                            },
+                        }),
+                    );
 
-                if (Array.isArray(relationshipData)) {
-                    disconnectData = {
-                        [relationName]: {
-                            disconnect: relationshipData.map((item: any) => ({ id: item.id })),
-                        },
-                    };
-                } else {
-                    disconnectData = {
-                        [relationName]: { disconnect: { id: relationshipData.id } },
-                    };
+                    this.setConcurrencyETag(res, updated);
+                    res.status(204).end();
+                } catch (error: any) {
+                    log.Error(`Relationship ${operation} Error for ${modelName}:`, error);
+                    this.sendMappedCrudError(res, error, req);
                 }
+            };
 
-                await client[modelName].update({
-                    where: { [primaryKey]: parsedIdentifier },
-                    data: disconnectData,
-                });
-
-                res.status(204).end();
-            } catch (error: any) {
-                log.Error(`Relationship Delete Error for ${modelName}:`, error);
-                this.sendMappedCrudError(res, error, req);
-            }
-        });
-
-        // GET /:identifier/:relationName - 관??리소??조회
-        this.ctx.router.get(`/:${primaryKey}/:relationName`, async (req, res) => {
-            try {
-                res.setHeader('Content-Type', JSON_API_CONTENT_TYPE);
-
-                const { success, parsedIdentifier } = this.extractAndParsePrimaryKey(
-                    req,
-                    res,
-                    primaryKey,
-                    primaryKeyParser,
-                    modelName,
-                );
-                if (!success) return;
-
-                const relationName = req.params.relationName;
+        // POST /:identifier/relationships/:relationName - to-many 관계에 멤버 추가 (connect)
+        this.ctx.router.post(relationshipPath, ...updateMiddlewares, mutationHandler('add'));
 
-                // 쿼리 파라미터 파싱 (UUID 검증 등의 에러 발생 가능)
-                // NOTE: 이 라우트는 클라이언트의 ?include= 를 소비하지 않으므로 include 정책 적용 생략.
-                const queryParams = this.parseQueryOrSendError(req, res, modelName);
-                if (!queryParams) return; // 에러 응답은 이미 헬퍼에서 전송됨
+        // PATCH /:identifier/relationships/:relationName - 관계 완전 교체 (set / connect / disconnect)
+        this.ctx.router.patch(relationshipPath, ...updateMiddlewares, mutationHandler('replace'));
 
-                // 기본 리소??조회
-                const item = await client[modelName].findUnique({
-                    where: { [primaryKey]: parsedIdentifier },
-                    include: { [relationName]: true },
-                });
-
-                if (!item) {
-                    const errorResponse = this.formatJsonApiError(
-                        new Error(`${modelName} not found`),
-                        ERROR_CODES.NOT_FOUND,
-                        404,
-                        req.path,
-                    );
-                    return res.status(404).json(errorResponse);
-                }
+        // DELETE /:identifier/relationships/:relationName - to-many 관계에서 멤버 제거 (disconnect)
+        this.ctx.router.delete(relationshipPath, ...updateMiddlewares, mutationHandler('remove'));
 
-                const relationData = item[relationName];
+        this.registerRelationshipDocumentation(modelName, primaryKey, options);
+    }
 
-                if (!relationData) {
-                    // 관계가 없는 경우 빈 데이터 반환
-                    const response = {
-                        data: Array.isArray(relationData) ? [] : null,
-                        jsonapi: {
-                            version: JSON_API_VERSION,
+    /**
+     * 관계 변경 라우트 문서화. 경로의 관계명은 런타임 값이므로 해석된 관계마다 경로를 등록하고,
+     * to-many 는 POST / PATCH / DELETE, to-one 은 PATCH 만 문서화한다.
+     */
+    private registerRelationshipDocumentation(
+        modelName: string,
+        primaryKey: string,
+        options?: any,
+    ): void {
+        const methods: Array<[string, string, RelationshipOperation]> = [
+            ['POST', 'Add members to', 'add'],
+            ['PATCH', 'Replace', 'replace'],
+            ['DELETE', 'Remove members from', 'remove'],
+        ];
+
+        for (const descriptor of this.relationships?.values() ?? []) {
+            const path = `/:${primaryKey}/relationships/${descriptor.name}`;
+            for (const [method, verb, operation] of methods) {
+                if (!descriptor.isToMany && operation !== 'replace') continue;
+                this.ctx.registerDocumentation(method, path, {
+                    summary: `${verb} ${modelName}.${descriptor.name} relationship (JSON:API)`,
+                    ...this.rateLimitDoc(options, 'update'),
+                    parameters: {
+                        params: {
+                            [primaryKey]: {
+                                type: 'string',
+                                required: true,
+                                description: `${modelName} ${primaryKey}`,
+                            },
                         },
-                    };
-                    return res.json(response);
-                }
-
-                // Base URL 생성
-                const baseUrl = this.buildBaseUrl(req);
-                const isArrayRelation = Array.isArray(relationData);
-                const sampleRelationData = isArrayRelation ? relationData[0] : relationData;
-                const resourceType = JsonApiTransformer.inferResourceTypeFromData(
-                    sampleRelationData,
-                    relationName,
-                    isArrayRelation,
-                );
-
-                // Json 타입 필드 목록 가져오기 (관계 리소스 타입 기준)
-                const jsonFields = this.getJsonFieldSet(resourceType);
-
-                // JSON:API 응답 생성
-                const response: JsonApiResponse = JsonApiTransformer.createJsonApiResponse(
-                    relationData,
-                    resourceType,
-                    {
-                        primaryKey: 'id', // 관련 리소스는 기본적으로 id 사용
-                        fields: queryParams.fields,
-                        baseUrl,
-                        jsonFields,
+                        body: jsonApiLinkageBody(
+                            linkageResourceType(descriptor),
+                            descriptor.isToMany,
+                        ),
                     },
-                );
-
-                res.json(serialize(response));
-            } catch (error: any) {
-                log.Error(`Related Resource Error for ${modelName}:`, error);
-                this.sendMappedCrudError(res, error, req);
+                    responses: {
+                        204: {
+                            type: 'object',
+                            description: 'Relationship updated (no content)',
+                        },
+                        400: jsonApiErrorResponse(400),
+                        403: jsonApiErrorResponse(403),
+                        404: jsonApiErrorResponse(404),
+                        409: jsonApiErrorResponse(409),
+                        ...this.concurrencyResponses(),
+                    },
+                });
             }
-        });
+        }
     }
 }
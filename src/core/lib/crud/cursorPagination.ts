@@ -0,0 +1,234 @@
+/**
+ * Keyset(cursor) 페이지네이션 헬퍼 모음
+ *
+ * CRUD index 의 `page[after]` / `page[before]` 모드에서 사용하는 순수(pure) 함수들을 모아둔 모듈.
+ * 커서는 활성 sort 필드 + 기본키 값을 담은 불투명(opaque) base64url 문자열이며,
+ * offset(skip) 없이 `(f1, f2, ..., pk) > (v1, v2, ..., vpk)` 형태의 where 로 다음 페이지를 조회한다.
+ * 인스턴스 상태에 의존하지 않으며, 에러는 statusCode 400 을 단 Error 로 던진다.
+ */
+import { ERROR_CODES } from '@lib/http/errors/errorCodes';
+import type { PageParam, SortParam } from '@lib/crud/crudHelpers';
+import type { FieldTypeInfo } from '@lib/data/database/fieldTypeMap';
+
+/** keyset 조회 방향 (after: 커서 이후 / before: 커서 이전) */
+export type CursorDirection = 'after' | 'before';
+
+/** 조회 결과를 잘라낸 한 페이지 + 이웃 페이지 존재 여부 */
+export interface KeysetPage<T = any> {
+    items: T[];
+    hasNext: boolean;
+    hasPrev: boolean;
+}
+
+/** 응답 links/meta 에 노출하는 cursor 페이지 정보 */
+export interface CursorPageInfo {
+    startCursor?: string;
+    endCursor?: string;
+    hasNext: boolean;
+    hasPrev: boolean;
+}
+
+/** 커서 payload 내부 구조 (s: sort 시그니처, v: sort 순서대로의 값 목록) */
+interface CursorPayload {
+    s: string;
+    v: any[];
+}
+
+function cursorError(message: string, code: string = ERROR_CODES.INVALID_CURSOR): Error {
+    const error: any = new Error(message);
+    error.code = code;
+    error.statusCode = 400;
+    return error;
+}
+
+/**
+ * page 파라미터가 cursor 모드인지 판별.
+ * `page[after]=` / `page[before]=` 처럼 빈 값도 각각 첫/마지막 페이지 요청으로 본다.
+ */
+export function isCursorPage(page?: PageParam): boolean {
+    return !!page && (page.after !== undefined || page.before !== undefined);
+}
+
+/**
+ * cursor 모드의 조회 방향과 커서 값 추출 (빈 문자열은 커서 없음으로 정규화)
+ */
+export function resolveCursorDirection(page: PageParam): {
+    direction: CursorDirection;
+    cursor?: string;
+} {
+    if (page.before !== undefined) {
+        return { direction: 'before', cursor: page.before || undefined };
+    }
+    return { direction: 'after', cursor: page.after || undefined };
+}
+
+/**
+ * keyset 정렬 목록 계산.
+ * 요청 sort 뒤에 기본키를 tiebreaker 로 덧붙여 전순서(total order)를 보장한다.
+ * 관계 경로(`author.name`) 정렬은 keyset 비교식을 만들 수 없으므로 400 으로 거부한다.
+ * null 을 허용하는 필드도 DB 마다 null 의 정렬 위치가 달라 비교식을 만들 수 없으므로 400 으로 거부한다
+ * (fieldTypeMap 을 모르면 {@link buildKeysetWhere} 가 null 커서 값을 거부한다).
+ */
+export function resolveKeysetSort(
+    sort: SortParam[] | undefined,
+    primaryKey: string,
+    fieldTypeMap?: Map<string, FieldTypeInfo> | null,
+): SortParam[] {
+    const keyset: SortParam[] = [];
+
+    for (const item of sort || []) {
+        if (item.field.includes('.')) {
+            throw cursorError(
+                `Cursor pagination does not support sorting by related field "${item.field}"`,
+                ERROR_CODES.INVALID_SORT,
+            );
+        }
+        if (fieldTypeMap?.get(item.field)?.isOptional) {
+            throw cursorError(
+                `Cursor pagination does not support sorting by nullable field "${item.field}"; use page[number] or a non-null field`,
+                ERROR_CODES.INVALID_SORT,
+            );
+        }
+        if (!keyset.some((existing) => existing.field === item.field)) {
+            keyset.push(item);
+        }
+    }
+
+    if (!keyset.some((item) => item.field === primaryKey)) {
+        const lastDirection = keyset.length > 0 ? keyset[keyset.length - 1].direction : 'asc';
+        keyset.push({ field: primaryKey, direction: lastDirection });
+    }
+
+    return keyset;
+}
+
+/** 커서에 기록하는 sort 시그니처 (예: "-createdAt,id") */
+function sortSignature(keyset: SortParam[]): string {
+    return keyset.map((s) => `${s.direction === 'desc' ? '-' : ''}${s.field}`).join(',');
+}
+
+/** JSON 으로 표현할 수 없는 값(Date/BigInt)을 타입 태그와 함께 인코딩 */
+function encodeValue(value: any): any {
+    if (value instanceof Date) return { $d: value.toISOString() };
+    if (typeof value === 'bigint') return { $b: value.toString() };
+    if (value === undefined) return null;
+    return value;
+}
+
+function decodeValue(value: any): any {
+    if (value && typeof value === 'object') {
+        if (typeof value.$d === 'string') {
+            const date = new Date(value.$d);
+            if (isNaN(date.getTime())) throw cursorError('Invalid cursor: malformed date value');
+            return date;
+        }
+        if (typeof value.$b === 'string') {
+            try {
+                return BigInt(value.$b);
+            } catch {
+                throw cursorError('Invalid cursor: malformed bigint value');
+            }
+        }
+        throw cursorError('Invalid cursor: unsupported value');
+    }
+    return value;
+}
+
+/**
+ * 레코드로부터 불투명 커서 생성
+ */
+export function encodeCursor(item: any, keyset: SortParam[]): string {
+    const payload: CursorPayload = {
+        s: sortSignature(keyset),
+        v: keyset.map((s) => encodeValue(item?.[s.field])),
+    };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * 커서 디코딩 + 검증.
+ * 현재 요청의 sort 와 다른 sort 로 발급된 커서는 keyset 의미가 달라지므로 400 으로 거부한다.
+ */
+export function decodeCursor(cursor: string, keyset: SortParam[]): any[] {
+    let payload: CursorPayload;
+    try {
+        payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw cursorError('Invalid cursor: cannot be decoded');
+    }
+
+    if (!payload || typeof payload !== 'object' || !Array.isArray(payload.v)) {
+        throw cursorError('Invalid cursor: malformed payload');
+    }
+    if (payload.s !== sortSignature(keyset) || payload.v.length !== keyset.length) {
+        throw cursorError('Invalid cursor: it was issued for a different sort order');
+    }
+
+    return payload.v.map(decodeValue);
+}
+
+/**
+ * keyset orderBy 빌드. before 방향은 커서에 가까운 행부터 읽도록 정렬을 뒤집는다.
+ */
+export function buildKeysetOrderBy(keyset: SortParam[], direction: CursorDirection): any[] {
+    return keyset.map((s) => {
+        const flipped = s.direction === 'asc' ? 'desc' : 'asc';
+        return { [s.field]: direction === 'before' ? flipped : s.direction };
+    });
+}
+
+/**
+ * keyset where 빌드.
+ * (f1 > v1) OR (f1 = v1 AND f2 > v2) OR ... 형태의 OR 체인을 만든다.
+ * 비교 연산자는 각 필드의 정렬 방향과 조회 방향(after/before)에 따라 gt/lt 로 결정된다.
+ * null 값은 DB 마다 정렬 위치가 달라 비교식을 만들 수 없으므로, 커서에 null 이 있으면 400 으로 거부한다
+ * (조건을 빼면 페이지가 건너뛰어지거나 반복된다).
+ */
+export function buildKeysetWhere(
+    keyset: SortParam[],
+    values: any[],
+    direction: CursorDirection,
+): any {
+    const branches: any[] = [];
+
+    keyset.forEach((sort, index) => {
+        const value = values[index];
+        if (value === null) {
+            throw cursorError(
+                `Cursor pagination does not support null values in sort field "${sort.field}"`,
+                ERROR_CODES.INVALID_SORT,
+            );
+        }
+
+        const ascending = sort.direction === 'asc';
+        const operator = ascending === (direction === 'after') ? 'gt' : 'lt';
+
+        const branch: any = {};
+        for (let i = 0; i < index; i++) {
+            branch[keyset[i].field] = values[i];
+        }
+        branch[sort.field] = { [operator]: value };
+        branches.push(branch);
+    });
+
+    return branches.length === 1 ? branches[0] : { OR: branches };
+}
+
+/**
+ * `take: size + 1` 로 조회한 결과에서 한 페이지를 잘라내고 이웃 페이지 존재 여부를 계산.
+ * before 방향은 역순으로 조회되므로 원래 정렬 순서로 되돌린다.
+ */
+export function sliceKeysetPage<T>(
+    rows: T[],
+    size: number,
+    direction: CursorDirection,
+    hasCursor: boolean,
+): KeysetPage<T> {
+    const hasMore = rows.length > size;
+    const page = rows.slice(0, size);
+
+    if (direction === 'before') {
+        return { items: page.reverse(), hasNext: hasCursor, hasPrev: hasMore };
+    }
+    return { items: page, hasNext: hasMore, hasPrev: hasCursor };
+}
@@ -0,0 +1,157 @@
+/**
+ * CRUD 낙관적 동시성 제어(`concurrency` 옵션) 헬퍼 모음
+ *
+ * 행마다 동시성 토큰(버전 카운터 또는 `updatedAt`)을 두고, 응답에는 토큰을 ETag 와
+ * 리소스 `meta.etag` 로 노출한다. PUT/PATCH/DELETE 는 `If-Match` 로 토큰을 돌려받아
+ * 조건부 where 로 실행하므로, 그 사이 다른 요청이 행을 바꿨다면 덮어쓰지 않고 412 로 거절한다.
+ * 인스턴스 상태에 의존하지 않으며, 위반은 statusCode 를 단 Error 로 던진다.
+ */
+import type { Request } from 'express';
+import { ERROR_CODES } from '@lib/http/errors/errorCodes';
+import type { FieldTypeInfo } from '@lib/data/database/fieldTypeMap';
+
+/** `router.CRUD()` 의 `concurrency` 옵션 */
+export interface CrudConcurrencyOptions {
+    /**
+     * 동시성 토큰 컬럼.
+     * - Int / BigInt (예: `version Int @default(0)`): 수정마다 1 씩 증가
+     * - DateTime (예: `updatedAt DateTime @updatedAt`): 수정 시각으로 갱신
+     */
+    field: 'version' | 'updatedAt' | (string & {});
+}
+
+/** 토큰 컬럼 종류 */
+export type ConcurrencyTokenKind = 'counter' | 'timestamp';
+
+/** build() 시점에 해석된 동시성 설정 */
+export interface ConcurrencyControl {
+    field: string;
+    kind: ConcurrencyTokenKind;
+    /** counter 컬럼이 BigInt 인지 (where 값 변환용) */
+    bigint: boolean;
+}
+
+/** `If-Match` 파싱 결과 */
+export interface IfMatchCondition {
+    /** `If-Match: *` — 행이 존재하기만 하면 통과 */
+    any: boolean;
+    /** 강한(strong) 엔터티 태그의 토큰 목록 (약한 태그는 강한 비교에서 항상 불일치라 제외) */
+    tokens: string[];
+}
+
+/**
+ * CRUD 옵션의 concurrency 를 모델 필드 타입에 맞춰 해석한다.
+ * 필드가 없거나 타입이 Int/BigInt/DateTime 이 아니면 부팅 시 에러를 던진다.
+ * 스키마를 읽을 수 없으면(fieldTypeMap 없음) 필드 이름으로 추정한다.
+ */
+export function resolveConcurrencyControl(
+    options: CrudConcurrencyOptions | undefined,
+    modelName: string,
+    fieldTypeMap: Map<string, FieldTypeInfo> | null,
+): ConcurrencyControl | undefined {
+    if (!options) return undefined;
+
+    const field = options.field;
+    if (!field) {
+        throw new Error(`CRUD concurrency for '${modelName}' requires a field`);
+    }
+
+    if (!fieldTypeMap) {
+        const kind = field === 'updatedAt' ? 'timestamp' : 'counter';
+        return { field, kind, bigint: false };
+    }
+
+    const info = fieldTypeMap.get(field);
+    if (!info || info.kind !== 'scalar' || info.isList) {
+        throw new Error(
+            `CRUD concurrency field '${field}' is not a scalar field of '${modelName}'`,
+        );
+    }
+    switch (info.type) {
+        case 'Int':
+            return { field, kind: 'counter', bigint: false };
+        case 'BigInt':
+            return { field, kind: 'counter', bigint: true };
+        case 'DateTime':
+            return { field, kind: 'timestamp', bigint: false };
+        default:
+            throw new Error(
+                `CRUD concurrency field '${modelName}.${field}' must be Int, BigInt or DateTime (got ${info.type})`,
+            );
+    }
+}
+
+/** 레코드의 현재 동시성 토큰 (토큰 컬럼이 비어 있으면 undefined) */
+export function concurrencyToken(record: any, control: ConcurrencyControl): string | undefined {
+    const value = record?.[control.field];
+    if (value === undefined || value === null) return undefined;
+    if (value instanceof Date) return value.toISOString();
+    return String(value);
+}
+
+/** 토큰의 강한(strong) ETag */
+export function concurrencyETag(token: string): string {
+    return `"${token}"`;
+}
+
+/** `If-Match` 헤더 파싱. 헤더가 없으면 undefined */
+export function parseIfMatch(header: string | undefined): IfMatchCondition | undefined {
+    const value = header?.trim();
+    if (!value) return undefined;
+    if (value === '*') return { any: true, tokens: [] };
+
+    const tokens: string[] = [];
+    const pattern = /(W\/)?"([^"]*)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(value)) !== null) {
+        if (!match[1]) tokens.push(match[2]);
+    }
+    return { any: false, tokens };
+}
+
+/** 토큰 → 조건부 where 에 넣을 컬럼 값 */
+export function tokenWhereValue(token: string, control: ConcurrencyControl): unknown {
+    if (control.kind === 'timestamp') return new Date(token);
+    return control.bigint ? BigInt(token) : Number(token);
+}
+
+/** 수정/soft delete 시 토큰 컬럼 갱신 값 */
+export function nextTokenData(control: ConcurrencyControl): Record<string, unknown> {
+    return {
+        [control.field]: control.kind === 'counter' ? { increment: 1 } : new Date(),
+    };
+}
+
+/** 412 — 클라이언트가 가진 토큰이 현재 행과 다름 */
+export function preconditionFailedError(modelName: string): Error {
+    const error: any = new Error(
+        `${modelName} was modified by another request. Fetch the latest version and retry.`,
+    );
+    error.code = ERROR_CODES.PRECONDITION_FAILED;
+    error.statusCode = 412;
+    return error;
+}
+
+/**
+ * 요청의 `If-Match` 를 현재 토큰과 비교한다.
+ * 헤더가 없으면 428, 어떤 태그도 현재 토큰과 같지 않으면 412 를 던진다.
+ */
+export function assertIfMatch(
+    req: Pick<Request, 'headers'>,
+    modelName: string,
+    currentToken: string | undefined,
+): void {
+    const condition = parseIfMatch(req.headers['if-match']);
+    if (!condition) {
+        const error: any = new Error(
+            `If-Match header is required to modify ${modelName}. Send the ETag from the last read.`,
+        );
+        error.code = ERROR_CODES.PRECONDITION_REQUIRED;
+        error.statusCode = 428;
+        throw error;
+    }
+    if (condition.any) return;
+    if (currentToken === undefined || !condition.tokens.includes(currentToken)) {
+        throw preconditionFailedError(modelName);
+    }
+}
@@ -0,0 +1,288 @@
+/**
+ * JSON:API relationship 엔드포인트(`/:id/relationships/:relationName`) 헬퍼 모음
+ *
+ * 모델의 관계 필드를 해석하여 to-one / to-many / 중간 테이블(many-to-many) 여부를 판단하고,
+ * 요청 linkage(resource identifier objects)를 Prisma nested write(connect / disconnect / set)
+ * 데이터로 변환하는 순수(pure) 함수들을 모아둔 모듈.
+ * 에러는 statusCode 를 단 Error 로 던진다 (CrudRouteBuilder.sendMappedCrudError 가 그대로 사용).
+ */
+import { ERROR_CODES } from '@lib/http/errors/errorCodes';
+import { DEFAULT_PRIMARY_KEY } from '@lib/crud/crudConstants';
+import { UUID_REGEX } from '@lib/crud/primaryKeyParsers';
+import type { FieldTypeInfo } from '@lib/data/database/fieldTypeMap';
+import type { RelationshipConfigManager } from '@lib/devtools/schema-api/relationshipConfig';
+
+/** relationship 변경 종류 (POST: add / DELETE: remove / PATCH: replace) */
+export type RelationshipOperation = 'add' | 'remove' | 'replace';
+
+/** 해석된 관계 필드 정보 */
+export interface RelationshipDescriptor {
+    /** 관계 필드명 (예: tags) */
+    name: string;
+    /** to-many 관계 여부 */
+    isToMany: boolean;
+    /** linkage 가 가리키는 리소스 모델 (중간 테이블 관계면 중간 테이블 너머의 모델) */
+    targetModel: string;
+    /** 타겟 모델 기본키 타입 (Int/BigInt 이면 linkage id 를 숫자로 변환) */
+    targetIdType?: string;
+    /**
+     * 명시적 중간 테이블(many-to-many) 관계인 경우 중간 모델 정보.
+     * 예: Post.tags(PostTag[]) → { model: 'PostTag', targetField: 'tag', targetForeignKey: 'tagId' }
+     */
+    through?: {
+        model: string;
+        /** 중간 모델에서 타겟을 가리키는 관계 필드 */
+        targetField: string;
+        /** targetField 의 FK 스칼라 필드 (nested deleteMany 는 스칼라 where 만 허용) */
+        targetForeignKey: string;
+    };
+}
+
+function relationshipError(message: string, code: string, statusCode: number): Error {
+    const error: any = new Error(message);
+    error.code = code;
+    error.statusCode = statusCode;
+    return error;
+}
+
+/**
+ * 모델의 관계 필드들을 해석한다.
+ * 중간 테이블 여부는 RelationshipConfigManager(명시적 many-to-many 설정 + 패턴) 가 판단한 타겟 모델이
+ * 관계 필드 타입과 다르고, 중간 모델이 소스/타겟 양쪽을 가리키는 to-one 관계를 모두 가진 경우로 본다.
+ *
+ * @param getModelFieldTypeMap 다른 모델의 필드 타입 맵 조회 함수 (enum 등 모델이 아니면 null)
+ * @returns 관계명 → descriptor 맵. 소스 모델의 필드 타입 맵이 없으면 null
+ */
+export function resolveRelationshipDescriptors(
+    sourceModel: string,
+    fieldTypeMap: Map<string, FieldTypeInfo> | null | undefined,
+    getModelFieldTypeMap: (modelName: string) => Map<string, FieldTypeInfo> | null,
+    relationshipManager?: RelationshipConfigManager,
+): Map<string, RelationshipDescriptor> | null {
+    if (!fieldTypeMap) return null;
+
+    const descriptors = new Map<string, RelationshipDescriptor>();
+    const idTypeOf = (modelName: string) =>
+        getModelFieldTypeMap(modelName)?.get(DEFAULT_PRIMARY_KEY)?.type;
+
+    fieldTypeMap.forEach((info, name) => {
+        if (info.kind !== 'object') return;
+        const relatedFields = getModelFieldTypeMap(info.type);
+        if (!relatedFields) return; // enum 필드
+
+        const descriptor: RelationshipDescriptor = {
+            name,
+            isToMany: info.isList,
+            targetModel: info.type,
+            targetIdType: relatedFields.get(DEFAULT_PRIMARY_KEY)?.type,
+        };
+
+        if (info.isList && relationshipManager) {
+            const relation = { name, model: info.type };
+            const config = relationshipManager.isManyToManyRelation(relation, sourceModel)
+                ? relationshipManager.getManyToManyConfig(relation, sourceModel)
+                : null;
+
+            if (config && config.targetModel !== info.type) {
+                const toOne = (type: string) =>
+                    Array.from(relatedFields.entries()).find(
+                        ([, field]) =>
+                            field.kind === 'object' && !field.isList && field.type === type,
+                    );
+                const source = toOne(sourceModel);
+                const target = toOne(config.targetModel);
+                const targetForeignKey = target?.[1].relationFields?.[0];
+
+                if (source && target && targetForeignKey) {
+                    descriptor.targetModel = config.targetModel;
+                    descriptor.targetIdType = idTypeOf(config.targetModel);
+                    descriptor.through = {
+                        model: info.type,
+                        targetField: target[0],
+                        targetForeignKey,
+                    };
+                }
+            }
+        }
+
+        descriptors.set(name, descriptor);
+    });
+
+    return descriptors;
+}
+
+/** 정수 기본키(Int / BigInt)로 쓸 수 있는 linkage id */
+const INTEGER_ID_REGEX = /^-?\d+$/;
+
+/**
+ * linkage id 를 타겟 기본키 타입에 맞게 변환.
+ * 타입 정보가 없으면 기존 관계 처리와 동일하게 UUID 는 문자열, 숫자 문자열은 숫자로 추론한다.
+ * Int / BigInt 기본키에 정수가 아닌 id 를 보내면 400 을 던진다.
+ */
+export function parseLinkageId(id: string, targetIdType?: string): any {
+    if (targetIdType === 'Int' || targetIdType === 'BigInt') {
+        const value = INTEGER_ID_REGEX.test(id) ? BigInt(id) : undefined;
+        if (
+            value === undefined ||
+            (targetIdType === 'Int' && (value > 2147483647n || value < -2147483648n))
+        ) {
+            throw relationshipError(
+                `Invalid resource identifier id '${id}': expected ${targetIdType === 'Int' ? 'an integer' : 'a BigInt'}`,
+                ERROR_CODES.INVALID_REQUEST,
+                400,
+            );
+        }
+        return targetIdType === 'Int' ? Number(value) : value;
+    }
+    if (targetIdType) return id;
+    if (UUID_REGEX.test(id)) return id;
+    const numId = parseInt(id, 10);
+    return !isNaN(numId) && String(numId) === id ? numId : id;
+}
+
+/**
+ * 요청 본문의 `data` 를 검증하고 linkage id 목록으로 변환한다.
+ * - to-many: resource identifier object 배열 (POST/DELETE/PATCH)
+ * - to-one : null 또는 resource identifier object (PATCH 만 허용, 그 외는 403)
+ * 대상 모델과 다른 type 은 409, 기본키 타입에 맞지 않는 id 는 400 을 던진다.
+ * @returns to-many 는 id 배열, to-one 은 id 또는 null
+ */
+export function parseRelationshipLinkage(
+    descriptor: RelationshipDescriptor,
+    operation: RelationshipOperation,
+    data: any,
+): any[] | any | null {
+    if (!descriptor.isToMany) {
+        if (operation !== 'replace') {
+            throw relationshipError(
+                `Relationship '${descriptor.name}' is to-one; use PATCH to replace it`,
+                ERROR_CODES.FORBIDDEN,
+                403,
+            );
+        }
+        if (data === null) return null;
+        if (Array.isArray(data)) {
+            throw relationshipError(
+                `Relationship '${descriptor.name}' is to-one; data must be a resource identifier object or null`,
+                ERROR_CODES.INVALID_REQUEST,
+                400,
+            );
+        }
+        return parseResourceIdentifier(descriptor, data);
+    }
+
+    if (!Array.isArray(data)) {
+        throw relationshipError(
+            `Relationship '${descriptor.name}' is to-many; data must be an array of resource identifier objects`,
+            ERROR_CODES.INVALID_REQUEST,
+            400,
+        );
+    }
+    return data.map((item) => parseResourceIdentifier(descriptor, item));
+}
+
+/** 관계 대상의 JSON:API 리소스 타입 (linkage 응답과 같은 소문자 모델명) */
+export function linkageResourceType(descriptor: RelationshipDescriptor): string {
+    return descriptor.targetModel.toLowerCase();
+}
+
+function parseResourceIdentifier(descriptor: RelationshipDescriptor, item: any): any {
+    if (
+        !item ||
+        typeof item !== 'object' ||
+        typeof item.type !== 'string' ||
+        item.id === undefined ||
+        item.id === null ||
+        item.id === ''
+    ) {
+        throw relationshipError(
+            `Invalid resource identifier in relationship '${descriptor.name}': type and id are required`,
+            ERROR_CODES.INVALID_REQUEST,
+            400,
+        );
+    }
+    // JSON:API: 관계가 받을 수 없는 타입의 리소스는 409 Conflict
+    const expectedType = linkageResourceType(descriptor);
+    if (item.type.toLowerCase() !== expectedType) {
+        throw relationshipError(
+            `Resource type '${item.type}' is not allowed in relationship '${descriptor.name}' (expected '${expectedType}')`,
+            ERROR_CODES.CONFLICT,
+            409,
+        );
+    }
+    return parseLinkageId(String(item.id), descriptor.targetIdType);
+}
+
+/**
+ * linkage 변경을 부모 update 의 Prisma nested write 데이터로 변환.
+ *
+ * - to-one  : replace → connect / disconnect
+ * - to-many : add → connect, remove → disconnect, replace → set
+ * - 중간 테이블 : add → 없는 연결만 create, remove → deleteMany, replace → 빠진 연결 deleteMany + 새 연결 create
+ *
+ * @param currentIds 중간 테이블 관계에서 현재 연결된 타겟 id 목록 (중복 create 방지용)
+ */
+export function buildRelationshipMutation(
+    descriptor: RelationshipDescriptor,
+    operation: RelationshipOperation,
+    ids: any[] | any | null,
+    currentIds: any[] = [],
+): Record<string, any> {
+    const key = DEFAULT_PRIMARY_KEY;
+
+    if (!descriptor.isToMany) {
+        return {
+            [descriptor.name]: ids === null ? { disconnect: true } : { connect: { [key]: ids } },
+        };
+    }
+
+    const idList: any[] = ids as any[];
+
+    if (descriptor.through) {
+        const { targetField, targetForeignKey } = descriptor.through;
+        // 이미 연결된 타겟 / 요청 내 중복 id 는 중간 행을 다시 만들지 않는다 (POST 는 멱등)
+        const seen = new Set(currentIds.map(String));
+        const toCreate = idList
+            .filter((id) => !seen.has(String(id)) && !!seen.add(String(id)))
+            .map((id) => ({ [targetField]: { connect: { [key]: id } } }));
+
+        if (operation === 'add') {
+            return { [descriptor.name]: { create: toCreate } };
+        }
+        if (operation === 'remove') {
+            return {
+                [descriptor.name]: { deleteMany: { [targetForeignKey]: { in: idList } } },
+            };
+        }
+        return {
+            [descriptor.name]: {
+                deleteMany: { [targetForeignKey]: { notIn: idList } },
+                create: toCreate,
+            },
+        };
+    }
+
+    const identifiers = idList.map((id) => ({ [key]: id }));
+    const verb = operation === 'add' ? 'connect' : operation === 'remove' ? 'disconnect' : 'set';
+    return { [descriptor.name]: { [verb]: identifiers } };
+}
+
+/**
+ * 현재 linkage 조회용 include 옵션.
+ * 중간 테이블 관계는 중간 행 너머의 타겟 레코드까지 읽는다.
+ */
+export function buildLinkageInclude(descriptor: RelationshipDescriptor): Record<string, any> {
+    if (descriptor.through) {
+        return { [descriptor.name]: { include: { [descriptor.through.targetField]: true } } };
+    }
+    return { [descriptor.name]: true };
+}
+
+/**
+ * 조회된 관계 데이터를 linkage 대상 레코드로 정규화 (중간 행 → 타겟 레코드).
+ */
+export function extractLinkageRecords(descriptor: RelationshipDescriptor, relationData: any): any {
+    if (!descriptor.through || !Array.isArray(relationData)) return relationData;
+    const { targetField } = descriptor.through;
+    return relationData.map((row: any) => row?.[targetField]).filter(Boolean);
+}
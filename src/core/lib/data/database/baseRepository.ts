@@ -9,6 +9,11 @@ import {
     TransactionCommitResult,
     TransactionState,
 } from '@lib/data/database/transactionCommitManager';
+import { TenantScope } from '@lib/data/database/tenantScope';
+import { UnitOfWork } from '@lib/data/database/unitOfWork';
+import type { TransactionPropagation, AfterCommitCallback } from '@lib/data/database/unitOfWork';
+import { Outbox } from '@lib/data/outbox/outbox';
+import type { OutboxEmitOptions } from '@lib/data/outbox/outbox';
 
 /**
  * 분산 트랜잭션 작업 정의
@@ -19,9 +24,16 @@ export interface DistributedTransactionOperation<
     TDatabase extends DatabaseNamesUnion = DatabaseNamesUnion,
 > {
     database: TDatabase;
-    operation: (prisma: DatabaseClientMap[TDatabase]) => Promise<any>;
+    /** 실행할 작업. 생략하면 `step` 으로 등록된 execute 핸들러를 쓴다 */
+    operation?: (prisma: DatabaseClientMap[TDatabase]) => Promise<any>;
     timeout?: number;
 
+    /** `registerSagaStep` 으로 등록한 단계 이름 — Saga 저널에 기록되어 재시작 후 복구에 쓰인다 */
+    step?: string;
+
+    /** 등록된 단계 핸들러에 넘길 인자 (JSON 직렬화 가능해야 함) */
+    args?: unknown;
+
     /** 트랜잭션 우선순위 (높을수록 먼저 커밋) */
     priority?: number;
 
@@ -87,11 +99,23 @@ export abstract class BaseRepository<T extends DatabaseNamesUnion> {
     }
 
     /**
-     * 리포지터리의 데이터베이스 클라이언트
+     * 리포지터리의 데이터베이스 클라이언트.
+     * 같은 데이터베이스의 작업 단위(`$transaction` / `UnitOfWork.run`)가 열려 있으면 그 트랜잭션 클라이언트를 반환한다.
+     * TenantScope 가 설정되어 있으면 스코프 대상 모델의 where / create 데이터에 현재 테넌트가 자동으로 들어간다.
      * @returns 타입 안전한 Prisma 클라이언트
      */
     protected get client(): DatabaseClientMap[T] {
-        return this.db.getWrap(this.repositoryDatabaseName);
+        return this.tenantScoped(
+            UnitOfWork.clientFor(this.repositoryDatabaseName) ??
+                this.db.getWrap(this.repositoryDatabaseName),
+        );
+    }
+
+    /** 클라이언트에 현재 테넌트 스코프를 적용한다 ({@link TenantScope.scopeClient}) */
+    private tenantScoped(client: DatabaseClientMap[T]): DatabaseClientMap[T] {
+        return TenantScope.scopeClient(client, (modelName) =>
+            this.db.getFieldTypeMap(this.repositoryDatabaseName, modelName),
+        );
     }
 
     /**
@@ -100,7 +124,28 @@ export abstract class BaseRepository<T extends DatabaseNamesUnion> {
      * @returns 타입 안전한 Prisma 클라이언트 (Promise)
      */
     protected async getAsyncClient(): Promise<DatabaseClientMap[T]> {
-        return this.db.getWrap(this.repositoryDatabaseName) as DatabaseClientMap[T];
+        return this.client;
+    }
+
+    /**
+     * 현재 작업 단위가 커밋된 뒤 callback 을 실행한다 (롤백되면 실행하지 않음, 트랜잭션 밖이면 즉시 실행).
+     * @example await this.$afterCommit(() => mailer.sendWelcome(user.email))
+     */
+    protected $afterCommit(callback: AfterCommitCallback): Promise<void> {
+        return UnitOfWork.afterCommit(this.repositoryDatabaseName, callback);
+    }
+
+    /**
+     * 도메인 이벤트를 이 데이터베이스의 outbox 테이블에 기록한다 ({@link Outbox}).
+     * 작업 단위 안에서 호출하면 같은 트랜잭션으로 커밋/롤백되며, 커밋된 이벤트만 디스패처가 배달한다.
+     * @example await this.$emit('order.created', { orderId: order.id })
+     * @returns 메시지 id
+     */
+    protected $emit(event: string, payload: unknown, options?: OutboxEmitOptions): Promise<string> {
+        return Outbox.emit(this.repositoryDatabaseName, event, payload, {
+            client: this.client,
+            ...options,
+        });
     }
 
     /**
@@ -123,11 +168,15 @@ export abstract class BaseRepository<T extends DatabaseNamesUnion> {
             rollbackOperation?: (prisma: DatabaseClientMap[TDatabase]) => Promise<void>;
             priority?: number;
             requiredLocks?: string[];
+            step?: string;
+            args?: unknown;
         },
     ): DistributedTransactionOperation<TDatabase> {
         return {
             database,
             operation,
+            step: options?.step,
+            args: options?.args,
             timeout: options?.timeout,
             rollbackOperation: options?.rollbackOperation,
             priority: options?.priority,
@@ -138,6 +187,9 @@ export abstract class BaseRepository<T extends DatabaseNamesUnion> {
     /**
      * 고급 트랜잭션 처리 메서드 — 성능 모니터링, 에러 핸들링 통합.
      * 자동 재시도는 `options.retryAttempts >= 2` 로 명시 지정한 경우에만 동작한다 (기본 1 = 재시도 없음).
+     *
+     * 트랜잭션은 작업 단위로 열리므로 callback 안에서 호출한 다른 리포지터리(같은 데이터베이스)도 같은 트랜잭션을 쓴다.
+     * 이미 작업 단위 안이면 `propagation` 에 따라 바깥 트랜잭션에 합류한다 (합류 시 재시도/격리 수준 옵션은 무시).
      */
     public async $transaction<R>(
         callback: (prisma: DatabaseClientMap[T]) => Promise<R>,
@@ -152,8 +204,19 @@ export abstract class BaseRepository<T extends DatabaseNamesUnion> {
             retryAttempts?: number;
             retryDelay?: number;
             enableLogging?: boolean;
+            /** 기본 `required` (바깥 트랜잭션에 합류) */
+            propagation?: TransactionPropagation;
         },
     ): Promise<R> {
+        const database = this.repositoryDatabaseName;
+        const scopedCallback = (tx: DatabaseClientMap[T]) => callback(this.tenantScoped(tx));
+        if (UnitOfWork.isActive(database) || options?.propagation === 'mandatory') {
+            // 바깥 작업 단위에 합류 — 커밋/롤백과 재시도는 바깥 트랜잭션이 담당한다
+            return UnitOfWork.run(database, scopedCallback, {
+                propagation: options?.propagation,
+            });
+        }
+
         const config = {
             isolationLevel: options?.isolationLevel || 'Serializable',
             maxWait: options?.maxWait || 5000,
@@ -172,15 +235,13 @@ export abstract class BaseRepository<T extends DatabaseNamesUnion> {
 
         for (let attempt = 1; attempt <= config.retryAttempts; attempt++) {
             try {
-                const client = this.client as any;
-                const result = await client.$transaction(
-                    async (prisma: DatabaseClientMap[T]) => callback(prisma),
-                    {
-                        isolationLevel: config.isolationLevel,
-                        maxWait: config.maxWait,
-                        timeout: config.timeout,
-                    },
-                );
+                const result = await UnitOfWork.run(database, scopedCallback, {
+                    propagation: options?.propagation,
+                    isolationLevel: config.isolationLevel,
+                    maxWait: config.maxWait,
+                    timeout: config.timeout,
+                    client: this.db.getWrap(database),
+                });
 
                 if (config.enableLogging) {
                     const duration = Number(process.hrtime.bigint() - startTime) / 1_000_000;
@@ -318,6 +379,8 @@ export abstract class BaseRepository<T extends DatabaseNamesUnion> {
         const participants: Omit<TransactionParticipant, 'state'>[] = operations.map((op) => ({
             database: op.database,
             operation: op.operation,
+            step: op.step,
+            args: op.args,
             timeout: op.timeout,
             rollbackOperation: op.rollbackOperation,
             priority: op.priority,
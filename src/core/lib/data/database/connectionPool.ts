@@ -0,0 +1,255 @@
+/**
+ * 데이터베이스별 커넥션 풀 설정과 풀 상태 수집
+ *
+ * 설정은 DB 폴더의 `kusto.db.ts`(번들 환경은 빌드가 컴파일한 `kusto.db.js`)와 환경변수에서 읽고, 환경변수가 우선한다.
+ * PrismaManager 가 driver adapter(`PrismaPg`, `PrismaMysql`)를 만들 때 이 설정을 넘기고,
+ * adapter 가 연결되면 실제 드라이버 풀을 {@link PoolTracker} 에 등록해 total / idle / waiting 을
+ * `getStatus()`, `/healthz`, 모니터 스냅샷에 노출한다.
+ *
+ * @example src/app/db/default/kusto.db.ts
+ * export default defineDatabaseConfig({
+ *     pool: { max: 20, idleTimeoutMs: 10_000, statementTimeoutMs: 5_000, applicationName: 'api' },
+ * });
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { folderNameToSettingEnvVarName } from '@lib/data/database/dbNaming';
+import { log } from '@ext/winston';
+
+export interface DatabasePoolConfig {
+    /** 최대 연결 수 */
+    max?: number;
+    /** 유지할 최소 연결 수 */
+    min?: number;
+    /** 유휴 연결을 닫기까지 기다리는 시간 (ms) */
+    idleTimeoutMs?: number;
+    /** 풀에서 연결을 얻기까지 기다리는 최대 시간 (ms) */
+    connectionTimeoutMs?: number;
+    /** 쿼리 하나의 최대 실행 시간 (ms) */
+    statementTimeoutMs?: number;
+    /** DB 서버에 표시되는 접속 이름 (`pg_stat_activity.application_name` 등) */
+    applicationName?: string;
+}
+
+/** DB 폴더의 `kusto.db.ts` 가 내보내는 설정 */
+export interface KustoDatabaseConfig {
+    pool?: DatabasePoolConfig;
+}
+
+/** `getStatus()` 등에 표시되는 풀 상태 */
+export interface PoolStats {
+    /** 열려 있는 연결 수 */
+    total: number;
+    /** 쉬고 있는 연결 수 */
+    idle: number;
+    /** 연결을 기다리는 요청 수 */
+    waiting: number;
+    /** 설정된 최대 연결 수 (알 수 없으면 없음) */
+    max?: number;
+    /** 지금까지 발생한 풀 타임아웃(P2024) 수 */
+    timeouts: number;
+}
+
+/** 타입 검사용 항등 함수 — `kusto.db.ts` 에서 `export default defineDatabaseConfig({...})` */
+export function defineDatabaseConfig(config: KustoDatabaseConfig): KustoDatabaseConfig {
+    return config;
+}
+
+/** 설정 키 → 환경변수 suffix (`DEFAULT__KUSTO_RDB_POOL_MAX` 등) */
+const ENV_SUFFIXES: Record<keyof DatabasePoolConfig, string> = {
+    max: 'POOL_MAX',
+    min: 'POOL_MIN',
+    idleTimeoutMs: 'POOL_IDLE_TIMEOUT_MS',
+    connectionTimeoutMs: 'POOL_CONNECTION_TIMEOUT_MS',
+    statementTimeoutMs: 'STATEMENT_TIMEOUT_MS',
+    applicationName: 'APPLICATION_NAME',
+};
+
+const CONFIG_FILES = ['kusto.db.ts', 'kusto.db.js'];
+
+function loadConfigFile(folderPath: string): { file?: string; config: KustoDatabaseConfig } {
+    // ts-node 로 실행 중이 아니면(번들/dist) .ts 는 읽을 수 없다
+    const nodeRequire = createRequire(__filename);
+    const candidates = CONFIG_FILES.filter(
+        (name) => name.endsWith('.js') || nodeRequire.extensions['.ts'],
+    );
+
+    for (const name of candidates) {
+        const file = path.join(folderPath, name);
+        if (!fs.existsSync(file)) continue;
+        delete nodeRequire.cache[file];
+        const loaded = nodeRequire(file);
+        return { file, config: loaded?.default ?? loaded ?? {} };
+    }
+
+    // .ts 만 있고 읽을 수 없으면 설정이 조용히 빠지지 않도록 알린다
+    const tsFile = path.join(folderPath, 'kusto.db.ts');
+    if (!candidates.includes('kusto.db.ts') && fs.existsSync(tsFile)) {
+        log.Warn(
+            `${tsFile} is ignored: .ts files cannot be loaded outside ts-node. Build with webpack (compiles it to kusto.db.js) or use environment variables`,
+        );
+    }
+    return { config: {} };
+}
+
+function checkNumber(value: unknown, source: string): number {
+    const number = typeof value === 'string' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) {
+        throw new Error(`${source} must be a non-negative number`);
+    }
+    return number;
+}
+
+/**
+ * DB 폴더의 풀 설정을 읽는다 (`kusto.db.ts` → 환경변수 순으로 덮어씀).
+ * 잘못된 값은 부팅 시점에 에러로 알린다.
+ */
+export function loadDatabasePoolConfig(folderName: string, folderPath: string): DatabasePoolConfig {
+    const { file, config: fileConfig } = loadConfigFile(folderPath);
+    const merged: Record<string, unknown> = { ...(fileConfig.pool ?? {}) };
+    const sources: Record<string, string> = {};
+    for (const key of Object.keys(merged)) {
+        sources[key] = `${path.basename(file ?? 'kusto.db')} pool.${key}`;
+    }
+
+    for (const [key, suffix] of Object.entries(ENV_SUFFIXES)) {
+        const envVar = folderNameToSettingEnvVarName(folderName, suffix);
+        const value = process.env[envVar];
+        if (value === undefined || value === '') continue;
+        merged[key] = value;
+        sources[key] = envVar;
+    }
+
+    const config: DatabasePoolConfig = {};
+    for (const [key, value] of Object.entries(merged)) {
+        if (value === undefined) continue;
+        if (key === 'applicationName') {
+            config.applicationName = String(value);
+        } else if (key in ENV_SUFFIXES) {
+            config[key as Exclude<keyof DatabasePoolConfig, 'applicationName'>] = checkNumber(
+                value,
+                sources[key],
+            );
+        } else {
+            throw new Error(`${sources[key]}: unknown pool option`);
+        }
+    }
+
+    if (config.min !== undefined && config.max !== undefined && config.min > config.max) {
+        throw new Error(
+            `${folderName}: pool min (${config.min}) must not exceed max (${config.max})`,
+        );
+    }
+    return config;
+}
+
+function definedOnly(options: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+}
+
+/** `PrismaPg` 에 넘기는 `pg.PoolConfig` */
+export function toPgPoolConfig(
+    connectionString: string,
+    config: DatabasePoolConfig,
+): Record<string, unknown> {
+    return definedOnly({
+        connectionString,
+        max: config.max,
+        min: config.min,
+        idleTimeoutMillis: config.idleTimeoutMs,
+        connectionTimeoutMillis: config.connectionTimeoutMs,
+        statement_timeout: config.statementTimeoutMs,
+        application_name: config.applicationName,
+    });
+}
+
+/** `PrismaMysql`(mariadb 드라이버)에 넘기는 풀 설정 — mariadb 의 idleTimeout 은 초 단위다 */
+export function toMysqlPoolConfig(
+    connectionString: string,
+    config: DatabasePoolConfig,
+): Record<string, unknown> {
+    return definedOnly({
+        connectionString,
+        connectionLimit: config.max,
+        minimumIdle: config.min,
+        idleTimeout:
+            config.idleTimeoutMs !== undefined ? Math.ceil(config.idleTimeoutMs / 1000) : undefined,
+        acquireTimeout: config.connectionTimeoutMs,
+        queryTimeout: config.statementTimeoutMs,
+        connectAttributes: config.applicationName
+            ? { program_name: config.applicationName }
+            : undefined,
+    });
+}
+
+/** 드라이버 풀에서 연결 수를 읽는다 (pg: `totalCount` 등, mariadb: `totalConnections()` 등) */
+export function readDriverPoolStats(driver: any): Omit<PoolStats, 'max' | 'timeouts'> | undefined {
+    if (!driver) return undefined;
+    if (typeof driver.totalCount === 'number') {
+        return {
+            total: driver.totalCount,
+            idle: driver.idleCount ?? 0,
+            waiting: driver.waitingCount ?? 0,
+        };
+    }
+    if (typeof driver.totalConnections === 'function') {
+        return {
+            total: driver.totalConnections(),
+            idle: driver.idleConnections?.() ?? 0,
+            waiting: driver.taskQueueSize?.() ?? 0,
+        };
+    }
+    return undefined;
+}
+
+/** 에러가 Prisma 풀 타임아웃(P2024)인지 */
+export function isPoolTimeoutError(error: any): boolean {
+    return error?.code === 'P2024' || (!!error?.cause && isPoolTimeoutError(error.cause));
+}
+
+/**
+ * 연결된 adapter 의 드라이버 풀을 키(primary 는 DB 이름, 복제본은 별도 키)별로 기억한다.
+ * 클라이언트를 다시 만들면 새 adapter 가 같은 키를 덮어쓴다.
+ */
+export class PoolTracker {
+    private drivers = new Map<string, { driver: any; max?: number }>();
+    private timeouts = new Map<string, number>();
+
+    /** adapter factory 의 connect() 를 감싸 연결될 때 드라이버 풀을 등록한다 */
+    track<T extends { connect(): Promise<any> }>(key: string, factory: T, max?: number): T {
+        const connect = factory.connect.bind(factory);
+        factory.connect = async () => {
+            const adapter = await connect();
+            const driver = adapter?.underlyingDriver?.();
+            if (driver) this.drivers.set(key, { driver, max });
+            return adapter;
+        };
+        return factory;
+    }
+
+    recordTimeout(key: string): void {
+        this.timeouts.set(key, (this.timeouts.get(key) ?? 0) + 1);
+    }
+
+    /** 연결된 풀이 없으면 undefined */
+    stats(key: string): PoolStats | undefined {
+        const tracked = this.drivers.get(key);
+        const counts = readDriverPoolStats(tracked?.driver);
+        if (!counts) return undefined;
+        return {
+            ...counts,
+            ...(tracked?.max !== undefined ? { max: tracked.max } : {}),
+            timeouts: this.timeouts.get(key) ?? 0,
+        };
+    }
+
+    forget(key: string): void {
+        this.drivers.delete(key);
+    }
+
+    clear(): void {
+        this.drivers.clear();
+        this.timeouts.clear();
+    }
+}
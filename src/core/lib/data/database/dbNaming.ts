@@ -14,3 +14,20 @@
 export function folderNameToEnvVarName(folderName: string): string {
     return folderName.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase() + '__KUSTO_RDB_URL';
 }
+
+/**
+ * DB 폴더명 → DB별 설정 환경변수명 (`__KUSTO_RDB_URL` 대신 `__KUSTO_RDB_{setting}`).
+ *   - `('default', 'POOL_MAX')` → `'DEFAULT__KUSTO_RDB_POOL_MAX'`
+ */
+export function folderNameToSettingEnvVarName(folderName: string, setting: string): string {
+    return folderNameToEnvVarName(folderName).replace(/__KUSTO_RDB_URL$/, `__KUSTO_RDB_${setting}`);
+}
+
+/**
+ * DB 폴더명 → 읽기 복제본 설정 환경변수명. suffix 기본값은 `URLS`.
+ *   - `'default'`                   → `'DEFAULT__KUSTO_RDB_REPLICA_URLS'`
+ *   - `('myDatabase', 'SELECTION')` → `'MY_DATABASE__KUSTO_RDB_REPLICA_SELECTION'`
+ */
+export function folderNameToReplicaEnvVarName(folderName: string, suffix: string = 'URLS'): string {
+    return folderNameToSettingEnvVarName(folderName, `REPLICA_${suffix}`);
+}
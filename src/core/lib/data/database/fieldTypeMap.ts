@@ -17,6 +17,8 @@ export interface FieldTypeInfo {
     isList: boolean;
     kind: string; // 'scalar' | 'object' (model/enum relation)
     type: string; // 'String' | 'Int' | 'Json' | <model/enum name> | ...
+    relationFields?: string[]; // FK 를 소유한 관계의 @relation(fields: [...]) 스칼라 필드
+    isOptional?: boolean; // `Type?` 처럼 null 을 허용하는 필드 (cursor 정렬 검증용)
 }
 
 // Prisma 내장 스칼라 타입. 그 외의 base type 은 모델/enum 관계로 간주(kind: 'object').
@@ -61,13 +63,23 @@ export function buildFieldTypeMapFromSchema(
             const line = rawLine.replace(/\/\/.*$/, '').trim();
             if (!line || line.startsWith('@@')) continue; // 빈 줄 / 블록 속성 스킵
             // field 형태: <name> <Type>[]? ?  @attrs...
-            const m = line.match(/^(\w+)\s+(\w+)(\[\])?/);
+            const m = line.match(/^(\w+)\s+(\w+)(\[\])?(\?)?/);
             if (!m) continue;
             const name = m[1];
             const baseType = m[2];
             const isList = !!m[3];
             const kind = PRISMA_SCALARS.has(baseType) ? 'scalar' : 'object';
-            map.set(name, { isList, kind, type: baseType });
+            const info: FieldTypeInfo = { isList, kind, type: baseType };
+            if (m[4]) info.isOptional = true;
+            // @relation(fields: [a, b], ...) — 중간 테이블 관계의 nested deleteMany(스칼라 where) 에 사용
+            const relationFields = line.match(/@relation\([^)]*fields:\s*\[([^\]]*)\]/);
+            if (relationFields) {
+                info.relationFields = relationFields[1]
+                    .split(',')
+                    .map((field) => field.trim())
+                    .filter(Boolean);
+            }
+            map.set(name, info);
         }
         return map;
     } catch {
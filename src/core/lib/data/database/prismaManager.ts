@@ -4,6 +4,7 @@
 // import { PrismaClient } from '@prisma/client'; // Removed - using dynamic imports instead
 import * as fs from 'fs';
 import * as path from 'path';
+import { performance } from 'perf_hooks';
 import { config } from 'dotenv';
 import { log } from '@ext/winston';
 import {
@@ -11,6 +12,28 @@ import {
     PrismaManagerClientOverloads,
 } from '@lib/types/generated-db-types';
 import { buildFieldTypeMapFromSchema, FieldTypeInfo } from '@lib/data/database/fieldTypeMap';
+import { queryMetrics, CLIENT_MODEL } from '@lib/data/database/queryMetrics';
+import {
+    ReplicaPool,
+    READ_OPERATIONS,
+    PRIMARY_WRITE_METHODS,
+    markPrimaryWrite,
+    maskConnectionUrl,
+    parseReplicaUrls,
+} from '@lib/data/database/readReplicas';
+import type {
+    ReplicaHealth,
+    ReplicaSelection,
+    ReplicaStatus,
+} from '@lib/data/database/readReplicas';
+import {
+    PoolTracker,
+    isPoolTimeoutError,
+    loadDatabasePoolConfig,
+    toMysqlPoolConfig,
+    toPgPoolConfig,
+} from '@lib/data/database/connectionPool';
+import type { DatabasePoolConfig, PoolStats } from '@lib/data/database/connectionPool';
 
 /**
  * 폴더명을 환경변수명으로 변환.
@@ -30,7 +53,7 @@ import { buildFieldTypeMapFromSchema, FieldTypeInfo } from '@lib/data/database/f
  * (CLI 와의 중복 제거 — 기존 `@lib/prismaManager` import 호환을 위해 re-export 유지)
  */
 export { folderNameToEnvVarName } from '@lib/data/database/dbNaming';
-import { folderNameToEnvVarName } from '@lib/data/database/dbNaming';
+import { folderNameToEnvVarName, folderNameToReplicaEnvVarName } from '@lib/data/database/dbNaming';
 
 /**
  * Database connection configuration interface
@@ -96,6 +119,9 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
     private databases: Map<string, any> = new Map(); // Store actual client instances
     private configs: Map<string, DatabaseConfig> = new Map();
     private clientTypes: Map<string, any> = new Map(); // Store client type constructors
+    private replicaPools: Map<string, ReplicaPool> = new Map(); // 읽기 복제본 (설정된 DB 만)
+    private poolConfigs: Map<string, DatabasePoolConfig> = new Map(); // kusto.db.ts + 환경변수
+    private poolTracker = new PoolTracker(); // 드라이버 풀 상태 (primary 는 DB 이름, 복제본은 URL 포함 키)
     private initialized: boolean = false;
     private reconnectionAttempts: Map<string, number> = new Map();
     private reconnectionCooldowns: Map<string, number> = new Map(); // 쿨다운 타임스탬프
@@ -424,6 +450,9 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
                 throw urlError;
             }
 
+            // 커넥션 풀 설정 (kusto.db.ts, {NAME}__KUSTO_RDB_POOL_* 등)
+            this.poolConfigs.set(folderName, loadDatabasePoolConfig(folderName, folderPath));
+
             // Create Prisma client instance with provider-specific driver adapter
             const clientOptions = await this.buildClientOptions(folderName, connectionUrl);
             const prismaClient = new DatabasePrismaClient(clientOptions);
@@ -443,6 +472,9 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
             this.reconnectionAttempts.set(folderName, 0);
             this.reconnectionCooldowns.delete(folderName);
 
+            // 읽기 복제본 ({NAME}__KUSTO_RDB_REPLICA_URLS 설정 시)
+            await this.connectReplicas(folderName, DatabasePrismaClient);
+
             // Dynamically extend the DatabaseClientMap interface with the actual client type
             this.extendDatabaseClientMap(folderName, DatabasePrismaClient);
 
@@ -538,6 +570,7 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
     /**
      * Create a driver adapter based on the schema provider.
      * Dynamically imports the adapter package only when needed.
+     * The database's pool config (`kusto.db.ts` / `{NAME}__KUSTO_RDB_POOL_*`) is passed to the adapter.
      * Returns null for providers that don't require an adapter (e.g. sqlite).
      */
     private async createDriverAdapter(
@@ -545,33 +578,39 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
         connectionUrl: string,
     ): Promise<any | null> {
         const provider = this.getSchemaProvider(folderName);
+        const poolConfig = this.poolConfigs.get(folderName) ?? {};
 
         switch (provider) {
             case 'postgresql':
             case 'postgres': {
+                let PrismaPg;
                 try {
-                    const { PrismaPg } = await import('@prisma/adapter-pg');
-                    return new PrismaPg({ connectionString: connectionUrl });
+                    ({ PrismaPg } = await import('@prisma/adapter-pg'));
                 } catch {
                     throw new Error(
                         `'@prisma/adapter-pg' 패키지가 필요합니다.\n` +
                             `  npm install @prisma/adapter-pg`,
                     );
                 }
+                return new PrismaPg(toPgPoolConfig(connectionUrl, poolConfig));
             }
             case 'mysql': {
+                let PrismaMysql;
                 try {
-                    const { PrismaMysql } = await import('@prisma/adapter-mysql' as string);
-                    return new PrismaMysql({ connectionString: connectionUrl });
+                    ({ PrismaMysql } = await import('@prisma/adapter-mysql' as string));
                 } catch {
                     throw new Error(
                         `'@prisma/adapter-mysql' 패키지가 필요합니다.\n` +
                             `  npm install @prisma/adapter-mysql`,
                     );
                 }
+                return new PrismaMysql(toMysqlPoolConfig(connectionUrl, poolConfig));
             }
             case 'sqlite':
-                // SQLite는 어댑터 없이 직접 연결
+                // SQLite는 어댑터 없이 직접 연결 (커넥션 풀 없음)
+                if (Object.keys(poolConfig).length > 0) {
+                    log.Warn(`Pool settings are ignored for sqlite database ${folderName}`);
+                }
                 return null;
             default:
                 log.Warn(
@@ -820,22 +859,149 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
         }
     }
 
+    /**
+     * `{NAME}__KUSTO_RDB_REPLICA_URLS` 에 설정된 복제본마다 클라이언트를 만든다.
+     * 복제본 연결 실패는 primary 를 막지 않는다 — 비정상으로 표시되고 쿨다운 뒤 다시 시도된다.
+     * 선택 방식은 `{NAME}__KUSTO_RDB_REPLICA_SELECTION`(round-robin | least-latency),
+     * 쓰기 후 primary 고정 시간은 `{NAME}__KUSTO_RDB_REPLICA_STICKY_MS` 로 정한다.
+     */
+    private async connectReplicas(databaseName: string, DatabasePrismaClient: any): Promise<void> {
+        await this.disconnectReplicas(databaseName);
+
+        const urls = parseReplicaUrls(process.env[folderNameToReplicaEnvVarName(databaseName)]);
+        if (urls.length === 0) return;
+
+        const selectionVar = folderNameToReplicaEnvVarName(databaseName, 'SELECTION');
+        let selection = (process.env[selectionVar] || 'round-robin') as ReplicaSelection;
+        if (selection !== 'round-robin' && selection !== 'least-latency') {
+            log.Warn(`Invalid ${selectionVar} '${selection}', using round-robin`);
+            selection = 'round-robin';
+        }
+        const stickyVar = folderNameToReplicaEnvVarName(databaseName, 'STICKY_MS');
+        const stickyMs = process.env[stickyVar] ? Number(process.env[stickyVar]) : undefined;
+        if (stickyMs !== undefined && !(Number.isFinite(stickyMs) && stickyMs >= 0)) {
+            throw new Error(`${stickyVar} must be a non-negative number of milliseconds`);
+        }
+
+        const replicas = [];
+        for (const url of urls) {
+            const clientOptions = await this.buildClientOptions(
+                databaseName,
+                url,
+                this.replicaPoolKey(databaseName, url),
+            );
+            replicas.push({ url, client: new DatabasePrismaClient(clientOptions) });
+        }
+        const pool = new ReplicaPool(databaseName, replicas, { selection, stickyMs });
+
+        for (const member of pool.members) {
+            try {
+                await this.connectWithRetry(member.client, `${databaseName} (replica)`, 1);
+            } catch (error) {
+                pool.recordFailure(member, error);
+            }
+        }
+        this.replicaPools.set(databaseName, pool);
+        log.Info(`Read replicas configured for ${databaseName}`, {
+            replicas: urls.map(maskConnectionUrl),
+            selection,
+        });
+    }
+
+    private async disconnectReplicas(databaseName: string): Promise<void> {
+        const pool = this.replicaPools.get(databaseName);
+        if (!pool) return;
+        this.replicaPools.delete(databaseName);
+        for (const member of pool.members) {
+            this.poolTracker.forget(this.replicaPoolKey(databaseName, member.url));
+        }
+        await Promise.all(
+            pool.members.map((member) =>
+                member.client
+                    .$disconnect()
+                    .catch((error: any) =>
+                        log.Error('Error disconnecting read replica client:', error),
+                    ),
+            ),
+        );
+    }
+
+    /**
+     * 모델 읽기 연산 실행. 쓸 수 있는 복제본이 있으면 복제본에서, 복제본 연결 오류나
+     * primary 고정(쓰기 후 sticky 창, usePrimary) 상황이면 primary 에서 읽는다.
+     */
+    private async executeRead(
+        databaseName: string,
+        model: string,
+        operation: string,
+        args: any[],
+    ): Promise<any> {
+        const pool = this.replicaPools.get(databaseName);
+        const replica = pool?.pick();
+        if (pool && replica) {
+            const startedAt = performance.now();
+            try {
+                const result = await replica.client[model][operation](...args);
+                pool.recordSuccess(replica, performance.now() - startedAt);
+                return result;
+            } catch (error: any) {
+                if (!this.isConnectionError(error)) throw error;
+                this.notePoolTimeout(databaseName, error, replica.url);
+                pool.recordFailure(replica, error);
+                log.Warn(`Read replica unavailable, falling back to primary: ${databaseName}`, {
+                    replica: maskConnectionUrl(replica.url),
+                    message: error?.message,
+                });
+            }
+        }
+        const currentClient = this.databases.get(databaseName);
+        return currentClient[model][operation](...args);
+    }
+
+    /** 복제본 드라이버 풀의 PoolTracker 키 */
+    private replicaPoolKey(databaseName: string, url: string): string {
+        return `${databaseName} replica ${url}`;
+    }
+
+    /**
+     * P2024(풀에서 연결을 얻지 못함)이면 타임아웃 수를 올리고 그 순간의 풀 상태와 설정을 남긴다.
+     * 풀이 작은지, 느린 쿼리가 연결을 오래 잡고 있는지 구분하는 단서가 된다.
+     */
+    private notePoolTimeout(databaseName: string, error: any, replicaUrl?: string): void {
+        if (!isPoolTimeoutError(error)) return;
+        const poolKey = replicaUrl ? this.replicaPoolKey(databaseName, replicaUrl) : databaseName;
+        this.poolTracker.recordTimeout(poolKey);
+        log.Warn(`Connection pool timeout (P2024): ${databaseName}`, {
+            pool: replicaUrl ? maskConnectionUrl(replicaUrl) : 'primary',
+            stats: this.poolTracker.stats(poolKey),
+            config: this.poolConfigs.get(databaseName) ?? {},
+            message: error?.message,
+        });
+    }
+
     /**
      * Build Prisma client constructor options for a database.
      *
      * Shared by both the initial connection path (`processDatabaseFolder`) and the
      * reconnection path (`recreateClient`) so the option shape stays in one place.
      * Produces `{ log, errorFormat: 'minimal' }` plus a conditional driver adapter
-     * (omitted when the provider needs none, e.g. sqlite).
+     * (omitted when the provider needs none, e.g. sqlite). The adapter is registered
+     * with the pool tracker under `poolKey` so its live pool stats show up in `getStatus()`.
      */
-    private async buildClientOptions(databaseName: string, connectionUrl: string): Promise<any> {
+    private async buildClientOptions(
+        databaseName: string,
+        connectionUrl: string,
+        poolKey: string = databaseName,
+    ): Promise<any> {
         const adapter = await this.createDriverAdapter(databaseName, connectionUrl);
         const clientOptions: any = {
             log: process.env.NODE_ENV === 'development' ? ['warn', 'error'] : ['error'],
             errorFormat: 'minimal',
         };
         if (adapter) {
-            clientOptions.adapter = adapter;
+            // pg / mariadb 모두 설정이 없으면 최대 10개
+            const max = this.poolConfigs.get(databaseName)?.max ?? 10;
+            clientOptions.adapter = this.poolTracker.track(poolKey, adapter, max);
         }
         return clientOptions;
     }
@@ -1159,7 +1325,7 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
 
     /**
      * Get a wrapped client with automatic reconnection on connection errors
-     * 성능 최적화: 정상 동작 시 오버헤드 없음, 연결 오류 시에만 재연결 시도
+     * 성능 최적화: 정상 동작 시 소요시간 기록(queryMetrics) 외 오버헤드 없음, 연결 오류 시에만 재연결 시도
      * 서버리스 DB 슬립 복구를 위해 충분한 재시도 시간 확보
      * Synchronous version for use in repositories
      */
@@ -1186,10 +1352,17 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
 
             /**
              * 연결 오류 시 재연결 후 재시도하는 래퍼 함수 생성
+             * 재시도를 포함한 호출 전체 소요시간을 queryMetrics 에 기록한다.
              * @param executeFn 실제 실행할 함수 (최신 클라이언트에서 호출)
+             * @param model 모델 이름 (클라이언트 `$` 메서드는 CLIENT_MODEL)
+             * @param operation 메서드 이름 (findMany, $queryRaw 등)
              */
-            const createRetryWrapper = (executeFn: (...args: any[]) => Promise<any>) => {
-                return async function (...args: any[]) {
+            const createRetryWrapper = (
+                executeFn: (...args: any[]) => Promise<any>,
+                model: string,
+                operation: string,
+            ) => {
+                const executeWithRetry = async (args: any[]) => {
                     const maxRetries = 3;
                     const baseDelay = 2000; // 2초부터 시작
                     let lastError: Error | null = null;
@@ -1199,6 +1372,7 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
                             return await executeFn(...args);
                         } catch (error: any) {
                             lastError = error;
+                            manager.notePoolTimeout(databaseName, error);
 
                             if (manager.isConnectionError(error) && attempt < maxRetries) {
                                 const delay = Math.min(baseDelay * Math.pow(1.5, attempt), 8000);
@@ -1226,6 +1400,25 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
 
                     throw lastError;
                 };
+
+                return async function (...args: any[]) {
+                    const startedAt = performance.now();
+                    let failed = true;
+                    try {
+                        const result = await executeWithRetry(args);
+                        failed = false;
+                        return result;
+                    } finally {
+                        queryMetrics.record(
+                            databaseName,
+                            model,
+                            operation,
+                            performance.now() - startedAt,
+                            args,
+                            failed,
+                        );
+                    }
+                };
             };
 
             // 재연결 래핑이 불필요한 $ 메서드 (연결 관리용)
@@ -1244,10 +1437,18 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
                     // $ 접두사 함수 ($transaction, $queryRaw, $queryRawUnsafe, $executeRaw 등)
                     // 연결 오류 시 재연결 후 재시도
                     if (propStr.startsWith('$') && typeof value === 'function') {
-                        return createRetryWrapper(async (...args: any[]) => {
-                            const currentClient = manager.databases.get(databaseName);
-                            return await (currentClient as any)[prop](...args);
-                        });
+                        return createRetryWrapper(
+                            async (...args: any[]) => {
+                                // $transaction / $executeRaw 는 primary 쓰기 → 같은 요청의 읽기를 primary 로 고정
+                                if (PRIMARY_WRITE_METHODS.has(propStr)) {
+                                    markPrimaryWrite(databaseName);
+                                }
+                                const currentClient = manager.databases.get(databaseName);
+                                return await (currentClient as any)[prop](...args);
+                            },
+                            CLIENT_MODEL,
+                            propStr,
+                        );
                     }
 
                     // 비-객체 (string, number, boolean 등) 그대로 반환
@@ -1265,11 +1466,26 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
                             }
 
                             // Prisma 쿼리 메서드를 래핑 (findFirst, findMany, create, update 등)
-                            return createRetryWrapper(async (...args: any[]) => {
-                                const currentClient = manager.databases.get(databaseName);
-                                const currentModel = (currentClient as any)[prop];
-                                return await currentModel[modelProp](...args);
-                            });
+                            // 읽기는 복제본(설정 시)으로, 쓰기는 primary 로 보낸다
+                            const operation = String(modelProp);
+                            return createRetryWrapper(
+                                async (...args: any[]) => {
+                                    if (READ_OPERATIONS.has(operation)) {
+                                        return manager.executeRead(
+                                            databaseName,
+                                            propStr,
+                                            operation,
+                                            args,
+                                        );
+                                    }
+                                    markPrimaryWrite(databaseName);
+                                    const currentClient = manager.databases.get(databaseName);
+                                    const currentModel = (currentClient as any)[prop];
+                                    return await currentModel[modelProp](...args);
+                                },
+                                propStr,
+                                String(modelProp),
+                            );
                         },
                     });
                 },
@@ -1319,6 +1535,9 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
      * Disconnect all databases
      */
     public async disconnectAll(): Promise<void> {
+        await Promise.all(
+            Array.from(this.replicaPools.keys()).map((name) => this.disconnectReplicas(name)),
+        );
         const disconnectPromises = Array.from(this.databases.values()).map((client) =>
             client
                 .$disconnect()
@@ -1327,6 +1546,7 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
 
         await Promise.all(disconnectPromises);
         this.databases.clear();
+        this.poolTracker.clear();
         this.initialized = false;
         log.Info('All Prisma clients disconnected');
     }
@@ -1338,17 +1558,41 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
         initialized: boolean;
         connectedDatabases: number;
         totalDatabases: number;
-        databases: { name: string; connected: boolean; generated: boolean }[];
+        databases: {
+            name: string;
+            connected: boolean;
+            generated: boolean;
+            pool?: PoolStats;
+            replicas?: (ReplicaStatus & { pool?: PoolStats })[];
+        }[];
     } {
         return {
             initialized: this.initialized,
             connectedDatabases: this.databases.size,
             totalDatabases: this.configs.size,
-            databases: Array.from(this.configs.values()).map((config) => ({
-                name: config.name,
-                connected: this.isConnected(config.name),
-                generated: config.isGenerated,
-            })),
+            databases: Array.from(this.configs.values()).map((config) => {
+                const replicaPool = this.replicaPools.get(config.name);
+                const pool = this.poolTracker.stats(config.name);
+                return {
+                    name: config.name,
+                    connected: this.isConnected(config.name),
+                    generated: config.isGenerated,
+                    ...(pool ? { pool } : {}),
+                    ...(replicaPool
+                        ? {
+                              replicas: replicaPool.status().map((status, index) => {
+                                  const stats = this.poolTracker.stats(
+                                      this.replicaPoolKey(
+                                          config.name,
+                                          replicaPool.members[index].url,
+                                      ),
+                                  );
+                                  return stats ? { ...status, pool: stats } : status;
+                              }),
+                          }
+                        : {}),
+                };
+            }),
         };
     }
     /**
@@ -1397,27 +1641,35 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
             status: 'healthy' | 'unhealthy' | 'not-connected';
             responseTime?: number;
             error?: string;
+            replicas?: ReplicaHealth[];
         }>;
     }> {
         const results = [];
         let healthyCount = 0;
+        let unhealthyReplicas = 0;
         for (const dbName of this.getAvailableDatabases()) {
+            // 프로바이더별 헬스체크 쿼리
+            const provider = this.getSchemaProvider(dbName);
+            const ping = (client: any) =>
+                provider === 'sqlite'
+                    ? client.$queryRawUnsafe('SELECT 1')
+                    : client.$queryRaw`SELECT 1 as health_check`;
+
+            const pool = this.replicaPools.get(dbName);
+            const replicas = pool ? await pool.checkHealth(ping) : undefined;
+            unhealthyReplicas += replicas?.filter((r) => r.status !== 'healthy').length ?? 0;
+
             const start = Date.now();
             try {
                 const client = await this.getClient(dbName);
-                // 프로바이더별 헬스체크 쿼리
-                const provider = this.getSchemaProvider(dbName);
-                if (provider === 'sqlite') {
-                    await client.$queryRawUnsafe('SELECT 1');
-                } else {
-                    await client.$queryRaw`SELECT 1 as health_check`;
-                }
+                await ping(client);
                 const responseTime = Date.now() - start;
 
                 results.push({
                     name: dbName,
                     status: 'healthy' as const,
                     responseTime,
+                    ...(replicas ? { replicas } : {}),
                 });
                 healthyCount++;
             } catch (error) {
@@ -1425,6 +1677,7 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
                     name: dbName,
                     status: 'unhealthy' as const,
                     error: error instanceof Error ? error.message : 'Unknown error',
+                    ...(replicas ? { replicas } : {}),
                 });
             }
         }
@@ -1442,7 +1695,8 @@ export class PrismaManager implements PrismaManagerWrapOverloads, PrismaManagerC
         const totalConnected = this.getAvailableDatabases().length;
         let overall: 'healthy' | 'degraded' | 'unhealthy';
 
-        if (healthyCount === totalConnected && totalConnected > 0) {
+        // 복제본이 죽어도 primary 로 읽을 수 있으므로 degraded 로만 본다
+        if (healthyCount === totalConnected && totalConnected > 0 && unhealthyReplicas === 0) {
             overall = 'healthy';
         } else if (healthyCount > 0) {
             overall = 'degraded';
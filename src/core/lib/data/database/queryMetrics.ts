@@ -0,0 +1,266 @@
+import { log } from '@ext/winston';
+import type {
+    DatabaseQueryStat,
+    QueryMetrics,
+    QueryStat,
+    SlowQuery,
+} from '@lib/devtools/monitor/monitorTypes';
+
+/**
+ * DB 쿼리 메트릭 수집기(인메모리 싱글톤).
+ *
+ * prismaManager.getWrap() 프록시가 모든 모델/`$` 메서드 호출의 소요시간을 기록하면
+ * 여기서 DB별 / 모델·연산별로 누적하고, 기준을 넘은 쿼리는 slow query 로그를 남긴다.
+ * 버퍼는 모두 고정 크기라 메모리 상한이 있다.
+ *
+ * 재연결 재시도가 있으면 재시도까지 포함한 호출 전체 시간이 기록된다(호출자가 체감한 시간).
+ * interactive `$transaction(async (tx) => ...)` 은 트랜잭션 전체가 한 건으로 잡히고,
+ * 안쪽의 `tx.*` 호출은 래핑되지 않은 클라이언트라 개별 집계되지 않는다.
+ */
+
+/** `$queryRaw`/`$transaction` 처럼 모델이 없는 클라이언트 메서드의 model 라벨 */
+export const CLIENT_MODEL = '$client';
+
+const SAMPLE_CAP = 200; // 키별 지연 표본 수
+const KEY_CAP = 500; // 모델·연산 키 상한(폭주 방지)
+const RECENT_SLOW_CAP = 20;
+const DEFAULT_SLOW_QUERY_MS = 1000;
+
+const MAX_ARG_DEPTH = 5;
+const MAX_ARRAY_ITEMS = 3;
+const MAX_SQL_LENGTH = 500;
+/** 값이 아니라 쿼리 형태를 나타내는 키 — 하위 값은 그대로 로그에 남긴다 */
+const STRUCTURAL_KEYS = new Set([
+    'select',
+    'include',
+    'omit',
+    'orderBy',
+    'distinct',
+    'take',
+    'skip',
+    '_count',
+]);
+
+interface Bucket {
+    count: number;
+    errors: number;
+    slow: number;
+    totalMs: number;
+    maxMs: number;
+    samples: number[]; // 최근 지연 표본(링)
+}
+
+function newBucket(): Bucket {
+    return { count: 0, errors: 0, slow: 0, totalMs: 0, maxMs: 0, samples: [] };
+}
+
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const idx = Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length));
+    return sorted[idx];
+}
+
+function round1(n: number): number {
+    return Math.round(n * 10) / 10;
+}
+
+function sanitizeValue(value: unknown, depth: number, structural: boolean): unknown {
+    if (value === null || value === undefined) return value;
+    if (typeof value === 'function') return '[Function]';
+    if (typeof value !== 'object' || value instanceof Date || Buffer.isBuffer(value)) {
+        return structural && typeof value !== 'object' ? value : '?';
+    }
+    if (depth >= MAX_ARG_DEPTH) return '[Object]';
+    if (Array.isArray(value)) {
+        const items = value
+            .slice(0, MAX_ARRAY_ITEMS)
+            .map((item) => sanitizeValue(item, depth + 1, structural));
+        if (value.length > MAX_ARRAY_ITEMS) {
+            items.push(`…${value.length - MAX_ARRAY_ITEMS} more`);
+        }
+        return items;
+    }
+    const out: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        out[key] = sanitizeValue(child, depth + 1, structural || STRUCTURAL_KEYS.has(key));
+    }
+    return out;
+}
+
+function truncateSql(sql: string): string {
+    return sql.length > MAX_SQL_LENGTH ? `${sql.slice(0, MAX_SQL_LENGTH)}…` : sql;
+}
+
+/**
+ * 로그용 쿼리 인자 정리 — 조건/데이터의 실제 값은 `?` 로 가리고 형태(키, select/orderBy 등)만 남긴다.
+ * raw 쿼리는 파라미터를 뺀 SQL 텍스트만 남긴다.
+ */
+export function sanitizeQueryArgs(operation: string, args: unknown[]): unknown {
+    const [first] = args;
+    switch (operation) {
+        case '$queryRaw':
+        case '$executeRaw': {
+            // 태그드 템플릿(TemplateStringsArray) 또는 Prisma.sql 객체 — 값 자리는 ? 로
+            const strings = Array.isArray(first)
+                ? first
+                : (first as { strings?: unknown })?.strings;
+            return Array.isArray(strings)
+                ? { sql: truncateSql(strings.join('?')), params: args.length - 1 }
+                : '?';
+        }
+        case '$queryRawUnsafe':
+        case '$executeRawUnsafe':
+            return typeof first === 'string'
+                ? { sql: truncateSql(first), params: args.length - 1 }
+                : '?';
+        case '$transaction':
+            return Array.isArray(first) ? `[${first.length} operations]` : '[interactive]';
+        default:
+            return first === undefined ? undefined : sanitizeValue(first, 0, false);
+    }
+}
+
+export class QueryMetricsCollector {
+    private static instance: QueryMetricsCollector;
+
+    private total = 0;
+    private errors = 0;
+    private queries = new Map<
+        string,
+        Bucket & { database: string; model: string; operation: string }
+    >();
+    private databases = new Map<string, Bucket>();
+    private recentSlow: SlowQuery[] = [];
+
+    static getInstance(): QueryMetricsCollector {
+        if (!QueryMetricsCollector.instance) {
+            QueryMetricsCollector.instance = new QueryMetricsCollector();
+        }
+        return QueryMetricsCollector.instance;
+    }
+
+    /** slow query 기준(ms) — env `DB_SLOW_QUERY_MS` (기본 1000, 0 이면 비활성) */
+    get slowThresholdMs(): number {
+        const raw = process.env.DB_SLOW_QUERY_MS;
+        const parsed = raw === undefined || raw === '' ? NaN : Number(raw);
+        return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_SLOW_QUERY_MS;
+    }
+
+    /**
+     * 쿼리 1건 기록. 기준을 넘으면 모델·연산과 정리된 인자로 slow query 로그를 남긴다.
+     * 인자 정리는 slow query 일 때만 수행한다.
+     */
+    record(
+        database: string,
+        model: string,
+        operation: string,
+        durationMs: number,
+        args: unknown[],
+        failed = false,
+    ): void {
+        const threshold = this.slowThresholdMs;
+        const slow = threshold > 0 && durationMs >= threshold;
+
+        this.total++;
+        if (failed) this.errors++;
+
+        const key = `${database}\u0000${model}\u0000${operation}`;
+        let stat = this.queries.get(key);
+        if (!stat && this.queries.size < KEY_CAP) {
+            stat = { ...newBucket(), database, model, operation };
+            this.queries.set(key, stat);
+        }
+        if (stat) this.add(stat, durationMs, failed, slow);
+
+        let db = this.databases.get(database);
+        if (!db) {
+            db = newBucket();
+            this.databases.set(database, db);
+        }
+        this.add(db, durationMs, failed, slow);
+
+        if (!slow) return;
+
+        const rounded = round1(durationMs);
+        this.recentSlow.push({ ts: Date.now(), database, model, operation, durationMs: rounded });
+        if (this.recentSlow.length > RECENT_SLOW_CAP) this.recentSlow.shift();
+
+        log.Warn(`Slow query: ${database}.${model}.${operation} took ${rounded}ms`, {
+            database,
+            model,
+            operation,
+            durationMs: rounded,
+            thresholdMs: threshold,
+            failed,
+            args: sanitizeQueryArgs(operation, args),
+        });
+    }
+
+    private add(bucket: Bucket, durationMs: number, failed: boolean, slow: boolean): void {
+        bucket.count++;
+        if (failed) bucket.errors++;
+        if (slow) bucket.slow++;
+        bucket.totalMs += durationMs;
+        bucket.maxMs = Math.max(bucket.maxMs, durationMs);
+        bucket.samples.push(durationMs);
+        if (bucket.samples.length > SAMPLE_CAP) bucket.samples.shift();
+    }
+
+    /** 현재 요약 스냅샷 — top 은 누적 소요시간 순 */
+    snapshot(topN = 10): QueryMetrics {
+        const databases: DatabaseQueryStat[] = [...this.databases.entries()].map(
+            ([database, b]) => ({
+                database,
+                count: b.count,
+                errors: b.errors,
+                slow: b.slow,
+                avgMs: round1(b.totalMs / b.count),
+                p95: round1(
+                    percentile(
+                        [...b.samples].sort((x, y) => x - y),
+                        95,
+                    ),
+                ),
+            }),
+        );
+
+        const top: QueryStat[] = [...this.queries.values()]
+            .sort((a, b) => b.totalMs - a.totalMs)
+            .slice(0, topN)
+            .map((q) => {
+                const sorted = [...q.samples].sort((x, y) => x - y);
+                return {
+                    database: q.database,
+                    model: q.model,
+                    operation: q.operation,
+                    count: q.count,
+                    errors: q.errors,
+                    avgMs: round1(q.totalMs / q.count),
+                    p50: round1(percentile(sorted, 50)),
+                    p95: round1(percentile(sorted, 95)),
+                    p99: round1(percentile(sorted, 99)),
+                    maxMs: round1(q.maxMs),
+                };
+            });
+
+        return {
+            total: this.total,
+            errors: this.errors,
+            slowThresholdMs: this.slowThresholdMs,
+            databases,
+            top,
+            recentSlow: [...this.recentSlow].reverse(), // 최신 먼저
+        };
+    }
+
+    /** 테스트/재시작용 리셋 */
+    reset(): void {
+        this.total = 0;
+        this.errors = 0;
+        this.queries.clear();
+        this.databases.clear();
+        this.recentSlow = [];
+    }
+}
+
+export const queryMetrics = QueryMetricsCollector.getInstance();
@@ -5,6 +5,7 @@ import {
     GetRepositoryType,
 } from '@lib/types/generated-repository-types';
 import { PrismaManager } from '@lib/data/database/prismaManager';
+import { applicationLifecycle } from '@lib/lifecycle/applicationLifecycle';
 
 export class RepositoryManager {
     private static instance: RepositoryManager;
@@ -69,6 +70,10 @@ export class RepositoryManager {
                     // Pass the PrismaManager instance to the repository constructor
                     const repositoryInstance = new RepositoryClass(this.prismaManager);
                     this.repositories[repositoryName] = repositoryInstance;
+                    applicationLifecycle.register(
+                        `repository:${repositoryName}`,
+                        repositoryInstance,
+                    );
                     log.Debug(`Loaded repository: ${repositoryName}`);
                 } else {
                     log.Warn(`Repository ${repositoryName} is not a constructor function`);
@@ -161,6 +166,7 @@ export class RepositoryManager {
             if (typeof RepositoryClass === 'function') {
                 const repositoryInstance = new RepositoryClass(this.prismaManager);
                 this.repositories[name] = repositoryInstance;
+                applicationLifecycle.register(`repository:${name}`, repositoryInstance);
                 log.Debug(`Reloaded repository: ${name}`);
             }
         } catch (error) {
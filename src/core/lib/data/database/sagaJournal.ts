@@ -0,0 +1,338 @@
+/**
+ * 분산 트랜잭션(Saga) 저널
+ *
+ * {@link TransactionCommitManager} 의 참여자 상태는 메모리에만 있어서, 데이터베이스 A 를 커밋한 뒤
+ * B 를 커밋하기 전에 프로세스가 죽으면 아무도 A 를 보상하지 않는다.
+ * 저널을 설정하면 Saga 마다 단계(step) 이름·인자·상태를 영속 저장소에 기록하고,
+ * 재시작 시 이름으로 등록된 핸들러({@link registerSagaStep})로 남은 단계를 이어서 실행하거나 보상한다.
+ *
+ * 저널은 `SAGA_JOURNAL` 환경변수(`file:<디렉터리>` 또는 `prisma:<데이터베이스>[:<모델>]`)나
+ * {@link setDefaultSagaJournal} 로 켠다. 설정하지 않으면 기존처럼 메모리에서만 동작한다.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { prismaManager } from '@lib/data/database/prismaManager';
+
+/**
+ * Saga 전체 상태.
+ * - `running`: 단계를 커밋하는 중 (여기서 멈춰 있으면 복구 대상)
+ * - `committed`: 모든 단계 커밋 완료
+ * - `compensating`: 보상 중 (여기서 멈춰 있으면 복구 대상)
+ * - `compensated`: 커밋된 단계를 모두 보상함
+ * - `failed`: 보상이 실패했거나 보상 핸들러가 없어 수동 개입이 필요함
+ */
+export type SagaStatus = 'running' | 'committed' | 'compensating' | 'compensated' | 'failed';
+
+/**
+ * 단계 상태. `committing` 은 트랜잭션을 시작했지만 결과를 기록하지 못한 상태로,
+ * 실제로 커밋됐는지 알 수 없으므로 복구 시 보상 대상에 포함한다.
+ */
+export type SagaStepState = 'pending' | 'committing' | 'committed' | 'failed' | 'compensated';
+
+/** 저널에 기록되는 단계 하나 */
+export interface SagaStepRecord {
+    /** 등록된 단계 이름 (없으면 복구 시 실행/보상할 수 없다) */
+    name?: string;
+    database: string;
+    state: SagaStepState;
+    /** 핸들러에 넘길 인자 (JSON 직렬화 가능해야 한다) */
+    args?: unknown;
+    error?: string;
+}
+
+/** 저널에 기록되는 Saga 하나. 단계는 커밋 순서대로 저장된다 */
+export interface SagaRecord {
+    id: string;
+    status: SagaStatus;
+    steps: SagaStepRecord[];
+    error?: string;
+    /** epoch ms */
+    createdAt: number;
+    /** epoch ms */
+    updatedAt: number;
+}
+
+export interface SagaListFilter {
+    status?: SagaStatus | SagaStatus[];
+    /** 이 시각(epoch ms)보다 먼저 갱신된 Saga 만 */
+    updatedBefore?: number;
+}
+
+/** Saga 저널 인터페이스 */
+export interface SagaJournal {
+    /** Saga 를 통째로 저장한다 (없으면 생성, 있으면 덮어쓰기) */
+    save(record: SagaRecord): Promise<void>;
+    get(id: string): Promise<SagaRecord | null>;
+    /** 생성 순으로 정렬된 목록 */
+    list(filter?: SagaListFilter): Promise<SagaRecord[]>;
+    /**
+     * 복구할 Saga 를 선점한다. 저장된 status / updatedAt 이 `record` 와 같을 때만
+     * updatedAt 을 `claimedAt` 으로 바꾸고 true 를 돌려준다 (다른 인스턴스가 먼저 가져갔으면 false).
+     */
+    claim(record: SagaRecord, claimedAt: number): Promise<boolean>;
+}
+
+function matches(record: SagaRecord, filter: SagaListFilter): boolean {
+    if (filter.status !== undefined) {
+        const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+        if (!statuses.includes(record.status)) return false;
+    }
+    if (filter.updatedBefore !== undefined && record.updatedAt >= filter.updatedBefore) {
+        return false;
+    }
+    return true;
+}
+
+export interface FileSagaJournalOptions {
+    /** Saga 하나당 `<id>.json` 파일을 두는 디렉터리 (없으면 만든다) */
+    directory: string;
+}
+
+/**
+ * 로컬 파일 저널. 단일 인스턴스 배포용이며, 임시 파일에 쓴 뒤 rename 하여 기록이 깨지지 않게 한다.
+ * 여러 인스턴스가 같은 Saga 를 복구해야 하면 {@link PrismaSagaJournal} 을 쓴다.
+ */
+export class FileSagaJournal implements SagaJournal {
+    private readonly directory: string;
+
+    constructor(options: FileSagaJournalOptions) {
+        this.directory = path.resolve(options.directory);
+    }
+
+    async save(record: SagaRecord): Promise<void> {
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        const target = this.fileFor(record.id);
+        const temp = `${target}.${process.pid}.tmp`;
+        await fs.promises.writeFile(temp, JSON.stringify(record, null, 2), 'utf8');
+        await fs.promises.rename(temp, target);
+    }
+
+    async get(id: string): Promise<SagaRecord | null> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.fileFor(id), 'utf8'));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    /** 같은 프로세스 안에서만 원자적이다 (읽기-비교-쓰기를 동기 호출로 끝낸다) */
+    async claim(record: SagaRecord, claimedAt: number): Promise<boolean> {
+        const target = this.fileFor(record.id);
+        let current: SagaRecord;
+        try {
+            current = JSON.parse(fs.readFileSync(target, 'utf8'));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return false;
+            throw error;
+        }
+        if (current.status !== record.status || current.updatedAt !== record.updatedAt) {
+            return false;
+        }
+        const temp = `${target}.${process.pid}.tmp`;
+        fs.writeFileSync(
+            temp,
+            JSON.stringify({ ...current, updatedAt: claimedAt }, null, 2),
+            'utf8',
+        );
+        fs.renameSync(temp, target);
+        return true;
+    }
+
+    async list(filter: SagaListFilter = {}): Promise<SagaRecord[]> {
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(this.directory);
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const records: SagaRecord[] = [];
+        for (const file of files) {
+            if (!file.endsWith('.json')) continue;
+            const record = await this.get(file.slice(0, -'.json'.length));
+            if (record && matches(record, filter)) records.push(record);
+        }
+        return records.sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    /** id 는 CLI 인자로도 들어오므로 디렉터리 밖을 가리키지 못하게 한다 */
+    private fileFor(id: string): string {
+        if (!/^[\w-]+$/.test(id)) {
+            throw new Error(`FileSagaJournal: invalid saga id '${id}'`);
+        }
+        return path.join(this.directory, `${id}.json`);
+    }
+}
+
+export interface PrismaSagaJournalOptions {
+    /** prismaManager 에 등록된 데이터베이스 이름 */
+    database: string;
+    /** Prisma 클라이언트의 모델 delegate 이름 (기본 `sagaLog`) */
+    model?: string;
+}
+
+/**
+ * Prisma 테이블 저널. 단계 목록은 JSON 문자열로 저장한다.
+ *
+ * ```prisma
+ * model SagaLog {
+ *   id        String   @id
+ *   status    String
+ *   steps     String
+ *   error     String?
+ *   createdAt DateTime
+ *   updatedAt DateTime
+ *
+ *   @@index([status, updatedAt])
+ * }
+ * ```
+ */
+export class PrismaSagaJournal implements SagaJournal {
+    private readonly database: string;
+    private readonly model: string;
+
+    constructor(options: PrismaSagaJournalOptions) {
+        this.database = options.database;
+        this.model = options.model ?? 'sagaLog';
+    }
+
+    private async delegate(): Promise<any> {
+        const client: any = await prismaManager.getClient(this.database);
+        const delegate = client?.[this.model];
+        if (!delegate) {
+            throw new Error(
+                `PrismaSagaJournal: model '${this.model}' not found in database '${this.database}'`,
+            );
+        }
+        return delegate;
+    }
+
+    async save(record: SagaRecord): Promise<void> {
+        const delegate = await this.delegate();
+        const data = {
+            status: record.status,
+            steps: JSON.stringify(record.steps),
+            error: record.error ?? null,
+            updatedAt: new Date(record.updatedAt),
+        };
+        await delegate.upsert({
+            where: { id: record.id },
+            create: { id: record.id, ...data, createdAt: new Date(record.createdAt) },
+            update: data,
+        });
+    }
+
+    async get(id: string): Promise<SagaRecord | null> {
+        const delegate = await this.delegate();
+        const row = await delegate.findUnique({ where: { id } });
+        return row ? this.toRecord(row) : null;
+    }
+
+    async list(filter: SagaListFilter = {}): Promise<SagaRecord[]> {
+        const delegate = await this.delegate();
+        const where: Record<string, unknown> = {};
+        if (filter.status !== undefined) {
+            where.status = {
+                in: Array.isArray(filter.status) ? filter.status : [filter.status],
+            };
+        }
+        if (filter.updatedBefore !== undefined) {
+            where.updatedAt = { lt: new Date(filter.updatedBefore) };
+        }
+        const rows = await delegate.findMany({ where, orderBy: { createdAt: 'asc' } });
+        return rows.map((row: any) => this.toRecord(row));
+    }
+
+    /** status / updatedAt 조건부 갱신으로 선점한다 — 갱신된 행이 없으면 다른 인스턴스가 가져간 것 */
+    async claim(record: SagaRecord, claimedAt: number): Promise<boolean> {
+        const delegate = await this.delegate();
+        const { count } = await delegate.updateMany({
+            where: { id: record.id, status: record.status, updatedAt: new Date(record.updatedAt) },
+            data: { updatedAt: new Date(claimedAt) },
+        });
+        return count > 0;
+    }
+
+    private toRecord(row: any): SagaRecord {
+        return {
+            id: row.id,
+            status: row.status,
+            steps: JSON.parse(row.steps),
+            ...(row.error ? { error: row.error } : {}),
+            createdAt: new Date(row.createdAt).getTime(),
+            updatedAt: new Date(row.updatedAt).getTime(),
+        };
+    }
+}
+
+/**
+ * `SAGA_JOURNAL` 형식의 설정 문자열로 저널을 만든다. 비어 있으면 undefined.
+ * - `file:<디렉터리>` → {@link FileSagaJournal}
+ * - `prisma:<데이터베이스>[:<모델>]` → {@link PrismaSagaJournal}
+ */
+export function createSagaJournal(spec: string | undefined): SagaJournal | undefined {
+    if (!spec?.trim()) return undefined;
+    const [kind, ...rest] = spec.trim().split(':');
+    const target = rest.join(':');
+
+    if (kind === 'file' && target) return new FileSagaJournal({ directory: target });
+    if (kind === 'prisma' && target) {
+        const [database, model] = target.split(':');
+        return new PrismaSagaJournal({ database, ...(model ? { model } : {}) });
+    }
+    throw new Error(
+        `Invalid saga journal '${spec}' (expected 'file:<directory>' or 'prisma:<database>[:<model>]')`,
+    );
+}
+
+// null: 명시적으로 끔, undefined: 아직 SAGA_JOURNAL 을 읽지 않음
+let defaultJournal: SagaJournal | null | undefined;
+
+/**
+ * 옵션으로 저널을 지정하지 않은 분산 트랜잭션과 시작 시 복구가 쓸 기본 저널을 교체한다.
+ * null 이면 저널을 끈다 (`SAGA_JOURNAL` 도 무시).
+ */
+export function setDefaultSagaJournal(journal: SagaJournal | null): void {
+    defaultJournal = journal;
+}
+
+/** 현재 기본 저널 (처음 호출 시 `SAGA_JOURNAL` 로 생성, 설정이 없으면 undefined) */
+export function getDefaultSagaJournal(): SagaJournal | undefined {
+    if (defaultJournal === undefined) {
+        defaultJournal = createSagaJournal(process.env.SAGA_JOURNAL) ?? null;
+    }
+    return defaultJournal ?? undefined;
+}
+
+/**
+ * 이름으로 등록하는 단계 핸들러. 둘 다 트랜잭션 클라이언트(tx)와 저널에 기록된 인자를 받는다.
+ * 복구 시 `committing` 단계(커밋 여부 불명)도 보상하므로 compensate 는 되돌릴 데이터가 없어도 성공해야 한다.
+ */
+export interface SagaStepHandlers {
+    execute?: (tx: any, args: any) => Promise<unknown>;
+    compensate?: (tx: any, args: any) => Promise<unknown>;
+}
+
+const stepHandlers = new Map<string, SagaStepHandlers>();
+
+/**
+ * 단계 핸들러를 등록한다. 같은 이름으로 다시 등록하면 덮어쓴다.
+ * 재시작 후 복구와 `kusto db sagas` 명령이 같은 핸들러를 쓰도록, 앱 부팅 시 로드되는 모듈
+ * (관례상 `src/app/sagas.ts`)에서 등록한다.
+ */
+export function registerSagaStep(name: string, handlers: SagaStepHandlers): void {
+    if (!name) throw new Error('registerSagaStep: name is required');
+    stepHandlers.set(name, handlers);
+}
+
+/** 등록된 단계 핸들러 (없으면 undefined) */
+export function getSagaStep(name: string | undefined): SagaStepHandlers | undefined {
+    return name ? stepHandlers.get(name) : undefined;
+}
+
+/** 등록된 단계 핸들러를 모두 지운다 (테스트용) */
+export function clearSagaSteps(): void {
+    stepHandlers.clear();
+}
@@ -0,0 +1,371 @@
+/**
+ * 멀티 테넌트 행 스코프
+ *
+ * 요청에서 테넌트 식별자를 해석하는 resolver 를 앱 전역에서 한 번 등록하면,
+ * CRUD 라우트(CrudRouteBuilder)와 BaseRepository 헬퍼가 테넌트 컬럼을 가진 모델의
+ * where 조건과 create 데이터에 테넌트 값을 주입한다.
+ *
+ * 요청 컨텍스트는 Core 가 등록하는 {@link TenantScope.middleware} 가 AsyncLocalStorage 로 전파하며,
+ * 요청 밖(배치/스크립트)에서는 {@link TenantScope.run} 으로 테넌트를 명시한다.
+ * BaseRepository 의 `client` 는 {@link TenantScope.scopeClient} 로 감싸져 모든 where 와 create 데이터에
+ * 테넌트가 자동으로 들어간다.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Request, Response, NextFunction } from 'express';
+import { ERROR_CODES } from '@lib/http/errors/errorCodes';
+import type { FieldTypeInfo } from '@lib/data/database/fieldTypeMap';
+
+/** 테넌트 식별자 */
+export type TenantId = string | number;
+
+/** `TenantScope.configure()` 설정 */
+export interface TenantScopeConfig {
+    /** 테넌트 컬럼명 (기본값 'tenantId') */
+    field?: string;
+
+    /**
+     * 요청에서 테넌트 식별자를 해석 (헤더, JWT 클레임, `req.kusto` 의 모듈 등).
+     * null/undefined 를 반환하면 미식별로 보고 스코프 대상 모델 접근을 401 로 거부한다.
+     * 결과는 요청마다 한 번만 계산된다.
+     */
+    resolve: (req: Request) => TenantId | null | undefined | Promise<TenantId | null | undefined>;
+
+    /** 스코프 대상 모델 목록. 생략하면 테넌트 컬럼을 가진 모든 모델 */
+    models?: string[];
+
+    /** 스코프에서 제외할 모델 (예: Tenant 자체, 테넌트 공용 코드 테이블) */
+    exclude?: string[];
+}
+
+/** 모델 하나에 대해 해석된 테넌트 스코프 */
+export interface TenantScopeCondition {
+    tenantId: TenantId;
+    /** where 에 AND 로 병합할 조건 */
+    where: Record<string, any>;
+    /** create/update 데이터에 덮어쓸 값 */
+    data: Record<string, any>;
+}
+
+/** where 에 테넌트 조건을 병합하는 delegate 메서드 */
+const WHERE_OPERATIONS = new Set([
+    'findMany',
+    'findFirst',
+    'findFirstOrThrow',
+    'findUnique',
+    'findUniqueOrThrow',
+    'count',
+    'aggregate',
+    'groupBy',
+    'update',
+    'updateMany',
+    'updateManyAndReturn',
+    'upsert',
+    'delete',
+    'deleteMany',
+]);
+
+/** 고유 조건이 where 최상위에 있어야 하는 메서드 — 테넌트 컬럼도 최상위에 더한다 */
+const UNIQUE_WHERE_OPERATIONS = new Set([
+    'findUnique',
+    'findUniqueOrThrow',
+    'update',
+    'upsert',
+    'delete',
+]);
+
+/** data 의 테넌트 컬럼을 강제하는 delegate 메서드 */
+const CREATE_OPERATIONS = new Set(['create', 'createMany', 'createManyAndReturn']);
+
+interface TenantContext {
+    req?: Request;
+    tenantId?: TenantId;
+}
+
+function tenantError(message: string): Error {
+    const error: any = new Error(message);
+    error.code = ERROR_CODES.UNAUTHORIZED;
+    error.statusCode = 401;
+    return error;
+}
+
+export class TenantScope {
+    private static config: (TenantScopeConfig & { field: string }) | null = null;
+    private static storage = new AsyncLocalStorage<TenantContext>();
+    private static resolved = new WeakMap<Request, Promise<TenantId | undefined>>();
+
+    /**
+     * 테넌트 resolver 등록 (앱 부팅 시 1회).
+     * 이후 생성되는 요청부터 CRUD 라우트와 BaseRepository 헬퍼에 스코프가 적용된다.
+     */
+    static configure(config: TenantScopeConfig): void {
+        if (typeof config?.resolve !== 'function') {
+            throw new Error('TenantScope.configure() requires a resolve(req) function');
+        }
+        this.config = { ...config, field: config.field || 'tenantId' };
+        this.resolved = new WeakMap();
+    }
+
+    /** 설정 해제 (테스트용) */
+    static reset(): void {
+        this.config = null;
+        this.resolved = new WeakMap();
+    }
+
+    static isEnabled(): boolean {
+        return this.config !== null;
+    }
+
+    /** 테넌트 컬럼명 (미설정 시 undefined) */
+    static get field(): string | undefined {
+        return this.config?.field;
+    }
+
+    /**
+     * 모델이 테넌트 스코프 대상인지 판단.
+     * `models` 를 지정하지 않았으면 필드 타입 맵에 테넌트 컬럼이 있는 모델만 대상이다.
+     */
+    static isScopedModel(
+        modelName: string,
+        fieldTypeMap?: Map<string, FieldTypeInfo> | null,
+    ): boolean {
+        const config = this.config;
+        if (!config) return false;
+        if (config.exclude?.includes(modelName)) return false;
+        if (config.models) return config.models.includes(modelName);
+        return !!fieldTypeMap?.has(config.field);
+    }
+
+    /**
+     * 요청 컨텍스트를 AsyncLocalStorage 로 전파하는 미들웨어 (Core 가 라우트보다 먼저 등록).
+     * 테넌트 해석은 실제로 필요해질 때까지 미루므로, 인증 미들웨어보다 앞에 있어도 된다.
+     */
+    static middleware = (req: Request, _res: Response, next: NextFunction): void => {
+        if (!TenantScope.config) return next();
+        TenantScope.storage.run({ req }, next);
+    };
+
+    /** 요청 밖(배치 작업, 스크립트, 테스트)에서 테넌트를 명시하여 fn 을 실행 */
+    static run<R>(tenantId: TenantId, fn: () => R): R {
+        return this.storage.run({ tenantId }, fn);
+    }
+
+    /**
+     * 현재 테넌트 식별자 해석.
+     * req 를 넘기면 해당 요청으로, 생략하면 {@link run} 또는 미들웨어가 전파한 컨텍스트로 해석한다.
+     * @returns 미설정/미식별이면 undefined
+     */
+    static async resolve(req?: Request): Promise<TenantId | undefined> {
+        const config = this.config;
+        if (!config) return undefined;
+
+        const context = this.storage.getStore();
+        if (!req && context?.tenantId !== undefined) return context.tenantId;
+
+        const target = req || context?.req;
+        if (!target) return undefined;
+
+        let pending = this.resolved.get(target);
+        if (!pending) {
+            pending = Promise.resolve(config.resolve(target)).then((id) => id ?? undefined);
+            this.resolved.set(target, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * 모델에 적용할 테넌트 조건.
+     * 스코프 대상이 아니면 undefined, 대상인데 테넌트를 식별하지 못하면 401 을 던진다.
+     */
+    static async conditionFor(
+        modelName: string,
+        fieldTypeMap?: Map<string, FieldTypeInfo> | null,
+        req?: Request,
+    ): Promise<TenantScopeCondition | undefined> {
+        if (!this.isScopedModel(modelName, fieldTypeMap)) return undefined;
+
+        const tenantId = await this.resolve(req);
+        if (tenantId === undefined) {
+            throw tenantError(`Tenant could not be resolved for ${modelName}`);
+        }
+
+        const field = this.config!.field;
+        return { tenantId, where: { [field]: tenantId }, data: { [field]: tenantId } };
+    }
+
+    /**
+     * Prisma 클라이언트를 감싸 스코프 대상 모델의 쿼리에 테넌트를 주입한다 (미설정이면 그대로 반환).
+     * - where: 조회/수정/삭제 조건에 현재 테넌트를 병합한다 (다른 테넌트 행은 없는 것처럼 동작)
+     * - create: 데이터의 테넌트 컬럼을 현재 테넌트로 덮어쓴다
+     * - update: 데이터에 테넌트 컬럼이 있으면 현재 테넌트로 덮어쓴다 (다른 테넌트로 이동 방지)
+     *
+     * delegate 이름(`post`)은 Prisma 규칙대로 모델명(`Post`)으로 바꿔 대상 여부를 판단한다.
+     * 감싼 메서드는 await 될 때 테넌트를 해석하는 지연 쿼리({@link lazyQuery})를 반환하므로 관계 체이닝
+     * (`findUnique(...).posts()`)과 이 클라이언트의 배열형 `$transaction([...])` 에 그대로 쓸 수 있고,
+     * 대화형 `$transaction(async (tx) => ...)` 의 `tx` 도 같은 스코프로 감싼다.
+     */
+    static scopeClient<C>(
+        client: C,
+        getFieldTypeMap: (modelName: string) => Map<string, FieldTypeInfo> | null,
+    ): C {
+        if (!this.config || !client) return client;
+
+        return new Proxy(client as any, {
+            get(target, prop, receiver) {
+                const value = Reflect.get(target, prop, receiver);
+                if (prop === '$transaction' && typeof value === 'function') {
+                    return scopeTransaction(target, value, getFieldTypeMap);
+                }
+                if (typeof value === 'function') return value.bind(target);
+                if (typeof prop === 'symbol' || /^[$_]/.test(prop)) return value;
+                if (typeof value !== 'object' || value === null) return value;
+
+                const modelName = prop.charAt(0).toUpperCase() + prop.slice(1);
+                const fieldTypeMap = getFieldTypeMap(modelName);
+                if (!TenantScope.isScopedModel(modelName, fieldTypeMap)) {
+                    return value;
+                }
+
+                return new Proxy(value, {
+                    get(delegate, operation, delegateReceiver) {
+                        const method = Reflect.get(delegate, operation, delegateReceiver);
+                        if (typeof method !== 'function' || typeof operation === 'symbol') {
+                            return method;
+                        }
+                        if (!WHERE_OPERATIONS.has(operation) && !CREATE_OPERATIONS.has(operation)) {
+                            return method;
+                        }
+                        return (args: any = {}) =>
+                            lazyQuery(
+                                async () => {
+                                    const tenant = (await TenantScope.conditionFor(
+                                        modelName,
+                                        fieldTypeMap,
+                                    ))!;
+                                    return {
+                                        query: method.call(
+                                            delegate,
+                                            scopeArgs(operation, args, tenant),
+                                        ),
+                                    };
+                                },
+                                modelName,
+                                getFieldTypeMap,
+                            );
+                    },
+                });
+            },
+        }) as C;
+    }
+}
+
+/** 테넌트 조건을 넣어 만든 Prisma 쿼리 (객체로 감싸 Promise 체인에서 실행되지 않게 한다) */
+interface PreparedQuery {
+    query: any;
+}
+
+const PREPARE = Symbol('tenantScope.prepare');
+
+/**
+ * 스코프 delegate 호출 결과. PrismaPromise 처럼 then 될 때까지 아무것도 실행하지 않으며,
+ * 관계 필드 호출(`.posts()`)은 준비된 쿼리의 같은 메서드로 이어 붙인다.
+ * 배열형 `$transaction` 은 {@link PREPARE} 로 실행 전 쿼리를 꺼내 넘긴다.
+ */
+function lazyQuery(
+    prepare: () => Promise<PreparedQuery>,
+    modelName: string,
+    getFieldTypeMap: (modelName: string) => Map<string, FieldTypeInfo> | null,
+): any {
+    let prepared: Promise<PreparedQuery> | undefined;
+    const once = () => (prepared ??= prepare());
+    const run = () => once().then(({ query }) => query);
+    const handle: Record<string | symbol, unknown> = {
+        [PREPARE]: once,
+        [Symbol.toStringTag]: 'PrismaPromise',
+        then: (onFulfilled?: any, onRejected?: any) => run().then(onFulfilled, onRejected),
+        catch: (onRejected?: any) => run().catch(onRejected),
+        finally: (onFinally?: any) => run().finally(onFinally),
+    };
+
+    return new Proxy(handle, {
+        get(target, prop) {
+            if (prop in target || typeof prop === 'symbol') return target[prop];
+            const relation = getFieldTypeMap(modelName)?.get(prop);
+            if (relation?.kind !== 'object') return undefined;
+            return (...args: any[]) =>
+                lazyQuery(
+                    async () => {
+                        const { query } = await once();
+                        return { query: query[prop](...args) };
+                    },
+                    relation.type,
+                    getFieldTypeMap,
+                );
+        },
+    });
+}
+
+/**
+ * `$transaction` 을 감싼다.
+ * 대화형은 콜백의 `tx` 를 스코프로 감싸고, 배열형은 지연 쿼리의 테넌트를 먼저 해석해 실제 쿼리를 넘긴다.
+ */
+function scopeTransaction(
+    client: any,
+    transaction: (...args: any[]) => any,
+    getFieldTypeMap: (modelName: string) => Map<string, FieldTypeInfo> | null,
+) {
+    return (input: any, options?: any) => {
+        if (typeof input === 'function') {
+            return transaction.call(
+                client,
+                (tx: any) => input(TenantScope.scopeClient(tx, getFieldTypeMap)),
+                options,
+            );
+        }
+        if (Array.isArray(input)) {
+            return Promise.all(
+                input.map((item): PreparedQuery | Promise<PreparedQuery> =>
+                    item?.[PREPARE] ? item[PREPARE]() : { query: item },
+                ),
+            ).then((prepared) =>
+                transaction.call(
+                    client,
+                    prepared.map(({ query }) => query),
+                    options,
+                ),
+            );
+        }
+        return transaction.call(client, input, options);
+    };
+}
+
+/** delegate 메서드 인자에 테넌트 조건을 넣는다 */
+function scopeArgs(operation: string, args: any, tenant: TenantScopeCondition): any {
+    const scoped = { ...args };
+    const forceData = (data: any): any =>
+        Array.isArray(data) ? data.map(forceData) : { ...data, ...tenant.data };
+    const overrideData = (data: any) => {
+        if (!data || typeof data !== 'object') return data;
+        const field = Object.keys(tenant.data)[0];
+        return field in data ? { ...data, ...tenant.data } : data;
+    };
+
+    if (WHERE_OPERATIONS.has(operation)) {
+        if (UNIQUE_WHERE_OPERATIONS.has(operation)) {
+            scoped.where = { ...args.where, ...tenant.where };
+        } else if (args.where && Object.keys(args.where).length > 0) {
+            scoped.where = { AND: [args.where, tenant.where] };
+        } else {
+            scoped.where = tenant.where;
+        }
+    }
+
+    if (CREATE_OPERATIONS.has(operation)) {
+        scoped.data = forceData(args.data ?? {});
+    } else if (operation === 'upsert') {
+        scoped.create = forceData(args.create ?? {});
+        scoped.update = overrideData(args.update);
+    } else if (args.data !== undefined) {
+        scoped.data = overrideData(args.data);
+    }
+    return scoped;
+}
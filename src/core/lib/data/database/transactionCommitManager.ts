@@ -1,6 +1,14 @@
 ﻿import { DatabaseClientMap, DatabaseNamesUnion } from '@lib/types/generated-db-types';
 import { PrismaManager } from '@lib/data/database/prismaManager';
 import { log } from '@ext/winston';
+import { getDefaultSagaJournal, getSagaStep } from '@lib/data/database/sagaJournal';
+import type {
+    SagaJournal,
+    SagaRecord,
+    SagaStatus,
+    SagaStepRecord,
+    SagaStepState,
+} from '@lib/data/database/sagaJournal';
 
 /**
  * 트랜잭션 참여자의 상태
@@ -22,7 +30,9 @@ export enum TransactionState {
  */
 export interface TransactionParticipant<T extends DatabaseNamesUnion = DatabaseNamesUnion> {
     database: T;
-    operation: (prisma: DatabaseClientMap[T]) => Promise<any>;
+    operation?: (prisma: DatabaseClientMap[T]) => Promise<any>; // 생략하면 step 으로 등록된 execute 핸들러
+    step?: string; // registerSagaStep 으로 등록한 단계 이름 (저널 기록·복구용)
+    args?: unknown; // 등록된 단계 핸들러에 넘길 인자 (JSON 직렬화 가능해야 함)
     state: TransactionState;
     transactionId?: string; // 실제 데이터베이스 트랜잭션 ID
     preparedAt?: Date;
@@ -30,7 +40,7 @@ export interface TransactionParticipant<T extends DatabaseNamesUnion = DatabaseN
     error?: Error;
     timeout?: number; // 개별 타임아웃 설정 가능
     requiredLocks?: string[]; // 특정 리소스에 대한 락 요구사항
-    rollbackOperation?: (prisma: DatabaseClientMap[T]) => Promise<void>; // 보상 트랜잭션
+    rollbackOperation?: (prisma: DatabaseClientMap[T]) => Promise<void>; // 보상 트랜잭션 (생략하면 step 의 compensate 핸들러)
     priority?: number; // 커밋 우선순위 (높을수록 먼저 커밋)
 }
 
@@ -43,6 +53,7 @@ export interface TransactionCommitOptions {
     enableLogging?: boolean; // 로깅 활성화 여부
     isolationLevel?: 'ReadUncommitted' | 'ReadCommitted' | 'RepeatableRead' | 'Serializable';
     enableCompensation?: boolean; // 보상 트랜잭션 활성화
+    journal?: SagaJournal | false; // Saga 저널 (기본 getDefaultSagaJournal(), false 면 기록하지 않음)
 }
 
 /**
@@ -61,6 +72,32 @@ export interface TransactionCommitResult<T = any> {
     partialSuccess?: boolean; // 부분 성공 여부
 }
 
+/**
+ * 저널 기반 Saga 복구 옵션
+ */
+export interface SagaRecoveryOptions {
+    journal?: SagaJournal; // 기본 getDefaultSagaJournal()
+    staleAfterMs?: number; // 이 시간 이상 갱신되지 않은 Saga 만 복구 (다른 인스턴스에서 진행 중인 Saga 보호, 기본 60000)
+    commitTimeout?: number; // 단계별 트랜잭션 타임아웃 (ms)
+}
+
+/**
+ * Saga 복구 결과
+ */
+export interface SagaRecoveryResult {
+    id: string;
+    action: 'retried' | 'compensated';
+    status: SagaStatus;
+    error?: string;
+}
+
+/** 실행 중인 Saga 의 저널 기록 (참여자 → 단계 기록) */
+interface SagaTrail {
+    journal: SagaJournal;
+    record: SagaRecord;
+    steps: Map<TransactionParticipant, SagaStepRecord>;
+}
+
 /**
  * 분산 트랜잭션 매니저 (Saga Pattern + Compensating Transactions)
  *  * ⚠️ PRISMA 제약사항으로 인한 한계:
@@ -79,6 +116,9 @@ export interface TransactionCommitResult<T = any> {
  * 3. Compensation Phase: 실패 시 보상 트랜잭션 실행
  *    - 이미 커밋된 데이터를 보상 로직으로 되돌림
  *
+ * 저널(sagaJournal.ts)을 설정하면 단계 상태를 커밋 전후로 기록하여, 프로세스가 중간에 죽어도
+ * {@link TransactionCommitManager.recoverSagas} 가 남은 단계를 이어서 실행하거나 보상한다.
+ *
  * 📋 ACID 속성 지원 현황:
  * ✅ Consistency: 최종 일관성(Eventual Consistency) 보장
  * ✅ Durability: 개별 DB 레벨에서 완전 보장
@@ -121,6 +161,7 @@ export class TransactionCommitManager {
         const startTime = Date.now();
         let phase1Duration = 0;
         let phase2Duration = 0;
+        let trail: SagaTrail | undefined;
 
         // 참여자 초기화
         const transactionParticipants: TransactionParticipant[] = participants.map((p) => ({
@@ -160,12 +201,17 @@ export class TransactionCommitManager {
                 };
             }
 
+            // 저널 기록 — 기록하지 못하면 아무것도 커밋하지 않고 중단한다
+            this.assertOperations(transactionParticipants);
+            trail = await this.openTrail(transactionParticipants, globalTransactionId, options);
+
             // Phase 2: Sequential Commit (순차 커밋 단계)
             const phase2Start = Date.now();
             const commitResult = await this.commitPhase(
                 transactionParticipants,
                 config,
                 globalTransactionId,
+                trail,
             );
             phase2Duration = Date.now() - phase2Start;
 
@@ -176,6 +222,7 @@ export class TransactionCommitManager {
                     transactionParticipants,
                     config,
                     globalTransactionId,
+                    trail,
                 );
 
                 if (config.enableLogging) {
@@ -203,6 +250,12 @@ export class TransactionCommitManager {
                 };
             }
 
+            await this.recordStatus(
+                trail,
+                commitResult.success ? 'committed' : 'failed',
+                commitResult.error,
+            );
+
             if (config.enableLogging) {
                 log.Debug(`Saga transaction ${globalTransactionId} completed successfully`, {
                     success: commitResult.success,
@@ -226,6 +279,11 @@ export class TransactionCommitManager {
         } catch (error) {
             // 예상치 못한 에러 발생 시 롤백
             await this.abortPhase(transactionParticipants, config, globalTransactionId);
+            await this.recordStatus(
+                trail,
+                'failed',
+                error instanceof Error ? error : new Error(String(error)),
+            );
 
             const totalDuration = Date.now() - startTime;
 
@@ -685,19 +743,22 @@ export class TransactionCommitManager {
         participants: TransactionParticipant[],
         config: TransactionCommitOptions,
         globalTxId: string,
+        trail?: SagaTrail,
     ): Promise<{ success: boolean; results: any[]; error?: Error; partialSuccess?: boolean }> {
         const results: any[] = [];
 
         try {
-            // 우선순위 순으로 정렬 (높은 우선순위부터)
-            const sortedParticipants = [...participants].sort(
-                (a, b) => (b.priority || 0) - (a.priority || 0),
-            );
+            const sortedParticipants = this.commitOrder(participants);
 
             // 순차적 커밋 실행 (Saga Pattern)
             for (const participant of sortedParticipants) {
                 try {
-                    const result = await this.commitParticipant(participant, config, globalTxId);
+                    const result = await this.commitParticipant(
+                        participant,
+                        config,
+                        globalTxId,
+                        trail,
+                    );
                     results.push(result);
                 } catch (error) {
                     // 하나라도 실패하면 즉시 중단하고 보상 실행 준비
@@ -791,6 +852,7 @@ export class TransactionCommitManager {
         participant: TransactionParticipant,
         config: TransactionCommitOptions,
         globalTxId: string,
+        trail?: SagaTrail,
     ): Promise<any> {
         try {
             participant.state = TransactionState.COMMITTING;
@@ -801,6 +863,16 @@ export class TransactionCommitManager {
                 );
             }
 
+            // 커밋 여부가 불명확해지는 구간을 먼저 기록한다 (기록하지 못하면 실행하지 않는다)
+            await this.markStep(
+                trail,
+                trail?.steps.get(participant),
+                'committing',
+                undefined,
+                true,
+            );
+            const operation = this.operationFor(participant, 'execute')!;
+
             const client = this.prismaManager.getClientSync(participant.database);
 
             // NOTE(P0-4): operation 은 Saga commit 단계에서 단 한 번만 실행한다.
@@ -808,7 +880,7 @@ export class TransactionCommitManager {
             //  비멱등 작업이 두 번 실행되던 버그를 제거했다.)
             const finalResult = await client.$transaction(
                 async (tx: any) => {
-                    return await participant.operation(tx);
+                    return await operation(tx);
                 },
                 {
                     isolationLevel: config.isolationLevel as any,
@@ -819,6 +891,7 @@ export class TransactionCommitManager {
 
             participant.state = TransactionState.COMMITTED;
             participant.committedAt = new Date();
+            await this.markStep(trail, trail?.steps.get(participant), 'committed');
             if (config.enableLogging) {
                 log.Silly(
                     `Saga ${globalTxId} participant ${participant.database} commit completed for transaction ${participant.transactionId}`,
@@ -829,6 +902,7 @@ export class TransactionCommitManager {
         } catch (error) {
             participant.state = TransactionState.FAILED;
             participant.error = error instanceof Error ? error : new Error(String(error));
+            await this.markStep(trail, trail?.steps.get(participant), 'failed', participant.error);
 
             if (config.enableLogging) {
                 log.Error(
@@ -911,6 +985,7 @@ export class TransactionCommitManager {
         participants: TransactionParticipant[],
         config: TransactionCommitOptions,
         globalTxId: string,
+        trail?: SagaTrail,
     ): Promise<any[]> {
         const compensationResults: any[] = [];
         const committedParticipants = participants.filter(
@@ -923,16 +998,19 @@ export class TransactionCommitManager {
             );
         }
 
+        await this.recordStatus(trail, 'compensating');
+
         // 역순으로 보상 실행 (LIFO 방식 - Last In, First Out)
         // 커밋된 순서의 반대로 보상하여 의존성 문제 해결
         for (const participant of committedParticipants.reverse()) {
-            if (participant.rollbackOperation) {
+            const rollbackOperation = this.operationFor(participant, 'compensate');
+            if (rollbackOperation) {
                 try {
                     const client = this.prismaManager.getClientSync(participant.database);
 
                     const compensationResult = await client.$transaction(
                         async (tx: any) => {
-                            return await participant.rollbackOperation!(tx);
+                            return await rollbackOperation(tx);
                         },
                         {
                             isolationLevel: config.isolationLevel as any,
@@ -947,6 +1025,7 @@ export class TransactionCommitManager {
                         success: true,
                         type: 'compensation',
                     });
+                    await this.markStep(trail, trail?.steps.get(participant), 'compensated');
 
                     if (config.enableLogging) {
                         log.Silly(
@@ -963,6 +1042,14 @@ export class TransactionCommitManager {
                         success: false,
                         type: 'compensation_failed',
                     });
+                    await this.markStep(
+                        trail,
+                        trail?.steps.get(participant),
+                        'committed',
+                        compensationError instanceof Error
+                            ? compensationError
+                            : new Error(String(compensationError)),
+                    );
 
                     if (config.enableLogging) {
                         log.Error(`Compensating transaction failed for ${participant.database}`, {
@@ -982,6 +1069,12 @@ export class TransactionCommitManager {
                     success: false,
                     type: 'no_compensation',
                 });
+                await this.markStep(
+                    trail,
+                    trail?.steps.get(participant),
+                    'committed',
+                    new Error('No rollback operation defined'),
+                );
 
                 if (config.enableLogging) {
                     log.Warn(`No compensating transaction defined for ${participant.database}`, {
@@ -991,6 +1084,321 @@ export class TransactionCommitManager {
             }
         }
 
+        const compensated = compensationResults.every((result) => result.success);
+        await this.recordStatus(
+            trail,
+            compensated ? 'compensated' : 'failed',
+            compensated
+                ? undefined
+                : new Error('Compensation incomplete - manual intervention required'),
+        );
+
         return compensationResults;
     }
+
+    /**
+     * 저널에 남은 미완료 Saga 복구 (앱 시작 시 호출)
+     * - `running` 이고 남은 단계가 모두 `pending` 이며 execute 핸들러가 등록돼 있으면 이어서 실행
+     * - 그 외(`committing`/`failed` 단계가 있거나 핸들러 없음)와 `compensating` 은 커밋된 단계를 역순으로 보상
+     * 실패한 Saga 는 결과에 에러로 남기고 다음 Saga 를 계속 처리한다.
+     * 여러 인스턴스가 동시에 시작해도 같은 Saga 를 두 번 실행/보상하지 않도록,
+     * 각 Saga 를 {@link SagaJournal.claim} 으로 선점하고 선점하지 못하면 건너뛴다.
+     */
+    async recoverSagas(options: SagaRecoveryOptions = {}): Promise<SagaRecoveryResult[]> {
+        const journal = options.journal ?? getDefaultSagaJournal();
+        if (!journal) return [];
+
+        const staleAfterMs = options.staleAfterMs ?? 60000;
+        const incomplete = await journal.list({
+            status: ['running', 'compensating'],
+            updatedBefore: Date.now() - staleAfterMs,
+        });
+
+        const results: SagaRecoveryResult[] = [];
+        for (const record of incomplete) {
+            const action = this.canResume(record) ? 'retried' : 'compensated';
+            try {
+                const claimedAt = Date.now();
+                if (!(await journal.claim(record, claimedAt))) {
+                    log.Debug(`Saga ${record.id} was claimed by another instance, skipping`);
+                    continue;
+                }
+                record.updatedAt = claimedAt;
+
+                const recovered =
+                    action === 'retried'
+                        ? await this.resumeSaga(journal, record, options)
+                        : await this.compensateRecord(journal, record, options);
+                results.push({
+                    id: record.id,
+                    action,
+                    status: recovered.status,
+                    ...(recovered.error ? { error: recovered.error } : {}),
+                });
+            } catch (error) {
+                results.push({
+                    id: record.id,
+                    action,
+                    status: record.status,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        if (results.length > 0) {
+            log.Warn(`Recovered ${results.length} incomplete saga(s) from journal`, { results });
+        }
+        return results;
+    }
+
+    /**
+     * `running` Saga 의 남은 단계를 등록된 execute 핸들러로 이어서 실행 (운영자 개입용)
+     * `committing` 단계도 다시 실행하므로 execute 핸들러는 멱등이어야 한다. 실패하면 보상한다.
+     */
+    async retrySaga(id: string, options: SagaRecoveryOptions = {}): Promise<SagaRecord> {
+        const { journal, record } = await this.loadSaga(id, options);
+        if (record.status !== 'running') {
+            throw new Error(`Saga ${id} is '${record.status}'; only running sagas can be retried`);
+        }
+        return this.resumeSaga(journal, record, options);
+    }
+
+    /**
+     * 커밋된(또는 커밋 여부가 불명확한) 단계를 등록된 compensate 핸들러로 역순 보상 (운영자 개입용)
+     */
+    async compensateSaga(id: string, options: SagaRecoveryOptions = {}): Promise<SagaRecord> {
+        const { journal, record } = await this.loadSaga(id, options);
+        if (record.status === 'committed' || record.status === 'compensated') {
+            throw new Error(`Saga ${id} is already '${record.status}'`);
+        }
+        return this.compensateRecord(journal, record, options);
+    }
+
+    private async loadSaga(
+        id: string,
+        options: SagaRecoveryOptions,
+    ): Promise<{ journal: SagaJournal; record: SagaRecord }> {
+        const journal = options.journal ?? getDefaultSagaJournal();
+        if (!journal) {
+            throw new Error(
+                'No saga journal configured (set SAGA_JOURNAL or setDefaultSagaJournal)',
+            );
+        }
+        const record = await journal.get(id);
+        if (!record) {
+            throw new Error(`Saga ${id} not found`);
+        }
+        return { journal, record };
+    }
+
+    /** 남은 단계를 자동으로 이어서 실행해도 안전한지 */
+    private canResume(record: SagaRecord): boolean {
+        return (
+            record.status === 'running' &&
+            record.steps.every(
+                (step) =>
+                    step.state === 'committed' ||
+                    (step.state === 'pending' && !!getSagaStep(step.name)?.execute),
+            )
+        );
+    }
+
+    private async resumeSaga(
+        journal: SagaJournal,
+        record: SagaRecord,
+        options: SagaRecoveryOptions,
+    ): Promise<SagaRecord> {
+        const remaining = record.steps.filter((step) => step.state !== 'committed');
+        const missing = remaining.filter((step) => !getSagaStep(step.name)?.execute);
+        if (missing.length > 0) {
+            throw new Error(
+                `Saga ${record.id} cannot be resumed: no registered execute handler for ${missing
+                    .map((step) => `${step.name ?? '(unnamed)'}@${step.database}`)
+                    .join(', ')}`,
+            );
+        }
+
+        const trail: SagaTrail = { journal, record, steps: new Map() };
+        for (const step of remaining) {
+            try {
+                await this.markStep(trail, step, 'committing', undefined, true);
+                await this.runStep(step, 'execute', options);
+                await this.markStep(trail, step, 'committed');
+            } catch (error) {
+                const failedError = error instanceof Error ? error : new Error(String(error));
+                await this.markStep(trail, step, 'failed', failedError);
+                record.error = failedError.message;
+                log.Error(`Saga ${record.id} resume failed at ${step.database}`, {
+                    step: step.name,
+                    error: failedError.message,
+                });
+                return this.compensateRecord(journal, record, options);
+            }
+        }
+
+        await this.recordStatus(trail, 'committed');
+        return record;
+    }
+
+    private async compensateRecord(
+        journal: SagaJournal,
+        record: SagaRecord,
+        options: SagaRecoveryOptions,
+    ): Promise<SagaRecord> {
+        const trail: SagaTrail = { journal, record, steps: new Map() };
+        await this.recordStatus(trail, 'compensating');
+
+        let complete = true;
+        for (const step of [...record.steps].reverse()) {
+            if (step.state !== 'committed' && step.state !== 'committing') continue;
+
+            try {
+                if (!getSagaStep(step.name)?.compensate) {
+                    throw new Error('No registered compensate handler');
+                }
+                await this.runStep(step, 'compensate', options);
+                await this.markStep(trail, step, 'compensated');
+            } catch (error) {
+                complete = false;
+                await this.markStep(
+                    trail,
+                    step,
+                    step.state,
+                    error instanceof Error ? error : new Error(String(error)),
+                );
+            }
+        }
+
+        await this.recordStatus(
+            trail,
+            complete ? 'compensated' : 'failed',
+            complete
+                ? undefined
+                : new Error('Compensation incomplete - manual intervention required'),
+        );
+        return record;
+    }
+
+    /** 등록된 단계 핸들러를 단계의 데이터베이스 트랜잭션 안에서 실행 */
+    private async runStep(
+        step: SagaStepRecord,
+        kind: 'execute' | 'compensate',
+        options: SagaRecoveryOptions,
+    ): Promise<unknown> {
+        const handler = getSagaStep(step.name)![kind]!;
+        const client: any = this.prismaManager.getClientSync(step.database as DatabaseNamesUnion);
+        const timeout = options.commitTimeout || 15000;
+        return client.$transaction(async (tx: any) => handler(tx, step.args), {
+            maxWait: timeout,
+            timeout,
+        });
+    }
+
+    /** 참여자의 실행/보상 함수 — 직접 지정한 함수가 없으면 step 으로 등록된 핸들러 */
+    private operationFor(
+        participant: TransactionParticipant,
+        kind: 'execute' | 'compensate',
+    ): ((tx: any) => Promise<any>) | undefined {
+        const own = kind === 'execute' ? participant.operation : participant.rollbackOperation;
+        if (own) return own as (tx: any) => Promise<any>;
+
+        const handler = getSagaStep(participant.step)?.[kind];
+        return handler ? (tx: any) => handler(tx, participant.args) : undefined;
+    }
+
+    private assertOperations(participants: TransactionParticipant[]): void {
+        for (const participant of participants) {
+            if (!this.operationFor(participant, 'execute')) {
+                throw new Error(
+                    participant.step
+                        ? `Saga step '${participant.step}' is not registered (database ${participant.database})`
+                        : `No operation defined for participant ${participant.database}`,
+                );
+            }
+        }
+    }
+
+    /** 우선순위 순 (높은 우선순위부터) — 커밋 순서이자 저널의 단계 순서 */
+    private commitOrder(participants: TransactionParticipant[]): TransactionParticipant[] {
+        return [...participants].sort((a, b) => (b.priority || 0) - (a.priority || 0));
+    }
+
+    /** 저널이 설정돼 있으면 Saga 를 `running` 으로 기록한다 (실패 시 throw) */
+    private async openTrail(
+        participants: TransactionParticipant[],
+        globalTxId: string,
+        options: TransactionCommitOptions,
+    ): Promise<SagaTrail | undefined> {
+        const journal =
+            options.journal === false ? undefined : (options.journal ?? getDefaultSagaJournal());
+        if (!journal) return undefined;
+
+        const steps = new Map<TransactionParticipant, SagaStepRecord>();
+        for (const participant of this.commitOrder(participants)) {
+            if (!participant.step) {
+                log.Warn(
+                    `Saga ${globalTxId} participant ${participant.database} has no step name; it cannot be recovered after a crash`,
+                );
+            }
+            steps.set(participant, {
+                ...(participant.step ? { name: participant.step } : {}),
+                database: participant.database,
+                state: 'pending',
+                ...(participant.args !== undefined ? { args: participant.args } : {}),
+            });
+        }
+
+        const now = Date.now();
+        const trail: SagaTrail = {
+            journal,
+            steps,
+            record: {
+                id: globalTxId,
+                status: 'running',
+                steps: [...steps.values()],
+                createdAt: now,
+                updatedAt: now,
+            },
+        };
+        await this.persist(trail, true);
+        return trail;
+    }
+
+    private async markStep(
+        trail: SagaTrail | undefined,
+        step: SagaStepRecord | undefined,
+        state: SagaStepState,
+        error?: Error,
+        required = false,
+    ): Promise<void> {
+        if (!trail || !step) return;
+        step.state = state;
+        if (error) step.error = error.message;
+        else delete step.error;
+        await this.persist(trail, required);
+    }
+
+    private async recordStatus(
+        trail: SagaTrail | undefined,
+        status: SagaStatus,
+        error?: Error,
+    ): Promise<void> {
+        if (!trail) return;
+        trail.record.status = status;
+        if (error) trail.record.error = error.message;
+        await this.persist(trail);
+    }
+
+    /** 저널 저장. required 가 아니면 실패해도 Saga 진행을 막지 않고 로그만 남긴다 */
+    private async persist(trail: SagaTrail, required = false): Promise<void> {
+        trail.record.updatedAt = Date.now();
+        try {
+            await trail.journal.save(trail.record);
+        } catch (error) {
+            if (required) throw error;
+            log.Error(`Saga ${trail.record.id} journal write failed`, {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
 }
@@ -0,0 +1,133 @@
+/**
+ * 작업 단위 (ambient transaction)
+ *
+ * {@link UnitOfWork.run} 이 연 트랜잭션은 AsyncLocalStorage 로 콜백 전체에 전파된다.
+ * 작업 단위가 열린 동안 같은 데이터베이스에 대한 BaseRepository 의 `client`, `$transaction` 과
+ * `kusto.db` 접근은 자동으로 트랜잭션 클라이언트(tx)를 쓰므로, 서비스 메서드마다 tx 를 넘길 필요가 없다.
+ * 데이터베이스별로 따로 전파되며, 다른 데이터베이스의 작업 단위를 안에서 열 수 있다 (각자 커밋).
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { log } from '@ext/winston';
+import { prismaManager } from '@lib/data/database/prismaManager';
+
+/**
+ * 이미 트랜잭션이 열려 있을 때의 동작.
+ * - `required` (기본): 바깥 트랜잭션에 합류하고, 없으면 새로 연다.
+ * - `requiresNew`: 새 트랜잭션이어야 한다. 바깥 트랜잭션이 있으면 에러 (Prisma 는 중첩 트랜잭션을 지원하지 않는다).
+ * - `mandatory`: 바깥 트랜잭션이 있어야 한다. 없으면 에러.
+ */
+export type TransactionPropagation = 'required' | 'requiresNew' | 'mandatory';
+
+export type TransactionIsolationLevel =
+    | 'ReadUncommitted'
+    | 'ReadCommitted'
+    | 'RepeatableRead'
+    | 'Serializable';
+
+export interface UnitOfWorkOptions {
+    /** 기본 `required` */
+    propagation?: TransactionPropagation;
+    /** 새 트랜잭션을 열 때만 적용된다 (합류 시 바깥 설정을 따른다) */
+    isolationLevel?: TransactionIsolationLevel;
+    maxWait?: number;
+    timeout?: number;
+    /** 트랜잭션을 시작할 클라이언트 (기본 `prismaManager.getWrap(database)`) */
+    client?: any;
+}
+
+/** 커밋 이후 실행할 콜백 */
+export type AfterCommitCallback = () => unknown;
+
+interface ActiveUnit {
+    tx: any;
+    afterCommit: AfterCommitCallback[];
+}
+
+export class UnitOfWork {
+    private static storage = new AsyncLocalStorage<ReadonlyMap<string, ActiveUnit>>();
+
+    /** 데이터베이스에 열린 작업 단위가 있는지 */
+    static isActive(database: string): boolean {
+        return this.storage.getStore()?.has(database) ?? false;
+    }
+
+    /** 열린 작업 단위의 트랜잭션 클라이언트 (없으면 undefined) */
+    static clientFor<T = any>(database: string): T | undefined {
+        return this.storage.getStore()?.get(database)?.tx;
+    }
+
+    /**
+     * 작업 단위 안에서 callback 을 실행한다.
+     * 새 트랜잭션을 열었으면 callback 이 끝날 때 커밋(에러면 롤백)하고, 커밋 후 afterCommit 콜백을 실행한다.
+     * 바깥 트랜잭션에 합류하면 커밋/롤백과 afterCommit 은 바깥 작업 단위가 처리한다.
+     */
+    static async run<R>(
+        database: string,
+        callback: (tx: any) => Promise<R>,
+        options: UnitOfWorkOptions = {},
+    ): Promise<R> {
+        const propagation = options.propagation ?? 'required';
+        const current = this.storage.getStore();
+        const active = current?.get(database);
+
+        if (active) {
+            if (propagation === 'requiresNew') {
+                throw new Error(
+                    `UnitOfWork: a transaction is already active for database '${database}' (propagation 'requiresNew')`,
+                );
+            }
+            return callback(active.tx);
+        }
+        if (propagation === 'mandatory') {
+            throw new Error(
+                `UnitOfWork: no active transaction for database '${database}' (propagation 'mandatory')`,
+            );
+        }
+
+        const client = options.client ?? prismaManager.getWrap(database);
+        const afterCommit: AfterCommitCallback[] = [];
+        const result: R = await client.$transaction(
+            (tx: any) => {
+                const units = new Map(current ?? []);
+                units.set(database, { tx, afterCommit });
+                return this.storage.run(units, () => callback(tx));
+            },
+            {
+                ...(options.isolationLevel ? { isolationLevel: options.isolationLevel } : {}),
+                ...(options.maxWait !== undefined ? { maxWait: options.maxWait } : {}),
+                ...(options.timeout !== undefined ? { timeout: options.timeout } : {}),
+            },
+        );
+
+        await this.flush(database, afterCommit);
+        return result;
+    }
+
+    /**
+     * 데이터베이스의 작업 단위가 커밋된 뒤 callback 을 실행한다 (롤백되면 버린다).
+     * 합류한 호출에서 등록해도 가장 바깥 트랜잭션의 커밋을 기다린다.
+     * 열린 작업 단위가 없으면 즉시 실행한다.
+     */
+    static async afterCommit(database: string, callback: AfterCommitCallback): Promise<void> {
+        const active = this.storage.getStore()?.get(database);
+        if (active) {
+            active.afterCommit.push(callback);
+            return;
+        }
+        await callback();
+    }
+
+    /** afterCommit 콜백을 등록 순서대로 실행. 커밋은 이미 끝났으므로 실패는 로그만 남긴다 */
+    private static async flush(database: string, callbacks: AfterCommitCallback[]): Promise<void> {
+        for (const callback of callbacks) {
+            try {
+                await callback();
+            } catch (error) {
+                log.Error('UnitOfWork afterCommit callback failed', {
+                    database,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+    }
+}
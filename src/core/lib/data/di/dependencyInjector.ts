@@ -1,4 +1,6 @@
-﻿import { log } from '@ext/winston';
+﻿import type { Request } from 'express';
+import { log } from '@ext/winston';
+import { applicationLifecycle } from '@lib/lifecycle/applicationLifecycle';
 import {
     Injectable,
     Middleware,
@@ -34,10 +36,38 @@ export function pathToCamelCaseIdentifier(filePath: string): string {
     return parts.map((p, i) => (i === 0 ? p : p.charAt(0).toUpperCase() + p.slice(1))).join('');
 }
 
+/**
+ * injectable 모듈의 생명주기.
+ *   - `singleton` (기본값): 부팅 시 1회 생성되어 모든 요청이 공유
+ *   - `transient`: 주입/조회될 때마다 새 인스턴스
+ *   - `request`: 요청마다 1회 생성되어 그 요청 안에서 공유 (`req.kusto.injectable`, 핸들러 `injected`)
+ *
+ * 모듈 클래스에 `static scope = 'request'` 로 선언한다.
+ */
+export type InjectableScope = 'singleton' | 'transient' | 'request';
+
+/**
+ * 로드된 모듈 하나의 생성 정보.
+ * `inject` 는 모듈 클래스의 `static inject = ['otherModule', ...]` 로,
+ * 선언 순서대로 생성자 인자에 해석된 인스턴스가 전달된다.
+ */
+interface ModuleDescriptor {
+    name: string;
+    target: unknown;
+    scope: InjectableScope;
+    inject: string[];
+}
+
+const INJECTABLE_SCOPES: readonly InjectableScope[] = ['singleton', 'transient', 'request'];
+
 export class DependencyInjector {
     private static instance: DependencyInjector;
     private modules: Record<string, unknown> = {};
     private middlewares: Record<string, unknown> = {};
+    private descriptors = new Map<string, ModuleDescriptor>();
+    private singletons = new Map<string, unknown>();
+    private requestInstances = new WeakMap<object, Map<string, unknown>>();
+    private requestContainers = new WeakMap<object, Injectable>();
     private initialized = false;
 
     private constructor() {}
@@ -71,6 +101,10 @@ export class DependencyInjector {
 
     /**
      * Load all modules from the module registry
+     *
+     * 모든 모듈을 먼저 import 해 생성 정보를 모은 뒤, 의존성 그래프를 검증(순환/미등록/스코프)하고
+     * 싱글턴을 의존성 순서대로 생성한다. 레지스트리 순서와 무관하게 동작한다.
+     * 생성자가 던진 에러는 모듈 import 실패처럼 기록만 하고 부팅을 계속한다 (해당 모듈은 조회 시 다시 생성을 시도한다).
      */
     private async loadModules(): Promise<void> {
         const moduleNames = Object.keys(MODULE_REGISTRY) as ModuleName[];
@@ -90,24 +124,172 @@ export class DependencyInjector {
 
                 // Handle different export patterns
                 const ModuleClass = this.resolveModuleClass(moduleExports, moduleName);
-                if (typeof ModuleClass === 'function') {
-                    // Constructor function or class
-                    this.modules[moduleName] = new ModuleClass();
-                } else if (typeof ModuleClass === 'object' && ModuleClass !== null) {
-                    // Already instantiated object or module
-                    this.modules[moduleName] = ModuleClass;
-                } else {
+                if (typeof ModuleClass !== 'function' && typeof ModuleClass !== 'object') {
                     log.Warn(
                         `Module ${moduleName} resolved to unexpected type: ${typeof ModuleClass}`,
                     );
-                    this.modules[moduleName] = ModuleClass;
                 }
+                this.descriptors.set(moduleName, this.describeModule(moduleName, ModuleClass));
 
                 log.Silly(`Loaded injectable module: ${moduleName}`);
             } catch (error) {
                 log.Error(`Failed to load injectable module ${moduleName}:`, error);
             }
         }
+
+        this.assertAcyclic();
+        this.assertSingletonScopes();
+
+        for (const descriptor of this.descriptors.values()) {
+            this.defineModule(descriptor);
+        }
+        // 싱글턴은 부팅 시 생성 — 생성자 에러를 첫 요청 전에 로그로 드러낸다
+        for (const descriptor of this.descriptors.values()) {
+            if (descriptor.scope !== 'singleton') continue;
+            try {
+                this.resolve(descriptor.name, undefined, []);
+            } catch (error) {
+                log.Error(`Failed to instantiate injectable module ${descriptor.name}:`, error);
+            }
+        }
+    }
+
+    /**
+     * 모듈 export 에서 생성 정보를 만든다.
+     * 클래스(생성자)는 `static scope` / `static inject` 를 읽고, 이미 만들어진 객체는 싱글턴 값으로 쓴다.
+     */
+    private describeModule(name: string, target: any): ModuleDescriptor {
+        if (typeof target !== 'function') {
+            return { name, target, scope: 'singleton', inject: [] };
+        }
+
+        const scope: InjectableScope = target.scope ?? 'singleton';
+        if (!INJECTABLE_SCOPES.includes(scope)) {
+            throw new Error(
+                `Module ${name} declares unknown scope '${String(scope)}' (expected ${INJECTABLE_SCOPES.join(' | ')})`,
+            );
+        }
+        const inject = target.inject ?? [];
+        if (!Array.isArray(inject) || inject.some((dep) => typeof dep !== 'string')) {
+            throw new Error(
+                `Module ${name} must declare 'static inject' as an array of module names`,
+            );
+        }
+        return { name, target, scope, inject: [...inject] };
+    }
+
+    /**
+     * 의존성 그래프 검증 — 미등록 의존성과 순환을 경로와 함께 보고한다.
+     */
+    private assertAcyclic(): void {
+        const done = new Set<string>();
+        const visit = (name: string, path: string[]) => {
+            if (path.includes(name)) {
+                const cycle = [...path.slice(path.indexOf(name)), name];
+                throw new Error(`Circular injectable dependency: ${cycle.join(' → ')}`);
+            }
+            if (done.has(name)) return;
+
+            const descriptor = this.descriptors.get(name);
+            if (!descriptor) {
+                throw new Error(
+                    `Unknown injectable dependency '${name}' (${[...path, name].join(' → ')})`,
+                );
+            }
+            for (const dep of descriptor.inject) visit(dep, [...path, name]);
+            done.add(name);
+        };
+
+        for (const name of this.descriptors.keys()) visit(name, []);
+    }
+
+    /**
+     * 싱글턴이 (transient 를 거쳐서라도) request 스코프 모듈에 의존하면 부팅 시 실패시킨다.
+     * 싱글턴은 요청 밖에서 생성되므로 요청 스코프 인스턴스를 받을 수 없다.
+     */
+    private assertSingletonScopes(): void {
+        const visit = (name: string, path: string[]) => {
+            const descriptor = this.descriptors.get(name)!;
+            for (const dep of descriptor.inject) {
+                const depScope = this.descriptors.get(dep)!.scope;
+                if (depScope === 'request') {
+                    throw new Error(
+                        `Singleton '${path[0]}' cannot depend on request-scoped injectable '${dep}' (${[...path, dep].join(' → ')})`,
+                    );
+                }
+                if (depScope === 'transient') visit(dep, [...path, dep]);
+            }
+        };
+
+        for (const descriptor of this.descriptors.values()) {
+            if (descriptor.scope === 'singleton') visit(descriptor.name, [descriptor.name]);
+        }
+    }
+
+    /**
+     * 루트 컨테이너(`getInjectedModules()`)에 모듈을 노출한다.
+     * 싱글턴은 값으로, transient 는 조회마다 생성하는 getter 로, request 스코프는 요청 밖 접근을 막는 getter 로.
+     */
+    private defineModule(descriptor: ModuleDescriptor): void {
+        Object.defineProperty(this.modules, descriptor.name, {
+            configurable: true,
+            enumerable: true,
+            get: () => this.resolve(descriptor.name, undefined, []),
+        });
+    }
+
+    /**
+     * 모듈 인스턴스를 스코프에 맞게 해석한다.
+     * @param req request 스코프 인스턴스를 캐시할 요청 (요청 밖이면 undefined)
+     * @param path 현재 해석 중인 의존성 경로 (에러 메시지용)
+     */
+    private resolve(name: string, req: Request | undefined, path: string[]): unknown {
+        const descriptor = this.descriptors.get(name);
+        if (!descriptor) {
+            throw new Error(
+                `Unknown injectable dependency '${name}' (${[...path, name].join(' → ')})`,
+            );
+        }
+
+        switch (descriptor.scope) {
+            case 'singleton': {
+                if (!this.singletons.has(name)) {
+                    // 싱글턴의 의존성은 요청과 무관하게 해석해야 한다 (요청 스코프 포획 방지)
+                    const instance = this.instantiate(descriptor, undefined, path);
+                    this.singletons.set(name, instance);
+                    // 의존성이 먼저 생성되므로 생명주기 등록 순서도 의존성 순서가 된다
+                    applicationLifecycle.register(`module:${name}`, instance);
+                }
+                return this.singletons.get(name);
+            }
+            case 'transient':
+                return this.instantiate(descriptor, req, path);
+            case 'request': {
+                if (!req) {
+                    throw new Error(
+                        `Injectable '${name}' is request-scoped and cannot be resolved outside a request (${[...path, name].join(' → ')})`,
+                    );
+                }
+                let instances = this.requestInstances.get(req);
+                if (!instances) {
+                    instances = new Map();
+                    this.requestInstances.set(req, instances);
+                }
+                if (!instances.has(name)) {
+                    instances.set(name, this.instantiate(descriptor, req, path));
+                }
+                return instances.get(name);
+            }
+        }
+    }
+
+    private instantiate(descriptor: ModuleDescriptor, req: Request | undefined, path: string[]) {
+        const { name, target, inject } = descriptor;
+        if (typeof target !== 'function') return target;
+
+        const deps = inject.map((dep) => this.resolve(dep, req, [...path, name]));
+        const ModuleClass = target as new (...args: unknown[]) => unknown;
+        return new ModuleClass(...deps);
     }
 
     /**
@@ -162,13 +344,43 @@ export class DependencyInjector {
 
     /**
      * Get all injected modules
+     *
+     * req 를 넘기면 request 스코프 모듈까지 해석하는 요청 컨테이너를 반환한다 (요청마다 동일 객체).
      */
-    public getInjectedModules(): Injectable {
+    public getInjectedModules(req?: Request): Injectable {
         if (!this.initialized) {
             throw new Error('Dependency injector not initialized. Call initialize() first.');
         }
+        if (!req || !this.hasScopedModules()) {
+            return this.modules as Injectable;
+        }
+
+        let container = this.requestContainers.get(req);
+        if (!container) {
+            container = this.createRequestContainer(req);
+            this.requestContainers.set(req, container);
+        }
+        return container;
+    }
 
-        return this.modules as Injectable;
+    /** transient / request 스코프 모듈이 하나라도 있는지 (없으면 요청 컨테이너가 필요 없다) */
+    public hasScopedModules(): boolean {
+        for (const descriptor of this.descriptors.values()) {
+            if (descriptor.scope !== 'singleton') return true;
+        }
+        return false;
+    }
+
+    private createRequestContainer(req: Request): Injectable {
+        const container: Record<string, unknown> = {};
+        for (const name of Object.keys(this.modules)) {
+            Object.defineProperty(container, name, {
+                enumerable: true,
+                get: () =>
+                    this.descriptors.has(name) ? this.resolve(name, req, []) : this.modules[name],
+            });
+        }
+        return container as Injectable;
     }
 
     /**
@@ -201,7 +413,15 @@ export class DependencyInjector {
      * Register a module manually
      */
     public registerModule<T extends ModuleName>(name: T, module: Injectable[T]): void {
-        this.modules[name] = module;
+        this.descriptors.delete(name);
+        this.singletons.delete(name);
+        applicationLifecycle.register(`module:${name}`, module);
+        Object.defineProperty(this.modules, name, {
+            configurable: true,
+            enumerable: true,
+            writable: true,
+            value: module,
+        });
         log.Silly(`Manually registered module: ${name}`);
     }
 
@@ -219,6 +439,11 @@ export class DependencyInjector {
     public clear(): void {
         this.modules = {};
         this.middlewares = {};
+        this.descriptors.clear();
+        this.singletons.clear();
+        this.requestInstances = new WeakMap();
+        this.requestContainers = new WeakMap();
+        applicationLifecycle.unregisterByPrefix('module:');
         this.initialized = false;
     }
 
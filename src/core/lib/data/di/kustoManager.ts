@@ -1,9 +1,14 @@
+import type { Request } from 'express';
 import { DependencyInjector } from '@lib/data/di/dependencyInjector';
 import { repositoryManager } from '@lib/data/database/repositoryManager';
 import { prismaManager } from '@lib/data/database/prismaManager';
+import { UnitOfWork } from '@lib/data/database/unitOfWork';
+import type { ReplicaHealth, ReplicaStatus } from '@lib/data/database/readReplicas';
+import type { PoolStats } from '@lib/data/database/connectionPool';
 import { Injectable } from '@lib/types/generated-injectable-types';
 import { RepositoryTypeMap, RepositoryName } from '@lib/types/generated-repository-types';
 import { DatabaseNamesUnion, DatabaseClientType } from '@lib/types/generated-db-types';
+import type { KustoUser } from '@lib/http/auth/authStrategies';
 
 /**
  * 데이터베이스 접근을 위한 프록시 인터페이스
@@ -30,7 +35,13 @@ export interface KustoDbProxy {
         initialized: boolean;
         connectedDatabases: number;
         totalDatabases: number;
-        databases: { name: string; connected: boolean; generated: boolean }[];
+        databases: {
+            name: string;
+            connected: boolean;
+            generated: boolean;
+            pool?: PoolStats;
+            replicas?: (ReplicaStatus & { pool?: PoolStats })[];
+        }[];
     };
 
     /** 데이터베이스 헬스체크 */
@@ -41,6 +52,7 @@ export interface KustoDbProxy {
             status: 'healthy' | 'unhealthy' | 'not-connected';
             responseTime?: number;
             error?: string;
+            replicas?: ReplicaHealth[];
         }>;
     }>;
 
@@ -57,6 +69,8 @@ export class KustoManager {
     private dependencyInjector: DependencyInjector;
     private _repoProxy: RepositoryTypeMap | null = null;
     private _dbProxy: KustoDbProxy | null = null;
+    private requestViews = new WeakMap<Request, KustoManager>();
+    private users = new WeakMap<Request, KustoUser>();
 
     private constructor() {
         this.dependencyInjector = DependencyInjector.getInstance();
@@ -76,6 +90,45 @@ export class KustoManager {
         return this.dependencyInjector.getInjectedModules();
     }
 
+    /**
+     * 인증된 사용자 (`Auth` 미들웨어가 설정). 요청 단위 뷰에서만 값이 있다.
+     */
+    public get user(): KustoUser | undefined {
+        return undefined;
+    }
+
+    /** 요청의 인증 사용자 설정 (Auth 전용) */
+    public setUser(req: Request, user: KustoUser): void {
+        this.users.set(req, user);
+    }
+
+    /** 요청의 인증 사용자 */
+    public getUser(req: Request): KustoUser | undefined {
+        return this.users.get(req);
+    }
+
+    /**
+     * 요청 단위 뷰 — `injectable` 이 request 스코프 모듈까지 해석하는 요청 컨테이너를,
+     * `user` 가 요청의 인증 사용자를 반환한다.
+     * 나머지 접근자(repo, db 등)는 싱글턴과 공유하며, 같은 요청에는 같은 뷰를 돌려준다.
+     */
+    public forRequest(req: Request): KustoManager {
+        const scoped = this.dependencyInjector.hasScopedModules();
+        if (!scoped && !this.users.has(req)) return this;
+
+        let view = this.requestViews.get(req);
+        if (!view) {
+            const injector = this.dependencyInjector;
+            const users = this.users;
+            view = Object.create(this, {
+                user: { get: () => users.get(req) },
+                ...(scoped ? { injectable: { get: () => injector.getInjectedModules(req) } } : {}),
+            }) as KustoManager;
+            this.requestViews.set(req, view);
+        }
+        return view;
+    }
+
     /**
      * 레포지토리들에 접근
      * 동적으로 모든 등록된 레포지토리에 접근할 수 있는 프록시 객체를 반환
@@ -131,6 +184,7 @@ export class KustoManager {
     /**
      * 데이터베이스 클라이언트 접근 인터페이스
      * 사용법: kusto.db.getClient('admin') 또는 kusto.db.user (동적 접근)
+     * 해당 데이터베이스의 작업 단위(UnitOfWork)가 열려 있으면 모든 접근이 트랜잭션 클라이언트를 반환한다.
      */
     public get db(): KustoDbProxy {
         if (this._dbProxy) return this._dbProxy;
@@ -139,14 +193,15 @@ export class KustoManager {
         const dbProxy = new Proxy(
             {
                 getClient: async (name: string) => {
-                    return await prismaManager.getClient(name);
+                    return UnitOfWork.clientFor(name) ?? (await prismaManager.getClient(name));
                 },
 
                 getClientSync: (name: string) => {
-                    return prismaManager.getClientSync(name);
+                    return UnitOfWork.clientFor(name) ?? prismaManager.getClientSync(name);
                 },
 
-                getWrap: (name: string) => prismaManager.getWrap(name),
+                getWrap: (name: string) =>
+                    UnitOfWork.clientFor(name) ?? prismaManager.getWrap(name),
 
                 // available은 getter로 동적 반환
                 get available() {
@@ -166,7 +221,7 @@ export class KustoManager {
 
                     // 데이터베이스 이름으로 직접 접근 — live 상태 확인
                     if (typeof prop === 'string' && prismaManager.isConnected(prop)) {
-                        return prismaManager.getClientSync(prop);
+                        return UnitOfWork.clientFor(prop) ?? prismaManager.getClientSync(prop);
                     }
 
                     return undefined;
@@ -197,7 +252,7 @@ export class KustoManager {
      */
     public async getDbClient(name: string) {
         // prismaManager의 getClient 메서드가 자동으로 hint 추적을 수행함
-        return await prismaManager.getClient(name);
+        return UnitOfWork.clientFor(name) ?? (await prismaManager.getClient(name));
     }
 
     /**
@@ -205,7 +260,7 @@ export class KustoManager {
      */
     public getDbClientSync(name: string) {
         // prismaManager의 getClientSync 메서드가 자동으로 hint 추적을 수행함
-        return prismaManager.getClientSync(name);
+        return UnitOfWork.clientFor(name) ?? prismaManager.getClientSync(name);
     }
 }
 
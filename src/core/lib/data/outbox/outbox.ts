@@ -0,0 +1,276 @@
+/**
+ * 트랜잭셔널 아웃박스 (Transactional Outbox)
+ *
+ * 도메인 이벤트(`order.created` 등)를 데이터 변경과 같은 트랜잭션 안에서 outbox 테이블에 기록하고,
+ * 커밋된 뒤 백그라운드 디스패처({@link OutboxDispatcher})가 구독자나 전송 계층(transport)으로 배달한다.
+ * 롤백된 쓰기의 이벤트는 행이 남지 않으므로 배달되지 않고, 커밋된 이벤트는 프로세스가 죽어도 행이 남아
+ * 다음 폴링에서 배달된다 (최소 한 번 배달 — 구독자는 메시지 id 로 중복을 걸러야 한다).
+ *
+ * ```prisma
+ * model OutboxEvent {
+ *   id          String    @id
+ *   event       String
+ *   payload     String
+ *   status      String    @default("pending")
+ *   attempts    Int       @default(0)
+ *   availableAt DateTime  @default(now())
+ *   lastError   String?
+ *   createdAt   DateTime  @default(now())
+ *   deliveredAt DateTime?
+ *
+ *   @@index([status, availableAt])
+ * }
+ * ```
+ */
+import { randomUUID } from 'crypto';
+import { log } from '@ext/winston';
+import { prismaManager } from '@lib/data/database/prismaManager';
+import { UnitOfWork } from '@lib/data/database/unitOfWork';
+import { serialize } from '@lib/http/serialization/serializer';
+import { applicationLifecycle } from '@lib/lifecycle/applicationLifecycle';
+import { OutboxDispatcher } from '@lib/data/outbox/outboxDispatcher';
+
+/** 배달되는 이벤트 */
+export interface OutboxMessage<P = any> {
+    /** 메시지 id (emit 이 반환한 값) — 구독자의 중복 제거 키 */
+    id: string;
+    event: string;
+    payload: P;
+    /** 이번 배달 시도 번호 (1부터) */
+    attempt: number;
+    createdAt: Date;
+    /** outbox 테이블이 있는 데이터베이스 */
+    database: string;
+}
+
+/** 이벤트 전송 계층. 예외를 던지면 재시도(백오프)하고, maxAttempts 를 넘으면 dead 로 남긴다 */
+export interface OutboxTransport {
+    deliver(message: OutboxMessage): Promise<void>;
+}
+
+/** 프로세스 내 구독자 */
+export type OutboxSubscriber<P = any> = (message: OutboxMessage<P>) => unknown;
+
+export interface OutboxConfig {
+    /** 디스패처를 돌릴 데이터베이스 목록 (outbox 테이블이 있는 DB) */
+    databases: string[];
+    /** Prisma 클라이언트의 모델 delegate 이름 (기본 `outboxEvent`) */
+    model?: string;
+    /** Postgres `FOR UPDATE SKIP LOCKED` 조회에 쓰는 테이블 이름 (기본 `OutboxEvent`) */
+    table?: string;
+    /** 전송 계층. 기본은 {@link Outbox.subscribe} 로 등록한 프로세스 내 구독자 */
+    transport?: OutboxTransport;
+    /** 폴링 간격 (기본 1000ms). 같은 프로세스의 커밋은 폴링을 기다리지 않고 바로 깨운다 */
+    pollIntervalMs?: number;
+    /** 한 번에 가져올 이벤트 수 (기본 50) */
+    batchSize?: number;
+    /** 이 횟수만큼 실패하면 dead 로 남긴다 (기본 10) */
+    maxAttempts?: number;
+    /** 실패 후 다음 시도까지 대기(ms). 기본 min(1초 × 2^(attempt-1), 5분) */
+    backoff?: (attempt: number) => number;
+    /** 가져간 이벤트를 다른 디스패처가 다시 가져가지 못하는 시간 (기본 30000ms) */
+    leaseMs?: number;
+    /** 배달된 행을 지운다 (기본 false: status 를 delivered 로 남긴다) */
+    deleteDelivered?: boolean;
+    /** 이벤트가 dead 로 바뀔 때 호출 (알림 등) */
+    onDeadLetter?: (message: OutboxMessage, error: unknown) => unknown;
+    /** 앱 시작/종료에 맞춰 디스패처를 자동으로 시작/정지 (기본 true) */
+    autoStart?: boolean;
+}
+
+export interface OutboxEmitOptions {
+    /** 이 시간(ms) 뒤부터 배달 */
+    delayMs?: number;
+    /** 기록에 쓸 클라이언트 (기본: 열린 작업 단위의 tx, 없으면 `prismaManager.getWrap(database)`) */
+    client?: any;
+}
+
+export type ResolvedOutboxConfig = Required<
+    Omit<OutboxConfig, 'transport' | 'onDeadLetter' | 'backoff'>
+> &
+    Pick<OutboxConfig, 'onDeadLetter'> & {
+        transport: OutboxTransport;
+        backoff: (attempt: number) => number;
+    };
+
+const DEFAULT_MODEL = 'outboxEvent';
+const LIFECYCLE_NAME = 'outbox';
+
+function defaultBackoff(attempt: number): number {
+    return Math.min(1000 * 2 ** (attempt - 1), 300_000);
+}
+
+/** `order.*` 처럼 끝이 `.*` 인 패턴과 `*` 를 지원한다 */
+function matchesPattern(pattern: string, event: string): boolean {
+    if (pattern === '*' || pattern === event) return true;
+    return pattern.endsWith('.*') && event.startsWith(pattern.slice(0, -1));
+}
+
+export class Outbox {
+    private static config: ResolvedOutboxConfig | null = null;
+    private static subscribers: { pattern: string; handler: OutboxSubscriber }[] = [];
+    private static dispatchers = new Map<string, OutboxDispatcher>();
+
+    /** 프로세스 내 구독자에게 배달하는 기본 전송 계층. 구독자가 하나라도 실패하면 재시도한다 */
+    static readonly localTransport: OutboxTransport = {
+        deliver: async (message) => {
+            for (const { pattern, handler } of Outbox.subscribers) {
+                if (matchesPattern(pattern, message.event)) await handler(message);
+            }
+        },
+    };
+
+    /**
+     * 앱 부팅 시 1회 호출. autoStart 면 서버가 listen 을 시작할 때 디스패처를 시작하고
+     * 종료 시작 시(onBeforeShutdown) 정지한다.
+     */
+    static configure(config: OutboxConfig): void {
+        if (!Array.isArray(config.databases) || config.databases.length === 0) {
+            throw new Error('Outbox.configure: databases must list at least one database');
+        }
+        const table = config.table ?? 'OutboxEvent';
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+            throw new Error(`Outbox.configure: invalid table name '${table}'`);
+        }
+        for (const [key, value] of [
+            ['pollIntervalMs', config.pollIntervalMs],
+            ['batchSize', config.batchSize],
+            ['maxAttempts', config.maxAttempts],
+            ['leaseMs', config.leaseMs],
+        ] as const) {
+            if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+                throw new Error(`Outbox.configure: ${key} must be a positive number`);
+            }
+        }
+
+        this.config = {
+            databases: [...config.databases],
+            model: config.model ?? DEFAULT_MODEL,
+            table,
+            transport: config.transport ?? this.localTransport,
+            pollIntervalMs: config.pollIntervalMs ?? 1000,
+            batchSize: config.batchSize ?? 50,
+            maxAttempts: config.maxAttempts ?? 10,
+            backoff: config.backoff ?? defaultBackoff,
+            leaseMs: config.leaseMs ?? 30_000,
+            deleteDelivered: config.deleteDelivered ?? false,
+            onDeadLetter: config.onDeadLetter,
+            autoStart: config.autoStart ?? true,
+        };
+
+        if (this.config.autoStart) {
+            applicationLifecycle.register(LIFECYCLE_NAME, {
+                onApplicationReady: () => Outbox.start(),
+                onBeforeShutdown: () => Outbox.stop(),
+            });
+        } else {
+            applicationLifecycle.unregister(LIFECYCLE_NAME);
+        }
+    }
+
+    /** 설정·구독자를 지우고 디스패처를 정지한다 (테스트용) */
+    static async reset(): Promise<void> {
+        await this.stop();
+        this.config = null;
+        this.subscribers = [];
+        applicationLifecycle.unregister(LIFECYCLE_NAME);
+    }
+
+    static isEnabled(): boolean {
+        return this.config !== null;
+    }
+
+    /**
+     * 프로세스 내 구독자를 등록한다 (기본 전송 계층용). `*` 나 `order.*` 패턴을 쓸 수 있다.
+     * 실패하면 같은 메시지가 다시 배달되므로 핸들러는 멱등이어야 한다.
+     * @returns 구독 해제 함수
+     */
+    static subscribe<P = any>(pattern: string, handler: OutboxSubscriber<P>): () => void {
+        const entry = { pattern, handler };
+        this.subscribers.push(entry);
+        return () => {
+            this.subscribers = this.subscribers.filter((candidate) => candidate !== entry);
+        };
+    }
+
+    /**
+     * 이벤트를 outbox 테이블에 기록한다. 열린 작업 단위(`$transaction` / `UnitOfWork.run`)가 있으면
+     * 그 트랜잭션 안에서 기록되어 함께 커밋/롤백되고, 커밋 뒤 디스패처를 깨운다.
+     * payload 는 응답과 같은 규칙으로 serialize(BigInt → 문자열, Date → ISO 문자열)한 뒤 JSON 으로 저장된다.
+     * @returns 메시지 id
+     */
+    static async emit(
+        database: string,
+        event: string,
+        payload: unknown,
+        options: OutboxEmitOptions = {},
+    ): Promise<string> {
+        if (!event) throw new Error('Outbox.emit: event name is required');
+
+        const client =
+            options.client ?? UnitOfWork.clientFor(database) ?? prismaManager.getWrap(database);
+        const model = this.config?.model ?? DEFAULT_MODEL;
+        const delegate = client?.[model];
+        if (!delegate) {
+            throw new Error(`Outbox: model '${model}' not found in database '${database}'`);
+        }
+
+        const id = randomUUID();
+        const now = Date.now();
+        await delegate.create({
+            data: {
+                id,
+                event,
+                payload: JSON.stringify(serialize(payload ?? null)),
+                status: 'pending',
+                attempts: 0,
+                availableAt: new Date(now + (options.delayMs ?? 0)),
+                createdAt: new Date(now),
+            },
+        });
+
+        await UnitOfWork.afterCommit(database, () => this.notify(database));
+        return id;
+    }
+
+    /** 설정된 데이터베이스마다 디스패처를 시작한다 (autoStart 면 Core 가 호출) */
+    static start(): void {
+        const config = this.requireConfig();
+        for (const database of config.databases) {
+            if (this.dispatchers.has(database)) continue;
+            const dispatcher = new OutboxDispatcher(database, config);
+            this.dispatchers.set(database, dispatcher);
+            dispatcher.start();
+        }
+        log.Info('Outbox dispatcher started', { databases: config.databases });
+    }
+
+    /** 디스패처를 정지하고 진행 중인 배치가 끝나기를 기다린다 */
+    static async stop(): Promise<void> {
+        const running = [...this.dispatchers.values()];
+        this.dispatchers.clear();
+        await Promise.all(running.map((dispatcher) => dispatcher.stop()));
+    }
+
+    /**
+     * 배달 가능한 이벤트를 한 배치 배달한다 (디스패처가 돌지 않아도 호출 가능 — 테스트/수동 처리용).
+     * @returns 가져온 이벤트 수
+     */
+    static async dispatch(database: string): Promise<number> {
+        const dispatcher =
+            this.dispatchers.get(database) ?? new OutboxDispatcher(database, this.requireConfig());
+        return dispatcher.runOnce();
+    }
+
+    /** 실행 중인 디스패처를 폴링 간격을 기다리지 않고 깨운다 */
+    static notify(database: string): void {
+        this.dispatchers.get(database)?.wake();
+    }
+
+    private static requireConfig(): ResolvedOutboxConfig {
+        if (!this.config) {
+            throw new Error('Outbox is not configured (call Outbox.configure() at startup)');
+        }
+        return this.config;
+    }
+}
@@ -0,0 +1,240 @@
+/**
+ * 아웃박스 디스패처 — 데이터베이스 하나의 outbox 테이블을 폴링해 이벤트를 배달한다.
+ *
+ * 가져가기(claim)는 `availableAt` 을 lease 만큼 미루는 방식이라, 배달 도중 프로세스가 죽어도
+ * lease 가 끝나면 다른 디스패처가 다시 가져간다.
+ * - PostgreSQL: `SELECT ... FOR UPDATE SKIP LOCKED` 로 여러 인스턴스가 서로 다른 행을 가져간다.
+ * - 그 외(SQLite 등): 조회 후 `availableAt` 이 그대로인 행만 갱신하는 조건부 updateMany 로 가져간다.
+ */
+import { log } from '@ext/winston';
+import { prismaManager } from '@lib/data/database/prismaManager';
+import { usePrimary } from '@lib/data/database/readReplicas';
+import type { OutboxMessage, ResolvedOutboxConfig } from '@lib/data/outbox/outbox';
+
+interface OutboxRow {
+    id: string;
+    event: string;
+    payload: string;
+    attempts: number;
+    availableAt: Date;
+    createdAt: Date;
+}
+
+export class OutboxDispatcher {
+    private running = false;
+    private timer: NodeJS.Timeout | undefined;
+    private current: Promise<void> | undefined;
+    private wakeRequested = false;
+
+    constructor(
+        private readonly database: string,
+        private readonly config: ResolvedOutboxConfig,
+    ) {}
+
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        this.schedule(0);
+    }
+
+    /** 폴링을 멈추고 진행 중인 배치가 끝나기를 기다린다 */
+    async stop(): Promise<void> {
+        this.running = false;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = undefined;
+        await this.current;
+    }
+
+    /** 다음 폴링을 기다리지 않고 바로 배치를 돌린다 (배치 중이면 끝난 뒤 한 번 더) */
+    wake(): void {
+        if (!this.running) return;
+        if (this.current) {
+            this.wakeRequested = true;
+            return;
+        }
+        this.schedule(0);
+    }
+
+    /**
+     * 배달 가능한 이벤트를 한 배치 가져와 배달한다.
+     * @returns 가져온 이벤트 수
+     */
+    async runOnce(): Promise<number> {
+        // 복제 지연으로 이미 배달한 행을 다시 읽지 않도록 primary 에서만 읽는다
+        return usePrimary(() => this.claimAndDeliver());
+    }
+
+    private async claimAndDeliver(): Promise<number> {
+        const client = prismaManager.getWrap(this.database);
+        const rows =
+            prismaManager.getProviderForDatabase(this.database) === 'postgresql'
+                ? await this.claimSkipLocked(client)
+                : await this.claimByPolling(client);
+
+        for (const row of rows) {
+            await this.deliver(client, row);
+        }
+        return rows.length;
+    }
+
+    private schedule(delayMs: number): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.current = this.drain().finally(() => {
+                this.current = undefined;
+                if (!this.running) return;
+                const again = this.wakeRequested;
+                this.wakeRequested = false;
+                this.schedule(again ? 0 : this.config.pollIntervalMs);
+            });
+        }, delayMs);
+        this.timer.unref?.();
+    }
+
+    /** 배치가 가득 차 있으면 쌓인 이벤트가 없을 때까지 이어서 돌린다 */
+    private async drain(): Promise<void> {
+        try {
+            while (this.running && (await this.runOnce()) === this.config.batchSize) {
+                // 계속
+            }
+        } catch (error) {
+            log.Error('Outbox dispatch failed', {
+                database: this.database,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    private delegate(client: any): any {
+        const delegate = client?.[this.config.model];
+        if (!delegate) {
+            throw new Error(
+                `Outbox: model '${this.config.model}' not found in database '${this.database}'`,
+            );
+        }
+        return delegate;
+    }
+
+    private async claimSkipLocked(client: any): Promise<OutboxRow[]> {
+        const now = new Date();
+        const lease = new Date(now.getTime() + this.config.leaseMs);
+        return client.$transaction(async (tx: any) => {
+            const rows: OutboxRow[] = await tx.$queryRawUnsafe(
+                `SELECT "id", "event", "payload", "attempts", "availableAt", "createdAt" FROM "${this.config.table}" ` +
+                    `WHERE "status" = 'pending' AND "availableAt" <= $1 ORDER BY "createdAt" LIMIT $2 FOR UPDATE SKIP LOCKED`,
+                now,
+                this.config.batchSize,
+            );
+            if (rows.length > 0) {
+                await this.delegate(tx).updateMany({
+                    where: { id: { in: rows.map((row) => row.id) } },
+                    data: { availableAt: lease },
+                });
+            }
+            return rows;
+        });
+    }
+
+    private async claimByPolling(client: any): Promise<OutboxRow[]> {
+        const delegate = this.delegate(client);
+        const now = new Date();
+        const lease = new Date(now.getTime() + this.config.leaseMs);
+        const candidates: OutboxRow[] = await delegate.findMany({
+            where: { status: 'pending', availableAt: { lte: now } },
+            orderBy: { createdAt: 'asc' },
+            take: this.config.batchSize,
+        });
+
+        const claimed: OutboxRow[] = [];
+        for (const row of candidates) {
+            // 다른 디스패처가 먼저 가져갔으면 availableAt 이 바뀌어 count 가 0 이다
+            const { count } = await delegate.updateMany({
+                where: { id: row.id, status: 'pending', availableAt: row.availableAt },
+                data: { availableAt: lease },
+            });
+            if (count === 1) claimed.push(row);
+        }
+        return claimed;
+    }
+
+    private async deliver(client: any, row: OutboxRow): Promise<void> {
+        const delegate = this.delegate(client);
+        const message: OutboxMessage = {
+            id: row.id,
+            event: row.event,
+            payload: JSON.parse(row.payload),
+            attempt: row.attempts + 1,
+            createdAt: new Date(row.createdAt),
+            database: this.database,
+        };
+
+        try {
+            await this.config.transport.deliver(message);
+        } catch (error) {
+            await this.recordFailure(delegate, message, error);
+            return;
+        }
+
+        if (this.config.deleteDelivered) {
+            await delegate.delete({ where: { id: row.id } });
+        } else {
+            await delegate.update({
+                where: { id: row.id },
+                data: {
+                    status: 'delivered',
+                    attempts: message.attempt,
+                    deliveredAt: new Date(),
+                    lastError: null,
+                },
+            });
+        }
+    }
+
+    private async recordFailure(
+        delegate: any,
+        message: OutboxMessage,
+        error: unknown,
+    ): Promise<void> {
+        const lastError = error instanceof Error ? error.message : String(error);
+        const dead = message.attempt >= this.config.maxAttempts;
+
+        await delegate.update({
+            where: { id: message.id },
+            data: {
+                attempts: message.attempt,
+                lastError,
+                ...(dead
+                    ? { status: 'dead' }
+                    : {
+                          availableAt: new Date(Date.now() + this.config.backoff(message.attempt)),
+                      }),
+            },
+        });
+
+        if (!dead) {
+            log.Warn('Outbox delivery failed, will retry', {
+                id: message.id,
+                event: message.event,
+                attempt: message.attempt,
+                error: lastError,
+            });
+            return;
+        }
+
+        log.Error('Outbox event moved to dead letter', {
+            id: message.id,
+            event: message.event,
+            attempts: message.attempt,
+            error: lastError,
+        });
+        try {
+            await this.config.onDeadLetter?.(message, error);
+        } catch (hookError) {
+            log.Error('Outbox onDeadLetter callback failed', {
+                id: message.id,
+                error: hookError instanceof Error ? hookError.message : String(hookError),
+            });
+        }
+    }
+}
@@ -7,6 +7,7 @@ import {
     RouteDocumentationLike,
 } from '@lib/devtools/documentation';
 import { getPackageInfo } from '@lib/config/packageInfo';
+import { Auth } from '@lib/http/auth/auth';
 
 /**
  * 라우트 문서 등록 타입.
@@ -224,6 +225,7 @@ export class DocumentationGenerator {
             env: process.env,
             packageJson: getPackageInfo(),
             tagDescriptions: this.tagDescriptions,
+            securitySchemes: Auth.securitySchemes(),
         });
     }
 
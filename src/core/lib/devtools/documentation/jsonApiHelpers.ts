@@ -72,3 +72,28 @@ export function jsonApiCollectionResponse(modelName: string): OpenApiObjectSchem
         },
     };
 }
+
+/**
+ * relationship 엔드포인트(`/:id/relationships/:relationName`) request body:
+ * data 가 resource identifier object 의 배열(to-many) 또는 단일 object / null(to-one).
+ */
+export function jsonApiLinkageBody(resourceType: string, isToMany: boolean): OpenApiObjectSchema {
+    const identifier: OpenApiObjectSchema = {
+        type: 'object',
+        required: ['type', 'id'],
+        properties: {
+            type: { type: 'string', const: resourceType },
+            id: { type: 'string' },
+        },
+    };
+
+    return {
+        type: 'object',
+        required: ['data'],
+        properties: {
+            data: isToMany
+                ? { type: 'array', items: identifier }
+                : { oneOf: [identifier, { type: 'null' }] },
+        },
+    };
+}
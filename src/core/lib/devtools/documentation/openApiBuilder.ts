@@ -1,16 +1,24 @@
 import { Schema } from '@lib/http/validation/validator';
+import { StandardSchemaV1, isStandardSchema } from '@lib/http/validation/standardSchema';
 import {
     OpenApiDocument,
+    OpenApiHeader,
     OpenApiOperation,
     OpenApiParameter,
     OpenApiRequestBody,
     OpenApiResponse,
     OpenApiSchema,
     OpenApiSchemaOrRef,
+    OpenApiSecurityRequirement,
+    OpenApiSecurityScheme,
     ContentTypeMode,
 } from '@lib/devtools/documentation/openApiTypes';
 import { OpenApiTag } from '@lib/devtools/documentation/openApiTypes';
-import { schemaToOpenApi, fieldToOpenApi } from '@lib/devtools/documentation/schemaConverter';
+import {
+    schemaToOpenApi,
+    fieldToOpenApi,
+    standardSchemaToOpenApi,
+} from '@lib/devtools/documentation/schemaConverter';
 import { buildInfo } from '@lib/devtools/documentation/infoSource';
 import { buildServers } from '@lib/devtools/documentation/serversSource';
 import {
@@ -20,6 +28,9 @@ import {
 } from '@lib/devtools/documentation/pathConverter';
 import { mediaTypeFor } from '@lib/devtools/documentation/contentTypeRule';
 import { getStatusText } from '@lib/http/errors/errorCodes';
+import type { RateLimitDoc } from '@lib/http/rateLimiting/rateLimit';
+import type { AuthDoc } from '@lib/http/auth/auth';
+import type { IdempotencyDoc } from '@lib/http/idempotency/idempotency';
 import { log } from '@ext/winston';
 
 const OPENAPI_VERSION = '3.1.0';
@@ -33,13 +44,19 @@ export interface RouteDocumentationLike {
     operationId?: string;
     deprecated?: boolean;
     parameters?: {
-        query?: Schema;
-        params?: Schema;
-        body?: Schema | OpenApiSchemaOrRef;
+        query?: Schema | StandardSchemaV1;
+        params?: Schema | StandardSchemaV1;
+        body?: Schema | OpenApiSchemaOrRef | StandardSchemaV1;
     };
     responses?: Record<string | number, Schema | OpenApiSchemaOrRef>;
     tags?: string[];
     contentType?: ContentTypeMode;
+    /** 라우트 레이트 리밋 요약 — `x-rate-limit` 확장과 429 응답으로 문서화 */
+    rateLimit?: RateLimitDoc;
+    /** 인증 요구 조건 — `security` 와 401/403 응답으로 문서화 */
+    auth?: AuthDoc;
+    /** Idempotency-Key 처리 — 헤더 파라미터, `x-idempotency` 확장과 409/422 응답으로 문서화 */
+    idempotency?: IdempotencyDoc;
 }
 
 export interface BuildOpenApiInput {
@@ -49,6 +66,8 @@ export interface BuildOpenApiInput {
     packageJson: { name?: string; version?: string; description?: string };
     /** 태그명 → 설명. 문서 레벨 tags[] 의 description 으로 사용. */
     tagDescriptions?: Record<string, string>;
+    /** 전략 이름 → 보안 스킴. components.securitySchemes 로 싣는다 */
+    securitySchemes?: Record<string, OpenApiSecurityScheme>;
 }
 
 /** 라우트의 유효 태그를 결정한다: 명시 태그 우선, 없으면 경로에서 파생. */
@@ -85,9 +104,26 @@ function isOpenApiSchemaShape(value: unknown): boolean {
     return false;
 }
 
+/** Standard Schema 로 선언된 query/params 를 JSON Schema properties 기준으로 파라미터화 */
+function standardParameters(
+    schema: StandardSchemaV1,
+    location: 'query' | 'path',
+): OpenApiParameter[] {
+    const converted = standardSchemaToOpenApi(schema)?.schema;
+    const required = new Set(converted?.required ?? []);
+    return Object.entries(converted?.properties ?? {}).map(([name, property]) => ({
+        name,
+        in: location,
+        required: location === 'path' || required.has(name),
+        schema: property,
+    }));
+}
+
 function buildParameters(route: RouteDocumentationLike): OpenApiParameter[] {
     const out: OpenApiParameter[] = [];
-    if (route.parameters?.query) {
+    if (isStandardSchema(route.parameters?.query)) {
+        out.push(...standardParameters(route.parameters.query, 'query'));
+    } else if (route.parameters?.query) {
         for (const [name, field] of Object.entries(route.parameters.query)) {
             out.push({
                 name,
@@ -98,7 +134,9 @@ function buildParameters(route: RouteDocumentationLike): OpenApiParameter[] {
             });
         }
     }
-    if (route.parameters?.params) {
+    if (isStandardSchema(route.parameters?.params)) {
+        out.push(...standardParameters(route.parameters.params, 'path'));
+    } else if (route.parameters?.params) {
         for (const [name, field] of Object.entries(route.parameters.params)) {
             out.push({
                 name,
@@ -111,15 +149,42 @@ function buildParameters(route: RouteDocumentationLike): OpenApiParameter[] {
     return out;
 }
 
+/**
+ * Standard Schema 요청 본문을 components.schemas 에 등록하고 $ref 를 반환한다.
+ * 이름은 JSON Schema 의 title, 없으면 `<OperationId>Body`. 변환기를 제공하지 않는 라이브러리는 빈 schema.
+ */
+function standardBodySchema(
+    body: StandardSchemaV1,
+    operationId: string,
+    components: Record<string, OpenApiSchemaOrRef>,
+): OpenApiSchemaOrRef {
+    const converted = standardSchemaToOpenApi(body);
+    if (!converted) {
+        return { description: `Validated by ${body['~standard'].vendor}` };
+    }
+    Object.assign(components, converted.defs);
+    const title = (converted.schema as { title?: unknown }).title;
+    const name =
+        typeof title === 'string' && title
+            ? title
+            : `${operationId.charAt(0).toUpperCase()}${operationId.slice(1)}Body`;
+    components[name] = converted.schema;
+    return { $ref: `#/components/schemas/${name}` };
+}
+
 function buildRequestBody(
     route: RouteDocumentationLike,
     mediaType: string,
+    operationId: string,
+    components: Record<string, OpenApiSchemaOrRef>,
 ): OpenApiRequestBody | undefined {
     if (!route.parameters?.body) return undefined;
     const body = route.parameters.body;
-    const schema: OpenApiSchemaOrRef = isOpenApiSchemaShape(body)
-        ? (body as OpenApiSchemaOrRef)
-        : schemaToOpenApi(body as Schema);
+    const schema: OpenApiSchemaOrRef = isStandardSchema(body)
+        ? standardBodySchema(body, operationId, components)
+        : isOpenApiSchemaShape(body)
+          ? (body as OpenApiSchemaOrRef)
+          : schemaToOpenApi(body as Schema);
     return {
         required: true,
         content: {
@@ -167,7 +232,127 @@ function buildResponses(
     return out;
 }
 
-function buildOperation(route: RouteDocumentationLike): OpenApiOperation {
+/** JSON:API 에러 응답 (401/403/409/422/429 공통 형태) */
+function errorResponse(status: number, description: string, mediaType: string): OpenApiResponse {
+    return {
+        description,
+        content: {
+            [mediaType]: {
+                schema: {
+                    type: 'object',
+                    required: ['errors'],
+                    properties: {
+                        errors: { type: 'array', items: { type: 'object' } },
+                    },
+                },
+            },
+        },
+    };
+}
+
+/** 레이트 리밋 응답 헤더 (429 응답에 표시) */
+const RATE_LIMIT_HEADERS: Record<string, OpenApiHeader> = {
+    'RateLimit-Limit': {
+        description: 'Requests allowed per window',
+        schema: { type: 'integer' },
+    },
+    'RateLimit-Remaining': {
+        description: 'Requests remaining in the current window',
+        schema: { type: 'integer' },
+    },
+    'RateLimit-Reset': {
+        description: 'Seconds until the quota resets',
+        schema: { type: 'integer' },
+    },
+    'Retry-After': {
+        description: 'Seconds to wait before retrying',
+        schema: { type: 'integer' },
+    },
+};
+
+/** 레이트 리밋이 걸린 라우트에 429 응답과 `x-rate-limit` 확장을 추가 */
+function applyRateLimit(op: OpenApiOperation, rateLimit: RateLimitDoc, mediaType: string): void {
+    op['x-rate-limit'] = rateLimit;
+    if (op.responses['429']) return;
+    op.responses['429'] = {
+        ...errorResponse(
+            429,
+            `${getStatusText(429) ?? 'Too Many Requests'} (${rateLimit.limit} requests / ${rateLimit.windowSeconds}s per ${rateLimit.key})`,
+            mediaType,
+        ),
+        headers: RATE_LIMIT_HEADERS,
+    };
+}
+
+/**
+ * 인증이 걸린 라우트에 `security` 와 401(및 역할/스코프 요구 시 403) 응답을 추가.
+ * 전략을 지정하지 않은 요구 조건은 등록된 모든 스킴 중 하나를 요구하고, optional 이면 `{}` 를 덧붙인다.
+ */
+function applyAuth(
+    op: OpenApiOperation,
+    auth: AuthDoc,
+    securitySchemes: Record<string, OpenApiSecurityScheme>,
+    mediaType: string,
+): void {
+    const names = auth.strategies ?? Object.keys(securitySchemes);
+    const security: OpenApiSecurityRequirement[] = names.map((name) => ({
+        [name]: [...auth.scopes],
+    }));
+    if (auth.optional) security.push({});
+    if (security.length > 0) op.security = security;
+
+    if (!op.responses['401']) {
+        op.responses['401'] = errorResponse(401, getStatusText(401) ?? 'Unauthorized', mediaType);
+    }
+    if ((auth.roles.length > 0 || auth.scopes.length > 0) && !op.responses['403']) {
+        const required = [
+            ...(auth.roles.length > 0 ? [`one of roles: ${auth.roles.join(', ')}`] : []),
+            ...(auth.scopes.length > 0 ? [`scopes: ${auth.scopes.join(', ')}`] : []),
+        ];
+        op.responses['403'] = errorResponse(
+            403,
+            `${getStatusText(403) ?? 'Forbidden'} (requires ${required.join('; ')})`,
+            mediaType,
+        );
+    }
+}
+
+/** Idempotency-Key 라우트에 헤더 파라미터, 409/422 응답, `x-idempotency` 확장을 추가 */
+function applyIdempotency(
+    op: OpenApiOperation,
+    parameters: OpenApiParameter[],
+    idempotency: IdempotencyDoc,
+    mediaType: string,
+): void {
+    op['x-idempotency'] = idempotency;
+    parameters.push({
+        name: idempotency.header,
+        in: 'header',
+        required: idempotency.required,
+        description: `Unique key per logical request; retries with the same key replay the stored response for ${idempotency.ttlSeconds}s`,
+        schema: { type: 'string', maxLength: 255 },
+    });
+    if (!op.responses['409']) {
+        op.responses['409'] = errorResponse(
+            409,
+            `${getStatusText(409) ?? 'Conflict'} (a request with the same ${idempotency.header} is in progress)`,
+            mediaType,
+        );
+    }
+    if (!op.responses['422']) {
+        op.responses['422'] = errorResponse(
+            422,
+            `${getStatusText(422) ?? 'Unprocessable Entity'} (${idempotency.header} reused with a different request)`,
+            mediaType,
+        );
+    }
+}
+
+function buildOperation(
+    route: RouteDocumentationLike,
+    components: Record<string, OpenApiSchemaOrRef>,
+    securitySchemes: Record<string, OpenApiSecurityScheme>,
+): OpenApiOperation {
     const mediaType = mediaTypeFor(route.contentType ?? DEFAULT_CONTENT_TYPE_MODE);
     const op: OpenApiOperation = {
         operationId: route.operationId ?? deriveOperationId(route.method, route.path),
@@ -177,9 +362,12 @@ function buildOperation(route: RouteDocumentationLike): OpenApiOperation {
     };
     if (route.description !== undefined) op.description = route.description;
     if (route.deprecated) op.deprecated = true;
+    if (route.rateLimit) applyRateLimit(op, route.rateLimit, mediaType);
+    if (route.auth) applyAuth(op, route.auth, securitySchemes, mediaType);
     const parameters = buildParameters(route);
+    if (route.idempotency) applyIdempotency(op, parameters, route.idempotency, mediaType);
     if (parameters.length > 0) op.parameters = parameters;
-    const requestBody = buildRequestBody(route, mediaType);
+    const requestBody = buildRequestBody(route, mediaType, op.operationId ?? '', components);
     if (requestBody !== undefined) op.requestBody = requestBody;
     return op;
 }
@@ -201,15 +389,17 @@ function buildDocumentTags(
 }
 
 export function buildOpenApiDocument(input: BuildOpenApiInput): OpenApiDocument {
-    const { routes, schemas, env, packageJson, tagDescriptions = {} } = input;
+    const { routes, schemas, env, packageJson, tagDescriptions = {}, securitySchemes = {} } = input;
 
     const paths: Record<string, Record<string, OpenApiOperation>> = {};
+    // Standard Schema 요청 본문에서 변환된 컴포넌트 (등록 스키마를 변경하지 않도록 별도로 모은다)
+    const requestComponents: Record<string, OpenApiSchemaOrRef> = {};
     for (const route of routes) {
         // Resilient per route: a single malformed route doc (e.g. a response schema with a
         // typeless field) must not crash the whole spec — skip it with a warning and continue.
         try {
             // Build first (the throwable step) so a failure never leaves an empty path entry behind.
-            const operation = buildOperation(route);
+            const operation = buildOperation(route, requestComponents, securitySchemes);
             const { path: openApiPath } = toOpenApiPath(route.path);
             if (!paths[openApiPath]) paths[openApiPath] = {};
             paths[openApiPath][route.method.toLowerCase()] = operation;
@@ -244,6 +434,9 @@ export function buildOpenApiDocument(input: BuildOpenApiInput): OpenApiDocument
         servers: buildServers(env),
         ...(documentTags.length > 0 ? { tags: documentTags } : {}),
         paths: paths as OpenApiDocument['paths'],
-        components: { schemas },
+        components: {
+            schemas: { ...requestComponents, ...schemas },
+            ...(Object.keys(securitySchemes).length > 0 ? { securitySchemes } : {}),
+        },
     };
 }
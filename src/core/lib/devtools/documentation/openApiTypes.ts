@@ -20,6 +20,7 @@ export interface OpenApiSchema {
     enum?: unknown[];
     const?: unknown;
     example?: unknown;
+    default?: unknown;
     examples?: unknown[];
     pattern?: string;
     minLength?: number;
@@ -28,6 +29,7 @@ export interface OpenApiSchema {
     maximum?: number;
     minItems?: number;
     maxItems?: number;
+    uniqueItems?: boolean;
     properties?: Record<string, OpenApiSchema | OpenApiRef>;
     required?: string[];
     items?: OpenApiSchema | OpenApiRef;
@@ -35,6 +37,7 @@ export interface OpenApiSchema {
     nullable?: boolean;
     $ref?: string;
     oneOf?: Array<OpenApiSchema | OpenApiRef>;
+    discriminator?: { propertyName: string; mapping?: Record<string, string> };
     allOf?: Array<OpenApiSchema | OpenApiRef>;
     anyOf?: Array<OpenApiSchema | OpenApiRef>;
 }
@@ -86,10 +89,16 @@ export interface OpenApiRequestBody {
     content: Record<string, OpenApiMediaTypeObject>;
 }
 
+/** 응답 헤더 객체 */
+export interface OpenApiHeader {
+    description?: string;
+    schema: OpenApiSchemaOrRef;
+}
+
 export interface OpenApiResponse {
     description: string;
     content?: Record<string, OpenApiMediaTypeObject>;
-    headers?: Record<string, OpenApiSchemaOrRef>;
+    headers?: Record<string, OpenApiHeader>;
 }
 
 export interface OpenApiOperation {
@@ -101,6 +110,21 @@ export interface OpenApiOperation {
     requestBody?: OpenApiRequestBody;
     responses: Record<string, OpenApiResponse>;
     deprecated?: boolean;
+    /** 레이트 리밋 요약 (벤더 확장) */
+    'x-rate-limit'?: {
+        limit: number;
+        windowSeconds: number;
+        algorithm: string;
+        key: string;
+    };
+    /** Idempotency-Key 요약 (벤더 확장) */
+    'x-idempotency'?: {
+        header: string;
+        required: boolean;
+        ttlSeconds: number;
+    };
+    /** 요구 보안 스킴 (하나만 만족하면 됨, `{}` 는 인증 없이도 허용) */
+    security?: OpenApiSecurityRequirement[];
 }
 
 export type OpenApiPathItem = Partial<
@@ -114,8 +138,26 @@ export interface OpenApiComponents {
     parameters?: Record<string, OpenApiParameter>;
     responses?: Record<string, OpenApiResponse>;
     requestBodies?: Record<string, OpenApiRequestBody>;
+    securitySchemes?: Record<string, OpenApiSecurityScheme>;
 }
 
+/** 보안 스킴 정의 (components.securitySchemes) */
+export interface OpenApiSecurityScheme {
+    type: 'apiKey' | 'http' | 'mutualTLS' | 'oauth2' | 'openIdConnect';
+    description?: string;
+    /** apiKey: 헤더/쿼리/쿠키 이름 */
+    name?: string;
+    in?: 'query' | 'header' | 'cookie';
+    /** http: `bearer`, `basic` 등 */
+    scheme?: string;
+    bearerFormat?: string;
+    flows?: Record<string, unknown>;
+    openIdConnectUrl?: string;
+}
+
+/** 스킴 이름 → 필요한 스코프(또는 역할) 목록 */
+export type OpenApiSecurityRequirement = Record<string, string[]>;
+
 export interface OpenApiExternalDocs {
     url: string;
     description?: string;
@@ -1,10 +1,14 @@
 import { FieldSchema, Schema, ValidatorType } from '@lib/http/validation/validator';
+import { StandardSchemaV1 } from '@lib/http/validation/standardSchema';
 import { OpenApiSchema, OpenApiObjectSchema } from '@lib/devtools/documentation/openApiTypes';
 
 const KNOWN_TYPES: ReadonlySet<ValidatorType> = new Set([
     'string',
     'number',
+    'integer',
     'boolean',
+    'date',
+    'uuid',
     'array',
     'object',
     'email',
@@ -43,9 +47,20 @@ export function fieldToOpenApi(field: FieldSchema): OpenApiSchema {
             result.type = 'string';
             result.format = 'binary';
             break;
+        case 'uuid':
+            result.type = 'string';
+            result.format = 'uuid';
+            break;
+        case 'date':
+            result.type = 'string';
+            result.format = 'date-time';
+            break;
         case 'number':
             result.type = 'number';
             break;
+        case 'integer':
+            result.type = 'integer';
+            break;
         case 'boolean':
             result.type = 'boolean';
             break;
@@ -61,17 +76,33 @@ export function fieldToOpenApi(field: FieldSchema): OpenApiSchema {
     if (field.min !== undefined) {
         if (result.type === 'string') result.minLength = field.min;
         else if (result.type === 'array') result.minItems = field.min;
-        else if (result.type === 'number') result.minimum = field.min;
+        else if (result.type === 'number' || result.type === 'integer') result.minimum = field.min;
     }
     if (field.max !== undefined) {
         if (result.type === 'string') result.maxLength = field.max;
         else if (result.type === 'array') result.maxItems = field.max;
-        else if (result.type === 'number') result.maximum = field.max;
+        else if (result.type === 'number' || result.type === 'integer') result.maximum = field.max;
     }
 
-    if (field.enum !== undefined) result.enum = field.enum;
+    if (field.enum !== undefined) result.enum = [...field.enum];
     if (field.pattern !== undefined) result.pattern = field.pattern.source;
     if (field.example !== undefined) result.example = field.example;
+    if (field.default !== undefined && typeof field.default !== 'function') {
+        result.default = field.default;
+    }
+
+    // 중첩 구조 — 배열 요소 / 객체 속성 / 유니온
+    if (result.type === 'array') {
+        if (field.items) result.items = fieldToOpenApi(field.items);
+        if (field.uniqueItems) result.uniqueItems = true;
+    }
+    if (field.type === 'object' && field.properties) {
+        Object.assign(result, schemaToOpenApi(field.properties));
+    }
+    if (field.oneOf) {
+        result.oneOf = field.oneOf.map(fieldToOpenApi);
+        if (field.discriminator) result.discriminator = { propertyName: field.discriminator };
+    }
 
     return result;
 }
@@ -92,3 +123,53 @@ export function schemaToOpenApi(schema: Schema): OpenApiObjectSchema {
     if (required.length > 0) result.required = required;
     return result;
 }
+
+/** Standard Schema 변환 결과 — 본문 schema 와 components 로 끌어올릴 하위 정의($defs) */
+export interface ConvertedStandardSchema {
+    schema: OpenApiSchema;
+    defs: Record<string, OpenApiSchema>;
+}
+
+/** JSON Schema 내부 참조(`#/$defs/X`, `#/definitions/X`)를 components 참조로 바꾼다 */
+function rewriteLocalRefs(node: unknown): unknown {
+    if (Array.isArray(node)) return node.map(rewriteLocalRefs);
+    if (typeof node !== 'object' || node === null) return node;
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+        out[key] =
+            key === '$ref' && typeof value === 'string'
+                ? value.replace(/^#\/(\$defs|definitions)\//, '#/components/schemas/')
+                : rewriteLocalRefs(value);
+    }
+    return out;
+}
+
+/**
+ * Standard Schema(Zod 등)를 OpenAPI 3.1 schema 로 변환한다.
+ * 라이브러리가 Standard JSON Schema 확장(`~standard.jsonSchema`)을 제공해야 하며,
+ * 제공하지 않거나 변환을 지원하지 않으면(throw) undefined.
+ * 요청 스키마이므로 입력(input) 타입 기준으로 변환한다.
+ */
+export function standardSchemaToOpenApi(
+    schema: StandardSchemaV1,
+): ConvertedStandardSchema | undefined {
+    const converter = schema['~standard'].jsonSchema;
+    if (!converter) return undefined;
+
+    let json: Record<string, unknown>;
+    try {
+        json = converter.input({ target: 'draft-2020-12' });
+    } catch {
+        return undefined;
+    }
+
+    const { $schema: _schema, $defs, definitions, ...rest } = json;
+    const defs: Record<string, OpenApiSchema> = {};
+    for (const [name, def] of Object.entries({
+        ...(definitions as object),
+        ...($defs as object),
+    })) {
+        defs[name] = rewriteLocalRefs(def) as OpenApiSchema;
+    }
+    return { schema: rewriteLocalRefs(rest) as OpenApiSchema, defs };
+}
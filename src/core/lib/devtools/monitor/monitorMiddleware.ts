@@ -1,17 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { MetricsCollector } from './metricsCollector';
 import { MONITOR_PATH } from './monitorTypes';
+import { resolveRoutePattern } from '@lib/http/routing/routePattern';
 
 /**
  * 요청 라벨링 — top-routes 카디널리티 폭주 방지를 위해 동적 세그먼트를 정규화한다.
  * 매칭된 라우트 패턴(req.route.path)이 있으면 그것을 우선 사용한다.
  */
 function labelRoute(req: Request): string {
-    const matched = (req as any).route?.path;
-    if (matched && typeof matched === 'string') {
-        const base = req.baseUrl || '';
-        return base + matched || '/';
-    }
+    const matched = resolveRoutePattern(req);
+    if (matched) return matched;
     // 패턴이 없으면(주로 404/미매칭) 동적으로 보이는 세그먼트를 :id 로 접어 카디널리티를 줄인다.
     // 숫자 / UUID / 긴 hex 토큰 / 아주 긴 세그먼트를 모두 접어 fuzzing 잡음을 억제.
     const uuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -2,6 +2,7 @@ import { Express, Request, Response, NextFunction } from 'express';
 import { monitorEventLoopDelay, IntervalHistogram } from 'perf_hooks';
 import { log } from '@ext/winston';
 import { prismaManager } from '@lib/data/database/prismaManager';
+import { queryMetrics } from '@lib/data/database/queryMetrics';
 import { RepositoryManager } from '@lib/data/database/repositoryManager';
 import { DependencyInjector } from '@lib/data/di/dependencyInjector';
 import { MetricsCollector } from './metricsCollector';
@@ -55,6 +56,7 @@ function buildDatabases(): DatabaseStatus[] {
             connected: d.connected,
             provider: safe(() => prismaManager.getProviderForDatabase(d.name), 'unknown'),
             reconnectAttempts: safe(() => prismaManager.getReconnectionAttempts(d.name), 0),
+            ...(d.pool ? { pool: d.pool } : {}),
         }));
     } catch {
         return [];
@@ -136,6 +138,7 @@ export function buildSnapshot(ctx: MonitorContext): MonitorSnapshot {
         },
         requests: MetricsCollector.instance().snapshot(),
         databases: buildDatabases(),
+        queries: queryMetrics.snapshot(),
     };
 }
 
@@ -63,6 +63,54 @@ export interface DatabaseStatus {
     connected: boolean;
     provider: string;
     reconnectAttempts: number;
+    /** 커넥션 풀 상태 (드라이버 풀이 있는 DB 만, 구버전 서버에는 없음) */
+    pool?: { total: number; idle: number; waiting: number; max?: number; timeouts: number };
+}
+
+/** 모델·연산(또는 raw/$transaction)별 쿼리 집계 1건 */
+export interface QueryStat {
+    database: string;
+    /** Prisma 모델 이름. `$queryRaw`/`$transaction` 등 클라이언트 메서드는 `$client` */
+    model: string;
+    operation: string;
+    count: number;
+    errors: number;
+    avgMs: number;
+    p50: number;
+    p95: number;
+    p99: number;
+    maxMs: number;
+}
+
+/** DB별 쿼리 집계 */
+export interface DatabaseQueryStat {
+    database: string;
+    count: number;
+    errors: number;
+    slow: number;
+    avgMs: number;
+    p95: number;
+}
+
+/** 최근 slow query 1건 */
+export interface SlowQuery {
+    ts: number; // epoch ms
+    database: string;
+    model: string;
+    operation: string;
+    durationMs: number;
+}
+
+/** DB 쿼리 메트릭 (prismaManager.getWrap 경유 호출만 집계) */
+export interface QueryMetrics {
+    total: number;
+    errors: number;
+    /** slow query 기준(ms). 0 이면 slow query 로그 비활성 */
+    slowThresholdMs: number;
+    databases: DatabaseQueryStat[];
+    /** 누적 소요시간 상위 모델·연산 */
+    top: QueryStat[];
+    recentSlow: SlowQuery[];
 }
 
 /** 앱/라우팅 메트릭 */
@@ -86,6 +134,7 @@ export interface MonitorSnapshot {
     process: ProcessMetrics;
     requests: RequestMetrics;
     databases: DatabaseStatus[];
+    queries: QueryMetrics;
 }
 
 /** 메트릭 엔드포인트 기본 경로 + req/s 시계열 길이(상수 SSOT) */
@@ -1,4 +1,5 @@
 import { log } from '@ext/winston';
+import { applicationLifecycle } from '@lib/lifecycle/applicationLifecycle';
 import type {
     KustoExtension,
     ExtensionInitContext,
@@ -8,7 +9,8 @@ import type {
 /**
  * Singleton store of loaded extensions. The loader (`loadExtensions`) registers each
  * discovered extension here; Core runs the collected `onInit` hooks during boot and the
- * `kusto` CLI runs the `onBuild` hooks at build time. Router methods are NOT stored here —
+ * `kusto` CLI runs the `onBuild` hooks at build time. Extensions implementing lifecycle hooks
+ * (`onModuleInit`, `onShutdown`, ...) are also enrolled in `applicationLifecycle`. Router methods are NOT stored here —
  * they are applied directly to `ExpressRouter.prototype` by the loader.
  */
 class ExtensionRegistry {
@@ -29,6 +31,7 @@ class ExtensionRegistry {
             return false;
         }
         this.extensions.push(extension);
+        applicationLifecycle.register(`extension:${extension.name}`, extension);
         return true;
     }
 
@@ -65,6 +68,7 @@ class ExtensionRegistry {
     /** Test-only: drop all registered extensions. */
     clear(): void {
         this.extensions = [];
+        applicationLifecycle.unregisterByPrefix('extension:');
     }
 }
 
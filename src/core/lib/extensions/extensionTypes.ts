@@ -1,6 +1,9 @@
 import type { Express, RequestHandler } from 'express';
+import type winston from 'winston';
 import type { log } from '@ext/winston';
 import type { RouterContext, RouterMethodImpl } from '@lib/http/routing/expressRouter';
+import { LIFECYCLE_PHASES } from '@lib/lifecycle/applicationLifecycle';
+import type { LifecycleHooks } from '@lib/lifecycle/applicationLifecycle';
 
 // Re-export the router context types so extension authors import everything from one place.
 export type { RouterContext, RouterMethodImpl };
@@ -32,6 +35,12 @@ export interface ExtensionInitContext {
     config: ExtensionRuntimeConfig;
     /** Convenience wrapper over `app.use(mw)`. */
     registerMiddleware(mw: RequestHandler): void;
+    /**
+     * Add a winston transport to the framework logger (e.g. a log shipper).
+     * A transport without its own format receives JSON-line records with redacted meta.
+     * Returns a function that removes the transport again.
+     */
+    registerLogTransport(transport: winston.transport): () => void;
     /** Framework logger. */
     log: typeof log;
 }
@@ -54,8 +63,12 @@ export interface ExtensionBuildContext {
 /**
  * A Kusto framework extension. Shipped by a separate npm package and activated by a thin
  * file under `src/app/extensions/` that default-exports it. All hooks are optional.
+ *
+ * The inherited {@link LifecycleHooks} (`onModuleInit`, `onApplicationReady`,
+ * `onBeforeShutdown`, `onShutdown`) run after repositories and injectable modules on startup
+ * and before them on shutdown.
  */
-export interface KustoExtension {
+export interface KustoExtension extends LifecycleHooks {
     /** Unique identifier, e.g. '@kusto/react'. */
     name: string;
     /** Optional version string (informational). */
@@ -84,5 +97,10 @@ export function isKustoExtension(value: unknown): value is KustoExtension {
     }
     if (e.onInit !== undefined && typeof e.onInit !== 'function') return false;
     if (e.onBuild !== undefined && typeof e.onBuild !== 'function') return false;
+    if (
+        LIFECYCLE_PHASES.some((phase) => e[phase] !== undefined && typeof e[phase] !== 'function')
+    ) {
+        return false;
+    }
     return true;
 }
@@ -0,0 +1,213 @@
+/**
+ * 인증
+ *
+ * 앱 부팅 시 {@link Auth.configure} 로 전략을 한 번 등록하고, 라우터에서
+ * `router.AUTH()` (또는 `router.WITH('auth')`) 로 이후 라우트에 인증을 요구한다.
+ * 인증된 사용자는 `req.kusto.user` 로 읽는다. 한 요청에서 인증은 한 번만 수행되며,
+ * 요구 조건이 여러 겹(라우터 + 하위 라우터)이어도 처음 인증한 사용자를 재사용한다.
+ */
+import type { Request, Response, RequestHandler, NextFunction } from 'express';
+import { ERROR_CODES, getStatusText } from '@lib/http/errors/errorCodes';
+import { kustoManager } from '@lib/data/di/kustoManager';
+import type { OpenApiSecurityScheme } from '@lib/devtools/documentation/openApiTypes';
+import type { AuthStrategy, KustoUser } from '@lib/http/auth/authStrategies';
+
+/** `Auth.configure()` 설정 */
+export interface AuthConfig {
+    /** 시도 순서대로의 전략 목록. 처음 사용자를 돌려준 전략이 이긴다 */
+    strategies: AuthStrategy[];
+}
+
+/** `router.AUTH()` / `WITH('auth', ...)` 요구 조건 */
+export interface AuthRequirement {
+    /** 허용할 전략 이름. 생략하면 등록된 모든 전략 */
+    strategies?: string[];
+    /** true 면 자격 증명이 없는 요청도 통과 (`req.kusto.user` 는 undefined). 잘못된 자격 증명은 여전히 401 */
+    optional?: boolean;
+    /** 이 중 하나라도 가진 사용자만 허용 (403) */
+    roles?: string[];
+    /** 모두 가진 사용자만 허용 (403) */
+    scopes?: string[];
+}
+
+/** OpenAPI 에 싣는 인증 요약 */
+export interface AuthDoc {
+    /** 생략 시 문서 생성 시점에 등록된 모든 전략 */
+    strategies?: string[];
+    optional: boolean;
+    roles: string[];
+    scopes: string[];
+}
+
+function sendAuthError(
+    req: Request,
+    res: Response,
+    status: 401 | 403,
+    code: string,
+    detail: string,
+    challenge?: string,
+): void {
+    if (challenge) res.setHeader('WWW-Authenticate', challenge);
+    res.status(status).json({
+        errors: [
+            {
+                ...(req.requestId && { id: req.requestId }),
+                status: String(status),
+                code,
+                title: getStatusText(status) ?? (status === 401 ? 'Unauthorized' : 'Forbidden'),
+                detail,
+            },
+        ],
+    });
+}
+
+export class Auth {
+    private static strategies: AuthStrategy[] | null = null;
+
+    /** 전략 등록 (앱 부팅 시 1회). 요청 시점에 읽으므로 라우트 로딩 전후 어느 때 호출해도 된다 */
+    static configure(config: AuthConfig): void {
+        if (!Array.isArray(config?.strategies) || config.strategies.length === 0) {
+            throw new Error('Auth.configure() requires at least one strategy');
+        }
+        const names = new Set<string>();
+        for (const strategy of config.strategies) {
+            if (names.has(strategy.name)) {
+                throw new Error(`Auth strategy '${strategy.name}' is registered twice`);
+            }
+            names.add(strategy.name);
+        }
+        this.strategies = [...config.strategies];
+    }
+
+    /** 설정 해제 (테스트용) */
+    static reset(): void {
+        this.strategies = null;
+    }
+
+    static isEnabled(): boolean {
+        return this.strategies !== null;
+    }
+
+    /** 등록된 전략의 OpenAPI 보안 스킴 (문서 생성기가 components.securitySchemes 로 싣는다) */
+    static securitySchemes(): Record<string, OpenApiSecurityScheme> {
+        const schemes: Record<string, OpenApiSecurityScheme> = {};
+        for (const strategy of this.strategies ?? []) {
+            schemes[strategy.name] = strategy.securityScheme;
+        }
+        return schemes;
+    }
+
+    /** 요구 조건 → OpenAPI 요약 */
+    static describe(requirement: AuthRequirement = {}): AuthDoc {
+        return {
+            ...(requirement.strategies ? { strategies: [...requirement.strategies] } : {}),
+            optional: requirement.optional ?? false,
+            roles: requirement.roles ?? [],
+            scopes: requirement.scopes ?? [],
+        };
+    }
+
+    private static resolveStrategies(requirement: AuthRequirement): AuthStrategy[] {
+        if (!this.strategies) {
+            throw new Error('Auth.configure() must be called before authenticating requests');
+        }
+        if (!requirement.strategies) return this.strategies;
+        return requirement.strategies.map((name) => {
+            const strategy = this.strategies?.find((candidate) => candidate.name === name);
+            if (!strategy) throw new Error(`Unknown auth strategy '${name}'`);
+            return strategy;
+        });
+    }
+
+    /**
+     * 요청을 인증하고 사용자를 `req.kusto.user` 에 싣는다.
+     * 자격 증명이 없으면 undefined, 유효하지 않으면 401 에러를 던진다.
+     */
+    static async authenticate(
+        req: Request,
+        requirement: AuthRequirement = {},
+    ): Promise<KustoUser | undefined> {
+        const strategies = this.resolveStrategies(requirement);
+
+        const current = kustoManager.getUser(req);
+        if (current && strategies.some((strategy) => strategy.name === current.strategy)) {
+            return current;
+        }
+
+        for (const strategy of strategies) {
+            const user = await strategy.authenticate(req);
+            if (user) {
+                kustoManager.setUser(req, user);
+                req.kusto = kustoManager.forRequest(req);
+                return user;
+            }
+        }
+        return undefined;
+    }
+
+    /** 요구 조건을 검사하는 미들웨어. 401/403 은 JSON:API 에러로 직접 응답한다 */
+    static middleware(requirement: AuthRequirement = {}): RequestHandler {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            let strategies: AuthStrategy[];
+            let user: KustoUser | undefined;
+            try {
+                strategies = Auth.resolveStrategies(requirement);
+                user = await Auth.authenticate(req, requirement);
+            } catch (error: any) {
+                if (error?.statusCode !== 401) return next(error);
+                return sendAuthError(
+                    req,
+                    res,
+                    401,
+                    error.code ?? ERROR_CODES.UNAUTHORIZED,
+                    error.message,
+                    Auth.challenge(Auth.strategies ?? []),
+                );
+            }
+
+            if (!user) {
+                if (requirement.optional) return next();
+                return sendAuthError(
+                    req,
+                    res,
+                    401,
+                    ERROR_CODES.UNAUTHORIZED,
+                    'Authentication required',
+                    Auth.challenge(strategies),
+                );
+            }
+
+            const roles = requirement.roles ?? [];
+            if (roles.length > 0 && !roles.some((role) => user?.roles.includes(role))) {
+                return sendAuthError(
+                    req,
+                    res,
+                    403,
+                    ERROR_CODES.FORBIDDEN,
+                    `Requires one of roles: ${roles.join(', ')}`,
+                );
+            }
+            const missing = (requirement.scopes ?? []).filter(
+                (scope) => !user?.scopes.includes(scope),
+            );
+            if (missing.length > 0) {
+                return sendAuthError(
+                    req,
+                    res,
+                    403,
+                    ERROR_CODES.FORBIDDEN,
+                    `Missing scopes: ${missing.join(', ')}`,
+                );
+            }
+
+            next();
+        };
+    }
+
+    private static challenge(strategies: AuthStrategy[]): string | undefined {
+        const challenges = strategies
+            .map((strategy) => strategy.challenge)
+            .filter((challenge): challenge is string => !!challenge);
+        return challenges.length > 0 ? challenges.join(', ') : undefined;
+    }
+}
@@ -0,0 +1,274 @@
+/**
+ * 인증 전략
+ *
+ * 전략은 요청에서 자격 증명을 읽어 사용자로 바꾼다.
+ * - 자격 증명이 아예 없으면 null 을 반환한다 (다음 전략 시도, 모두 없으면 401 또는 optional 통과).
+ * - 자격 증명이 있는데 유효하지 않으면 statusCode 401 을 단 Error 를 던진다 (즉시 401).
+ * 각 전략은 OpenAPI `securitySchemes` 에 실릴 스킴 정의를 함께 가진다.
+ */
+import { createHash, timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+import { ERROR_CODES } from '@lib/http/errors/errorCodes';
+import { repositoryManager } from '@lib/data/database/repositoryManager';
+import type { RepositoryName } from '@lib/types/generated-repository-types';
+import type { OpenApiSecurityScheme } from '@lib/devtools/documentation/openApiTypes';
+import { verifyJwt } from '@lib/http/auth/jwt';
+import type { JwtClaims, JwtKeySource } from '@lib/http/auth/jwt';
+
+/**
+ * 인증된 사용자 (`req.kusto.user`).
+ * 앱에서 필드를 늘리려면 declaration merging 으로 확장한다.
+ */
+export interface KustoUser {
+    /** 사용자 식별자 (JWT `sub`, API 키 소유자, 세션의 userId) */
+    id: string;
+    /** 인증에 성공한 전략 이름 */
+    strategy: string;
+    roles: string[];
+    scopes: string[];
+    /** 전략별 원본 정보 (JWT 클레임, 세션 ID 등) */
+    claims: Record<string, unknown>;
+}
+
+/** 전략/매퍼가 돌려주는 사용자 정보. roles/scopes/claims 는 생략하면 빈 값 */
+export interface AuthIdentity {
+    id: string | number;
+    roles?: string[];
+    scopes?: string[];
+    claims?: Record<string, unknown>;
+}
+
+export interface AuthStrategy {
+    /** 전략 이름 — `AUTH({ strategies })` 와 OpenAPI securitySchemes 의 키 */
+    name: string;
+    /** OpenAPI 보안 스킴 */
+    securityScheme: OpenApiSecurityScheme;
+    /** 401 응답의 `WWW-Authenticate` 값 */
+    challenge?: string;
+    /** 자격 증명이 없으면 null, 유효하지 않으면 401 에러를 던진다 */
+    authenticate(req: Request): Promise<KustoUser | null>;
+}
+
+export interface JwtStrategyOptions {
+    /** 기본 `jwt` */
+    name?: string;
+    /** 검증 키 목록 (키 회전 시 새 키와 이전 키를 함께 둔다) */
+    keys: JwtKeySource;
+    issuer?: string | string[];
+    audience?: string | string[];
+    clockToleranceSec?: number;
+    /**
+     * 클레임 → 사용자. 기본은 `sub` 를 id 로, `roles` 배열과 `scope`(공백 구분) 또는 `scopes` 배열을 쓴다.
+     * null 을 반환하면 토큰은 유효하지만 허용되지 않는 사용자로 보고 401 로 거부한다.
+     */
+    mapUser?: (
+        claims: JwtClaims,
+        req: Request,
+    ) => AuthIdentity | null | Promise<AuthIdentity | null>;
+}
+
+/** 정적 API 키 항목 */
+export interface ApiKeyEntry extends AuthIdentity {
+    key: string;
+}
+
+export interface ApiKeyStrategyOptions {
+    /** 기본 `apiKey` */
+    name?: string;
+    /** 키를 읽을 헤더 (기본 `X-API-Key`) */
+    header?: string;
+    /** 정적 키 목록 (환경 변수 등에서 읽은 값) */
+    keys?: ApiKeyEntry[];
+    /** 키 조회 함수 (DB 등). `keys` 에 없을 때 호출되며 null 이면 거부 */
+    verify?: (
+        key: string,
+        req: Request,
+    ) => AuthIdentity | null | undefined | Promise<AuthIdentity | null | undefined>;
+}
+
+/** 세션 저장소가 돌려주는 세션 */
+export interface SessionRecord extends Omit<AuthIdentity, 'id'> {
+    userId: string | number;
+    /** 만료 시각. 지난 세션은 거부한다 */
+    expiresAt?: Date | string | number | null;
+}
+
+/** `sessionStrategy({ repository })` 가 요구하는 레포지토리 메서드 */
+export interface SessionRepository {
+    findSession(sessionId: string): Promise<SessionRecord | null | undefined>;
+}
+
+export interface SessionStrategyOptions {
+    /** 기본 `session` */
+    name?: string;
+    /** 세션 ID 쿠키 (기본 `sid`) */
+    cookie?: string;
+    /** {@link SessionRepository} 를 구현한 레포지토리 이름 */
+    repository?: string;
+    /** 레포지토리 대신 직접 조회 */
+    load?: (
+        sessionId: string,
+        req: Request,
+    ) => SessionRecord | null | undefined | Promise<SessionRecord | null | undefined>;
+}
+
+function unauthorized(message: string, code: string = ERROR_CODES.UNAUTHORIZED): Error {
+    const error: any = new Error(message);
+    error.code = code;
+    error.statusCode = 401;
+    return error;
+}
+
+/** 전략 결과를 KustoUser 로 정규화 */
+export function toKustoUser(strategy: string, identity: AuthIdentity): KustoUser {
+    return {
+        id: String(identity.id),
+        strategy,
+        roles: identity.roles ?? [],
+        scopes: identity.scopes ?? [],
+        claims: identity.claims ?? {},
+    };
+}
+
+function stringList(value: unknown): string[] | undefined {
+    if (Array.isArray(value))
+        return value.filter((item): item is string => typeof item === 'string');
+    if (typeof value === 'string') return value.split(' ').filter(Boolean);
+    return undefined;
+}
+
+function defaultJwtIdentity(claims: JwtClaims): AuthIdentity | null {
+    if (claims.sub === undefined || claims.sub === null) return null;
+    return {
+        id: String(claims.sub),
+        roles: stringList(claims.roles) ?? [],
+        scopes: stringList(claims.scope) ?? stringList(claims.scopes) ?? [],
+        claims,
+    };
+}
+
+/** `Authorization: Bearer <JWT>` 검증 */
+export function jwtStrategy(options: JwtStrategyOptions): AuthStrategy {
+    const name = options.name ?? 'jwt';
+    const mapUser = options.mapUser ?? defaultJwtIdentity;
+
+    return {
+        name,
+        securityScheme: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        challenge: 'Bearer',
+        async authenticate(req) {
+            const header = req.get('Authorization');
+            const match = header?.match(/^Bearer\s+(\S+)$/i);
+            if (!match) return null;
+
+            const claims = await verifyJwt(match[1], options.keys, {
+                issuer: options.issuer,
+                audience: options.audience,
+                clockToleranceSec: options.clockToleranceSec,
+            });
+            const identity = await mapUser(claims, req);
+            if (!identity) throw unauthorized('Token subject is not allowed');
+            return toKustoUser(name, identity);
+        },
+    };
+}
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+/** API 키 헤더 검증. 정적 키는 해시끼리 상수 시간 비교한다 */
+export function apiKeyStrategy(options: ApiKeyStrategyOptions): AuthStrategy {
+    if (!options.keys && !options.verify) {
+        throw new Error('apiKeyStrategy requires keys or a verify(key) function');
+    }
+    const name = options.name ?? 'apiKey';
+    const header = options.header ?? 'X-API-Key';
+    const entries = (options.keys ?? []).map((entry) => ({ entry, hash: digest(entry.key) }));
+
+    return {
+        name,
+        securityScheme: { type: 'apiKey', in: 'header', name: header },
+        async authenticate(req) {
+            const key = req.get(header);
+            if (!key) return null;
+
+            const hash = digest(key);
+            // 일치 여부와 무관하게 모든 항목을 비교해 응답 시간으로 키 위치가 드러나지 않게 한다
+            let matched: ApiKeyEntry | undefined;
+            for (const candidate of entries) {
+                if (timingSafeEqual(candidate.hash, hash) && !matched) matched = candidate.entry;
+            }
+
+            const identity = matched ?? (await options.verify?.(key, req));
+            if (!identity) throw unauthorized('Invalid API key', ERROR_CODES.INVALID_CREDENTIALS);
+
+            const { id, roles, scopes, claims } = identity;
+            return toKustoUser(name, { id, roles, scopes, claims });
+        },
+    };
+}
+
+/** cookie-parser 가 없을 때를 위한 최소 Cookie 헤더 파싱 */
+function readCookie(req: Request, cookie: string): string | undefined {
+    const parsed = (req as { cookies?: Record<string, unknown> }).cookies?.[cookie];
+    if (typeof parsed === 'string') return parsed;
+
+    for (const pair of (req.get('Cookie') ?? '').split(';')) {
+        const index = pair.indexOf('=');
+        if (index > 0 && pair.slice(0, index).trim() === cookie) {
+            try {
+                return decodeURIComponent(pair.slice(index + 1).trim());
+            } catch {
+                return undefined;
+            }
+        }
+    }
+    return undefined;
+}
+
+/** 세션 쿠키 → 세션 저장소(레포지토리) 조회 */
+export function sessionStrategy(options: SessionStrategyOptions): AuthStrategy {
+    if (!options.repository && !options.load) {
+        throw new Error('sessionStrategy requires a repository name or a load(sessionId) function');
+    }
+    const name = options.name ?? 'session';
+    const cookie = options.cookie ?? 'sid';
+
+    const load = async (sessionId: string, req: Request) => {
+        if (options.load) return options.load(sessionId, req);
+        const repository = repositoryManager.getRepository(
+            options.repository as RepositoryName,
+        ) as unknown as Partial<SessionRepository>;
+        if (typeof repository.findSession !== 'function') {
+            throw new Error(`Repository '${options.repository}' does not implement findSession()`);
+        }
+        return repository.findSession(sessionId);
+    };
+
+    return {
+        name,
+        securityScheme: { type: 'apiKey', in: 'cookie', name: cookie },
+        async authenticate(req) {
+            const sessionId = readCookie(req, cookie);
+            if (!sessionId) return null;
+
+            const session = await load(sessionId, req);
+            if (!session) throw unauthorized('Session not found');
+            if (
+                session.expiresAt !== undefined &&
+                session.expiresAt !== null &&
+                new Date(session.expiresAt).getTime() <= Date.now()
+            ) {
+                throw unauthorized('Session has expired', ERROR_CODES.TOKEN_EXPIRED);
+            }
+
+            return toKustoUser(name, {
+                id: session.userId,
+                roles: session.roles,
+                scopes: session.scopes,
+                claims: { ...session.claims, sessionId },
+            });
+        },
+    };
+}
@@ -0,0 +1,195 @@
+/**
+ * JWT(JWS compact) 서명/검증
+ *
+ * 외부 의존성 없이 Node `crypto` 로 HS256/384/512(공유 비밀)와 RS256/384/512(RSA 공개키)를 처리한다.
+ * 키 회전은 키 목록으로 지원한다 — 새 키를 추가해 서명을 옮긴 뒤 기존 키로 서명된 토큰이
+ * 모두 만료되면 목록에서 뺀다. 토큰 헤더에 `kid` 가 있으면 같은 `kid` 의 키만 시도한다.
+ * 검증 실패는 statusCode 401 을 단 Error 로 던진다.
+ */
+import { createHmac, createSign, createVerify, timingSafeEqual } from 'crypto';
+import type { KeyObject } from 'crypto';
+import { ERROR_CODES } from '@lib/http/errors/errorCodes';
+
+/** 지원 알고리즘 (`none` 과 비대칭/대칭 혼동을 막기 위해 키마다 알고리즘을 고정한다) */
+export type JwtAlgorithm = 'HS256' | 'HS384' | 'HS512' | 'RS256' | 'RS384' | 'RS512';
+
+/** 서명/검증 키 */
+export interface JwtKey {
+    /** 키 식별자 (토큰 헤더의 `kid`) */
+    kid?: string;
+    /** 이 키로만 허용하는 알고리즘 */
+    alg: JwtAlgorithm;
+    /** HS*: 공유 비밀, RS*: 검증엔 공개키 / 서명엔 개인키 (PEM 또는 KeyObject) */
+    key: string | Buffer | KeyObject;
+}
+
+/** 키 목록 또는 요청 시점에 키 목록을 돌려주는 함수 (JWKS 캐시 등) */
+export type JwtKeySource = JwtKey[] | (() => JwtKey[] | Promise<JwtKey[]>);
+
+/** 등록 클레임 + 임의 클레임 */
+export interface JwtClaims {
+    sub?: string;
+    iss?: string;
+    aud?: string | string[];
+    /** 만료 시각 (epoch 초) */
+    exp?: number;
+    /** 사용 가능 시작 시각 (epoch 초) */
+    nbf?: number;
+    /** 발급 시각 (epoch 초) */
+    iat?: number;
+    jti?: string;
+    [claim: string]: unknown;
+}
+
+export interface JwtVerifyOptions {
+    /** 허용 발급자 (`iss`) */
+    issuer?: string | string[];
+    /** 허용 대상 (`aud`) — 토큰의 aud 중 하나라도 일치하면 통과 */
+    audience?: string | string[];
+    /** exp/nbf 비교 시 허용 오차 (초, 기본 0) */
+    clockToleranceSec?: number;
+    /** 현재 시각 (epoch ms, 테스트용) */
+    now?: number;
+}
+
+export interface JwtSignOptions {
+    /** 지금부터 만료까지 (초). 생략하면 payload 의 exp 를 그대로 쓴다 */
+    expiresInSec?: number;
+    /** 현재 시각 (epoch ms, 테스트용) */
+    now?: number;
+}
+
+const HASHES: Record<JwtAlgorithm, string> = {
+    HS256: 'sha256',
+    HS384: 'sha384',
+    HS512: 'sha512',
+    RS256: 'RSA-SHA256',
+    RS384: 'RSA-SHA384',
+    RS512: 'RSA-SHA512',
+};
+
+function jwtError(message: string, code: string = ERROR_CODES.UNAUTHORIZED): Error {
+    const error: any = new Error(message);
+    error.code = code;
+    error.statusCode = 401;
+    return error;
+}
+
+function base64UrlEncode(input: string | Buffer): string {
+    return Buffer.from(input).toString('base64url');
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+    try {
+        const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+        if (value && typeof value === 'object' && !Array.isArray(value)) return value;
+    } catch {
+        // 아래에서 공통 메시지로 처리
+    }
+    throw jwtError('Malformed token');
+}
+
+function isAlgorithm(value: unknown): value is JwtAlgorithm {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(HASHES, value);
+}
+
+function signSegments(input: string, key: JwtKey): Buffer {
+    const hash = HASHES[key.alg];
+    if (key.alg.startsWith('HS')) {
+        return createHmac(hash, key.key as string | Buffer | KeyObject)
+            .update(input)
+            .digest();
+    }
+    return createSign(hash)
+        .update(input)
+        .sign(key.key as string | Buffer | KeyObject);
+}
+
+function verifySegments(input: string, signature: Buffer, key: JwtKey): boolean {
+    try {
+        if (key.alg.startsWith('HS')) {
+            const expected = signSegments(input, key);
+            return expected.length === signature.length && timingSafeEqual(expected, signature);
+        }
+        return createVerify(HASHES[key.alg])
+            .update(input)
+            .verify(key.key as string | Buffer | KeyObject, signature);
+    } catch {
+        // 형식이 맞지 않는 키(예: RS 알고리즘에 비밀 문자열)는 불일치로 본다
+        return false;
+    }
+}
+
+function toList(value: string | string[] | undefined): string[] {
+    if (value === undefined) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+/** 서명 키로 토큰을 발급한다. 헤더에는 키의 `alg` 와 (있으면) `kid` 가 들어간다 */
+export function signJwt(payload: JwtClaims, key: JwtKey, options: JwtSignOptions = {}): string {
+    const nowSec = Math.floor((options.now ?? Date.now()) / 1000);
+    const claims: JwtClaims = { iat: nowSec, ...payload };
+    if (options.expiresInSec !== undefined) claims.exp = nowSec + options.expiresInSec;
+
+    const header = { alg: key.alg, typ: 'JWT', ...(key.kid ? { kid: key.kid } : {}) };
+    const input = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(claims))}`;
+    return `${input}.${base64UrlEncode(signSegments(input, key))}`;
+}
+
+/**
+ * 토큰 서명과 등록 클레임(exp/nbf/iss/aud)을 검증하고 payload 를 반환한다.
+ * 만료는 `TOKEN_EXPIRED`, 그 밖의 실패는 `UNAUTHORIZED` 코드의 401 에러를 던진다.
+ */
+export async function verifyJwt(
+    token: string,
+    keys: JwtKeySource,
+    options: JwtVerifyOptions = {},
+): Promise<JwtClaims> {
+    const parts = token.split('.');
+    if (parts.length !== 3) throw jwtError('Malformed token');
+
+    const header = decodeSegment(parts[0]);
+    const alg = header.alg;
+    if (!isAlgorithm(alg)) throw jwtError(`Unsupported token algorithm: ${String(alg)}`);
+    const kid = typeof header.kid === 'string' ? header.kid : undefined;
+
+    const available = typeof keys === 'function' ? await keys() : keys;
+    const candidates = available.filter(
+        (key) => key.alg === alg && (!kid || !key.kid || key.kid === kid),
+    );
+    if (candidates.length === 0) {
+        throw jwtError(kid ? `Unknown signing key: ${kid}` : 'No key accepts this token');
+    }
+
+    const input = `${parts[0]}.${parts[1]}`;
+    const signature = Buffer.from(parts[2], 'base64url');
+    if (!candidates.some((key) => verifySegments(input, signature, key))) {
+        throw jwtError('Invalid token signature');
+    }
+
+    const claims = decodeSegment(parts[1]) as JwtClaims;
+    const nowSec = (options.now ?? Date.now()) / 1000;
+    const tolerance = options.clockToleranceSec ?? 0;
+
+    if (claims.exp !== undefined) {
+        if (typeof claims.exp !== 'number') throw jwtError('Invalid exp claim');
+        if (nowSec >= claims.exp + tolerance) {
+            throw jwtError('Token has expired', ERROR_CODES.TOKEN_EXPIRED);
+        }
+    }
+    if (claims.nbf !== undefined) {
+        if (typeof claims.nbf !== 'number') throw jwtError('Invalid nbf claim');
+        if (nowSec + tolerance < claims.nbf) throw jwtError('Token is not valid yet');
+    }
+
+    const issuers = toList(options.issuer);
+    if (issuers.length > 0 && (!claims.iss || !issuers.includes(claims.iss))) {
+        throw jwtError('Unexpected token issuer');
+    }
+    const audiences = toList(options.audience);
+    if (audiences.length > 0 && !toList(claims.aud).some((aud) => audiences.includes(aud))) {
+        throw jwtError('Unexpected token audience');
+    }
+
+    return claims;
+}
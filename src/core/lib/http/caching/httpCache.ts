@@ -0,0 +1,148 @@
+import { createHash } from 'crypto';
+import type { Request, Response, RequestHandler, NextFunction } from 'express';
+
+/**
+ * HTTP 캐시 유틸리티 (ETag / Last-Modified / Cache-Control)
+ *
+ * 조건부 요청(`If-None-Match` / `If-Modified-Since`) 판정은 Express 의 `res.send` 가
+ * `req.fresh` 로 수행한다. 여기서는 응답 전에 검증자(ETag, Last-Modified)를 정해 두기만 하면
+ * 클라이언트가 가진 표현이 최신일 때 본문 없이 304 가 나간다.
+ */
+
+/** Cache-Control 지시자 (초 단위) */
+export interface CacheControlDirectives {
+    maxAge?: number;
+    /** 공유 캐시(CDN/프록시) 전용 max-age */
+    sMaxAge?: number;
+    public?: boolean;
+    private?: boolean;
+    /** 저장은 하되 매번 재검증 (ETag 와 함께 쓰면 304 로 왕복 비용만 든다) */
+    noCache?: boolean;
+    noStore?: boolean;
+    mustRevalidate?: boolean;
+    staleWhileRevalidate?: number;
+    staleIfError?: number;
+    immutable?: boolean;
+}
+
+/** 라우트 `cache` 옵션 — 지시자 객체 또는 Cache-Control 헤더 문자열 그대로 */
+export type CacheOption = string | CacheControlDirectives;
+
+/** 응답마다 달라지지만 표현의 내용은 아닌 메타 필드 — ETag 계산에서 제외 */
+const VOLATILE_META_KEYS = ['timestamp'];
+
+function seconds(value: number): number {
+    return Math.max(0, Math.floor(value));
+}
+
+/** CacheOption → Cache-Control 헤더 값 */
+export function formatCacheControl(option: CacheOption): string {
+    if (typeof option === 'string') return option;
+
+    const parts: string[] = [];
+    if (option.public) parts.push('public');
+    if (option.private) parts.push('private');
+    if (option.noStore) parts.push('no-store');
+    if (option.noCache) parts.push('no-cache');
+    if (option.maxAge !== undefined) parts.push(`max-age=${seconds(option.maxAge)}`);
+    if (option.sMaxAge !== undefined) parts.push(`s-maxage=${seconds(option.sMaxAge)}`);
+    if (option.mustRevalidate) parts.push('must-revalidate');
+    if (option.staleWhileRevalidate !== undefined) {
+        parts.push(`stale-while-revalidate=${seconds(option.staleWhileRevalidate)}`);
+    }
+    if (option.staleIfError !== undefined) {
+        parts.push(`stale-if-error=${seconds(option.staleIfError)}`);
+    }
+    if (option.immutable) parts.push('immutable');
+    return parts.join(', ');
+}
+
+/**
+ * Cache-Control 을 붙이는 미들웨어.
+ * 에러 응답이 캐시되지 않도록 헤더는 전송 시점에 상태가 4xx/5xx 가 아닐 때만 설정하며,
+ * 핸들러가 직접 Cache-Control 을 지정했다면 덮어쓰지 않는다.
+ */
+export function cacheControl(option: CacheOption): RequestHandler {
+    const value = formatCacheControl(option);
+
+    return (_req: Request, res: Response, next: NextFunction) => {
+        const originalSend = res.send;
+
+        res.send = function (body?: any) {
+            if (res.statusCode < 400 && !res.get('Cache-Control')) {
+                res.setHeader('Cache-Control', value);
+            }
+            return originalSend.call(this, body);
+        };
+
+        next();
+    };
+}
+
+/** 페이로드의 약한(weak) ETag — `W/"<길이>-<sha1>"` */
+export function weakETag(payload: string | Buffer): string {
+    const buffer = typeof payload === 'string' ? Buffer.from(payload, 'utf8') : payload;
+    const hash = createHash('sha1').update(buffer).digest('base64').substring(0, 27);
+    return `W/"${buffer.length.toString(16)}-${hash}"`;
+}
+
+function withoutVolatileKeys(value: unknown): unknown {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+    const copy = { ...(value as Record<string, unknown>) };
+    for (const key of VOLATILE_META_KEYS) delete copy[key];
+    return copy;
+}
+
+/**
+ * JSON 응답 문서의 ETag.
+ * 최상위 `meta` / `metadata` 의 `timestamp` 처럼 요청마다 바뀌는 값은 빼고 계산하므로
+ * 데이터가 같으면 ETag 도 같다.
+ */
+export function documentETag(document: unknown): string {
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+        return weakETag(JSON.stringify(document) ?? '');
+    }
+    const doc = document as Record<string, unknown>;
+    const stable = {
+        ...doc,
+        ...('meta' in doc && { meta: withoutVolatileKeys(doc.meta) }),
+        ...('metadata' in doc && { metadata: withoutVolatileKeys(doc.metadata) }),
+    };
+    return weakETag(JSON.stringify(stable));
+}
+
+/**
+ * 레코드들의 날짜 필드 중 가장 최근 값 (Last-Modified 용).
+ * 필드가 없거나 날짜로 해석되지 않는 레코드는 건너뛴다.
+ */
+export function resolveLastModified(records: unknown[], field = 'updatedAt'): Date | undefined {
+    let latest: Date | undefined;
+    for (const record of records) {
+        const raw = (record as Record<string, unknown> | null | undefined)?.[field];
+        if (raw === undefined || raw === null) continue;
+        const date = raw instanceof Date ? raw : new Date(raw as string | number);
+        if (Number.isNaN(date.getTime())) continue;
+        if (!latest || date > latest) latest = date;
+    }
+    return latest;
+}
+
+/**
+ * 검증자(ETag, 선택적으로 Last-Modified)를 붙여 JSON 을 전송한다.
+ * 요청의 `If-None-Match` / `If-Modified-Since` 가 일치하면 Express 가 본문 없이 304 로 응답한다.
+ * 핸들러가 이미 ETag 를 지정했다면 그 값을 유지한다.
+ */
+export function sendConditionalJson(
+    res: Response,
+    body: unknown,
+    validators: { lastModified?: Date } = {},
+): void {
+    if (!res.get('ETag')) {
+        res.setHeader('ETag', documentETag(body));
+    }
+    if (validators.lastModified && !res.get('Last-Modified')) {
+        res.setHeader('Last-Modified', validators.lastModified.toUTCString());
+    }
+    // 304 판정(req.fresh)은 res.send 안에서 GET/HEAD 에 대해서만 이루어진다
+    res.json(body);
+}
@@ -11,6 +11,7 @@ export const JSON_API_ERROR_CODES = {
     PAGINATION_REQUIRED: 'PAGINATION_REQUIRED',
     INVALID_PAGINATION_PARAMS: 'INVALID_PAGINATION_PARAMS',
     INVALID_PAGE_SIZE: 'INVALID_PAGE_SIZE',
+    INVALID_CURSOR: 'INVALID_CURSOR',
 
     // 요청 검증 관련
     VALIDATION_ERROR: 'VALIDATION_ERROR',
@@ -141,6 +142,8 @@ export const HTTP_ERROR_CODES = {
     NOT_FOUND: 'NOT_FOUND',
     METHOD_NOT_ALLOWED: 'METHOD_NOT_ALLOWED',
     CONFLICT: 'CONFLICT',
+    PRECONDITION_FAILED: 'PRECONDITION_FAILED',
+    PRECONDITION_REQUIRED: 'PRECONDITION_REQUIRED',
     UNPROCESSABLE_ENTITY: 'UNPROCESSABLE_ENTITY',
     TOO_MANY_REQUESTS: 'TOO_MANY_REQUESTS',
     INTERNAL_SERVER_ERROR: 'INTERNAL_SERVER_ERROR',
@@ -154,6 +157,9 @@ export const HTTP_ERROR_CODES = {
  */
 export const MIDDLEWARE_ERROR_CODES = {
     RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
+    IDEMPOTENCY_KEY_REQUIRED: 'IDEMPOTENCY_KEY_REQUIRED',
+    IDEMPOTENCY_KEY_IN_USE: 'IDEMPOTENCY_KEY_IN_USE',
+    IDEMPOTENCY_KEY_MISMATCH: 'IDEMPOTENCY_KEY_MISMATCH',
     MIDDLEWARE_FAILED: 'MIDDLEWARE_FAILED',
     AUTHENTICATION_FAILED: 'AUTHENTICATION_FAILED',
     AUTHORIZATION_FAILED: 'AUTHORIZATION_FAILED',
@@ -208,6 +214,7 @@ export const ERROR_STATUS_MAP: Record<string, number> = {
     [ERROR_CODES.PAGINATION_REQUIRED]: 400,
     [ERROR_CODES.INVALID_PAGINATION_PARAMS]: 400,
     [ERROR_CODES.INVALID_PAGE_SIZE]: 400,
+    [ERROR_CODES.INVALID_CURSOR]: 400,
     [ERROR_CODES.VALIDATION_ERROR]: 400,
     [ERROR_CODES.INVALID_REQUEST]: 400,
     [ERROR_CODES.INVALID_REQUEST_FORMAT]: 400,
@@ -221,6 +228,7 @@ export const ERROR_STATUS_MAP: Record<string, number> = {
     [ERROR_CODES.INCLUDE_DEPTH_EXCEEDED]: 400,
     [ERROR_CODES.INCLUDE_NOT_ALLOWED]: 400,
     [ERROR_CODES.BAD_REQUEST]: 400,
+    [ERROR_CODES.IDEMPOTENCY_KEY_REQUIRED]: 400,
 
     // 401 Unauthorized
     [ERROR_CODES.UNAUTHORIZED]: 401,
@@ -248,6 +256,10 @@ export const ERROR_STATUS_MAP: Record<string, number> = {
     [ERROR_CODES.DUPLICATE_ENTRY]: 409,
     [ERROR_CODES.UNIQUE_CONSTRAINT_VIOLATION]: 409,
     [ERROR_CODES.OPTIMISTIC_LOCK_FAILED]: 409,
+    [ERROR_CODES.IDEMPOTENCY_KEY_IN_USE]: 409,
+
+    // 412 Precondition Failed (If-Match 불일치 — 낙관적 동시성)
+    [ERROR_CODES.PRECONDITION_FAILED]: 412,
 
     // 415 Unsupported Media Type
     [ERROR_CODES.UNSUPPORTED_MEDIA_TYPE]: 415,
@@ -260,6 +272,10 @@ export const ERROR_STATUS_MAP: Record<string, number> = {
     [ERROR_CODES.RELATIONSHIP_VIOLATION]: 422,
     [ERROR_CODES.DATA_VALIDATION_ERROR]: 422,
     [ERROR_CODES.VALUE_OUT_OF_RANGE]: 422,
+    [ERROR_CODES.IDEMPOTENCY_KEY_MISMATCH]: 422,
+
+    // 428 Precondition Required (If-Match 누락)
+    [ERROR_CODES.PRECONDITION_REQUIRED]: 428,
 
     // 429 Too Many Requests
     [ERROR_CODES.TOO_MANY_REQUESTS]: 429,
@@ -313,8 +329,10 @@ export const HTTP_STATUS_TEXT: Record<number, string> = {
     406: 'Not Acceptable',
     409: 'Conflict',
     410: 'Gone',
+    412: 'Precondition Failed',
     415: 'Unsupported Media Type',
     422: 'Unprocessable Entity',
+    428: 'Precondition Required',
     429: 'Too Many Requests',
     500: 'Internal Server Error',
     502: 'Bad Gateway',
@@ -14,6 +14,7 @@ import {
 import { JSON_API_VERSION } from '@lib/crud/jsonApiConstants';
 import { removeSensitiveInformation, sanitizePrismaMessage } from '@lib/http/errors/errorSanitizer';
 import { getImplementationString } from '@lib/config/packageInfo';
+import { getRequestId } from '@lib/http/requestContext';
 
 // JSON:API meta.implementation 문자열 — 단일 출처(@lib/config/packageInfo)에서 파생.
 const IMPLEMENTATION = getImplementationString();
@@ -388,12 +389,14 @@ export class ErrorHandler {
 
     /**
      * JSON:API 형식 에러 응답 생성
+     * 요청 안이면 `errors[].id` 에 요청 ID(X-Request-Id)를 실어 로그와 대조할 수 있게 한다.
      */
     private static formatJsonApiError(
         normalizedError: NormalizedError,
         context?: any,
     ): JsonApiErrorResponse {
-        const errorId = `error_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const errorId =
+            getRequestId() ?? `error_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         const status = context?.status || 500;
         const code = context?.code || ERROR_CODES.INTERNAL_ERROR;
 
@@ -0,0 +1,297 @@
+/**
+ * Idempotency-Key 미들웨어
+ *
+ * 클라이언트가 재시도해도 한 번만 처리되도록, `Idempotency-Key` 헤더별로 요청 지문과 응답을 저장한다.
+ * - 처음 보는 키: 키를 선점하고 핸들러를 실행한 뒤 응답(5xx 제외)을 저장한다.
+ * - 완료된 키 + 같은 요청: 저장된 응답을 `Idempotent-Replayed: true` 와 함께 그대로 재생한다.
+ * - 처리 중인 키: 409 (`IDEMPOTENCY_KEY_IN_USE`).
+ * - 같은 키 + 다른 요청(본문/경로가 다름): 422 (`IDEMPOTENCY_KEY_MISMATCH`).
+ * 키는 라우트와 인증 사용자(`req.kusto.user`)별로 나뉘므로 다른 사용자의 응답이 재생되지 않는다.
+ */
+import { createHash } from 'crypto';
+import type { Request, Response, RequestHandler, NextFunction } from 'express';
+import { log } from '@ext/winston';
+import { ERROR_CODES, getStatusText } from '@lib/http/errors/errorCodes';
+import { MemoryIdempotencyStore } from '@lib/http/idempotency/idempotencyStore';
+import type { IdempotencyStore, StoredResponse } from '@lib/http/idempotency/idempotencyStore';
+
+export interface IdempotencyOptions {
+    /** 키 저장소. 미지정 시 기본 저장소({@link setDefaultIdempotencyStore}) */
+    store?: IdempotencyStore;
+    /** 키를 읽을 헤더 (기본 `Idempotency-Key`) */
+    header?: string;
+    /** true 면 헤더가 없는 요청을 400 으로 거부 (기본 false — 헤더가 없으면 그냥 처리) */
+    required?: boolean;
+    /** 완료된 응답 보관 기간 ms (기본 24시간) */
+    ttlMs?: number;
+    /** 처리 중 잠금 유지 시간 ms. 프로세스가 죽어 완료되지 못한 키는 이 시간이 지나면 다시 쓸 수 있다 (기본 60초) */
+    lockTimeoutMs?: number;
+    /**
+     * 키 이름공간. 미지정 시 라우트에 붙으면 `<METHOD> <경로 패턴>`.
+     */
+    scope?: string;
+}
+
+/** 라우트 / CRUD 옵션 값 — `true` 는 기본 설정 */
+export type IdempotencyOption = IdempotencyOptions | true;
+
+/** OpenAPI 에 싣는 요약 (헤더 파라미터 + 409/422 응답) */
+export interface IdempotencyDoc {
+    header: string;
+    required: boolean;
+    ttlSeconds: number;
+}
+
+const DEFAULT_HEADER = 'Idempotency-Key';
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_LOCK_TIMEOUT_MS = 60_000;
+/** 키 길이 상한 (저장소 키 컬럼 보호) */
+const MAX_KEY_LENGTH = 255;
+/** 재생할 응답 헤더 */
+const REPLAYED_HEADERS = ['content-type', 'location', 'etag', 'last-modified'];
+
+let defaultStore: IdempotencyStore | undefined;
+
+/**
+ * 저장소를 지정하지 않은 라우트가 쓸 기본 저장소를 교체한다 (예: PrismaIdempotencyStore).
+ * 요청 시점에 읽으므로 라우트 로딩 전후 어느 때 호출해도 된다.
+ */
+export function setDefaultIdempotencyStore(store: IdempotencyStore): void {
+    defaultStore = store;
+}
+
+/** 현재 기본 저장소 (처음 호출 시 메모리 저장소 생성) */
+export function getDefaultIdempotencyStore(): IdempotencyStore {
+    if (!defaultStore) defaultStore = new MemoryIdempotencyStore();
+    return defaultStore;
+}
+
+function normalize(option: IdempotencyOption): IdempotencyOptions {
+    return option === true ? {} : option;
+}
+
+/** 옵션 → OpenAPI 요약 */
+export function describeIdempotency(option: IdempotencyOption): IdempotencyDoc {
+    const options = normalize(option);
+    return {
+        header: options.header ?? DEFAULT_HEADER,
+        required: options.required ?? false,
+        ttlSeconds: Math.ceil((options.ttlMs ?? DEFAULT_TTL_MS) / 1000),
+    };
+}
+
+/** multer 가 채운 업로드 파일 (single / array / fields / any) */
+function uploadedFiles(req: Request): any[] {
+    const { file, files } = req as { file?: unknown; files?: unknown };
+    if (files) return Array.isArray(files) ? files : Object.values(files).flat();
+    return file ? [file] : [];
+}
+
+/** 요청 지문 — 메서드, 경로(쿼리 포함), 본문, 업로드 파일 메타데이터의 해시 */
+export function requestFingerprint(req: Request): string {
+    const files = uploadedFiles(req).map((file) => ({
+        field: file?.fieldname,
+        name: file?.originalname,
+        size: file?.size,
+    }));
+    const payload = {
+        method: req.method,
+        url: req.originalUrl,
+        body: req.body ?? null,
+        ...(files.length > 0 ? { files } : {}),
+    };
+    return createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+}
+
+function resolveScope(req: Request, options: IdempotencyOptions): string {
+    if (options.scope) return options.scope;
+    return req.route ? `${req.method} ${req.baseUrl}${String(req.route.path)}` : 'global';
+}
+
+function resolvePrincipal(req: Request): string {
+    const id = req.kusto?.user?.id;
+    return id !== undefined ? `user:${id}` : 'anonymous';
+}
+
+function validateOptions(options: IdempotencyOptions): void {
+    if (options.ttlMs !== undefined && !(options.ttlMs > 0)) {
+        throw new Error(`idempotency: ttlMs must be positive (got ${options.ttlMs})`);
+    }
+    if (options.lockTimeoutMs !== undefined && !(options.lockTimeoutMs > 0)) {
+        throw new Error(
+            `idempotency: lockTimeoutMs must be positive (got ${options.lockTimeoutMs})`,
+        );
+    }
+}
+
+function sendIdempotencyError(
+    req: Request,
+    res: Response,
+    status: 400 | 409 | 422,
+    code: string,
+    detail: string,
+): void {
+    res.status(status).json({
+        errors: [
+            {
+                ...(req.requestId && { id: req.requestId }),
+                status: String(status),
+                code,
+                title: getStatusText(status) ?? 'Error',
+                detail,
+            },
+        ],
+    });
+}
+
+function replay(res: Response, response: StoredResponse): void {
+    for (const [name, value] of Object.entries(response.headers)) {
+        res.setHeader(name, value);
+    }
+    res.setHeader('Idempotent-Replayed', 'true');
+    res.status(response.statusCode).send(response.body);
+}
+
+/**
+ * 응답을 저장(5xx 면 선점 해제)한 뒤에 클라이언트로 보낸다.
+ * 응답을 받은 클라이언트가 곧바로 재시도해도 저장된 응답이 재생되도록 저장을 먼저 끝낸다.
+ * 본문 없이 `res.end()` 로 끝난 응답은 빈 본문으로 저장한다. 저장소 오류는 경고만 남긴다.
+ */
+function recordResponse(
+    req: Request,
+    res: Response,
+    store: IdempotencyStore,
+    key: string,
+    ttlMs: number,
+): void {
+    const warn = (error: unknown) =>
+        log.Warn('Idempotency store failed to record response', {
+            path: req.originalUrl,
+            error: error instanceof Error ? error.message : String(error),
+        });
+
+    const settle = async (body: string) => {
+        try {
+            if (res.statusCode >= 500) {
+                await store.release(key);
+                return;
+            }
+            const headers: Record<string, string> = {};
+            for (const name of REPLAYED_HEADERS) {
+                const value = res.getHeader(name);
+                if (value !== undefined) headers[name] = String(value);
+            }
+            await store.complete(key, { statusCode: res.statusCode, headers, body }, ttlMs);
+        } catch (error) {
+            warn(error);
+        }
+    };
+
+    let handled = false;
+    const send = res.send.bind(res);
+    // res.json 은 문자열로 다시 res.send 를 부르므로, 문자열/Buffer 호출에서만 가로챈다
+    res.send = ((payload?: unknown) => {
+        if (handled || (typeof payload !== 'string' && !Buffer.isBuffer(payload))) {
+            return send(payload);
+        }
+        handled = true;
+        const body = typeof payload === 'string' ? payload : payload.toString('utf8');
+        void settle(body).then(() => {
+            try {
+                send(payload);
+            } catch (error) {
+                warn(error);
+            }
+        });
+        return res;
+    }) as Response['send'];
+
+    res.on('finish', () => {
+        if (handled) return;
+        handled = true;
+        void settle('');
+    });
+    res.on('close', () => {
+        // 응답을 끝내지 못하고 연결이 끊기면 같은 키로 다시 시도할 수 있게 한다
+        if (handled) return;
+        handled = true;
+        store.release(key).catch(warn);
+    });
+}
+
+/**
+ * Idempotency-Key 미들웨어를 만든다. 잘못된 옵션은 생성 시(부팅 시) 에러를 던진다.
+ * 저장소 장애 시에는 요청을 막지 않고 경고만 남긴다 (fail-open — 멱등성 없이 처리).
+ */
+export function idempotency(option: IdempotencyOption = {}): RequestHandler {
+    const options = normalize(option);
+    validateOptions(options);
+    const header = options.header ?? DEFAULT_HEADER;
+    const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    const lockTimeoutMs = options.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const idempotencyKey = req.get(header)?.trim();
+        if (!idempotencyKey) {
+            if (!options.required) return next();
+            return sendIdempotencyError(
+                req,
+                res,
+                400,
+                ERROR_CODES.IDEMPOTENCY_KEY_REQUIRED,
+                `${header} header is required`,
+            );
+        }
+        if (idempotencyKey.length > MAX_KEY_LENGTH) {
+            return sendIdempotencyError(
+                req,
+                res,
+                400,
+                ERROR_CODES.BAD_REQUEST,
+                `${header} must be at most ${MAX_KEY_LENGTH} characters`,
+            );
+        }
+
+        const store = options.store ?? getDefaultIdempotencyStore();
+        const key = `${resolveScope(req, options)}|${resolvePrincipal(req)}|${idempotencyKey}`;
+        const fingerprint = requestFingerprint(req);
+
+        let existing;
+        try {
+            existing = await store.acquire(key, fingerprint, lockTimeoutMs);
+        } catch (error) {
+            log.Warn('Idempotency store failed; request processed without idempotency', {
+                path: req.originalUrl,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next();
+        }
+
+        if (!existing) {
+            recordResponse(req, res, store, key, ttlMs);
+            return next();
+        }
+
+        if (existing.fingerprint !== fingerprint) {
+            return sendIdempotencyError(
+                req,
+                res,
+                422,
+                ERROR_CODES.IDEMPOTENCY_KEY_MISMATCH,
+                `${header} was already used for a different request`,
+            );
+        }
+        if (existing.status === 'pending' || !existing.response) {
+            res.setHeader('Retry-After', '1');
+            return sendIdempotencyError(
+                req,
+                res,
+                409,
+                ERROR_CODES.IDEMPOTENCY_KEY_IN_USE,
+                `A request with this ${header} is still being processed`,
+            );
+        }
+
+        replay(res, existing.response);
+    };
+}
@@ -0,0 +1,206 @@
+/**
+ * 멱등성 키 저장소
+ *
+ * 키마다 요청 지문과 처리 상태(pending → completed), 완료된 응답을 보관한다.
+ * 같은 키의 동시 요청 중 하나만 처리되도록 `acquire` 는 원자적으로 키를 선점해야 한다.
+ * 여러 인스턴스가 키를 공유해야 하면 {@link PrismaIdempotencyStore} 나 같은 인터페이스의
+ * Redis 구현(`SET NX PX`)을 쓴다.
+ */
+import { prismaManager } from '@lib/data/database/prismaManager';
+
+/** 재생할 응답 */
+export interface StoredResponse {
+    statusCode: number;
+    headers: Record<string, string>;
+    body: string;
+}
+
+/** 키 하나의 상태 */
+export interface IdempotencyRecord {
+    /** 요청 지문 (메서드 + 경로 + 본문 해시) */
+    fingerprint: string;
+    /** pending: 처리 중, completed: 응답 저장됨 */
+    status: 'pending' | 'completed';
+    response?: StoredResponse;
+    /** 만료 시각 (epoch ms). pending 이면 잠금 만료 */
+    expiresAt: number;
+}
+
+/** 멱등성 저장소 인터페이스 */
+export interface IdempotencyStore {
+    /**
+     * 키를 선점한다. 키가 없거나 만료됐으면 pending 으로 만들고 null 을,
+     * 이미 있으면 기존 기록을 반환한다.
+     */
+    acquire(key: string, fingerprint: string, lockMs: number): Promise<IdempotencyRecord | null>;
+    /** 처리 완료 — 응답을 저장하고 만료를 ttlMs 뒤로 늘린다 */
+    complete(key: string, response: StoredResponse, ttlMs: number): Promise<void>;
+    /** 선점 해제 (처리 실패 시 같은 키로 재시도할 수 있도록) */
+    release(key: string): Promise<void>;
+}
+
+/** 만료된 항목을 훑는 최소 간격 */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * 프로세스 메모리 저장소 (기본값).
+ * 키는 프로세스마다 따로 보관되므로 여러 인스턴스로 띄우면 인스턴스 간 중복은 막지 못한다.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+    private records = new Map<string, IdempotencyRecord>();
+    private nextSweepAt = 0;
+
+    constructor(private readonly now: () => number = Date.now) {}
+
+    async acquire(
+        key: string,
+        fingerprint: string,
+        lockMs: number,
+    ): Promise<IdempotencyRecord | null> {
+        const now = this.now();
+        this.sweep(now);
+
+        const existing = this.records.get(key);
+        if (existing && existing.expiresAt > now) return { ...existing };
+
+        this.records.set(key, { fingerprint, status: 'pending', expiresAt: now + lockMs });
+        return null;
+    }
+
+    async complete(key: string, response: StoredResponse, ttlMs: number): Promise<void> {
+        const record = this.records.get(key);
+        if (!record) return;
+        this.records.set(key, {
+            ...record,
+            status: 'completed',
+            response,
+            expiresAt: this.now() + ttlMs,
+        });
+    }
+
+    async release(key: string): Promise<void> {
+        if (this.records.get(key)?.status === 'pending') this.records.delete(key);
+    }
+
+    private sweep(now: number): void {
+        if (now < this.nextSweepAt) return;
+        this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+
+        this.records.forEach((record, key) => {
+            if (record.expiresAt <= now) this.records.delete(key);
+        });
+    }
+}
+
+export interface PrismaIdempotencyStoreOptions {
+    /** prismaManager 에 등록된 데이터베이스 이름 */
+    database: string;
+    /** Prisma 클라이언트의 모델 delegate 이름 (기본 `idempotencyKey`) */
+    model?: string;
+}
+
+/**
+ * Prisma 테이블 저장소. 선점은 기본 키 유일 제약(P2002)으로 원자적으로 판정한다.
+ *
+ * ```prisma
+ * model IdempotencyKey {
+ *   key         String   @id
+ *   fingerprint String
+ *   status      String
+ *   statusCode  Int?
+ *   response    String?
+ *   expiresAt   DateTime
+ *   createdAt   DateTime @default(now())
+ * }
+ * ```
+ */
+export class PrismaIdempotencyStore implements IdempotencyStore {
+    private readonly database: string;
+    private readonly model: string;
+
+    constructor(options: PrismaIdempotencyStoreOptions) {
+        this.database = options.database;
+        this.model = options.model ?? 'idempotencyKey';
+    }
+
+    private async delegate(): Promise<any> {
+        const client: any = await prismaManager.getClient(this.database);
+        const delegate = client?.[this.model];
+        if (!delegate) {
+            throw new Error(
+                `PrismaIdempotencyStore: model '${this.model}' not found in database '${this.database}'`,
+            );
+        }
+        return delegate;
+    }
+
+    async acquire(
+        key: string,
+        fingerprint: string,
+        lockMs: number,
+    ): Promise<IdempotencyRecord | null> {
+        const delegate = await this.delegate();
+
+        // 만료된 행을 치우고 다시 선점하는 경쟁이 있을 수 있어 한 번 더 시도한다
+        for (let attempt = 0; attempt < 2; attempt++) {
+            const now = new Date();
+            try {
+                await delegate.create({
+                    data: {
+                        key,
+                        fingerprint,
+                        status: 'pending',
+                        expiresAt: new Date(now.getTime() + lockMs),
+                    },
+                });
+                return null;
+            } catch (error: any) {
+                if (error?.code !== 'P2002') throw error;
+            }
+
+            const row = await delegate.findUnique({ where: { key } });
+            if (row && new Date(row.expiresAt).getTime() > now.getTime()) {
+                return {
+                    fingerprint: row.fingerprint,
+                    status: row.status === 'completed' ? 'completed' : 'pending',
+                    ...(row.status === 'completed' && row.response
+                        ? {
+                              response: {
+                                  statusCode: row.statusCode,
+                                  ...JSON.parse(row.response),
+                              },
+                          }
+                        : {}),
+                    expiresAt: new Date(row.expiresAt).getTime(),
+                };
+            }
+            await delegate.deleteMany({ where: { key, expiresAt: { lte: now } } });
+        }
+        throw new Error(`PrismaIdempotencyStore: could not acquire key '${key}'`);
+    }
+
+    async complete(key: string, response: StoredResponse, ttlMs: number): Promise<void> {
+        const delegate = await this.delegate();
+        await delegate.updateMany({
+            where: { key },
+            data: {
+                status: 'completed',
+                statusCode: response.statusCode,
+                response: JSON.stringify({ headers: response.headers, body: response.body }),
+                expiresAt: new Date(Date.now() + ttlMs),
+            },
+        });
+    }
+
+    async release(key: string): Promise<void> {
+        const delegate = await this.delegate();
+        await delegate.deleteMany({ where: { key, status: 'pending' } });
+    }
+
+    /** 만료된 행 삭제 (스케줄러 등에서 주기적으로 호출). 삭제한 행 수를 반환 */
+    async purgeExpired(): Promise<number> {
+        const delegate = await this.delegate();
+        const result = await delegate.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+        return result.count;
+    }
+}
@@ -0,0 +1,213 @@
+import { createHash } from 'crypto';
+import type { Request, Response, RequestHandler, NextFunction } from 'express';
+import { log } from '@ext/winston';
+import { ERROR_CODES, getStatusText } from '@lib/http/errors/errorCodes';
+import { MemoryRateLimitStore } from '@lib/http/rateLimiting/rateLimitStore';
+import type { RateLimitStore } from '@lib/http/rateLimiting/rateLimitStore';
+
+/**
+ * 레이트 리밋 미들웨어
+ *
+ * 전역(`defaultGlobalMiddleware({ rateLimit })`), 라우트(`RouteDocOptions.rateLimit`),
+ * CRUD 액션(`rateLimit: { create: ... }`) 어디서든 같은 옵션으로 쓴다.
+ * 응답에는 표준 초안의 `RateLimit-Limit` / `RateLimit-Remaining` / `RateLimit-Reset` /
+ * `RateLimit-Policy` 헤더를 붙이고, 한도를 넘으면 `Retry-After` 와 함께 429 JSON:API 에러로 응답한다.
+ */
+
+/** 카운팅 알고리즘 */
+export type RateLimitAlgorithm = 'fixed-window' | 'token-bucket';
+
+/**
+ * 요청을 누구 몫으로 셀지.
+ * - `ip`: `req.ip` (Core 의 clientIpMiddleware 가 프록시 헤더에서 해석한 값)
+ * - `user`: `req.kusto.user.id` (Auth 미사용 앱은 `req.user.id`, 없으면 `sub`). 비로그인 요청은 IP 로 센다.
+ * - `apiKey`: API 키 헤더 값(해시해서 저장). 헤더가 없으면 IP 로 센다.
+ * - 함수: 직접 키를 만든다. undefined 를 반환하면 IP 로 센다.
+ */
+export type RateLimitKey = 'ip' | 'user' | 'apiKey' | ((req: Request) => string | undefined);
+
+export interface RateLimitOptions {
+    /** 윈도당 허용 요청 수 (token-bucket 이면 버킷 용량 = 최대 버스트) */
+    limit: number;
+    /** 윈도 길이 ms (token-bucket 이면 `limit` 개가 다시 채워지는 시간) */
+    windowMs: number;
+    /** 기본 `fixed-window` */
+    algorithm?: RateLimitAlgorithm;
+    /** 기본 `ip` */
+    key?: RateLimitKey;
+    /** `key: 'apiKey'` 가 읽는 헤더 (기본 `X-API-Key`) */
+    apiKeyHeader?: string;
+    /** 카운터 저장소. 미지정 시 기본 저장소({@link setDefaultRateLimitStore}) */
+    store?: RateLimitStore;
+    /**
+     * 카운터 이름공간. 같은 scope 의 리미터끼리 한도를 공유한다.
+     * 미지정 시 라우트에 붙으면 `<METHOD> <경로 패턴>`, 앱 전역이면 `global`.
+     */
+    scope?: string;
+    /** true 를 반환한 요청은 세지 않는다 (헬스체크, 내부 호출 등) */
+    skip?: (req: Request) => boolean;
+    /** 429 응답의 detail */
+    message?: string;
+}
+
+/** OpenAPI 에 싣는 리밋 요약 (`x-rate-limit`) */
+export interface RateLimitDoc {
+    limit: number;
+    windowSeconds: number;
+    algorithm: RateLimitAlgorithm;
+    key: 'ip' | 'user' | 'apiKey' | 'custom';
+}
+
+interface RateLimitDecision {
+    allowed: boolean;
+    remaining: number;
+    resetAt: number;
+}
+
+let defaultStore: RateLimitStore | undefined;
+
+/**
+ * 저장소를 지정하지 않은 리미터가 쓸 기본 저장소를 교체한다 (예: Redis 구현).
+ * 요청 시점에 읽으므로 라우트 로딩 전후 어느 때 호출해도 된다.
+ */
+export function setDefaultRateLimitStore(store: RateLimitStore): void {
+    defaultStore = store;
+}
+
+/** 현재 기본 저장소 (처음 호출 시 메모리 저장소 생성) */
+export function getDefaultRateLimitStore(): RateLimitStore {
+    if (!defaultStore) defaultStore = new MemoryRateLimitStore();
+    return defaultStore;
+}
+
+/** 옵션 → OpenAPI 요약 */
+export function describeRateLimit(options: RateLimitOptions): RateLimitDoc {
+    const key = options.key ?? 'ip';
+    return {
+        limit: options.limit,
+        windowSeconds: Math.ceil(options.windowMs / 1000),
+        algorithm: options.algorithm ?? 'fixed-window',
+        key: typeof key === 'function' ? 'custom' : key,
+    };
+}
+
+/** 요청의 카운팅 대상 키 (접두사로 종류를 구분) */
+export function resolveRateLimitKey(req: Request, options: RateLimitOptions): string {
+    const key = options.key ?? 'ip';
+
+    if (typeof key === 'function') {
+        const custom = key(req);
+        if (custom) return `custom:${custom}`;
+    } else if (key === 'user') {
+        const user = (req as { user?: { id?: unknown; sub?: unknown } }).user;
+        const id = req.kusto?.user?.id ?? user?.id ?? user?.sub;
+        if (id !== undefined && id !== null) return `user:${String(id)}`;
+    } else if (key === 'apiKey') {
+        const apiKey = req.get(options.apiKeyHeader ?? 'X-API-Key');
+        if (apiKey) {
+            // 저장소(예: Redis)에 비밀 값이 그대로 남지 않도록 해시한다
+            return `key:${createHash('sha256').update(apiKey).digest('hex').substring(0, 32)}`;
+        }
+    }
+
+    return `ip:${req.ip ?? req.socket?.remoteAddress ?? 'unknown'}`;
+}
+
+function resolveScope(req: Request, options: RateLimitOptions): string {
+    if (options.scope) return options.scope;
+    return req.route ? `${req.method} ${req.baseUrl}${String(req.route.path)}` : 'global';
+}
+
+function validateOptions(options: RateLimitOptions): void {
+    if (!Number.isInteger(options.limit) || options.limit <= 0) {
+        throw new Error(`rateLimit: limit must be a positive integer (got ${options.limit})`);
+    }
+    if (!(options.windowMs > 0)) {
+        throw new Error(`rateLimit: windowMs must be positive (got ${options.windowMs})`);
+    }
+}
+
+async function evaluate(
+    store: RateLimitStore,
+    key: string,
+    options: RateLimitOptions,
+): Promise<RateLimitDecision> {
+    if (options.algorithm === 'token-bucket') {
+        return store.consumeTokens(
+            key,
+            { capacity: options.limit, refillPerMs: options.limit / options.windowMs },
+            1,
+        );
+    }
+
+    const window = await store.incrementWindow(key, options.windowMs);
+    return {
+        allowed: window.count <= options.limit,
+        remaining: Math.max(0, options.limit - window.count),
+        resetAt: window.resetAt,
+    };
+}
+
+/**
+ * RateLimit-* 헤더 설정. 리미터가 여러 겹(전역 + 라우트)이면 남은 요청이 가장 적은 쪽을 보여 준다.
+ */
+function setRateLimitHeaders(
+    res: Response,
+    options: RateLimitOptions,
+    decision: RateLimitDecision,
+    resetSeconds: number,
+): void {
+    const previous = res.get('RateLimit-Remaining');
+    if (previous !== undefined && Number(previous) < decision.remaining) return;
+
+    res.setHeader('RateLimit-Limit', String(options.limit));
+    res.setHeader('RateLimit-Remaining', String(decision.remaining));
+    res.setHeader('RateLimit-Reset', String(resetSeconds));
+    res.setHeader('RateLimit-Policy', `${options.limit};w=${Math.ceil(options.windowMs / 1000)}`);
+}
+
+/**
+ * 레이트 리밋 미들웨어를 만든다. 잘못된 옵션은 생성 시(부팅 시) 에러를 던진다.
+ * 저장소 장애 시에는 요청을 막지 않고 경고만 남긴다 (fail-open).
+ */
+export function rateLimit(options: RateLimitOptions): RequestHandler {
+    validateOptions(options);
+
+    return async (req: Request, res: Response, next: NextFunction) => {
+        if (options.skip?.(req)) return next();
+
+        let decision: RateLimitDecision;
+        try {
+            const store = options.store ?? getDefaultRateLimitStore();
+            const key = `${resolveScope(req, options)}|${resolveRateLimitKey(req, options)}`;
+            decision = await evaluate(store, key, options);
+        } catch (error) {
+            log.Warn('Rate limit store failed; request allowed', {
+                path: req.originalUrl,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return next();
+        }
+
+        const resetSeconds = Math.max(0, Math.ceil((decision.resetAt - Date.now()) / 1000));
+        setRateLimitHeaders(res, options, decision, resetSeconds);
+
+        if (decision.allowed) return next();
+
+        const status = 429;
+        res.setHeader('Retry-After', String(Math.max(1, resetSeconds)));
+        res.status(status).json({
+            errors: [
+                {
+                    ...(req.requestId && { id: req.requestId }),
+                    status: String(status),
+                    code: ERROR_CODES.RATE_LIMIT_EXCEEDED,
+                    title: getStatusText(status) ?? 'Too Many Requests',
+                    detail:
+                        options.message ??
+                        `Rate limit of ${options.limit} requests per ${Math.ceil(options.windowMs / 1000)}s exceeded. Retry after ${Math.max(1, resetSeconds)}s.`,
+                },
+            ],
+        });
+    };
+}
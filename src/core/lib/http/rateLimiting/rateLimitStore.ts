@@ -0,0 +1,118 @@
+/**
+ * 레이트 리밋 카운터 저장소
+ *
+ * 알고리즘의 "읽고-계산하고-쓰기" 는 동시 요청 사이에서 원자적이어야 하므로,
+ * 저장소가 알고리즘 단위 연산(고정 윈도 증가 / 토큰 소비)을 직접 제공한다.
+ * 여러 인스턴스가 한도를 공유해야 하면 같은 인터페이스를 Redis 등으로 구현한다
+ * (고정 윈도는 `INCR` + `PEXPIRE`, 토큰 버킷은 Lua 스크립트 한 번으로 원자 실행).
+ */
+
+/** 고정 윈도 연산 결과 */
+export interface WindowState {
+    /** 증가 후 현재 윈도의 요청 수 */
+    count: number;
+    /** 윈도가 끝나는 시각 (epoch ms) */
+    resetAt: number;
+}
+
+/** 토큰 버킷 파라미터 */
+export interface TokenBucketParams {
+    /** 버킷 용량 (최대 버스트) */
+    capacity: number;
+    /** ms 당 채워지는 토큰 수 */
+    refillPerMs: number;
+}
+
+/** 토큰 버킷 연산 결과 */
+export interface BucketState {
+    /** 토큰을 소비했는지 (false 면 거절) */
+    allowed: boolean;
+    /** 소비 후 남은 토큰 (정수로 내림) */
+    remaining: number;
+    /** 버킷이 가득 차는 시각 (epoch ms) — 거절 시에는 다음 토큰이 생기는 시각 */
+    resetAt: number;
+}
+
+/** 레이트 리밋 저장소 인터페이스 */
+export interface RateLimitStore {
+    /** key 의 고정 윈도 카운터를 1 올린다. 윈도가 없거나 끝났으면 새 윈도를 연다. */
+    incrementWindow(key: string, windowMs: number): Promise<WindowState>;
+    /** key 의 버킷에서 토큰 `cost` 개 소비를 시도한다. 버킷이 없으면 가득 찬 상태로 만든다. */
+    consumeTokens(key: string, bucket: TokenBucketParams, cost: number): Promise<BucketState>;
+    /** key 의 상태 삭제 (테스트 / 관리자 해제용) */
+    reset(key: string): Promise<void>;
+}
+
+/** 만료된 항목을 훑는 최소 간격 */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * 프로세스 메모리 저장소 (기본값).
+ * 한도는 프로세스마다 따로 계산되므로 여러 인스턴스로 띄우면 실제 한도는 인스턴스 수만큼 늘어난다.
+ * 타이머 없이, 접근 시 일정 간격으로 만료 항목을 정리한다.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private windows = new Map<string, WindowState>();
+    private buckets = new Map<string, { tokens: number; updatedAt: number; fullAt: number }>();
+    private nextSweepAt = 0;
+
+    constructor(private readonly now: () => number = Date.now) {}
+
+    async incrementWindow(key: string, windowMs: number): Promise<WindowState> {
+        const now = this.now();
+        this.sweep(now);
+
+        const current = this.windows.get(key);
+        if (!current || current.resetAt <= now) {
+            const opened = { count: 1, resetAt: now + windowMs };
+            this.windows.set(key, opened);
+            return { ...opened };
+        }
+        current.count += 1;
+        return { ...current };
+    }
+
+    async consumeTokens(
+        key: string,
+        bucket: TokenBucketParams,
+        cost: number,
+    ): Promise<BucketState> {
+        const now = this.now();
+        this.sweep(now);
+
+        const state = this.buckets.get(key);
+        const elapsed = state ? now - state.updatedAt : 0;
+        const available = state
+            ? Math.min(bucket.capacity, state.tokens + elapsed * bucket.refillPerMs)
+            : bucket.capacity;
+
+        const allowed = available >= cost;
+        const tokens = allowed ? available - cost : available;
+        const fullAt = now + Math.ceil((bucket.capacity - tokens) / bucket.refillPerMs);
+        this.buckets.set(key, { tokens, updatedAt: now, fullAt });
+
+        return {
+            allowed,
+            remaining: Math.floor(tokens),
+            resetAt: allowed ? fullAt : now + Math.ceil((cost - tokens) / bucket.refillPerMs),
+        };
+    }
+
+    async reset(key: string): Promise<void> {
+        this.windows.delete(key);
+        this.buckets.delete(key);
+    }
+
+    /** 끝난 윈도와 가득 찬 버킷(없는 것과 같음)을 지운다 */
+    private sweep(now: number): void {
+        if (now < this.nextSweepAt) return;
+        this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+
+        this.windows.forEach((state, key) => {
+            if (state.resetAt <= now) this.windows.delete(key);
+        });
+        this.buckets.forEach((state, key) => {
+            if (state.fullAt <= now) this.buckets.delete(key);
+        });
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * 요청 컨텍스트 (AsyncLocalStorage)
+ *
+ * Core 가 등록하는 kustoInitMiddleware 가 요청마다 요청 ID 를 정해 컨텍스트를 연다.
+ * 이후 같은 요청에서 실행되는 모든 코드(미들웨어, 핸들러, repository, 로그)는
+ * {@link getRequestContext} 로 req 를 넘겨받지 않고도 현재 요청 ID 를 읽을 수 있다.
+ *
+ * 요청 밖(배치/스크립트/테스트)에서는 {@link runWithRequestContext} 로 컨텍스트를 명시한다.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+/** 요청 ID 를 주고받는 헤더 */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/** 클라이언트/프록시가 보낸 요청 ID 로 받아들일 형식 — 로그 인젝션을 막기 위해 문자 집합과 길이를 제한 */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export interface RequestContext {
+    /** 요청 상관관계 ID (X-Request-Id 로 받거나 생성) */
+    readonly requestId: string;
+    readonly method?: string;
+    readonly path?: string;
+    /** 요청 시작 시각 (epoch ms) */
+    readonly startedAt: number;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * 들어온 `X-Request-Id` 값이 유효하면 그대로, 없거나 형식에 맞지 않으면 새 UUID 를 반환한다.
+ * 헤더가 여러 번 오면 첫 값만 본다.
+ */
+export function resolveRequestId(incoming: string | string[] | undefined): string {
+    const candidate = Array.isArray(incoming) ? incoming[0] : incoming;
+    const trimmed = candidate?.trim();
+    return trimmed && REQUEST_ID_PATTERN.test(trimmed) ? trimmed : randomUUID();
+}
+
+/** 현재 요청 컨텍스트. 요청 밖이면 undefined */
+export function getRequestContext(): RequestContext | undefined {
+    return storage.getStore();
+}
+
+/** 현재 요청 ID. 요청 밖이면 undefined */
+export function getRequestId(): string | undefined {
+    return storage.getStore()?.requestId;
+}
+
+/**
+ * 컨텍스트를 열고 fn 을 실행한다. fn 에서 이어지는 비동기 작업까지 컨텍스트가 전파된다.
+ * `requestId` 를 생략하면 새로 생성한다.
+ */
+export function runWithRequestContext<R>(context: Partial<RequestContext>, fn: () => R): R {
+    return storage.run(
+        {
+            ...context,
+            requestId: context.requestId ?? randomUUID(),
+            startedAt: context.startedAt ?? Date.now(),
+        },
+        fn,
+    );
+}
@@ -39,6 +39,15 @@ import {
 import { CrudSchemaRegistry } from '@lib/devtools/schema-api/crudSchemaRegistry';
 import { PrismaSchemaAnalyzer } from '@lib/devtools/schema-api/prismaSchemaAnalyzer';
 import { syncSchemasFromAnalyzer, registerJsonApiErrorSchema } from '@lib/devtools/documentation';
+import { cacheControl } from '@lib/http/caching/httpCache';
+import type { CacheOption } from '@lib/http/caching/httpCache';
+import { rateLimit, describeRateLimit } from '@lib/http/rateLimiting/rateLimit';
+import type { RateLimitOptions, RateLimitDoc } from '@lib/http/rateLimiting/rateLimit';
+import type { CrudConcurrencyOptions } from '@lib/crud/optimisticConcurrency';
+import { Auth } from '@lib/http/auth/auth';
+import type { AuthRequirement, AuthDoc } from '@lib/http/auth/auth';
+import { idempotency, describeIdempotency } from '@lib/http/idempotency/idempotency';
+import type { IdempotencyOption, IdempotencyDoc } from '@lib/http/idempotency/idempotency';
 import { log } from '@ext/winston';
 import '@lib/types/express-extensions';
 
@@ -192,6 +201,17 @@ type ModelNamesFor<T extends DatabaseNamesUnion> = T extends keyof DatabaseClien
     ? ExtractModelNames<DatabaseClientMap[T]>
     : never;
 
+/** CRUD `events` 옵션 값: 이벤트 이름(레코드를 payload 로) 또는 `{ event, payload }` 를 만드는 함수 */
+export type CrudEventOption<R> =
+    | string
+    | ((
+          record: R,
+          req: Request,
+      ) =>
+          | { event: string; payload: unknown }
+          | null
+          | Promise<{ event: string; payload: unknown } | null>);
+
 // Re-export from middlewareHelpers for convenience
 export {
     MiddlewareHandlerFunction as MiddlewareHandler,
@@ -207,6 +227,9 @@ export {
 import { wrapMiddleware } from '@lib/http/routing/middlewareHelpers';
 
 import { CrudRouteBuilder } from '@lib/crud/crudRouteBuilder';
+import type { CrudPolicy } from '@lib/crud/crudPolicy';
+import type { CrudQueryParams } from '@lib/crud/crudHelpers';
+import type { CursorPageInfo } from '@lib/crud/cursorPagination';
 
 /** 라우트에 선택적으로 붙이는 OpenAPI 문서 메타데이터(verb 옵션 인자로 전달). */
 export interface RouteDocOptions {
@@ -220,6 +243,25 @@ export interface RouteDocOptions {
     operationId?: string;
     /** deprecated 표시. */
     deprecated?: boolean;
+    /**
+     * 성공 응답의 Cache-Control (GET 계열 라우트에만 적용).
+     * 예: `{ private: true, maxAge: 5 }` → `private, max-age=5`. 문자열은 헤더 값 그대로.
+     */
+    cache?: CacheOption;
+    /**
+     * 이 라우트의 레이트 리밋. 한도는 OpenAPI 에 `x-rate-limit` 과 429 응답으로 표시된다.
+     * 예: `{ limit: 10, windowMs: 60_000, key: 'user' }`.
+     */
+    rateLimit?: RateLimitOptions;
+}
+
+/** POST 계열 메서드 옵션 */
+export interface PostRouteOptions extends RouteDocOptions {
+    /**
+     * `Idempotency-Key` 헤더로 재시도를 한 번만 처리한다 (`true` 는 기본 설정).
+     * 같은 키의 재요청은 저장된 응답을 재생하고, 처리 중이면 409 로 응답한다.
+     */
+    idempotency?: IdempotencyOption;
 }
 
 export class ExpressRouter {
@@ -228,6 +270,8 @@ export class ExpressRouter {
     public basePath: string = '';
     /** 생성자에서 지정한 파일 기본 태그(라우트가 tags 를 안 주면 적용). */
     private defaultTag?: string;
+    /** `AUTH()` 이후 등록되는 라우트 문서에 싣는 인증 요구 조건 */
+    private authDoc?: AuthDoc;
     private pendingDocumentation: Array<{
         method: string;
         path: string;
@@ -239,6 +283,9 @@ export class ExpressRouter {
         tags?: string[];
         operationId?: string;
         deprecated?: boolean;
+        rateLimit?: RateLimitDoc;
+        auth?: AuthDoc;
+        idempotency?: IdempotencyDoc;
     }> = [];
 
     // 스키마 API 관련 인스턴스들 (개발 모드에서만 사용)
@@ -350,7 +397,7 @@ export class ExpressRouter {
         return async (req: Request, res: Response, next: NextFunction) => {
             try {
                 // Dependency injector에서 모든 injectable 모듈 가져오기
-                const injected = DependencyInjector.getInstance().getInjectedModules();
+                const injected = DependencyInjector.getInstance().getInjectedModules(req);
                 const result = await handler(req, res, injected, repositoryManager, prismaManager);
                 // serialize 지정 시에만 반환값을 정제해 전송(미지정 시 기존 동작 유지).
                 if (serialize && !res.headersSent && result !== undefined) {
@@ -362,6 +409,21 @@ export class ExpressRouter {
         };
     }
 
+    /** 라우트 옵션의 rateLimit 을 레이트 리밋 미들웨어로 (미지정 시 빈 배열). */
+    private rateLimitHandlers(options?: RouteDocOptions): RequestHandler[] {
+        return options?.rateLimit !== undefined ? [rateLimit(options.rateLimit)] : [];
+    }
+
+    /** POST 옵션의 idempotency 를 Idempotency-Key 미들웨어로 (미지정 시 빈 배열). */
+    private idempotencyHandlers(options?: PostRouteOptions): RequestHandler[] {
+        return options?.idempotency !== undefined ? [idempotency(options.idempotency)] : [];
+    }
+
+    /** 라우트 옵션의 cache 를 Cache-Control 미들웨어로 (미지정 시 빈 배열). */
+    private cacheHandlers(options?: RouteDocOptions): RequestHandler[] {
+        return options?.cache !== undefined ? [cacheControl(options.cache)] : [];
+    }
+
     /** 정확 경로 매칭용 미들웨어: 세그먼트 수가 slug 길이와 정확히 일치할 때만 통과. */
     private makeExactMatchMiddleware(slug: string[]): RequestHandler {
         return (req: Request, res: Response, next: NextFunction) => {
@@ -430,6 +492,9 @@ export class ExpressRouter {
                 ...(doc.operationId !== undefined ? { operationId: doc.operationId } : {}),
                 ...(doc.deprecated !== undefined ? { deprecated: doc.deprecated } : {}),
                 ...(doc.tags !== undefined ? { tags: doc.tags } : {}),
+                ...(doc.rateLimit !== undefined ? { rateLimit: doc.rateLimit } : {}),
+                ...(doc.auth !== undefined ? { auth: doc.auth } : {}),
+                ...(doc.idempotency !== undefined ? { idempotency: doc.idempotency } : {}),
                 parameters: {
                     query: doc.requestConfig?.query,
                     params: doc.requestConfig?.params,
@@ -457,7 +522,7 @@ export class ExpressRouter {
             contentType?: 'json' | 'jsonapi';
             defaultSummary?: string;
         },
-        options?: RouteDocOptions,
+        options?: PostRouteOptions,
     ): void {
         const summary = options?.summary ?? base.defaultSummary;
         const tags = options?.tags ?? (this.defaultTag ? [this.defaultTag] : undefined);
@@ -467,6 +532,13 @@ export class ExpressRouter {
             ...(options?.operationId !== undefined ? { operationId: options.operationId } : {}),
             ...(options?.deprecated !== undefined ? { deprecated: options.deprecated } : {}),
             ...(tags !== undefined ? { tags } : {}),
+            ...(options?.rateLimit !== undefined
+                ? { rateLimit: describeRateLimit(options.rateLimit) }
+                : {}),
+            ...(this.authDoc !== undefined ? { auth: this.authDoc } : {}),
+            ...(options?.idempotency !== undefined
+                ? { idempotency: describeIdempotency(options.idempotency) }
+                : {}),
         };
 
         if (this.basePath) {
@@ -539,7 +611,12 @@ export class ExpressRouter {
     public GET(handler: any, options?: any): ExpressRouter {
         const serialize = (options as { serialize?: ResponseSerializer<any> } | undefined)
             ?.serialize;
-        this.router.get('/', this.wrapHandler(handler, serialize));
+        this.router.get(
+            '/',
+            ...this.rateLimitHandlers(options),
+            ...this.cacheHandlers(options),
+            this.wrapHandler(handler, serialize),
+        );
 
         this.registerRouteDoc(
             'GET',
@@ -588,7 +665,12 @@ export class ExpressRouter {
         const serialize = (options as { serialize?: ResponseSerializer<any> } | undefined)
             ?.serialize;
         const slugPath = this.convertSlugsToPath(slug);
-        this.router.get(slugPath, this.wrapHandler(handler, serialize));
+        this.router.get(
+            slugPath,
+            ...this.rateLimitHandlers(options),
+            ...this.cacheHandlers(options),
+            this.wrapHandler(handler, serialize),
+        );
 
         this.registerRouteDoc(
             'GET',
@@ -620,12 +702,17 @@ export class ExpressRouter {
     ): ExpressRouter;
     public POST(
         handler: HandlerFunction,
-        options?: { serialize?: never } & RouteDocOptions,
+        options?: { serialize?: never } & PostRouteOptions,
     ): ExpressRouter;
     public POST(handler: any, options?: any): ExpressRouter {
         const serialize = (options as { serialize?: ResponseSerializer<any> } | undefined)
             ?.serialize;
-        this.router.post('/', this.wrapHandler(handler, serialize));
+        this.router.post(
+            '/',
+            ...this.rateLimitHandlers(options),
+            ...this.idempotencyHandlers(options),
+            this.wrapHandler(handler, serialize),
+        );
 
         this.registerRouteDoc(
             'POST',
@@ -662,13 +749,18 @@ export class ExpressRouter {
     public POST_SLUG(
         slug: string[],
         handler: HandlerFunction,
-        options?: { serialize?: never } & RouteDocOptions,
+        options?: { serialize?: never } & PostRouteOptions,
     ): ExpressRouter;
     public POST_SLUG(slug: string[], handler: any, options?: any): ExpressRouter {
         const serialize = (options as { serialize?: ResponseSerializer<any> } | undefined)
             ?.serialize;
         const slugPath = this.convertSlugsToPath(slug);
-        this.router.post(slugPath, this.wrapHandler(handler, serialize));
+        this.router.post(
+            slugPath,
+            ...this.rateLimitHandlers(options),
+            ...this.idempotencyHandlers(options),
+            this.wrapHandler(handler, serialize),
+        );
 
         this.registerRouteDoc(
             'POST',
@@ -699,12 +791,18 @@ export class ExpressRouter {
         handler: HandlerFunction,
         options?: {
             fileSize?: number;
-        } & RouteDocOptions,
+        } & PostRouteOptions,
     ): ExpressRouter {
         const fileSize = options?.fileSize ?? undefined;
         const upload = multer({ storage: multerStorageEngine, limits: { fileSize: fileSize } });
         const accpetFileType = upload.single(keyName);
-        this.router.post('/', accpetFileType, this.wrapHandler(handler));
+        this.router.post(
+            '/',
+            ...this.rateLimitHandlers(options),
+            accpetFileType,
+            ...this.idempotencyHandlers(options),
+            this.wrapHandler(handler),
+        );
 
         this.registerRouteDoc(
             'POST',
@@ -737,12 +835,18 @@ export class ExpressRouter {
         maxFileCount?: number,
         options?: {
             fileSize?: number;
-        } & RouteDocOptions,
+        } & PostRouteOptions,
     ): ExpressRouter {
         const fileSize = options?.fileSize ?? undefined;
         const upload = multer({ storage: multerStorageEngine, limits: { fileSize: fileSize } });
         const accpetFileType = upload.array(keyName, maxFileCount);
-        this.router.post('/', accpetFileType, this.wrapHandler(handler));
+        this.router.post(
+            '/',
+            ...this.rateLimitHandlers(options),
+            accpetFileType,
+            ...this.idempotencyHandlers(options),
+            this.wrapHandler(handler),
+        );
 
         this.registerRouteDoc(
             'POST',
@@ -774,12 +878,18 @@ export class ExpressRouter {
         handler: HandlerFunction,
         options?: {
             fileSize?: number;
-        } & RouteDocOptions,
+        } & PostRouteOptions,
     ): ExpressRouter {
         const fileSize = options?.fileSize ?? undefined;
         const upload = multer({ storage: multerStorageEngine, limits: { fileSize: fileSize } });
         const accpetFileType = upload.fields(fields);
-        this.router.post('/', accpetFileType, this.wrapHandler(handler));
+        this.router.post(
+            '/',
+            ...this.rateLimitHandlers(options),
+            accpetFileType,
+            ...this.idempotencyHandlers(options),
+            this.wrapHandler(handler),
+        );
 
         this.registerRouteDoc(
             'POST',
@@ -810,12 +920,18 @@ export class ExpressRouter {
         handler: HandlerFunction,
         options?: {
             fileSize?: number;
-        } & RouteDocOptions,
+        } & PostRouteOptions,
     ): ExpressRouter {
         const fileSize = options?.fileSize ?? undefined;
         const upload = multer({ storage: multerStorageEngine, limits: { fileSize: fileSize } });
         const accpetFileType = upload.any();
-        this.router.post('/', accpetFileType, this.wrapHandler(handler));
+        this.router.post(
+            '/',
+            ...this.rateLimitHandlers(options),
+            accpetFileType,
+            ...this.idempotencyHandlers(options),
+            this.wrapHandler(handler),
+        );
 
         this.registerRouteDoc(
             'POST',
@@ -853,7 +969,11 @@ export class ExpressRouter {
     public PUT(handler: any, options?: any): ExpressRouter {
         const serialize = (options as { serialize?: ResponseSerializer<any> } | undefined)
             ?.serialize;
-        this.router.put('/', this.wrapHandler(handler, serialize));
+        this.router.put(
+            '/',
+            ...this.rateLimitHandlers(options),
+            this.wrapHandler(handler, serialize),
+        );
 
         this.registerRouteDoc(
             'PUT',
@@ -889,7 +1009,12 @@ export class ExpressRouter {
         const fileSize = options?.fileSize ?? undefined;
         const upload = multer({ storage: multerStorageEngine, limits: { fileSize: fileSize } });
         const accpetFileType = upload.single(keyName);
-        this.router.put('/', accpetFileType, this.wrapHandler(handler));
+        this.router.put(
+            '/',
+            ...this.rateLimitHandlers(options),
+            accpetFileType,
+            this.wrapHandler(handler),
+        );
 
         this.registerRouteDoc(
             'PUT',
@@ -927,7 +1052,12 @@ export class ExpressRouter {
         const fileSize = options?.fileSize ?? undefined;
         const upload = multer({ storage: multerStorageEngine, limits: { fileSize: fileSize } });
         const accpetFileType = upload.array(keyName, maxFileCount);
-        this.router.put('/', accpetFileType, this.wrapHandler(handler));
+        this.router.put(
+            '/',
+            ...this.rateLimitHandlers(options),
+            accpetFileType,
+            this.wrapHandler(handler),
+        );
 
         this.registerRouteDoc(
             'PUT',
@@ -964,7 +1094,12 @@ export class ExpressRouter {
         const fileSize = options?.fileSize ?? undefined;
         const upload = multer({ storage: multerStorageEngine, limits: { fileSize: fileSize } });
         const accpetFileType = upload.fields(fields);
-        this.router.put('/', accpetFileType, this.wrapHandler(handler));
+        this.router.put(
+            '/',
+            ...this.rateLimitHandlers(options),
+            accpetFileType,
+            this.wrapHandler(handler),
+        );
 
         this.registerRouteDoc(
             'PUT',
@@ -1000,7 +1135,12 @@ export class ExpressRouter {
         const fileSize = options?.fileSize ?? undefined;
         const upload = multer({ storage: multerStorageEngine, limits: { fileSize: fileSize } });
         const accpetFileType = upload.any();
-        this.router.put('/', accpetFileType, this.wrapHandler(handler));
+        this.router.put(
+            '/',
+            ...this.rateLimitHandlers(options),
+            accpetFileType,
+            this.wrapHandler(handler),
+        );
 
         this.registerRouteDoc(
             'PUT',
@@ -1044,7 +1184,11 @@ export class ExpressRouter {
         const serialize = (options as { serialize?: ResponseSerializer<any> } | undefined)
             ?.serialize;
         const slugPath = this.convertSlugsToPath(slug);
-        this.router.put(slugPath, this.wrapHandler(handler, serialize));
+        this.router.put(
+            slugPath,
+            ...this.rateLimitHandlers(options),
+            this.wrapHandler(handler, serialize),
+        );
 
         this.registerRouteDoc(
             'PUT',
@@ -1082,7 +1226,11 @@ export class ExpressRouter {
     public DELETE(handler: any, options?: any): ExpressRouter {
         const serialize = (options as { serialize?: ResponseSerializer<any> } | undefined)
             ?.serialize;
-        this.router.delete('/', this.wrapHandler(handler, serialize));
+        this.router.delete(
+            '/',
+            ...this.rateLimitHandlers(options),
+            this.wrapHandler(handler, serialize),
+        );
 
         this.registerRouteDoc(
             'DELETE',
@@ -1125,7 +1273,11 @@ export class ExpressRouter {
         const serialize = (options as { serialize?: ResponseSerializer<any> } | undefined)
             ?.serialize;
         const slugPath = this.convertSlugsToPath(slug);
-        this.router.delete(slugPath, this.wrapHandler(handler, serialize));
+        this.router.delete(
+            slugPath,
+            ...this.rateLimitHandlers(options),
+            this.wrapHandler(handler, serialize),
+        );
 
         this.registerRouteDoc(
             'DELETE',
@@ -1162,7 +1314,11 @@ export class ExpressRouter {
     public PATCH(handler: any, options?: any): ExpressRouter {
         const serialize = (options as { serialize?: ResponseSerializer<any> } | undefined)
             ?.serialize;
-        this.router.patch('/', this.wrapHandler(handler, serialize));
+        this.router.patch(
+            '/',
+            ...this.rateLimitHandlers(options),
+            this.wrapHandler(handler, serialize),
+        );
 
         this.registerRouteDoc(
             'PATCH',
@@ -1205,7 +1361,11 @@ export class ExpressRouter {
         const serialize = (options as { serialize?: ResponseSerializer<any> } | undefined)
             ?.serialize;
         const slugPath = this.convertSlugsToPath(slug);
-        this.router.patch(slugPath, this.wrapHandler(handler, serialize));
+        this.router.patch(
+            slugPath,
+            ...this.rateLimitHandlers(options),
+            this.wrapHandler(handler, serialize),
+        );
 
         this.registerRouteDoc(
             'PATCH',
@@ -1299,18 +1459,40 @@ export class ExpressRouter {
         return this; // 메소드 체인을 위해 인스턴스 반환
     }
 
+    /**
+     * # AUTH
+     * 이후 등록되는 라우트에 인증을 요구한다 (`Auth.configure()` 로 등록한 전략 사용).
+     * 인증된 사용자는 `req.kusto.user` 로 읽고, 요구 조건은 OpenAPI `security` 로 문서화된다.
+     *
+     * ```typescript
+     * router.GET(publicHandler);                    // 인증 없음
+     * router.AUTH();                                // 여기부터 인증 필요
+     * router.GET_SLUG(['id'], handler);
+     * router.AUTH({ roles: ['admin'] });            // 이후 라우트는 admin 만
+     * router.DELETE_SLUG(['id'], handler);
+     * ```
+     */
+    public AUTH(requirement: AuthRequirement = {}): ExpressRouter {
+        this.router.use(Auth.middleware(requirement));
+        this.authDoc = Auth.describe(requirement);
+        return this;
+    }
+
     /**
      * Injectable 미들웨어를 적용하는 메서드
      *
      * 사용 예시:
      * - 파라미터 없이: router.WITH('authNoLoginOnly')
      * - 파라미터와 함께: router.WITH('rateLimiterDefault', { repositoryName: 'test', maxRequests: 10, windowMs: 60000 })
+     * - 내장 인증: router.WITH('auth', { roles: ['admin'] }) — 같은 이름의 injectable 미들웨어가 없으면 `AUTH()` 와 같다
      *
      * @param middlewareName 미들웨어 이름
      * @param params 미들웨어에 전달할 파라미터 (미들웨어에 따라 자동 결정)
      * @returns ExpressRouter 인스턴스
      */
 
+    public WITH(middlewareName: 'auth', params?: AuthRequirement): ExpressRouter;
+
     public WITH<T extends MiddlewareName>(middlewareName: T): ExpressRouter;
 
     public WITH<T extends MiddlewareName>(
@@ -1321,14 +1503,18 @@ export class ExpressRouter {
     ): ExpressRouter;
 
     public WITH<T extends MiddlewareName>(
-        middlewareName: T,
+        middlewareName: T | 'auth',
         params?: T extends keyof typeof MIDDLEWARE_PARAM_MAPPING
             ? MiddlewareParams[(typeof MIDDLEWARE_PARAM_MAPPING)[T]]
-            : never,
+            : AuthRequirement,
     ): ExpressRouter {
         try {
             const injector = DependencyInjector.getInstance();
-            const middlewareInstance = injector.getMiddleware(middlewareName);
+            const middlewareInstance = injector.getMiddleware(middlewareName as T);
+
+            if (!middlewareInstance && middlewareName === 'auth') {
+                return this.AUTH(params as AuthRequirement | undefined);
+            }
 
             if (!middlewareInstance) {
                 throw new Error(`Middleware '${middlewareName}' not found in dependency injector`);
@@ -1360,7 +1546,7 @@ export class ExpressRouter {
                             this.router.use((req: Request, res: Response, next: NextFunction) => {
                                 try {
                                     // Kusto 매니저를 Request 객체에 설정
-                                    req.kusto = kustoManager;
+                                    req.kusto = kustoManager.forRequest(req);
 
                                     // 파라미터가 있다면 req 객체에 추가
                                     if (params) {
@@ -1395,7 +1581,7 @@ export class ExpressRouter {
                     this.router.use((req: Request, res: Response, next: NextFunction) => {
                         try {
                             // Kusto 매니저를 Request 객체에 설정
-                            req.kusto = kustoManager;
+                            req.kusto = kustoManager.forRequest(req);
 
                             // 파라미터가 있다면 req 객체에 추가
                             if (params) {
@@ -1520,7 +1706,12 @@ export class ExpressRouter {
             },
             handler,
         );
-        this.router.get('/', ...middlewares);
+        this.router.get(
+            '/',
+            ...this.rateLimitHandlers(options),
+            ...this.cacheHandlers(options),
+            ...middlewares,
+        );
 
         this.registerRouteDoc(
             'GET',
@@ -1597,10 +1788,21 @@ export class ExpressRouter {
 
         if (options?.exact) {
             // 정확한 매칭: 하위 경로에 영향을 주지 않음
-            this.router.get(slugPath, this.makeExactMatchMiddleware(slug), ...middlewares);
+            this.router.get(
+                slugPath,
+                this.makeExactMatchMiddleware(slug),
+                ...this.rateLimitHandlers(options),
+                ...this.cacheHandlers(options),
+                ...middlewares,
+            );
         } else {
             // 기본 동작: 하위 경로도 매칭
-            this.router.get(slugPath, ...middlewares);
+            this.router.get(
+                slugPath,
+                ...this.rateLimitHandlers(options),
+                ...this.cacheHandlers(options),
+                ...middlewares,
+            );
         }
 
         return this;
@@ -1624,19 +1826,19 @@ export class ExpressRouter {
             repo: typeof repositoryManager,
             db: typeof prismaManager,
         ) => R | Promise<R>,
-        options: { serialize: Sz } & RouteDocOptions,
+        options: { serialize: Sz } & PostRouteOptions,
     ): ExpressRouter;
     public POST_VALIDATED<TConfig extends RequestConfig>(
         requestConfig: TConfig,
         responseConfig: ResponseConfig,
         handler: ValidatedHandlerFunction<TConfig>,
-        options?: { serialize?: never } & RouteDocOptions,
+        options?: { serialize?: never } & PostRouteOptions,
     ): ExpressRouter;
     public POST_VALIDATED<TConfig extends RequestConfig>(
         requestConfig: TConfig,
         responseConfig: ResponseConfig,
         handler: ValidatedHandlerFunction<TConfig>,
-        options?: { serialize?: ResponseSerializer<any> } & RouteDocOptions,
+        options?: { serialize?: ResponseSerializer<any> } & PostRouteOptions,
     ): ExpressRouter {
         // 헬퍼 메서드를 통해 호출자 위치 정보 획득
         const { filePath, lineNumber } = this.getCallerSourceInfo();
@@ -1650,7 +1852,12 @@ export class ExpressRouter {
             },
             handler,
         );
-        this.router.post('/', ...middlewares);
+        this.router.post(
+            '/',
+            ...this.rateLimitHandlers(options),
+            ...this.idempotencyHandlers(options),
+            ...middlewares,
+        );
 
         this.registerRouteDoc(
             'POST',
@@ -1685,21 +1892,21 @@ export class ExpressRouter {
             repo: typeof repositoryManager,
             db: typeof prismaManager,
         ) => R | Promise<R>,
-        options: { exact?: boolean; serialize: Sz } & RouteDocOptions,
+        options: { exact?: boolean; serialize: Sz } & PostRouteOptions,
     ): ExpressRouter;
     public POST_SLUG_VALIDATED<TConfig extends RequestConfig>(
         slug: string[],
         requestConfig: TConfig,
         responseConfig: ResponseConfig,
         handler: ValidatedHandlerFunction<TConfig>,
-        options?: { exact?: boolean } & RouteDocOptions,
+        options?: { exact?: boolean } & PostRouteOptions,
     ): ExpressRouter;
     public POST_SLUG_VALIDATED<TConfig extends RequestConfig>(
         slug: string[],
         requestConfig: TConfig,
         responseConfig: ResponseConfig,
         handler: ValidatedHandlerFunction<TConfig>,
-        options?: { exact?: boolean; serialize?: ResponseSerializer<any> } & RouteDocOptions,
+        options?: { exact?: boolean; serialize?: ResponseSerializer<any> } & PostRouteOptions,
     ): ExpressRouter {
         // 헬퍼 메서드를 통해 호출자 위치 정보 획득
         const { filePath, lineNumber } = this.getCallerSourceInfo();
@@ -1727,9 +1934,20 @@ export class ExpressRouter {
         );
 
         if (options?.exact) {
-            this.router.post(slugPath, this.makeExactMatchMiddleware(slug), ...middlewares);
+            this.router.post(
+                slugPath,
+                this.makeExactMatchMiddleware(slug),
+                ...this.rateLimitHandlers(options),
+                ...this.idempotencyHandlers(options),
+                ...middlewares,
+            );
         } else {
-            this.router.post(slugPath, ...middlewares);
+            this.router.post(
+                slugPath,
+                ...this.rateLimitHandlers(options),
+                ...this.idempotencyHandlers(options),
+                ...middlewares,
+            );
         }
 
         return this;
@@ -1780,7 +1998,7 @@ export class ExpressRouter {
             handler,
         );
 
-        this.router.put('/', ...middlewares);
+        this.router.put('/', ...this.rateLimitHandlers(options), ...middlewares);
 
         this.registerRouteDoc(
             'PUT',
@@ -1839,7 +2057,7 @@ export class ExpressRouter {
             },
             handler,
         );
-        this.router.delete('/', ...middlewares);
+        this.router.delete('/', ...this.rateLimitHandlers(options), ...middlewares);
 
         this.registerRouteDoc(
             'DELETE',
@@ -1899,7 +2117,7 @@ export class ExpressRouter {
             handler,
         );
 
-        this.router.patch('/', ...middlewares);
+        this.router.patch('/', ...this.rateLimitHandlers(options), ...middlewares);
 
         this.registerRouteDoc(
             'PATCH',
@@ -1976,10 +2194,15 @@ export class ExpressRouter {
 
         if (options?.exact) {
             // 정확한 매칭: 하위 경로에 영향을 주지 않음
-            this.router.patch(slugPath, this.makeExactMatchMiddleware(slug), ...middlewares);
+            this.router.patch(
+                slugPath,
+                this.makeExactMatchMiddleware(slug),
+                ...this.rateLimitHandlers(options),
+                ...middlewares,
+            );
         } else {
             // 기본 동작: 하위 경로도 매칭
-            this.router.patch(slugPath, ...middlewares);
+            this.router.patch(slugPath, ...this.rateLimitHandlers(options), ...middlewares);
         }
 
         return this;
@@ -2167,10 +2390,15 @@ export class ExpressRouter {
 
         if (options?.exact) {
             // 정확한 매칭: 하위 경로에 영향을 주지 않음
-            this.router.put(slugPath, this.makeExactMatchMiddleware(slug), ...middlewares);
+            this.router.put(
+                slugPath,
+                this.makeExactMatchMiddleware(slug),
+                ...this.rateLimitHandlers(options),
+                ...middlewares,
+            );
         } else {
             // 기본 동작: 하위 경로도 매칭
-            this.router.put(slugPath, ...middlewares);
+            this.router.put(slugPath, ...this.rateLimitHandlers(options), ...middlewares);
         }
 
         return this;
@@ -2264,10 +2492,15 @@ export class ExpressRouter {
 
         if (options?.exact) {
             // 정확한 매칭: 하위 경로에 영향을 주지 않음
-            this.router.delete(slugPath, this.makeExactMatchMiddleware(slug), ...middlewares);
+            this.router.delete(
+                slugPath,
+                this.makeExactMatchMiddleware(slug),
+                ...this.rateLimitHandlers(options),
+                ...middlewares,
+            );
         } else {
             // 기본 동작: 하위 경로도 매칭
-            this.router.delete(slugPath, ...middlewares);
+            this.router.delete(slugPath, ...this.rateLimitHandlers(options), ...middlewares);
         }
 
         return this;
@@ -2372,6 +2605,37 @@ export class ExpressRouter {
              */
             defaultIncludes?: string[];
 
+            /**
+             * index / show 성공 응답의 Cache-Control.
+             * 두 라우트는 항상 ETag(show 는 `updatedAt` 이 있으면 Last-Modified 도)를 붙이고
+             * 조건부 요청이 일치하면 304 로 응답한다.
+             */
+            cache?: CacheOption;
+
+            /**
+             * 낙관적 동시성 제어. 지정하면 응답에 토큰을 ETag 와 리소스 `meta.etag` 로 노출하고,
+             * update / destroy 는 `If-Match` 가 없으면 428, 토큰이 현재 행과 다르면 412 로 거절한다.
+             * @example concurrency: { field: 'version' } // version Int @default(0)
+             */
+            concurrency?: CrudConcurrencyOptions;
+
+            /**
+             * 액션별 레이트 리밋. 관계 엔드포인트는 조회면 show, 변경이면 update 의 한도를 함께 쓴다.
+             * @example rateLimit: { create: { limit: 10, windowMs: 60_000, key: 'user' } }
+             */
+            rateLimit?: Partial<
+                Record<
+                    'index' | 'show' | 'create' | 'update' | 'destroy' | 'recover',
+                    RateLimitOptions
+                >
+            >;
+
+            /**
+             * create 와 atomic 라우트의 Idempotency-Key 처리. 같은 키로 재시도하면 저장된 응답을 재생한다.
+             * @example idempotency: { store: new PrismaIdempotencyStore({ database: 'main' }) }
+             */
+            idempotency?: IdempotencyOption;
+
             /** Soft Delete 설정 */
             softDelete?: {
                 enabled: boolean;
@@ -2388,6 +2652,12 @@ export class ExpressRouter {
                 recover?: MiddlewareHandlerFunction[];
             };
 
+            /**
+             * 선언적 접근 정책. 액션 허용 여부 / 속성별 읽기·쓰기 규칙 / 행 수준 where 스코프를
+             * 요청(req)마다 평가하여 모든 CRUD·relationship·atomic 라우트에 적용한다.
+             */
+            policy?: CrudPolicy<ExtractModelType<T, M>>;
+
             /** 요청 검증 설정 */
             validation?: {
                 create?: RequestConfig;
@@ -2408,6 +2678,28 @@ export class ExpressRouter {
                     req: Request,
                 ) => Promise<ExtractFindUniqueArgsType<T, M>> | ExtractFindUniqueArgsType<T, M>;
 
+                // 조회 결과 후처리용 훅 (계산 필드 부착, 조회 감사 등). 배열/객체를 반환하면 응답 대상을 교체
+                afterIndex?: (
+                    items: ExtractModelResultType<T, M>[],
+                    meta: {
+                        // cursor 페이지네이션에서는 count 를 생략하므로 undefined
+                        total?: number;
+                        page?: CrudQueryParams['page'];
+                        cursor?: CursorPageInfo;
+                    },
+                    req: Request,
+                ) =>
+                    | Promise<ExtractModelResultType<T, M>[] | void>
+                    | ExtractModelResultType<T, M>[]
+                    | void;
+                afterShow?: (
+                    item: ExtractModelResultType<T, M>,
+                    req: Request,
+                ) =>
+                    | Promise<ExtractModelResultType<T, M> | void>
+                    | ExtractModelResultType<T, M>
+                    | void;
+
                 // 생성용 훅
                 beforeCreate?: (
                     data: ExtractModelType<T, M>,
@@ -2440,6 +2732,17 @@ export class ExpressRouter {
                 ) => Promise<ExtractModelResultType<T, M>> | ExtractModelResultType<T, M>;
             };
 
+            /**
+             * 도메인 이벤트(transactional outbox). 생성/수정과 같은 트랜잭션에서 outbox 테이블에 기록되어
+             * 롤백된 쓰기의 이벤트는 남지 않고, 커밋된 이벤트는 Outbox 디스패처가 배달한다.
+             * 문자열이면 레코드를 payload 로 쓰고, 함수는 `{ event, payload }` 를 반환한다 (null 이면 생략).
+             * atomic operations 의 add/update 에도 적용된다.
+             */
+            events?: {
+                create?: CrudEventOption<ExtractModelResultType<T, M>>;
+                update?: CrudEventOption<ExtractModelResultType<T, M>>;
+            };
+
             /**
              * 응답 정제(root 리소스). 기존 ResponseSerializer 재사용({pick}/{omit}/함수).
              * primary 모델로 강타입. JSON:API 식별자(primaryKey)는 항상 보존된다.
@@ -2490,6 +2793,7 @@ export class ExpressRouter {
     public registerDocumentation(method: string, path: string, config: any): void {
         // CRUD 엔드포인트도 생성자 기본 태그를 따른다(미지정 시 빌드 단계에서 경로 자동 파생).
         const tags = config.tags ?? (this.defaultTag ? [this.defaultTag] : undefined);
+        const auth = config.auth ?? this.authDoc;
         if (this.basePath) {
             DocumentationGenerator.registerRoute({
                 method,
@@ -2497,6 +2801,7 @@ export class ExpressRouter {
                 contentType: 'jsonapi',
                 ...config,
                 ...(tags !== undefined ? { tags } : {}),
+                ...(auth !== undefined ? { auth } : {}),
             });
         } else {
             this.pendingDocumentation.push({
@@ -2517,6 +2822,9 @@ export class ExpressRouter {
                 ...(config.description !== undefined ? { description: config.description } : {}),
                 ...(config.operationId !== undefined ? { operationId: config.operationId } : {}),
                 ...(config.deprecated !== undefined ? { deprecated: config.deprecated } : {}),
+                ...(config.rateLimit !== undefined ? { rateLimit: config.rateLimit } : {}),
+                ...(config.idempotency !== undefined ? { idempotency: config.idempotency } : {}),
+                ...(auth !== undefined ? { auth } : {}),
                 ...(tags !== undefined ? { tags } : {}),
             });
         }
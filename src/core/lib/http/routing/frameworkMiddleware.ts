@@ -2,6 +2,11 @@ import { Request, Response, NextFunction } from 'express';
 import '@lib/types/express-extensions';
 import { kustoManager } from '@lib/data/di/kustoManager';
 import { ErrorHandler, ErrorResponseFormat } from '@lib/http/errors/errorHandler';
+import {
+    REQUEST_ID_HEADER,
+    resolveRequestId,
+    runWithRequestContext,
+} from '@lib/http/requestContext';
 
 /**
  * 프레임워크 필수 미들웨어(Core 소유).
@@ -11,12 +16,24 @@ import { ErrorHandler, ErrorResponseFormat } from '@lib/http/errors/errorHandler
  * 소비자에게 전달되지 못했다. 이제 Core 가 직접 등록한다(요청마다 항상 실행).
  */
 
-/** `req.kusto`(통합 리소스 접근 facade)를 주입한다. 모든 핸들러보다 먼저 실행. */
-export function kustoInitMiddleware(req: Request, _res: Response, next: NextFunction): void {
+/**
+ * `req.kusto`(통합 리소스 접근 facade)를 주입하고 요청 컨텍스트를 연다. 모든 핸들러보다 먼저 실행.
+ *
+ * `X-Request-Id` 를 받으면(형식이 유효할 때) 그대로 쓰고 없으면 생성해 `req.requestId` 와
+ * 응답 헤더에 싣는다. 이후 체인은 AsyncLocalStorage 컨텍스트 안에서 실행되므로
+ * `getRequestContext()` 와 로그에서 같은 ID 를 볼 수 있다.
+ */
+export function kustoInitMiddleware(req: Request, res: Response, next: NextFunction): void {
     if (!req.kusto) {
-        req.kusto = kustoManager;
+        req.kusto = kustoManager.forRequest(req);
     }
-    next();
+    const requestId = req.requestId || resolveRequestId(req.headers['x-request-id']);
+    req.requestId = requestId;
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    runWithRequestContext(
+        { requestId, method: req.method, path: req.originalUrl, startedAt: Date.now() },
+        next,
+    );
 }
 
 /**
@@ -5,6 +5,8 @@ import helmet from 'helmet';
 import bodyParser from 'body-parser';
 import { log } from '@ext/winston';
 import { JSON_API_CONTENT_TYPE } from '@lib/crud/jsonApiConstants';
+import { rateLimit } from '@lib/http/rateLimiting/rateLimit';
+import type { RateLimitOptions } from '@lib/http/rateLimiting/rateLimit';
 
 /**
  * 기본 글로벌 미들웨어 "정책" 스택(Core 제공, 교체 가능).
@@ -25,6 +27,8 @@ export interface GlobalMiddlewareOptions {
     helmet?: Parameters<typeof helmet>[0];
     /** 요청 로깅(Footwalk) 비활성화. */
     disableRequestLog?: boolean;
+    /** 모든 요청에 적용할 레이트 리밋(미지정 시 제한 없음). 429 에도 CORS 헤더가 붙도록 cors 뒤에 둔다. */
+    rateLimit?: RateLimitOptions;
 }
 
 /** CORS 화이트리스트 — env `CORS_WHITELIST`(JSON 배열 또는 콤마 구분). */
@@ -87,7 +91,7 @@ function requestLogMiddleware(req: Request, _res: Response, next: NextFunction):
 
 /**
  * 기본 글로벌 미들웨어 정책 스택을 반환한다(순서대로).
- * helmet → cors → cookieParser → body(json+urlencoded) → requestLog.
+ * helmet → cors → (rateLimit) → cookieParser → body(json+urlencoded) → requestLog.
  */
 export function defaultGlobalMiddleware(options: GlobalMiddlewareOptions = {}): RequestHandler[] {
     const limit = options.bodyLimit ?? '50mb';
@@ -95,6 +99,8 @@ export function defaultGlobalMiddleware(options: GlobalMiddlewareOptions = {}):
     const stack: RequestHandler[] = [
         helmet(options.helmet ?? DEFAULT_HELMET),
         cors(buildCorsOptions(whitelist)),
+        // 본문을 파싱하기 전에 거절해 초과 요청의 비용을 줄인다
+        ...(options.rateLimit ? [rateLimit({ scope: 'global', ...options.rateLimit })] : []),
         cookieParser(),
         bodyParser.json({ type: ['application/json', JSON_API_CONTENT_TYPE], limit }),
         bodyParser.urlencoded({ extended: true, limit }),
@@ -5,6 +5,7 @@ import { log } from '@ext/winston';
 import { normalizeSlash, getElapsedTimeInString } from '@ext/util';
 import { DocumentationGenerator } from '@lib/devtools/documentation/documentationGenerator';
 import { defaultGlobalMiddleware } from '@lib/http/routing/globalMiddleware';
+import { routeBaseMarker } from '@lib/http/routing/routePattern';
 
 // Webpack 빌드 환경에서 자동 생성된 라우트 맵 가져오기 (빌드 타임에 생성된 파일)
 let routesMap: Record<string, Router> = {};
@@ -730,7 +731,8 @@ async function loadRoutes(app: Express, dir?: string): Promise<void> {
                 // 문서화 경로 업데이트를 위해 라우트 로드 전후의 등록된 라우트 수 추적
                 const routeCountBefore = DocumentationGenerator.getRouteCount();
 
-                app.use(routePath, ...middlewares, route);
+                // routeBaseMarker: 메트릭 라벨용 마운트 패턴 기록 (req.baseUrl 은 실제 URL 이라서)
+                app.use(routePath, routeBaseMarker(routePath), ...middlewares, route);
 
                 const routeCountAfter = DocumentationGenerator.getRouteCount();
 
@@ -49,10 +49,10 @@ export function wrapMiddleware(handler: MiddlewareHandlerFunction): RequestHandl
         const safeNext = onceNext(next);
         try {
             // Kusto 매니저를 Request 객체에 설정
-            req.kusto = kustoManager;
+            req.kusto = kustoManager.forRequest(req);
 
             // Dependency injector에서 모든 injectable 모듈 가져오기
-            const injected = DependencyInjector.getInstance().getInjectedModules();
+            const injected = DependencyInjector.getInstance().getInjectedModules(req);
             await handler(req, res, safeNext, injected, repositoryManager, prismaManager);
         } catch (error) {
             safeNext(error);
@@ -70,10 +70,10 @@ export function wrapValidatedMiddleware(
         const safeNext = onceNext(next);
         try {
             // Kusto 매니저를 Request 객체에 설정
-            req.kusto = kustoManager;
+            req.kusto = kustoManager.forRequest(req);
 
             // Dependency injector에서 모든 injectable 모듈 가져오기
-            const injected = DependencyInjector.getInstance().getInjectedModules();
+            const injected = DependencyInjector.getInstance().getInjectedModules(req);
             const result = await handler(
                 req as ValidatedRequest,
                 res,
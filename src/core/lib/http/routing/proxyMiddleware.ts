@@ -81,6 +81,8 @@ function buildOutboundHeaders(
     headers['x-forwarded-for'] = prevXff ? `${prevXff}, ${clientIp}` : clientIp;
     headers['x-forwarded-proto'] = req.protocol;
     if (req.headers['host']) headers['x-forwarded-host'] = req.headers['host'];
+    // 업스트림 로그와 대조할 수 있도록 이 요청의 ID 를 그대로 전달한다
+    if (req.requestId) headers['x-request-id'] = req.requestId;
 
     if (options.headers) {
         for (const [k, v] of Object.entries(options.headers)) {
@@ -131,6 +133,7 @@ function sendProxyError(err: NodeJS.ErrnoException, req: Request, res: Response)
     res.status(status).json({
         errors: [
             {
+                ...(req.requestId && { id: req.requestId }),
                 status: String(status),
                 code,
                 title: getStatusText(status) ?? 'Bad Gateway',
@@ -0,0 +1,32 @@
+import type { Request, RequestHandler } from 'express';
+
+const ROUTE_BASE = Symbol('kusto.routeBase');
+
+/**
+ * loadRoutes 가 라우트 디렉터리를 마운트할 때 맨 앞에 붙이는 마커.
+ *
+ * 파일 기반 라우트는 `/users/:userId` 처럼 파라미터가 들어간 경로에 마운트되는데,
+ * Express 의 `req.baseUrl` 은 패턴이 아니라 실제 URL(`/users/42`)이다.
+ * 메트릭 라벨은 패턴이어야 카디널리티가 유지되므로 마운트 패턴을 요청에 기록해 둔다.
+ */
+export function routeBaseMarker(pattern: string): RequestHandler {
+    const base = pattern === '/' ? '' : pattern.replace(/\/$/, '');
+    return (req, _res, next) => {
+        (req as unknown as Record<symbol, string>)[ROUTE_BASE] = base;
+        next();
+    };
+}
+
+/**
+ * 매칭된 라우트의 전체 패턴(`/users/:userId/posts/:id`)을 반환한다.
+ * 라우트가 매칭되지 않았으면(404 등) undefined.
+ */
+export function resolveRoutePattern(req: Request): string | undefined {
+    const routePath = (req as { route?: { path?: unknown } }).route?.path;
+    if (typeof routePath !== 'string') return undefined;
+
+    const marked = (req as unknown as Record<symbol, string | undefined>)[ROUTE_BASE];
+    const base = marked ?? req.baseUrl ?? '';
+    if (routePath === '/') return base || '/';
+    return base + routePath;
+}
@@ -1,16 +1,42 @@
 ﻿import { Request, Response, NextFunction, RequestHandler as ExpressRequestHandler } from 'express';
-import { Validator, Schema, FieldSchema } from '@lib/http/validation/validator';
+import {
+    Validator,
+    Schema,
+    FieldSchema,
+    UnknownFieldsMode,
+    ValidationResult,
+} from '@lib/http/validation/validator';
 import { log } from '@ext/winston';
 import { DependencyInjector } from '@lib/data/di/dependencyInjector';
 import { Injectable } from '@lib/types/generated-injectable-types';
 import { prismaManager } from '@lib/data/database/prismaManager';
 import { repositoryManager } from '@lib/data/database/repositoryManager';
 import { ResponseSerializer, applyResponseSerializer } from '@lib/http/serialization/serializer';
+import {
+    StandardSchemaV1,
+    StandardValidationOutcome,
+    isStandardSchema,
+    validateStandardSchema,
+} from '@lib/http/validation/standardSchema';
+
+/**
+ * A request source schema: the framework's own field map, or any Standard Schema
+ * implementation (Zod, Valibot, ArkType, ...).
+ */
+export type RequestSchema = Schema | StandardSchemaV1;
 
 export interface RequestConfig {
-    body?: Schema;
-    query?: Schema;
-    params?: Schema;
+    body?: RequestSchema;
+    query?: RequestSchema;
+    params?: RequestSchema;
+    /**
+     * 스키마에 없는 필드 처리 ('strip' 기본값 | 'reject' → 422 | 'allow').
+     * 소스별로 다르게 지정하려면 `{ body: 'reject', query: 'allow' }` 형태로 쓴다.
+     * Standard Schema 소스에는 적용되지 않는다 (라이브러리의 object 정책을 따름).
+     */
+    unknownFields?:
+        | UnknownFieldsMode
+        | Partial<Record<'body' | 'query' | 'params', UnknownFieldsMode>>;
 }
 
 export interface ResponseConfig {
@@ -38,43 +64,74 @@ export interface HandlerConfig {
 
 export interface ValidatedRequest<TConfig extends RequestConfig = RequestConfig> extends Request {
     validatedData: {
-        body: TConfig['body'] extends Schema ? InferValidatedData<TConfig['body']> : any;
-        query: TConfig['query'] extends Schema ? InferValidatedData<TConfig['query']> : any;
-        params: TConfig['params'] extends Schema ? InferValidatedData<TConfig['params']> : any;
+        body: InferRequestSchema<TConfig['body']>;
+        query: InferRequestSchema<TConfig['query']>;
+        params: InferRequestSchema<TConfig['params']>;
     };
 }
 
-// Type to infer validated data structure from schema
+// Standard Schema sources infer from the library's output type, framework schemas from their fields
+type InferRequestSchema<T> = [T] extends [StandardSchemaV1]
+    ? StandardSchemaV1.InferOutput<T>
+    : [T] extends [Schema]
+      ? InferValidatedData<T>
+      : any;
+
+// Type to infer validated data structure from schema (fields with a default are never undefined)
 type InferValidatedData<T extends Schema> = {
     [K in keyof T]: T[K] extends { required: true }
         ? ExtractFieldType<T[K]>
-        : T[K] extends { required: false }
-          ? ExtractFieldType<T[K]> | undefined
+        : T[K] extends { default: infer D }
+          ? undefined extends D
+              ? ExtractFieldType<T[K]> | undefined
+              : ExtractFieldType<T[K]>
           : ExtractFieldType<T[K]> | undefined;
 };
 
+// Distributes a oneOf variant union into the union of each variant's inferred type
+type ExtractVariantType<V> = V extends FieldSchema ? ExtractFieldType<V> : never;
+
 // Helper type to extract field types based on FieldSchema
-export type ExtractFieldType<T extends FieldSchema> = T['type'] extends 'string'
+export type ExtractFieldType<T extends FieldSchema> = T extends {
+    transform: (value: any) => infer R;
+}
+    ? R
+    : T extends { enum: readonly (infer E)[] }
+      ? E
+      : ExtractBaseFieldType<T>;
+
+// Type inferred from `type` alone (before enum / transform narrowing)
+type ExtractBaseFieldType<T extends FieldSchema> = T['type'] extends 'string'
     ? string
-    : T['type'] extends 'number'
+    : T['type'] extends 'number' | 'integer'
       ? number
-      : T['type'] extends 'boolean'
-        ? boolean
-        : T['type'] extends 'array'
-          ? any[]
-          : T['type'] extends 'object'
-            ? any
-            : T['type'] extends 'email'
-              ? string
-              : T['type'] extends 'url'
-                ? string
-                : T['type'] extends 'file'
-                  ? any
-                  : T['type'] extends 'binary'
-                    ? any
-                    : T['type'] extends 'buffer'
-                      ? Buffer
-                      : any;
+      : T['type'] extends 'date'
+        ? Date
+        : T['type'] extends 'uuid'
+          ? string
+          : T['type'] extends 'boolean'
+            ? boolean
+            : T['type'] extends 'array'
+              ? T extends { items: infer I extends FieldSchema }
+                  ? ExtractFieldType<I>[]
+                  : any[]
+              : T['type'] extends 'object'
+                ? T extends { oneOf: (infer V)[] }
+                    ? ExtractVariantType<V>
+                    : T extends { properties: infer P extends Schema }
+                      ? InferValidatedData<P>
+                      : any
+                : T['type'] extends 'email'
+                  ? string
+                  : T['type'] extends 'url'
+                    ? string
+                    : T['type'] extends 'file'
+                      ? any
+                      : T['type'] extends 'binary'
+                        ? any
+                        : T['type'] extends 'buffer'
+                          ? Buffer
+                          : any;
 
 export interface ApiResponse {
     success: boolean;
@@ -94,48 +151,60 @@ export class RequestHandler {
         return (req: ValidatedRequest, res: Response, next: NextFunction) => {
             const errors: any[] = [];
             const validatedData: any = {};
-
-            // Body 검증
-            if (config.body) {
-                const bodyResult = Validator.validateBody(req.body, config.body);
-                if (!bodyResult.isValid) {
-                    errors.push(...bodyResult.errors.map((err) => ({ ...err, source: 'body' })));
+            const pending: Promise<void>[] = [];
+
+            const collect = (
+                source: 'body' | 'query' | 'params',
+                outcome: StandardValidationOutcome | ValidationResult,
+            ) => {
+                if (outcome.errors.length > 0) {
+                    errors.push(...outcome.errors.map((err) => ({ ...err, source })));
                 } else {
-                    validatedData.body = bodyResult.data;
+                    validatedData[source] = outcome.data;
                 }
-            }
-
-            // Query 검증
-            if (config.query) {
-                const queryResult = Validator.validateQuery(req.query, config.query);
-                if (!queryResult.isValid) {
-                    errors.push(...queryResult.errors.map((err) => ({ ...err, source: 'query' })));
-                } else {
-                    validatedData.query = queryResult.data;
+            };
+
+            for (const source of ['body', 'query', 'params'] as const) {
+                const schema = config[source];
+                if (!schema) continue;
+
+                // Standard Schema (Zod 등) — 비동기 검증을 지원하므로 Promise 결과는 모아서 기다린다
+                if (isStandardSchema(schema)) {
+                    const outcome = validateStandardSchema(schema, req[source]);
+                    if (outcome instanceof Promise) {
+                        pending.push(outcome.then((resolved) => collect(source, resolved)));
+                    } else {
+                        collect(source, outcome);
+                    }
+                    continue;
                 }
+
+                const options = {
+                    unknownFields:
+                        typeof config.unknownFields === 'object'
+                            ? config.unknownFields[source]
+                            : config.unknownFields,
+                };
+                collect(source, Validator.validate(req[source], schema, options));
             }
 
-            // Params 검증
-            if (config.params) {
-                const paramsResult = Validator.validateParams(req.params, config.params);
-                if (!paramsResult.isValid) {
-                    errors.push(
-                        ...paramsResult.errors.map((err) => ({ ...err, source: 'params' })),
-                    );
-                } else {
-                    validatedData.params = paramsResult.data;
+            const finish = () => {
+                // 검증 실패 시 에러 응답
+                if (errors.length > 0) {
+                    // 개발자를 위한 자세한 로깅
+                    log.Silly(`Validation errors for ${req.method} ${req.originalUrl}`, {
+                        errors,
+                    });
+                    return this.sendError(res, 422, 'Validation failed', errors);
                 }
-            }
-            // 검증 실패 시 에러 응답
-            if (errors.length > 0) {
-                // 개발자를 위한 자세한 로깅
-                log.Silly(`Validation errors for ${req.method} ${req.originalUrl}`, { errors });
-                return this.sendError(res, 422, 'Validation failed', errors);
-            }
 
-            // 검증된 데이터를 request 객체에 저장
-            req.validatedData = validatedData;
-            next();
+                // 정규화된 데이터(default / 타입 변환 / transform 적용)를 request 객체에 저장
+                req.validatedData = validatedData;
+                next();
+            };
+
+            if (pending.length === 0) return finish();
+            Promise.all(pending).then(finish, next);
         };
     }
 
@@ -400,7 +469,7 @@ export class RequestHandler {
             const vreq = req as ValidatedRequest;
             try {
                 // Dependency injector에서 모든 injectable 모듈 가져오기
-                const injected = DependencyInjector.getInstance().getInjectedModules();
+                const injected = DependencyInjector.getInstance().getInjectedModules(req);
 
                 const result = await handler(vreq, res, injected, repositoryManager, prismaManager);
 
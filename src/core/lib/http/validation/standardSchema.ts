@@ -0,0 +1,128 @@
+/**
+ * Standard Schema (https://standardschema.dev) 어댑터
+ *
+ * Zod, Valibot, ArkType 등 Standard Schema 를 구현한 검증 라이브러리의 스키마를
+ * `*_VALIDATED` 라우터 메서드의 `RequestConfig.body/query/params` 에 그대로 쓸 수 있게 한다.
+ * 스펙 권고에 따라 인터페이스 타입은 런타임 의존성 없이 여기에 복제해 둔다.
+ */
+import type { ValidationError } from '@lib/http/validation/validator';
+
+/** Standard Schema v1 인터페이스 (`@standard-schema/spec` 와 구조적으로 호환) */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+    readonly '~standard': StandardSchemaV1.Props<Input, Output>;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export declare namespace StandardSchemaV1 {
+    interface Props<Input = unknown, Output = Input> {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (
+            value: unknown,
+            options?: Options | undefined,
+        ) => Result<Output> | Promise<Result<Output>>;
+        readonly types?: Types<Input, Output> | undefined;
+        /** Standard JSON Schema 확장 (지원하는 라이브러리만 제공) */
+        readonly jsonSchema?: JsonSchemaConverter | undefined;
+    }
+
+    type Result<Output> = SuccessResult<Output> | FailureResult;
+
+    interface SuccessResult<Output> {
+        readonly value: Output;
+        readonly issues?: undefined;
+    }
+
+    interface FailureResult {
+        readonly issues: ReadonlyArray<Issue>;
+    }
+
+    interface Options {
+        readonly libraryOptions?: Record<string, unknown> | undefined;
+    }
+
+    interface Issue {
+        readonly message: string;
+        readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+    }
+
+    interface PathSegment {
+        readonly key: PropertyKey;
+    }
+
+    interface Types<Input = unknown, Output = Input> {
+        readonly input: Input;
+        readonly output: Output;
+    }
+
+    interface JsonSchemaConverter {
+        readonly input: (options: { readonly target: string }) => Record<string, unknown>;
+        readonly output: (options: { readonly target: string }) => Record<string, unknown>;
+    }
+
+    type InferInput<S extends StandardSchemaV1> = NonNullable<S['~standard']['types']>['input'];
+    type InferOutput<S extends StandardSchemaV1> = NonNullable<S['~standard']['types']>['output'];
+}
+
+/** 검증 결과 — 성공 시 라이브러리가 반환한 (변환된) 값, 실패 시 프레임워크 에러 형식 */
+export interface StandardValidationOutcome {
+    data?: unknown;
+    errors: ValidationError[];
+}
+
+/** 값이 Standard Schema 구현체인지 판별 */
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+    if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+        return false;
+    }
+    const props = (value as Record<string, any>)['~standard'];
+    return (
+        typeof props === 'object' &&
+        props !== null &&
+        props.version === 1 &&
+        typeof props.validate === 'function'
+    );
+}
+
+/** issue path 를 Validator 와 같은 `lines[1].sku` 형식 문자열로 변환 */
+function formatIssuePath(path: StandardSchemaV1.Issue['path']): string {
+    if (!path || path.length === 0) return '';
+    let out = '';
+    for (const segment of path) {
+        const key = typeof segment === 'object' && segment !== null ? segment.key : segment;
+        if (typeof key === 'number') out += `[${key}]`;
+        else out += out ? `.${String(key)}` : String(key);
+    }
+    return out;
+}
+
+function toOutcome(result: StandardSchemaV1.Result<unknown>, data: unknown) {
+    if (!result.issues) {
+        return { data: result.value, errors: [] };
+    }
+    return {
+        errors: result.issues.map((issue) => {
+            const field = formatIssuePath(issue.path);
+            return {
+                field,
+                message: field ? `${field}: ${issue.message}` : issue.message,
+                value: field ? undefined : data,
+            };
+        }),
+    };
+}
+
+/**
+ * Standard Schema 로 값을 검증한다.
+ * 라이브러리의 validate 가 동기 결과를 반환하면 동기로, Promise 를 반환하면 Promise 로 돌려준다.
+ */
+export function validateStandardSchema(
+    schema: StandardSchemaV1,
+    data: unknown,
+): StandardValidationOutcome | Promise<StandardValidationOutcome> {
+    const result = schema['~standard'].validate(data);
+    if (result instanceof Promise) {
+        return result.then((resolved) => toOutcome(resolved, data));
+    }
+    return toOutcome(result, data);
+}
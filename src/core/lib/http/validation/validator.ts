@@ -15,7 +15,10 @@ export interface ValidationResult {
 export type ValidatorType =
     | 'string'
     | 'number'
+    | 'integer'
     | 'boolean'
+    | 'date'
+    | 'uuid'
     | 'array'
     | 'object'
     | 'email'
@@ -24,19 +27,37 @@ export type ValidatorType =
     | 'binary'
     | 'buffer';
 
+/**
+ * 스키마에 정의되지 않은 필드 처리 방식
+ * - strip : 조용히 제거 (기본값)
+ * - reject: 검증 실패 (`<field> is not allowed`)
+ * - allow : 그대로 통과
+ */
+export type UnknownFieldsMode = 'strip' | 'reject' | 'allow';
+
+export interface ValidateOptions {
+    unknownFields?: UnknownFieldsMode;
+}
+
 export interface FieldSchema {
     type: ValidatorType;
     required?: boolean;
     min?: number;
     max?: number;
     pattern?: RegExp;
-    enum?: any[];
+    enum?: readonly any[]; // Allowed values — declare with `as const` to infer a literal union type
     custom?: (value: any) => boolean | string;
+    default?: any; // Value (or factory function) used when the field is missing
+    transform?: (value: any) => any; // Applied to the coerced value after all checks pass
     // File upload detection properties
     format?: string; // Format specification (e.g., 'binary', 'base64')
     contentType?: string; // Content-Type header for file uploads
     mediaType?: string; // MIME type specification
     properties?: { [key: string]: FieldSchema }; // Nested properties for object types
+    items?: FieldSchema; // Element schema for array types (use type: 'object' + properties for arrays of objects)
+    uniqueItems?: boolean; // Array elements must be distinct (objects are compared structurally)
+    oneOf?: FieldSchema[]; // Union variants — the value must match exactly one of them
+    discriminator?: string; // Tag property that selects the oneOf variant (variant declares it with enum)
     example?: any; // Example value for documentation and validation
     description?: string; // Human-readable description for documentation
     // Security and sensitivity markers
@@ -48,30 +69,48 @@ export interface Schema {
     [key: string]: FieldSchema;
 }
 
+/** 필드 하나의 검증 결과 (정규화된 값 포함) */
+interface FieldOutcome {
+    errors: ValidationError[];
+    value: any;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export class Validator {
+    /**
+     * 필드 하나를 검증하고 정규화된 값(default 적용, 타입 변환, transform)을 함께 반환한다.
+     */
     private static validateField(
         value: any,
         fieldName: string,
         schema: FieldSchema,
-    ): ValidationError[] {
+        options: ValidateOptions = {},
+    ): FieldOutcome {
         const errors: ValidationError[] = [];
+        const isMissing = (v: any) => v === undefined || v === null || v === '';
+
+        // 기본값 적용 (값이 없을 때만)
+        if (isMissing(value) && schema.default !== undefined) {
+            value = typeof schema.default === 'function' ? schema.default() : schema.default;
+        }
 
         // Required 체크
-        if (schema.required && (value === undefined || value === null || value === '')) {
+        if (schema.required && isMissing(value)) {
             errors.push({
                 field: fieldName,
                 message: `${fieldName} is required`,
                 value,
             });
-            return errors;
+            return { errors, value };
         }
 
         // 값이 없고 required가 아니면 검증 통과
-        if (value === undefined || value === null || value === '') {
-            return errors;
+        if (isMissing(value)) {
+            return { errors, value };
         }
 
-        // 타입 검증
+        // 타입 검증 (+ 문자열 입력의 number/integer/boolean/date 변환)
         switch (schema.type) {
             case 'string':
                 if (typeof value !== 'string') {
@@ -83,14 +122,22 @@ export class Validator {
                 }
                 break;
 
-            case 'number': {
-                const numValue = typeof value === 'string' ? parseFloat(value) : value;
-                if (isNaN(numValue) || typeof numValue !== 'number') {
+            case 'number':
+            case 'integer': {
+                const numValue =
+                    typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+                if (typeof numValue !== 'number' || isNaN(numValue)) {
                     errors.push({
                         field: fieldName,
                         message: `${fieldName} must be a number`,
                         value,
                     });
+                } else if (schema.type === 'integer' && !Number.isInteger(numValue)) {
+                    errors.push({
+                        field: fieldName,
+                        message: `${fieldName} must be an integer`,
+                        value,
+                    });
                 } else {
                     value = numValue; // 변환된 값으로 업데이트
                 }
@@ -117,6 +164,35 @@ export class Validator {
                 }
                 break;
 
+            case 'date': {
+                const dateValue =
+                    value instanceof Date
+                        ? value
+                        : typeof value === 'string' || typeof value === 'number'
+                          ? new Date(value)
+                          : null;
+                if (!dateValue || isNaN(dateValue.getTime())) {
+                    errors.push({
+                        field: fieldName,
+                        message: `${fieldName} must be a valid date`,
+                        value,
+                    });
+                } else {
+                    value = dateValue;
+                }
+                break;
+            }
+
+            case 'uuid':
+                if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+                    errors.push({
+                        field: fieldName,
+                        message: `${fieldName} must be a valid UUID`,
+                        value,
+                    });
+                }
+                break;
+
             case 'array':
                 if (!Array.isArray(value)) {
                     errors.push({
@@ -229,7 +305,7 @@ export class Validator {
             }
         }
 
-        // Enum 검증
+        // Enum 검증 (변환된 값 기준)
         if (schema.enum && errors.length === 0) {
             if (!schema.enum.includes(value)) {
                 errors.push({
@@ -240,6 +316,13 @@ export class Validator {
             }
         }
 
+        // 배열 요소 / 중첩 객체 / oneOf 검증 (하위 에러는 `items[0].name` 형태의 경로로 보고)
+        if (errors.length === 0) {
+            const nested = this.validateNested(value, fieldName, schema, options);
+            errors.push(...nested.errors);
+            value = nested.value;
+        }
+
         // 커스텀 검증
         if (schema.custom && errors.length === 0) {
             const customResult = schema.custom(value);
@@ -258,67 +341,228 @@ export class Validator {
             }
         }
 
-        return errors;
-    }
+        // 최종 값 변환
+        if (schema.transform && errors.length === 0) {
+            value = schema.transform(value);
+        }
 
-    private static isValidEmail(email: string): boolean {
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        return emailRegex.test(email);
+        return { errors, value };
     }
 
-    private static isValidUrl(url: string): boolean {
-        try {
-            new URL(url);
-            return true;
-        } catch {
-            return false;
+    private static validateNested(
+        value: any,
+        fieldName: string,
+        schema: FieldSchema,
+        options: ValidateOptions,
+    ): FieldOutcome {
+        const errors: ValidationError[] = [];
+
+        if (Array.isArray(value)) {
+            if (schema.items) {
+                value = value.map((item, index) => {
+                    const outcome = this.validateField(
+                        item,
+                        `${fieldName}[${index}]`,
+                        schema.items!,
+                        options,
+                    );
+                    errors.push(...outcome.errors);
+                    return outcome.value;
+                });
+            }
+            if (schema.uniqueItems) {
+                const seen = new Set<string>();
+                value.forEach((item: any, index: number) => {
+                    const key = this.stableStringify(item);
+                    if (seen.has(key)) {
+                        errors.push({
+                            field: `${fieldName}[${index}]`,
+                            message: `${fieldName} must not contain duplicate items`,
+                            value: item,
+                        });
+                    }
+                    seen.add(key);
+                });
+            }
+        } else if (typeof value === 'object' && schema.properties) {
+            const result = this.validateObject(value, schema.properties, options, `${fieldName}.`);
+            errors.push(...result.errors);
+            value = result.value;
+        }
+
+        if (schema.oneOf && errors.length === 0) {
+            return this.validateOneOf(value, fieldName, schema, options);
         }
+
+        return { errors, value };
     }
 
-    static validate(data: any, schema: Schema): ValidationResult {
+    /**
+     * 객체의 각 필드를 스키마로 검증하고, 스키마 밖의 필드는 unknownFields 모드로 처리한다.
+     * @param prefix 에러 경로 접두사 (최상위는 빈 문자열, 중첩 객체는 `parent.`)
+     */
+    private static validateObject(
+        data: any,
+        schema: Schema,
+        options: ValidateOptions,
+        prefix: string = '',
+    ): FieldOutcome {
         const errors: ValidationError[] = [];
-        const validatedData: any = {};
+        const source = data || {};
+        const mode = options.unknownFields || 'strip';
+        const normalized: any = {};
 
         // 스키마에 정의된 필드들 검증
         for (const [fieldName, fieldSchema] of Object.entries(schema)) {
-            const fieldErrors = this.validateField(data[fieldName], fieldName, fieldSchema);
-            errors.push(...fieldErrors);
+            const outcome = this.validateField(
+                source[fieldName],
+                `${prefix}${fieldName}`,
+                fieldSchema,
+                options,
+            );
+            errors.push(...outcome.errors);
+
+            // 에러가 없으면 정규화된 값을 추가
+            if (outcome.errors.length === 0 && outcome.value !== undefined) {
+                normalized[fieldName] = outcome.value;
+            }
+        }
 
-            // 에러가 없으면 검증된 데이터에 추가
-            if (fieldErrors.length === 0) {
-                if (data[fieldName] !== undefined) {
-                    validatedData[fieldName] = data[fieldName];
-                }
+        // 스키마에 없는 추가 필드들 처리
+        const extraFields = Object.keys(source).filter(
+            (key) => !Object.prototype.hasOwnProperty.call(schema, key),
+        );
+        if (extraFields.length > 0) {
+            if (mode === 'reject') {
+                extraFields.forEach((key) =>
+                    errors.push({
+                        field: `${prefix}${key}`,
+                        message: `${prefix}${key} is not allowed`,
+                        value: source[key],
+                    }),
+                );
+            } else if (mode === 'allow') {
+                extraFields.forEach((key) => (normalized[key] = source[key]));
+            } else if (process.env.NODE_ENV !== 'production') {
+                // 개발 환경에서만 로그 출력
+                log.Debug(
+                    `Extra fields ignored: ${extraFields.map((key) => prefix + key).join(', ')}`,
+                );
             }
         }
 
-        // 스키마에 없는 추가 필드들 체크 (필터링)
-        const allowedFields = Object.keys(schema);
-        const extraFields = Object.keys(data || {}).filter((key) => !allowedFields.includes(key));
+        return { errors, value: normalized };
+    }
 
-        if (extraFields.length > 0) {
-            // 개발 환경에서만 로그 출력
-            if (process.env.NODE_ENV !== 'production') {
-                log.Debug(`Extra fields ignored: ${extraFields.join(', ')}`);
+    /**
+     * discriminator 가 있으면 태그 값으로 variant 를 골라 검증하고,
+     * 없으면 정확히 하나의 variant 와 일치해야 한다 (JSON Schema oneOf 의미).
+     */
+    private static validateOneOf(
+        value: any,
+        fieldName: string,
+        schema: FieldSchema,
+        options: ValidateOptions,
+    ): FieldOutcome {
+        const variants = schema.oneOf!;
+
+        if (schema.discriminator) {
+            const tagField = schema.discriminator;
+            const tag = value?.[tagField];
+            const variant = variants.find((candidate) =>
+                candidate.properties?.[tagField]?.enum?.includes(tag),
+            );
+            if (!variant) {
+                const tags = variants.flatMap(
+                    (candidate) => candidate.properties?.[tagField]?.enum || [],
+                );
+                return {
+                    errors: [
+                        {
+                            field: `${fieldName}.${tagField}`,
+                            message: `${fieldName}.${tagField} must be one of: ${tags.join(', ')}`,
+                            value: tag,
+                        },
+                    ],
+                    value,
+                };
             }
+            return this.validateField(value, fieldName, variant, options);
         }
 
+        const matches = variants
+            .map((variant) => this.validateField(value, fieldName, variant, options))
+            .filter((outcome) => outcome.errors.length === 0);
+        if (matches.length === 1) return matches[0];
+        return {
+            errors: [
+                {
+                    field: fieldName,
+                    message:
+                        matches.length === 0
+                            ? `${fieldName} does not match any of the allowed schemas`
+                            : `${fieldName} matches more than one of the allowed schemas`,
+                    value,
+                },
+            ],
+            value,
+        };
+    }
+
+    /** uniqueItems 비교용 직렬화 (객체 키 순서와 무관) */
+    private static stableStringify(value: any): string {
+        if (Array.isArray(value)) {
+            return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+        }
+        if (value instanceof Date) {
+            return `date:${value.toISOString()}`;
+        }
+        if (value && typeof value === 'object') {
+            const entries = Object.keys(value)
+                .sort()
+                .map((key) => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`);
+            return `{${entries.join(',')}}`;
+        }
+        return `${typeof value}:${String(value)}`;
+    }
+
+    private static isValidEmail(email: string): boolean {
+        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+        return emailRegex.test(email);
+    }
+
+    private static isValidUrl(url: string): boolean {
+        try {
+            new URL(url);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * 스키마로 데이터를 검증하고 정규화된 데이터(default/타입 변환/transform 적용)를 반환한다.
+     * 스키마 밖의 필드는 `options.unknownFields` (기본값 'strip') 에 따라 처리된다.
+     */
+    static validate(data: any, schema: Schema, options: ValidateOptions = {}): ValidationResult {
+        const { errors, value } = this.validateObject(data, schema, options);
+
         return {
             isValid: errors.length === 0,
             errors,
-            data: errors.length === 0 ? validatedData : undefined,
+            data: errors.length === 0 ? value : undefined,
         };
     }
 
-    static validateBody(data: any, schema: Schema): ValidationResult {
-        return this.validate(data, schema);
+    static validateBody(data: any, schema: Schema, options?: ValidateOptions): ValidationResult {
+        return this.validate(data, schema, options);
     }
 
-    static validateQuery(data: any, schema: Schema): ValidationResult {
-        return this.validate(data, schema);
+    static validateQuery(data: any, schema: Schema, options?: ValidateOptions): ValidationResult {
+        return this.validate(data, schema, options);
     }
 
-    static validateParams(data: any, schema: Schema): ValidationResult {
-        return this.validate(data, schema);
+    static validateParams(data: any, schema: Schema, options?: ValidateOptions): ValidationResult {
+        return this.validate(data, schema, options);
     }
 }
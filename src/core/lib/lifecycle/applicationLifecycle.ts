@@ -0,0 +1,190 @@
+import { log } from '@ext/winston';
+
+/**
+ * 애플리케이션 생명주기 단계.
+ *   - `onModuleInit`: Core.initialize() 중 — 확장 onInit 이후, 라우트 로드 전. 실패 시 부팅 중단
+ *   - `onApplicationReady`: Core.start() 에서 서버가 listen 을 시작한 직후
+ *   - `onBeforeShutdown`: Core.stop() 시작 시 — 서버가 아직 요청을 받는 중 (컨슈머/스케줄러 정지)
+ *   - `onShutdown`: 서버가 닫힌 뒤, DB 연결 해제 전 (큐/캐시 연결 종료)
+ */
+export type LifecyclePhase =
+    | 'onModuleInit'
+    | 'onApplicationReady'
+    | 'onBeforeShutdown'
+    | 'onShutdown';
+
+/**
+ * injectable 모듈(싱글턴), 리포지토리, 확장이 구현할 수 있는 생명주기 훅. 모두 선택 사항이다.
+ * 시작 단계는 등록 순서(리포지토리 → 모듈(의존성 순) → 확장)로,
+ * 종료 단계는 그 역순으로 실행된다.
+ */
+export interface LifecycleHooks {
+    onModuleInit?(): void | Promise<void>;
+    onApplicationReady?(): void | Promise<void>;
+    /** @param reason 종료 사유 (예: 'SIGTERM') */
+    onBeforeShutdown?(reason?: string): void | Promise<void>;
+    /** @param reason 종료 사유 (예: 'SIGTERM') */
+    onShutdown?(reason?: string): void | Promise<void>;
+}
+
+export const LIFECYCLE_PHASES: readonly LifecyclePhase[] = [
+    'onModuleInit',
+    'onApplicationReady',
+    'onBeforeShutdown',
+    'onShutdown',
+];
+
+/** 훅 하나의 실패 정보 */
+export interface LifecycleHookFailure {
+    participant: string;
+    phase: LifecyclePhase;
+    error: unknown;
+    timedOut: boolean;
+}
+
+export interface LifecycleRunOptions {
+    /** 훅 하나당 제한 시간(ms). 기본값은 `LIFECYCLE_HOOK_TIMEOUT_MS` 환경 변수, 없으면 10000 */
+    timeoutMs?: number;
+    /** 종료 단계 훅에 전달할 사유 */
+    reason?: string;
+}
+
+interface LifecycleParticipant {
+    name: string;
+    target: LifecycleHooks;
+}
+
+const DEFAULT_HOOK_TIMEOUT_MS = 10_000;
+const SHUTDOWN_PHASES: readonly LifecyclePhase[] = ['onBeforeShutdown', 'onShutdown'];
+
+/** 값이 생명주기 훅을 하나라도 구현했는지 판별 */
+export function hasLifecycleHooks(value: unknown): value is LifecycleHooks {
+    if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+        return false;
+    }
+    const candidate = value as Record<string, unknown>;
+    return LIFECYCLE_PHASES.some((phase) => typeof candidate[phase] === 'function');
+}
+
+function resolveDefaultTimeout(): number {
+    const parsed = parseInt(process.env.LIFECYCLE_HOOK_TIMEOUT_MS || '', 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_HOOK_TIMEOUT_MS;
+}
+
+/**
+ * 생명주기 참여자 레지스트리.
+ *
+ * RepositoryManager / DependencyInjector / extensionRegistry 가 인스턴스를 만들거나 등록할 때
+ * `repository:<name>`, `module:<name>`, `extension:<name>` 으로 여기에 등록하고,
+ * Core 가 initialize / start / stop 에서 단계별로 `run()` 을 호출한다.
+ */
+class ApplicationLifecycle {
+    private static instance: ApplicationLifecycle;
+    private participants: LifecycleParticipant[] = [];
+
+    static getInstance(): ApplicationLifecycle {
+        if (!ApplicationLifecycle.instance) {
+            ApplicationLifecycle.instance = new ApplicationLifecycle();
+        }
+        return ApplicationLifecycle.instance;
+    }
+
+    /**
+     * 참여자를 등록한다. 훅이 하나도 없으면 무시하고 false 를 반환한다.
+     * 같은 이름이 이미 있으면 순서를 유지한 채 인스턴스만 교체한다 (리포지토리 reload 등).
+     */
+    register(name: string, target: unknown): boolean {
+        if (!hasLifecycleHooks(target)) {
+            this.unregister(name);
+            return false;
+        }
+        const existing = this.participants.find((p) => p.name === name);
+        if (existing) {
+            existing.target = target;
+        } else {
+            this.participants.push({ name, target });
+        }
+        return true;
+    }
+
+    unregister(name: string): void {
+        this.participants = this.participants.filter((p) => p.name !== name);
+    }
+
+    /** 접두사로 일괄 해제 (예: `'module:'`) */
+    unregisterByPrefix(prefix: string): void {
+        this.participants = this.participants.filter((p) => !p.name.startsWith(prefix));
+    }
+
+    getParticipants(): string[] {
+        return this.participants.map((p) => p.name);
+    }
+
+    /**
+     * 한 단계의 훅을 순서대로 실행한다 (종료 단계는 역순).
+     *
+     * - `onModuleInit` 은 fail-fast: 첫 실패(또는 타임아웃)에서 로그 후 re-throw 한다.
+     * - 나머지 단계는 실패를 로그로 남기고 다음 참여자를 계속 실행한 뒤 실패 목록을 반환한다
+     *   (한 모듈의 종료 실패가 다른 자원의 정리를 막지 않도록).
+     */
+    async run(
+        phase: LifecyclePhase,
+        options: LifecycleRunOptions = {},
+    ): Promise<LifecycleHookFailure[]> {
+        const timeoutMs = options.timeoutMs ?? resolveDefaultTimeout();
+        const ordered = SHUTDOWN_PHASES.includes(phase)
+            ? [...this.participants].reverse()
+            : [...this.participants];
+        const failures: LifecycleHookFailure[] = [];
+
+        for (const { name, target } of ordered) {
+            const hook = target[phase] as ((reason?: string) => unknown) | undefined;
+            if (typeof hook !== 'function') continue;
+
+            try {
+                await this.withTimeout(
+                    Promise.resolve().then(() => hook.call(target, options.reason)),
+                    timeoutMs,
+                    `${name}.${phase}`,
+                );
+            } catch (error) {
+                const timedOut = !!(error as { lifecycleTimeout?: boolean })?.lifecycleTimeout;
+                log.Error(`Lifecycle hook ${name}.${phase} failed`, { error, timedOut });
+                if (phase === 'onModuleInit') throw error;
+                failures.push({ participant: name, phase, error, timedOut });
+            }
+        }
+        return failures;
+    }
+
+    private withTimeout(promise: Promise<unknown>, timeoutMs: number, label: string) {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                const error: any = new Error(
+                    `Lifecycle hook ${label} timed out after ${timeoutMs}ms`,
+                );
+                error.lifecycleTimeout = true;
+                reject(error);
+            }, timeoutMs);
+            timer.unref?.();
+        });
+        return Promise.race([promise, timeout]).then(
+            (value) => {
+                clearTimeout(timer);
+                return value;
+            },
+            (error) => {
+                clearTimeout(timer);
+                throw error;
+            },
+        );
+    }
+
+    /** Test-only: 모든 참여자를 비운다. */
+    clear(): void {
+        this.participants = [];
+    }
+}
+
+export const applicationLifecycle = ApplicationLifecycle.getInstance();
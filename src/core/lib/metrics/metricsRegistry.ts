@@ -0,0 +1,312 @@
+/**
+ * Prometheus / OpenMetrics 텍스트 포맷 메트릭 레지스트리.
+ *
+ * Counter / Gauge / Histogram 세 종류만 지원하는 최소 구현이다.
+ * 프레임워크 메트릭(`registerMetrics`)과 앱 코드의 커스텀 메트릭이 같은 레지스트리를 공유하고,
+ * `/metrics` 스크레이프 시 `render()` 가 한 번에 직렬화한다.
+ */
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+export type LabelValues = Record<string, string | number>;
+export type ExpositionFormat = 'prometheus' | 'openmetrics';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+export const OPENMETRICS_CONTENT_TYPE =
+    'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/** HTTP 지연 히스토그램 기본 버킷(초) */
+export const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** 한 메트릭이 가질 수 있는 최대 라벨 조합 수 — 넘으면 새 조합은 버린다(카디널리티 폭주 방지) */
+const MAX_SERIES_PER_METRIC = 2000;
+
+export interface MetricOptions {
+    name: string;
+    help: string;
+    labelNames?: string[];
+}
+
+export interface GaugeOptions extends MetricOptions {
+    /** 스크레이프 직전에 호출 — 값을 현재 상태로 채울 때 사용 */
+    collect?: (this: Gauge) => void;
+}
+
+export interface HistogramOptions extends MetricOptions {
+    buckets?: number[];
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+    return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+}
+
+function formatLabels(labels: LabelValues, extra?: [string, string]): string {
+    const pairs = Object.keys(labels).map(
+        (key) => `${key}="${escapeLabelValue(String(labels[key]))}"`,
+    );
+    if (extra) pairs.push(`${extra[0]}="${escapeLabelValue(extra[1])}"`);
+    return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+abstract class Metric<TSeries> {
+    readonly name: string;
+    readonly help: string;
+    readonly labelNames: string[];
+    abstract readonly type: MetricType;
+    protected series = new Map<string, { labels: LabelValues; value: TSeries }>();
+
+    constructor(options: MetricOptions) {
+        if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(options.name)) {
+            throw new Error(`Invalid metric name '${options.name}'`);
+        }
+        this.name = options.name;
+        this.help = options.help;
+        this.labelNames = options.labelNames ?? [];
+    }
+
+    protected abstract initial(): TSeries;
+
+    /** 라벨 조합에 해당하는 시리즈를 찾거나(create 면) 만든다. 상한을 넘으면 undefined */
+    protected seriesFor(
+        labels: LabelValues = {},
+        create = true,
+    ): { labels: LabelValues; value: TSeries } | undefined {
+        const normalized: LabelValues = {};
+        for (const name of this.labelNames) {
+            if (labels[name] === undefined) {
+                throw new Error(`Metric '${this.name}' is missing label '${name}'`);
+            }
+            normalized[name] = String(labels[name]);
+        }
+        const key = this.labelNames.map((name) => normalized[name]).join('\u0000');
+
+        let entry = this.series.get(key);
+        if (!entry && create) {
+            if (this.series.size >= MAX_SERIES_PER_METRIC) return undefined;
+            entry = { labels: normalized, value: this.initial() };
+            this.series.set(key, entry);
+        }
+        return entry;
+    }
+
+    /** 스크레이프 직전 훅 (기본 없음) */
+    collect(): void {}
+
+    reset(): void {
+        this.series.clear();
+    }
+
+    /** 샘플 라인들 (HELP/TYPE 제외) */
+    abstract samples(): string[];
+}
+
+export class Counter extends Metric<number> {
+    readonly type = 'counter';
+
+    protected initial(): number {
+        return 0;
+    }
+
+    inc(labels?: LabelValues, value = 1): void {
+        if (value < 0) throw new Error(`Counter '${this.name}' cannot be decreased`);
+        const entry = this.seriesFor(labels);
+        if (entry) entry.value += value;
+    }
+
+    get(labels?: LabelValues): number {
+        return this.seriesFor(labels, false)?.value ?? 0;
+    }
+
+    samples(): string[] {
+        return [...this.series.values()].map(
+            ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+        );
+    }
+}
+
+export class Gauge extends Metric<number> {
+    readonly type = 'gauge';
+    collectFn?: (this: Gauge) => void;
+
+    constructor(options: GaugeOptions) {
+        super(options);
+        this.collectFn = options.collect;
+    }
+
+    collect(): void {
+        this.collectFn?.call(this);
+    }
+
+    protected initial(): number {
+        return 0;
+    }
+
+    set(labels: LabelValues | undefined, value: number): void {
+        const entry = this.seriesFor(labels);
+        if (entry) entry.value = value;
+    }
+
+    inc(labels?: LabelValues, value = 1): void {
+        const entry = this.seriesFor(labels);
+        if (entry) entry.value += value;
+    }
+
+    dec(labels?: LabelValues, value = 1): void {
+        this.inc(labels, -value);
+    }
+
+    get(labels?: LabelValues): number {
+        return this.seriesFor(labels, false)?.value ?? 0;
+    }
+
+    samples(): string[] {
+        return [...this.series.values()].map(
+            ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+        );
+    }
+}
+
+interface HistogramSeries {
+    counts: number[];
+    sum: number;
+    count: number;
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+    readonly type = 'histogram';
+    readonly buckets: number[];
+
+    constructor(options: HistogramOptions) {
+        super(options);
+        if (this.labelNames.includes('le')) {
+            throw new Error(`Histogram '${this.name}' cannot use the reserved label 'le'`);
+        }
+        this.buckets = [...(options.buckets ?? DEFAULT_DURATION_BUCKETS)].sort((a, b) => a - b);
+    }
+
+    protected initial(): HistogramSeries {
+        return { counts: new Array(this.buckets.length).fill(0), sum: 0, count: 0 };
+    }
+
+    observe(labels: LabelValues | undefined, value: number): void {
+        const entry = this.seriesFor(labels);
+        if (!entry) return;
+        const series = entry.value;
+        const index = this.buckets.findIndex((bound) => value <= bound);
+        if (index >= 0) series.counts[index]++;
+        series.sum += value;
+        series.count++;
+    }
+
+    samples(): string[] {
+        const lines: string[] = [];
+        for (const { labels, value } of this.series.values()) {
+            let cumulative = 0;
+            this.buckets.forEach((bound, i) => {
+                cumulative += value.counts[i];
+                lines.push(
+                    `${this.name}_bucket${formatLabels(labels, ['le', formatValue(bound)])} ${cumulative}`,
+                );
+            });
+            lines.push(`${this.name}_bucket${formatLabels(labels, ['le', '+Inf'])} ${value.count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+        }
+        return lines;
+    }
+}
+
+type AnyMetric = Counter | Gauge | Histogram;
+
+export class MetricsRegistry {
+    private static instance: MetricsRegistry;
+    private metrics = new Map<string, AnyMetric>();
+
+    static getInstance(): MetricsRegistry {
+        if (!MetricsRegistry.instance) {
+            MetricsRegistry.instance = new MetricsRegistry();
+        }
+        return MetricsRegistry.instance;
+    }
+
+    /** 같은 이름이 이미 있으면 그 메트릭을 반환한다(타입이 다르면 에러) — 모듈 재로드에 안전 */
+    counter(options: MetricOptions): Counter {
+        return this.getOrCreate(options.name, 'counter', () => new Counter(options)) as Counter;
+    }
+
+    /** 이미 있는 Gauge 에 collect 를 넘기면 교체한다 (Core 재초기화 시 최신 컨텍스트를 보도록) */
+    gauge(options: GaugeOptions): Gauge {
+        const gauge = this.getOrCreate(options.name, 'gauge', () => new Gauge(options)) as Gauge;
+        if (options.collect) gauge.collectFn = options.collect;
+        return gauge;
+    }
+
+    histogram(options: HistogramOptions): Histogram {
+        return this.getOrCreate(
+            options.name,
+            'histogram',
+            () => new Histogram(options),
+        ) as Histogram;
+    }
+
+    get(name: string): AnyMetric | undefined {
+        return this.metrics.get(name);
+    }
+
+    private getOrCreate(name: string, type: MetricType, create: () => AnyMetric): AnyMetric {
+        const existing = this.metrics.get(name);
+        if (existing) {
+            if (existing.type !== type) {
+                throw new Error(
+                    `Metric '${name}' is already registered as a ${existing.type}, not a ${type}`,
+                );
+            }
+            return existing;
+        }
+        const metric = create();
+        this.metrics.set(name, metric);
+        return metric;
+    }
+
+    /**
+     * 등록된 모든 메트릭을 텍스트 포맷으로 직렬화한다.
+     * OpenMetrics 는 counter 패밀리 이름에서 `_total` 을 떼고 `# EOF` 로 끝난다.
+     */
+    render(format: ExpositionFormat = 'prometheus'): string {
+        const lines: string[] = [];
+        for (const metric of this.metrics.values()) {
+            metric.collect();
+            const family =
+                format === 'openmetrics' && metric.type === 'counter'
+                    ? metric.name.replace(/_total$/, '')
+                    : metric.name;
+            lines.push(`# HELP ${family} ${escapeHelp(metric.help)}`);
+            lines.push(`# TYPE ${family} ${metric.type}`);
+            lines.push(...metric.samples());
+        }
+        if (format === 'openmetrics') lines.push('# EOF');
+        return lines.join('\n') + '\n';
+    }
+
+    /** 모든 시리즈 값을 비운다 (메트릭 정의는 유지) */
+    resetValues(): void {
+        for (const metric of this.metrics.values()) metric.reset();
+    }
+
+    /** Test-only: 메트릭 정의까지 모두 제거한다. */
+    clear(): void {
+        this.metrics.clear();
+    }
+}
+
+export const metricsRegistry = MetricsRegistry.getInstance();
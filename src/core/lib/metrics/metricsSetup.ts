@@ -0,0 +1,297 @@
+import { BlockList, isIPv4, isIPv6 } from 'net';
+import { timingSafeEqual } from 'crypto';
+import { monitorEventLoopDelay, IntervalHistogram } from 'perf_hooks';
+import type { Express, Request, Response, NextFunction } from 'express';
+import { log } from '@ext/winston';
+import { prismaManager } from '@lib/data/database/prismaManager';
+import { isLocalRequest } from '@lib/devtools/monitor/monitorSetup';
+import { resolveRoutePattern } from '@lib/http/routing/routePattern';
+import {
+    metricsRegistry,
+    DEFAULT_DURATION_BUCKETS,
+    OPENMETRICS_CONTENT_TYPE,
+    PROMETHEUS_CONTENT_TYPE,
+} from '@lib/metrics/metricsRegistry';
+
+/**
+ * 운영용 Prometheus `/metrics` 엔드포인트.
+ *
+ * dev 모니터(`/__kusto/metrics`, localhost 전용 JSON)와 달리 production 에서도 쓸 수 있는 opt-in 기능이다.
+ * `METRICS_ENABLED=true` 일 때만 Core 가 등록하며, 토큰/IP allowlist 로 접근을 제한한다.
+ */
+
+export interface MetricsOptions {
+    /** 엔드포인트 경로 (기본 `/metrics`, env `METRICS_PATH`) */
+    path: string;
+    /** 설정 시 `Authorization: Bearer <token>` 필수 (env `METRICS_TOKEN`) */
+    token?: string;
+    /** 허용할 피어 IP / CIDR 목록 (env `METRICS_ALLOW_IPS`, 콤마 구분) */
+    allowIps: string[];
+    /** HTTP 지연 히스토그램 버킷(초) */
+    buckets: number[];
+}
+
+/** Core 가 제공하는 컨텍스트 */
+export interface MetricsContext {
+    getReadiness: () => { ready: boolean; draining?: boolean };
+}
+
+let elHistogram: IntervalHistogram | undefined;
+
+export function isMetricsEnabled(): boolean {
+    return process.env.METRICS_ENABLED === 'true';
+}
+
+export function resolveMetricsOptions(overrides: Partial<MetricsOptions> = {}): MetricsOptions {
+    const allowIps = (process.env.METRICS_ALLOW_IPS || '')
+        .split(',')
+        .map((ip) => ip.trim())
+        .filter(Boolean);
+    return {
+        path: process.env.METRICS_PATH || '/metrics',
+        token: process.env.METRICS_TOKEN || undefined,
+        allowIps,
+        buckets: DEFAULT_DURATION_BUCKETS,
+        ...overrides,
+    };
+}
+
+/** IPv4-mapped IPv6(`::ffff:10.0.0.1`)를 IPv4 로 정규화 */
+function normalizeIp(ip: string): string {
+    return ip.startsWith('::ffff:') && isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+}
+
+/**
+ * allowlist 항목(IP 또는 CIDR)으로 BlockList 를 만든다. 잘못된 항목은 부팅 시 에러.
+ */
+export function buildAllowList(entries: string[]): BlockList {
+    const list = new BlockList();
+    for (const entry of entries) {
+        const [address, prefix] = entry.split('/');
+        const type = isIPv4(address) ? 'ipv4' : isIPv6(address) ? 'ipv6' : undefined;
+        if (!type) throw new Error(`Invalid METRICS_ALLOW_IPS entry '${entry}'`);
+        if (prefix === undefined) {
+            list.addAddress(address, type);
+            continue;
+        }
+        const bits = Number(prefix);
+        if (!Number.isInteger(bits) || bits < 0 || bits > (type === 'ipv4' ? 32 : 128)) {
+            throw new Error(`Invalid METRICS_ALLOW_IPS entry '${entry}'`);
+        }
+        list.addSubnet(address, bits, type);
+    }
+    return list;
+}
+
+function tokenMatches(header: string | undefined, token: string): boolean {
+    const match = /^Bearer\s+(.+)$/i.exec(header || '');
+    if (!match) return false;
+    const given = Buffer.from(match[1].trim());
+    const expected = Buffer.from(token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * 스크레이프 요청 인가.
+ * - IP 는 프록시 헤더로 위조할 수 없도록 TCP 피어 주소(req.socket.remoteAddress)만 본다.
+ * - 토큰과 allowlist 를 모두 설정하면 둘 다 통과해야 한다.
+ * - 둘 다 설정하지 않으면 루프백만 허용한다.
+ */
+export function authorizeMetricsRequest(
+    req: Pick<Request, 'socket' | 'headers'>,
+    options: Pick<MetricsOptions, 'token'>,
+    allowList?: BlockList,
+): 200 | 401 | 403 {
+    if (allowList) {
+        const peer = normalizeIp(req.socket?.remoteAddress || '');
+        const type = isIPv4(peer) ? 'ipv4' : isIPv6(peer) ? 'ipv6' : undefined;
+        if (!type || !allowList.check(peer, type)) return 403;
+    } else if (!options.token && !isLocalRequest(req)) {
+        return 403;
+    }
+    if (options.token && !tokenMatches(req.headers.authorization, options.token)) return 401;
+    return 200;
+}
+
+function defineFrameworkMetrics(options: MetricsOptions, ctx: MetricsContext) {
+    const requests = metricsRegistry.counter({
+        name: 'kusto_http_requests_total',
+        help: 'HTTP requests by route pattern and status class',
+        labelNames: ['method', 'route', 'status_class'],
+    });
+    const duration = metricsRegistry.histogram({
+        name: 'kusto_http_request_duration_seconds',
+        help: 'HTTP request duration by route pattern',
+        labelNames: ['method', 'route'],
+        buckets: options.buckets,
+    });
+    const inFlight = metricsRegistry.gauge({
+        name: 'kusto_http_requests_in_flight',
+        help: 'HTTP requests currently being processed',
+    });
+
+    metricsRegistry.gauge({
+        name: 'kusto_app_ready',
+        help: 'Whether the application reports ready (1) or degraded/draining (0)',
+        collect() {
+            this.set(undefined, ctx.getReadiness().ready ? 1 : 0);
+        },
+    });
+
+    const memory = (name: string, help: string, read: (m: NodeJS.MemoryUsage) => number) =>
+        metricsRegistry.gauge({
+            name,
+            help,
+            collect() {
+                this.set(undefined, read(process.memoryUsage()));
+            },
+        });
+    memory('process_resident_memory_bytes', 'Resident memory size in bytes', (m) => m.rss);
+    memory('nodejs_heap_size_used_bytes', 'V8 heap used in bytes', (m) => m.heapUsed);
+    memory('nodejs_heap_size_total_bytes', 'V8 heap total in bytes', (m) => m.heapTotal);
+    memory(
+        'nodejs_external_memory_bytes',
+        'Memory used by C++ objects bound to JS',
+        (m) => m.external,
+    );
+
+    metricsRegistry.gauge({
+        name: 'process_start_time_seconds',
+        help: 'Start time of the process since unix epoch in seconds',
+        collect() {
+            this.set(undefined, Math.round(Date.now() / 1000 - process.uptime()));
+        },
+    });
+
+    // event-loop 지연은 스크레이프 간격 동안의 값(읽은 뒤 리셋)
+    const lag = (name: string, help: string, read: (h: IntervalHistogram) => number) =>
+        metricsRegistry.gauge({
+            name,
+            help,
+            collect() {
+                const value = elHistogram ? read(elHistogram) : NaN;
+                this.set(undefined, Number.isFinite(value) ? value / 1e9 : 0);
+            },
+        });
+    lag(
+        'nodejs_eventloop_lag_mean_seconds',
+        'Mean event loop lag since last scrape',
+        (h) => h.mean,
+    );
+    lag(
+        'nodejs_eventloop_lag_p99_seconds',
+        '99th percentile event loop lag since last scrape',
+        (h) => h.percentile(99),
+    );
+    lag('nodejs_eventloop_lag_max_seconds', 'Max event loop lag since last scrape', (h) => {
+        const max = h.max;
+        h.reset();
+        return max;
+    });
+
+    metricsRegistry.gauge({
+        name: 'kusto_db_connected',
+        help: 'Whether the Prisma client for the database is connected',
+        labelNames: ['database'],
+        collect() {
+            this.reset();
+            for (const db of safeDatabases()) this.set({ database: db.name }, db.connected ? 1 : 0);
+        },
+    });
+    metricsRegistry.gauge({
+        name: 'kusto_db_reconnect_attempts',
+        help: 'Current reconnection attempts for the database',
+        labelNames: ['database'],
+        collect() {
+            this.reset();
+            for (const db of safeDatabases()) {
+                this.set({ database: db.name }, prismaManager.getReconnectionAttempts(db.name));
+            }
+        },
+    });
+
+    return { requests, duration, inFlight };
+}
+
+function safeDatabases(): { name: string; connected: boolean; generated: boolean }[] {
+    try {
+        return prismaManager.getStatus().databases.filter((db) => db.generated);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * `/metrics` 와 HTTP 메트릭 수집 미들웨어를 등록한다. 라우트보다 먼저 호출되어야 한다.
+ * `METRICS_ENABLED=true` 가 아니면 아무것도 하지 않는다.
+ */
+export function registerMetrics(
+    app: Express,
+    ctx: MetricsContext,
+    overrides?: Partial<MetricsOptions>,
+): void {
+    if (!isMetricsEnabled()) return;
+
+    const options = resolveMetricsOptions(overrides);
+    const allowList = options.allowIps.length ? buildAllowList(options.allowIps) : undefined;
+    const { requests, duration, inFlight } = defineFrameworkMetrics(options, ctx);
+
+    if (!elHistogram) {
+        elHistogram = monitorEventLoopDelay({ resolution: 20 });
+        elHistogram.enable();
+    }
+
+    app.use((req: Request, res: Response, next: NextFunction) => {
+        if (req.path === options.path) return next();
+
+        inFlight.inc();
+        const start = process.hrtime.bigint();
+        let done = false;
+        const finish = () => {
+            if (done) return;
+            done = true;
+            inFlight.dec();
+            // 매칭되지 않은 요청(404 등)은 경로 대신 고정 라벨 — 스캐너가 시리즈를 늘리지 못하게
+            const route = resolveRoutePattern(req) ?? 'unmatched';
+            const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+            requests.inc({
+                method: req.method,
+                route,
+                status_class: `${Math.floor(res.statusCode / 100)}xx`,
+            });
+            duration.observe({ method: req.method, route }, seconds);
+        };
+        res.on('finish', finish);
+        res.on('close', finish);
+        next();
+    });
+
+    app.get(options.path, (req: Request, res: Response) => {
+        const status = authorizeMetricsRequest(req, options, allowList);
+        if (status === 401) {
+            res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'unauthorized' });
+            return;
+        }
+        if (status === 403) {
+            res.status(403).json({ error: 'metrics endpoint is not allowed from this address' });
+            return;
+        }
+
+        const openMetrics = (req.headers.accept || '').includes('application/openmetrics-text');
+        res.set('Content-Type', openMetrics ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE);
+        res.send(metricsRegistry.render(openMetrics ? 'openmetrics' : 'prometheus'));
+    });
+
+    log.Info(`Metrics endpoint enabled at ${options.path}`, {
+        token: !!options.token,
+        allowIps: options.allowIps.length ? options.allowIps : 'loopback-only',
+    });
+}
+
+/** 테스트 정리용 — event-loop 히스토그램 비활성화(열린 핸들 제거) */
+export function stopMetrics(): void {
+    if (elHistogram) {
+        elHistogram.disable();
+        elHistogram = undefined;
+    }
+}
@@ -19,6 +19,12 @@ declare global {
              * injectable, repo, db 등 모든 주요 서비스에 접근할 수 있습니다.
              */
             kusto: KustoManager;
+
+            /**
+             * 요청 상관관계 ID (`X-Request-Id` 로 받거나 생성)
+             * 응답 헤더와 로그, JSON:API 에러의 `errors[].id` 에 같은 값이 실린다.
+             */
+            requestId: string;
         }
     }
 }
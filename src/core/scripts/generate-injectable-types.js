@@ -231,6 +231,88 @@ function extractNamedExportsStatic(filePath) {
     }
 }
 
+/**
+ * Extract `static scope` / `static inject` declarations of an injectable module class
+ * (static analysis — the runtime reads the same static properties)
+ */
+function extractModuleDependencies(content) {
+    const withoutComments = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+
+    const injectMatch = withoutComments.match(
+        /static\s+(?:readonly\s+)?inject\s*(?::[^=]+)?=\s*\[([^\]]*)\]/,
+    );
+    const inject = injectMatch
+        ? [...injectMatch[1].matchAll(/['"`]([\w$]+)['"`]/g)].map((match) => match[1])
+        : [];
+
+    const scopeMatch = withoutComments.match(
+        /static\s+(?:readonly\s+)?scope\s*(?::[^=]+)?=\s*['"`](\w+)['"`]/,
+    );
+
+    return { inject, scope: scopeMatch ? scopeMatch[1] : 'singleton' };
+}
+
+/**
+ * Find a circular dependency in a module graph ({ name: [dependency names] }).
+ * Returns the cycle path with the first module repeated at the end, or null.
+ */
+function findDependencyCycle(graph) {
+    const done = new Set();
+
+    const visit = (name, trail) => {
+        const index = trail.indexOf(name);
+        if (index !== -1) return [...trail.slice(index), name];
+        if (done.has(name) || !graph[name]) return null;
+
+        for (const dependency of graph[name]) {
+            const cycle = visit(dependency, [...trail, name]);
+            if (cycle) return cycle;
+        }
+        done.add(name);
+        return null;
+    };
+
+    for (const name of Object.keys(graph)) {
+        const cycle = visit(name, []);
+        if (cycle) return cycle;
+    }
+    return null;
+}
+
+/**
+ * Validate module dependency declarations: unknown dependencies and cycles fail generation
+ * with the dependency path, so they are caught before the app boots.
+ */
+function validateModuleDependencies(moduleEntries) {
+    const graph = {};
+    const files = {};
+    for (const module of moduleEntries) {
+        graph[module.propertyName] = module.inject || [];
+        files[module.propertyName] = `src/app/injectable/${module.modulePath}.ts`;
+    }
+
+    for (const [name, dependencies] of Object.entries(graph)) {
+        for (const dependency of dependencies) {
+            if (!graph[dependency]) {
+                throw new Error(
+                    `Unknown injectable dependency '${dependency}' declared by '${name}' (${files[name]})`,
+                );
+            }
+        }
+    }
+
+    const cycle = findDependencyCycle(graph);
+    if (cycle) {
+        throw new Error(
+            `Circular injectable dependency: ${cycle.join(' → ')}\n` +
+                cycle
+                    .slice(0, -1)
+                    .map((name) => `  - ${name}: ${files[name]}`)
+                    .join('\n'),
+        );
+    }
+}
+
 /**
  * Recursively scan directory for TypeScript files
  */
@@ -265,12 +347,16 @@ async function scanDirectory(dirPath, basePath = '', modules = []) {
                 ? toPascalCase(`${basePath.replace(/\//g, '_')}_${cleanFileName}_Module`)
                 : toPascalCase(`${cleanFileName}_Module`);
 
+            const { inject, scope } = extractModuleDependencies(fs.readFileSync(fullPath, 'utf8'));
+
             modules.push({
                 modulePath,
                 propertyName,
                 className: importAlias, // Use unique alias as className
                 importPath: modulePath,
                 type: 'module',
+                inject,
+                scope,
             }); // Check for named exports (like CSRFTokenMiddleware)
             const namedExports = await extractNamedExports(fullPath);
             namedExports.forEach((exportName) => {
@@ -396,6 +482,8 @@ async function generateInjectableTypes() {
     const namedMiddlewareEntries = modules.filter((m) => m.type === 'namedMiddleware');
     const middlewareInterfaceEntries = modules.filter((m) => m.type === 'middleware-interface');
 
+    validateModuleDependencies(moduleEntries);
+
     console.log(
         'Found named middleware exports:',
         namedMiddlewareEntries.map((m) => `${m.namedExport} from ${m.modulePath}`),
@@ -696,4 +784,9 @@ if (require.main === module) {
     })();
 }
 
-module.exports = { generateInjectableTypes };
+module.exports = {
+    generateInjectableTypes,
+    extractModuleDependencies,
+    findDependencyCycle,
+    validateModuleDependencies,
+};
@@ -11,6 +11,7 @@ import * as util from 'util';
 import * as dotenv from 'dotenv';
 import * as readline from 'readline';
 import { folderNameToEnvVarName } from '@lib/data/database/dbNaming';
+import type { SagaRecord, SagaStatus } from '@lib/data/database/sagaJournal';
 
 const execPromise = util.promisify(exec);
 
@@ -1511,6 +1512,121 @@ program
         }
     });
 
+/**
+ * `sagas` 명령 준비: 앱의 단계 핸들러 모듈(기본 src/app/sagas)을 로드하고 저널을 고른다.
+ * 저널은 --journal 또는 SAGA_JOURNAL 로 지정하며, Prisma 저널이나 핸들러 실행이 필요하면 DB 에 연결한다.
+ */
+async function prepareSagaCommand(
+    options: { journal?: string; handlers?: string },
+    connect: boolean,
+) {
+    // 다른 db 명령이 Prisma 런타임을 끌어오지 않도록 지연 로드
+    const { createSagaJournal, getDefaultSagaJournal, PrismaSagaJournal } =
+        await import('@lib/data/database/sagaJournal');
+    const { TransactionCommitManager } =
+        await import('@lib/data/database/transactionCommitManager');
+    const { prismaManager } = await import('@lib/data/database/prismaManager');
+
+    const handlersPath = path.resolve(process.cwd(), options.handlers ?? 'src/app/sagas');
+    let handlersModule: string | undefined;
+    try {
+        handlersModule = require.resolve(handlersPath);
+    } catch {
+        if (options.handlers) throw new Error(`Saga handlers module not found: ${handlersPath}`);
+    }
+    if (handlersModule) await import(handlersModule);
+
+    const journal = options.journal ? createSagaJournal(options.journal) : getDefaultSagaJournal();
+    if (!journal) {
+        throw new Error('No saga journal configured — set SAGA_JOURNAL or pass --journal');
+    }
+
+    if (connect || journal instanceof PrismaSagaJournal) {
+        await prismaManager.initialize();
+    }
+    return { journal, manager: new TransactionCommitManager(prismaManager), prismaManager };
+}
+
+function printSaga(record: SagaRecord): void {
+    const steps = record.steps
+        .map((step) => `${step.name ?? '(unnamed)'}@${step.database}:${step.state}`)
+        .join(' → ');
+    console.log(
+        `   ${record.id}  ${record.status.padEnd(12)} ${new Date(record.updatedAt).toISOString()}`,
+    );
+    console.log(`      ${steps}`);
+    if (record.error) console.log(`      error: ${record.error}`);
+    for (const step of record.steps) {
+        if (step.error) console.log(`      ${step.name ?? step.database}: ${step.error}`);
+    }
+}
+
+// Sagas command - Inspect and recover journaled distributed transactions
+const sagas = program
+    .command('sagas')
+    .description('Inspect and recover journaled distributed transactions (sagas)');
+
+sagas
+    .command('list')
+    .description('List journaled sagas')
+    .option('-s, --status <status>', 'Filter by status (comma separated, e.g. running,failed)')
+    .option('--journal <spec>', 'Saga journal (file:<dir> | prisma:<database>[:<model>])')
+    .option('--json', 'Print raw JSON')
+    .action(async (options) => {
+        let prisma: { disconnectAll(): Promise<void> } | undefined;
+        try {
+            const { journal, prismaManager } = await prepareSagaCommand(options, false);
+            prisma = prismaManager;
+            const records = await journal.list(
+                options.status ? { status: String(options.status).split(',') as SagaStatus[] } : {},
+            );
+
+            if (options.json) {
+                console.log(JSON.stringify(records, null, 2));
+                return;
+            }
+            console.log(`🧾 Sagas (${records.length}):`);
+            records.forEach(printSaga);
+        } catch (error: any) {
+            console.error(`❌ Failed to list sagas: ${error?.message || String(error)}`);
+            process.exitCode = 1;
+        } finally {
+            await prisma?.disconnectAll();
+        }
+    });
+
+for (const action of ['retry', 'compensate'] as const) {
+    sagas
+        .command(`${action} <id>`)
+        .description(
+            action === 'retry'
+                ? 'Run the remaining steps of a running saga (compensates if a step fails)'
+                : 'Compensate the committed steps of a saga in reverse order',
+        )
+        .option('--journal <spec>', 'Saga journal (file:<dir> | prisma:<database>[:<model>])')
+        .option('--handlers <module>', 'Module registering saga steps (default: src/app/sagas)')
+        .action(async (id: string, options) => {
+            let prisma: { disconnectAll(): Promise<void> } | undefined;
+            try {
+                const { manager, journal, prismaManager } = await prepareSagaCommand(options, true);
+                prisma = prismaManager;
+                const record =
+                    action === 'retry'
+                        ? await manager.retrySaga(id, { journal })
+                        : await manager.compensateSaga(id, { journal });
+                const ok = record.status === 'committed' || record.status === 'compensated';
+                console.log(`${ok ? '✅' : '❌'} Saga ${id} is now '${record.status}'`);
+                printSaga(record);
+                if (!ok) process.exitCode = 1;
+            } catch (error: any) {
+                console.error(`❌ Saga ${action} failed: ${error?.message || String(error)}`);
+                process.exitCode = 1;
+            } finally {
+                await prisma?.disconnectAll();
+            }
+        });
+}
+
 // Help command - Show detailed usage examples and documentation
 program
     .command('help')
@@ -1564,6 +1680,10 @@ function showGeneralHelp(lang: 'en' | 'ko') {
                 { cmd: 'format', desc: 'Format Prisma schema files' },
                 { cmd: 'version', desc: 'Show Prisma CLI version information' },
                 { cmd: 'debug', desc: 'Show debug information for troubleshooting' },
+                {
+                    cmd: 'sagas',
+                    desc: 'List, retry or compensate journaled distributed transactions',
+                },
                 { cmd: 'help', desc: 'Show this help or help for specific commands' },
             ],
             quickExamples: [
@@ -1606,6 +1726,7 @@ function showGeneralHelp(lang: 'en' | 'ko') {
                 { cmd: 'format', desc: 'Prisma 스키마 파일 포맷팅' },
                 { cmd: 'version', desc: 'Prisma CLI 버전 정보 표시' },
                 { cmd: 'debug', desc: '문제 해결을 위한 디버그 정보 표시' },
+                { cmd: 'sagas', desc: '저널에 기록된 분산 트랜잭션 조회/재시도/보상' },
                 { cmd: 'help', desc: '이 도움말 또는 특정 명령어 도움말 표시' },
             ],
             quickExamples: [
@@ -1827,6 +1948,23 @@ function showCommandHelp(command: string, lang: 'en' | 'ko') {
                     'kusto-db debug -d testdb1        # Show debug info for testdb1',
                 ],
             },
+            sagas: {
+                title: '🧾 Sagas Command',
+                description:
+                    'Inspect and recover distributed transactions recorded in the saga journal',
+                usage: 'Usage: kusto-db sagas <list|retry|compensate> [id] [options]',
+                options: [
+                    '-s, --status <status>   (list) Filter by status: running, committed, compensating, compensated, failed',
+                    '--json                  (list) Print raw JSON',
+                    '--journal <spec>        Saga journal (default: SAGA_JOURNAL)',
+                    '--handlers <module>     (retry/compensate) Module registering saga steps (default: src/app/sagas)',
+                ],
+                examples: [
+                    'kusto-db sagas list -s running,failed   # Sagas that need attention',
+                    'kusto-db sagas retry saga_xxx           # Run the remaining steps',
+                    'kusto-db sagas compensate saga_xxx      # Undo the committed steps',
+                ],
+            },
             rollback: {
                 title: '🔄 Rollback Command',
                 description: 'Rollback database migrations (DANGEROUS - can cause data loss)',
@@ -2044,6 +2182,22 @@ function showCommandHelp(command: string, lang: 'en' | 'ko') {
                     'kusto-db debug -d testdb1        # testdb1의 디버그 정보 표시',
                 ],
             },
+            sagas: {
+                title: '🧾 Sagas 명령어',
+                description: 'Saga 저널에 기록된 분산 트랜잭션을 조회하고 복구합니다',
+                usage: '사용법: kusto-db sagas <list|retry|compensate> [id] [옵션]',
+                options: [
+                    '-s, --status <status>   (list) 상태 필터: running, committed, compensating, compensated, failed',
+                    '--json                  (list) JSON 으로 출력',
+                    '--journal <spec>        Saga 저널 (기본값: SAGA_JOURNAL)',
+                    '--handlers <module>     (retry/compensate) 단계 핸들러 등록 모듈 (기본값: src/app/sagas)',
+                ],
+                examples: [
+                    'kusto-db sagas list -s running,failed   # 개입이 필요한 Saga 조회',
+                    'kusto-db sagas retry saga_xxx           # 남은 단계 이어서 실행',
+                    'kusto-db sagas compensate saga_xxx      # 커밋된 단계 보상',
+                ],
+            },
             rollback: {
                 title: '🔄 Rollback 명령어',
                 description: '데이터베이스 마이그레이션을 롤백합니다 (위험 - 데이터 손실 가능)',
@@ -29,6 +29,9 @@ const app = new Application({
 // 보안 헤더 설정
 app.express.disable('x-powered-by');
 
+// SIGTERM/SIGINT 수신 시 처리 중 요청을 비운 뒤 종료 (SHUTDOWN_TIMEOUT_MS / SHUTDOWN_DELAY_MS)
+app.enableGracefulShutdown();
+
 // 애플리케이션 시작
 app.start()
     .then(() => {
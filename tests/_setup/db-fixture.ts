@@ -317,7 +317,16 @@ async function bootPostgresExternal(externalUrl: string): Promise<DbFixture> {
  * 모든 테이블 비우기. 통합 테스트의 afterEach 에서 호출.
  */
 export async function truncateAll(fixture: DbFixture): Promise<void> {
-    const tables = ['Comment', 'PostTag', 'Post', 'Tag', 'User']; // FK 의존성 역순
+    const tables = [
+        'Comment',
+        'PostTag',
+        'Post',
+        'Tag',
+        'User',
+        'Document',
+        'IdempotencyKey',
+        'OutboxEvent',
+    ]; // FK 의존성 역순
     if (fixture.provider === 'sqlite') {
         for (const t of tables) {
             await fixture.prisma.$executeRawUnsafe(`DELETE FROM "${t}"`);
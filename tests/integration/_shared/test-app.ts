@@ -96,6 +96,10 @@ export function applyPrismaManagerMock(fixture: DbFixture) {
 
     // kustoManager — req.kusto 에 할당. 단순 객체로 충분
     jest.doMock('@lib/data/di/kustoManager', () => ({
-        kustoManager: {},
+        kustoManager: {
+            forRequest() {
+                return this;
+            },
+        },
     }));
 }
@@ -85,4 +85,108 @@ describe('JSON:API Atomic Operations (통합)', () => {
             expect(res.body['atomic:results']).toEqual([]);
         }
     });
+
+    it('atomic operations 도 개별 라우트와 같은 before/after 훅을 실행한다', async () => {
+        const calls: string[] = [];
+        const hooks = {
+            beforeCreate: (data: any) => {
+                calls.push(`beforeCreate:${data.id}`);
+                return { ...data, name: data.name.toUpperCase() };
+            },
+            afterCreate: (result: any) => {
+                calls.push(`afterCreate:${result.id}`);
+            },
+            beforeUpdate: (data: any) => {
+                calls.push('beforeUpdate');
+                return data;
+            },
+            afterUpdate: (result: any) => {
+                calls.push(`afterUpdate:${result.name}`);
+            },
+            beforeDestroy: (id: any) => {
+                calls.push(`beforeDestroy:${id}`);
+            },
+            afterDestroy: (id: any) => {
+                calls.push(`afterDestroy:${id}`);
+            },
+        };
+        const app = buildTestApp(fixture, { hooks }, 'User', '/users');
+        await fixture.prisma.user.create({ data: { id: 'u0', email: 'z@z.com', name: 'Z' } });
+
+        const res = await request(app)
+            .post('/users/atomic')
+            .send({
+                'atomic:operations': [
+                    {
+                        op: 'add',
+                        data: {
+                            type: 'users',
+                            attributes: { id: 'u1', email: 'a@a.com', name: 'alice' },
+                        },
+                    },
+                    {
+                        op: 'update',
+                        ref: { type: 'users', id: 'u1' },
+                        data: { type: 'users', attributes: { name: 'Bob' } },
+                    },
+                    { op: 'remove', ref: { type: 'users', id: 'u0' } },
+                ],
+            })
+            .set('Content-Type', ATOMIC_CONTENT_TYPE);
+
+        expect(res.status).toBe(200);
+        expect(res.body['atomic:results'][0].attributes.name).toBe('ALICE');
+        // before 훅은 작업 중에, after 훅은 커밋 이후 작업 순서대로 실행된다
+        expect(calls).toEqual([
+            'beforeCreate:u1',
+            'beforeUpdate',
+            'beforeDestroy:u0',
+            'afterCreate:u1',
+            'afterUpdate:Bob',
+            'afterDestroy:u0',
+        ]);
+    });
+
+    it('before 훅이 실패하면 전체 작업이 롤백되고 after 훅은 실행되지 않는다', async () => {
+        const afterCreate = jest.fn();
+        const hooks = {
+            beforeCreate: (data: any) => {
+                if (data.id === 'u2') throw new Error('rejected by hook');
+                return data;
+            },
+            afterCreate,
+        };
+        const app = buildTestApp(fixture, { hooks }, 'User', '/users');
+
+        const res = await request(app)
+            .post('/users/atomic')
+            .send({
+                'atomic:operations': ['u1', 'u2'].map((id) => ({
+                    op: 'add',
+                    data: {
+                        type: 'users',
+                        attributes: { id, email: `${id}@a.com`, name: id },
+                    },
+                })),
+            })
+            .set('Content-Type', ATOMIC_CONTENT_TYPE);
+
+        expect(res.status).toBeGreaterThanOrEqual(400);
+        expect(await fixture.prisma.user.count()).toBe(0);
+        expect(afterCreate).not.toHaveBeenCalled();
+    });
+
+    it('softDelete 설정 시 atomic remove 도 행을 지우지 않고 삭제 시각만 기록한다', async () => {
+        const app = buildTestApp(fixture, { softDelete: { enabled: true } }, 'User', '/users');
+        await fixture.prisma.user.create({ data: { id: 'u1', email: 'a@a.com', name: 'Alice' } });
+
+        const res = await request(app)
+            .post('/users/atomic')
+            .send({ 'atomic:operations': [{ op: 'remove', ref: { type: 'users', id: 'u1' } }] })
+            .set('Content-Type', ATOMIC_CONTENT_TYPE);
+        expect(res.status).toBe(200);
+
+        const row = await fixture.prisma.user.findUnique({ where: { id: 'u1' } });
+        expect(row?.deletedAt).toBeInstanceOf(Date);
+    });
 });
@@ -0,0 +1,256 @@
+import request from 'supertest';
+import { bootDbFixture, truncateAll, DbFixture } from '@tests/_setup/db-fixture';
+import { applyPrismaManagerMock, buildTestApp } from '../_shared/test-app';
+
+const JSON_API = 'application/vnd.api+json';
+const ATOMIC = 'application/vnd.api+json; ext="https://jsonapi.org/ext/atomic"';
+
+describe('CRUD concurrency 옵션 — If-Match 낙관적 동시성 (통합)', () => {
+    let fixture: DbFixture;
+
+    beforeAll(async () => {
+        fixture = await bootDbFixture();
+    });
+
+    afterAll(async () => {
+        await fixture.teardown();
+    });
+
+    afterEach(async () => {
+        await truncateAll(fixture);
+    });
+
+    beforeEach(() => {
+        applyPrismaManagerMock(fixture);
+    });
+
+    function patch(app: any, id: string, title: string, ifMatch?: string) {
+        const req = request(app)
+            .patch(`/documents/${id}`)
+            .set('Content-Type', JSON_API)
+            .send({ data: { type: 'document', id, attributes: { title } } });
+        return ifMatch ? req.set('If-Match', ifMatch) : req;
+    }
+
+    it('show 는 버전을 강한 ETag 와 meta.etag 로 노출한다', async () => {
+        const app = buildTestApp(
+            fixture,
+            { concurrency: { field: 'version' } },
+            'Document',
+            '/documents',
+        );
+        await fixture.prisma.document.create({ data: { id: 'd1', title: 'A', version: 3 } });
+
+        const res = await request(app).get('/documents/d1');
+        expect(res.status).toBe(200);
+        expect(res.headers.etag).toBe('"3"');
+        expect(res.body.data.meta.etag).toBe('"3"');
+
+        const list = await request(app).get('/documents?page[number]=1&page[size]=10');
+        expect(list.body.data[0].meta.etag).toBe('"3"');
+    });
+
+    it('If-Match 없는 수정은 428, 오래된 토큰은 412 이고 행은 바뀌지 않는다', async () => {
+        const app = buildTestApp(
+            fixture,
+            { concurrency: { field: 'version' } },
+            'Document',
+            '/documents',
+        );
+        await fixture.prisma.document.create({ data: { id: 'd1', title: 'A', version: 1 } });
+
+        const missing = await patch(app, 'd1', 'B');
+        expect(missing.status).toBe(428);
+        expect(missing.body.errors[0].code).toBe('PRECONDITION_REQUIRED');
+
+        const stale = await patch(app, 'd1', 'B', '"0"');
+        expect(stale.status).toBe(412);
+        expect(stale.body.errors[0].code).toBe('PRECONDITION_FAILED');
+
+        const row = await fixture.prisma.document.findUnique({ where: { id: 'd1' } });
+        expect(row).toMatchObject({ title: 'A', version: 1 });
+    });
+
+    it('맞는 토큰이면 수정하고 버전을 올리며, 같은 토큰의 두 번째 수정은 412', async () => {
+        const app = buildTestApp(
+            fixture,
+            { concurrency: { field: 'version' } },
+            'Document',
+            '/documents',
+        );
+        await fixture.prisma.document.create({ data: { id: 'd1', title: 'A' } });
+
+        const first = await patch(app, 'd1', 'B', '"0"');
+        expect(first.status).toBe(200);
+        expect(first.headers.etag).toBe('"1"');
+        expect(first.body.data.attributes).toMatchObject({ title: 'B', version: 1 });
+        expect(first.body.data.meta.etag).toBe('"1"');
+
+        const lost = await patch(app, 'd1', 'C', '"0"');
+        expect(lost.status).toBe(412);
+
+        // 클라이언트가 보낸 version 은 무시된다
+        const forced = await request(app)
+            .patch('/documents/d1')
+            .set('Content-Type', JSON_API)
+            .set('If-Match', '"1"')
+            .send({
+                data: { type: 'document', id: 'd1', attributes: { title: 'D', version: 99 } },
+            });
+        expect(forced.status).toBe(200);
+        expect(forced.body.data.attributes.version).toBe(2);
+    });
+
+    it('삭제도 If-Match 를 요구한다', async () => {
+        const app = buildTestApp(
+            fixture,
+            { concurrency: { field: 'version' } },
+            'Document',
+            '/documents',
+        );
+        await fixture.prisma.document.create({ data: { id: 'd1', title: 'A', version: 2 } });
+
+        expect((await request(app).delete('/documents/d1')).status).toBe(428);
+        expect((await request(app).delete('/documents/d1').set('If-Match', '"1"')).status).toBe(
+            412,
+        );
+        expect((await request(app).delete('/documents/nope').set('If-Match', '"1"')).status).toBe(
+            404,
+        );
+
+        const ok = await request(app).delete('/documents/d1').set('If-Match', '"2"');
+        expect(ok.status).toBe(204);
+        expect(await fixture.prisma.document.count()).toBe(0);
+    });
+
+    it('updatedAt 토큰: 읽은 시각의 ETag 로만 수정할 수 있다', async () => {
+        const app = buildTestApp(
+            fixture,
+            { concurrency: { field: 'updatedAt' } },
+            'Document',
+            '/documents',
+        );
+        await fixture.prisma.document.create({ data: { id: 'd1', title: 'A' } });
+
+        const read = await request(app).get('/documents/d1');
+        const etag = read.headers.etag;
+        expect(etag).toBe(`"${read.body.data.attributes.updatedAt}"`);
+
+        const ok = await patch(app, 'd1', 'B', etag);
+        expect(ok.status).toBe(200);
+        expect(ok.headers.etag).not.toBe(etag);
+
+        const stale = await patch(app, 'd1', 'C', etag);
+        expect(stale.status).toBe(412);
+    });
+
+    it('쓰기 요청은 사전 검사(If-Match 토큰 조회)부터 primary 에서 읽는다', async () => {
+        const pinned: Record<string, boolean> = {};
+        const app = buildTestApp(
+            fixture,
+            {
+                concurrency: { field: 'version' },
+                hooks: {
+                    beforeShow: (query: any) => {
+                        pinned.show = isPrimaryPinned('default', 0);
+                        return query;
+                    },
+                    beforeUpdate: (data: any) => {
+                        pinned.update = isPrimaryPinned('default', 0);
+                        return data;
+                    },
+                },
+            },
+            'Document',
+            '/documents',
+        );
+        // buildTestApp 이 모듈을 새로 로드하므로 그 뒤에 같은 인스턴스를 가져온다
+        const { isPrimaryPinned } = require('@lib/data/database/readReplicas');
+        await fixture.prisma.document.create({ data: { id: 'd1', title: 'A', version: 1 } });
+
+        expect((await request(app).get('/documents/d1')).status).toBe(200);
+        expect((await patch(app, 'd1', 'B', '"1"')).status).toBe(200);
+        expect(pinned).toEqual({ show: false, update: true });
+    });
+
+    it('concurrency 미설정 모델은 기존처럼 If-Match 없이 수정된다', async () => {
+        const app = buildTestApp(fixture, {}, 'Document', '/documents');
+        await fixture.prisma.document.create({ data: { id: 'd1', title: 'A' } });
+
+        const res = await patch(app, 'd1', 'B');
+        expect(res.status).toBe(200);
+        expect(res.body.data.meta).toBeUndefined();
+    });
+
+    it('atomic update / remove 도 작업의 meta.etag 로 토큰을 검사하고 버전을 올린다', async () => {
+        const app = buildTestApp(
+            fixture,
+            { concurrency: { field: 'version' } },
+            'Document',
+            '/documents',
+        );
+        await fixture.prisma.document.create({ data: { id: 'd1', title: 'A', version: 1 } });
+        await fixture.prisma.document.create({ data: { id: 'd2', title: 'B', version: 5 } });
+        const atomic = (operations: any[]) =>
+            request(app)
+                .post('/documents/atomic')
+                .set('Content-Type', ATOMIC)
+                .send({ 'atomic:operations': operations });
+        const update = (etag?: string) => ({
+            op: 'update',
+            ref: { type: 'document', id: 'd1' },
+            data: { type: 'document', id: 'd1', attributes: { title: 'A2', version: 99 } },
+            ...(etag && { meta: { etag } }),
+        });
+
+        expect((await atomic([update()])).status).toBe(428);
+        expect((await atomic([update('"0"')])).status).toBe(412);
+
+        const ok = await atomic([
+            update('"1"'),
+            { op: 'remove', ref: { type: 'document', id: 'd2' }, meta: { etag: '"4"' } },
+        ]);
+        expect(ok.status).toBe(412);
+        // 뒤 작업이 실패하면 앞 작업도 롤백된다
+        expect(await fixture.prisma.document.findUnique({ where: { id: 'd1' } })).toMatchObject({
+            title: 'A',
+            version: 1,
+        });
+
+        const done = await atomic([
+            update('"1"'),
+            { op: 'remove', ref: { type: 'document', id: 'd2' }, meta: { etag: '"5"' } },
+        ]);
+        expect(done.status).toBe(200);
+        expect(done.body['atomic:results'][0].attributes).toMatchObject({
+            title: 'A2',
+            version: 2,
+        });
+        expect(await fixture.prisma.document.count()).toBe(1);
+    });
+
+    it('관계 변경 라우트도 부모 행의 If-Match 를 요구하고 버전을 올린다', async () => {
+        const app = buildTestApp(fixture, { concurrency: { field: 'version' } }, 'Post', '/posts');
+        await fixture.prisma.user.create({ data: { id: 'u1', email: 'a@a.com', name: 'A' } });
+        await fixture.prisma.user.create({ data: { id: 'u2', email: 'b@b.com', name: 'B' } });
+        await fixture.prisma.post.create({ data: { id: 'p1', title: 'T', authorId: 'u1' } });
+        const setAuthor = (ifMatch?: string) => {
+            const req = request(app)
+                .patch('/posts/p1/relationships/author')
+                .set('Content-Type', JSON_API)
+                .send(JSON.stringify({ data: { type: 'user', id: 'u2' } }));
+            return ifMatch ? req.set('If-Match', ifMatch) : req;
+        };
+
+        expect((await setAuthor()).status).toBe(428);
+        expect((await setAuthor('"3"')).status).toBe(412);
+
+        const ok = await setAuthor('"0"');
+        expect(ok.status).toBe(204);
+        expect(ok.headers.etag).toBe('"1"');
+        expect(await fixture.prisma.post.findUnique({ where: { id: 'p1' } })).toMatchObject({
+            authorId: 'u2',
+            version: 1,
+        });
+    });
+});
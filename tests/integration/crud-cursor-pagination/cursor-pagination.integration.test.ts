@@ -0,0 +1,103 @@
+import request from 'supertest';
+import { bootDbFixture, truncateAll, DbFixture } from '@tests/_setup/db-fixture';
+import { applyPrismaManagerMock, buildTestApp } from '../_shared/test-app';
+
+describe('CRUD index cursor(keyset) 페이지네이션 (통합)', () => {
+    let fixture: DbFixture;
+
+    beforeAll(async () => {
+        fixture = await bootDbFixture();
+    });
+
+    afterAll(async () => {
+        await fixture.teardown();
+    });
+
+    afterEach(async () => {
+        await truncateAll(fixture);
+    });
+
+    beforeEach(() => {
+        applyPrismaManagerMock(fixture);
+    });
+
+    // 이름이 겹치는 row 를 섞어 기본키 tiebreaker 가 필요한 상황을 만든다
+    async function seedUsers() {
+        const names = ['amy', 'bob', 'bob', 'cat', 'dan'];
+        for (let i = 0; i < names.length; i++) {
+            await fixture.prisma.user.create({
+                data: { id: `u${i + 1}`, email: `u${i + 1}@a.com`, name: names[i] },
+            });
+        }
+    }
+
+    const ids = (res: any) => res.body.data.map((d: any) => d.id);
+
+    // links 의 절대 URL 에서 경로+쿼리만 잘라 supertest 로 다시 요청
+    const follow = (app: any, link: string) =>
+        request(app).get(new URL(link).pathname + new URL(link).search);
+
+    it('page[after] 로 next 링크를 따라가며 전체 row 를 중복/누락 없이 순회한다', async () => {
+        const app = buildTestApp(fixture, {}, 'User', '/users');
+        await seedUsers();
+
+        const first = await request(app).get('/users?sort=name&page[after]=&page[size]=2');
+        expect(first.status).toBe(200);
+        expect(ids(first)).toEqual(['u1', 'u2']);
+        expect(first.body.meta.total).toBeUndefined();
+        expect(first.body.meta.page.hasNext).toBe(true);
+        expect(first.body.links.prev).toBeUndefined();
+
+        const second = await follow(app, first.body.links.next);
+        expect(ids(second)).toEqual(['u3', 'u4']);
+        expect(second.body.meta.page.hasPrev).toBe(true);
+
+        const third = await follow(app, second.body.links.next);
+        expect(ids(third)).toEqual(['u5']);
+        expect(third.body.links.next).toBeUndefined();
+
+        const back = await follow(app, third.body.links.prev);
+        expect(ids(back)).toEqual(['u3', 'u4']);
+    });
+
+    it('빈 page[before] 는 마지막 페이지를 정렬 순서대로 반환한다', async () => {
+        const app = buildTestApp(fixture, {}, 'User', '/users');
+        await seedUsers();
+
+        const res = await request(app).get('/users?sort=-name&page[before]=&page[size]=2');
+        expect(res.status).toBe(200);
+        expect(ids(res)).toEqual(['u2', 'u1']);
+        expect(res.body.meta.page.hasPrev).toBe(true);
+        expect(res.body.meta.page.hasNext).toBe(false);
+    });
+
+    it('다른 sort 로 발급된 커서는 400 INVALID_CURSOR 로 거부한다', async () => {
+        const app = buildTestApp(fixture, {}, 'User', '/users');
+        await seedUsers();
+
+        const first = await request(app).get('/users?sort=name&page[after]=&page[size]=2');
+        const cursor = first.body.meta.page.endCursor;
+
+        const res = await request(app).get(
+            `/users?sort=-name&page[after]=${encodeURIComponent(cursor)}&page[size]=2`,
+        );
+        expect(res.status).toBe(400);
+        expect(res.body.errors[0].code).toBe('INVALID_CURSOR');
+    });
+
+    it('null 을 허용하는 필드로 정렬하면 커서 모드에서 400 INVALID_SORT 로 거부한다', async () => {
+        const app = buildTestApp(fixture, {}, 'User', '/users');
+
+        const res = await request(app).get('/users?sort=deletedAt&page[after]=&page[size]=2');
+        expect(res.status).toBe(400);
+        expect(res.body.errors[0].code).toBe('INVALID_SORT');
+    });
+
+    it('page[number] 와 커서를 함께 지정하면 400 INVALID_PAGINATION_PARAMS 로 거부한다', async () => {
+        const app = buildTestApp(fixture, {}, 'User', '/users');
+
+        const res = await request(app).get('/users?page[number]=1&page[after]=&page[size]=2');
+        expect(res.status).toBe(400);
+        expect(res.body.errors[0].code).toBe('INVALID_PAGINATION_PARAMS');
+    });
+});
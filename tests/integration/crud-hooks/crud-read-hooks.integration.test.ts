@@ -0,0 +1,84 @@
+import request from 'supertest';
+import { bootDbFixture, truncateAll, DbFixture } from '@tests/_setup/db-fixture';
+import { applyPrismaManagerMock, buildTestApp } from '../_shared/test-app';
+
+describe('CRUD afterIndex / afterShow 훅 (통합)', () => {
+    let fixture: DbFixture;
+
+    beforeAll(async () => {
+        fixture = await bootDbFixture();
+    });
+
+    afterAll(async () => {
+        await fixture.teardown();
+    });
+
+    afterEach(async () => {
+        await truncateAll(fixture);
+    });
+
+    beforeEach(() => {
+        applyPrismaManagerMock(fixture);
+    });
+
+    async function seedUsers() {
+        await fixture.prisma.user.create({ data: { id: 'u1', email: 'a@a.com', name: 'A' } });
+        await fixture.prisma.user.create({ data: { id: 'u2', email: 'b@b.com', name: 'B' } });
+    }
+
+    it('afterIndex 는 조회 결과와 페이지 메타를 받고 반환한 배열로 응답한다', async () => {
+        const afterIndex = jest.fn((items: any[]) =>
+            items.map((item) => ({ ...item, label: `${item.name}!` })),
+        );
+        const app = buildTestApp(fixture, { hooks: { afterIndex } }, 'User', '/users');
+        await seedUsers();
+
+        const res = await request(app).get('/users?sort=name&page[number]=1&page[size]=10');
+        expect(res.status).toBe(200);
+        expect(res.body.data.map((d: any) => d.attributes.label)).toEqual(['A!', 'B!']);
+
+        const [items, meta] = afterIndex.mock.calls[0] as any[];
+        expect(items).toHaveLength(2);
+        expect(meta).toMatchObject({ total: 2, page: { number: 1, size: 10 } });
+    });
+
+    it('cursor 모드에서는 count 를 생략하므로 afterIndex 의 meta.total 이 undefined 이다', async () => {
+        const afterIndex = jest.fn();
+        const app = buildTestApp(fixture, { hooks: { afterIndex } }, 'User', '/users');
+        await seedUsers();
+
+        const res = await request(app).get('/users?sort=name&page[after]=&page[size]=1');
+        expect(res.status).toBe(200);
+
+        const [items, meta] = afterIndex.mock.calls[0] as any[];
+        expect(items).toHaveLength(1);
+        expect(meta.total).toBeUndefined();
+        expect(meta.cursor).toMatchObject({ hasNext: true, hasPrev: false });
+    });
+
+    it('afterShow 는 단건 결과를 받고, 반환값이 없으면 원래 결과로 응답한다', async () => {
+        const audited: string[] = [];
+        const app = buildTestApp(
+            fixture,
+            {
+                hooks: {
+                    afterShow: (item: any) => {
+                        audited.push(item.id);
+                    },
+                },
+            },
+            'User',
+            '/users',
+        );
+        await seedUsers();
+
+        const res = await request(app).get('/users/u1');
+        expect(res.status).toBe(200);
+        expect(res.body.data.attributes.name).toBe('A');
+        expect(audited).toEqual(['u1']);
+
+        const missing = await request(app).get('/users/nope');
+        expect(missing.status).toBe(404);
+        expect(audited).toEqual(['u1']);
+    });
+});
@@ -0,0 +1,106 @@
+import request from 'supertest';
+import { bootDbFixture, truncateAll, DbFixture } from '@tests/_setup/db-fixture';
+import { applyPrismaManagerMock, buildTestApp } from '../_shared/test-app';
+
+describe('CRUD ETag / Last-Modified / Cache-Control (통합)', () => {
+    let fixture: DbFixture;
+
+    beforeAll(async () => {
+        fixture = await bootDbFixture();
+    });
+
+    afterAll(async () => {
+        await fixture.teardown();
+    });
+
+    afterEach(async () => {
+        await truncateAll(fixture);
+    });
+
+    beforeEach(() => {
+        applyPrismaManagerMock(fixture);
+    });
+
+    /** links 가 절대 URL 이라 supertest 의 임시 포트가 바뀌지 않도록 Host 를 고정 */
+    function get(app: any, path: string) {
+        return request(app).get(path).set('Host', 'api.test');
+    }
+
+    async function seedUsers() {
+        await fixture.prisma.user.create({ data: { id: 'u1', email: 'a@a.com', name: 'A' } });
+        await fixture.prisma.user.create({ data: { id: 'u2', email: 'b@b.com', name: 'B' } });
+    }
+
+    it('index: 같은 목록이면 같은 ETag 로 304, 데이터가 바뀌면 200 과 새 ETag', async () => {
+        const app = buildTestApp(fixture, {}, 'User', '/users');
+        await seedUsers();
+
+        const first = await get(app, '/users?sort=name&page[number]=1&page[size]=10');
+        expect(first.status).toBe(200);
+        const etag = first.headers.etag;
+        expect(etag).toMatch(/^W\//);
+        // 목록은 Last-Modified 를 쓰지 않는다
+        expect(first.headers['last-modified']).toBeUndefined();
+
+        const notModified = await get(app, '/users?sort=name&page[number]=1&page[size]=10').set(
+            'If-None-Match',
+            etag,
+        );
+        expect(notModified.status).toBe(304);
+        expect(notModified.text).toBe('');
+
+        await fixture.prisma.user.delete({ where: { id: 'u2' } });
+        const changed = await get(app, '/users?sort=name&page[number]=1&page[size]=10').set(
+            'If-None-Match',
+            etag,
+        );
+        expect(changed.status).toBe(200);
+        expect(changed.headers.etag).not.toBe(etag);
+        expect(changed.body.data).toHaveLength(1);
+    });
+
+    it('show: updatedAt 으로 Last-Modified 를 붙이고 If-Modified-Since 로 304', async () => {
+        const updatedAt = new Date('2026-01-01T00:00:00Z');
+        const app = buildTestApp(
+            fixture,
+            { hooks: { afterShow: (item: any) => ({ ...item, updatedAt }) } },
+            'User',
+            '/users',
+        );
+        await seedUsers();
+
+        const first = await get(app, '/users/u1');
+        expect(first.status).toBe(200);
+        expect(first.headers['last-modified']).toBe(updatedAt.toUTCString());
+        expect(first.headers['content-type']).toMatch(/application\/vnd\.api\+json/);
+
+        const byDate = await get(app, '/users/u1').set(
+            'If-Modified-Since',
+            updatedAt.toUTCString(),
+        );
+        expect(byDate.status).toBe(304);
+
+        const byEtag = await get(app, '/users/u1').set('If-None-Match', first.headers.etag);
+        expect(byEtag.status).toBe(304);
+    });
+
+    it('cache 옵션은 index/show 성공 응답에만 Cache-Control 을 붙인다', async () => {
+        const app = buildTestApp(
+            fixture,
+            { cache: { private: true, maxAge: 5 } },
+            'User',
+            '/users',
+        );
+        await seedUsers();
+
+        const list = await get(app, '/users?page[number]=1&page[size]=10');
+        expect(list.headers['cache-control']).toBe('private, max-age=5');
+
+        const one = await get(app, '/users/u1');
+        expect(one.headers['cache-control']).toBe('private, max-age=5');
+
+        const missing = await get(app, '/users/nope');
+        expect(missing.status).toBe(404);
+        expect(missing.headers['cache-control']).toBeUndefined();
+    });
+});
@@ -0,0 +1,165 @@
+import request from 'supertest';
+import { bootDbFixture, truncateAll, DbFixture } from '@tests/_setup/db-fixture';
+import { applyPrismaManagerMock, buildTestApp } from '../_shared/test-app';
+
+const JSON_API = 'application/vnd.api+json';
+const ATOMIC_CONTENT_TYPE = 'application/vnd.api+json; ext="https://jsonapi.org/ext/atomic"';
+
+describe('CRUD idempotency 옵션 (통합)', () => {
+    let fixture: DbFixture;
+
+    beforeAll(async () => {
+        fixture = await bootDbFixture();
+    });
+
+    afterAll(async () => {
+        await fixture.teardown();
+    });
+
+    afterEach(async () => {
+        await truncateAll(fixture);
+    });
+
+    beforeEach(() => {
+        applyPrismaManagerMock(fixture);
+    });
+
+    function buildApp() {
+        // applyPrismaManagerMock 이 모듈을 리셋하므로 저장소도 같은 레지스트리에서 가져온다
+        const { PrismaIdempotencyStore } = require('@lib/http/idempotency/idempotencyStore');
+        const store = new PrismaIdempotencyStore({ database: 'default' });
+        return buildTestApp(fixture, { idempotency: { store } }, 'User', '/users');
+    }
+
+    function create(app: any, key: string, email: string) {
+        return request(app)
+            .post('/users')
+            .set('Content-Type', JSON_API)
+            .set('Idempotency-Key', key)
+            .send({ data: { type: 'user', attributes: { email, name: 'A' } } });
+    }
+
+    it('create 를 같은 키로 재시도하면 행을 한 번만 만들고 같은 응답을 재생한다', async () => {
+        const app = buildApp();
+
+        const first = await create(app, 'key-1', 'a@a.com');
+        expect(first.status).toBe(201);
+
+        const retried = await create(app, 'key-1', 'a@a.com');
+        expect(retried.status).toBe(201);
+        expect(retried.headers['idempotent-replayed']).toBe('true');
+        expect(retried.headers['content-type']).toContain(JSON_API);
+        expect(retried.body.data.id).toBe(first.body.data.id);
+        expect(await fixture.prisma.user.count()).toBe(1);
+
+        const stored = await (fixture.prisma as any).idempotencyKey.findMany();
+        expect(stored).toHaveLength(1);
+        expect(stored[0]).toMatchObject({ status: 'completed', statusCode: 201 });
+    });
+
+    it('같은 키에 다른 본문이면 422 를 반환하고 행을 만들지 않는다', async () => {
+        const app = buildApp();
+        await create(app, 'key-1', 'a@a.com');
+
+        const mismatch = await create(app, 'key-1', 'b@b.com');
+        expect(mismatch.status).toBe(422);
+        expect(mismatch.body.errors[0].code).toBe('IDEMPOTENCY_KEY_MISMATCH');
+        expect(await fixture.prisma.user.count()).toBe(1);
+    });
+
+    it('처리 중인 키는 409 를 반환한다', async () => {
+        const app = buildApp();
+        // 같은 요청이 다른 인스턴스에서 처리 중인 상태 (지문이 다르면 422 가 우선한다)
+        const { requestFingerprint } = require('@lib/http/idempotency/idempotency');
+        await (fixture.prisma as any).idempotencyKey.create({
+            data: {
+                key: 'crud:User:create|anonymous|key-1',
+                fingerprint: requestFingerprint({
+                    method: 'POST',
+                    originalUrl: '/users',
+                    body: { data: { type: 'user', attributes: { email: 'a@a.com', name: 'A' } } },
+                }),
+                status: 'pending',
+                expiresAt: new Date(Date.now() + 60_000),
+            },
+        });
+
+        const res = await create(app, 'key-1', 'a@a.com');
+        expect(res.status).toBe(409);
+        expect(res.body.errors[0].code).toBe('IDEMPOTENCY_KEY_IN_USE');
+        expect(await fixture.prisma.user.count()).toBe(0);
+    });
+
+    it('인증을 middleware.create 에 두어도 키가 사용자별로 나뉘고 미인증 요청에는 재생하지 않는다', async () => {
+        const { PrismaIdempotencyStore } = require('@lib/http/idempotency/idempotencyStore');
+        const store = new PrismaIdempotencyStore({ database: 'default' });
+        const requireUser = (req: any, res: any, next: any) => {
+            const id = req.header('X-User');
+            if (!id) return res.status(401).json({ errors: [{ status: '401' }] });
+            req.kusto = { ...req.kusto, user: { id } };
+            next();
+        };
+        const app = buildTestApp(
+            fixture,
+            { idempotency: { store }, middleware: { create: [requireUser] } },
+            'User',
+            '/users',
+        );
+        const send = (user: string | undefined, email: string) => {
+            const req = request(app)
+                .post('/users')
+                .set('Content-Type', JSON_API)
+                .set('Idempotency-Key', 'key-1');
+            if (user) req.set('X-User', user);
+            return req.send({ data: { type: 'user', attributes: { email, name: 'A' } } });
+        };
+
+        const alice = await send('alice', 'a@a.com');
+        expect(alice.status).toBe(201);
+
+        expect((await send(undefined, 'a@a.com')).status).toBe(401);
+
+        // 다른 사용자가 같은 키 / 본문을 보내도 alice 의 응답이 재생되지 않는다 (이메일 중복으로 실패)
+        const bob = await send('bob', 'a@a.com');
+        expect(bob.headers['idempotent-replayed']).toBeUndefined();
+        expect(bob.body.data?.id).not.toBe(alice.body.data.id);
+
+        const retried = await send('alice', 'a@a.com');
+        expect(retried.headers['idempotent-replayed']).toBe('true');
+        expect(retried.body.data.id).toBe(alice.body.data.id);
+
+        const keys = await (fixture.prisma as any).idempotencyKey.findMany();
+        expect(keys.map((row: any) => row.key).sort()).toEqual([
+            'crud:User:create|user:alice|key-1',
+            'crud:User:create|user:bob|key-1',
+        ]);
+    });
+
+    it('atomic 라우트도 같은 키의 재시도를 한 번만 실행한다', async () => {
+        const app = buildApp();
+        const send = () =>
+            request(app)
+                .post('/users/atomic')
+                .set('Content-Type', ATOMIC_CONTENT_TYPE)
+                .set('Idempotency-Key', 'batch-1')
+                .send({
+                    'atomic:operations': [
+                        {
+                            op: 'add',
+                            data: {
+                                type: 'users',
+                                attributes: { id: 'u1', email: 'a@a.com', name: 'Alice' },
+                            },
+                        },
+                    ],
+                });
+
+        const first = await send();
+        expect(first.status).toBe(200);
+        const retried = await send();
+        expect(retried.status).toBe(200);
+        expect(retried.headers['idempotent-replayed']).toBe('true');
+        expect(retried.body).toEqual(first.body);
+        expect(await fixture.prisma.user.count()).toBe(1);
+    });
+});
@@ -0,0 +1,150 @@
+import request from 'supertest';
+import { bootDbFixture, truncateAll, DbFixture } from '@tests/_setup/db-fixture';
+import { applyPrismaManagerMock, buildTestApp } from '../_shared/test-app';
+
+const ATOMIC_CONTENT_TYPE = 'application/vnd.api+json; ext="https://jsonapi.org/ext/atomic"';
+
+describe('CRUD policy 옵션 (통합)', () => {
+    let fixture: DbFixture;
+
+    beforeAll(async () => {
+        fixture = await bootDbFixture();
+    });
+
+    afterAll(async () => {
+        await fixture.teardown();
+    });
+
+    afterEach(async () => {
+        await truncateAll(fixture);
+    });
+
+    beforeEach(() => {
+        applyPrismaManagerMock(fixture);
+    });
+
+    const isAdmin = (req: any) => req.get('x-role') === 'admin';
+
+    const userPolicy = (overrides: any = {}) => ({
+        actions: { destroy: isAdmin },
+        fields: { email: { read: isAdmin, update: isAdmin } },
+        ...overrides,
+    });
+
+    async function seedUsers() {
+        await fixture.prisma.user.create({ data: { id: 'u1', email: 'a@a.com', name: 'A' } });
+        await fixture.prisma.user.create({ data: { id: 'u2', email: 'b@b.com', name: 'B' } });
+    }
+
+    it('읽기 불가 필드는 응답 attributes 에서 제거되고 filter 로 참조하면 403 이다', async () => {
+        const app = buildTestApp(fixture, { policy: userPolicy() }, 'User', '/users');
+        await seedUsers();
+
+        const hidden = await request(app).get('/users/u1');
+        expect(hidden.status).toBe(200);
+        expect(hidden.body.data.attributes.name).toBe('A');
+        expect(hidden.body.data.attributes).not.toHaveProperty('email');
+
+        const visible = await request(app).get('/users/u1').set('x-role', 'admin');
+        expect(visible.body.data.attributes.email).toBe('a@a.com');
+
+        const filtered = await request(app).get(
+            '/users?filter[email_eq]=a@a.com&page[number]=1&page[size]=10',
+        );
+        expect(filtered.status).toBe(403);
+        expect(filtered.body.errors[0].code).toBe('FORBIDDEN');
+    });
+
+    it('쓰기 불가 필드는 기본적으로 403, onForbiddenWrite: strip 이면 제거 후 저장한다', async () => {
+        await seedUsers();
+        const body = {
+            data: { type: 'users', id: 'u1', attributes: { name: 'A2', email: 'x@x' } },
+        };
+
+        const rejectApp = buildTestApp(fixture, { policy: userPolicy() }, 'User', '/users');
+        const rejected = await request(rejectApp).patch('/users/u1').send(body);
+        expect(rejected.status).toBe(403);
+
+        const stripApp = buildTestApp(
+            fixture,
+            { policy: userPolicy({ onForbiddenWrite: 'strip' }) },
+            'User',
+            '/users',
+        );
+        const stripped = await request(stripApp).patch('/users/u1').send(body);
+        expect(stripped.status).toBe(200);
+
+        const row = await fixture.prisma.user.findUnique({ where: { id: 'u1' } });
+        expect(row).toMatchObject({ name: 'A2', email: 'a@a.com' });
+    });
+
+    it('액션 규칙이 거부하면 403 으로 응답하고 행을 변경하지 않는다', async () => {
+        const app = buildTestApp(fixture, { policy: userPolicy() }, 'User', '/users');
+        await seedUsers();
+
+        const res = await request(app).delete('/users/u1');
+        expect(res.status).toBe(403);
+        expect(await fixture.prisma.user.count()).toBe(2);
+
+        const admin = await request(app).delete('/users/u1').set('x-role', 'admin');
+        expect(admin.status).toBe(204);
+    });
+
+    it('행 스코프는 index 결과를 제한하고 스코프 밖의 show/update/destroy 는 404 이다', async () => {
+        const policy = { scope: (req: any) => ({ authorId: req.get('x-user') }) };
+        const app = buildTestApp(fixture, { policy }, 'Post', '/posts');
+        await seedUsers();
+        await fixture.prisma.post.create({ data: { id: 'p1', title: 'mine', authorId: 'u1' } });
+        await fixture.prisma.post.create({ data: { id: 'p2', title: 'other', authorId: 'u2' } });
+
+        const list = await request(app)
+            .get('/posts?filter[title_like]=e&page[number]=1&page[size]=10')
+            .set('x-user', 'u1');
+        expect(list.status).toBe(200);
+        expect(list.body.data.map((d: any) => d.id)).toEqual(['p1']);
+
+        const show = await request(app).get('/posts/p2').set('x-user', 'u1');
+        expect(show.status).toBe(404);
+
+        const update = await request(app)
+            .patch('/posts/p2')
+            .set('x-user', 'u1')
+            .send({ data: { type: 'posts', id: 'p2', attributes: { title: 'hacked' } } });
+        expect(update.status).toBe(404);
+
+        const destroy = await request(app).delete('/posts/p2').set('x-user', 'u1');
+        expect(destroy.status).toBe(404);
+
+        const row = await fixture.prisma.post.findUnique({ where: { id: 'p2' } });
+        expect(row.title).toBe('other');
+    });
+
+    it('atomic operations 에도 쓰기 정책이 적용되어 위반 시 전체가 롤백된다', async () => {
+        const policy = { fields: { deletedAt: { create: false } } };
+        const app = buildTestApp(fixture, { policy }, 'User', '/users');
+
+        const res = await request(app)
+            .post('/users/atomic')
+            .set('Content-Type', ATOMIC_CONTENT_TYPE)
+            .send({
+                'atomic:operations': [
+                    {
+                        op: 'add',
+                        data: {
+                            type: 'users',
+                            attributes: { id: 'u1', email: 'a@a.com', name: 'A' },
+                        },
+                    },
+                    {
+                        op: 'add',
+                        data: {
+                            type: 'users',
+                            attributes: { id: 'u2', email: 'b@b.com', name: 'B', deletedAt: null },
+                        },
+                    },
+                ],
+            });
+        expect(res.status).toBe(403);
+        expect(await fixture.prisma.user.count()).toBe(0);
+    });
+});
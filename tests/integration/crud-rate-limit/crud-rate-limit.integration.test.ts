@@ -0,0 +1,109 @@
+import request from 'supertest';
+import { bootDbFixture, truncateAll, DbFixture } from '@tests/_setup/db-fixture';
+import { applyPrismaManagerMock, buildTestApp } from '../_shared/test-app';
+
+const JSON_API = 'application/vnd.api+json';
+
+describe('CRUD rateLimit 옵션 (통합)', () => {
+    let fixture: DbFixture;
+
+    beforeAll(async () => {
+        fixture = await bootDbFixture();
+    });
+
+    afterAll(async () => {
+        await fixture.teardown();
+    });
+
+    afterEach(async () => {
+        await truncateAll(fixture);
+    });
+
+    beforeEach(() => {
+        applyPrismaManagerMock(fixture);
+    });
+
+    function buildApp() {
+        // applyPrismaManagerMock 이 모듈을 리셋하므로 저장소도 같은 레지스트리에서 가져온다
+        const { MemoryRateLimitStore } = require('@lib/http/rateLimiting/rateLimitStore');
+        const store = new MemoryRateLimitStore();
+        return buildTestApp(
+            fixture,
+            {
+                rateLimit: {
+                    create: { limit: 1, windowMs: 60_000, store },
+                    update: { limit: 2, windowMs: 60_000, store },
+                },
+            },
+            'User',
+            '/users',
+        );
+    }
+
+    function update(app: any, method: 'put' | 'patch', name: string) {
+        return request(app)
+            [method]('/users/u1')
+            .set('Content-Type', JSON_API)
+            .send({ data: { type: 'user', id: 'u1', attributes: { name } } });
+    }
+
+    it('액션별 한도를 적용하고 PUT / PATCH 는 update 한도를 공유한다', async () => {
+        const app = buildApp();
+        await fixture.prisma.user.create({ data: { id: 'u1', email: 'a@a.com', name: 'A' } });
+
+        const created = await request(app)
+            .post('/users')
+            .set('Content-Type', JSON_API)
+            .send({ data: { type: 'user', attributes: { email: 'b@b.com', name: 'B' } } });
+        expect(created.status).toBe(201);
+        expect(created.headers['ratelimit-remaining']).toBe('0');
+
+        const limited = await request(app)
+            .post('/users')
+            .set('Content-Type', JSON_API)
+            .send({ data: { type: 'user', attributes: { email: 'c@c.com', name: 'C' } } });
+        expect(limited.status).toBe(429);
+        expect(limited.body.errors[0].code).toBe('RATE_LIMIT_EXCEEDED');
+        expect(await fixture.prisma.user.count()).toBe(2);
+
+        expect((await update(app, 'put', 'X')).status).toBe(200);
+        expect((await update(app, 'patch', 'Y')).status).toBe(200);
+        expect((await update(app, 'patch', 'Z')).status).toBe(429);
+
+        // 한도를 지정하지 않은 액션은 제한 없음
+        const list = await request(app).get('/users?page[number]=1&page[size]=10');
+        expect(list.status).toBe(200);
+        expect(list.headers['ratelimit-limit']).toBeUndefined();
+    });
+
+    it("인증을 액션 미들웨어에 두면 key: 'user' 한도가 사용자별로 나뉜다", async () => {
+        const { MemoryRateLimitStore } = require('@lib/http/rateLimiting/rateLimitStore');
+        const store = new MemoryRateLimitStore();
+        const requireUser = (req: any, res: any, next: any) => {
+            const id = req.header('X-User');
+            if (!id) return res.status(401).json({ errors: [{ status: '401' }] });
+            req.kusto = { ...req.kusto, user: { id } };
+            next();
+        };
+        const app = buildTestApp(
+            fixture,
+            {
+                rateLimit: { create: { limit: 1, windowMs: 60_000, key: 'user', store } },
+                middleware: { create: [requireUser] },
+            },
+            'User',
+            '/users',
+        );
+        const create = (user: string, email: string) =>
+            request(app)
+                .post('/users')
+                .set('Content-Type', JSON_API)
+                .set('X-User', user)
+                .send({ data: { type: 'user', attributes: { email, name: 'A' } } });
+
+        expect((await create('alice', 'a@a.com')).status).toBe(201);
+        expect((await create('alice', 'b@b.com')).status).toBe(429);
+        // 같은 IP 라도 다른 사용자는 자기 한도를 쓴다
+        expect((await create('bob', 'c@c.com')).status).toBe(201);
+    });
+});
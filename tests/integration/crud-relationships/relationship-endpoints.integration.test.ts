@@ -0,0 +1,170 @@
+import request from 'supertest';
+import { bootDbFixture, truncateAll, DbFixture } from '@tests/_setup/db-fixture';
+import { applyPrismaManagerMock, buildTestApp } from '../_shared/test-app';
+
+const JSON_API = 'application/vnd.api+json';
+
+describe('CRUD relationship 엔드포인트 /:id/relationships/:relationName (통합)', () => {
+    let fixture: DbFixture;
+
+    beforeAll(async () => {
+        fixture = await bootDbFixture();
+    });
+
+    afterAll(async () => {
+        await fixture.teardown();
+    });
+
+    afterEach(async () => {
+        await truncateAll(fixture);
+    });
+
+    beforeEach(() => {
+        applyPrismaManagerMock(fixture);
+    });
+
+    async function seed() {
+        await fixture.prisma.user.create({ data: { id: 'u1', email: 'a@a.com', name: 'A' } });
+        await fixture.prisma.user.create({ data: { id: 'u2', email: 'b@b.com', name: 'B' } });
+        await fixture.prisma.post.create({ data: { id: 'p1', title: 'T', authorId: 'u1' } });
+        for (const id of ['t1', 't2', 't3']) {
+            await fixture.prisma.tag.create({ data: { id, name: id } });
+        }
+    }
+
+    const send = (req: request.Test, data: any) =>
+        req.set('Content-Type', JSON_API).send(JSON.stringify({ data }));
+
+    const linkedTagIds = async () =>
+        (await fixture.prisma.postTag.findMany({ where: { postId: 'p1' } }))
+            .map((row: any) => row.tagId)
+            .sort();
+
+    it('리소스 응답의 모든 관계에 relationships.*.links.self / related 를 붙인다', async () => {
+        const app = buildTestApp(fixture, {}, 'Post', '/posts');
+        await seed();
+
+        const res = await request(app).get('/posts/p1');
+        expect(res.status).toBe(200);
+        const { relationships } = res.body.data;
+        expect(relationships.tags.links.self).toMatch(/\/posts\/p1\/relationships\/tags$/);
+        expect(relationships.tags.links.related).toMatch(/\/posts\/p1\/tags$/);
+        expect(relationships.author.links.self).toMatch(/\/posts\/p1\/relationships\/author$/);
+    });
+
+    it('중간 테이블 many-to-many 관계를 POST(추가, 멱등) / PATCH(교체) / DELETE(제거) 한다', async () => {
+        const app = buildTestApp(fixture, {}, 'Post', '/posts');
+        await seed();
+        const path = '/posts/p1/relationships/tags';
+
+        let res = await send(request(app).post(path), [
+            { type: 'tag', id: 't1' },
+            { type: 'tag', id: 't2' },
+        ]);
+        expect(res.status).toBe(204);
+        res = await send(request(app).post(path), [{ type: 'tag', id: 't1' }]);
+        expect(res.status).toBe(204);
+        expect(await linkedTagIds()).toEqual(['t1', 't2']);
+
+        const linkage = await request(app).get(path);
+        expect(linkage.status).toBe(200);
+        expect(linkage.body.data).toEqual(
+            expect.arrayContaining([
+                { type: 'tag', id: 't1' },
+                { type: 'tag', id: 't2' },
+            ]),
+        );
+        expect(linkage.body.links.self).toMatch(/\/posts\/p1\/relationships\/tags$/);
+
+        res = await send(request(app).patch(path), [
+            { type: 'tag', id: 't2' },
+            { type: 'tag', id: 't3' },
+        ]);
+        expect(res.status).toBe(204);
+        expect(await linkedTagIds()).toEqual(['t2', 't3']);
+
+        res = await send(request(app).delete(path), [{ type: 'tag', id: 't2' }]);
+        expect(res.status).toBe(204);
+        expect(await linkedTagIds()).toEqual(['t3']);
+    });
+
+    it('to-one 관계는 PATCH 로 교체하고 POST 는 403 으로 거부한다', async () => {
+        const app = buildTestApp(fixture, {}, 'Post', '/posts');
+        await seed();
+
+        const res = await send(request(app).patch('/posts/p1/relationships/author'), {
+            type: 'user',
+            id: 'u2',
+        });
+        expect(res.status).toBe(204);
+        const post = await fixture.prisma.post.findUnique({ where: { id: 'p1' } });
+        expect(post.authorId).toBe('u2');
+
+        const forbidden = await send(request(app).post('/posts/p1/relationships/author'), [
+            { type: 'user', id: 'u1' },
+        ]);
+        expect(forbidden.status).toBe(403);
+    });
+
+    it('잘못된 resource identifier 는 400, 모델에 없는 관계는 404 로 응답한다', async () => {
+        const app = buildTestApp(fixture, {}, 'Post', '/posts');
+        await seed();
+
+        const invalid = await send(request(app).post('/posts/p1/relationships/tags'), [
+            { id: 't1' },
+        ]);
+        expect(invalid.status).toBe(400);
+
+        const unknown = await request(app).get('/posts/p1/relationships/nope');
+        expect(unknown.status).toBe(404);
+        expect(unknown.body.errors[0].code).toBe('RELATIONSHIP_NOT_FOUND');
+    });
+
+    it('update 액션이 비활성화된 CRUD 는 관계 변경 라우트를 만들지 않는다', async () => {
+        const app = buildTestApp(fixture, { only: ['index', 'show'] }, 'Post', '/posts');
+        await seed();
+
+        const res = await send(request(app).patch('/posts/p1/relationships/tags'), []);
+        expect(res.status).toBe(404);
+        expect(await linkedTagIds()).toEqual([]);
+    });
+
+    it('대상 모델과 다른 type 의 linkage 는 409 이고 관계는 바뀌지 않는다', async () => {
+        const app = buildTestApp(fixture, {}, 'Post', '/posts');
+        await seed();
+
+        const res = await send(request(app).post('/posts/p1/relationships/tags'), [
+            { type: 'tag', id: 't1' },
+            { type: 'user', id: 'u1' },
+        ]);
+        expect(res.status).toBe(409);
+        expect(res.body.errors[0].code).toBe('CONFLICT');
+        expect(await linkedTagIds()).toEqual([]);
+    });
+
+    it('관계 변경 라우트를 관계마다 OpenAPI 문서에 등록한다', () => {
+        const { ExpressRouter } = require('@lib/http/routing/expressRouter');
+        const register = jest.spyOn(ExpressRouter.prototype, 'registerDocumentation');
+        buildTestApp(fixture, {}, 'Post', '/posts');
+
+        const routes = register.mock.calls
+            .filter(([, path]: any) => String(path).includes('/relationships/'))
+            .map(([method, path]: any) => `${method} ${path}`);
+        expect(routes).toEqual(
+            expect.arrayContaining([
+                'POST /:id/relationships/tags',
+                'PATCH /:id/relationships/tags',
+                'DELETE /:id/relationships/tags',
+                'PATCH /:id/relationships/author',
+            ]),
+        );
+        expect(routes).not.toContain('POST /:id/relationships/author');
+
+        const tagsDoc: any = register.mock.calls.find(
+            ([method, path]: any) => method === 'POST' && path === '/:id/relationships/tags',
+        )?.[2];
+        expect(tagsDoc.parameters.body.properties.data.items.properties.type.const).toBe('tag');
+        expect(tagsDoc.responses).toHaveProperty('409');
+        register.mockRestore();
+    });
+});
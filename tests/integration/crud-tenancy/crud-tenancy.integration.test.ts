@@ -0,0 +1,189 @@
+import request from 'supertest';
+import { bootDbFixture, truncateAll, DbFixture } from '@tests/_setup/db-fixture';
+import { applyPrismaManagerMock, buildTestApp } from '../_shared/test-app';
+
+const ATOMIC_CONTENT_TYPE = 'application/vnd.api+json; ext="https://jsonapi.org/ext/atomic"';
+
+/**
+ * fixture 스키마에는 tenantId 컬럼이 없으므로 Post.authorId 를 테넌트 컬럼으로 사용한다
+ * (`field` 옵션 + 컬럼 유무 기반 대상 모델 판단을 함께 검증).
+ */
+describe('CRUD 멀티 테넌트 스코프 (통합)', () => {
+    let fixture: DbFixture;
+
+    beforeAll(async () => {
+        fixture = await bootDbFixture();
+    });
+
+    afterAll(async () => {
+        await fixture.teardown();
+    });
+
+    afterEach(async () => {
+        await truncateAll(fixture);
+    });
+
+    beforeEach(() => {
+        applyPrismaManagerMock(fixture);
+        // resetModules 이후의 모듈 인스턴스에 설정해야 CRUD 라우트가 같은 TenantScope 를 본다
+        const { TenantScope } = require('@lib/data/database/tenantScope');
+        TenantScope.configure({
+            field: 'authorId',
+            resolve: (req: any) => req.get('x-tenant'),
+        });
+    });
+
+    async function seed() {
+        await fixture.prisma.user.create({ data: { id: 'u1', email: 'a@a.com', name: 'A' } });
+        await fixture.prisma.user.create({ data: { id: 'u2', email: 'b@b.com', name: 'B' } });
+        await fixture.prisma.post.create({ data: { id: 'p1', title: 'mine', authorId: 'u1' } });
+        await fixture.prisma.post.create({ data: { id: 'p2', title: 'other', authorId: 'u2' } });
+    }
+
+    it('index 는 현재 테넌트 행만 반환하고 filter 로 스코프를 벗어날 수 없다', async () => {
+        const app = buildTestApp(fixture, {}, 'Post', '/posts');
+        await seed();
+
+        const list = await request(app)
+            .get('/posts?page[number]=1&page[size]=10')
+            .set('x-tenant', 'u1');
+        expect(list.status).toBe(200);
+        expect(list.body.data.map((d: any) => d.id)).toEqual(['p1']);
+
+        const escape = await request(app)
+            .get('/posts?filter[authorId_eq]=u2&page[number]=1&page[size]=10')
+            .set('x-tenant', 'u1');
+        expect(escape.status).toBe(200);
+        expect(escape.body.data).toEqual([]);
+    });
+
+    it('다른 테넌트 행의 show / update / destroy 는 404 이다', async () => {
+        const app = buildTestApp(fixture, {}, 'Post', '/posts');
+        await seed();
+
+        const show = await request(app).get('/posts/p2').set('x-tenant', 'u1');
+        expect(show.status).toBe(404);
+
+        const update = await request(app)
+            .patch('/posts/p2')
+            .set('x-tenant', 'u1')
+            .send({ data: { type: 'posts', id: 'p2', attributes: { title: 'hacked' } } });
+        expect(update.status).toBe(404);
+
+        const destroy = await request(app).delete('/posts/p2').set('x-tenant', 'u1');
+        expect(destroy.status).toBe(404);
+
+        const row = await fixture.prisma.post.findUnique({ where: { id: 'p2' } });
+        expect(row.title).toBe('other');
+    });
+
+    it('create / update 데이터의 테넌트 컬럼은 현재 테넌트로 강제된다', async () => {
+        const app = buildTestApp(fixture, {}, 'Post', '/posts');
+        await seed();
+
+        const created = await request(app)
+            .post('/posts')
+            .set('x-tenant', 'u1')
+            .send({
+                data: { type: 'posts', id: 'p3', attributes: { title: 'new', authorId: 'u2' } },
+            });
+        expect(created.status).toBe(201);
+
+        const moved = await request(app)
+            .patch('/posts/p1')
+            .set('x-tenant', 'u1')
+            .send({ data: { type: 'posts', id: 'p1', attributes: { authorId: 'u2' } } });
+        expect(moved.status).toBe(200);
+
+        const rows = await fixture.prisma.post.findMany({ where: { id: { in: ['p1', 'p3'] } } });
+        expect(rows.map((row: any) => row.authorId)).toEqual(['u1', 'u1']);
+    });
+
+    it('테넌트를 식별하지 못한 요청은 401 이다', async () => {
+        const app = buildTestApp(fixture, {}, 'Post', '/posts');
+        await seed();
+
+        const res = await request(app).get('/posts/p1');
+        expect(res.status).toBe(401);
+        expect(res.body.errors[0].code).toBe('UNAUTHORIZED');
+    });
+
+    it('atomic operations 에도 테넌트 스코프가 적용되어 위반 시 전체가 롤백된다', async () => {
+        const app = buildTestApp(fixture, {}, 'Post', '/posts');
+        await seed();
+
+        const res = await request(app)
+            .post('/posts/atomic')
+            .set('Content-Type', ATOMIC_CONTENT_TYPE)
+            .set('x-tenant', 'u1')
+            .send({
+                'atomic:operations': [
+                    {
+                        op: 'add',
+                        data: {
+                            type: 'posts',
+                            attributes: { id: 'p3', title: 'new', authorId: 'u2' },
+                        },
+                    },
+                    { op: 'remove', ref: { type: 'posts', id: 'p2' } },
+                ],
+            });
+        expect(res.status).toBe(404);
+        expect(await fixture.prisma.post.count()).toBe(2);
+
+        const ok = await request(app)
+            .post('/posts/atomic')
+            .set('Content-Type', ATOMIC_CONTENT_TYPE)
+            .set('x-tenant', 'u1')
+            .send({
+                'atomic:operations': [
+                    {
+                        op: 'add',
+                        data: {
+                            type: 'posts',
+                            attributes: { id: 'p3', title: 'new', authorId: 'u2' },
+                        },
+                    },
+                ],
+            });
+        expect(ok.status).toBe(200);
+        const created = await fixture.prisma.post.findUnique({ where: { id: 'p3' } });
+        expect(created.authorId).toBe('u1');
+    });
+
+    it('다른 테넌트의 행은 관계로 연결할 수 없다 (relationship 라우트 / atomic)', async () => {
+        const app = buildTestApp(fixture, {}, 'User', '/users');
+        await seed();
+        const addPosts = (id: string) =>
+            request(app)
+                .post('/users/u1/relationships/posts')
+                .set('Content-Type', 'application/vnd.api+json')
+                .set('x-tenant', 'u1')
+                .send(JSON.stringify({ data: [{ type: 'post', id }] }));
+
+        const foreign = await addPosts('p2');
+        expect(foreign.status).toBe(404);
+        expect((await fixture.prisma.post.findUnique({ where: { id: 'p2' } })).authorId).toBe('u2');
+        expect((await addPosts('p1')).status).toBe(204);
+
+        const atomic = await request(app)
+            .post('/users/atomic')
+            .set('Content-Type', ATOMIC_CONTENT_TYPE)
+            .set('x-tenant', 'u1')
+            .send({
+                'atomic:operations': [
+                    {
+                        op: 'update',
+                        ref: { type: 'users', id: 'u1' },
+                        data: {
+                            type: 'users',
+                            id: 'u1',
+                            relationships: { posts: { data: [{ type: 'post', id: 'p2' }] } },
+                        },
+                    },
+                ],
+            });
+        expect(atomic.status).toBe(404);
+        expect((await fixture.prisma.post.findUnique({ where: { id: 'p2' } })).authorId).toBe('u2');
+    });
+});
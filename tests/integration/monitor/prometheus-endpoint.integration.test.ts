@@ -0,0 +1,90 @@
+import request from 'supertest';
+import express from 'express';
+import { registerMetrics, stopMetrics } from '@core/lib/metrics/metricsSetup';
+import { metricsRegistry } from '@core/lib/metrics/metricsRegistry';
+import { routeBaseMarker } from '@core/lib/http/routing/routePattern';
+
+/**
+ * 운영용 /metrics 통합 — opt-in, 라우트 패턴 라벨, 토큰 인증.
+ * (supertest 요청은 127.0.0.1 에서 오므로 토큰이 없으면 루프백 허용으로 통과한다.)
+ */
+function buildApp(overrides: { token?: string } = {}) {
+    const app = express();
+    registerMetrics(app, { getReadiness: () => ({ ready: true }) }, overrides);
+
+    // loadRoutes 와 같은 방식으로 파라미터가 들어간 경로에 라우터를 마운트
+    const router = express.Router();
+    router.get('/posts/:postId', (_req, res) => res.json({ ok: true }));
+    router.get('/', (_req, res) => res.status(500).json({ err: true }));
+    app.use('/users/:userId', routeBaseMarker('/users/:userId'), router);
+    return app;
+}
+
+describe('Prometheus /metrics (통합)', () => {
+    const OLD_ENV = process.env;
+
+    beforeEach(() => {
+        process.env = { ...OLD_ENV, METRICS_ENABLED: 'true' };
+        metricsRegistry.resetValues();
+    });
+
+    afterEach(() => {
+        process.env = OLD_ENV;
+    });
+
+    afterAll(() => {
+        stopMetrics(); // event-loop 히스토그램 핸들 정리
+    });
+
+    it('METRICS_ENABLED 가 아니면 엔드포인트를 등록하지 않는다', async () => {
+        process.env.METRICS_ENABLED = 'false';
+        const res = await request(buildApp()).get('/metrics');
+        expect(res.status).toBe(404);
+    });
+
+    it('실제 URL 이 아니라 라우트 패턴으로 요청을 집계한다', async () => {
+        const app = buildApp();
+        await request(app).get('/users/1/posts/10');
+        await request(app).get('/users/2/posts/20');
+        await request(app).get('/users/3');
+        await request(app).get('/nope/123');
+
+        const res = await request(app).get('/metrics');
+        expect(res.status).toBe(200);
+        expect(res.headers['content-type']).toMatch(/^text\/plain;.*version=0.0.4/);
+        expect(res.text).toContain(
+            'kusto_http_requests_total{method="GET",route="/users/:userId/posts/:postId",status_class="2xx"} 2',
+        );
+        expect(res.text).toContain(
+            'kusto_http_requests_total{method="GET",route="/users/:userId",status_class="5xx"} 1',
+        );
+        expect(res.text).toContain(
+            'kusto_http_requests_total{method="GET",route="unmatched",status_class="4xx"} 1',
+        );
+        expect(res.text).toContain(
+            'kusto_http_request_duration_seconds_count{method="GET",route="/users/:userId/posts/:postId"} 2',
+        );
+        expect(res.text).not.toContain('route="/metrics"');
+        expect(res.text).toContain('kusto_app_ready 1');
+        expect(res.text).toMatch(/nodejs_heap_size_used_bytes \d+/);
+        expect(res.text).toMatch(/nodejs_eventloop_lag_p99_seconds [\d.e-]+/);
+    });
+
+    it('Accept 헤더로 OpenMetrics 포맷을 협상한다', async () => {
+        const res = await request(buildApp())
+            .get('/metrics')
+            .set('Accept', 'application/openmetrics-text; version=1.0.0');
+        expect(res.headers['content-type']).toContain('application/openmetrics-text');
+        expect(res.text.endsWith('# EOF\n')).toBe(true);
+    });
+
+    it('토큰을 설정하면 Bearer 토큰 없이는 401 을 반환한다', async () => {
+        const app = buildApp({ token: 's3cret' });
+        const denied = await request(app).get('/metrics');
+        expect(denied.status).toBe(401);
+        expect(denied.headers['www-authenticate']).toBe('Bearer');
+
+        const ok = await request(app).get('/metrics').set('Authorization', 'Bearer s3cret');
+        expect(ok.status).toBe(200);
+    });
+});
@@ -0,0 +1,180 @@
+import request from 'supertest';
+import { bootDbFixture, truncateAll, DbFixture } from '@tests/_setup/db-fixture';
+import { applyPrismaManagerMock, buildTestApp } from '../_shared/test-app';
+
+const JSON_API = 'application/vnd.api+json';
+const ATOMIC_CONTENT_TYPE = 'application/vnd.api+json; ext="https://jsonapi.org/ext/atomic"';
+
+describe('트랜잭셔널 아웃박스 (통합)', () => {
+    let fixture: DbFixture;
+    let Outbox: typeof import('@lib/data/outbox/outbox').Outbox;
+
+    beforeAll(async () => {
+        fixture = await bootDbFixture();
+    });
+
+    afterAll(async () => {
+        await fixture.teardown();
+    });
+
+    beforeEach(() => {
+        applyPrismaManagerMock(fixture);
+        // applyPrismaManagerMock 이 모듈을 리셋하므로 같은 레지스트리에서 가져온다
+        ({ Outbox } = require('@lib/data/outbox/outbox'));
+        Outbox.configure({ databases: ['default'], autoStart: false });
+    });
+
+    afterEach(async () => {
+        await Outbox.reset();
+        await truncateAll(fixture);
+    });
+
+    function outboxRows(): Promise<any[]> {
+        return (fixture.prisma as any).outboxEvent.findMany({ orderBy: { createdAt: 'asc' } });
+    }
+
+    function createUser(app: any, email: string) {
+        return request(app)
+            .post('/users')
+            .set('Content-Type', JSON_API)
+            .send({ data: { type: 'user', attributes: { email, name: 'A' } } });
+    }
+
+    it('CRUD events 옵션은 생성과 같은 트랜잭션에서 이벤트를 기록하고 dispatch 가 배달한다', async () => {
+        const app = buildTestApp(
+            fixture,
+            {
+                events: {
+                    create: (user: any) => ({
+                        event: 'user.created',
+                        payload: { id: user.id, email: user.email },
+                    }),
+                },
+            },
+            'User',
+            '/users',
+        );
+        const seen: any[] = [];
+        Outbox.subscribe('user.*', (message) => {
+            seen.push(message.payload);
+        });
+
+        const res = await createUser(app, 'a@a.com');
+        expect(res.status).toBe(201);
+
+        const [row] = await outboxRows();
+        expect(row).toMatchObject({ event: 'user.created', status: 'pending' });
+
+        expect(await Outbox.dispatch('default')).toBe(1);
+        expect(seen).toEqual([{ id: res.body.data.id, email: 'a@a.com' }]);
+        expect((await outboxRows())[0]).toMatchObject({ status: 'delivered', attempts: 1 });
+    });
+
+    it('이벤트 기록이 실패하면 생성도 롤백된다', async () => {
+        const app = buildTestApp(
+            fixture,
+            {
+                events: {
+                    create: () => {
+                        throw new Error('payload build failed');
+                    },
+                },
+            },
+            'User',
+            '/users',
+        );
+
+        const res = await createUser(app, 'a@a.com');
+        expect(res.status).toBeGreaterThanOrEqual(400);
+        expect(await fixture.prisma.user.count()).toBe(0);
+        expect(await outboxRows()).toEqual([]);
+    });
+
+    it('atomic operations 가 롤백되면 앞선 작업의 이벤트도 남지 않는다', async () => {
+        const app = buildTestApp(fixture, { events: { create: 'user.created' } }, 'User', '/users');
+        const add = (id: string) => ({
+            op: 'add',
+            data: { type: 'users', attributes: { id, email: `${id}@a.com`, name: id } },
+        });
+
+        const ok = await request(app)
+            .post('/users/atomic')
+            .set('Content-Type', ATOMIC_CONTENT_TYPE)
+            .send({ 'atomic:operations': [add('u1')] });
+        expect(ok.status).toBe(200);
+        const [row] = await outboxRows();
+        expect(row.event).toBe('user.created');
+        expect(JSON.parse(row.payload)).toMatchObject({ id: 'u1', email: 'u1@a.com' });
+
+        // 두 번째 작업이 중복 id 로 실패 → 먼저 실행된 u2 의 생성과 이벤트도 롤백
+        const failed = await request(app)
+            .post('/users/atomic')
+            .set('Content-Type', ATOMIC_CONTENT_TYPE)
+            .send({ 'atomic:operations': [add('u2'), add('u1')] });
+        expect(failed.status).toBeGreaterThanOrEqual(400);
+        expect(await fixture.prisma.user.count()).toBe(1);
+        expect(await outboxRows()).toHaveLength(1);
+    });
+
+    it('BigInt 컬럼이 있는 레코드도 문자열로 직렬화해 기록한다', async () => {
+        const app = buildTestApp(
+            fixture,
+            { events: { update: 'document.updated' } },
+            'Document',
+            '/documents',
+        );
+        await (fixture.prisma as any).document.create({
+            data: { id: 'd1', title: 'A', size: 9007199254740993n },
+        });
+
+        const res = await request(app)
+            .patch('/documents/d1')
+            .set('Content-Type', JSON_API)
+            .send({ data: { type: 'document', id: 'd1', attributes: { title: 'B' } } });
+        expect(res.status).toBe(200);
+
+        const [row] = await outboxRows();
+        expect(JSON.parse(row.payload)).toMatchObject({
+            id: 'd1',
+            title: 'B',
+            size: '9007199254740993',
+        });
+
+        await Outbox.emit('default', 'document.resized', { size: 1n });
+        expect(JSON.parse((await outboxRows())[1].payload)).toEqual({ size: '1' });
+    });
+
+    it('리포지터리 $emit 은 $transaction 과 함께 커밋/롤백된다', async () => {
+        const { BaseRepository } =
+            require('@lib/data/database/baseRepository') as typeof import('@lib/data/database/baseRepository');
+
+        class UserRepository extends BaseRepository<any> {
+            protected getDatabaseName() {
+                return 'default' as any;
+            }
+
+            async register(id: string) {
+                const user = await (this.client as any).user.create({
+                    data: { id, email: `${id}@a.com`, name: id },
+                });
+                await this.$emit('user.registered', { id });
+                return user;
+            }
+        }
+        const users = new UserRepository({ getWrap: () => fixture.prisma } as any);
+
+        await expect(
+            users.$transaction(async () => {
+                await users.register('u1');
+                throw new Error('abort');
+            }),
+        ).rejects.toThrow(/abort/);
+        expect(await outboxRows()).toEqual([]);
+
+        await users.$transaction(() => users.register('u2'));
+        const rows = await outboxRows();
+        expect(rows.map((row) => [row.event, JSON.parse(row.payload)])).toEqual([
+            ['user.registered', { id: 'u2' }],
+        ]);
+    });
+});
@@ -0,0 +1,142 @@
+import { bootDbFixture, truncateAll, DbFixture } from '@tests/_setup/db-fixture';
+import { BaseRepository } from '@lib/data/database/baseRepository';
+import { UnitOfWork } from '@lib/data/database/unitOfWork';
+import { TenantScope } from '@lib/data/database/tenantScope';
+import { buildFieldTypeMapFromSchema } from '@lib/data/database/fieldTypeMap';
+import * as fs from 'fs';
+import * as path from 'path';
+
+class UserRepository extends BaseRepository<any> {
+    protected getDatabaseName() {
+        return 'default' as any;
+    }
+
+    create(id: string, email: string) {
+        return (this.client as any).user.create({ data: { id, email, name: id } });
+    }
+}
+
+class PostRepository extends BaseRepository<any> {
+    protected getDatabaseName() {
+        return 'default' as any;
+    }
+
+    create(id: string, authorId: string) {
+        return (this.client as any).post.create({ data: { id, title: id, authorId } });
+    }
+
+    find(id: string) {
+        return (this.client as any).post.findUnique({ where: { id } });
+    }
+
+    titles() {
+        return this.$transaction(async (tx: any) =>
+            (await tx.post.findMany({ orderBy: { id: 'asc' } })).map((post: any) => post.title),
+        );
+    }
+
+    /** client 의 $transaction 을 직접 쓰는 경우 (대화형 / 배열형) */
+    clientTransactions() {
+        const db = this.client as any;
+        return Promise.all([
+            db.$transaction(async (tx: any) => tx.post.findMany()),
+            db.$transaction([db.post.count(), db.post.findMany()]),
+        ]);
+    }
+
+    authorOf(id: string) {
+        return (this.client as any).post.findUnique({ where: { id } }).author();
+    }
+}
+
+describe('UnitOfWork (통합)', () => {
+    let fixture: DbFixture;
+    let users: UserRepository;
+    let posts: PostRepository;
+
+    beforeAll(async () => {
+        fixture = await bootDbFixture();
+        const schema = fs.readFileSync(
+            path.resolve(`tests/_fixtures/test-schema.${fixture.provider}.prisma`),
+            'utf-8',
+        );
+        const manager = {
+            getWrap: () => fixture.prisma,
+            getFieldTypeMap: (_db: string, model: string) =>
+                buildFieldTypeMapFromSchema(schema, model),
+        } as any;
+        users = new UserRepository(manager);
+        posts = new PostRepository(manager);
+    });
+
+    afterAll(async () => {
+        await fixture.teardown();
+    });
+
+    afterEach(async () => {
+        await truncateAll(fixture);
+    });
+
+    it('다른 리포지터리의 쓰기도 같은 트랜잭션으로 롤백된다', async () => {
+        await expect(
+            users.$transaction(async () => {
+                await users.create('u1', 'a@a.com');
+                await posts.create('p1', 'u1');
+                throw new Error('abort');
+            }),
+        ).rejects.toThrow(/abort/);
+
+        expect(await fixture.prisma.user.count()).toBe(0);
+        expect(await fixture.prisma.post.count()).toBe(0);
+    });
+
+    it('UnitOfWork.run 으로 연 작업 단위는 커밋 후 afterCommit 을 실행한다', async () => {
+        const seen: number[] = [];
+        await UnitOfWork.run(
+            'default',
+            async () => {
+                await users.create('u1', 'a@a.com');
+                await posts.create('p1', 'u1');
+                await UnitOfWork.afterCommit('default', async () => {
+                    seen.push(await fixture.prisma.post.count());
+                });
+            },
+            { client: fixture.prisma },
+        );
+
+        expect(seen).toEqual([1]);
+        expect(await fixture.prisma.user.count()).toBe(1);
+    });
+
+    it('TenantScope 설정 시 client 와 $transaction 의 tx 모두 현재 테넌트로 스코프된다', async () => {
+        // fixture 에 tenantId 컬럼이 없으므로 Post.authorId 를 테넌트 컬럼으로 쓴다
+        TenantScope.configure({ field: 'authorId', models: ['Post'], resolve: () => undefined });
+        try {
+            await users.create('u1', 'a@a.com');
+            await users.create('u2', 'b@b.com');
+            await fixture.prisma.post.create({
+                data: { id: 'p2', title: 'other', authorId: 'u2' },
+            });
+
+            await TenantScope.run('u1', async () => {
+                // 입력한 authorId 는 현재 테넌트로 덮어쓴다
+                const created = await posts.create('p1', 'u2');
+                expect(created.authorId).toBe('u1');
+
+                expect(await posts.find('p2')).toBeNull();
+                expect(await posts.find('p1')).toMatchObject({ id: 'p1' });
+                expect(await posts.titles()).toEqual(['p1']);
+
+                const [interactive, [count, batch]] = await posts.clientTransactions();
+                expect(interactive.map((post: any) => post.id)).toEqual(['p1']);
+                expect(count).toBe(1);
+                expect(batch.map((post: any) => post.id)).toEqual(['p1']);
+
+                expect(await posts.authorOf('p1')).toMatchObject({ id: 'u1' });
+                expect(await posts.authorOf('p2')).toBeNull();
+            });
+        } finally {
+            TenantScope.reset();
+        }
+    });
+});
@@ -0,0 +1,347 @@
+import express from 'express';
+import request from 'supertest';
+import { generateKeyPairSync } from 'crypto';
+import { signJwt, verifyJwt } from '@lib/http/auth/jwt';
+import type { JwtKey } from '@lib/http/auth/jwt';
+import { jwtStrategy, apiKeyStrategy, sessionStrategy } from '@lib/http/auth/authStrategies';
+import { Auth } from '@lib/http/auth/auth';
+import { ExpressRouter } from '@lib/http/routing/expressRouter';
+import { buildOpenApiDocument } from '@lib/devtools/documentation';
+
+jest.mock('@lib/data/di/dependencyInjector', () => ({
+    DependencyInjector: {
+        getInstance: () => ({
+            getInjectedModules: () => ({}),
+            getMiddleware: () => undefined,
+            hasScopedModules: () => false,
+        }),
+    },
+}));
+
+const NOW = Date.UTC(2026, 0, 1);
+const current: JwtKey = { kid: 'k2', alg: 'HS256', key: 'current-secret' };
+const previous: JwtKey = { kid: 'k1', alg: 'HS256', key: 'previous-secret' };
+
+async function rejection(promise: Promise<unknown>): Promise<any> {
+    try {
+        await promise;
+    } catch (error) {
+        return error;
+    }
+    throw new Error('expected rejection');
+}
+
+describe('verifyJwt', () => {
+    it('서명한 토큰을 검증하고 클레임을 반환한다', async () => {
+        const token = signJwt({ sub: 'u1', roles: ['admin'] }, current, {
+            expiresInSec: 60,
+            now: NOW,
+        });
+        const claims = await verifyJwt(token, [current], { now: NOW + 1000 });
+        expect(claims).toMatchObject({ sub: 'u1', roles: ['admin'], exp: NOW / 1000 + 60 });
+    });
+
+    it('키 회전: kid 로 이전 키를 골라 검증하고 모르는 kid 는 거부한다', async () => {
+        const old = signJwt({ sub: 'u1' }, previous, { now: NOW });
+        await expect(verifyJwt(old, [current, previous], { now: NOW })).resolves.toMatchObject({
+            sub: 'u1',
+        });
+
+        const unknown = signJwt({ sub: 'u1' }, { ...current, kid: 'k9' }, { now: NOW });
+        const error = await rejection(verifyJwt(unknown, [current, previous], { now: NOW }));
+        expect(error.statusCode).toBe(401);
+        expect(error.message).toContain('k9');
+    });
+
+    it('키 목록을 함수로 받을 수 있다', async () => {
+        const token = signJwt({ sub: 'u1' }, current, { now: NOW });
+        await expect(verifyJwt(token, async () => [current], { now: NOW })).resolves.toMatchObject({
+            sub: 'u1',
+        });
+    });
+
+    it('RS256 은 공개키로 검증하고, 같은 키를 HS256 비밀로 쓰는 위조는 거부한다', async () => {
+        const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+            modulusLength: 2048,
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+        });
+        const verifyKey: JwtKey = { alg: 'RS256', key: publicKey };
+
+        const token = signJwt({ sub: 'u1' }, { alg: 'RS256', key: privateKey }, { now: NOW });
+        await expect(verifyJwt(token, [verifyKey], { now: NOW })).resolves.toMatchObject({
+            sub: 'u1',
+        });
+
+        // 알고리즘 혼동 공격: 공개키를 HMAC 비밀로 써서 서명
+        const forged = signJwt({ sub: 'admin' }, { alg: 'HS256', key: publicKey }, { now: NOW });
+        const error = await rejection(verifyJwt(forged, [verifyKey], { now: NOW }));
+        expect(error.statusCode).toBe(401);
+    });
+
+    it('만료는 TOKEN_EXPIRED, 허용 오차 안이면 통과', async () => {
+        const token = signJwt({ sub: 'u1' }, current, { expiresInSec: 60, now: NOW });
+
+        const error = await rejection(verifyJwt(token, [current], { now: NOW + 61_000 }));
+        expect(error.code).toBe('TOKEN_EXPIRED');
+        expect(error.statusCode).toBe(401);
+
+        await expect(
+            verifyJwt(token, [current], { now: NOW + 61_000, clockToleranceSec: 5 }),
+        ).resolves.toBeDefined();
+    });
+
+    it('서명 위조, alg none, iss/aud 불일치를 거부한다', async () => {
+        const token = signJwt({ sub: 'u1', iss: 'kusto', aud: ['api'] }, current, { now: NOW });
+
+        const [header, payload] = token.split('.');
+        const tampered = `${header}.${Buffer.from('{"sub":"admin"}').toString('base64url')}.${token.split('.')[2]}`;
+        expect((await rejection(verifyJwt(tampered, [current], { now: NOW }))).message).toBe(
+            'Invalid token signature',
+        );
+
+        const none = `${Buffer.from('{"alg":"none"}').toString('base64url')}.${payload}.`;
+        expect((await rejection(verifyJwt(none, [current], { now: NOW }))).statusCode).toBe(401);
+
+        await expect(
+            verifyJwt(token, [current], { now: NOW, issuer: 'kusto', audience: 'api' }),
+        ).resolves.toBeDefined();
+        expect(
+            (await rejection(verifyJwt(token, [current], { now: NOW, issuer: 'other' }))).message,
+        ).toBe('Unexpected token issuer');
+        expect(
+            (await rejection(verifyJwt(token, [current], { now: NOW, audience: 'admin' }))).message,
+        ).toBe('Unexpected token audience');
+    });
+});
+
+describe('Auth 미들웨어 (router.AUTH)', () => {
+    const apiKeys = apiKeyStrategy({
+        keys: [{ key: 'secret-key', id: 'svc-1', scopes: ['orders:read'] }],
+    });
+
+    beforeEach(() => {
+        Auth.configure({ strategies: [jwtStrategy({ keys: [current, previous] }), apiKeys] });
+    });
+
+    afterEach(() => {
+        Auth.reset();
+    });
+
+    function buildApp(configure: (router: ExpressRouter) => void) {
+        const router = new ExpressRouter();
+        configure(router);
+        const app = express();
+        app.use(router.build());
+        return app;
+    }
+
+    const whoami = (req: express.Request, res: express.Response) => {
+        res.json({ user: req.kusto?.user ?? null });
+    };
+
+    it('AUTH 이전 라우트는 공개, 이후 라우트는 자격 증명이 없으면 401', async () => {
+        const app = buildApp((router) => {
+            router.GET_SLUG(['public'], (_req, res) => res.json({ ok: true }));
+            router.AUTH();
+            router.GET(whoami);
+        });
+
+        expect((await request(app).get('/public')).status).toBe(200);
+
+        const res = await request(app).get('/');
+        expect(res.status).toBe(401);
+        expect(res.headers['www-authenticate']).toBe('Bearer');
+        expect(res.body.errors[0]).toMatchObject({
+            status: '401',
+            code: 'UNAUTHORIZED',
+            detail: 'Authentication required',
+        });
+    });
+
+    it('JWT 사용자를 req.kusto.user 에 싣는다', async () => {
+        const app = buildApp((router) => {
+            router.AUTH();
+            router.GET(whoami);
+        });
+        const token = signJwt({ sub: 'u1', roles: ['admin'], scope: 'a b' }, current);
+
+        const res = await request(app).get('/').set('Authorization', `Bearer ${token}`);
+        expect(res.status).toBe(200);
+        expect(res.body.user).toMatchObject({
+            id: 'u1',
+            strategy: 'jwt',
+            roles: ['admin'],
+            scopes: ['a', 'b'],
+        });
+    });
+
+    it('잘못된 토큰은 optional 이어도 401, 자격 증명이 없으면 통과', async () => {
+        const app = buildApp((router) => {
+            router.AUTH({ optional: true });
+            router.GET(whoami);
+        });
+
+        const anonymous = await request(app).get('/');
+        expect(anonymous.status).toBe(200);
+        expect(anonymous.body.user).toBeNull();
+
+        const expired = signJwt({ sub: 'u1' }, current, { expiresInSec: -10 });
+        const res = await request(app).get('/').set('Authorization', `Bearer ${expired}`);
+        expect(res.status).toBe(401);
+        expect(res.body.errors[0].code).toBe('TOKEN_EXPIRED');
+    });
+
+    it('API 키: 일치하면 사용자, 틀리면 INVALID_CREDENTIALS', async () => {
+        const app = buildApp((router) => {
+            router.AUTH({ strategies: ['apiKey'] });
+            router.GET(whoami);
+        });
+
+        const ok = await request(app).get('/').set('X-API-Key', 'secret-key');
+        expect(ok.body.user).toMatchObject({ id: 'svc-1', strategy: 'apiKey' });
+
+        const bad = await request(app).get('/').set('X-API-Key', 'nope');
+        expect(bad.status).toBe(401);
+        expect(bad.body.errors[0].code).toBe('INVALID_CREDENTIALS');
+
+        // 허용하지 않은 전략의 자격 증명은 없는 것과 같다
+        const token = signJwt({ sub: 'u1' }, current);
+        const other = await request(app).get('/').set('Authorization', `Bearer ${token}`);
+        expect(other.status).toBe(401);
+    });
+
+    it('역할은 하나라도, 스코프는 모두 있어야 하며 아니면 403', async () => {
+        const app = buildApp((router) => {
+            router.AUTH({ roles: ['admin', 'ops'] });
+            router.GET(whoami);
+            router.WITH('auth', { scopes: ['orders:read', 'orders:write'] });
+            router.POST(whoami);
+        });
+        const ops = signJwt({ sub: 'u1', roles: ['ops'], scope: 'orders:read' }, current);
+        const guest = signJwt({ sub: 'u2', roles: ['guest'] }, current);
+
+        expect((await request(app).get('/').set('Authorization', `Bearer ${ops}`)).status).toBe(
+            200,
+        );
+        const noRole = await request(app).get('/').set('Authorization', `Bearer ${guest}`);
+        expect(noRole.status).toBe(403);
+        expect(noRole.body.errors[0].code).toBe('FORBIDDEN');
+
+        const noScope = await request(app).post('/').set('Authorization', `Bearer ${ops}`);
+        expect(noScope.status).toBe(403);
+        expect(noScope.body.errors[0].detail).toBe('Missing scopes: orders:write');
+    });
+
+    it('configure 전에 요청이 오면 에러로 넘긴다', async () => {
+        Auth.reset();
+        const app = buildApp((router) => {
+            router.AUTH();
+            router.GET(whoami);
+        });
+        app.use((err: Error, _req: any, res: any, _next: any) => {
+            res.status(500).json({ message: err.message });
+        });
+
+        const res = await request(app).get('/');
+        expect(res.status).toBe(500);
+        expect(res.body.message).toContain('Auth.configure()');
+    });
+});
+
+describe('sessionStrategy', () => {
+    const sessions: Record<string, any> = {
+        live: { userId: 7, roles: ['member'] },
+        stale: { userId: 8, expiresAt: new Date(Date.now() - 1000) },
+    };
+    const strategy = sessionStrategy({ load: (id) => sessions[id] });
+
+    function req(cookie?: string): any {
+        return { get: (name: string) => (name === 'Cookie' ? cookie : undefined) };
+    }
+
+    it('쿠키의 세션 ID 로 사용자를 만든다', async () => {
+        await expect(strategy.authenticate(req('theme=dark; sid=live'))).resolves.toEqual({
+            id: '7',
+            strategy: 'session',
+            roles: ['member'],
+            scopes: [],
+            claims: { sessionId: 'live' },
+        });
+        await expect(strategy.authenticate(req())).resolves.toBeNull();
+    });
+
+    it('없는 세션과 만료된 세션은 401', async () => {
+        expect((await rejection(strategy.authenticate(req('sid=gone')))).statusCode).toBe(401);
+        expect((await rejection(strategy.authenticate(req('sid=stale')))).code).toBe(
+            'TOKEN_EXPIRED',
+        );
+    });
+});
+
+describe('OpenAPI security', () => {
+    it('securitySchemes 와 라우트별 security / 401 / 403 응답을 만든다', () => {
+        const doc = buildOpenApiDocument({
+            routes: [
+                {
+                    method: 'GET',
+                    path: '/orders',
+                    auth: { optional: false, roles: [], scopes: ['orders:read'] },
+                },
+                {
+                    method: 'GET',
+                    path: '/feed',
+                    auth: { strategies: ['apiKey'], optional: true, roles: [], scopes: [] },
+                },
+                { method: 'GET', path: '/health' },
+            ],
+            schemas: {},
+            env: { NODE_ENV: 'development' } as NodeJS.ProcessEnv,
+            packageJson: { name: 'x', version: '1.0.0' },
+            securitySchemes: {
+                jwt: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+                apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+            },
+        });
+
+        expect(doc.components?.securitySchemes?.jwt).toEqual({
+            type: 'http',
+            scheme: 'bearer',
+            bearerFormat: 'JWT',
+        });
+
+        const orders = doc.paths['/orders'].get!;
+        expect(orders.security).toEqual([{ jwt: ['orders:read'] }, { apiKey: ['orders:read'] }]);
+        expect(Object.keys(orders.responses)).toEqual(expect.arrayContaining(['401', '403']));
+
+        const feed = doc.paths['/feed'].get!;
+        expect(feed.security).toEqual([{ apiKey: [] }, {}]);
+        expect(feed.responses['403']).toBeUndefined();
+
+        expect(doc.paths['/health'].get!.security).toBeUndefined();
+    });
+
+    it('router.AUTH 이후 등록된 라우트 문서에만 auth 를 싣는다', () => {
+        const {
+            DocumentationGenerator,
+        } = require('@lib/devtools/documentation/documentationGenerator');
+        const register = jest.spyOn(DocumentationGenerator, 'registerRoute').mockImplementation();
+        try {
+            const router = new ExpressRouter();
+            router.setBasePath('/api');
+            router.GET_SLUG(['open'], (_req, res) => res.json({}));
+            router.AUTH({ roles: ['admin'] });
+            router.GET_SLUG(['closed'], (_req, res) => res.json({}));
+
+            const docs = register.mock.calls.map(([doc]: any[]) => doc);
+            expect(docs.find((doc) => doc.path.endsWith('open')).auth).toBeUndefined();
+            expect(docs.find((doc) => doc.path.endsWith('closed')).auth).toEqual({
+                optional: false,
+                roles: ['admin'],
+                scopes: [],
+            });
+        } finally {
+            register.mockRestore();
+        }
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * Core 생명주기 훅 실행 시점 테스트.
+ * onModuleInit 은 라우트 로드 전, onApplicationReady 는 listen 이후,
+ * 종료 훅은 onBeforeShutdown → 서버 close → onShutdown → DB 연결 해제 순서로 실행되어야 한다.
+ */
+describe('Core 생명주기 훅', () => {
+    const OLD_ENV = process.env;
+
+    beforeEach(() => {
+        jest.resetModules();
+        process.env = {
+            ...OLD_ENV,
+            NODE_ENV: 'test',
+            AUTO_DOCS: 'false',
+            ENABLE_SCHEMA_API: 'false',
+        };
+    });
+
+    afterEach(() => {
+        process.env = OLD_ENV;
+        jest.resetModules();
+    });
+
+    function bootCore(order: string[]) {
+        jest.doMock('@lib/extensions/loadExtensions', () => ({
+            __esModule: true,
+            default: jest.fn(() => []),
+        }));
+        jest.doMock('@lib/http/routing/loadRoutes_V6_Clean', () => ({
+            __esModule: true,
+            default: jest.fn(async () => {
+                order.push('routes');
+            }),
+        }));
+        jest.doMock('@lib/data/database/prismaManager', () => ({
+            __esModule: true,
+            prismaManager: {
+                initialize: jest.fn(async () => {}),
+                getStatus: jest.fn(() => ({
+                    initialized: true,
+                    connectedDatabases: 0,
+                    totalDatabases: 0,
+                    databases: [],
+                })),
+                disconnectAll: jest.fn(async () => {
+                    order.push('prisma:disconnect');
+                }),
+            },
+        }));
+        jest.doMock('@lib/data/database/repositoryManager', () => ({
+            __esModule: true,
+            repositoryManager: {
+                initialize: jest.fn(async () => {}),
+                getStatus: jest.fn(() => ({
+                    initialized: true,
+                    repositoryCount: 0,
+                    repositories: [],
+                })),
+            },
+        }));
+        jest.doMock('@lib/data/di/dependencyInjector', () => ({
+            __esModule: true,
+            DependencyInjector: {
+                getInstance: () => ({ initialize: jest.fn(async () => {}) }),
+            },
+        }));
+
+        const { applicationLifecycle } = require('@lib/lifecycle/applicationLifecycle');
+        const { Core } = require('@core/bootstrap/Core');
+        return { applicationLifecycle, core: Core.getInstance() };
+    }
+
+    it('initialize / start / stop 에서 단계별 훅을 정해진 순서로 실행한다', async () => {
+        const order: string[] = [];
+        const { applicationLifecycle, core } = bootCore(order);
+        applicationLifecycle.register('module:queue', {
+            onModuleInit: () => {
+                order.push('init');
+            },
+            onApplicationReady: () => {
+                order.push(`ready:${core.isRunning}`);
+            },
+            onBeforeShutdown: (reason?: string) => {
+                order.push(`before:${reason}:${core.isRunning}`);
+            },
+            onShutdown: (reason?: string) => {
+                order.push(`shutdown:${reason}:${core.isRunning}`);
+            },
+        });
+
+        await core.initialize({ routesPath: './src/app/routes' });
+        await core.start(0, '127.0.0.1');
+        await core.stop('SIGTERM');
+
+        expect(order).toEqual([
+            'init',
+            'routes',
+            'ready:true',
+            'before:SIGTERM:true',
+            'shutdown:SIGTERM:false',
+            'prisma:disconnect',
+        ]);
+        applicationLifecycle.clear();
+    });
+
+    it('onModuleInit 실패는 라우트 로드 전에 부팅을 중단한다', async () => {
+        const order: string[] = [];
+        const { applicationLifecycle, core } = bootCore(order);
+        applicationLifecycle.register('module:cache', {
+            onModuleInit: async () => {
+                throw new Error('cache unreachable');
+            },
+        });
+
+        await expect(core.initialize({ routesPath: './src/app/routes' })).rejects.toThrow(
+            'cache unreachable',
+        );
+        expect(order).toEqual([]);
+        expect(core.isInitialized).toBe(false);
+        applicationLifecycle.clear();
+    });
+});
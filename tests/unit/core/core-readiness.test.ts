@@ -25,7 +25,7 @@ describe('Core readiness / fail-fast boot (P0-1)', () => {
         repoThrows?: boolean;
         diThrows?: boolean;
         prismaThrows?: boolean;
-        databases?: { name: string; connected: boolean; generated: boolean }[];
+        databases?: { name: string; connected: boolean; generated: boolean; pool?: object }[];
     }) {
         const databases = opts.databases ?? [{ name: 'default', connected: true, generated: true }];
         jest.doMock('@lib/http/routing/loadRoutes_V6_Clean', () => ({
@@ -67,6 +67,7 @@ describe('Core readiness / fail-fast boot (P0-1)', () => {
                     initialize: jest.fn(async () => {
                         if (opts.diThrows) throw new Error('di broken');
                     }),
+                    hasScopedModules: () => false,
                 }),
             },
         }));
@@ -140,6 +141,22 @@ describe('Core readiness / fail-fast boot (P0-1)', () => {
         expect(res.body.status).toBe('ok');
     });
 
+    it('/healthz 는 DB별 커넥션 풀 상태를 함께 보여준다', async () => {
+        const pool = { total: 10, idle: 0, waiting: 3, max: 10, timeouts: 2 };
+        const core = mockManagersAndGetCore({
+            databases: [
+                { name: 'default', connected: true, generated: true, pool },
+                { name: 'local', connected: true, generated: true }, // sqlite — 풀 없음
+            ],
+        });
+        await core.initialize({ routesPath: './src/app/routes' });
+
+        const request = require('supertest');
+        const res = await request(core.app).get('/healthz');
+        expect(res.status).toBe(200);
+        expect(res.body.prisma.pools).toEqual({ default: pool });
+    });
+
     it('정상 부팅 시 /healthz 200 (ok)', async () => {
         const core = mockManagersAndGetCore({
             databases: [{ name: 'default', connected: true, generated: true }],
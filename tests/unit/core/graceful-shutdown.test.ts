@@ -0,0 +1,195 @@
+import * as http from 'http';
+
+/**
+ * Core graceful shutdown 테스트.
+ * 종료 시 readiness 를 draining 으로 내리고, 처리 중 요청이 끝날 때까지(기한 내) 기다린 뒤에야
+ * onShutdown 훅과 Prisma 연결 해제를 실행해야 한다.
+ */
+describe('Core graceful shutdown', () => {
+    const OLD_ENV = process.env;
+
+    beforeEach(() => {
+        jest.resetModules();
+        process.env = {
+            ...OLD_ENV,
+            NODE_ENV: 'test',
+            AUTO_DOCS: 'false',
+            ENABLE_SCHEMA_API: 'false',
+        };
+    });
+
+    afterEach(() => {
+        process.env = OLD_ENV;
+        jest.resetModules();
+    });
+
+    function bootCore(order: string[], slowMs: number) {
+        jest.doMock('@lib/extensions/loadExtensions', () => ({
+            __esModule: true,
+            default: jest.fn(() => []),
+        }));
+        jest.doMock('@lib/http/routing/loadRoutes_V6_Clean', () => ({
+            __esModule: true,
+            default: jest.fn(async (app: any) => {
+                app.get('/slow', (_req: any, res: any) => {
+                    order.push('request:start');
+                    setTimeout(() => {
+                        order.push('request:end');
+                        res.json({ ok: true });
+                    }, slowMs).unref();
+                });
+            }),
+        }));
+        jest.doMock('@lib/data/database/prismaManager', () => ({
+            __esModule: true,
+            prismaManager: {
+                initialize: jest.fn(async () => {}),
+                getStatus: jest.fn(() => ({
+                    initialized: true,
+                    connectedDatabases: 0,
+                    totalDatabases: 0,
+                    databases: [],
+                })),
+                disconnectAll: jest.fn(async () => {
+                    order.push('prisma:disconnect');
+                }),
+            },
+        }));
+        jest.doMock('@lib/data/database/repositoryManager', () => ({
+            __esModule: true,
+            repositoryManager: {
+                initialize: jest.fn(async () => {}),
+                getStatus: jest.fn(() => ({
+                    initialized: true,
+                    repositoryCount: 0,
+                    repositories: [],
+                })),
+            },
+        }));
+        jest.doMock('@lib/data/di/dependencyInjector', () => ({
+            __esModule: true,
+            DependencyInjector: {
+                getInstance: () => ({
+                    initialize: jest.fn(async () => {}),
+                    hasScopedModules: () => false,
+                }),
+            },
+        }));
+
+        const { applicationLifecycle } = require('@lib/lifecycle/applicationLifecycle');
+        const { Core } = require('@core/bootstrap/Core');
+        return { applicationLifecycle, core: Core.getInstance() };
+    }
+
+    function get(port: number, path: string, agent?: http.Agent) {
+        return new Promise<{ status?: number; connection?: string }>((resolve, reject) => {
+            http.get({ host: '127.0.0.1', port, path, agent }, (res) => {
+                res.resume();
+                res.on('end', () =>
+                    resolve({ status: res.statusCode, connection: res.headers.connection }),
+                );
+            }).on('error', reject);
+        });
+    }
+
+    it('처리 중 요청을 끝까지 처리한 뒤 onShutdown 과 Prisma 연결 해제를 실행한다', async () => {
+        const order: string[] = [];
+        const { applicationLifecycle, core } = bootCore(order, 100);
+        applicationLifecycle.register('module:probe', {
+            onBeforeShutdown: () => {
+                const readiness = core.getReadiness();
+                order.push(`before:${readiness.status}:${readiness.ready}`);
+            },
+            onShutdown: () => {
+                order.push('shutdown');
+            },
+        });
+
+        await core.initialize({ routesPath: './src/app/routes', shutdownTimeoutMs: 2000 });
+        const server = await core.start(0, '127.0.0.1');
+        const { port } = server.address();
+
+        const inFlight = get(port, '/slow');
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        await core.stop('SIGTERM');
+
+        expect(await inFlight).toEqual({ status: 200, connection: 'close' });
+        expect(order).toEqual([
+            'request:start',
+            'before:draining:false',
+            'request:end',
+            'shutdown',
+            'prisma:disconnect',
+        ]);
+        expect(core.isRunning).toBe(false);
+        expect(core.getReadiness().status).toBe('healthy');
+        applicationLifecycle.clear();
+    });
+
+    it('유휴 keep-alive 연결은 바로 닫고, 기한을 넘긴 요청은 강제로 끊는다', async () => {
+        const order: string[] = [];
+        const { core } = bootCore(order, 5000);
+        await core.initialize({ routesPath: './src/app/routes', shutdownTimeoutMs: 100 });
+        const server = await core.start(0, '127.0.0.1');
+        const { port } = server.address();
+
+        const agent = new http.Agent({ keepAlive: true });
+        expect((await get(port, '/healthz', agent)).status).toBe(200);
+
+        const stuck = get(port, '/slow').catch((error) => error);
+        await new Promise((resolve) => setTimeout(resolve, 30));
+
+        const startedAt = Date.now();
+        await core.stop('SIGTERM');
+
+        expect(Date.now() - startedAt).toBeLessThan(2000);
+        expect(await stuck).toEqual(expect.objectContaining({ code: 'ECONNRESET' }));
+        expect(order).toEqual(['request:start', 'prisma:disconnect']);
+        agent.destroy();
+    });
+
+    it('SHUTDOWN_TIMEOUT_MS / SHUTDOWN_DELAY_MS 가 잘못되면 경고하고 기본값을 쓴다', () => {
+        process.env.SHUTDOWN_TIMEOUT_MS = '30s';
+        process.env.SHUTDOWN_DELAY_MS = '-5';
+        const warn = jest.spyOn(require('@ext/winston').log, 'Warn').mockImplementation();
+        const { resolveShutdownDefaults } = require('@core/bootstrap/Core');
+
+        expect(resolveShutdownDefaults()).toEqual({ shutdownTimeoutMs: 25000, shutdownDelayMs: 0 });
+        expect(warn).toHaveBeenCalledWith(
+            expect.stringMatching(/Invalid SHUTDOWN_TIMEOUT_MS '30s'/),
+        );
+
+        process.env.SHUTDOWN_TIMEOUT_MS = '5000';
+        process.env.SHUTDOWN_DELAY_MS = '';
+        expect(resolveShutdownDefaults()).toEqual({ shutdownTimeoutMs: 5000, shutdownDelayMs: 0 });
+        warn.mockRestore();
+    });
+
+    it('종료 중 stop() 을 다시 호출하면 진행 중인 종료를 공유한다', async () => {
+        const order: string[] = [];
+        const { core } = bootCore(order, 0);
+        await core.initialize({ routesPath: './src/app/routes' });
+        await core.start(0, '127.0.0.1');
+
+        await Promise.all([core.stop('SIGTERM'), core.stop('SIGINT')]);
+        expect(order).toEqual(['prisma:disconnect']);
+    });
+
+    it('Application.enableGracefulShutdown 은 신호를 받으면 종료 후 exit(0) 한다', async () => {
+        bootCore([], 0);
+        const { Application } = require('@core/bootstrap/Application');
+        const app = new Application();
+        const stop = jest.spyOn(app, 'stop').mockResolvedValue(undefined);
+        const exit = jest.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+        const before = process.listeners('SIGINT');
+
+        app.enableGracefulShutdown(['SIGINT']);
+        process.emit('SIGINT', 'SIGINT');
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(stop).toHaveBeenCalledWith('SIGINT');
+        expect(exit).toHaveBeenCalledWith(0);
+        expect(process.listeners('SIGINT')).toEqual(before);
+        exit.mockRestore();
+    });
+});
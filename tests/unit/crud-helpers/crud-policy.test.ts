@@ -0,0 +1,139 @@
+import {
+    evaluateCrudPolicy,
+    mergePolicyWhere,
+    applyWritePolicy,
+    applyReadPolicyToQuery,
+    assertPolicyFieldPermitted,
+    CrudPolicy,
+} from '@lib/crud/crudPolicy';
+import { CrudQueryParser, JsonApiTransformer } from '@lib/crud/crudHelpers';
+import { ERROR_CODES } from '@lib/http/errors/errorCodes';
+
+const forbidden = expect.objectContaining({ code: ERROR_CODES.FORBIDDEN, statusCode: 403 });
+
+describe('evaluateCrudPolicy', () => {
+    const adminReq: any = { headers: { 'x-role': 'admin' } };
+    const userReq: any = { headers: {} };
+    const isAdmin = (req: any) => req.headers['x-role'] === 'admin';
+
+    const policy: CrudPolicy = {
+        actions: { destroy: isAdmin },
+        fields: {
+            email: { read: isAdmin, write: false, create: true },
+            role: { write: isAdmin },
+        },
+        scope: (req, action) => (isAdmin(req) ? undefined : { ownerId: 'u1', action }),
+    };
+
+    it('정책이 없으면 모든 것을 허용하는 빈 결정을 반환한다', async () => {
+        const decision = await evaluateCrudPolicy(undefined, userReq, 'update');
+        expect(decision.hiddenFields.size).toBe(0);
+        expect(decision.readonlyFields.size).toBe(0);
+        expect(decision.where).toBeUndefined();
+    });
+
+    it('액션 규칙이 거부하면 403(FORBIDDEN) 을 던진다', async () => {
+        await expect(evaluateCrudPolicy(policy, userReq, 'destroy')).rejects.toEqual(forbidden);
+        await expect(evaluateCrudPolicy(policy, adminReq, 'destroy')).resolves.toBeDefined();
+    });
+
+    it('필드 읽기/쓰기 규칙을 요청별로 평가하고 액션 전용 규칙이 write 보다 우선한다', async () => {
+        const update = await evaluateCrudPolicy(policy, userReq, 'update');
+        expect(Array.from(update.hiddenFields)).toEqual(['email']);
+        expect(Array.from(update.readonlyFields).sort()).toEqual(['email', 'role']);
+
+        const create = await evaluateCrudPolicy(policy, adminReq, 'create');
+        expect(create.hiddenFields.size).toBe(0);
+        expect(create.readonlyFields.size).toBe(0);
+    });
+
+    it('행 스코프는 create 를 제외한 액션에 액션명과 함께 평가된다', async () => {
+        expect((await evaluateCrudPolicy(policy, userReq, 'show')).where).toEqual({
+            ownerId: 'u1',
+            action: 'show',
+        });
+        expect((await evaluateCrudPolicy(policy, userReq, 'create')).where).toBeUndefined();
+        expect((await evaluateCrudPolicy(policy, adminReq, 'index')).where).toBeUndefined();
+    });
+});
+
+describe('crudPolicy 적용 헬퍼', () => {
+    const decision = (overrides: any = {}) => ({
+        hiddenFields: new Set<string>(),
+        readonlyFields: new Set<string>(),
+        onForbiddenWrite: 'reject' as const,
+        ...overrides,
+    });
+
+    it('스코프를 기존 where 와 AND 로 병합한다', () => {
+        expect(mergePolicyWhere({ a: 1 }, { b: 2 })).toEqual({ AND: [{ a: 1 }, { b: 2 }] });
+        expect(mergePolicyWhere(undefined, { b: 2 })).toEqual({ b: 2 });
+        expect(mergePolicyWhere({ a: 1 }, undefined)).toEqual({ a: 1 });
+    });
+
+    it('쓰기 불가 필드는 reject 모드에서 403, strip 모드에서 제거된다', () => {
+        const resource = {
+            attributes: { name: 'A', role: 'admin' },
+            relationships: { author: { data: null } },
+        };
+        const readonlyFields = new Set(['role', 'author']);
+
+        expect(() => applyWritePolicy(resource, decision({ readonlyFields }))).toThrow(forbidden);
+        expect(
+            applyWritePolicy(resource, decision({ readonlyFields, onForbiddenWrite: 'strip' })),
+        ).toEqual({ attributes: { name: 'A' }, relationships: {} });
+    });
+
+    it('읽기 불가 필드의 filter/sort 는 거부하고 include 경로는 제외한다', () => {
+        const hidden = decision({ hiddenFields: new Set(['email', 'author']) });
+
+        expect(() =>
+            applyReadPolicyToQuery({ filter: { name: { eq: 'a' }, email: { eq: 'x' } } }, hidden),
+        ).toThrow(forbidden);
+        expect(() =>
+            applyReadPolicyToQuery({ sort: [{ field: 'author.name', direction: 'asc' }] }, hidden),
+        ).toThrow(forbidden);
+
+        const query = { include: ['author.profile', 'comments'], filter: { name: { eq: 'a' } } };
+        applyReadPolicyToQuery(query, hidden);
+        expect(query.include).toEqual(['comments']);
+    });
+
+    it('OR 그룹 안에서 읽기 불가 필드를 참조해도 403 으로 거부한다', () => {
+        const hidden = decision({ hiddenFields: new Set(['salary']) });
+        // filter[or][0][salary_gt]=100&filter[or][1][name_eq]=a
+        const query = CrudQueryParser.parseQuery({
+            query: { filter: { or: { '0': { salary_gt: '100' }, '1': { name_eq: 'a' } } } },
+        } as any);
+
+        expect(() => applyReadPolicyToQuery(query, hidden)).toThrow(forbidden);
+        expect(() =>
+            applyReadPolicyToQuery(
+                CrudQueryParser.parseQuery({
+                    query: { filter: { or: { '0': { name_eq: 'a' } } } },
+                } as any),
+                hidden,
+            ),
+        ).not.toThrow();
+    });
+
+    it('단일 필드 권한 확인은 읽기/쓰기 집합을 각각 사용한다', () => {
+        const d = decision({ hiddenFields: new Set(['tags']) });
+        expect(() => assertPolicyFieldPermitted(d, 'tags', 'read')).toThrow(forbidden);
+        expect(() => assertPolicyFieldPermitted(d, 'tags', 'write')).not.toThrow();
+    });
+
+    it('JsonApiTransformer 는 hiddenFields 를 attributes / relationships 에서 제외한다', () => {
+        const resource = JsonApiTransformer.transformToResource(
+            { id: 'u1', name: 'A', email: 'a@a.com' },
+            {
+                resourceType: 'user',
+                baseUrl: 'http://x/users',
+                relationshipNames: ['posts', 'secret'],
+                hiddenFields: new Set(['email', 'secret']),
+            },
+        );
+        expect(resource.attributes).toEqual({ name: 'A' });
+        expect(Object.keys(resource.relationships!)).toEqual(['posts']);
+    });
+});
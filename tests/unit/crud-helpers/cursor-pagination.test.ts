@@ -0,0 +1,143 @@
+import { CrudQueryParser, CrudResponseFormatter } from '@lib/crud/crudHelpers';
+import {
+    isCursorPage,
+    resolveCursorDirection,
+    resolveKeysetSort,
+    encodeCursor,
+    decodeCursor,
+    buildKeysetWhere,
+    buildKeysetOrderBy,
+    sliceKeysetPage,
+} from '@lib/crud/cursorPagination';
+import { ERROR_CODES } from '@lib/http/errors/errorCodes';
+
+describe('CrudQueryParser.parsePage - cursor 파라미터', () => {
+    const parsePage = (query: any) => (CrudQueryParser as any).parsePage(query);
+
+    it('page[after] 는 숫자처럼 보여도 문자열 그대로 보존한다', () => {
+        expect(parsePage({ 'page[after]': '123', 'page[size]': '5' })).toEqual({
+            after: '123',
+            size: 5,
+        });
+    });
+
+    it('page[cursor] 는 page[after] 의 별칭으로 정규화된다', () => {
+        expect(parsePage({ page: { cursor: 'abc', size: '5' } })).toEqual({
+            after: 'abc',
+            size: 5,
+        });
+    });
+
+    it('빈 page[before] 도 cursor 모드(마지막 페이지)로 인식된다', () => {
+        const page = parsePage({ 'page[before]': '', 'page[size]': '5' });
+        expect(isCursorPage(page)).toBe(true);
+        expect(resolveCursorDirection(page)).toEqual({ direction: 'before', cursor: undefined });
+    });
+});
+
+describe('cursorPagination keyset 헬퍼', () => {
+    it('sort 뒤에 기본키를 마지막 sort 방향으로 tiebreaker 로 덧붙인다', () => {
+        expect(resolveKeysetSort([{ field: 'createdAt', direction: 'desc' }], 'id')).toEqual([
+            { field: 'createdAt', direction: 'desc' },
+            { field: 'id', direction: 'desc' },
+        ]);
+        expect(resolveKeysetSort(undefined, 'uuid')).toEqual([{ field: 'uuid', direction: 'asc' }]);
+    });
+
+    it('관계 경로 sort 는 400(INVALID_SORT) 으로 거부한다', () => {
+        expect(() => resolveKeysetSort([{ field: 'author.name', direction: 'asc' }], 'id')).toThrow(
+            expect.objectContaining({ code: ERROR_CODES.INVALID_SORT, statusCode: 400 }),
+        );
+    });
+
+    it('null 을 허용하는 sort 필드와 null 이 든 커서 값은 400(INVALID_SORT) 으로 거부한다', () => {
+        const fieldTypeMap = new Map([
+            ['deletedAt', { isList: false, kind: 'scalar', type: 'DateTime', isOptional: true }],
+            ['name', { isList: false, kind: 'scalar', type: 'String' }],
+        ]);
+        expect(() =>
+            resolveKeysetSort([{ field: 'deletedAt', direction: 'asc' }], 'id', fieldTypeMap),
+        ).toThrow(expect.objectContaining({ code: ERROR_CODES.INVALID_SORT, statusCode: 400 }));
+        expect(
+            resolveKeysetSort([{ field: 'name', direction: 'asc' }], 'id', fieldTypeMap),
+        ).toHaveLength(2);
+
+        // fieldTypeMap 이 없을 때도 null 비교 조건을 조용히 빼지 않는다
+        const keyset = resolveKeysetSort([{ field: 'deletedAt', direction: 'asc' }], 'id');
+        expect(() => buildKeysetWhere(keyset, [null, 'u1'], 'after')).toThrow(
+            expect.objectContaining({ code: ERROR_CODES.INVALID_SORT, statusCode: 400 }),
+        );
+    });
+
+    it('Date/BigInt 값을 포함한 커서를 왕복(encode → decode) 한다', () => {
+        const keyset = resolveKeysetSort([{ field: 'createdAt', direction: 'asc' }], 'seq');
+        const createdAt = new Date('2024-01-02T03:04:05.000Z');
+        const cursor = encodeCursor({ createdAt, seq: BigInt(42) }, keyset);
+
+        expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(decodeCursor(cursor, keyset)).toEqual([createdAt, BigInt(42)]);
+    });
+
+    it('다른 sort 로 발급된 커서나 손상된 커서는 400(INVALID_CURSOR) 으로 거부한다', () => {
+        const cursor = encodeCursor({ name: 'a', id: '1' }, [
+            { field: 'name', direction: 'asc' },
+            { field: 'id', direction: 'asc' },
+        ]);
+        const otherSort = resolveKeysetSort([{ field: 'name', direction: 'desc' }], 'id');
+
+        for (const bad of [cursor, 'not-a-cursor']) {
+            expect(() => decodeCursor(bad, otherSort)).toThrow(
+                expect.objectContaining({ code: ERROR_CODES.INVALID_CURSOR, statusCode: 400 }),
+            );
+        }
+    });
+
+    it('after 방향은 정렬 방향에 맞춰 gt/lt OR 체인을 만든다', () => {
+        const keyset = resolveKeysetSort([{ field: 'createdAt', direction: 'desc' }], 'id');
+        expect(buildKeysetWhere(keyset, ['2024', 'u1'], 'after')).toEqual({
+            OR: [{ createdAt: { lt: '2024' } }, { createdAt: '2024', id: { lt: 'u1' } }],
+        });
+    });
+
+    it('before 방향은 비교 연산자와 orderBy 를 모두 뒤집는다', () => {
+        const keyset = resolveKeysetSort([{ field: 'name', direction: 'asc' }], 'id');
+        expect(buildKeysetWhere(keyset, ['m', 'u5'], 'before')).toEqual({
+            OR: [{ name: { lt: 'm' } }, { name: 'm', id: { lt: 'u5' } }],
+        });
+        expect(buildKeysetOrderBy(keyset, 'before')).toEqual([{ name: 'desc' }, { id: 'desc' }]);
+    });
+
+    it('size + 1 행 결과를 잘라 이웃 페이지 존재 여부를 계산하고 before 는 순서를 되돌린다', () => {
+        expect(sliceKeysetPage([1, 2, 3], 2, 'after', false)).toEqual({
+            items: [1, 2],
+            hasNext: true,
+            hasPrev: false,
+        });
+        expect(sliceKeysetPage([5, 4, 3], 2, 'before', true)).toEqual({
+            items: [4, 5],
+            hasNext: true,
+            hasPrev: true,
+        });
+    });
+});
+
+describe('CrudResponseFormatter.createPaginationMeta - page/offset 모드', () => {
+    const decode = (cursor: string) => JSON.parse(Buffer.from(cursor, 'base64').toString());
+
+    it('page[number] 모드는 이웃 페이지 번호를 nextCursor/prevCursor 로 유지한다', () => {
+        const meta = CrudResponseFormatter.createPaginationMeta([1, 2], 10, { number: 2, size: 2 });
+        expect(meta.pagination).toMatchObject({ type: 'page', hasNext: true, hasPrev: true });
+        expect(decode(meta.pagination.nextCursor)).toEqual({ page: 3 });
+        expect(decode(meta.pagination.prevCursor)).toEqual({ page: 1 });
+    });
+
+    it('offset 모드도 현재 페이지 기준 nextCursor/prevCursor 를 포함한다', () => {
+        const meta = CrudResponseFormatter.createPaginationMeta([1, 2], 10, {
+            offset: 8,
+            limit: 2,
+        });
+        expect(meta.pagination).toMatchObject({ type: 'offset', page: 5 });
+        expect(meta.pagination).not.toHaveProperty('nextCursor');
+        expect(decode(meta.pagination.prevCursor)).toEqual({ page: 4 });
+    });
+});
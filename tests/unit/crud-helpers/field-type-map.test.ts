@@ -42,7 +42,11 @@ describe('buildFieldTypeMapFromSchema', () => {
     it('일반 scalar 필드는 isList:false 로 파싱된다', () => {
         const map = buildFieldTypeMapFromSchema(SCHEMA, 'Post');
         expect(map!.get('title')).toEqual({ isList: false, kind: 'scalar', type: 'String' });
-        expect(map!.get('deletedAt')).toMatchObject({ isList: false, kind: 'scalar' });
+        expect(map!.get('deletedAt')).toMatchObject({
+            isList: false,
+            kind: 'scalar',
+            isOptional: true,
+        });
     });
 
     it('Json 필드는 type:Json 으로 파싱된다', () => {
@@ -58,6 +62,12 @@ describe('buildFieldTypeMapFromSchema', () => {
         expect(map!.get('author')).toMatchObject({ isList: false, kind: 'object', type: 'User' });
     });
 
+    it('FK 를 소유한 관계는 @relation(fields) 스칼라 필드를 relationFields 로 담는다', () => {
+        const map = buildFieldTypeMapFromSchema(SCHEMA, 'Post');
+        expect(map!.get('author')!.relationFields).toEqual(['authorId']);
+        expect(map!.get('comments')!.relationFields).toBeUndefined();
+    });
+
     it('존재하지 않는 모델은 null 을 반환한다', () => {
         expect(buildFieldTypeMapFromSchema(SCHEMA, 'Nope')).toBeNull();
     });
@@ -0,0 +1,136 @@
+import { CrudRouteBuilder } from '@lib/crud/crudRouteBuilder';
+
+/**
+ * 가짜 트랜잭션 클라이언트. 모든 호출을 events 에 기록하고, $transaction 콜백이 throw 하면 롤백으로 기록한다.
+ * 트랜잭션 안에서 일어난 호출은 `tx:` 접두어가 붙는다.
+ */
+function fakeClient(events: string[]) {
+    const delegate = (scope: string) => ({
+        create: jest.fn(async ({ data }: any) => {
+            events.push(`${scope}:create`);
+            return { id: 1, ...data };
+        }),
+        update: jest.fn(async ({ where, data }: any) => {
+            events.push(`${scope}:update`);
+            return { ...where, ...data };
+        }),
+        delete: jest.fn(async ({ where }: any) => {
+            events.push(`${scope}:delete`);
+            return where;
+        }),
+    });
+
+    return {
+        Post: delegate('client'),
+        $transaction: jest.fn(async (fn: (tx: any) => Promise<any>) => {
+            events.push('begin');
+            try {
+                const result = await fn({ Post: delegate('tx') });
+                events.push('commit');
+                return result;
+            } catch (error) {
+                events.push('rollback');
+                throw error;
+            }
+        }),
+    };
+}
+
+/** setupAtomicOperationsRoute 가 등록한 핸들러를 (req, res) 로 직접 호출할 수 있게 꺼낸다 */
+function atomicHandler(client: any, options: any) {
+    let handler: any;
+    const builder = new CrudRouteBuilder({
+        router: {
+            post: (_path: string, ...handlers: any[]) => {
+                handler = handlers[handlers.length - 1];
+            },
+        },
+        basePath: '/posts',
+        schemaRegistry: {},
+        schemaAnalyzer: null,
+        wrapHandler: (fn: any) => (req: any, res: any) => fn(req, res, {}, {}, {}),
+        wrapMiddleware: (fn: any) => fn,
+        registerDocumentation: () => undefined,
+    } as any);
+    (builder as any).databaseName = 'default';
+    (builder as any).setupAtomicOperationsRoute(client, 'Post', options);
+
+    return async (operations: any[]) => {
+        const res: any = {
+            setHeader: jest.fn(),
+            status: jest.fn(() => res),
+            json: jest.fn((body: any) => {
+                res.body = body;
+                return res;
+            }),
+        };
+        await handler({ body: { 'atomic:operations': operations }, headers: {} }, res);
+        return res;
+    };
+}
+
+describe('CRUD atomic operations 훅 실행 순서', () => {
+    const operations = [
+        { op: 'add', data: { type: 'Post', attributes: { title: 'a' } } },
+        { op: 'update', ref: { type: 'Post', id: 1 }, data: { attributes: { title: 'b' } } },
+        { op: 'remove', ref: { type: 'Post', id: 2 } },
+    ];
+
+    function recordingHooks(events: string[], overrides: Record<string, any> = {}) {
+        return {
+            beforeCreate: (data: any) => (events.push('beforeCreate'), data),
+            beforeUpdate: (data: any) => (events.push('beforeUpdate'), data),
+            beforeDestroy: () => void events.push('beforeDestroy'),
+            afterCreate: () => void events.push('afterCreate'),
+            afterUpdate: () => void events.push('afterUpdate'),
+            afterDestroy: () => void events.push('afterDestroy'),
+            ...overrides,
+        };
+    }
+
+    it('before 훅은 트랜잭션 안에서 쓰기 전에, after 훅은 커밋 이후 작업 순서대로 실행한다', async () => {
+        const events: string[] = [];
+        const run = atomicHandler(fakeClient(events), { hooks: recordingHooks(events) });
+
+        const res = await run(operations);
+
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(events).toEqual([
+            'begin',
+            'beforeCreate',
+            'tx:create',
+            'beforeUpdate',
+            'tx:update',
+            'beforeDestroy',
+            'tx:delete',
+            'commit',
+            'afterCreate',
+            'afterUpdate',
+            'afterDestroy',
+        ]);
+    });
+
+    it('before 훅이 실패하면 롤백되고 앞선 작업의 after 훅도 실행하지 않는다', async () => {
+        const events: string[] = [];
+        const hooks = recordingHooks(events, {
+            beforeDestroy: () => {
+                events.push('beforeDestroy');
+                throw new Error('blocked');
+            },
+        });
+        const run = atomicHandler(fakeClient(events), { hooks });
+
+        const res = await run(operations);
+
+        expect(res.status).not.toHaveBeenCalledWith(200);
+        expect(events).toEqual([
+            'begin',
+            'beforeCreate',
+            'tx:create',
+            'beforeUpdate',
+            'tx:update',
+            'beforeDestroy',
+            'rollback',
+        ]);
+    });
+});
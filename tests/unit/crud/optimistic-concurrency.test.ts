@@ -0,0 +1,108 @@
+import {
+    parseIfMatch,
+    resolveConcurrencyControl,
+    assertIfMatch,
+    concurrencyToken,
+    tokenWhereValue,
+    nextTokenData,
+} from '@lib/crud/optimisticConcurrency';
+import { ERROR_CODES, getHttpStatusForErrorCode } from '@lib/http/errors/errorCodes';
+import type { FieldTypeInfo } from '@lib/data/database/fieldTypeMap';
+
+function fieldTypes(entries: Record<string, string>): Map<string, FieldTypeInfo> {
+    return new Map(
+        Object.entries(entries).map(([name, type]) => [
+            name,
+            { type, kind: 'scalar', isList: false } as FieldTypeInfo,
+        ]),
+    );
+}
+
+describe('parseIfMatch', () => {
+    it('헤더가 없거나 비어 있으면 undefined', () => {
+        expect(parseIfMatch(undefined)).toBeUndefined();
+        expect(parseIfMatch('  ')).toBeUndefined();
+    });
+
+    it('* 는 any, 강한 태그만 토큰으로 모은다', () => {
+        expect(parseIfMatch('*')).toEqual({ any: true, tokens: [] });
+        expect(parseIfMatch('"3", W/"4" , "5"')).toEqual({ any: false, tokens: ['3', '5'] });
+    });
+});
+
+describe('resolveConcurrencyControl', () => {
+    const types = fieldTypes({
+        version: 'Int',
+        seq: 'BigInt',
+        updatedAt: 'DateTime',
+        title: 'String',
+    });
+
+    it('필드 타입으로 counter / timestamp 를 고른다', () => {
+        expect(resolveConcurrencyControl({ field: 'version' }, 'Document', types)).toEqual({
+            field: 'version',
+            kind: 'counter',
+            bigint: false,
+        });
+        expect(resolveConcurrencyControl({ field: 'seq' }, 'Document', types)?.bigint).toBe(true);
+        expect(resolveConcurrencyControl({ field: 'updatedAt' }, 'Document', types)?.kind).toBe(
+            'timestamp',
+        );
+        expect(resolveConcurrencyControl(undefined, 'Document', types)).toBeUndefined();
+    });
+
+    it('없는 필드나 지원하지 않는 타입이면 부팅 시 에러', () => {
+        expect(() => resolveConcurrencyControl({ field: 'nope' }, 'Document', types)).toThrow(
+            /not a scalar field/,
+        );
+        expect(() => resolveConcurrencyControl({ field: 'title' }, 'Document', types)).toThrow(
+            /must be Int, BigInt or DateTime/,
+        );
+    });
+});
+
+describe('토큰 변환', () => {
+    it('timestamp 토큰은 ISO 문자열로 노출하고 where 에서는 Date 로 되돌린다', () => {
+        const control = { field: 'updatedAt', kind: 'timestamp' as const, bigint: false };
+        const updatedAt = new Date('2026-01-01T00:00:00.123Z');
+        const token = concurrencyToken({ updatedAt }, control)!;
+        expect(token).toBe('2026-01-01T00:00:00.123Z');
+        expect(tokenWhereValue(token, control)).toEqual(updatedAt);
+    });
+
+    it('counter 는 숫자(BigInt)로 비교하고 increment 로 갱신한다', () => {
+        const control = { field: 'version', kind: 'counter' as const, bigint: true };
+        expect(tokenWhereValue('7', control)).toBe(BigInt(7));
+        expect(nextTokenData(control)).toEqual({ version: { increment: 1 } });
+    });
+});
+
+describe('assertIfMatch', () => {
+    const req = (ifMatch?: string) => ({ headers: ifMatch ? { 'if-match': ifMatch } : {} });
+
+    it('If-Match 가 없으면 428 PRECONDITION_REQUIRED', () => {
+        expect(() => assertIfMatch(req(), 'Document', '1')).toThrow(
+            expect.objectContaining({
+                statusCode: 428,
+                code: ERROR_CODES.PRECONDITION_REQUIRED,
+            }),
+        );
+    });
+
+    it('토큰이 다르면 412 PRECONDITION_FAILED, 같거나 * 면 통과', () => {
+        expect(() => assertIfMatch(req('"0"'), 'Document', '1')).toThrow(
+            expect.objectContaining({ statusCode: 412, code: ERROR_CODES.PRECONDITION_FAILED }),
+        );
+        // 약한 태그는 강한 비교에서 불일치
+        expect(() => assertIfMatch(req('W/"1"'), 'Document', '1')).toThrow(
+            expect.objectContaining({ statusCode: 412 }),
+        );
+        expect(() => assertIfMatch(req('"0", "1"'), 'Document', '1')).not.toThrow();
+        expect(() => assertIfMatch(req('*'), 'Document', '1')).not.toThrow();
+    });
+
+    it('에러 코드는 412 / 428 로 매핑된다', () => {
+        expect(getHttpStatusForErrorCode(ERROR_CODES.PRECONDITION_FAILED)).toBe(412);
+        expect(getHttpStatusForErrorCode(ERROR_CODES.PRECONDITION_REQUIRED)).toBe(428);
+    });
+});
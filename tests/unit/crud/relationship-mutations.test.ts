@@ -0,0 +1,48 @@
+import { parseLinkageId, parseRelationshipLinkage } from '@lib/crud/relationshipMutations';
+import type { RelationshipDescriptor } from '@lib/crud/relationshipMutations';
+import { ERROR_CODES } from '@lib/http/errors/errorCodes';
+
+const tags: RelationshipDescriptor = {
+    name: 'tags',
+    isToMany: true,
+    targetModel: 'Tag',
+    targetIdType: 'Int',
+};
+
+describe('parseLinkageId', () => {
+    it('기본키 타입에 맞춰 변환한다', () => {
+        expect(parseLinkageId('42', 'Int')).toBe(42);
+        expect(parseLinkageId('9007199254740993', 'BigInt')).toBe(9007199254740993n);
+        expect(parseLinkageId('abc', 'String')).toBe('abc');
+        expect(parseLinkageId('7')).toBe(7);
+    });
+
+    it('정수 기본키에 정수가 아닌 id 는 400 이다', () => {
+        for (const [id, type] of [
+            ['abc', 'Int'],
+            ['1.5', 'Int'],
+            ['3000000000', 'Int'],
+            ['abc', 'BigInt'],
+            ['', 'BigInt'],
+        ]) {
+            expect(() => parseLinkageId(id, type)).toThrow(
+                expect.objectContaining({ code: ERROR_CODES.INVALID_REQUEST, statusCode: 400 }),
+            );
+        }
+    });
+});
+
+describe('parseRelationshipLinkage', () => {
+    it('type 은 대상 모델과 대소문자 구분 없이 비교하고, 다르면 409 이다', () => {
+        expect(
+            parseRelationshipLinkage(tags, 'add', [
+                { type: 'tag', id: '1' },
+                { type: 'Tag', id: '2' },
+            ]),
+        ).toEqual([1, 2]);
+
+        expect(() => parseRelationshipLinkage(tags, 'add', [{ type: 'user', id: '1' }])).toThrow(
+            expect.objectContaining({ code: ERROR_CODES.CONFLICT, statusCode: 409 }),
+        );
+    });
+});
@@ -0,0 +1,50 @@
+export {};
+
+const {
+    extractModuleDependencies,
+    findDependencyCycle,
+    validateModuleDependencies,
+} = require('@/src/core/scripts/generate-injectable-types');
+
+describe('generate-injectable-types — 모듈 의존성 분석', () => {
+    it('static scope / static inject 선언을 정적으로 추출한다', () => {
+        const source = `
+            export default class OrderService {
+                // static inject = ['commented'];
+                static scope: InjectableScope = 'request';
+                static inject = ['userService', "config"] as const;
+                constructor(users: UserService, config: Config) {}
+            }
+        `;
+        expect(extractModuleDependencies(source)).toEqual({
+            inject: ['userService', 'config'],
+            scope: 'request',
+        });
+        expect(extractModuleDependencies('export default class A {}')).toEqual({
+            inject: [],
+            scope: 'singleton',
+        });
+    });
+
+    it('순환 경로를 찾는다 (없으면 null)', () => {
+        expect(findDependencyCycle({ a: ['b'], b: ['c'], c: [] })).toBeNull();
+        expect(findDependencyCycle({ a: ['b'], b: ['c'], c: ['b'] })).toEqual(['b', 'c', 'b']);
+    });
+
+    it('순환 / 미등록 의존성은 파일 경로와 함께 생성을 실패시킨다', () => {
+        const entry = (propertyName: string, inject: string[]) => ({
+            propertyName,
+            modulePath: `shop/${propertyName}.module`,
+            inject,
+        });
+
+        expect(() =>
+            validateModuleDependencies([entry('order', ['cart']), entry('cart', ['order'])]),
+        ).toThrow(
+            /Circular injectable dependency: order → cart → order\n.*shop\/order\.module\.ts/,
+        );
+        expect(() => validateModuleDependencies([entry('order', ['missing'])])).toThrow(
+            "Unknown injectable dependency 'missing' declared by 'order'",
+        );
+    });
+});
@@ -0,0 +1,145 @@
+export {};
+
+/**
+ * 레지스트리(generated-injectable-types)를 가짜 모듈 로더로 대체하고 DependencyInjector 를 새로 로드한다.
+ */
+function loadInjector(modules: Record<string, unknown>) {
+    jest.resetModules();
+    const registry = Object.fromEntries(
+        Object.entries(modules).map(([name, target]) => [
+            name,
+            () => Promise.resolve({ default: target }),
+        ]),
+    );
+    jest.doMock('@lib/types/generated-injectable-types', () => ({
+        MODULE_REGISTRY: registry,
+        MIDDLEWARE_REGISTRY: {},
+    }));
+    const { DependencyInjector } = require('@lib/data/di/dependencyInjector');
+    return DependencyInjector.getInstance();
+}
+
+class Config {
+    readonly dsn = 'memory://';
+}
+
+class UserService {
+    static inject = ['config'];
+    constructor(readonly config: Config) {}
+}
+
+class RequestContext {
+    static scope = 'request';
+    static inject = ['userService'];
+    constructor(readonly users: UserService) {}
+}
+
+class Token {
+    static scope = 'transient';
+}
+
+describe('DependencyInjector — 스코프와 생성자 주입', () => {
+    afterEach(() => {
+        jest.dontMock('@lib/types/generated-injectable-types');
+    });
+
+    it('레지스트리 순서와 무관하게 의존성을 생성자 인자로 주입한다', async () => {
+        const injector = loadInjector({ userService: UserService, config: Config });
+        await injector.initialize();
+
+        const { userService, config } = injector.getInjectedModules();
+        expect(userService.config).toBe(config);
+        expect(config.dsn).toBe('memory://');
+    });
+
+    it('request 스코프는 요청마다 한 번 생성되고 transient 는 조회마다 새로 만든다', async () => {
+        const injector = loadInjector({
+            config: Config,
+            userService: UserService,
+            requestContext: RequestContext,
+            token: Token,
+        });
+        await injector.initialize();
+        const reqA: any = {};
+        const reqB: any = {};
+
+        const a = injector.getInjectedModules(reqA);
+        expect(injector.getInjectedModules(reqA)).toBe(a);
+        expect(a.requestContext).toBe(a.requestContext);
+        expect(a.requestContext).not.toBe(injector.getInjectedModules(reqB).requestContext);
+        expect(a.requestContext.users).toBe(a.userService);
+        expect(a.token).not.toBe(a.token);
+
+        expect(() => injector.getInjectedModules().requestContext).toThrow(
+            "Injectable 'requestContext' is request-scoped and cannot be resolved outside a request",
+        );
+    });
+
+    it('req.kusto.injectable 로도 요청 스코프 인스턴스에 접근한다', async () => {
+        const injector = loadInjector({
+            config: Config,
+            userService: UserService,
+            requestContext: RequestContext,
+        });
+        await injector.initialize();
+        const { kustoManager } = require('@lib/data/di/kustoManager');
+        const req: any = {};
+
+        const kusto = kustoManager.forRequest(req);
+        expect(kustoManager.forRequest(req)).toBe(kusto);
+        expect(kusto.injectable.requestContext).toBe(
+            injector.getInjectedModules(req).requestContext,
+        );
+    });
+
+    it('순환 의존성은 경로와 함께 초기화 단계에서 실패한다', async () => {
+        class A {
+            static inject = ['b'];
+        }
+        class B {
+            static inject = ['c'];
+        }
+        class C {
+            static inject = ['a'];
+        }
+        const injector = loadInjector({ a: A, b: B, c: C });
+
+        await expect(injector.initialize()).rejects.toThrow(
+            'Circular injectable dependency: a → b → c → a',
+        );
+    });
+
+    it('싱글턴이 request 스코프 모듈에 의존하면 부팅 시 실패한다', async () => {
+        class Audit {
+            static inject = ['requestContext'];
+        }
+        const injector = loadInjector({
+            config: Config,
+            userService: UserService,
+            requestContext: RequestContext,
+            audit: Audit,
+        });
+
+        await expect(injector.initialize()).rejects.toThrow('(audit → requestContext)');
+    });
+
+    it('싱글턴 생성자가 던져도 에러를 기록하고 나머지 모듈로 부팅을 계속한다', async () => {
+        class Mailer {
+            constructor() {
+                throw new Error('SMTP_URL is not set');
+            }
+        }
+        const injector = loadInjector({ config: Config, mailer: Mailer, userService: UserService });
+        const error = jest.spyOn(require('@ext/winston').log, 'Error').mockImplementation();
+
+        await injector.initialize();
+
+        expect(error).toHaveBeenCalledWith(
+            'Failed to instantiate injectable module mailer:',
+            expect.objectContaining({ message: 'SMTP_URL is not set' }),
+        );
+        expect(injector.getInjectedModules().userService.config).toBeInstanceOf(Config);
+        expect(() => injector.getInjectedModules().mailer).toThrow('SMTP_URL is not set');
+        error.mockRestore();
+    });
+});
@@ -316,3 +316,66 @@ describe('openApiBuilder', () => {
         });
     });
 });
+
+describe('openApiBuilder — Standard Schema 요청 스키마', () => {
+    const standard = (json?: Record<string, unknown>): any => ({
+        '~standard': {
+            version: 1,
+            vendor: 'zod',
+            validate: (value: unknown) => ({ value }),
+            ...(json ? { jsonSchema: { input: () => json, output: () => json } } : {}),
+        },
+    });
+
+    const build = (parameters: any) =>
+        buildOpenApiDocument({
+            routes: [{ method: 'POST', path: '/users', operationId: 'createUser', parameters }],
+            schemas: { Existing: { type: 'object' } },
+            env: process.env,
+            packageJson: { name: 'test-api', version: '1.0.0' },
+        });
+
+    it('body 는 components.schemas 로 변환하고 $ref 로 참조하며 $defs 를 끌어올린다', () => {
+        const doc = build({
+            body: standard({
+                $schema: 'https://json-schema.org/draft/2020-12/schema',
+                type: 'object',
+                properties: { address: { $ref: '#/$defs/Address' } },
+                required: ['address'],
+                $defs: { Address: { type: 'object', properties: { city: { type: 'string' } } } },
+            }),
+        });
+
+        const media = (doc.paths['/users'].post?.requestBody as any).content['application/json'];
+        expect(media.schema).toEqual({ $ref: '#/components/schemas/CreateUserBody' });
+        expect(doc.components?.schemas).toEqual({
+            Existing: { type: 'object' },
+            Address: { type: 'object', properties: { city: { type: 'string' } } },
+            CreateUserBody: {
+                type: 'object',
+                properties: { address: { $ref: '#/components/schemas/Address' } },
+                required: ['address'],
+            },
+        });
+    });
+
+    it('query 는 JSON Schema properties 로 파라미터를 만들고, 변환기가 없으면 빈 스키마로 둔다', () => {
+        const doc = build({
+            query: standard({
+                type: 'object',
+                properties: { q: { type: 'string' }, page: { type: 'integer' } },
+                required: ['q'],
+            }),
+            body: standard(),
+        });
+
+        const op = doc.paths['/users'].post!;
+        expect(op.parameters).toEqual([
+            { name: 'q', in: 'query', required: true, schema: { type: 'string' } },
+            { name: 'page', in: 'query', required: false, schema: { type: 'integer' } },
+        ]);
+        expect((op.requestBody as any).content['application/json'].schema).toEqual({
+            description: 'Validated by zod',
+        });
+    });
+});
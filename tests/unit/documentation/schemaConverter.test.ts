@@ -57,6 +57,46 @@ describe('schemaConverter', () => {
             const field = { type: 'unknown' as any };
             expect(() => fieldToOpenApi(field)).toThrow(/Unknown FieldSchema type/);
         });
+
+        it('배열 items / uniqueItems 와 중첩 객체 properties 를 재귀적으로 변환한다', () => {
+            const result = fieldToOpenApi({
+                type: 'array',
+                uniqueItems: true,
+                items: {
+                    type: 'object',
+                    properties: {
+                        sku: { type: 'string', required: true },
+                        qty: { type: 'number', min: 1 },
+                    },
+                },
+            });
+            expect(result).toEqual({
+                type: 'array',
+                uniqueItems: true,
+                items: {
+                    type: 'object',
+                    properties: { sku: { type: 'string' }, qty: { type: 'number', minimum: 1 } },
+                    required: ['sku'],
+                },
+            });
+        });
+
+        it('oneOf + discriminator 를 OpenAPI oneOf / discriminator 로 변환한다', () => {
+            const result = fieldToOpenApi({
+                type: 'object',
+                discriminator: 'kind',
+                oneOf: [
+                    { type: 'object', properties: { kind: { type: 'string', enum: ['a'] } } },
+                    { type: 'object', properties: { kind: { type: 'string', enum: ['b'] } } },
+                ],
+            });
+            expect(result.discriminator).toEqual({ propertyName: 'kind' });
+            expect(result.oneOf).toHaveLength(2);
+            expect((result.oneOf![1] as any).properties.kind).toEqual({
+                type: 'string',
+                enum: ['b'],
+            });
+        });
     });
 
     describe('schemaToOpenApi', () => {
@@ -15,6 +15,8 @@ describe('extensionTypes', () => {
                 routerMethods: { A: () => {} },
                 onInit: () => {},
                 onBuild: async () => {},
+                onModuleInit: async () => {},
+                onShutdown: () => {},
             }),
         ).toBe(true);
     });
@@ -32,5 +34,6 @@ describe('extensionTypes', () => {
         expect(isKustoExtension({ name: 'x', routerMethods: { A: () => {}, B: 5 } })).toBe(false);
         expect(isKustoExtension({ name: 'x', onInit: 'no' })).toBe(false);
         expect(isKustoExtension({ name: 'x', onBuild: 1 })).toBe(false);
+        expect(isKustoExtension({ name: 'x', onShutdown: 'no' })).toBe(false);
     });
 });
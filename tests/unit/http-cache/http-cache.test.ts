@@ -0,0 +1,142 @@
+import express from 'express';
+import request from 'supertest';
+import {
+    formatCacheControl,
+    documentETag,
+    resolveLastModified,
+    sendConditionalJson,
+} from '@lib/http/caching/httpCache';
+import { ExpressRouter } from '@lib/http/routing/expressRouter';
+
+jest.mock('@lib/data/di/dependencyInjector', () => ({
+    DependencyInjector: { getInstance: () => ({ getInjectedModules: () => ({}) }) },
+}));
+
+describe('formatCacheControl', () => {
+    it('지시자 객체를 헤더 값으로 변환한다', () => {
+        expect(formatCacheControl({ private: true, maxAge: 5 })).toBe('private, max-age=5');
+        expect(
+            formatCacheControl({
+                public: true,
+                maxAge: 60,
+                sMaxAge: 300.7,
+                staleWhileRevalidate: 30,
+            }),
+        ).toBe('public, max-age=60, s-maxage=300, stale-while-revalidate=30');
+        expect(formatCacheControl({ noCache: true })).toBe('no-cache');
+    });
+
+    it('문자열은 그대로 사용한다', () => {
+        expect(formatCacheControl('no-store')).toBe('no-store');
+    });
+});
+
+describe('documentETag', () => {
+    it('meta/metadata 의 timestamp 만 다르면 같은 ETag', () => {
+        const a = documentETag({
+            data: [{ id: '1' }],
+            meta: { timestamp: '2026-01-01T00:00:00.000Z', total: 1 },
+            metadata: { timestamp: '2026-01-01T00:00:00.000Z' },
+        });
+        const b = documentETag({
+            data: [{ id: '1' }],
+            meta: { timestamp: '2026-01-01T00:00:05.000Z', total: 1 },
+            metadata: { timestamp: '2026-01-01T00:00:05.000Z' },
+        });
+        expect(a).toBe(b);
+        expect(a).toMatch(/^W\/"[0-9a-f]+-[A-Za-z0-9+/]{27}"$/);
+    });
+
+    it('데이터가 바뀌면 ETag 도 바뀐다', () => {
+        expect(documentETag({ data: [{ id: '1' }] })).not.toBe(
+            documentETag({ data: [{ id: '2' }] }),
+        );
+    });
+});
+
+describe('resolveLastModified', () => {
+    it('가장 최근 updatedAt 을 반환하고 해석할 수 없는 값은 건너뛴다', () => {
+        const latest = resolveLastModified([
+            { updatedAt: new Date('2026-01-01T00:00:00Z') },
+            { updatedAt: '2026-03-01T00:00:00Z' },
+            { updatedAt: 'not-a-date' },
+            {},
+            null,
+        ]);
+        expect(latest?.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+        expect(resolveLastModified([{ name: 'x' }])).toBeUndefined();
+    });
+});
+
+describe('sendConditionalJson', () => {
+    const updatedAt = new Date('2026-01-01T00:00:00Z');
+    const app = express();
+    app.get('/doc', (_req, res) => {
+        sendConditionalJson(
+            res,
+            { data: { id: '1' }, meta: { timestamp: new Date().toISOString() } },
+            { lastModified: updatedAt },
+        );
+    });
+
+    it('ETag / Last-Modified 를 붙이고 If-None-Match 가 일치하면 304', async () => {
+        const first = await request(app).get('/doc');
+        expect(first.status).toBe(200);
+        expect(first.headers.etag).toMatch(/^W\//);
+        expect(first.headers['last-modified']).toBe(updatedAt.toUTCString());
+
+        const second = await request(app).get('/doc').set('If-None-Match', first.headers.etag);
+        expect(second.status).toBe(304);
+        expect(second.text).toBe('');
+    });
+
+    it('If-Modified-Since 가 Last-Modified 이후면 304, 이전이면 200', async () => {
+        const fresh = await request(app)
+            .get('/doc')
+            .set('If-Modified-Since', new Date('2026-02-01T00:00:00Z').toUTCString());
+        expect(fresh.status).toBe(304);
+
+        const stale = await request(app)
+            .get('/doc')
+            .set('If-Modified-Since', new Date('2025-12-01T00:00:00Z').toUTCString());
+        expect(stale.status).toBe(200);
+    });
+});
+
+describe('RouteDocOptions.cache (ExpressRouter GET 계열)', () => {
+    function buildApp() {
+        const router = new ExpressRouter();
+        router.GET((_req, res) => res.json({ ok: true }), { cache: { private: true, maxAge: 5 } });
+        router.GET_SLUG(
+            ['id'],
+            (req, res) => {
+                if (req.params.id === 'missing') {
+                    res.status(404).json({ error: 'not found' });
+                    return;
+                }
+                res.setHeader('Cache-Control', 'no-store');
+                res.json({ id: req.params.id });
+            },
+            { cache: 'public, max-age=60' },
+        );
+        const app = express();
+        app.use(router.build());
+        return app;
+    }
+
+    it('성공 응답에 Cache-Control 을 붙인다', async () => {
+        const res = await request(buildApp()).get('/');
+        expect(res.status).toBe(200);
+        expect(res.headers['cache-control']).toBe('private, max-age=5');
+    });
+
+    it('에러 응답과 핸들러가 직접 지정한 값은 건드리지 않는다', async () => {
+        const app = buildApp();
+        const missing = await request(app).get('/missing');
+        expect(missing.status).toBe(404);
+        expect(missing.headers['cache-control']).toBeUndefined();
+
+        const own = await request(app).get('/abc');
+        expect(own.headers['cache-control']).toBe('no-store');
+    });
+});
@@ -0,0 +1,249 @@
+import express from 'express';
+import request from 'supertest';
+import { idempotency, describeIdempotency } from '@lib/http/idempotency/idempotency';
+import type { IdempotencyOptions } from '@lib/http/idempotency/idempotency';
+import { MemoryIdempotencyStore } from '@lib/http/idempotency/idempotencyStore';
+import type { IdempotencyStore } from '@lib/http/idempotency/idempotencyStore';
+import { ExpressRouter } from '@lib/http/routing/expressRouter';
+import { buildOpenApiDocument } from '@lib/devtools/documentation';
+
+jest.mock('@lib/data/di/dependencyInjector', () => ({
+    DependencyInjector: { getInstance: () => ({ getInjectedModules: () => ({}) }) },
+}));
+
+describe('MemoryIdempotencyStore', () => {
+    it('키를 한 번만 선점하고, 완료 후에는 저장된 응답을 돌려준다', async () => {
+        let now = 0;
+        const store = new MemoryIdempotencyStore(() => now);
+
+        expect(await store.acquire('k', 'f1', 1_000)).toBeNull();
+        expect(await store.acquire('k', 'f1', 1_000)).toMatchObject({ status: 'pending' });
+
+        const response = { statusCode: 201, headers: {}, body: '{"ok":true}' };
+        await store.complete('k', response, 5_000);
+        expect(await store.acquire('k', 'f1', 1_000)).toMatchObject({
+            status: 'completed',
+            fingerprint: 'f1',
+            response,
+        });
+
+        now = 5_000;
+        expect(await store.acquire('k', 'f2', 1_000)).toBeNull();
+    });
+
+    it('release 는 처리 중인 키만 지운다', async () => {
+        const store = new MemoryIdempotencyStore();
+        await store.acquire('a', 'f', 1_000);
+        await store.release('a');
+        expect(await store.acquire('a', 'f', 1_000)).toBeNull();
+
+        await store.complete('a', { statusCode: 200, headers: {}, body: '' }, 1_000);
+        await store.release('a');
+        expect(await store.acquire('a', 'f', 1_000)).toMatchObject({ status: 'completed' });
+    });
+});
+
+describe('idempotency 미들웨어', () => {
+    function buildApp(options: IdempotencyOptions, handler?: express.RequestHandler) {
+        let calls = 0;
+        const app = express();
+        app.use(express.json());
+        app.post(
+            '/orders',
+            idempotency(options),
+            handler ??
+                ((req, res) => {
+                    calls += 1;
+                    res.status(201).setHeader('Location', `/orders/${calls}`);
+                    res.json({ id: calls, item: req.body.item });
+                }),
+        );
+        return { app, calls: () => calls };
+    }
+
+    it('같은 키의 재요청은 핸들러를 다시 실행하지 않고 저장된 응답을 재생한다', async () => {
+        const { app, calls } = buildApp({ store: new MemoryIdempotencyStore() });
+
+        const first = await request(app)
+            .post('/orders')
+            .set('Idempotency-Key', 'abc')
+            .send({ item: 'book' });
+        expect(first.status).toBe(201);
+        expect(first.headers['idempotent-replayed']).toBeUndefined();
+
+        const replayed = await request(app)
+            .post('/orders')
+            .set('Idempotency-Key', 'abc')
+            .send({ item: 'book' });
+        expect(replayed.status).toBe(201);
+        expect(replayed.body).toEqual({ id: 1, item: 'book' });
+        expect(replayed.headers['location']).toBe('/orders/1');
+        expect(replayed.headers['content-type']).toMatch(/application\/json/);
+        expect(replayed.headers['idempotent-replayed']).toBe('true');
+        expect(calls()).toBe(1);
+
+        // 키가 없거나 다르면 새로 처리
+        expect((await request(app).post('/orders').send({ item: 'book' })).body.id).toBe(2);
+        expect(
+            (
+                await request(app)
+                    .post('/orders')
+                    .set('Idempotency-Key', 'xyz')
+                    .send({ item: 'book' })
+            ).body.id,
+        ).toBe(3);
+    });
+
+    it('같은 키에 다른 본문이면 422 IDEMPOTENCY_KEY_MISMATCH', async () => {
+        const { app } = buildApp({ store: new MemoryIdempotencyStore() });
+        await request(app).post('/orders').set('Idempotency-Key', 'abc').send({ item: 'book' });
+
+        const res = await request(app)
+            .post('/orders')
+            .set('Idempotency-Key', 'abc')
+            .send({ item: 'pen' });
+        expect(res.status).toBe(422);
+        expect(res.body.errors[0]).toMatchObject({
+            status: '422',
+            code: 'IDEMPOTENCY_KEY_MISMATCH',
+        });
+    });
+
+    it('처리 중인 키로 동시에 들어온 요청은 409 와 Retry-After', async () => {
+        let finish!: () => void;
+        const gate = new Promise<void>((resolve) => (finish = resolve));
+        const { app } = buildApp({ store: new MemoryIdempotencyStore() }, async (_req, res) => {
+            await gate;
+            res.status(201).json({ ok: true });
+        });
+
+        const slow = request(app).post('/orders').set('Idempotency-Key', 'abc').send({ a: 1 });
+        const pending = slow.then((res) => res);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const duplicate = await request(app)
+            .post('/orders')
+            .set('Idempotency-Key', 'abc')
+            .send({ a: 1 });
+        expect(duplicate.status).toBe(409);
+        expect(duplicate.headers['retry-after']).toBe('1');
+        expect(duplicate.body.errors[0].code).toBe('IDEMPOTENCY_KEY_IN_USE');
+
+        finish();
+        expect((await pending).status).toBe(201);
+    });
+
+    it('required 면 헤더 없는 요청을 400 으로 거부한다', async () => {
+        const { app, calls } = buildApp({ store: new MemoryIdempotencyStore(), required: true });
+        const res = await request(app).post('/orders').send({ item: 'book' });
+        expect(res.status).toBe(400);
+        expect(res.body.errors[0].code).toBe('IDEMPOTENCY_KEY_REQUIRED');
+        expect(calls()).toBe(0);
+    });
+
+    it('5xx 응답은 저장하지 않아 같은 키로 다시 시도할 수 있다', async () => {
+        let fail = true;
+        const { app } = buildApp({ store: new MemoryIdempotencyStore() }, (_req, res) => {
+            if (fail) {
+                res.status(503).json({ error: 'down' });
+                return;
+            }
+            res.status(201).json({ ok: true });
+        });
+
+        expect(
+            (await request(app).post('/orders').set('Idempotency-Key', 'k').send({})).status,
+        ).toBe(503);
+        fail = false;
+        const retried = await request(app).post('/orders').set('Idempotency-Key', 'k').send({});
+        expect(retried.status).toBe(201);
+        expect(retried.headers['idempotent-replayed']).toBeUndefined();
+    });
+
+    it('키는 인증 사용자별로 나뉜다', async () => {
+        const store = new MemoryIdempotencyStore();
+        const app = express();
+        app.use(express.json());
+        app.use((req, _res, next) => {
+            (req as any).kusto = { user: { id: req.get('X-User') } };
+            next();
+        });
+        let calls = 0;
+        app.post('/orders', idempotency({ store }), (_req, res) => {
+            res.json({ call: ++calls });
+        });
+
+        const send = (user: string) =>
+            request(app)
+                .post('/orders')
+                .set('X-User', user)
+                .set('Idempotency-Key', 'same')
+                .send({});
+        expect((await send('u1')).body.call).toBe(1);
+        expect((await send('u2')).body.call).toBe(2);
+        expect((await send('u1')).body.call).toBe(1);
+    });
+
+    it('저장소 장애 시에는 멱등성 없이 처리한다 (fail-open)', async () => {
+        const broken: IdempotencyStore = {
+            acquire: async () => {
+                throw new Error('down');
+            },
+            complete: async () => undefined,
+            release: async () => undefined,
+        };
+        const { app } = buildApp({ store: broken });
+        const res = await request(app).post('/orders').set('Idempotency-Key', 'k').send({});
+        expect(res.status).toBe(201);
+    });
+
+    it('잘못된 옵션은 생성 시 에러', () => {
+        expect(() => idempotency({ ttlMs: 0 })).toThrow(/ttlMs/);
+        expect(() => idempotency({ lockTimeoutMs: -1 })).toThrow(/lockTimeoutMs/);
+    });
+});
+
+describe('idempotency 옵션 연결', () => {
+    it('POST 옵션의 idempotency 는 라우트에 미들웨어를 건다', async () => {
+        let calls = 0;
+        const router = new ExpressRouter();
+        router.POST((_req, res) => res.status(201).json({ call: ++calls }), {
+            idempotency: { store: new MemoryIdempotencyStore() },
+        });
+        const app = express();
+        app.use(express.json());
+        app.use(router.build());
+
+        const first = await request(app).post('/').set('Idempotency-Key', 'k').send({ a: 1 });
+        const second = await request(app).post('/').set('Idempotency-Key', 'k').send({ a: 1 });
+        expect(first.body).toEqual({ call: 1 });
+        expect(second.body).toEqual({ call: 1 });
+        expect(second.headers['idempotent-replayed']).toBe('true');
+    });
+
+    it('OpenAPI 에 헤더 파라미터, x-idempotency, 409/422 응답을 싣는다', () => {
+        const doc = buildOpenApiDocument({
+            routes: [
+                {
+                    method: 'POST',
+                    path: '/orders',
+                    idempotency: describeIdempotency({ required: true, ttlMs: 3_600_000 }),
+                },
+            ],
+            schemas: {},
+            env: { NODE_ENV: 'development' } as NodeJS.ProcessEnv,
+            packageJson: { name: 'x', version: '1.0.0' },
+        });
+        const op = doc.paths['/orders'].post!;
+        expect(op['x-idempotency']).toEqual({
+            header: 'Idempotency-Key',
+            required: true,
+            ttlSeconds: 3600,
+        });
+        expect(op.parameters).toContainEqual(
+            expect.objectContaining({ name: 'Idempotency-Key', in: 'header', required: true }),
+        );
+        expect(op.responses).toHaveProperty('409');
+        expect(op.responses).toHaveProperty('422');
+    });
+});
@@ -0,0 +1,140 @@
+import { applicationLifecycle } from '@lib/lifecycle/applicationLifecycle';
+
+function recorder(order: string[], name: string) {
+    return {
+        onModuleInit: () => {
+            order.push(`${name}:init`);
+        },
+        onApplicationReady: async () => {
+            order.push(`${name}:ready`);
+        },
+        onBeforeShutdown: (reason?: string) => {
+            order.push(`${name}:before:${reason}`);
+        },
+        onShutdown: async (reason?: string) => {
+            order.push(`${name}:shutdown:${reason}`);
+        },
+    };
+}
+
+describe('applicationLifecycle', () => {
+    afterEach(() => {
+        applicationLifecycle.clear();
+    });
+
+    it('시작 단계는 등록 순서로, 종료 단계는 역순으로 실행하고 종료 사유를 전달한다', async () => {
+        const order: string[] = [];
+        applicationLifecycle.register('repository:user', recorder(order, 'repo'));
+        applicationLifecycle.register('module:cache', recorder(order, 'cache'));
+        applicationLifecycle.register('extension:queue', recorder(order, 'queue'));
+
+        await applicationLifecycle.run('onModuleInit');
+        await applicationLifecycle.run('onApplicationReady');
+        await applicationLifecycle.run('onBeforeShutdown', { reason: 'SIGTERM' });
+        await applicationLifecycle.run('onShutdown', { reason: 'SIGTERM' });
+
+        expect(order).toEqual([
+            'repo:init',
+            'cache:init',
+            'queue:init',
+            'repo:ready',
+            'cache:ready',
+            'queue:ready',
+            'queue:before:SIGTERM',
+            'cache:before:SIGTERM',
+            'repo:before:SIGTERM',
+            'queue:shutdown:SIGTERM',
+            'cache:shutdown:SIGTERM',
+            'repo:shutdown:SIGTERM',
+        ]);
+    });
+
+    it('훅이 없는 대상은 등록하지 않고, 같은 이름은 순서를 유지한 채 교체한다', async () => {
+        const order: string[] = [];
+        expect(applicationLifecycle.register('repository:plain', { find() {} })).toBe(false);
+        applicationLifecycle.register('repository:a', recorder(order, 'a-old'));
+        applicationLifecycle.register('repository:b', recorder(order, 'b'));
+        applicationLifecycle.register('repository:a', recorder(order, 'a-new'));
+
+        expect(applicationLifecycle.getParticipants()).toEqual(['repository:a', 'repository:b']);
+        await applicationLifecycle.run('onModuleInit');
+        expect(order).toEqual(['a-new:init', 'b:init']);
+
+        applicationLifecycle.unregisterByPrefix('repository:');
+        expect(applicationLifecycle.getParticipants()).toEqual([]);
+    });
+
+    it('onModuleInit 실패는 re-throw 하여 이후 참여자를 실행하지 않는다(fail-fast)', async () => {
+        const later = jest.fn();
+        applicationLifecycle.register('module:broken', {
+            onModuleInit: () => {
+                throw new Error('boom');
+            },
+        });
+        applicationLifecycle.register('module:later', { onModuleInit: later });
+
+        await expect(applicationLifecycle.run('onModuleInit')).rejects.toThrow('boom');
+        expect(later).not.toHaveBeenCalled();
+    });
+
+    it('종료 단계 실패와 타임아웃은 수집하고 나머지 참여자를 계속 정리한다', async () => {
+        const closed: string[] = [];
+        applicationLifecycle.register('module:db', {
+            onShutdown: () => {
+                closed.push('db');
+            },
+        });
+        applicationLifecycle.register('module:hang', {
+            onShutdown: () => new Promise<void>(() => {}),
+        });
+        applicationLifecycle.register('module:broken', {
+            onShutdown: async () => {
+                throw new Error('close failed');
+            },
+        });
+
+        const failures = await applicationLifecycle.run('onShutdown', { timeoutMs: 20 });
+
+        expect(closed).toEqual(['db']);
+        expect(failures).toEqual([
+            expect.objectContaining({ participant: 'module:broken', timedOut: false }),
+            expect.objectContaining({ participant: 'module:hang', timedOut: true }),
+        ]);
+        expect(String((failures[1].error as Error).message)).toContain('timed out after 20ms');
+    });
+
+    it('DependencyInjector 싱글턴은 의존성 순서로 등록되고 clear() 로 해제된다', async () => {
+        jest.resetModules();
+        class Config {
+            onShutdown() {}
+        }
+        class Cache {
+            static inject = ['config'];
+            constructor(readonly config: Config) {}
+            onModuleInit() {}
+        }
+        class Token {
+            static scope = 'transient';
+            onModuleInit() {}
+        }
+        jest.doMock('@lib/types/generated-injectable-types', () => ({
+            MODULE_REGISTRY: {
+                cache: () => Promise.resolve({ default: Cache }),
+                token: () => Promise.resolve({ default: Token }),
+                config: () => Promise.resolve({ default: Config }),
+            },
+            MIDDLEWARE_REGISTRY: {},
+        }));
+        const { DependencyInjector } = require('@lib/data/di/dependencyInjector');
+        const lifecycle = require('@lib/lifecycle/applicationLifecycle').applicationLifecycle;
+
+        const injector = DependencyInjector.getInstance();
+        await injector.initialize();
+        // transient / request 스코프 인스턴스는 생명주기에 참여하지 않는다
+        expect(lifecycle.getParticipants()).toEqual(['module:config', 'module:cache']);
+
+        injector.clear();
+        expect(lifecycle.getParticipants()).toEqual([]);
+        jest.dontMock('@lib/types/generated-injectable-types');
+    });
+});
@@ -1,11 +1,18 @@
+import { Writable } from 'stream';
+import winston from 'winston';
 import {
     toSafeJson,
     safeStringify,
     resolveConsoleLevel,
+    resolveLogFormat,
+    toLogRecord,
+    jsonLineFormat,
+    registerLogTransport,
     isColorEnabled,
     normalizeLevel,
     log,
 } from '@ext/winston';
+import { runWithRequestContext } from '@lib/http/requestContext';
 
 describe('toSafeJson — 안전 직렬화', () => {
     it('순환 참조를 [Circular] 로 처리', () => {
@@ -207,6 +214,106 @@ describe('log 인스턴스 스모크', () => {
     });
 });
 
+describe('resolveLogFormat', () => {
+    it('LOG_FORMAT 이 최우선 (대소문자 무시)', () => {
+        expect(resolveLogFormat({ LOG_FORMAT: 'JSON', NODE_ENV: 'development' })).toBe('json');
+        expect(resolveLogFormat({ LOG_FORMAT: 'pretty', NODE_ENV: 'production' })).toBe('pretty');
+    });
+    it('미지정/알 수 없는 값이면 production → json, 그 외 → pretty', () => {
+        expect(resolveLogFormat({ NODE_ENV: 'production' })).toBe('json');
+        expect(resolveLogFormat({ LOG_FORMAT: 'xml', NODE_ENV: 'development' })).toBe('pretty');
+    });
+});
+
+describe('JSON 로그 레코드', () => {
+    it('고정 필드명이 앞에 오고, meta 는 마스킹되며 고정 필드를 덮어쓰지 못한다', () => {
+        const record = toLogRecord(
+            {
+                timestamp: '2026-01-01T00:00:00.000Z',
+                level: 'Info',
+                message: 'hello',
+                requestId: 'req-1',
+                password: 'p',
+                user: { id: 1, authorization: 'Bearer x' },
+                // 고정 필드와 겹치는 meta 키
+                stack: undefined,
+            } as any,
+            {},
+        );
+        expect(Object.keys(record).slice(0, 4)).toEqual([
+            'timestamp',
+            'level',
+            'message',
+            'requestId',
+        ]);
+        expect(record).toEqual({
+            timestamp: '2026-01-01T00:00:00.000Z',
+            level: 'INFO',
+            message: 'hello',
+            requestId: 'req-1',
+            password: '[REDACTED]',
+            user: { id: 1, authorization: '[REDACTED]' },
+        });
+    });
+
+    it('jsonLineFormat 은 한 줄 JSON 을 출력 메시지로 설정한다', () => {
+        const out = jsonLineFormat().transform({
+            level: 'Warn',
+            message: 'slow',
+            token: 't',
+            [Symbol.for('level')]: 'Warn',
+        } as any) as any;
+        const line = out[Symbol.for('message')];
+        expect(line).not.toContain('\n');
+        expect(JSON.parse(line)).toEqual(
+            expect.objectContaining({ level: 'WARN', message: 'slow', token: '[REDACTED]' }),
+        );
+        // 객체를 그대로 보내는 transport 도 마스킹된 값을 받는다
+        expect(out.token).toBe('[REDACTED]');
+        expect(out[Symbol.for('level')]).toBe('Warn');
+    });
+});
+
+describe('registerLogTransport', () => {
+    /** objectMode 스트림 — transport 가 받은 info 객체를 그대로 모은다 */
+    function captureTransport() {
+        const records: any[] = [];
+        const stream = new Writable({
+            objectMode: true,
+            write(chunk, _encoding, callback) {
+                records.push(chunk);
+                callback();
+            },
+        });
+        return { records, transport: new winston.transports.Stream({ stream }) };
+    }
+
+    it('등록한 transport 가 요청 ID 포함 마스킹된 레코드를 받고, 해제하면 더 받지 않는다', () => {
+        const capture = captureTransport();
+        const unregister = registerLogTransport(capture.transport);
+        registerLogTransport(capture.transport); // 중복 등록은 무시
+
+        runWithRequestContext({ requestId: 'ship-1' }, () =>
+            log.Info('shipped', { apiKey: 'k', count: 2 }),
+        );
+        unregister();
+        log.Info('after unregister');
+
+        expect(capture.records).toHaveLength(1);
+        const [record] = capture.records;
+        expect(record).toEqual(
+            expect.objectContaining({
+                level: 'INFO',
+                message: 'shipped',
+                requestId: 'ship-1',
+                apiKey: '[REDACTED]',
+                count: 2,
+            }),
+        );
+        expect(JSON.parse(record[Symbol.for('message')]).requestId).toBe('ship-1');
+    });
+});
+
 describe('적대적 리뷰 회귀 — 배열/Error/Map/Set/Date', () => {
     it('객체 배열을 [Circular] 로 오탐하지 않고 보존', () => {
         const out = toSafeJson({ list: [{ a: 1 }, { b: 2 }] }) as any;
@@ -0,0 +1,128 @@
+import { MetricsRegistry } from '@core/lib/metrics/metricsRegistry';
+import { authorizeMetricsRequest, buildAllowList } from '@core/lib/metrics/metricsSetup';
+
+/**
+ * Prometheus 텍스트 포맷 레지스트리 + /metrics 접근 제어 단위 테스트.
+ */
+describe('MetricsRegistry', () => {
+    const registry = new (MetricsRegistry as any)() as MetricsRegistry;
+
+    beforeEach(() => registry.clear());
+
+    it('counter/gauge 를 HELP/TYPE 와 함께 직렬화하고 라벨 값을 이스케이프한다', () => {
+        const counter = registry.counter({
+            name: 'app_jobs_total',
+            help: 'Jobs processed',
+            labelNames: ['queue'],
+        });
+        counter.inc({ queue: 'a"b\\c\nd' });
+        counter.inc({ queue: 'a"b\\c\nd' }, 2);
+        registry.gauge({ name: 'app_temp', help: 'Temperature' }).set(undefined, 21.5);
+
+        expect(registry.render()).toBe(
+            [
+                '# HELP app_jobs_total Jobs processed',
+                '# TYPE app_jobs_total counter',
+                'app_jobs_total{queue="a\\"b\\\\c\\nd"} 3',
+                '# HELP app_temp Temperature',
+                '# TYPE app_temp gauge',
+                'app_temp 21.5',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('histogram 은 누적 버킷과 +Inf/_sum/_count 를 출력한다', () => {
+        const histogram = registry.histogram({
+            name: 'app_latency_seconds',
+            help: 'Latency',
+            labelNames: ['route'],
+            buckets: [0.5, 0.1],
+        });
+        histogram.observe({ route: '/users/:id' }, 0.05);
+        histogram.observe({ route: '/users/:id' }, 0.3);
+        histogram.observe({ route: '/users/:id' }, 2);
+
+        const lines = registry.render().split('\n');
+        expect(lines).toEqual(
+            expect.arrayContaining([
+                'app_latency_seconds_bucket{route="/users/:id",le="0.1"} 1',
+                'app_latency_seconds_bucket{route="/users/:id",le="0.5"} 2',
+                'app_latency_seconds_bucket{route="/users/:id",le="+Inf"} 3',
+                'app_latency_seconds_sum{route="/users/:id"} 2.35',
+                'app_latency_seconds_count{route="/users/:id"} 3',
+            ]),
+        );
+    });
+
+    it('OpenMetrics 포맷은 counter 패밀리에서 _total 을 떼고 # EOF 로 끝난다', () => {
+        registry.counter({ name: 'app_jobs_total', help: 'Jobs' }).inc();
+        const text = registry.render('openmetrics');
+        expect(text).toContain('# TYPE app_jobs counter\napp_jobs_total 1');
+        expect(text.endsWith('# EOF\n')).toBe(true);
+    });
+
+    it('collect 는 스크레이프마다 호출되고, 같은 이름을 다른 타입으로 등록하면 에러', () => {
+        let calls = 0;
+        registry.gauge({
+            name: 'app_collected',
+            help: 'Collected',
+            collect() {
+                this.set(undefined, ++calls);
+            },
+        });
+        registry.render();
+        expect(registry.render()).toContain('app_collected 2');
+        expect(() => registry.counter({ name: 'app_collected', help: 'x' })).toThrow(
+            /already registered as a gauge/,
+        );
+    });
+
+    it('누락된 라벨은 에러, 시리즈 상한을 넘는 새 라벨 조합은 버린다', () => {
+        const counter = registry.counter({
+            name: 'app_hits_total',
+            help: 'Hits',
+            labelNames: ['k'],
+        });
+        expect(() => counter.inc({})).toThrow(/missing label 'k'/);
+
+        for (let i = 0; i < 2001; i++) counter.inc({ k: i });
+        expect(counter.get({ k: 1999 })).toBe(1);
+        expect(counter.get({ k: 2000 })).toBe(0);
+    });
+});
+
+describe('authorizeMetricsRequest', () => {
+    const req = (remoteAddress: string, authorization?: string) =>
+        ({ socket: { remoteAddress }, headers: { authorization } }) as any;
+
+    it('토큰/allowlist 가 없으면 루프백만 허용한다', () => {
+        expect(authorizeMetricsRequest(req('127.0.0.1'), {})).toBe(200);
+        expect(authorizeMetricsRequest(req('::ffff:127.0.0.1'), {})).toBe(200);
+        expect(authorizeMetricsRequest(req('10.0.0.5'), {})).toBe(403);
+    });
+
+    it('토큰만 설정하면 어느 주소든 Bearer 토큰이 맞아야 한다', () => {
+        const options = { token: 's3cret' };
+        expect(authorizeMetricsRequest(req('10.0.0.5', 'Bearer s3cret'), options)).toBe(200);
+        expect(authorizeMetricsRequest(req('10.0.0.5', 'Bearer nope'), options)).toBe(401);
+        expect(authorizeMetricsRequest(req('127.0.0.1'), options)).toBe(401);
+    });
+
+    it('allowlist(IP/CIDR)와 토큰을 모두 설정하면 둘 다 통과해야 한다', () => {
+        const allowList = buildAllowList(['10.0.0.0/8', '192.168.1.7']);
+        const options = { token: 's3cret' };
+        expect(
+            authorizeMetricsRequest(req('::ffff:10.1.2.3', 'Bearer s3cret'), options, allowList),
+        ).toBe(200);
+        expect(
+            authorizeMetricsRequest(req('192.168.1.8', 'Bearer s3cret'), options, allowList),
+        ).toBe(403);
+        expect(authorizeMetricsRequest(req('10.1.2.3'), options, allowList)).toBe(401);
+    });
+
+    it('잘못된 allowlist 항목은 에러', () => {
+        expect(() => buildAllowList(['10.0.0.0/33'])).toThrow(/Invalid METRICS_ALLOW_IPS/);
+        expect(() => buildAllowList(['not-an-ip'])).toThrow(/Invalid METRICS_ALLOW_IPS/);
+    });
+});
@@ -0,0 +1,95 @@
+import request from 'supertest';
+import express from 'express';
+import { kustoInitMiddleware, globalErrorMiddleware } from '@lib/http/routing/frameworkMiddleware';
+import {
+    getRequestContext,
+    getRequestId,
+    resolveRequestId,
+    runWithRequestContext,
+} from '@lib/http/requestContext';
+import { requestIdFormat } from '@ext/winston';
+
+/**
+ * 요청 상관관계 ID — kustoInitMiddleware 가 X-Request-Id 를 받거나 생성해 응답 헤더,
+ * AsyncLocalStorage 컨텍스트, 로그, JSON:API 에러 id 에 같은 값을 싣는다.
+ */
+function buildApp() {
+    const app = express();
+    app.use(kustoInitMiddleware);
+    app.use(express.json());
+    app.post('/ctx', (req, res) => {
+        // 비동기 경계 뒤에서도 같은 컨텍스트
+        setTimeout(() => res.json({ fromReq: req.requestId, ...getRequestContext() }), 5);
+    });
+    app.get('/boom-async', (_req, _res, next) => {
+        setTimeout(() => next(Object.assign(new Error('nope'), { statusCode: 404 })), 1);
+    });
+    app.use(globalErrorMiddleware);
+    return app;
+}
+
+describe('요청 컨텍스트 / X-Request-Id', () => {
+    it('X-Request-Id 가 없으면 생성해 응답 헤더와 컨텍스트에 싣는다', async () => {
+        const res = await request(buildApp()).post('/ctx').send({ a: 1 });
+        const id = res.headers['x-request-id'];
+        expect(id).toMatch(/^[0-9a-f-]{36}$/);
+        expect(res.body).toEqual(
+            expect.objectContaining({
+                requestId: id,
+                fromReq: id,
+                method: 'POST',
+                path: '/ctx',
+            }),
+        );
+    });
+
+    it('유효한 X-Request-Id 는 그대로 사용하고, 형식이 잘못되면 새로 만든다', async () => {
+        const app = buildApp();
+        const ok = await request(app).post('/ctx').set('X-Request-Id', 'edge-abc.123:4');
+        expect(ok.headers['x-request-id']).toBe('edge-abc.123:4');
+        expect(ok.body.requestId).toBe('edge-abc.123:4');
+
+        const bad = await request(app).post('/ctx').set('X-Request-Id', 'evil\tvalue{}');
+        expect(bad.headers['x-request-id']).not.toBe('evil\tvalue{}');
+        expect(resolveRequestId('x'.repeat(129))).not.toBe('x'.repeat(129));
+    });
+
+    it('동시 요청의 컨텍스트가 섞이지 않는다', async () => {
+        const app = buildApp();
+        const ids = ['r-1', 'r-2', 'r-3', 'r-4'];
+        const results = await Promise.all(
+            ids.map((id) => request(app).post('/ctx').set('X-Request-Id', id)),
+        );
+        expect(results.map((r) => r.body.requestId)).toEqual(ids);
+    });
+
+    it('JSON:API 에러 본문의 errors[].id 에 요청 ID 를 싣는다', async () => {
+        const res = await request(buildApp()).get('/boom-async').set('X-Request-Id', 'err-42');
+        expect(res.status).toBe(404);
+        expect(res.headers['x-request-id']).toBe('err-42');
+        expect(res.body.errors[0].id).toBe('err-42');
+    });
+
+    it('요청 밖에서는 컨텍스트가 없고, runWithRequestContext 로 명시할 수 있다', async () => {
+        expect(getRequestContext()).toBeUndefined();
+        const seen = await runWithRequestContext({ requestId: 'job-7' }, async () => {
+            await new Promise((resolve) => setImmediate(resolve));
+            return getRequestId();
+        });
+        expect(seen).toBe('job-7');
+        expect(runWithRequestContext({}, () => getRequestId())).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it('로그 포맷이 현재 요청 ID 를 requestId 로 붙인다 (명시한 값은 유지)', () => {
+        const fmt = requestIdFormat();
+        const outside = fmt.transform({ level: 'Info', message: 'a' }) as any;
+        expect(outside.requestId).toBeUndefined();
+
+        runWithRequestContext({ requestId: 'log-1' }, () => {
+            expect((fmt.transform({ level: 'Info', message: 'b' }) as any).requestId).toBe('log-1');
+            expect(
+                (fmt.transform({ level: 'Info', message: 'c', requestId: 'own' }) as any).requestId,
+            ).toBe('own');
+        });
+    });
+});
@@ -47,6 +47,37 @@ function fakeSnapshot(recentCount = 30): MonitorSnapshot {
         databases: [
             { name: 'default', connected: true, provider: 'postgresql', reconnectAttempts: 0 },
         ],
+        queries: {
+            total: 420,
+            errors: 1,
+            slowThresholdMs: 1000,
+            databases: [
+                { database: 'default', count: 420, errors: 1, slow: 2, avgMs: 3.2, p95: 12 },
+            ],
+            top: [
+                {
+                    database: 'default',
+                    model: 'user',
+                    operation: 'findMany',
+                    count: 300,
+                    errors: 0,
+                    avgMs: 4.1,
+                    p50: 3,
+                    p95: 11,
+                    p99: 40,
+                    maxMs: 1500,
+                },
+            ],
+            recentSlow: [
+                {
+                    ts: Date.now(),
+                    database: 'default',
+                    model: 'user',
+                    operation: 'findMany',
+                    durationMs: 1500,
+                },
+            ],
+        },
     };
 }
 
@@ -78,6 +109,9 @@ describe('monitor/renderFrame — 터미널 크기 인식', () => {
             expect(f).toContain(label);
         }
         expect(f).toContain('default'); // db name
+        expect(f).toContain('DB'); // 쿼리 메트릭 패널
+        expect(f).toContain('default.user.findMany');
+        expect(f).toContain('last slow');
         expect(f).toContain('routes');
         // btop 풍 둥근 박스 테두리
         expect(f).toContain('╭');
@@ -102,6 +136,15 @@ describe('monitor/renderFrame — 터미널 크기 인식', () => {
         }
     });
 
+    it('DB 에 커넥션 풀 상태가 있으면 사용량과 풀 타임아웃 수를 함께 그린다', () => {
+        const snap = fakeSnapshot();
+        snap.databases[0].pool = { total: 10, idle: 0, waiting: 3, max: 10, timeouts: 2 };
+        const f = renderFrame(snap, { cols: 200, rows: 30, url: 'u', intervalMs: 1000 });
+        // eslint-disable-next-line no-control-regex
+        const plain = f.replace(/\x1b\[[0-9;]*m/g, '');
+        expect(plain).toContain('pool 10/10 idle 0 wait 3 P2024 2');
+    });
+
     it('높이가 작으면 RECENT 목록이 화면을 넘지 않게 잘린다', () => {
         const small = renderFrame(fakeSnapshot(40), {
             cols: 80,
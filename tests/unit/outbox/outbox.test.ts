@@ -0,0 +1,182 @@
+import { prismaManager } from '@lib/data/database/prismaManager';
+import { UnitOfWork } from '@lib/data/database/unitOfWork';
+import { Outbox } from '@lib/data/outbox/outbox';
+import type { OutboxMessage } from '@lib/data/outbox/outbox';
+
+/** findMany / updateMany / update / delete 만 흉내 내는 메모리 outboxEvent delegate */
+function makeClient() {
+    const rows = new Map<string, any>();
+    const outboxEvent = {
+        create: jest.fn(async ({ data }: any) => {
+            rows.set(data.id, { lastError: null, deliveredAt: null, ...data });
+            return data;
+        }),
+        findMany: jest.fn(async ({ where, take }: any) =>
+            [...rows.values()]
+                .filter(
+                    (row) =>
+                        row.status === where.status &&
+                        row.availableAt.getTime() <= where.availableAt.lte.getTime(),
+                )
+                .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+                .slice(0, take)
+                .map((row) => ({ ...row })),
+        ),
+        updateMany: jest.fn(async ({ where, data }: any) => {
+            const row = rows.get(where.id);
+            if (
+                !row ||
+                row.status !== where.status ||
+                row.availableAt.getTime() !== where.availableAt.getTime()
+            ) {
+                return { count: 0 };
+            }
+            Object.assign(row, data);
+            return { count: 1 };
+        }),
+        update: jest.fn(async ({ where, data }: any) => Object.assign(rows.get(where.id), data)),
+        delete: jest.fn(async ({ where }: any) => rows.delete(where.id)),
+    };
+    const client: any = {
+        outboxEvent,
+        $transaction: jest.fn(async (callback: any) => callback(client)),
+    };
+    return { client, rows };
+}
+
+describe('Outbox', () => {
+    let client: any;
+    let rows: Map<string, any>;
+
+    beforeEach(() => {
+        ({ client, rows } = makeClient());
+        jest.spyOn(prismaManager, 'getWrap').mockReturnValue(client);
+        jest.spyOn(prismaManager, 'getProviderForDatabase').mockReturnValue('sqlite' as any);
+    });
+
+    afterEach(async () => {
+        await Outbox.reset();
+        jest.restoreAllMocks();
+    });
+
+    it('emit 은 pending 행을 기록하고 dispatch 가 패턴이 맞는 구독자에게 배달한다', async () => {
+        Outbox.configure({ databases: ['default'], autoStart: false });
+        const seen: string[] = [];
+        Outbox.subscribe('order.*', (message) => {
+            seen.push(`${message.event}:${message.payload.id}`);
+        });
+        const unsubscribe = Outbox.subscribe('*', () => {
+            seen.push('any');
+        });
+        Outbox.subscribe('user.created', () => {
+            seen.push('user');
+        });
+
+        const id = await Outbox.emit('default', 'order.created', { id: 7 });
+        expect(rows.get(id)).toMatchObject({
+            event: 'order.created',
+            payload: '{"id":7}',
+            status: 'pending',
+            attempts: 0,
+        });
+
+        unsubscribe();
+        expect(await Outbox.dispatch('default')).toBe(1);
+        expect(seen).toEqual(['order.created:7']);
+        expect(rows.get(id)).toMatchObject({ status: 'delivered', attempts: 1 });
+        expect(rows.get(id).deliveredAt).toBeInstanceOf(Date);
+
+        // 이미 배달된 이벤트는 다시 가져가지 않는다
+        expect(await Outbox.dispatch('default')).toBe(0);
+    });
+
+    it('배달이 실패하면 백오프 뒤 재시도하고, maxAttempts 에 닿으면 dead 로 남긴다', async () => {
+        const deadLetters: OutboxMessage[] = [];
+        const transport = {
+            deliver: jest.fn(async () => {
+                throw new Error('broker down');
+            }),
+        };
+        Outbox.configure({
+            databases: ['default'],
+            autoStart: false,
+            transport,
+            maxAttempts: 2,
+            backoff: () => 60_000,
+            onDeadLetter: (message) => {
+                deadLetters.push(message);
+            },
+        });
+        const id = await Outbox.emit('default', 'mail.send', { to: 'a@a.com' });
+
+        await Outbox.dispatch('default');
+        expect(rows.get(id)).toMatchObject({
+            status: 'pending',
+            attempts: 1,
+            lastError: 'broker down',
+        });
+        expect(rows.get(id).availableAt.getTime()).toBeGreaterThan(Date.now() + 50_000);
+
+        // 백오프가 끝나기 전에는 가져가지 않는다
+        expect(await Outbox.dispatch('default')).toBe(0);
+
+        rows.get(id).availableAt = new Date(0);
+        await Outbox.dispatch('default');
+        expect(rows.get(id)).toMatchObject({ status: 'dead', attempts: 2 });
+        expect(deadLetters.map((message) => [message.id, message.attempt])).toEqual([[id, 2]]);
+        expect(transport.deliver).toHaveBeenCalledTimes(2);
+    });
+
+    it('다른 디스패처가 먼저 가져간 행은 건너뛴다', async () => {
+        Outbox.configure({ databases: ['default'], autoStart: false, deleteDelivered: true });
+        const delivered = jest.fn();
+        Outbox.subscribe('*', delivered);
+        await Outbox.emit('default', 'a', 1);
+        await Outbox.emit('default', 'b', 2);
+
+        const findMany = client.outboxEvent.findMany.getMockImplementation();
+        client.outboxEvent.findMany.mockImplementationOnce(async (args: any) => {
+            const found = await findMany(args);
+            // 조회와 claim 사이에 다른 인스턴스가 첫 행을 lease 한 상황
+            rows.get(found[0].id).availableAt = new Date(Date.now() + 30_000);
+            return found;
+        });
+
+        expect(await Outbox.dispatch('default')).toBe(1);
+        expect(delivered).toHaveBeenCalledTimes(1);
+        expect(delivered.mock.calls[0][0].event).toBe('b');
+        // deleteDelivered 면 배달된 행을 지운다
+        expect([...rows.values()].map((row) => row.event)).toEqual(['a']);
+    });
+
+    it('작업 단위 안에서는 트랜잭션 클라이언트로 기록하고, 커밋 뒤 디스패처를 깨운다', async () => {
+        Outbox.configure({ databases: ['default'], autoStart: false });
+        const tx = makeClient().client;
+        const notify = jest.spyOn(Outbox, 'notify');
+
+        await UnitOfWork.run(
+            'default',
+            async () => {
+                await Outbox.emit('default', 'order.created', {});
+                expect(notify).not.toHaveBeenCalled();
+            },
+            { client: { $transaction: (callback: any) => callback(tx) } },
+        );
+
+        expect(tx.outboxEvent.create).toHaveBeenCalledTimes(1);
+        expect(client.outboxEvent.create).not.toHaveBeenCalled();
+        expect(notify).toHaveBeenCalledWith('default');
+    });
+
+    it('configure 는 잘못된 설정을 거부하고, 설정 전 dispatch 는 실패한다', async () => {
+        expect(() => Outbox.configure({ databases: [] })).toThrow(/at least one database/);
+        expect(() => Outbox.configure({ databases: ['default'], table: 'x; drop' })).toThrow(
+            /invalid table name/,
+        );
+        expect(() => Outbox.configure({ databases: ['default'], batchSize: 0 })).toThrow(
+            /batchSize must be a positive number/,
+        );
+        await expect(Outbox.dispatch('default')).rejects.toThrow(/not configured/);
+        await expect(Outbox.emit('default', '', {})).rejects.toThrow(/event name is required/);
+    });
+});
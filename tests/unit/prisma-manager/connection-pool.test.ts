@@ -0,0 +1,262 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PrismaManager } from '@lib/data/database/prismaManager';
+import {
+    PoolTracker,
+    loadDatabasePoolConfig,
+    toMysqlPoolConfig,
+    toPgPoolConfig,
+} from '@lib/data/database/connectionPool';
+
+/** pg.Pool 처럼 totalCount / idleCount / waitingCount 를 가진 가짜 드라이버 풀 */
+function makeDriver(total: number, idle: number, waiting: number) {
+    return { totalCount: total, idleCount: idle, waitingCount: waiting };
+}
+
+function makeFactory(driver: any) {
+    return {
+        provider: 'postgres',
+        connect: jest.fn(async () => ({ underlyingDriver: () => driver })),
+    };
+}
+
+function poolTimeoutError(): Error {
+    const error: any = new Error('Timed out fetching a new connection from the connection pool.');
+    error.code = 'P2024';
+    return error;
+}
+
+describe('loadDatabasePoolConfig', () => {
+    const env = { ...process.env };
+    let folder: string;
+
+    beforeEach(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'kusto-pool-'));
+    });
+
+    afterEach(() => {
+        process.env = { ...env };
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    it('kusto.db 파일을 읽고 환경변수가 같은 항목을 덮어쓴다', () => {
+        fs.writeFileSync(
+            path.join(folder, 'kusto.db.js'),
+            `module.exports = { pool: { max: 20, idleTimeoutMs: 10000, applicationName: 'api' } };`,
+        );
+        process.env.MY_DB__KUSTO_RDB_POOL_MAX = '5';
+        process.env.MY_DB__KUSTO_RDB_STATEMENT_TIMEOUT_MS = '3000';
+
+        expect(loadDatabasePoolConfig('myDb', folder)).toEqual({
+            max: 5,
+            idleTimeoutMs: 10000,
+            statementTimeoutMs: 3000,
+            applicationName: 'api',
+        });
+    });
+
+    it('설정이 없으면 빈 객체', () => {
+        expect(loadDatabasePoolConfig('test', folder)).toEqual({});
+    });
+
+    it('잘못된 값은 출처와 함께 거부한다', () => {
+        process.env.TEST__KUSTO_RDB_POOL_MAX = 'many';
+        expect(() => loadDatabasePoolConfig('test', folder)).toThrow(
+            /TEST__KUSTO_RDB_POOL_MAX must be a non-negative number/,
+        );
+
+        delete process.env.TEST__KUSTO_RDB_POOL_MAX;
+        fs.writeFileSync(
+            path.join(folder, 'kusto.db.js'),
+            `module.exports = { pool: { min: 5, max: 2 } };`,
+        );
+        expect(() => loadDatabasePoolConfig('test', folder)).toThrow(
+            /min \(5\) must not exceed max/,
+        );
+
+        const other = path.join(folder, 'other');
+        fs.mkdirSync(other);
+        fs.writeFileSync(
+            path.join(other, 'kusto.db.js'),
+            `module.exports = { pool: { size: 5 } };`,
+        );
+        expect(() => loadDatabasePoolConfig('test', other)).toThrow(
+            /kusto\.db\.js pool\.size: unknown pool option/,
+        );
+    });
+
+    it('ts-node 밖에서 읽을 수 없는 kusto.db.ts 만 있으면 경고하고 건너뛴다', () => {
+        const extensions = require('module').Module._extensions;
+        const tsHandler = extensions['.ts'];
+        delete extensions['.ts'];
+        const warn = jest.spyOn(require('@ext/winston').log, 'Warn').mockImplementation();
+        fs.writeFileSync(path.join(folder, 'kusto.db.ts'), `export default { pool: { max: 20 } };`);
+
+        try {
+            expect(loadDatabasePoolConfig('test', folder)).toEqual({});
+            expect(warn).toHaveBeenCalledWith(expect.stringMatching(/kusto\.db\.ts is ignored/));
+
+            // 같은 폴더의 kusto.db.js 는 그대로 읽는다
+            warn.mockClear();
+            fs.writeFileSync(
+                path.join(folder, 'kusto.db.js'),
+                `module.exports = { pool: { max: 5 } };`,
+            );
+            expect(loadDatabasePoolConfig('test', folder)).toEqual({ max: 5 });
+            expect(warn).not.toHaveBeenCalled();
+        } finally {
+            if (tsHandler) extensions['.ts'] = tsHandler;
+            warn.mockRestore();
+        }
+    });
+
+    it('어댑터별 옵션 이름으로 바꾼다', () => {
+        const config = {
+            max: 10,
+            min: 2,
+            idleTimeoutMs: 1500,
+            connectionTimeoutMs: 2000,
+            statementTimeoutMs: 5000,
+            applicationName: 'api',
+        };
+        expect(toPgPoolConfig('postgresql://db/app', config)).toEqual({
+            connectionString: 'postgresql://db/app',
+            max: 10,
+            min: 2,
+            idleTimeoutMillis: 1500,
+            connectionTimeoutMillis: 2000,
+            statement_timeout: 5000,
+            application_name: 'api',
+        });
+        expect(toMysqlPoolConfig('mysql://db/app', config)).toEqual({
+            connectionString: 'mysql://db/app',
+            connectionLimit: 10,
+            minimumIdle: 2,
+            idleTimeout: 2,
+            acquireTimeout: 2000,
+            queryTimeout: 5000,
+            connectAttributes: { program_name: 'api' },
+        });
+        expect(toPgPoolConfig('postgresql://db/app', {})).toEqual({
+            connectionString: 'postgresql://db/app',
+        });
+    });
+});
+
+describe('PoolTracker', () => {
+    it('adapter 가 연결된 뒤에야 드라이버 풀 상태를 보여준다', async () => {
+        const tracker = new PoolTracker();
+        const driver = makeDriver(3, 1, 0);
+        const factory = tracker.track('default', makeFactory(driver), 10);
+
+        expect(tracker.stats('default')).toBeUndefined();
+        await factory.connect();
+        expect(tracker.stats('default')).toEqual({
+            total: 3,
+            idle: 1,
+            waiting: 0,
+            max: 10,
+            timeouts: 0,
+        });
+
+        // 값은 조회 시점의 드라이버 상태를 따른다
+        driver.waitingCount = 4;
+        tracker.recordTimeout('default');
+        expect(tracker.stats('default')).toMatchObject({ waiting: 4, timeouts: 1 });
+    });
+
+    it('mariadb 풀의 함수형 카운터도 읽는다', async () => {
+        const tracker = new PoolTracker();
+        const driver = {
+            totalConnections: () => 4,
+            idleConnections: () => 0,
+            taskQueueSize: () => 2,
+        };
+        await tracker.track('mysql', makeFactory(driver)).connect();
+        expect(tracker.stats('mysql')).toEqual({ total: 4, idle: 0, waiting: 2, timeouts: 0 });
+    });
+});
+
+describe('PrismaManager 커넥션 풀', () => {
+    let manager: PrismaManager;
+    let client: any;
+
+    beforeEach(() => {
+        manager = PrismaManager.getInstance();
+        client = {
+            user: { findMany: jest.fn(async () => []) },
+            $connect: jest.fn(async () => {}),
+            $disconnect: jest.fn(async () => {}),
+        };
+        (manager as any).databases = new Map([['test', client]]);
+        (manager as any).configs = new Map([
+            ['test', { name: 'test', schemaPath: 'schema.prisma', isGenerated: true }],
+        ]);
+        (manager as any).replicaPools = new Map();
+        (manager as any).poolConfigs = new Map([['test', { max: 4 }]]);
+        (manager as any).poolTracker = new PoolTracker();
+        (manager as any).initialized = true;
+        (manager as any).getSchemaProvider = () => 'postgresql';
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('설정을 PrismaPg 에 넘기고, 연결 후 getStatus 에 풀 상태를 표시한다', async () => {
+        (manager as any).poolConfigs.set('test', { max: 4, applicationName: 'api' });
+        const options = await (manager as any).buildClientOptions(
+            'test',
+            'postgresql://app:secret@db:5432/app',
+        );
+        expect(options.adapter.config).toEqual({
+            connectionString: 'postgresql://app:secret@db:5432/app',
+            max: 4,
+            application_name: 'api',
+        });
+        expect(manager.getStatus().databases[0]).not.toHaveProperty('pool');
+
+        // PrismaClient 가 $connect 할 때 부르는 adapter factory 의 connect (pg.Pool 은 쿼리 전까지 연결하지 않는다)
+        const adapter = await options.adapter.connect();
+        expect(manager.getStatus().databases[0].pool).toEqual({
+            total: 0,
+            idle: 0,
+            waiting: 0,
+            max: 4,
+            timeouts: 0,
+        });
+        await adapter.dispose();
+    });
+
+    it('P2024 는 풀 상태와 함께 기록하고 타임아웃 수를 센다', async () => {
+        const tracker: PoolTracker = (manager as any).poolTracker;
+        await tracker.track('test', makeFactory(makeDriver(4, 0, 7)), 4).connect();
+        client.user.findMany.mockRejectedValueOnce(new Error('Invalid argument'));
+        const warn = jest.spyOn(require('@ext/winston').log, 'Warn');
+
+        await expect(manager.getWrap('test').user.findMany()).rejects.toThrow(/Invalid argument/);
+        expect(tracker.stats('test')?.timeouts).toBe(0);
+
+        // 재시도 대기 없이 바로 실패하도록 재연결 재시도를 막는다
+        jest.spyOn(manager as any, 'isConnectionError').mockReturnValue(false);
+        client.user.findMany.mockRejectedValueOnce(poolTimeoutError());
+        await expect(manager.getWrap('test').user.findMany()).rejects.toThrow(/Timed out/);
+
+        expect(manager.getStatus().databases[0].pool).toEqual({
+            total: 4,
+            idle: 0,
+            waiting: 7,
+            max: 4,
+            timeouts: 1,
+        });
+        expect(warn).toHaveBeenCalledWith(
+            'Connection pool timeout (P2024): test',
+            expect.objectContaining({
+                pool: 'primary',
+                stats: expect.objectContaining({ waiting: 7 }),
+                config: { max: 4 },
+            }),
+        );
+    });
+});
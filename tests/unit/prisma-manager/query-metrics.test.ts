@@ -0,0 +1,122 @@
+import { PrismaManager } from '@lib/data/database/prismaManager';
+import { queryMetrics, sanitizeQueryArgs, CLIENT_MODEL } from '@lib/data/database/queryMetrics';
+import { log } from '@ext/winston';
+
+/**
+ * getWrap 프록시의 쿼리 메트릭 기록 + slow query 로그 테스트.
+ */
+describe('PrismaManager 쿼리 메트릭', () => {
+    const OLD_ENV = process.env;
+    let manager: PrismaManager;
+
+    beforeEach(() => {
+        process.env = { ...OLD_ENV };
+        queryMetrics.reset();
+        manager = PrismaManager.getInstance();
+        (manager as any).databases = new Map();
+        (manager as any).initialized = true; // getWrap 가 initialized 검사를 하므로 우회
+    });
+
+    afterEach(() => {
+        process.env = OLD_ENV;
+        jest.restoreAllMocks();
+    });
+
+    it('모델 연산과 $ 메서드 호출을 DB·모델·연산별로 집계한다', async () => {
+        (manager as any).databases.set('main', {
+            user: {
+                findMany: jest.fn(async () => []),
+                create: jest.fn(async () => {
+                    throw new Error('unique violation');
+                }),
+            },
+            $queryRaw: jest.fn(async () => [{ one: 1 }]),
+        });
+        const wrap = manager.getWrap('main');
+
+        await wrap.user.findMany();
+        await wrap.user.findMany({ where: { id: 1 } });
+        await expect(wrap.user.create({ data: {} })).rejects.toThrow('unique violation');
+        await wrap.$queryRaw`SELECT 1`;
+
+        const snap = queryMetrics.snapshot();
+        expect(snap.total).toBe(4);
+        expect(snap.errors).toBe(1);
+        expect(snap.databases).toEqual([
+            expect.objectContaining({ database: 'main', count: 4, errors: 1 }),
+        ]);
+        const byName = Object.fromEntries(snap.top.map((q) => [`${q.model}.${q.operation}`, q]));
+        expect(byName['user.findMany']).toEqual(expect.objectContaining({ count: 2, errors: 0 }));
+        expect(byName['user.create']).toEqual(expect.objectContaining({ count: 1, errors: 1 }));
+        expect(byName[`${CLIENT_MODEL}.$queryRaw`].count).toBe(1);
+    });
+
+    it('기준을 넘은 쿼리는 모델·연산·정리된 인자로 slow query 로그를 남긴다', async () => {
+        process.env.DB_SLOW_QUERY_MS = '20';
+        const warn = jest.spyOn(log, 'Warn').mockImplementation(() => undefined as any);
+        (manager as any).databases.set('main', {
+            user: {
+                findMany: jest.fn(
+                    () => new Promise((resolve) => setTimeout(() => resolve([]), 40)),
+                ),
+                findFirst: jest.fn(async () => null),
+            },
+        });
+        const wrap = manager.getWrap('main');
+
+        await wrap.user.findFirst({ where: { email: 'a@b.c' } });
+        await wrap.user.findMany({
+            where: { email: 'secret@example.com', age: { gt: 30 } },
+            orderBy: { createdAt: 'desc' },
+            take: 10,
+        });
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        const [message, meta] = warn.mock.calls[0] as unknown as [string, any];
+        expect(message).toMatch(/^Slow query: main\.user\.findMany took \d+(\.\d)?ms$/);
+        expect(meta).toEqual(
+            expect.objectContaining({ database: 'main', model: 'user', operation: 'findMany' }),
+        );
+        expect(meta.args).toEqual({
+            where: { email: '?', age: { gt: '?' } },
+            orderBy: { createdAt: 'desc' },
+            take: 10,
+        });
+
+        const snap = queryMetrics.snapshot();
+        expect(snap.slowThresholdMs).toBe(20);
+        expect(snap.recentSlow).toEqual([
+            expect.objectContaining({ model: 'user', operation: 'findMany' }),
+        ]);
+        expect(snap.databases[0].slow).toBe(1);
+    });
+
+    it('DB_SLOW_QUERY_MS=0 이면 slow query 로그를 끈다', () => {
+        process.env.DB_SLOW_QUERY_MS = '0';
+        const warn = jest.spyOn(log, 'Warn').mockImplementation(() => undefined as any);
+        queryMetrics.record('main', 'user', 'findMany', 99999, []);
+        expect(warn).not.toHaveBeenCalled();
+        expect(queryMetrics.snapshot().slowThresholdMs).toBe(0);
+    });
+
+    it('raw 쿼리는 파라미터를 빼고 SQL 텍스트만, 트랜잭션은 형태만 남긴다', () => {
+        const strings = Object.assign(['SELECT * FROM users WHERE email = ', ''], {
+            raw: [],
+        });
+        expect(sanitizeQueryArgs('$queryRaw', [strings, 'secret@example.com'])).toEqual({
+            sql: 'SELECT * FROM users WHERE email = ?',
+            params: 1,
+        });
+        expect(sanitizeQueryArgs('$executeRawUnsafe', ['DELETE FROM t WHERE id = $1', 7])).toEqual({
+            sql: 'DELETE FROM t WHERE id = $1',
+            params: 1,
+        });
+        expect(sanitizeQueryArgs('$transaction', [[1, 2, 3]])).toBe('[3 operations]');
+        expect(sanitizeQueryArgs('$transaction', [async () => undefined])).toBe('[interactive]');
+        expect(
+            sanitizeQueryArgs('createMany', [{ data: [{ a: 1 }, { a: 2 }, { a: 3 }, { a: 4 }] }]),
+        ).toEqual({
+            data: [{ a: '?' }, { a: '?' }, { a: '?' }, '…1 more'],
+        });
+    });
+});
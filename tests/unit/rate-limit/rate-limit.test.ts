@@ -0,0 +1,206 @@
+import express from 'express';
+import request from 'supertest';
+import {
+    rateLimit,
+    resolveRateLimitKey,
+    describeRateLimit,
+} from '@lib/http/rateLimiting/rateLimit';
+import type { RateLimitOptions } from '@lib/http/rateLimiting/rateLimit';
+import { MemoryRateLimitStore } from '@lib/http/rateLimiting/rateLimitStore';
+import type { RateLimitStore } from '@lib/http/rateLimiting/rateLimitStore';
+import { ExpressRouter } from '@lib/http/routing/expressRouter';
+import { defaultGlobalMiddleware } from '@lib/http/routing/globalMiddleware';
+import { buildOpenApiDocument } from '@lib/devtools/documentation';
+
+jest.mock('@lib/data/di/dependencyInjector', () => ({
+    DependencyInjector: { getInstance: () => ({ getInjectedModules: () => ({}) }) },
+}));
+
+describe('MemoryRateLimitStore', () => {
+    it('고정 윈도: 윈도 안에서 누적하고 끝나면 새 윈도를 연다', async () => {
+        let now = 1_000;
+        const store = new MemoryRateLimitStore(() => now);
+
+        expect(await store.incrementWindow('k', 1_000)).toEqual({ count: 1, resetAt: 2_000 });
+        expect((await store.incrementWindow('k', 1_000)).count).toBe(2);
+
+        now = 2_000;
+        expect(await store.incrementWindow('k', 1_000)).toEqual({ count: 1, resetAt: 3_000 });
+    });
+
+    it('토큰 버킷: 용량만큼 버스트를 허용하고 시간에 비례해 채운다', async () => {
+        let now = 0;
+        const store = new MemoryRateLimitStore(() => now);
+        const bucket = { capacity: 2, refillPerMs: 1 / 1_000 };
+
+        expect((await store.consumeTokens('k', bucket, 1)).remaining).toBe(1);
+        expect((await store.consumeTokens('k', bucket, 1)).allowed).toBe(true);
+        const denied = await store.consumeTokens('k', bucket, 1);
+        expect(denied).toEqual({ allowed: false, remaining: 0, resetAt: 1_000 });
+
+        now = 1_000;
+        expect((await store.consumeTokens('k', bucket, 1)).allowed).toBe(true);
+    });
+});
+
+describe('rateLimit 미들웨어', () => {
+    function buildApp(options: RateLimitOptions) {
+        const app = express();
+        app.get('/a', rateLimit(options), (_req, res) => res.json({ ok: true }));
+        app.get('/b', rateLimit(options), (_req, res) => res.json({ ok: true }));
+        return app;
+    }
+
+    it('RateLimit-* 헤더를 붙이고 한도를 넘으면 429 JSON:API 에러와 Retry-After', async () => {
+        const app = buildApp({ limit: 2, windowMs: 60_000, store: new MemoryRateLimitStore() });
+
+        const first = await request(app).get('/a');
+        expect(first.status).toBe(200);
+        expect(first.headers['ratelimit-limit']).toBe('2');
+        expect(first.headers['ratelimit-remaining']).toBe('1');
+        expect(first.headers['ratelimit-policy']).toBe('2;w=60');
+        expect(Number(first.headers['ratelimit-reset'])).toBeGreaterThan(0);
+
+        await request(app).get('/a');
+        const limited = await request(app).get('/a');
+        expect(limited.status).toBe(429);
+        expect(limited.headers['retry-after']).toBeDefined();
+        expect(limited.body.errors[0]).toMatchObject({
+            status: '429',
+            code: 'RATE_LIMIT_EXCEEDED',
+            title: 'Too Many Requests',
+        });
+
+        // scope 기본값은 라우트별 — 다른 경로는 따로 센다
+        expect((await request(app).get('/b')).status).toBe(200);
+    });
+
+    it('apiKey 키는 헤더별로 따로 세고, 헤더가 없으면 IP 로 센다', async () => {
+        const app = buildApp({
+            limit: 1,
+            windowMs: 60_000,
+            key: 'apiKey',
+            store: new MemoryRateLimitStore(),
+        });
+
+        expect((await request(app).get('/a').set('X-API-Key', 'one')).status).toBe(200);
+        expect((await request(app).get('/a').set('X-API-Key', 'one')).status).toBe(429);
+        expect((await request(app).get('/a').set('X-API-Key', 'two')).status).toBe(200);
+        expect((await request(app).get('/a')).status).toBe(200);
+    });
+
+    it('skip 과 저장소 장애(fail-open)는 요청을 통과시킨다', async () => {
+        const broken: RateLimitStore = {
+            incrementWindow: () => Promise.reject(new Error('down')),
+            consumeTokens: () => Promise.reject(new Error('down')),
+            reset: () => Promise.resolve(),
+        };
+        const app = buildApp({ limit: 1, windowMs: 1_000, store: broken });
+        expect((await request(app).get('/a')).status).toBe(200);
+        expect((await request(app).get('/a')).status).toBe(200);
+
+        const skipped = buildApp({
+            limit: 1,
+            windowMs: 1_000,
+            store: new MemoryRateLimitStore(),
+            skip: () => true,
+        });
+        await request(skipped).get('/a');
+        expect((await request(skipped).get('/a')).status).toBe(200);
+    });
+
+    it('잘못된 옵션은 생성 시 에러', () => {
+        expect(() => rateLimit({ limit: 0, windowMs: 1_000 })).toThrow(/limit/);
+        expect(() => rateLimit({ limit: 1, windowMs: 0 })).toThrow(/windowMs/);
+    });
+});
+
+describe('resolveRateLimitKey / describeRateLimit', () => {
+    const req = (extra: Record<string, unknown>) =>
+        ({ ip: '1.2.3.4', get: () => undefined, ...extra }) as any;
+
+    it('user 키는 req.kusto.user.id → req.user.id, 없으면 IP', () => {
+        expect(
+            resolveRateLimitKey(req({ kusto: { user: { id: 'u1' } }, user: { id: 7 } }), {
+                limit: 1,
+                windowMs: 1,
+                key: 'user',
+            }),
+        ).toBe('user:u1');
+        expect(
+            resolveRateLimitKey(req({ user: { id: 7 } }), { limit: 1, windowMs: 1, key: 'user' }),
+        ).toBe('user:7');
+        expect(resolveRateLimitKey(req({}), { limit: 1, windowMs: 1, key: 'user' })).toBe(
+            'ip:1.2.3.4',
+        );
+    });
+
+    it('OpenAPI 요약은 함수 키를 custom 으로 표시한다', () => {
+        expect(
+            describeRateLimit({
+                limit: 5,
+                windowMs: 1_500,
+                algorithm: 'token-bucket',
+                key: () => 'x',
+            }),
+        ).toEqual({ limit: 5, windowSeconds: 2, algorithm: 'token-bucket', key: 'custom' });
+    });
+});
+
+describe('rateLimit 옵션 연결', () => {
+    it('RouteDocOptions.rateLimit 은 라우트에 리미터를 건다', async () => {
+        const router = new ExpressRouter();
+        router.POST((_req, res) => res.json({ ok: true }), {
+            rateLimit: { limit: 1, windowMs: 60_000, store: new MemoryRateLimitStore() },
+        });
+        const app = express();
+        app.use(router.build());
+
+        expect((await request(app).post('/')).status).toBe(200);
+        expect((await request(app).post('/')).status).toBe(429);
+    });
+
+    it('defaultGlobalMiddleware({ rateLimit }) 는 cors 뒤에 전역 리미터를 넣는다', async () => {
+        const stack = defaultGlobalMiddleware({
+            disableRequestLog: true,
+            rateLimit: { limit: 1, windowMs: 60_000, store: new MemoryRateLimitStore() },
+        });
+        expect(stack).toHaveLength(6);
+
+        const app = express();
+        app.use(stack);
+        app.get('/x', (_req, res) => res.json({ ok: true }));
+        app.get('/y', (_req, res) => res.json({ ok: true }));
+        expect((await request(app).get('/x')).status).toBe(200);
+        // 전역 scope 는 경로와 관계없이 공유
+        expect((await request(app).get('/y')).status).toBe(429);
+    });
+
+    it('OpenAPI 에 x-rate-limit 과 429 응답을 싣는다', () => {
+        const doc = buildOpenApiDocument({
+            routes: [
+                {
+                    method: 'POST',
+                    path: '/login',
+                    rateLimit: {
+                        limit: 5,
+                        windowSeconds: 60,
+                        algorithm: 'fixed-window',
+                        key: 'ip',
+                    },
+                },
+            ],
+            schemas: {},
+            env: { NODE_ENV: 'development' } as NodeJS.ProcessEnv,
+            packageJson: { name: 'x', version: '1.0.0' },
+        });
+        const op = doc.paths['/login'].post!;
+        expect(op['x-rate-limit']).toEqual({
+            limit: 5,
+            windowSeconds: 60,
+            algorithm: 'fixed-window',
+            key: 'ip',
+        });
+        expect(op.responses['429'].headers).toHaveProperty('Retry-After');
+    });
+});
@@ -0,0 +1,99 @@
+import {
+    RequestHandler as CustomRequestHandler,
+    ValidatedRequest,
+} from '@lib/http/validation/requestHandler';
+import { StandardSchemaV1, isStandardSchema } from '@lib/http/validation/standardSchema';
+
+/** Zod 등과 같은 모양의 최소 Standard Schema 구현 (테스트용) */
+function standardSchema<Output>(
+    check: (value: any) => StandardSchemaV1.Result<Output>,
+    options: { async?: boolean } = {},
+): StandardSchemaV1<unknown, Output> {
+    return {
+        '~standard': {
+            version: 1,
+            vendor: 'test',
+            validate: (value) => (options.async ? Promise.resolve(check(value)) : check(value)),
+        },
+    };
+}
+
+const createUser = standardSchema<{ name: string; age: number }>((value) => {
+    const issues: StandardSchemaV1.Issue[] = [];
+    if (typeof value?.name !== 'string') issues.push({ message: 'Required', path: ['name'] });
+    const age = Number(value?.age);
+    if (!Number.isInteger(age)) issues.push({ message: 'Expected integer', path: ['age'] });
+    return issues.length > 0 ? { issues } : { value: { name: value.name, age } };
+});
+
+function mockRes() {
+    return {
+        statusCode: 200,
+        status(c: number) {
+            this.statusCode = c;
+            return this;
+        },
+        json(b: any) {
+            (this as any).body = b;
+            return this;
+        },
+        body: undefined as any,
+    };
+}
+
+describe('validateRequest — Standard Schema', () => {
+    it('Standard Schema 구현체를 판별한다', () => {
+        expect(isStandardSchema(createUser)).toBe(true);
+        expect(isStandardSchema({ name: { type: 'string' } })).toBe(false);
+        expect(isStandardSchema(null)).toBe(false);
+    });
+
+    it('라이브러리가 반환한 출력값을 validatedData 에 담는다', () => {
+        const req: any = { body: { name: 'kim', age: '30', extra: true }, query: {} };
+        const next = jest.fn();
+        CustomRequestHandler.validateRequest({ body: createUser })(req, mockRes() as any, next);
+
+        expect(next).toHaveBeenCalledWith();
+        expect(req.validatedData.body).toEqual({ name: 'kim', age: 30 });
+    });
+
+    it('issue 는 경로가 붙은 422 검증 에러로 변환된다', () => {
+        const res = mockRes();
+        const next = jest.fn();
+        CustomRequestHandler.validateRequest({ body: createUser })(
+            { body: { age: 'x' } } as any,
+            res as any,
+            next,
+        );
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.statusCode).toBe(422);
+        expect(res.body.error.details).toEqual([
+            { field: 'name', message: 'name: Required', source: 'body' },
+            { field: 'age', message: 'age: Expected integer', source: 'body' },
+        ]);
+    });
+
+    it('비동기 validate 와 프레임워크 Schema 를 함께 쓸 수 있다', async () => {
+        const asyncUser = standardSchema(createUser['~standard'].validate as any, { async: true });
+        const req: any = { body: { name: 'lee', age: 7 }, query: { page: '2' } };
+
+        await new Promise<void>((resolve) => {
+            CustomRequestHandler.validateRequest({
+                body: asyncUser,
+                query: { page: { type: 'integer', default: 1 } },
+            })(req, mockRes() as any, () => resolve());
+        });
+
+        expect(req.validatedData).toEqual({ body: { name: 'lee', age: 7 }, query: { page: 2 } });
+    });
+
+    it('validatedData 타입은 Standard Schema 의 출력 타입으로 추론된다', () => {
+        type Body = ValidatedRequest<{ body: typeof createUser }>['validatedData']['body'];
+        const body: Body = { name: 'a', age: 1 };
+        // @ts-expect-error age 는 number 이다
+        const wrong: Body = { name: 'a', age: '1' };
+
+        expect([body, wrong]).toHaveLength(2);
+    });
+});
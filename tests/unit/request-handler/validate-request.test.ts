@@ -0,0 +1,62 @@
+import { RequestHandler as CustomRequestHandler } from '@lib/http/validation/requestHandler';
+
+function mockRes() {
+    return {
+        statusCode: 200,
+        status(c: number) {
+            this.statusCode = c;
+            return this;
+        },
+        json(b: any) {
+            (this as any).body = b;
+            return this;
+        },
+        body: undefined as any,
+    };
+}
+
+function run(config: any, req: any) {
+    const res = mockRes();
+    const next = jest.fn();
+    CustomRequestHandler.validateRequest(config)(req, res as any, next);
+    return { res, next, req };
+}
+
+describe('validateRequest 정규화', () => {
+    it('req.validatedData 에 default / 타입 변환이 적용된 값을 담는다', () => {
+        const { next, req } = run(
+            {
+                query: {
+                    page: { type: 'integer', default: 1 },
+                    size: { type: 'integer', default: 20 },
+                },
+                params: { id: { type: 'integer', required: true } },
+            },
+            { query: { size: '50', debug: '1' }, params: { id: '7' }, body: {} },
+        );
+        expect(next).toHaveBeenCalled();
+        expect(req.validatedData).toEqual({
+            query: { page: 1, size: 50 },
+            params: { id: 7 },
+        });
+    });
+
+    it('unknownFields: reject 이면 스키마 밖 필드를 422 로 거부하고 소스별로 지정할 수 있다', () => {
+        const config = {
+            body: { name: { type: 'string' } },
+            query: { q: { type: 'string' } },
+            unknownFields: { body: 'reject' },
+        };
+
+        const rejected = run(config, { body: { name: 'a', role: 'admin' }, query: {} });
+        expect(rejected.next).not.toHaveBeenCalled();
+        expect(rejected.res.statusCode).toBe(422);
+        expect(rejected.res.body.error.details).toEqual([
+            expect.objectContaining({ field: 'role', source: 'body' }),
+        ]);
+
+        const allowed = run(config, { body: { name: 'a' }, query: { q: 'x', page: '2' } });
+        expect(allowed.next).toHaveBeenCalled();
+        expect(allowed.req.validatedData.query).toEqual({ q: 'x' });
+    });
+});
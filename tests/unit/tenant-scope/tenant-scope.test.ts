@@ -0,0 +1,198 @@
+import { TenantScope } from '@lib/data/database/tenantScope';
+import { BaseRepository } from '@lib/data/database/baseRepository';
+import { ERROR_CODES } from '@lib/http/errors/errorCodes';
+
+const fields = (...names: string[]) =>
+    new Map(names.map((name) => [name, { type: 'String', isList: false, kind: 'scalar' } as any]));
+
+const reqWith = (tenant?: string): any => ({ headers: { 'x-tenant': tenant } });
+
+class NoteRepository extends BaseRepository<any> {
+    protected getDatabaseName() {
+        return 'default' as any;
+    }
+    get db$(): any {
+        return this.client;
+    }
+}
+
+/** 인자를 그대로 돌려주는 가짜 delegate */
+function fakeDelegate() {
+    const echo = () => jest.fn(async (args: any) => args);
+    return {
+        findMany: echo(),
+        findUnique: echo(),
+        count: echo(),
+        create: echo(),
+        createMany: echo(),
+        update: echo(),
+        upsert: echo(),
+    };
+}
+
+describe('TenantScope', () => {
+    afterEach(() => {
+        TenantScope.reset();
+    });
+
+    it('설정 전에는 어떤 모델도 스코프 대상이 아니다', async () => {
+        expect(TenantScope.isScopedModel('Note', fields('tenantId'))).toBe(false);
+        expect(await TenantScope.conditionFor('Note', fields('tenantId'), reqWith('t1'))).toBe(
+            undefined,
+        );
+    });
+
+    it('테넌트 컬럼 유무로 대상 모델을 판단하고 models / exclude 로 조정한다', () => {
+        TenantScope.configure({ resolve: () => 't1' });
+        expect(TenantScope.isScopedModel('Note', fields('id', 'tenantId'))).toBe(true);
+        expect(TenantScope.isScopedModel('Country', fields('id'))).toBe(false);
+
+        TenantScope.configure({ resolve: () => 't1', exclude: ['Note'] });
+        expect(TenantScope.isScopedModel('Note', fields('tenantId'))).toBe(false);
+
+        TenantScope.configure({ field: 'orgId', resolve: () => 't1', models: ['Audit'] });
+        expect(TenantScope.isScopedModel('Audit', null)).toBe(true);
+        expect(TenantScope.isScopedModel('Note', fields('orgId'))).toBe(false);
+    });
+
+    it('resolver 는 요청마다 한 번만 호출되고 where / data 조건을 만든다', async () => {
+        const resolve = jest.fn(async (req: any) => req.headers['x-tenant']);
+        TenantScope.configure({ resolve });
+        const req = reqWith('t1');
+
+        const condition = await TenantScope.conditionFor('Note', fields('tenantId'), req);
+        await TenantScope.conditionFor('Note', fields('tenantId'), req);
+
+        expect(resolve).toHaveBeenCalledTimes(1);
+        expect(condition).toEqual({
+            tenantId: 't1',
+            where: { tenantId: 't1' },
+            data: { tenantId: 't1' },
+        });
+    });
+
+    it('테넌트를 식별하지 못하면 401(UNAUTHORIZED) 을 던진다', async () => {
+        TenantScope.configure({ resolve: (req: any) => req.headers['x-tenant'] });
+        await expect(
+            TenantScope.conditionFor('Note', fields('tenantId'), reqWith()),
+        ).rejects.toEqual(
+            expect.objectContaining({ code: ERROR_CODES.UNAUTHORIZED, statusCode: 401 }),
+        );
+    });
+
+    it('미들웨어와 run() 이 전파한 컨텍스트로 req 없이 테넌트를 해석한다', async () => {
+        TenantScope.configure({ resolve: (req: any) => req.headers['x-tenant'] });
+
+        const fromRequest = await new Promise((resolve) => {
+            TenantScope.middleware(reqWith('t1'), {} as any, () => {
+                setTimeout(() => resolve(TenantScope.resolve()), 0);
+            });
+        });
+        expect(fromRequest).toBe('t1');
+
+        expect(await TenantScope.run('t2', () => TenantScope.resolve())).toBe('t2');
+        expect(await TenantScope.resolve()).toBeUndefined();
+    });
+
+    it('BaseRepository client 는 스코프 대상 모델의 where 와 create 데이터에 현재 테넌트를 주입한다', async () => {
+        const note = fakeDelegate();
+        const tag = fakeDelegate();
+        const repo = new NoteRepository({
+            getFieldTypeMap: (_db: string, model: string) =>
+                model === 'Note' ? fields('id', 'tenantId') : fields('id'),
+            getWrap: () => ({ note, tag }),
+        } as any);
+
+        // 설정 전에는 원래 클라이언트 그대로
+        expect(repo.db$.note).toBe(note);
+
+        TenantScope.configure({ resolve: () => undefined });
+        expect(repo.db$.tag).toBe(tag);
+
+        await TenantScope.run('t1', async () => {
+            const db = repo.db$;
+            expect(await db.note.findMany()).toEqual({ where: { tenantId: 't1' } });
+            expect(await db.note.findMany({ where: { tenantId: 't2' } })).toEqual({
+                where: { AND: [{ tenantId: 't2' }, { tenantId: 't1' }] },
+            });
+            expect(await db.note.findUnique({ where: { id: 1 } })).toEqual({
+                where: { id: 1, tenantId: 't1' },
+            });
+            expect(await db.note.create({ data: { title: 'a', tenantId: 't2' } })).toEqual({
+                data: { title: 'a', tenantId: 't1' },
+            });
+            expect(await db.note.createMany({ data: [{ title: 'a' }] })).toEqual({
+                data: [{ title: 'a', tenantId: 't1' }],
+            });
+            expect(
+                await db.note.update({ where: { id: 1 }, data: { title: 'b', tenantId: 't2' } }),
+            ).toEqual({ where: { id: 1, tenantId: 't1' }, data: { title: 'b', tenantId: 't1' } });
+            expect(
+                await db.note.upsert({
+                    where: { id: 1 },
+                    create: { title: 'c' },
+                    update: { title: 'c' },
+                }),
+            ).toEqual({
+                where: { id: 1, tenantId: 't1' },
+                create: { title: 'c', tenantId: 't1' },
+                update: { title: 'c' },
+            });
+        });
+
+        await expect(repo.db$.note.count()).rejects.toEqual(
+            expect.objectContaining({ statusCode: 401 }),
+        );
+        expect(note.count).not.toHaveBeenCalled();
+    });
+
+    it('스코프 client 의 $transaction 은 대화형 tx 와 배열형 쿼리 모두에 테넌트를 적용한다', async () => {
+        const note = fakeDelegate();
+        const txNote = fakeDelegate();
+        const $transaction = jest.fn(async (input: any) =>
+            typeof input === 'function' ? input({ note: txNote }) : input,
+        );
+        // PrismaPromise 처럼 실행 전 쿼리 객체를 돌려주는 delegate
+        note.findMany = jest.fn((args: any) => ({ query: 'findMany', args })) as any;
+        const repo = new NoteRepository({
+            getFieldTypeMap: (_db: string, model: string) =>
+                model === 'Note' ? fields('id', 'tenantId') : fields('id'),
+            getWrap: () => ({ note, $transaction }),
+        } as any);
+        TenantScope.configure({ resolve: () => undefined });
+
+        await TenantScope.run('t1', async () => {
+            const db = repo.db$;
+            expect(await db.$transaction(async (tx: any) => tx.note.findMany())).toEqual({
+                where: { tenantId: 't1' },
+            });
+
+            const pending = db.note.findMany({ where: { id: 1 } });
+            expect(note.findMany).not.toHaveBeenCalled();
+            expect(await db.$transaction([pending])).toEqual([
+                { query: 'findMany', args: { where: { AND: [{ id: 1 }, { tenantId: 't1' }] } } },
+            ]);
+        });
+    });
+
+    it('관계 체이닝은 스코프가 적용된 쿼리에 이어 붙인다', async () => {
+        const tags = jest.fn(async () => ['tag']);
+        const note = { findUnique: jest.fn((args: any) => ({ args, tags })) };
+        const noteFields = fields('id', 'tenantId');
+        noteFields.set('tags', { type: 'Tag', isList: true, kind: 'object' });
+        const repo = new NoteRepository({
+            getFieldTypeMap: (_db: string, model: string) =>
+                model === 'Note' ? noteFields : fields('id'),
+            getWrap: () => ({ note }),
+        } as any);
+        TenantScope.configure({ resolve: () => undefined });
+
+        await TenantScope.run('t1', async () => {
+            const query = repo.db$.note.findUnique({ where: { id: 1 } });
+            expect(query.title).toBeUndefined();
+            expect(await query.tags({ take: 1 })).toEqual(['tag']);
+        });
+        expect(note.findUnique).toHaveBeenCalledWith({ where: { id: 1, tenantId: 't1' } });
+        expect(tags).toHaveBeenCalledWith({ take: 1 });
+    });
+});
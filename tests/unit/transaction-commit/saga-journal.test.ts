@@ -0,0 +1,367 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TransactionCommitManager } from '@lib/data/database/transactionCommitManager';
+import {
+    FileSagaJournal,
+    PrismaSagaJournal,
+    createSagaJournal,
+    registerSagaStep,
+    clearSagaSteps,
+} from '@lib/data/database/sagaJournal';
+import type { SagaJournal, SagaRecord } from '@lib/data/database/sagaJournal';
+
+/** 저장할 때마다 스냅샷을 남기는 메모리 저널 */
+class RecordingJournal implements SagaJournal {
+    records = new Map<string, SagaRecord>();
+    snapshots: SagaRecord[] = [];
+
+    async save(record: SagaRecord): Promise<void> {
+        const copy = JSON.parse(JSON.stringify(record));
+        this.records.set(record.id, copy);
+        this.snapshots.push(copy);
+    }
+    async get(id: string): Promise<SagaRecord | null> {
+        const record = this.records.get(id);
+        return record ? JSON.parse(JSON.stringify(record)) : null;
+    }
+    async list(): Promise<SagaRecord[]> {
+        return [...this.records.values()].map((record) => JSON.parse(JSON.stringify(record)));
+    }
+    async claim(record: SagaRecord, claimedAt: number): Promise<boolean> {
+        const current = this.records.get(record.id);
+        if (current?.status !== record.status || current.updatedAt !== record.updatedAt) {
+            return false;
+        }
+        current.updatedAt = claimedAt;
+        return true;
+    }
+}
+
+function makeManager() {
+    const client = {
+        $queryRaw: jest.fn(async () => [{ ok: 1 }]),
+        $transaction: jest.fn(async (cb: any, _opts?: any) => cb({ tx: true })),
+    };
+    const fakePrisma: any = {
+        isConnected: jest.fn(() => true),
+        healthCheck: jest.fn(async () => ({
+            databases: ['shop', 'billing'].map((name) => ({ name, status: 'healthy' })),
+        })),
+        getClientSync: jest.fn(() => client),
+        getProviderForDatabase: jest.fn(() => 'sqlite'),
+    };
+    return new TransactionCommitManager(fakePrisma);
+}
+
+function sagaRecord(overrides: Partial<SagaRecord>): SagaRecord {
+    return {
+        id: 'saga_1',
+        status: 'running',
+        steps: [],
+        createdAt: 0,
+        updatedAt: 0,
+        ...overrides,
+    };
+}
+
+describe('Saga 저널', () => {
+    const calls: string[] = [];
+
+    beforeEach(() => {
+        calls.length = 0;
+        clearSagaSteps();
+        registerSagaStep('reserveStock', {
+            execute: async (_tx, args) => calls.push(`reserve ${args.sku}`),
+            compensate: async (_tx, args) => calls.push(`release ${args.sku}`),
+        });
+        registerSagaStep('chargeCard', {
+            execute: async (_tx, args) => calls.push(`charge ${args.amount}`),
+            compensate: async (_tx, args) => calls.push(`refund ${args.amount}`),
+        });
+    });
+
+    it('이름 붙은 단계를 등록된 핸들러로 실행하고 상태를 커밋 전후로 기록한다', async () => {
+        const journal = new RecordingJournal();
+        const result = await makeManager().executeDistributedTransaction(
+            [
+                { database: 'shop', step: 'reserveStock', args: { sku: 'A' }, priority: 2 },
+                { database: 'billing', step: 'chargeCard', args: { amount: 10 }, priority: 1 },
+            ] as any,
+            { enableLogging: false, journal },
+        );
+
+        expect(result.success).toBe(true);
+        expect(calls).toEqual(['reserve A', 'charge 10']);
+
+        const saved = journal.records.get(result.globalTransactionId)!;
+        expect(saved.status).toBe('committed');
+        expect(saved.steps).toEqual([
+            { name: 'reserveStock', database: 'shop', state: 'committed', args: { sku: 'A' } },
+            { name: 'chargeCard', database: 'billing', state: 'committed', args: { amount: 10 } },
+        ]);
+        // 실행 전에 running + committing 이 먼저 기록된다
+        expect(journal.snapshots[0].status).toBe('running');
+        expect(journal.snapshots[1].steps[0].state).toBe('committing');
+    });
+
+    it('단계가 실패하면 커밋된 단계를 등록된 compensate 로 보상하고 compensated 로 기록한다', async () => {
+        registerSagaStep('chargeCard', {
+            execute: async () => {
+                throw new Error('card declined');
+            },
+        });
+        const journal = new RecordingJournal();
+        const result = await makeManager().executeDistributedTransaction(
+            [
+                { database: 'shop', step: 'reserveStock', args: { sku: 'A' }, priority: 2 },
+                { database: 'billing', step: 'chargeCard', args: { amount: 10 }, priority: 1 },
+            ] as any,
+            { enableLogging: false, journal },
+        );
+
+        expect(result.success).toBe(false);
+        expect(calls).toEqual(['reserve A', 'release A']);
+        const saved = journal.records.get(result.globalTransactionId)!;
+        expect(saved.status).toBe('compensated');
+        expect(saved.steps.map((step) => step.state)).toEqual(['compensated', 'failed']);
+        expect(saved.steps[1].error).toBe('card declined');
+    });
+
+    it('저널에 기록하지 못하면 아무 단계도 실행하지 않는다', async () => {
+        const journal: SagaJournal = {
+            save: async () => {
+                throw new Error('disk full');
+            },
+            get: async () => null,
+            list: async () => [],
+            claim: async () => false,
+        };
+        const result = await makeManager().executeDistributedTransaction(
+            [{ database: 'shop', step: 'reserveStock', args: { sku: 'A' } }] as any,
+            { enableLogging: false, journal },
+        );
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('disk full');
+        expect(calls).toEqual([]);
+    });
+
+    it('등록되지 않은 단계 이름은 실행 전에 실패한다', async () => {
+        const result = await makeManager().executeDistributedTransaction(
+            [{ database: 'shop', step: 'unknown' }] as any,
+            { enableLogging: false, journal: false },
+        );
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toMatch(/'unknown' is not registered/);
+    });
+
+    it('recoverSagas 는 남은 단계를 이어서 실행하거나, 커밋 여부가 불명확하면 보상한다', async () => {
+        const journal = new RecordingJournal();
+        await journal.save(
+            sagaRecord({
+                id: 'saga_resume',
+                steps: [
+                    {
+                        name: 'reserveStock',
+                        database: 'shop',
+                        state: 'committed',
+                        args: { sku: 'A' },
+                    },
+                    {
+                        name: 'chargeCard',
+                        database: 'billing',
+                        state: 'pending',
+                        args: { amount: 5 },
+                    },
+                ],
+            }),
+        );
+        await journal.save(
+            sagaRecord({
+                id: 'saga_unknown',
+                createdAt: 1,
+                steps: [
+                    {
+                        name: 'reserveStock',
+                        database: 'shop',
+                        state: 'committed',
+                        args: { sku: 'B' },
+                    },
+                    {
+                        name: 'chargeCard',
+                        database: 'billing',
+                        state: 'committing',
+                        args: { amount: 7 },
+                    },
+                ],
+            }),
+        );
+        // 방금 갱신된 Saga 는 다른 인스턴스가 진행 중일 수 있으므로 건드리지 않는다
+        await journal.save(
+            sagaRecord({
+                id: 'saga_live',
+                createdAt: 2,
+                updatedAt: Date.now(),
+                steps: [{ name: 'reserveStock', database: 'shop', state: 'pending' }],
+            }),
+        );
+        journal.list = async (filter: any = {}) =>
+            [...journal.records.values()].filter(
+                (record) =>
+                    filter.status.includes(record.status) &&
+                    record.updatedAt < filter.updatedBefore,
+            );
+
+        const results = await makeManager().recoverSagas({ journal, staleAfterMs: 60_000 });
+
+        expect(results).toEqual([
+            { id: 'saga_resume', action: 'retried', status: 'committed' },
+            { id: 'saga_unknown', action: 'compensated', status: 'compensated' },
+        ]);
+        expect(calls).toEqual(['charge 5', 'refund 7', 'release B']);
+        expect(journal.records.get('saga_live')!.status).toBe('running');
+        expect(journal.records.get('saga_unknown')!.steps.map((step) => step.state)).toEqual([
+            'compensated',
+            'compensated',
+        ]);
+    });
+
+    it('여러 인스턴스가 동시에 복구해도 각 Saga 는 선점한 한 곳에서만 처리한다', async () => {
+        const journal = new RecordingJournal();
+        await journal.save(
+            sagaRecord({
+                id: 'saga_resume',
+                steps: [
+                    {
+                        name: 'chargeCard',
+                        database: 'billing',
+                        state: 'pending',
+                        args: { amount: 3 },
+                    },
+                ],
+            }),
+        );
+
+        const [first, second] = await Promise.all([
+            makeManager().recoverSagas({ journal, staleAfterMs: 60_000 }),
+            makeManager().recoverSagas({ journal, staleAfterMs: 60_000 }),
+        ]);
+
+        expect([...first, ...second]).toEqual([
+            { id: 'saga_resume', action: 'retried', status: 'committed' },
+        ]);
+        expect(calls).toEqual(['charge 3']);
+    });
+
+    it('보상 핸들러가 없으면 failed 로 남기고, retry/compensate 는 상태를 검사한다', async () => {
+        const journal = new RecordingJournal();
+        await journal.save(
+            sagaRecord({
+                steps: [
+                    {
+                        name: 'reserveStock',
+                        database: 'shop',
+                        state: 'committed',
+                        args: { sku: 'A' },
+                    },
+                    { name: 'sendMail', database: 'shop', state: 'committed' },
+                ],
+            }),
+        );
+        const manager = makeManager();
+
+        const record = await manager.compensateSaga('saga_1', { journal });
+        expect(record.status).toBe('failed');
+        expect(record.steps[0].state).toBe('compensated');
+        expect(record.steps[1]).toMatchObject({
+            state: 'committed',
+            error: 'No registered compensate handler',
+        });
+
+        await expect(manager.retrySaga('saga_1', { journal })).rejects.toThrow(
+            /only running sagas can be retried/,
+        );
+        await expect(manager.compensateSaga('missing', { journal })).rejects.toThrow(/not found/);
+    });
+});
+
+describe('FileSagaJournal', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'kusto-saga-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('Saga 마다 파일로 저장하고 상태/갱신 시각으로 거른다', async () => {
+        const journal = new FileSagaJournal({ directory });
+        expect(await journal.list()).toEqual([]);
+
+        await journal.save(sagaRecord({ id: 'saga_b', createdAt: 2, updatedAt: 50 }));
+        await journal.save(sagaRecord({ id: 'saga_a', createdAt: 1, updatedAt: 10 }));
+        await journal.save(
+            sagaRecord({ id: 'saga_a', status: 'committed', createdAt: 1, updatedAt: 20 }),
+        );
+
+        expect((await journal.get('saga_a'))!.status).toBe('committed');
+        expect(await journal.get('saga_none')).toBeNull();
+        expect((await journal.list()).map((record) => record.id)).toEqual(['saga_a', 'saga_b']);
+        expect((await journal.list({ status: 'running' })).map((record) => record.id)).toEqual([
+            'saga_b',
+        ]);
+        expect(await journal.list({ updatedBefore: 20 })).toEqual([]);
+        expect(fs.readdirSync(directory).sort()).toEqual(['saga_a.json', 'saga_b.json']);
+    });
+
+    it('저장된 status/updatedAt 이 같을 때만 선점한다', async () => {
+        const journal = new FileSagaJournal({ directory });
+        const record = sagaRecord({ updatedAt: 10 });
+        await journal.save(record);
+
+        expect(await journal.claim(record, 20)).toBe(true);
+        expect(await journal.claim(record, 30)).toBe(false);
+        expect((await journal.get('saga_1'))!.updatedAt).toBe(20);
+        expect(await journal.claim(sagaRecord({ id: 'saga_none' }), 40)).toBe(false);
+    });
+
+    it('디렉터리 밖을 가리키는 id 는 거부한다', async () => {
+        const journal = new FileSagaJournal({ directory });
+        await expect(journal.get('../secret')).rejects.toThrow(/invalid saga id/);
+    });
+});
+
+describe('PrismaSagaJournal', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('status/updatedAt 조건부 갱신으로 선점하고, 갱신된 행이 없으면 false', async () => {
+        const updateMany = jest
+            .fn()
+            .mockResolvedValueOnce({ count: 1 })
+            .mockResolvedValueOnce({ count: 0 });
+        const { prismaManager } = require('@lib/data/database/prismaManager');
+        jest.spyOn(prismaManager, 'getClient').mockResolvedValue({ sagaLog: { updateMany } });
+        const journal = new PrismaSagaJournal({ database: 'default' });
+        const record = sagaRecord({ updatedAt: 10 });
+
+        expect(await journal.claim(record, 20)).toBe(true);
+        expect(await journal.claim(record, 20)).toBe(false);
+        expect(updateMany).toHaveBeenCalledWith({
+            where: { id: 'saga_1', status: 'running', updatedAt: new Date(10) },
+            data: { updatedAt: new Date(20) },
+        });
+    });
+});
+
+describe('createSagaJournal', () => {
+    it('SAGA_JOURNAL 형식을 해석한다', () => {
+        expect(createSagaJournal(undefined)).toBeUndefined();
+        expect(createSagaJournal('file:./.kusto/sagas')).toBeInstanceOf(FileSagaJournal);
+        expect(createSagaJournal('prisma:default:sagaLog')).toBeInstanceOf(PrismaSagaJournal);
+        expect(() => createSagaJournal('redis://x')).toThrow(/Invalid saga journal/);
+    });
+});
@@ -0,0 +1,203 @@
+import { UnitOfWork } from '@lib/data/database/unitOfWork';
+import { BaseRepository } from '@lib/data/database/baseRepository';
+
+/** $transaction(fn) 호출마다 새 tx 객체를 만들고, fn 이 throw 하면 롤백으로 기록하는 가짜 클라이언트 */
+function fakeClient(name: string) {
+    const log: string[] = [];
+    let seq = 0;
+    const client = {
+        name,
+        log,
+        $transaction: jest.fn(async (fn: (tx: any) => Promise<any>, _options?: any) => {
+            const tx = { name: `${name}-tx${++seq}` };
+            try {
+                const result = await fn(tx);
+                log.push(`commit ${tx.name}`);
+                return result;
+            } catch (error) {
+                log.push(`rollback ${tx.name}`);
+                throw error;
+            }
+        }),
+    };
+    return client;
+}
+
+class UserRepository extends BaseRepository<any> {
+    protected getDatabaseName() {
+        return 'main' as any;
+    }
+    current() {
+        return this.client;
+    }
+    onCommit(callback: () => unknown) {
+        return this.$afterCommit(callback);
+    }
+}
+
+class OrderRepository extends UserRepository {}
+
+describe('UnitOfWork', () => {
+    it('열린 작업 단위의 tx 를 콜백 전체(비동기 경계 포함)에 전파한다', async () => {
+        const client = fakeClient('main');
+        expect(UnitOfWork.isActive('main')).toBe(false);
+
+        await UnitOfWork.run(
+            'main',
+            async (tx) => {
+                await new Promise((resolve) => setTimeout(resolve, 1));
+                expect(UnitOfWork.clientFor('main')).toBe(tx);
+                expect(UnitOfWork.clientFor('other')).toBeUndefined();
+            },
+            { client },
+        );
+
+        expect(UnitOfWork.isActive('main')).toBe(false);
+        expect(client.log).toEqual(['commit main-tx1']);
+    });
+
+    it('required 는 바깥 트랜잭션에 합류하고 새 트랜잭션을 열지 않는다', async () => {
+        const client = fakeClient('main');
+        await UnitOfWork.run(
+            'main',
+            async (outer) => {
+                const inner = await UnitOfWork.run('main', async (tx) => tx, { client });
+                expect(inner).toBe(outer);
+            },
+            { client },
+        );
+        expect(client.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('requiresNew 는 바깥 트랜잭션이 있으면, mandatory 는 없으면 에러', async () => {
+        const client = fakeClient('main');
+        await expect(
+            UnitOfWork.run('main', async () => undefined, { propagation: 'mandatory', client }),
+        ).rejects.toThrow(/mandatory/);
+
+        await expect(
+            UnitOfWork.run(
+                'main',
+                () => UnitOfWork.run('main', async () => 1, { propagation: 'requiresNew' }),
+                { client },
+            ),
+        ).rejects.toThrow(/requiresNew/);
+        expect(client.log).toEqual(['rollback main-tx1']);
+    });
+
+    it('데이터베이스별로 따로 전파된다', async () => {
+        const main = fakeClient('main');
+        const audit = fakeClient('audit');
+
+        await UnitOfWork.run(
+            'main',
+            async (mainTx) => {
+                await UnitOfWork.run(
+                    'audit',
+                    async (auditTx) => {
+                        expect(UnitOfWork.clientFor('main')).toBe(mainTx);
+                        expect(UnitOfWork.clientFor('audit')).toBe(auditTx);
+                    },
+                    { client: audit },
+                );
+                expect(UnitOfWork.isActive('audit')).toBe(false);
+            },
+            { client: main },
+        );
+        expect(audit.log).toEqual(['commit audit-tx1']);
+        expect(main.log).toEqual(['commit main-tx1']);
+    });
+
+    it('afterCommit 은 가장 바깥 트랜잭션이 커밋된 뒤 실행되고, 롤백되면 버린다', async () => {
+        const client = fakeClient('main');
+        const calls: string[] = [];
+
+        await UnitOfWork.run(
+            'main',
+            async () => {
+                await UnitOfWork.run('main', async () => {
+                    await UnitOfWork.afterCommit('main', () => calls.push('inner'));
+                });
+                await UnitOfWork.afterCommit('main', () => calls.push('outer'));
+                expect(calls).toEqual([]);
+            },
+            { client },
+        );
+        expect(calls).toEqual(['inner', 'outer']);
+
+        await expect(
+            UnitOfWork.run(
+                'main',
+                async () => {
+                    await UnitOfWork.afterCommit('main', () => calls.push('rolled-back'));
+                    throw new Error('fail');
+                },
+                { client },
+            ),
+        ).rejects.toThrow('fail');
+        expect(calls).toEqual(['inner', 'outer']);
+
+        // 작업 단위 밖이면 즉시 실행
+        await UnitOfWork.afterCommit('main', () => calls.push('now'));
+        expect(calls).toEqual(['inner', 'outer', 'now']);
+    });
+
+    it('afterCommit 콜백의 실패는 커밋 결과에 영향을 주지 않는다', async () => {
+        const client = fakeClient('main');
+        const calls: string[] = [];
+        const result = await UnitOfWork.run(
+            'main',
+            async () => {
+                await UnitOfWork.afterCommit('main', () => {
+                    throw new Error('mail down');
+                });
+                await UnitOfWork.afterCommit('main', () => calls.push('second'));
+                return 'ok';
+            },
+            { client },
+        );
+        expect(result).toBe('ok');
+        expect(calls).toEqual(['second']);
+    });
+});
+
+describe('BaseRepository 와 작업 단위', () => {
+    function makeManager(client: any) {
+        return { getWrap: () => client } as any;
+    }
+
+    it('$transaction 안에서 다른 리포지터리의 client 도 같은 tx 를 쓴다', async () => {
+        const client = fakeClient('main');
+        const users = new UserRepository(makeManager(client));
+        const orders = new OrderRepository(makeManager(client));
+
+        expect(users.current()).toBe(client);
+        await users.$transaction(async (tx) => {
+            expect(orders.current()).toBe(tx);
+            // 중첩 $transaction 은 합류한다
+            await orders.$transaction(async (inner) => expect(inner).toBe(tx));
+        });
+        expect(client.$transaction).toHaveBeenCalledTimes(1);
+        expect(users.current()).toBe(client);
+    });
+
+    it('$transaction 의 propagation 과 $afterCommit', async () => {
+        const client = fakeClient('main');
+        const users = new UserRepository(makeManager(client));
+        const orders = new OrderRepository(makeManager(client));
+        const sent: string[] = [];
+
+        await expect(
+            users.$transaction(async () => undefined, { propagation: 'mandatory' }),
+        ).rejects.toThrow(/mandatory/);
+
+        await users.$transaction(async () => {
+            await orders.onCommit(() => sent.push('mail'));
+            expect(sent).toEqual([]);
+            await expect(
+                orders.$transaction(async () => undefined, { propagation: 'requiresNew' }),
+            ).rejects.toThrow(/requiresNew/);
+        });
+        expect(sent).toEqual(['mail']);
+    });
+});
@@ -1,4 +1,5 @@
-import { Validator } from '@lib/http/validation/validator';
+import { Validator, FieldSchema, Schema } from '@lib/http/validation/validator';
+import type { ExtractFieldType } from '@lib/http/validation/requestHandler';
 
 describe('Validator.validate — string 타입', () => {
     it('필수 필드가 누락됐을 때 isValid 가 false 이고 errors 에 해당 필드가 포함된다', () => {
@@ -173,3 +174,205 @@ describe('Validator.validate — 입력단 보안 denylist 미적용 (정상 콘
         expect(result.isValid).toBe(true);
     });
 });
+
+describe('Validator.validate — 배열 items / 중첩 객체 / oneOf', () => {
+    const lineItems: FieldSchema = {
+        type: 'array',
+        min: 1,
+        items: {
+            type: 'object',
+            properties: {
+                sku: { type: 'string', required: true },
+                qty: { type: 'number', min: 1 },
+            },
+        },
+    };
+
+    it('배열 요소를 items 스키마로 검증하고 에러 경로에 인덱스와 속성명을 포함한다', () => {
+        const ok = Validator.validate({ lines: [{ sku: 'A', qty: 2 }] }, { lines: lineItems });
+        expect(ok.isValid).toBe(true);
+
+        const result = Validator.validate(
+            { lines: [{ sku: 'A', qty: 2 }, { qty: 0 }] },
+            { lines: lineItems },
+        );
+        expect(result.isValid).toBe(false);
+        expect(result.errors.map((e) => e.field)).toEqual(['lines[1].sku', 'lines[1].qty']);
+    });
+
+    it('uniqueItems 는 원시값과 객체(키 순서 무관)의 중복을 거부한다', () => {
+        const schema: Schema = { tags: { type: 'array', uniqueItems: true } };
+        expect(Validator.validate({ tags: ['a', 'b'] }, schema).isValid).toBe(true);
+        expect(Validator.validate({ tags: ['a', 'a'] }, schema).isValid).toBe(false);
+        expect(
+            Validator.validate(
+                {
+                    tags: [
+                        { a: 1, b: 2 },
+                        { b: 2, a: 1 },
+                    ],
+                },
+                schema,
+            ).errors,
+        ).toEqual([expect.objectContaining({ field: 'tags[1]' })]);
+        expect(Validator.validate({ tags: [1, '1'] }, schema).isValid).toBe(true);
+    });
+
+    it('discriminator 태그로 oneOf variant 를 골라 검증한다', () => {
+        const payment: FieldSchema = {
+            type: 'object',
+            discriminator: 'method',
+            oneOf: [
+                {
+                    type: 'object',
+                    properties: {
+                        method: { type: 'string', enum: ['card'] },
+                        cardToken: { type: 'string', required: true },
+                    },
+                },
+                {
+                    type: 'object',
+                    properties: {
+                        method: { type: 'string', enum: ['bank'] },
+                        iban: { type: 'string', required: true },
+                    },
+                },
+            ],
+        };
+
+        expect(
+            Validator.validate({ payment: { method: 'bank', iban: 'DE00' } }, { payment }).isValid,
+        ).toBe(true);
+        expect(
+            Validator.validate({ payment: { method: 'card', iban: 'DE00' } }, { payment }).errors,
+        ).toEqual([expect.objectContaining({ field: 'payment.cardToken' })]);
+        expect(
+            Validator.validate({ payment: { method: 'cash' } }, { payment }).errors[0].message,
+        ).toBe('payment.method must be one of: card, bank');
+    });
+
+    it('discriminator 가 없으면 정확히 하나의 variant 와 일치해야 한다', () => {
+        const value: FieldSchema = {
+            type: 'object',
+            oneOf: [
+                { type: 'object', properties: { a: { type: 'string', required: true } } },
+                { type: 'object', properties: { b: { type: 'number', required: true } } },
+            ],
+        };
+        expect(Validator.validate({ value: { a: 'x' } }, { value }).isValid).toBe(true);
+        expect(Validator.validate({ value: { c: 1 } }, { value }).isValid).toBe(false);
+        expect(Validator.validate({ value: { a: 'x', b: 1 } }, { value }).isValid).toBe(false);
+    });
+
+    it('ExtractFieldType 은 items / properties / oneOf 에서 타입을 추론한다', () => {
+        const field = <T extends FieldSchema>(schema: T) => schema;
+        const _lines = field({
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { sku: { type: 'string', required: true }, qty: { type: 'number' } },
+            },
+        });
+        const _shape = field({
+            type: 'object',
+            oneOf: [
+                { type: 'object', properties: { r: { type: 'number', required: true } } },
+                { type: 'object', properties: { w: { type: 'string', required: true } } },
+            ],
+        });
+
+        const typedLines: ExtractFieldType<typeof _lines> = [{ sku: 'A', qty: undefined }];
+        const typedShape: ExtractFieldType<typeof _shape>[] = [{ r: 1 }, { w: 'x' }];
+        // @ts-expect-error sku 는 string 이어야 한다
+        const wrongLines: ExtractFieldType<typeof _lines> = [{ sku: 1, qty: 1 }];
+
+        expect(typedLines[0].sku).toBe('A');
+        expect(typedShape).toHaveLength(2);
+        expect(wrongLines).toHaveLength(1);
+    });
+});
+
+describe('Validator.validate — 정규화 (default / transform / 타입 변환 / unknownFields)', () => {
+    it('number / integer / boolean / date 는 문자열 입력을 변환한 값으로 반환한다', () => {
+        const result = Validator.validate(
+            { page: '5', ratio: '0.5', active: 'true', since: '2024-01-02T00:00:00.000Z' },
+            {
+                page: { type: 'integer' },
+                ratio: { type: 'number' },
+                active: { type: 'boolean' },
+                since: { type: 'date' },
+            },
+        );
+        expect(result.isValid).toBe(true);
+        expect(result.data).toEqual({
+            page: 5,
+            ratio: 0.5,
+            active: true,
+            since: new Date('2024-01-02T00:00:00.000Z'),
+        });
+    });
+
+    it('integer / number / date / uuid 형식이 아니면 검증이 실패한다', () => {
+        const result = Validator.validate(
+            { page: '1.5', count: '5abc', since: 'yesterday', id: 'not-a-uuid' },
+            {
+                page: { type: 'integer' },
+                count: { type: 'number' },
+                since: { type: 'date' },
+                id: { type: 'uuid' },
+            },
+        );
+        expect(result.errors.map((e) => e.message)).toEqual([
+            'page must be an integer',
+            'count must be a number',
+            'since must be a valid date',
+            'id must be a valid UUID',
+        ]);
+    });
+
+    it('값이 없으면 default(값 또는 함수)를 적용하고 transform 결과를 반환한다', () => {
+        const result = Validator.validate(
+            { email: '  A@B.COM ' },
+            {
+                size: { type: 'integer', default: 20, max: 100 },
+                tags: { type: 'array', default: () => [] },
+                email: { type: 'string', transform: (v: string) => v.trim().toLowerCase() },
+            },
+        );
+        expect(result.data).toEqual({ size: 20, tags: [], email: 'a@b.com' });
+    });
+
+    it('enum 은 변환된 값으로 비교한다', () => {
+        const schema: Schema = { level: { type: 'integer', enum: [1, 2, 3] } };
+        expect(Validator.validate({ level: '2' }, schema).data).toEqual({ level: 2 });
+        expect(Validator.validate({ level: '4' }, schema).isValid).toBe(false);
+    });
+
+    it('unknownFields 모드로 스키마 밖의 필드를 제거 / 거부 / 허용한다 (중첩 객체 포함)', () => {
+        const schema: Schema = {
+            name: { type: 'string' },
+            meta: { type: 'object', properties: { tag: { type: 'string' } } },
+        };
+        const data = { name: 'a', extra: 1, meta: { tag: 't', secret: 'x' } };
+
+        expect(Validator.validate(data, schema).data).toEqual({ name: 'a', meta: { tag: 't' } });
+        expect(Validator.validate(data, schema, { unknownFields: 'allow' }).data).toEqual(data);
+
+        const rejected = Validator.validate(data, schema, { unknownFields: 'reject' });
+        expect(rejected.isValid).toBe(false);
+        expect(rejected.errors.map((e) => e.field).sort()).toEqual(['extra', 'meta.secret']);
+    });
+
+    it('ExtractFieldType 은 enum(as const) / transform / default 를 반영한다', () => {
+        const field = <T extends FieldSchema>(schema: T) => schema;
+        const _status = field({ type: 'string', enum: ['draft', 'published'] as const });
+        const _slug = field({ type: 'string', transform: (v: string) => v.split('-') });
+
+        const typedStatus: ExtractFieldType<typeof _status> = 'draft';
+        const typedSlug: ExtractFieldType<typeof _slug> = ['a', 'b'];
+        // @ts-expect-error enum 에 없는 값
+        const wrongStatus: ExtractFieldType<typeof _status> = 'archived';
+
+        expect([typedStatus, typedSlug, wrongStatus]).toHaveLength(3);
+    });
+});
@@ -19,6 +19,25 @@ function buildAliasesFromTsconfig() {
     return alias;
 }
 
+// DB별 커넥션 풀 설정(kusto.db.ts)은 번들 실행에서 .ts 를 읽을 수 없으므로, DB 폴더마다 별도 entry 로
+// 컴파일해 dist/src/app/db/<name>/kusto.db.js (CommonJS) 로 내보낸다. 런타임(connectionPool)이 이 파일을 require 한다.
+function buildDatabaseConfigEntries() {
+    const dbRoot = path.resolve(__dirname, 'src/app/db');
+    if (!fs.existsSync(dbRoot)) return {};
+
+    const entries = {};
+    for (const dirent of fs.readdirSync(dbRoot, { withFileTypes: true })) {
+        if (!dirent.isDirectory()) continue;
+        const file = path.join(dbRoot, dirent.name, 'kusto.db.ts');
+        if (!fs.existsSync(file)) continue;
+        entries[`src/app/db/${dirent.name}/kusto.db`] = {
+            import: file,
+            library: { type: 'commonjs2' },
+        };
+    }
+    return entries;
+}
+
 // 환경 변수 로딩 함수
 function loadEnvironmentVariables() {
     // 기본 .env 파일 로드
@@ -75,10 +94,11 @@ module.exports = (env, argv) => {
         mode: mode,
         entry: {
             bundle: path.resolve(__dirname, './src/index.ts'),
+            ...buildDatabaseConfigEntries(),
         },
         output: {
             path: path.resolve(__dirname, 'dist'),
-            filename: 'server.js',
+            filename: (pathData) => (pathData.chunk.name === 'bundle' ? 'server.js' : '[name].js'),
         },
         module: {
             rules: [
@@ -143,6 +163,18 @@ module.exports = (env, argv) => {
                             return relativePath;
                         },
                     },
+
+                    // DB별 커넥션 풀 설정 (kusto.db.js, 없으면 건너뜀)
+                    // 옆에 kusto.db.ts 가 있으면 그 파일이 entry 로 컴파일되므로 복사하지 않는다 (개발 실행도 .ts 를 먼저 읽음)
+                    {
+                        from: 'src/app/db/**/kusto.db.js',
+                        to: ({ context, absoluteFilename }) => {
+                            const relativePath = path.relative(context, absoluteFilename);
+                            return relativePath;
+                        },
+                        filter: (file) => !fs.existsSync(file.replace(/\.js$/, '.ts')),
+                        noErrorOnMissing: true,
+                    },
                 ],
             }),
         ],